@@ -21,9 +21,10 @@
 import * as esbuild from 'esbuild';
 import { readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join, dirname } from 'path';
-import { createHash } from 'crypto';
+import { createHash, createPrivateKey, createPublicKey } from 'crypto';
 import { fileURLToPath, pathToFileURL } from 'url';
 import { execSync } from 'child_process';
+import { signBuildManifest, type SignedBuildManifest } from '../src/v2/build-manifest.js';
 
 // ESM equivalents for __filename and __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -32,6 +33,63 @@ const __dirname = dirname(__filename);
 // Determinism: Use fixed timestamp for all builds
 const SOURCE_DATE_EPOCH = process.env.SOURCE_DATE_EPOCH || '1609459200'; // 2021-01-01 00:00:00 UTC
 
+// Dev-only: keep the credential-free resetKMS path in the worker (`pnpm build:dev`).
+// Production builds compile it out and fail if any trace of it survives.
+const DEV_UNAUTHENTICATED_RESET = process.env.KMS_DEV_UNAUTHENTICATED_RESET === '1';
+
+// Parent origins the enclave client will handshake with, baked into the bundle so
+// an embedder cannot widen it by editing the iframe URL. Comma-separated override
+// via KMS_ALLOWED_PARENT_ORIGINS; the default mirrors frame-ancestors in _headers.
+const ALLOWED_PARENT_ORIGINS = parseAllowedOrigins(
+  process.env.KMS_ALLOWED_PARENT_ORIGINS ||
+    'https://allthe.services,https://alpha.allthe.services,https://beta.allthe.services,' +
+      'https://phase2-demo.allthe.services'
+);
+
+// Release signing key for the build manifests: a PEM Ed25519 private key (PKCS#8, e.g.
+// `openssl genpkey -algorithm ed25519`). KMSUser pins its public half (releaseKeys).
+const RELEASE_SIGNING_KEY = process.env.KMS_RELEASE_SIGNING_KEY;
+
+// Builds that are never deployed (`pnpm build:dev`, `pnpm build:reproducible` for hash
+// verification, CI) opt out of signing. Any other build without a key fails.
+const UNSIGNED_BUILD = process.env.KMS_UNSIGNED_BUILD === '1';
+
+// How long a signed manifest is accepted; a release must be re-signed and redeployed
+// before it runs out.
+const MANIFEST_VALIDITY_DAYS = Number(process.env.KMS_MANIFEST_VALIDITY_DAYS || '30');
+
+// Withdrawn worker bundles (comma-separated SHA-256 hex) that KMSUser must refuse.
+const DEPRECATED_WORKERS = parseWorkerHashes(process.env.KMS_DEPRECATED_WORKERS || '');
+
+function parseWorkerHashes(list: string): string[] {
+  const hashes = list.split(',').map((h) => h.trim().toLowerCase()).filter((h) => h.length > 0);
+  for (const hash of hashes) {
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      throw new Error(`KMS_DEPRECATED_WORKERS: "${hash}" is not a SHA-256 hex digest`);
+    }
+  }
+  return hashes;
+}
+
+function parseAllowedOrigins(list: string): string[] {
+  const origins = list.split(',').map((o) => o.trim()).filter((o) => o.length > 0);
+  for (const origin of origins) {
+    let serialized: string | null = null;
+    try {
+      serialized = new URL(origin).origin;
+    } catch {
+      // fall through to the error below
+    }
+    if (serialized !== origin) {
+      throw new Error(`KMS_ALLOWED_PARENT_ORIGINS: not a serialized origin: ${origin}`);
+    }
+  }
+  if (origins.length === 0) {
+    throw new Error('KMS_ALLOWED_PARENT_ORIGINS must name at least one origin');
+  }
+  return origins;
+}
+
 const rootDir = join(__dirname, '..');
 const srcDir = join(rootDir, 'src');
 const distDir = join(rootDir, 'dist');
@@ -82,6 +140,7 @@ async function buildEnclaveWorker(): Promise<{ outputPath: string; hash: string;
     define: {
       'process.env.BUILD_TIME': JSON.stringify(SOURCE_DATE_EPOCH),
       'process.env.KMS_VERSION': JSON.stringify('2.0.0'),
+      '__KMS_DEV_UNAUTHENTICATED_RESET__': JSON.stringify(DEV_UNAUTHENTICATED_RESET),
     },
 
     // External dependencies (none - we bundle everything)
@@ -93,6 +152,14 @@ async function buildEnclaveWorker(): Promise<{ outputPath: string; hash: string;
 
   // Generate SHA-256 hash for content addressing
   const content = readFileSync(tempPath);
+
+  // The unauthenticated reset must not ship: its warning string is the marker
+  // that the dev branch survived dead-code elimination.
+  if (DEV_UNAUTHENTICATED_RESET) {
+    console.warn('⚠️  DEV build: resetKMS accepts unauthenticated requests');
+  } else if (content.includes('unauthenticated resetKMS')) {
+    throw new Error('Production worker bundle still contains the unauthenticated resetKMS path');
+  }
   const hash = createHash('sha256').update(content).digest('hex');
 
   // Generate SHA-384 SRI hash
@@ -758,6 +825,16 @@ h1 {
   word-break: break-all;
   opacity: 0.9;
 }
+.kms-connect-safety-emoji {
+  font-size: 1.6rem;
+  letter-spacing: 0.15em;
+  margin-bottom: 0.4rem;
+}
+.kms-connect-safety-words {
+  font-size: 0.85rem;
+  opacity: 0.85;
+  margin-top: 0.4rem;
+}
 `;
 
   // Content-address the stylesheet (enclave.{hash}.css), exactly like the client
@@ -782,7 +859,7 @@ h1 {
 
 /**
  * Build the client script for the enclave
- * Compiles src/v2/client.ts and injects the hashed worker filename.
+ * Compiles src/v2/client.ts and injects the hashed worker filename and hash.
  *
  * The client is CONTENT-ADDRESSED (enclave-client.{hash}.js), exactly like the worker
  * (BUG-R05). A stable filename previously meant a deploy that changed the client left
@@ -793,7 +870,10 @@ h1 {
  *
  * @returns SRI hash and content-addressed filename for the client script
  */
-async function buildEnclaveClient(workerFilename: string): Promise<{ sri: string; filename: string }> {
+async function buildEnclaveClient(
+  workerFilename: string,
+  workerHash: string
+): Promise<{ sri: string; filename: string }> {
   console.log('\n📦 Building KMS Enclave Client...');
 
   // Build to a temp path first so we can hash the output and content-address it.
@@ -810,9 +890,14 @@ async function buildEnclaveClient(workerFilename: string): Promise<{ sri: string
     sourcemap: false,
     treeShaking: true,
 
-    // Inject the hashed worker filename at build time
+    // Inject the hashed worker filename (and its full hash, reported to KMSUser for the
+    // signed-manifest check) and the parent-origin allowlist at build time
     define: {
       '__WORKER_FILENAME__': JSON.stringify(`./${workerFilename}`),
+      '__WORKER_SHA256__': JSON.stringify(workerHash),
+      '__KMS_ALLOWED_PARENT_ORIGINS__': JSON.stringify(ALLOWED_PARENT_ORIGINS),
+      // The client routes requests by the same operation policy table as the worker
+      '__KMS_DEV_UNAUTHENTICATED_RESET__': JSON.stringify(DEV_UNAUTHENTICATED_RESET),
     },
 
     // Determinism settings
@@ -1008,6 +1093,58 @@ function generateEnclaveHTML(
     </div>
   </div>
 
+  <!-- KMS reset confirmation (shown in the popup after the unlock for resetKMS).
+       The wipe only proceeds once the user confirms here, in the enclave origin. -->
+  <div id="reset-modal" class="kms-modal hidden">
+    <div class="kms-modal-backdrop"></div>
+    <div class="kms-modal-content">
+      <div class="kms-modal-header">
+        <h3>⚠️ Reset KMS</h3>
+        <p class="kms-modal-subtitle">This permanently deletes every key, lease, contact and audit entry in this KMS.</p>
+      </div>
+      <div class="kms-modal-body">
+        <div id="kms-reset-prompt">
+          <p class="kms-connect-hint">Account: <strong id="kms-reset-user"></strong></p>
+          <div class="kms-mnemonic-warning">⚠️ Your recovery phrase is the only way back to your messages after a reset.</div>
+          <div class="kms-mnemonic-actions">
+            <button id="kms-reset-cancel" type="button" class="kms-auth-btn kms-tertiary">Cancel</button>
+            <button id="kms-reset-confirm" type="button" class="kms-auth-btn kms-primary">Delete everything</button>
+          </div>
+        </div>
+        <div id="kms-reset-finishing" class="kms-modal-loading hidden">
+          <span class="kms-spinner"></span>
+          <span>Resetting…</span>
+        </div>
+      </div>
+    </div>
+  </div>
+
+  <!-- Backup confirmation (shown in the popup after the unlock for exportBackup /
+       importBackup). Nothing is exported or replaced until the user confirms here. -->
+  <div id="backup-modal" class="kms-modal hidden">
+    <div class="kms-modal-backdrop"></div>
+    <div class="kms-modal-content">
+      <div class="kms-modal-header">
+        <h3>🗄️ KMS backup</h3>
+      </div>
+      <div class="kms-modal-body">
+        <div id="kms-backup-prompt">
+          <p class="kms-connect-hint">Account: <strong id="kms-backup-user"></strong></p>
+          <p id="kms-backup-export-note" class="kms-connect-hint hidden">Every key, lease, contact and audit entry is exported, encrypted. The backup opens with this account's passphrase or passkey.</p>
+          <div id="kms-backup-import-note" class="kms-mnemonic-warning hidden">⚠️ Everything in this KMS is replaced by the contents of the backup.</div>
+          <div class="kms-mnemonic-actions">
+            <button id="kms-backup-cancel" type="button" class="kms-auth-btn kms-tertiary">Cancel</button>
+            <button id="kms-backup-confirm" type="button" class="kms-auth-btn kms-primary">Continue</button>
+          </div>
+        </div>
+        <div id="kms-backup-finishing" class="kms-modal-loading hidden">
+          <span class="kms-spinner"></span>
+          <span>Working…</span>
+        </div>
+      </div>
+    </div>
+  </div>
+
   <!-- Connect Modal (rooms-and-trust §3.2/§3.4) — mint (share a link) / accept (paste a link).
        The room secret lives ONLY in this enclave popup: the mint blob is rendered here and
        the accepted blob is entered here; neither ever reaches the PWA. -->
@@ -1059,6 +1196,29 @@ function generateEnclaveHTML(
             <button id="kms-connect-confirm-connect" type="button" class="kms-auth-btn kms-primary">Connect</button>
           </div>
         </div>
+        <!-- Verify: compare the safety number, or scan the other person's safety QR -->
+        <div id="kms-connect-verify" class="hidden">
+          <p class="kms-connect-hint">Scan the other person's safety code, or compare these with what their screen shows — in person or on a call. If anything differs, someone may be impersonating them.</p>
+          <div class="kms-connect-peer">
+            <div id="kms-connect-verify-peer" class="kms-connect-peer-name"></div>
+            <div id="kms-connect-safety-emoji" class="kms-connect-safety-emoji"></div>
+            <code id="kms-connect-safety-digits" class="kms-connect-fp"></code>
+            <div id="kms-connect-safety-words" class="kms-connect-safety-words"></div>
+          </div>
+          <div id="kms-connect-safety-qr" class="kms-connect-qr"></div>
+          <div id="kms-connect-verify-scan" class="kms-connect-scan hidden">
+            <video id="kms-connect-verify-video" class="kms-connect-video" playsinline muted></video>
+          </div>
+          <div id="kms-connect-verify-scan-status" class="kms-connect-meta"></div>
+          <div class="kms-mnemonic-actions">
+            <button id="kms-connect-verify-scan-btn" type="button" class="kms-auth-btn kms-secondary">📷 Scan their code</button>
+          </div>
+          <div class="kms-mnemonic-actions">
+            <button id="kms-connect-verify-cancel" type="button" class="kms-auth-btn kms-tertiary">Cancel</button>
+            <button id="kms-connect-verify-mismatch" type="button" class="kms-auth-btn kms-secondary">Doesn't match</button>
+            <button id="kms-connect-verify-match" type="button" class="kms-auth-btn kms-primary">They match</button>
+          </div>
+        </div>
         <!-- Finishing state (worker processing) -->
         <div id="kms-connect-finishing" class="kms-modal-loading hidden">
           <span class="kms-spinner"></span>
@@ -1160,6 +1320,40 @@ function generateEnclaveHTML(
   console.log(`✅ Generated: ${htmlPath}`);
 }
 
+/**
+ * Sign a build manifest with the release key (KMS_RELEASE_SIGNING_KEY), valid
+ * from now for MANIFEST_VALIDITY_DAYS.
+ *
+ * Unsigned builds (KMS_UNSIGNED_BUILD) write the manifest as is; KMSUser
+ * instances that pin release keys refuse it.
+ */
+async function signManifest<T extends object>(
+  manifest: T
+): Promise<T | SignedBuildManifest<T & { issuedAt: string; expires: string }>> {
+  if (!RELEASE_SIGNING_KEY) {
+    return manifest;
+  }
+  const privateKey = createPrivateKey(RELEASE_SIGNING_KEY);
+  const { x: publicKey } = createPublicKey(privateKey).export({ format: 'jwk' });
+  if (privateKey.asymmetricKeyType !== 'ed25519' || !publicKey) {
+    throw new Error('KMS_RELEASE_SIGNING_KEY must be an Ed25519 private key');
+  }
+  const signingKey = await crypto.subtle.importKey(
+    'pkcs8',
+    privateKey.export({ format: 'der', type: 'pkcs8' }),
+    { name: 'Ed25519' },
+    false,
+    ['sign']
+  );
+  const issuedAt = new Date();
+  const expires = new Date(issuedAt.getTime() + MANIFEST_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+  return signBuildManifest(
+    { ...manifest, issuedAt: issuedAt.toISOString(), expires: expires.toISOString() },
+    signingKey,
+    publicKey
+  );
+}
+
 /**
  * Main build process
  */
@@ -1168,16 +1362,29 @@ async function main() {
   console.log(`SOURCE_DATE_EPOCH: ${SOURCE_DATE_EPOCH}\n`);
 
   try {
+    if (!RELEASE_SIGNING_KEY && !UNSIGNED_BUILD) {
+      throw new Error(
+        'KMS_RELEASE_SIGNING_KEY is not set. Release builds sign their manifest; ' +
+          'set KMS_UNSIGNED_BUILD=1 for a build that will not be deployed.'
+      );
+    }
+    if (!(MANIFEST_VALIDITY_DAYS > 0)) {
+      throw new Error('KMS_MANIFEST_VALIDITY_DAYS must be a positive number of days');
+    }
+
     // Get git commit SHA for reproducible build verification
     const gitCommit = execSync('git rev-parse HEAD').toString().trim();
     console.log(`Git Commit: ${gitCommit}\n`);
 
     // Build the worker bundle
     const { hash, filename, sri: workerSRI } = await buildEnclaveWorker();
+    if (DEPRECATED_WORKERS.includes(hash)) {
+      throw new Error(`KMS_DEPRECATED_WORKERS lists the worker being built (${hash})`);
+    }
 
     // Generate CSS, client script, and HTML
     const { sri: cssSRI, filename: cssFilename } = generateEnclaveCSS();
-    const { sri: clientSRI, filename: clientFilename } = await buildEnclaveClient(filename);
+    const { sri: clientSRI, filename: clientFilename } = await buildEnclaveClient(filename, hash);
     generateEnclaveHTML(hash, cssSRI, cssFilename, clientSRI, clientFilename);
 
     // Copy static assets (logo, favicon) to dist/enclave/
@@ -1195,6 +1402,7 @@ async function main() {
     const manifest = {
       version: '2.0.0',
       buildTime: SOURCE_DATE_EPOCH,
+      allowedParentOrigins: ALLOWED_PARENT_ORIGINS,
       files: {
         worker: {
           path: `enclave/${filename}`,
@@ -1219,8 +1427,11 @@ async function main() {
       }
     };
 
+    if (!RELEASE_SIGNING_KEY) {
+      console.warn('\n⚠️  KMS_UNSIGNED_BUILD: build manifests are UNSIGNED and must not be deployed');
+    }
     const manifestPath = join(distDir, 'enclave/manifest.json');
-    writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+    writeFileSync(manifestPath, JSON.stringify(await signManifest(manifest), null, 2));
     console.log(`\n📋 Build manifest: ${manifestPath}`);
 
     console.log('\n✅ Enclave build complete!');
@@ -1316,17 +1527,21 @@ async function main() {
         }
       },
       allowed: [hash], // Current version is allowed
-      deprecated: [],
+      deprecated: DEPRECATED_WORKERS,
       comment: `Phase 2.1: Deterministic builds with SRI (Subresource Integrity)`
     };
-    writeFileSync(cfManifestPath, JSON.stringify(cfManifest, null, 2));
+    const signedCfManifest = await signManifest(cfManifest);
+    if ('signature' in signedCfManifest) {
+      console.log(`  🔏 Signed with release key ${signedCfManifest.signature.kid}`);
+    }
+    writeFileSync(cfManifestPath, JSON.stringify(signedCfManifest, null, 2));
     console.log(`  ✅ ${cfManifestPath}`);
 
     // Copy .well-known/ directory to dist/enclave/ for CI deployment
     const distWellKnownDir = join(distDir, 'enclave/.well-known');
     mkdirSync(distWellKnownDir, { recursive: true });
     const distManifestPath = join(distWellKnownDir, 'kms-manifest.json');
-    writeFileSync(distManifestPath, JSON.stringify(cfManifest, null, 2));
+    writeFileSync(distManifestPath, JSON.stringify(signedCfManifest, null, 2));
     console.log(`  ✅ ${distManifestPath}`);
 
     // Copy _headers file to dist/enclave/ for CI deployment
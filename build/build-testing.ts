@@ -0,0 +1,58 @@
+#!/usr/bin/env ts-node
+/**
+ * Build script for the `./testing` entry point
+ *
+ * Produces what `@ats/kms-enclave/testing` resolves to:
+ * - dist/testing/kms-harness.js: the headless harness with the whole enclave
+ *   (worker.ts, kms-user.ts and their infrastructure) bundled in, so the
+ *   harness and the worker it drives share one copy of the module state
+ * - dist/testing/types/: declarations, emitted by tsc from tsconfig.testing.json
+ *
+ * Package dependencies (the Signal fork, jsqr, fake-indexeddb) stay external and
+ * resolve from the consuming app. Runs on `prepare`, so a git or workspace
+ * install of the package builds it.
+ */
+
+import * as esbuild from 'esbuild';
+import { rmSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { execSync } from 'child_process';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const rootDir = join(__dirname, '..');
+const outDir = join(rootDir, 'dist/testing');
+
+async function main(): Promise<void> {
+  console.log('📦 Building the testing entry point...');
+  rmSync(outDir, { recursive: true, force: true });
+
+  await esbuild.build({
+    entryPoints: [join(rootDir, 'src/testing/kms-harness.ts')],
+    bundle: true,
+    outfile: join(outDir, 'kms-harness.js'),
+    format: 'esm',
+    target: 'es2022',
+    platform: 'node',
+    packages: 'external',
+    logLevel: 'warning',
+    legalComments: 'none',
+    // The harness runs the production worker: no unauthenticated reset.
+    define: {
+      '__KMS_DEV_UNAUTHENTICATED_RESET__': 'false',
+    },
+  });
+  console.log(`  ✅ ${join(outDir, 'kms-harness.js')}`);
+
+  execSync('tsc -p tsconfig.testing.json', { cwd: rootDir, stdio: 'inherit' });
+  console.log(`  ✅ ${join(outDir, 'types/testing/kms-harness.d.ts')}`);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error: unknown) => {
+    console.error('❌ Build failed:', error);
+    process.exit(1);
+  });
+}
@@ -64,6 +64,13 @@ export default tseslint.config(
       '@typescript-eslint/unbound-method': 'off',
     },
   },
+  {
+    files: ['src/v2/**/*.ts'],
+    rules: {
+      // Shipped enclave code: test doubles stay in tests/ and src/testing/ (the headless harness)
+      'no-restricted-imports': ['error', { paths: ['fake-indexeddb'], patterns: ['**/testing/*'] }],
+    },
+  },
   {
     files: ['scripts/**/*.ts'],
     rules: {
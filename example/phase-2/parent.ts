@@ -522,7 +522,7 @@ async function resetDemo(): Promise<void> {
     resetDemoBtn.textContent = '🔄 Resetting...';
 
     // Call resetKMS to delete and reinitialize the database
-    await kmsUser.resetKMS();
+    await kmsUser.resetKMS('demouser@ats.run');
 
     console.log('[Full Demo] Reset complete!');
     console.log('[Full Demo] Please hard refresh (Ctrl+Shift+R or Cmd+Shift+R) to see the clean state');
@@ -0,0 +1,46 @@
+/**
+ * Verify an audit log export offline
+ *
+ * Usage: tsx scripts/verify-audit-log.ts <export.json> [uakPublicKey]
+ *
+ * Reads a bundle produced by the `exportAuditLog` RPC and checks it with
+ * verifyAuditExport. Pass the user's UAK public key (base64url) to pin the
+ * signer; without it the export is only checked for self-consistency.
+ * Exits 0 when the export verifies, 1 otherwise.
+ */
+
+import { readFileSync } from 'fs';
+import { verifyAuditExport } from '../src/v2/audit-verify';
+import type { AuditLogExport } from '../src/v2/types';
+
+async function main(): Promise<void> {
+  const [file, uakPublicKey] = process.argv.slice(2);
+  if (!file) {
+    console.error('Usage: tsx scripts/verify-audit-log.ts <export.json> [uakPublicKey]');
+    process.exit(2);
+  }
+
+  const bundle = JSON.parse(readFileSync(file, 'utf8')) as AuditLogExport;
+  const result = await verifyAuditExport(bundle, uakPublicKey ? { uakPublicKey } : {});
+  const { manifest } = bundle;
+
+  console.log(`User:     ${manifest.userId}`);
+  console.log(`UAK:      ${manifest.uakPublicKey}${uakPublicKey ? ' (pinned)' : ' (not pinned)'}`);
+  console.log(`Exported: ${new Date(manifest.exportedAt).toISOString()}`);
+  console.log(`Range:    seq ${manifest.firstSeqNum ?? '-'}..${manifest.lastSeqNum ?? '-'} of ${manifest.head.seqNum}`);
+
+  if (result.valid) {
+    console.log(`\n✅ ${result.verified} entries verified`);
+    return;
+  }
+  console.log(`\n❌ Verification failed (${result.errors.length} errors):`);
+  for (const error of result.errors) {
+    console.log(`  - ${error}`);
+  }
+  process.exit(1);
+}
+
+main().catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
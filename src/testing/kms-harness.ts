@@ -0,0 +1,695 @@
+/**
+ * Headless KMS harness for Node integration tests
+ *
+ * Runs the whole enclave in-process so an app's own test suite can drive real
+ * KMS flows through {@link KMSUser} without a browser or a second origin:
+ *
+ *   KMSUser (the PWA API, unchanged)
+ *       ↓ MessageChannel (the `connect` hook instead of an iframe)
+ *   KMSHarness (plays client.ts: unlock and ceremony UI, scripted)
+ *       ↓ an in-process Worker global scope (`self`)
+ *   worker.ts (unchanged, on a fresh fake-indexeddb store)
+ *
+ * WebAuthn is a {@link SoftwareAuthenticator} with the PRF extension, installed
+ * as `navigator.credentials` while the harness runs. Every screen a user would
+ * click through in the enclave (the unlock modal, the recovery-phrase, invite,
+ * safety-number, reset and backup ceremonies) is answered by a script in
+ * {@link KMSHarnessCeremonies}. Flows that open a top-level popup
+ * (setupWithPopup, fullSetup, addEnrollmentWithPopup) are not supported and
+ * fail at once.
+ *
+ * Test-only: apps import it from the package's `./testing` entry point, which
+ * nothing in the enclave build reaches, and it needs fake-indexeddb (an
+ * optional peer dependency) installed. It needs a Node environment without a
+ * DOM, and the worker keeps module state (messaging sessions, lease timers), so
+ * run one harness at a time per process.
+ *
+ * @example
+ * ```typescript
+ * import { KMSHarness } from '@ats/kms-enclave/testing';
+ *
+ * const harness = new KMSHarness({
+ *   ceremonies: { unlock: () => ({ method: 'passphrase', passphrase: 'correct-horse-battery' }) },
+ * });
+ * await harness.init();
+ * await harness.user.setupPassphrase('alice', 'correct-horse-battery');
+ * const lease = await harness.user.createLease({ userId: 'alice', subs: [], ttlHours: 1 });
+ * await harness.terminate();
+ * ```
+ */
+
+import { IDBFactory } from 'fake-indexeddb';
+
+import type { AuthCredentials, RPCMethod, RPCRequest } from '../v2/types';
+import type { SafetyNumber } from '../v2/safety-number';
+import { KMSUser, type KMSUserConfig } from '../v2/kms-user';
+import { initDB, closeDB } from '../v2/storage';
+import { resetAuditLogger } from '../v2/audit';
+import { getOperationPolicy } from '../v2/operation-policy';
+import { KMSError, toRPCErrorDetail } from '../v2/errors';
+import { getErrorMessage } from '../v2/error-utils';
+import { arrayBufferToBase64url, base64urlToArrayBuffer } from '../v2/crypto-utils';
+import { getPRFResults } from '../v2/webauthn-types';
+
+type WorkerModule = typeof import('../v2/worker');
+
+// ============================================================================
+// Software Authenticator
+// ============================================================================
+
+/** Domain separation for PRF inputs (WebAuthn §10.1.4): SHA-256("WebAuthn PRF" || 0x00 || input). */
+const PRF_LABEL = new TextEncoder().encode('WebAuthn PRF');
+
+interface SoftwareCredential {
+  id: ArrayBuffer;
+  rpId: string;
+  userHandle: ArrayBuffer;
+  prfKey: CryptoKey; // HMAC-SHA-256, the credential's hmac-secret
+}
+
+function toBytes(source: BufferSource): Uint8Array {
+  return source instanceof ArrayBuffer
+    ? new Uint8Array(source)
+    : new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+}
+
+function sameBytes(a: BufferSource, b: BufferSource): boolean {
+  const x = toBytes(a);
+  const y = toBytes(b);
+  return x.length === y.length && x.every((byte, i) => byte === y[i]);
+}
+
+/**
+ * An in-memory platform authenticator with the PRF extension, shaped like
+ * `navigator.credentials` for create() and get().
+ *
+ * Credentials are discoverable and user verification always succeeds. PRF is
+ * evaluated as CTAP2 hmac-secret would, so the same credential and salt always
+ * give the same output. There is no attestation and assertions are unsigned:
+ * the enclave only consumes credential IDs and PRF output.
+ */
+export class SoftwareAuthenticator {
+  private credentials: SoftwareCredential[] = [];
+
+  /**
+   * Register a credential (navigator.credentials.create)
+   *
+   * @throws {DOMException} NotSupportedError without `publicKey` options
+   */
+  async create(options: CredentialCreationOptions): Promise<PublicKeyCredential> {
+    const publicKey = options.publicKey;
+    if (!publicKey) {
+      throw new DOMException('Only public-key credentials are supported', 'NotSupportedError');
+    }
+
+    const credential: SoftwareCredential = {
+      id: crypto.getRandomValues(new Uint8Array(16)).buffer,
+      rpId: publicKey.rp.id ?? 'localhost',
+      userHandle: toBytes(publicKey.user.id).slice().buffer,
+      prfKey: await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256', length: 256 }, false, ['sign']),
+    };
+    this.credentials.push(credential);
+
+    const prfInput = publicKey.extensions?.prf?.eval?.first;
+    const prf = publicKey.extensions?.prf
+      ? { enabled: true, ...(prfInput ? { results: { first: await this.evaluatePRF(credential, prfInput) } } : {}) }
+      : undefined;
+    return toPublicKeyCredential(credential, 'webauthn.create', publicKey.challenge, prf);
+  }
+
+  /**
+   * Assert with a registered credential (navigator.credentials.get)
+   *
+   * Picks the first credential in `allowCredentials`, or else the most recent
+   * one for `rpId`.
+   *
+   * @throws {DOMException} NotAllowedError when no credential matches
+   */
+  async get(options: CredentialRequestOptions): Promise<PublicKeyCredential> {
+    const publicKey = options.publicKey;
+    if (!publicKey) {
+      throw new DOMException('Only public-key credentials are supported', 'NotSupportedError');
+    }
+
+    const allowed = publicKey.allowCredentials ?? [];
+    const credential =
+      allowed.length > 0
+        ? this.credentials.find((c) => allowed.some((d) => sameBytes(d.id, c.id)))
+        : this.credentials.filter((c) => publicKey.rpId === undefined || c.rpId === publicKey.rpId).at(-1);
+    if (!credential) {
+      throw new DOMException('No matching credential', 'NotAllowedError');
+    }
+
+    const prfInput = publicKey.extensions?.prf?.eval?.first;
+    const prf = prfInput ? { results: { first: await this.evaluatePRF(credential, prfInput) } } : undefined;
+    return toPublicKeyCredential(credential, 'webauthn.get', publicKey.challenge, prf);
+  }
+
+  /** Forget every credential, as if the authenticator were reset. */
+  clear(): void {
+    this.credentials = [];
+  }
+
+  private async evaluatePRF(credential: SoftwareCredential, input: BufferSource): Promise<ArrayBuffer> {
+    const message = new Uint8Array(PRF_LABEL.length + 1 + input.byteLength);
+    message.set(PRF_LABEL);
+    message.set(toBytes(input), PRF_LABEL.length + 1);
+    const salt = await crypto.subtle.digest('SHA-256', message);
+    return crypto.subtle.sign('HMAC', credential.prfKey, salt);
+  }
+}
+
+function toPublicKeyCredential(
+  credential: SoftwareCredential,
+  type: 'webauthn.create' | 'webauthn.get',
+  challenge: BufferSource,
+  prf: { enabled?: boolean; results?: { first: ArrayBuffer } } | undefined
+): PublicKeyCredential {
+  const clientData = { type, challenge: arrayBufferToBase64url(toBytes(challenge).slice().buffer), origin: 'null' };
+  return {
+    id: arrayBufferToBase64url(credential.id),
+    rawId: credential.id,
+    type: 'public-key',
+    authenticatorAttachment: 'platform',
+    response: {
+      clientDataJSON: new TextEncoder().encode(JSON.stringify(clientData)).buffer,
+      ...(type === 'webauthn.get' ? { userHandle: credential.userHandle } : {}),
+    },
+    getClientExtensionResults: () => (prf ? { prf } : {}),
+  } as unknown as PublicKeyCredential;
+}
+
+/**
+ * Make `authenticator` the global `navigator.credentials`.
+ *
+ * @returns Function restoring what was there before
+ */
+function installCredentials(authenticator: SoftwareAuthenticator): () => void {
+  const scope = globalThis as { navigator?: object };
+  if (!scope.navigator) {
+    Object.defineProperty(scope, 'navigator', {
+      value: { credentials: authenticator },
+      configurable: true,
+      writable: true,
+    });
+    return () => {
+      delete scope.navigator;
+    };
+  }
+
+  const nav = scope.navigator as { credentials?: unknown };
+  const previous = Object.getOwnPropertyDescriptor(nav, 'credentials');
+  Object.defineProperty(nav, 'credentials', { value: authenticator, configurable: true, writable: true });
+  return () => {
+    if (previous) {
+      Object.defineProperty(nav, 'credentials', previous);
+    } else {
+      delete nav.credentials;
+    }
+  };
+}
+
+// ============================================================================
+// In-Process Worker
+// ============================================================================
+
+/**
+ * The Worker global scope worker.ts runs in. The worker registers its message
+ * listener on `self` as its module loads and posts to `self.postMessage`, so
+ * this is installed as `self` before the module is imported.
+ */
+class InProcessWorkerScope extends EventTarget {
+  /** Receives each worker → client message; while null they are dropped */
+  client: ((message: unknown) => void) | null = null;
+
+  postMessage(message: unknown): void {
+    this.client?.(message);
+  }
+
+  /** Hand the worker a client → worker message as a Worker `message` event would */
+  deliver(message: unknown): void {
+    this.dispatchEvent(new MessageEvent('message', { data: message }));
+  }
+}
+
+let inProcessWorker: Promise<{ scope: InProcessWorkerScope; worker: WorkerModule }> | null = null;
+
+/**
+ * Install the worker scope as `self` and import worker.ts into it, once per
+ * process: the module stays loaded, bound to that scope, for every harness.
+ *
+ * @throws {Error} Under a DOM, where `self` is the window and the worker would
+ *   post its events back to itself
+ */
+function loadWorker(): Promise<{ scope: InProcessWorkerScope; worker: WorkerModule }> {
+  if (typeof window !== 'undefined') {
+    throw new Error('KMSHarness needs a Node environment without a DOM');
+  }
+  if (!inProcessWorker) {
+    const scope = new InProcessWorkerScope();
+    (globalThis as { self?: unknown }).self = scope;
+    inProcessWorker = import('../v2/worker').then((worker) => ({ scope, worker }));
+  }
+  return inProcessWorker;
+}
+
+// ============================================================================
+// Ceremony Scripts
+// ============================================================================
+
+/**
+ * What the enclave's unlock modal knows when it asks for credentials
+ */
+export interface UnlockPrompt {
+  /** The operation waiting on the unlock */
+  method: RPCMethod;
+  userId: string;
+  hasPassphrase: boolean;
+  hasPasskeyPrf: boolean;
+  hasPasskeyGate: boolean;
+}
+
+/**
+ * The user's answer to the unlock modal: type a passphrase, press the passkey
+ * button (runs the {@link SoftwareAuthenticator}), or cancel (`null`)
+ */
+export type UnlockChoice = { method: 'passphrase'; passphrase: string } | { method: 'passkey' } | null;
+
+/**
+ * A safety number as the enclave displays it
+ */
+export interface SafetyPrompt extends SafetyNumber {
+  peerUserId: string;
+}
+
+/**
+ * How the user settled a safety-number comparison: the text of the peer's QR
+ * they scanned, a manual match / no-match, or cancel (`null`)
+ */
+export type SafetyVerdict = { method: 'qr'; text: string } | { method: 'manual'; match: boolean } | null;
+
+/**
+ * Scripted answers to every ceremony the enclave would show the user. A script
+ * that throws cancels its ceremony with the error message as the reason.
+ */
+export interface KMSHarnessCeremonies {
+  /**
+   * Credentials for an operation the PWA sent without them.
+   * Default: the passkey if one is enrolled, else cancel.
+   */
+  unlock: (prompt: UnlockPrompt) => UnlockChoice | Promise<UnlockChoice>;
+  /** A new recovery phrase is shown; `true` confirms it was backed up. Default: confirm. */
+  showMnemonic: (mnemonic: string) => boolean | Promise<boolean>;
+  /** Enter a recovery phrase to restore from, or `null` to cancel. Default: cancel. */
+  collectMnemonic: () => string | null | Promise<string | null>;
+  /** A minted invite is shown for sharing; `true` once shared. Default: share. */
+  showInvite: (blob: string) => boolean | Promise<boolean>;
+  /** Paste an invite to accept, or `null` to cancel. Default: cancel. */
+  collectInvite: () => string | null | Promise<string | null>;
+  /** Compare a safety number. Default: cancel. */
+  compareSafetyNumber: (prompt: SafetyPrompt) => SafetyVerdict | Promise<SafetyVerdict>;
+  /** Confirm wiping the KMS. Default: confirm. */
+  confirmReset: (userId: string) => boolean | Promise<boolean>;
+  /** Confirm a backup export or import. Default: confirm. */
+  confirmBackup: (userId: string, direction: 'export' | 'import') => boolean | Promise<boolean>;
+}
+
+const DEFAULT_CEREMONIES: KMSHarnessCeremonies = {
+  unlock: (prompt) => (prompt.hasPasskeyPrf || prompt.hasPasskeyGate ? { method: 'passkey' } : null),
+  showMnemonic: () => true,
+  collectMnemonic: () => null,
+  showInvite: () => true,
+  collectInvite: () => null,
+  compareSafetyNumber: () => null,
+  confirmReset: () => true,
+  confirmBackup: () => true,
+};
+
+/** Worker → client messages for flows that need a top-level popup, and the refusal each gets. */
+const POPUP_REFUSALS: Record<string, (requestId: string, reason: string) => Record<string, unknown>> = {
+  'worker:setup-with-popup': (requestId, reason) => ({ type: 'worker:popup-error', requestId, reason }),
+  'worker:request-unlock': (requestId, reason) => ({ type: 'worker:unlock-error', requestId, reason }),
+  'worker:request-push-subscription': (requestId, error) => ({
+    type: 'worker:push-subscription-result',
+    requestId,
+    error,
+  }),
+  'worker:send-test-notification': (requestId, error) => ({
+    type: 'worker:test-notification-result',
+    requestId,
+    success: false,
+    error,
+  }),
+};
+
+// ============================================================================
+// Harness
+// ============================================================================
+
+/**
+ * Configuration for KMSHarness
+ */
+export interface KMSHarnessOptions {
+  /** Ceremony scripts; any left out use the defaults in {@link KMSHarnessCeremonies} */
+  ceremonies?: Partial<KMSHarnessCeremonies>;
+  /** Authenticator to install as `navigator.credentials` (default: a fresh one) */
+  authenticator?: SoftwareAuthenticator;
+  /**
+   * KMSUser options. Heartbeats default to off: there is no iframe to lose,
+   * and a fake clock would outrun the pongs.
+   */
+  user?: Omit<KMSUserConfig, 'kmsOrigin' | 'connect' | 'autoInit'>;
+}
+
+/**
+ * A KMSUser wired to an in-process enclave (see the module comment)
+ */
+export class KMSHarness {
+  /** The PWA-facing API under test */
+  readonly user: KMSUser;
+  readonly authenticator: SoftwareAuthenticator;
+  /** Ceremony scripts; reassign entries to re-script mid-test */
+  readonly ceremonies: KMSHarnessCeremonies;
+
+  private port: MessagePort | null = null; // The enclave's end of KMSUser's channel
+  private scope: InProcessWorkerScope | null = null;
+  private worker: WorkerModule | null = null;
+  private restoreGlobals: Array<() => void> = [];
+
+  constructor(options: KMSHarnessOptions = {}) {
+    this.authenticator = options.authenticator ?? new SoftwareAuthenticator();
+    this.ceremonies = { ...DEFAULT_CEREMONIES, ...options.ceremonies };
+    this.user = new KMSUser({
+      heartbeatInterval: 0,
+      ...options.user,
+      kmsOrigin: 'in-process', // No iframe; only used for its URL
+      connect: (): Promise<MessagePort> => Promise.resolve(this.connect()),
+    });
+  }
+
+  /**
+   * Open a fresh store, install the authenticator and initialize the KMSUser
+   */
+  async init(): Promise<void> {
+    const scope = globalThis as { indexedDB?: IDBFactory | undefined };
+    const previousIndexedDB = scope.indexedDB;
+    scope.indexedDB = new IDBFactory();
+    this.restoreGlobals.push(() => {
+      scope.indexedDB = previousIndexedDB;
+    });
+    await initDB();
+    resetAuditLogger();
+    ({ scope: this.scope, worker: this.worker } = await loadWorker());
+
+    this.restoreGlobals.push(installCredentials(this.authenticator));
+    await this.user.init();
+  }
+
+  /**
+   * Terminate the KMSUser, close the store and restore the globals init()
+   * replaced. Replies to requests still in flight are dropped.
+   */
+  terminate(): Promise<void> {
+    this.user.terminate();
+    this.disconnect();
+    closeDB();
+    resetAuditLogger();
+    for (const restore of this.restoreGlobals.splice(0).reverse()) {
+      restore();
+    }
+    return Promise.resolve();
+  }
+
+  // ========================================================================
+  // Client Side (what client.ts does in the iframe)
+  // ========================================================================
+
+  /**
+   * KMSUser's `connect` hook: a new channel to the in-process worker
+   */
+  private connect(): MessagePort {
+    this.disconnect();
+    const channel = new MessageChannel();
+    this.port = channel.port2;
+    this.port.onmessage = (event: MessageEvent): void => this.handleParentMessage(event.data);
+    this.scope!.client = (message): void => this.handleWorkerMessage(message);
+    return channel.port1;
+  }
+
+  private disconnect(): void {
+    if (this.scope) {
+      this.scope.client = null;
+    }
+    this.port?.close();
+    this.port = null;
+  }
+
+  private sendToParent(data: unknown): void {
+    this.port?.postMessage(data);
+  }
+
+  private sendToWorker(message: unknown): void {
+    this.scope?.deliver(message);
+  }
+
+  /**
+   * A message from KMSUser: collect credentials for operations sent without
+   * them, forward the rest (heartbeats included: the worker answers those).
+   * Like client.ts, anything that is not a well-formed RPC request is dropped.
+   */
+  private handleParentMessage(data: unknown): void {
+    const message = data as { type?: string };
+    if (message?.type === 'kms:ping') {
+      this.sendToWorker(message);
+      return;
+    }
+    if (!isParentRPCRequest(data)) {
+      console.warn('[KMS Harness] Dropped a parent-port message that is not an RPC request');
+      return;
+    }
+
+    const request = data;
+    if (needsUnlock(request)) {
+      void this.unlockAndForward(request);
+      return;
+    }
+    this.sendToWorker(request);
+  }
+
+  /**
+   * The unlock modal: ask the script for credentials, then send the request on
+   * with them, or fail it as the modal's error would
+   */
+  private async unlockAndForward(request: RPCRequest): Promise<void> {
+    const params = (request.params ?? {}) as { userId?: string; backup?: string };
+    try {
+      if (!params.userId) {
+        throw new Error('userId not found in request params');
+      }
+      const credentials = await this.collectCredentials(request.method as RPCMethod, params.userId, params.backup);
+      this.sendToWorker({ ...request, params: { ...params, credentials } });
+    } catch (err: unknown) {
+      this.sendToParent({ id: request.id, error: toRPCErrorDetail(err) });
+    }
+  }
+
+  private async collectCredentials(method: RPCMethod, userId: string, backup?: string): Promise<AuthCredentials> {
+    const response = await this.worker!.handleMessage({
+      id: `harness-unlock-${crypto.randomUUID()}`,
+      method: 'getMessagingUnlockOptions',
+      params: { userId, ...(backup !== undefined ? { backup } : {}) },
+    });
+    if (response.error) {
+      throw new KMSError('INTERNAL', typeof response.error === 'string' ? response.error : response.error.message);
+    }
+    const options = response.result as Omit<UnlockPrompt, 'method' | 'userId'> & {
+      appSalt?: string;
+      credentialId?: string;
+      rpId?: string;
+    };
+
+    const choice = await this.ceremonies.unlock({
+      method,
+      userId,
+      hasPassphrase: options.hasPassphrase,
+      hasPasskeyPrf: options.hasPasskeyPrf,
+      hasPasskeyGate: options.hasPasskeyGate,
+    });
+    if (!choice) {
+      throw new KMSError('CANCELLED', 'Unlock was cancelled');
+    }
+    if (choice.method === 'passphrase') {
+      return { method: 'passphrase', passphrase: choice.passphrase, userId };
+    }
+
+    // The passkey button, as the unlock popup runs it
+    const assertion = await this.authenticator.get({
+      publicKey: {
+        challenge: crypto.getRandomValues(new Uint8Array(32)),
+        userVerification: 'required',
+        ...(options.rpId ? { rpId: options.rpId } : {}),
+        ...(options.credentialId
+          ? { allowCredentials: [{ type: 'public-key', id: base64urlToArrayBuffer(options.credentialId) }] }
+          : {}),
+        ...(options.appSalt
+          ? { extensions: { prf: { eval: { first: base64urlToArrayBuffer(options.appSalt) } } } }
+          : {}),
+      },
+    });
+    if (!options.hasPasskeyPrf) {
+      return { method: 'passkey-gate', userId };
+    }
+    const prfOutput = getPRFResults(assertion)?.results?.first;
+    if (!prfOutput) {
+      throw new Error('PRF output not available from assertion');
+    }
+    return { method: 'passkey-prf', prfOutput, userId };
+  }
+
+  /**
+   * A message from the worker: run ceremonies through their scripts, refuse
+   * popup flows, relay events and RPC responses to KMSUser
+   */
+  private handleWorkerMessage(message: unknown): void {
+    const data = message as { type?: string; requestId?: string; [key: string]: unknown };
+    const requestId = data.requestId ?? '';
+
+    switch (data?.type) {
+      case 'worker:event':
+        this.sendToParent({ type: 'kms:event', event: data.event });
+        return;
+
+      case 'worker:show-mnemonic':
+        this.runCeremony(
+          requestId,
+          'worker:mnemonic-cancelled',
+          () => this.ceremonies.showMnemonic(data.mnemonic as string),
+          (confirmed) => (confirmed ? { type: 'worker:mnemonic-confirmed' } : null)
+        );
+        return;
+
+      case 'worker:collect-mnemonic':
+        this.runCeremony(
+          requestId,
+          'worker:mnemonic-cancelled',
+          () => this.ceremonies.collectMnemonic(),
+          (mnemonic) => (mnemonic !== null ? { type: 'worker:mnemonic-entered', mnemonic } : null)
+        );
+        return;
+
+      case 'worker:show-invite':
+        this.runCeremony(
+          requestId,
+          'worker:invite-show-cancelled',
+          () => this.ceremonies.showInvite(data.blob as string),
+          (shared) => (shared ? { type: 'worker:invite-shown' } : null)
+        );
+        return;
+
+      case 'worker:collect-invite':
+        this.runCeremony(
+          requestId,
+          'worker:invite-collect-cancelled',
+          () => this.ceremonies.collectInvite(),
+          (blob) => (blob !== null ? { type: 'worker:invite-blob', blob } : null)
+        );
+        return;
+
+      case 'worker:show-safety': {
+        const prompt: SafetyPrompt = {
+          peerUserId: data.peerUserId as string,
+          digits: data.digits as string,
+          emoji: data.emoji as string[],
+          words: data.words as string[],
+          qr: data.qr as string,
+        };
+        this.runCeremony(
+          requestId,
+          'worker:safety-cancelled',
+          () => this.ceremonies.compareSafetyNumber(prompt),
+          (verdict) => {
+            if (!verdict) return null;
+            return verdict.method === 'qr'
+              ? { type: 'worker:safety-scanned', text: verdict.text, nonce: data.nonce }
+              : { type: 'worker:safety-compared', match: verdict.match, nonce: data.nonce };
+          }
+        );
+        return;
+      }
+
+      case 'worker:confirm-reset':
+        this.runCeremony(
+          requestId,
+          'worker:reset-cancelled',
+          () => this.ceremonies.confirmReset(data.userId as string),
+          (confirmed) => (confirmed ? { type: 'worker:reset-confirmed', nonce: data.nonce } : null)
+        );
+        return;
+
+      case 'worker:confirm-backup':
+        this.runCeremony(
+          requestId,
+          'worker:backup-cancelled',
+          () => this.ceremonies.confirmBackup(data.userId as string, data.direction as 'export' | 'import'),
+          (confirmed) => (confirmed ? { type: 'worker:backup-confirmed', nonce: data.nonce } : null)
+        );
+        return;
+    }
+
+    const refuse = data?.type !== undefined ? POPUP_REFUSALS[data.type] : undefined;
+    if (refuse) {
+      this.sendToWorker(refuse(requestId, 'Popups are not available in the headless harness'));
+      return;
+    }
+    if (data?.type?.startsWith('worker:')) {
+      console.warn('[KMS Harness] Unhandled worker message:', data.type);
+      return;
+    }
+
+    // RPC response
+    this.sendToParent(message);
+  }
+
+  /**
+   * Run one ceremony script and post the worker its outcome. `reply` maps the
+   * script's answer to the worker message, or `null` to cancel.
+   */
+  private runCeremony<T>(
+    requestId: string,
+    cancelType: string,
+    script: () => T | Promise<T>,
+    reply: (outcome: T) => Record<string, unknown> | null
+  ): void {
+    void (async (): Promise<void> => {
+      let outcome: Record<string, unknown> | null;
+      let reason = 'Cancelled by the ceremony script';
+      try {
+        outcome = reply(await script());
+      } catch (err: unknown) {
+        outcome = null;
+        reason = getErrorMessage(err);
+      }
+      this.sendToWorker(outcome ? { ...outcome, requestId } : { type: cancelType, requestId, reason });
+    })();
+  }
+}
+
+/** client.ts's parent-port filter: a string `id`, a known `method`, no `type` */
+function isParentRPCRequest(data: unknown): data is RPCRequest {
+  if (!data || typeof data !== 'object' || 'type' in data) return false;
+  const { id, method } = data as { id?: unknown; method?: unknown };
+  return typeof id === 'string' && typeof method === 'string' && getOperationPolicy(method) !== undefined;
+}
+
+/**
+ * Whether client.ts would collect credentials before forwarding `request`:
+ * operations that take them in params but were sent without, and
+ * extendLeases with `requestAuth`
+ */
+function needsUnlock(request: RPCRequest): boolean {
+  const params = request?.params as { credentials?: unknown; requestAuth?: unknown } | undefined;
+  if (request?.method === 'extendLeases') {
+    return params?.requestAuth === true;
+  }
+  return getOperationPolicy(request?.method)?.freshAuth === 'params' && params?.credentials === undefined;
+}
@@ -20,6 +20,7 @@
  */
 
 import { BIP39_WORDLIST } from './bip39-wordlist';
+import { ValidationError } from './errors';
 
 // ============================================================================
 // Constants
@@ -127,7 +128,7 @@ export async function mnemonicToEntropy(mnemonic: string): Promise<Uint8Array> {
   const words = mnemonic.trim().toLowerCase().split(/\s+/).filter(Boolean);
   const validWordCounts = VALID_ENTROPY_BYTES.map((b) => ((b * 8) / 32) * 3); // 12,15,18,21,24
   if (!validWordCounts.includes(words.length)) {
-    throw new Error(
+    throw new ValidationError(
       `Invalid BIP-39 word count: ${words.length} (expected one of ${validWordCounts.join(', ')})`
     );
   }
@@ -135,7 +136,7 @@ export async function mnemonicToEntropy(mnemonic: string): Promise<Uint8Array> {
   for (const word of words) {
     const index = BIP39_WORDLIST.indexOf(word);
     if (index === -1) {
-      throw new Error(`Invalid BIP-39 word: "${word}" is not in the wordlist`);
+      throw new ValidationError(`Invalid BIP-39 word: "${word}" is not in the wordlist`);
     }
     bits += index.toString(2).padStart(BITS_PER_WORD, '0');
   }
@@ -145,7 +146,7 @@ export async function mnemonicToEntropy(mnemonic: string): Promise<Uint8Array> {
   const providedChecksum = bits.slice(entropyBits);
   const expectedChecksum = await checksumBits(entropy);
   if (providedChecksum !== expectedChecksum) {
-    throw new Error('Invalid BIP-39 mnemonic: checksum mismatch');
+    throw new ValidationError('Invalid BIP-39 mnemonic: checksum mismatch');
   }
   return entropy;
 }
@@ -176,7 +177,7 @@ export async function accountRootToMnemonic(accountRoot: Uint8Array): Promise<st
 export async function mnemonicToAccountRoot(mnemonic: string): Promise<Uint8Array> {
   const entropy = await mnemonicToEntropy(mnemonic);
   if (entropy.length !== ACCOUNT_ROOT_BYTES) {
-    throw new Error(
+    throw new ValidationError(
       `Recovery phrase must decode to a ${ACCOUNT_ROOT_BYTES}-byte accountRoot, got ${entropy.length} bytes`
     );
   }
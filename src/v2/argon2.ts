@@ -0,0 +1,503 @@
+/**
+ * Argon2id (RFC 9106, version 0x13) and BLAKE2b (RFC 7693) in plain
+ * TypeScript, for passphrase enrolments.
+ *
+ * WebCrypto offers no memory-hard KDF, so the enclave carries its own and
+ * bundles it like any other module (no network, no WASM fetch). It runs on
+ * the worker's thread: lanes are filled one after another, so `parallelism`
+ * changes the memory layout and the result, not the time taken. The hash is
+ * cooperative: it yields to the event loop every {@link YIELD_BLOCKS} blocks
+ * (about 1 MiB of one pass), so other requests keep being answered during a
+ * derivation of half a second or more.
+ *
+ * 64-bit words are held as little-endian pairs of 32-bit halves in
+ * Uint32Arrays (low half first), so a 1 KiB Argon2 block is 256 entries and
+ * its byte layout matches the specification's.
+ */
+
+// ============================================================================
+// BLAKE2b
+// ============================================================================
+
+const BLAKE2B_IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19,
+]);
+
+// Message schedule for the 12 rounds, as offsets into the 32-bit message words
+const SIGMA = new Uint8Array(
+  [
+    0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+    14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3,
+    11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4,
+    7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8,
+    9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13,
+    2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9,
+    12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11,
+    13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10,
+    6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5,
+    10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0,
+    0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+    14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3,
+  ].map((i) => i * 2)
+);
+
+// Compression scratch: working vector and message words
+const work = new Uint32Array(32);
+const words = new Uint32Array(32);
+
+/** work[a] += work[b] + words[x] (64-bit) */
+function add64(a: number, b: number, x: number): void {
+  const lo = work[a]! + work[b]! + words[x]!;
+  work[a + 1] = work[a + 1]! + work[b + 1]! + words[x + 1]! + Math.floor(lo / 0x100000000);
+  work[a] = lo;
+}
+
+/** work[a] += work[b] (64-bit) */
+function add64v(a: number, b: number): void {
+  const lo = work[a]! + work[b]!;
+  work[a + 1] = work[a + 1]! + work[b + 1]! + (lo > 0xffffffff ? 1 : 0);
+  work[a] = lo;
+}
+
+function mixG(a: number, b: number, c: number, d: number, x: number, y: number): void {
+  add64(a, b, x);
+  let lo = work[d]! ^ work[a]!;
+  let hi = work[d + 1]! ^ work[a + 1]!;
+  work[d] = hi; // rotr 32
+  work[d + 1] = lo;
+  add64v(c, d);
+  lo = work[b]! ^ work[c]!;
+  hi = work[b + 1]! ^ work[c + 1]!;
+  work[b] = (lo >>> 24) | (hi << 8);
+  work[b + 1] = (hi >>> 24) | (lo << 8);
+  add64(a, b, y);
+  lo = work[d] ^ work[a]!;
+  hi = work[d + 1]! ^ work[a + 1]!;
+  work[d] = (lo >>> 16) | (hi << 16);
+  work[d + 1] = (hi >>> 16) | (lo << 16);
+  add64v(c, d);
+  lo = work[b] ^ work[c]!;
+  hi = work[b + 1]! ^ work[c + 1]!;
+  work[b] = (hi >>> 31) | (lo << 1); // rotr 63
+  work[b + 1] = (lo >>> 31) | (hi << 1);
+}
+
+function blake2bCompress(h: Uint32Array, input: Uint8Array, offset: number, counter: number, last: boolean): void {
+  for (let i = 0; i < 16; i++) {
+    work[i] = h[i]!;
+    work[i + 16] = BLAKE2B_IV[i]!;
+  }
+  work[24] = work[24]! ^ counter;
+  work[25] = work[25]! ^ Math.floor(counter / 0x100000000);
+  if (last) {
+    work[28] = ~work[28]!;
+    work[29] = ~work[29]!;
+  }
+  for (let i = 0; i < 32; i++) {
+    const j = offset + i * 4;
+    words[i] = input[j]! | (input[j + 1]! << 8) | (input[j + 2]! << 16) | (input[j + 3]! << 24);
+  }
+  for (let r = 0; r < 192; r += 16) {
+    mixG(0, 8, 16, 24, SIGMA[r]!, SIGMA[r + 1]!);
+    mixG(2, 10, 18, 26, SIGMA[r + 2]!, SIGMA[r + 3]!);
+    mixG(4, 12, 20, 28, SIGMA[r + 4]!, SIGMA[r + 5]!);
+    mixG(6, 14, 22, 30, SIGMA[r + 6]!, SIGMA[r + 7]!);
+    mixG(0, 10, 20, 30, SIGMA[r + 8]!, SIGMA[r + 9]!);
+    mixG(2, 12, 22, 24, SIGMA[r + 10]!, SIGMA[r + 11]!);
+    mixG(4, 14, 16, 26, SIGMA[r + 12]!, SIGMA[r + 13]!);
+    mixG(6, 8, 18, 28, SIGMA[r + 14]!, SIGMA[r + 15]!);
+  }
+  for (let i = 0; i < 16; i++) {
+    h[i] = h[i]! ^ work[i]! ^ work[i + 16]!;
+  }
+}
+
+/**
+ * Unkeyed BLAKE2b of `input`.
+ *
+ * @param outLength - Digest length in bytes (1-64)
+ */
+export function blake2b(input: Uint8Array, outLength = 64): Uint8Array {
+  if (!Number.isInteger(outLength) || outLength < 1 || outLength > 64) {
+    throw new Error('BLAKE2b output length must be 1-64 bytes');
+  }
+  const h = BLAKE2B_IV.slice();
+  h[0] = h[0]! ^ 0x01010000 ^ outLength;
+
+  let offset = 0;
+  while (input.length - offset > 128) {
+    blake2bCompress(h, input, offset, offset + 128, false);
+    offset += 128;
+  }
+  const block = new Uint8Array(128);
+  block.set(input.subarray(offset));
+  blake2bCompress(h, block, 0, input.length, true);
+
+  const out = new Uint8Array(outLength);
+  for (let i = 0; i < outLength; i++) {
+    out[i] = h[i >> 2]! >>> ((i & 3) * 8);
+  }
+  return out;
+}
+
+// ============================================================================
+// Argon2id
+// ============================================================================
+
+/** Argon2id cost parameters. */
+export interface Argon2idParams {
+  /** Memory size m in KiB (at least 8 per lane) */
+  memoryKiB: number;
+  /** Number of passes t over the memory */
+  iterations: number;
+  /** Number of lanes p */
+  parallelism: number;
+}
+
+const ARGON2_VERSION = 0x13;
+const ARGON2_TYPE_ID = 2;
+const SYNC_POINTS = 4;
+const BLOCK_WORDS = 256; // 32-bit words per 1 KiB block
+const ADDRESSES_PER_BLOCK = 128;
+/** Blocks filled between yields to the event loop */
+const YIELD_BLOCKS = 1024;
+
+/** Let queued tasks (other messages to the worker) run. */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function le32(value: number): Uint8Array {
+  return new Uint8Array([value, value >>> 8, value >>> 16, value >>> 24]);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/** Variable-length hash H' (RFC 9106 §3.3). */
+function hashLong(outLength: number, input: Uint8Array): Uint8Array {
+  const prefixed = concat(le32(outLength), input);
+  if (outLength <= 64) {
+    return blake2b(prefixed, outLength);
+  }
+  const out = new Uint8Array(outLength);
+  const r = Math.ceil(outLength / 32) - 2;
+  let v = blake2b(prefixed, 64);
+  out.set(v.subarray(0, 32), 0);
+  for (let i = 1; i < r; i++) {
+    v = blake2b(v, 64);
+    out.set(v.subarray(0, 32), i * 32);
+  }
+  out.set(blake2b(v, outLength - 32 * r), 32 * r);
+  return out;
+}
+
+/** High 32 bits of the 64-bit product of two 32-bit unsigned integers. */
+function mulHi(a: number, b: number): number {
+  const a0 = a & 0xffff;
+  const a1 = a >>> 16;
+  const b0 = b & 0xffff;
+  const b1 = b >>> 16;
+  const mid = a1 * b0 + ((a0 * b0) >>> 16);
+  const mid2 = (mid & 0xffff) + a0 * b1;
+  return a1 * b1 + Math.floor(mid / 0x10000) + Math.floor(mid2 / 0x10000);
+}
+
+// Compression scratch: R = X xor Y, and Z = P(R)
+const blockR = new Uint32Array(BLOCK_WORDS);
+const blockZ = new Uint32Array(BLOCK_WORDS);
+
+/** z[a] += z[b] + 2 * lo32(z[a]) * lo32(z[b]) (64-bit), the BlaMka step. */
+function blamka(z: Uint32Array, a: number, b: number): void {
+  const al = z[a]!;
+  const bl = z[b]!;
+  const productLo = Math.imul(al, bl) >>> 0;
+  const productHi = mulHi(al, bl);
+  const doubledLo = (productLo << 1) >>> 0;
+  const doubledHi = ((productHi << 1) | (productLo >>> 31)) >>> 0;
+  const lo = al + bl + doubledLo;
+  z[a + 1] = z[a + 1]! + z[b + 1]! + doubledHi + Math.floor(lo / 0x100000000);
+  z[a] = lo;
+}
+
+function mixGB(z: Uint32Array, a: number, b: number, c: number, d: number): void {
+  blamka(z, a, b);
+  let lo = z[d]! ^ z[a]!;
+  let hi = z[d + 1]! ^ z[a + 1]!;
+  z[d] = hi; // rotr 32
+  z[d + 1] = lo;
+  blamka(z, c, d);
+  lo = z[b]! ^ z[c]!;
+  hi = z[b + 1]! ^ z[c + 1]!;
+  z[b] = (lo >>> 24) | (hi << 8);
+  z[b + 1] = (hi >>> 24) | (lo << 8);
+  blamka(z, a, b);
+  lo = z[d] ^ z[a]!;
+  hi = z[d + 1]! ^ z[a + 1]!;
+  z[d] = (lo >>> 16) | (hi << 16);
+  z[d + 1] = (hi >>> 16) | (lo << 16);
+  blamka(z, c, d);
+  lo = z[b] ^ z[c]!;
+  hi = z[b + 1]! ^ z[c + 1]!;
+  z[b] = (hi >>> 31) | (lo << 1); // rotr 63
+  z[b + 1] = (lo >>> 31) | (hi << 1);
+}
+
+/** The permutation P over 16 64-bit words at the given (low-half) offsets. */
+function permute(z: Uint32Array, v: Uint16Array, base: number): void {
+  mixGB(z, v[base]!, v[base + 4]!, v[base + 8]!, v[base + 12]!);
+  mixGB(z, v[base + 1]!, v[base + 5]!, v[base + 9]!, v[base + 13]!);
+  mixGB(z, v[base + 2]!, v[base + 6]!, v[base + 10]!, v[base + 14]!);
+  mixGB(z, v[base + 3]!, v[base + 7]!, v[base + 11]!, v[base + 15]!);
+  mixGB(z, v[base]!, v[base + 5]!, v[base + 10]!, v[base + 15]!);
+  mixGB(z, v[base + 1]!, v[base + 6]!, v[base + 11]!, v[base + 12]!);
+  mixGB(z, v[base + 2]!, v[base + 7]!, v[base + 8]!, v[base + 13]!);
+  mixGB(z, v[base + 3]!, v[base + 4]!, v[base + 9]!, v[base + 14]!);
+}
+
+// Offsets of the 16 words P is applied to, for each of the 8 rows, then
+// each of the 8 columns (two adjacent words from every row)
+const ROWS = new Uint16Array(128);
+const COLUMNS = new Uint16Array(128);
+for (let i = 0; i < 8; i++) {
+  for (let j = 0; j < 16; j++) {
+    ROWS[i * 16 + j] = (i * 16 + j) * 2;
+    COLUMNS[i * 16 + j] = ((j >> 1) * 16 + i * 2 + (j & 1)) * 2;
+  }
+}
+
+/**
+ * The compression function G: out = P(x xor y) xor (x xor y), also xored
+ * into the existing `out` block when `withXor` is set (passes after the first).
+ */
+function compress(
+  x: Uint32Array,
+  xOffset: number,
+  y: Uint32Array,
+  yOffset: number,
+  out: Uint32Array,
+  outOffset: number,
+  withXor: boolean
+): void {
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    const r = x[xOffset + i]! ^ y[yOffset + i]!;
+    blockR[i] = r;
+    blockZ[i] = r;
+  }
+  for (let i = 0; i < 128; i += 16) {
+    permute(blockZ, ROWS, i);
+  }
+  for (let i = 0; i < 128; i += 16) {
+    permute(blockZ, COLUMNS, i);
+  }
+  if (withXor) {
+    for (let i = 0; i < BLOCK_WORDS; i++) {
+      out[outOffset + i] = out[outOffset + i]! ^ blockR[i]! ^ blockZ[i]!;
+    }
+  } else {
+    for (let i = 0; i < BLOCK_WORDS; i++) {
+      out[outOffset + i] = blockR[i]! ^ blockZ[i]!;
+    }
+  }
+}
+
+interface Instance {
+  memory: Uint32Array;
+  passes: number;
+  lanes: number;
+  laneLength: number;
+  segmentLength: number;
+}
+
+/** Position in its lane of the block referenced from block `index` of a segment. */
+function referenceIndex(
+  instance: Instance,
+  pass: number,
+  slice: number,
+  index: number,
+  pseudoRandom: number,
+  sameLane: boolean
+): number {
+  const { laneLength, segmentLength } = instance;
+  let areaSize: number;
+  if (pass === 0) {
+    if (slice === 0) {
+      areaSize = index - 1;
+    } else if (sameLane) {
+      areaSize = slice * segmentLength + index - 1;
+    } else {
+      areaSize = slice * segmentLength + (index === 0 ? -1 : 0);
+    }
+  } else if (sameLane) {
+    areaSize = laneLength - segmentLength + index - 1;
+  } else {
+    areaSize = laneLength - segmentLength + (index === 0 ? -1 : 0);
+  }
+  const relative = areaSize - 1 - mulHi(areaSize, mulHi(pseudoRandom, pseudoRandom));
+  const start = pass !== 0 && slice !== SYNC_POINTS - 1 ? (slice + 1) * segmentLength : 0;
+  return (start + relative) % laneLength;
+}
+
+async function fillSegment(instance: Instance, pass: number, slice: number, lane: number): Promise<void> {
+  const { memory, lanes, laneLength, segmentLength } = instance;
+  // Argon2id: data-independent addressing for the first half of the first pass
+  const dataIndependent = pass === 0 && slice < SYNC_POINTS / 2;
+  const zero = new Uint32Array(BLOCK_WORDS);
+  const input = new Uint32Array(BLOCK_WORDS);
+  const addresses = new Uint32Array(BLOCK_WORDS);
+  const nextAddresses = (): void => {
+    input[12] = input[12]! + 1;
+    compress(zero, 0, input, 0, addresses, 0, false);
+    compress(zero, 0, addresses, 0, addresses, 0, false);
+  };
+  if (dataIndependent) {
+    input[0] = pass;
+    input[2] = lane;
+    input[4] = slice;
+    input[6] = lanes * laneLength;
+    input[8] = instance.passes;
+    input[10] = ARGON2_TYPE_ID;
+  }
+
+  let startIndex = 0;
+  if (pass === 0 && slice === 0) {
+    startIndex = 2; // the first two blocks of each lane come from H0
+    if (dataIndependent) nextAddresses();
+  }
+  let current = lane * laneLength + slice * segmentLength + startIndex;
+  let previous = current % laneLength === 0 ? current + laneLength - 1 : current - 1;
+
+  for (let i = startIndex; i < segmentLength; i++, current++, previous++) {
+    if (i > startIndex && i % YIELD_BLOCKS === 0) {
+      await yieldToEventLoop();
+    }
+    if (current % laneLength === 1) {
+      previous = current - 1;
+    }
+    let j1: number;
+    let j2: number;
+    if (dataIndependent) {
+      if (i % ADDRESSES_PER_BLOCK === 0) nextAddresses();
+      j1 = addresses[(i % ADDRESSES_PER_BLOCK) * 2]!;
+      j2 = addresses[(i % ADDRESSES_PER_BLOCK) * 2 + 1]!;
+    } else {
+      j1 = memory[previous * BLOCK_WORDS]!;
+      j2 = memory[previous * BLOCK_WORDS + 1]!;
+    }
+    const refLane = pass === 0 && slice === 0 ? lane : j2 % lanes;
+    const refIndex = referenceIndex(instance, pass, slice, i, j1, refLane === lane);
+    compress(
+      memory,
+      previous * BLOCK_WORDS,
+      memory,
+      (refLane * laneLength + refIndex) * BLOCK_WORDS,
+      memory,
+      current * BLOCK_WORDS,
+      pass !== 0
+    );
+  }
+}
+
+/**
+ * Argon2id hash of `password`.
+ *
+ * @param password - Password bytes
+ * @param salt - Salt (at least 8 bytes)
+ * @param params - Memory, passes and lanes
+ * @param options - Tag length (default 32 bytes), optional secret and associated data
+ * @returns The tag
+ * @throws if a parameter is out of range
+ */
+export async function argon2id(
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: Argon2idParams,
+  options: { hashLength?: number; secret?: Uint8Array; associatedData?: Uint8Array } = {}
+): Promise<Uint8Array> {
+  const { memoryKiB, iterations, parallelism } = params;
+  const hashLength = options.hashLength ?? 32;
+  const secret = options.secret ?? new Uint8Array(0);
+  const associatedData = options.associatedData ?? new Uint8Array(0);
+  if (
+    !Number.isInteger(parallelism) || parallelism < 1 || parallelism > 0xffffff ||
+    !Number.isInteger(memoryKiB) || memoryKiB < 8 * parallelism ||
+    !Number.isInteger(iterations) || iterations < 1 ||
+    !Number.isInteger(hashLength) || hashLength < 4 ||
+    salt.length < 8
+  ) {
+    throw new Error('Invalid Argon2id parameters');
+  }
+
+  const h0 = blake2b(
+    concat(
+      le32(parallelism),
+      le32(hashLength),
+      le32(memoryKiB),
+      le32(iterations),
+      le32(ARGON2_VERSION),
+      le32(ARGON2_TYPE_ID),
+      le32(password.length),
+      password,
+      le32(salt.length),
+      salt,
+      le32(secret.length),
+      secret,
+      le32(associatedData.length),
+      associatedData
+    ),
+    64
+  );
+
+  const segmentLength = Math.floor(memoryKiB / (SYNC_POINTS * parallelism));
+  const laneLength = segmentLength * SYNC_POINTS;
+  const instance: Instance = {
+    memory: new Uint32Array(laneLength * parallelism * BLOCK_WORDS),
+    passes: iterations,
+    lanes: parallelism,
+    laneLength,
+    segmentLength,
+  };
+  const { memory } = instance;
+
+  try {
+    for (let lane = 0; lane < parallelism; lane++) {
+      for (let j = 0; j < 2; j++) {
+        const block = hashLong(1024, concat(h0, le32(j), le32(lane)));
+        memory.set(new Uint32Array(block.buffer), (lane * laneLength + j) * BLOCK_WORDS);
+      }
+    }
+    for (let pass = 0; pass < iterations; pass++) {
+      for (let slice = 0; slice < SYNC_POINTS; slice++) {
+        for (let lane = 0; lane < parallelism; lane++) {
+          await fillSegment(instance, pass, slice, lane);
+          await yieldToEventLoop();
+        }
+      }
+    }
+
+    // Final block: xor of the last block of every lane
+    const final = memory.slice((laneLength - 1) * BLOCK_WORDS, laneLength * BLOCK_WORDS);
+    for (let lane = 1; lane < parallelism; lane++) {
+      const offset = (lane * laneLength + laneLength - 1) * BLOCK_WORDS;
+      for (let i = 0; i < BLOCK_WORDS; i++) {
+        final[i] = final[i]! ^ memory[offset + i]!;
+      }
+    }
+    const tag = hashLong(hashLength, new Uint8Array(final.buffer));
+    final.fill(0);
+    return tag;
+  } finally {
+    memory.fill(0);
+    blockR.fill(0);
+    blockZ.fill(0);
+    h0.fill(0);
+  }
+}
@@ -0,0 +1,472 @@
+/**
+ * Encrypted attachments (secure-messaging §8).
+ *
+ * A fan-out bundle encrypts its plaintext once per recipient device and caps
+ * each envelope at 1 MiB, which rules out photos and files. An attachment is
+ * instead encrypted ONCE, in chunks, under a fresh random key; the PWA uploads
+ * the ciphertext to any blob store and only a small pointer — key, digest, size
+ * — rides the message through the per-device Signal envelopes.
+ *
+ * The PWA never holds the key. Outside the enclave a pointer only exists sealed
+ * under the device's messaging KEK (an attachment *handle*): `encryptAttachment`
+ * returns one, `buildBundle` unseals the handles it is given and embeds the raw
+ * pointers in the Signal plaintext, and `openBundle` seals the pointers it
+ * receives into handles for this device.
+ *
+ * Ciphertext layout:
+ *   attachment = version(1) || chunkBytes(u32 BE) || chunk*
+ *   chunk      = AES-256-GCM(key, nonce = index(u96 BE), aad = header || index(u32 BE) || final(1))
+ * Every chunk but the last holds exactly `chunkBytes` of plaintext; an empty
+ * attachment is one empty final chunk. Binding the index and the final flag
+ * into each chunk's AAD makes reordering, dropping, or truncating chunks fail
+ * authentication. The key is single-use, so counter nonces are safe.
+ *
+ * The digest is SHA-256 over the header and each chunk's SHA-256, so it commits
+ * to the exact ciphertext (GCM tags alone do not, for whoever holds the key),
+ * anyone can compute it without the key, and a streaming reader can check it
+ * without holding the whole blob.
+ *
+ * Message content framing (inside the Signal plaintext):
+ *   content = magic(4) || version(1) || count(1) || pointer* || body
+ *   pointer = key(32) || digest(32) || size(u32 BE)
+ * A message without attachments is sent unframed unless its body happens to
+ * begin with the magic, in which case it is framed with zero pointers so the
+ * recipient cannot misread it.
+ */
+
+import { ValidationError } from './errors';
+
+// ============================================================================
+// Constants & types
+// ============================================================================
+
+/** Attachment ciphertext format version. */
+const ATTACHMENT_VERSION = 1;
+
+/** Plaintext bytes per chunk, by default. */
+export const ATTACHMENT_CHUNK_BYTES = 64 * 1024;
+
+/** Largest chunk size a reader accepts from an attachment header. */
+const MAX_CHUNK_BYTES = 1 << 20;
+
+/** Largest attachment plaintext. */
+export const MAX_ATTACHMENT_BYTES = 64 * 1024 * 1024;
+
+/** Most attachments one message carries. */
+export const MAX_MESSAGE_ATTACHMENTS = 32;
+
+const HEADER_BYTES = 5;
+const KEY_BYTES = 32;
+const DIGEST_BYTES = 32;
+const GCM_TAG_BYTES = 16;
+const NONCE_BYTES = 12;
+const IV_BYTES = 12;
+const POINTER_BYTES = KEY_BYTES + DIGEST_BYTES + 4;
+
+/** Prefix marking framed message content: a NUL then "ATS". */
+const CONTENT_MAGIC = new Uint8Array([0x00, 0x41, 0x54, 0x53]);
+const CONTENT_VERSION = 1;
+
+/** AAD schema version for attachment handles; bump if the binding changes. */
+const HANDLE_AAD_VERSION = 'attachment/1';
+
+/** Everything needed to fetch-verify-decrypt one attachment. */
+export interface AttachmentPointer {
+  /** Random 32-byte AES-256-GCM key, single-use. */
+  key: Uint8Array;
+  /** Digest of the ciphertext (see module docs). */
+  digest: Uint8Array;
+  /** Plaintext length in bytes. */
+  size: number;
+}
+
+/** Message content split into its body and the attachment pointers it carries. */
+export interface MessageContent {
+  body: Uint8Array;
+  pointers: AttachmentPointer[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Copy a Uint8Array into a fresh, exactly-sized ArrayBuffer. */
+function u8ToArrayBuffer(u: Uint8Array): ArrayBuffer {
+  const b = new ArrayBuffer(u.byteLength);
+  new Uint8Array(b).set(u);
+  return b;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) {
+    out.set(p, off);
+    off += p.length;
+  }
+  return out;
+}
+
+function importChunkKey(raw: Uint8Array, usage: 'encrypt' | 'decrypt'): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', u8ToArrayBuffer(raw), { name: 'AES-GCM' }, false, [usage]);
+}
+
+function chunkNonce(index: number): ArrayBuffer {
+  const nonce = new ArrayBuffer(NONCE_BYTES);
+  new DataView(nonce).setUint32(NONCE_BYTES - 4, index, false);
+  return nonce;
+}
+
+function chunkAAD(header: Uint8Array, index: number, final: boolean): ArrayBuffer {
+  const aad = new Uint8Array(HEADER_BYTES + 5);
+  aad.set(header, 0);
+  new DataView(aad.buffer).setUint32(HEADER_BYTES, index, false);
+  aad[HEADER_BYTES + 4] = final ? 1 : 0;
+  return aad.buffer;
+}
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', u8ToArrayBuffer(bytes)));
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i]! ^ b[i]!;
+  }
+  return diff === 0;
+}
+
+// ============================================================================
+// Encrypt
+// ============================================================================
+
+/**
+ * Encrypt an attachment under a fresh random key. Returns the ciphertext to
+ * upload and the pointer that lets a recipient fetch, verify and decrypt it.
+ *
+ * @throws ValidationError when the plaintext exceeds {@link MAX_ATTACHMENT_BYTES}.
+ */
+export async function encryptAttachment(
+  plaintext: Uint8Array,
+  chunkBytes: number = ATTACHMENT_CHUNK_BYTES
+): Promise<{ ciphertext: Uint8Array; pointer: AttachmentPointer }> {
+  if (plaintext.length > MAX_ATTACHMENT_BYTES) {
+    throw new ValidationError(`Attachment too large: ${plaintext.length} bytes (max ${MAX_ATTACHMENT_BYTES})`);
+  }
+  if (!Number.isInteger(chunkBytes) || chunkBytes < 1 || chunkBytes > MAX_CHUNK_BYTES) {
+    throw new ValidationError(`Attachment chunk size must be 1..${MAX_CHUNK_BYTES} bytes`);
+  }
+  const rawKey = crypto.getRandomValues(new Uint8Array(KEY_BYTES));
+  const key = await importChunkKey(rawKey, 'encrypt');
+  const header = new Uint8Array(HEADER_BYTES);
+  header[0] = ATTACHMENT_VERSION;
+  new DataView(header.buffer).setUint32(1, chunkBytes, false);
+
+  const count = Math.max(1, Math.ceil(plaintext.length / chunkBytes));
+  const chunks: Uint8Array[] = [header];
+  const hashes: Uint8Array[] = [header];
+  for (let index = 0; index < count; index++) {
+    const piece = plaintext.subarray(index * chunkBytes, (index + 1) * chunkBytes);
+    const sealed = new Uint8Array(
+      await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv: chunkNonce(index), additionalData: chunkAAD(header, index, index === count - 1) },
+        key,
+        u8ToArrayBuffer(piece)
+      )
+    );
+    chunks.push(sealed);
+    hashes.push(await sha256(sealed));
+  }
+  return {
+    ciphertext: concatBytes(chunks),
+    pointer: { key: rawKey, digest: await sha256(concatBytes(hashes)), size: plaintext.length },
+  };
+}
+
+// ============================================================================
+// Decrypt
+// ============================================================================
+
+/**
+ * An attachment decryption fed ciphertext as it arrives: the state behind
+ * {@link decryptAttachmentStream}, for a caller that receives the pieces one
+ * call at a time rather than from an iterable.
+ */
+export interface AttachmentDecryptor {
+  /**
+   * Take the next piece of ciphertext (any size) and yield the plaintext of
+   * each chunk it completes. The last chunk is never yielded here, since only
+   * the end of the input shows which chunk is last.
+   */
+  push(piece: Uint8Array): AsyncGenerator<Uint8Array, void, undefined>;
+  /** End of input: open the last chunk, check size and digest, and return it. */
+  finish(): Promise<Uint8Array>;
+}
+
+/**
+ * Start decrypting the attachment `pointer` names. Pieces wait in a queue and
+ * whole chunks are copied out of it, so each byte is copied once however the
+ * ciphertext is split. Errors are those of {@link decryptAttachmentStream}; a
+ * decryptor that threw must be dropped.
+ */
+export async function createAttachmentDecryptor(pointer: AttachmentPointer): Promise<AttachmentDecryptor> {
+  const key = await importChunkKey(pointer.key, 'decrypt');
+  let header: Uint8Array | null = null;
+  let sealedBytes = 0;
+  const queue: Uint8Array[] = [];
+  let queued = 0;
+  const hashes: Uint8Array[] = [];
+  let index = 0;
+  let size = 0;
+
+  /** Remove the first `n` queued bytes (n ≤ queued) into one array. */
+  const take = (n: number): Uint8Array => {
+    const out = new Uint8Array(n);
+    let off = 0;
+    while (off < n) {
+      const head = queue[0]!;
+      const used = Math.min(head.length, n - off);
+      out.set(head.subarray(0, used), off);
+      off += used;
+      if (used === head.length) {
+        queue.shift();
+      } else {
+        queue[0] = head.subarray(used);
+      }
+    }
+    queued -= n;
+    return out;
+  };
+
+  const open = async (sealed: Uint8Array, final: boolean): Promise<Uint8Array> => {
+    let plain: Uint8Array;
+    try {
+      plain = new Uint8Array(
+        await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: chunkNonce(index), additionalData: chunkAAD(header!, index, final) },
+          key,
+          u8ToArrayBuffer(sealed)
+        )
+      );
+    } catch {
+      throw new ValidationError('Invalid attachment');
+    }
+    hashes.push(await sha256(sealed));
+    index++;
+    size += plain.length;
+    if (size > pointer.size) {
+      throw new ValidationError('Invalid attachment');
+    }
+    return plain;
+  };
+
+  return {
+    async *push(piece: Uint8Array): AsyncGenerator<Uint8Array, void, undefined> {
+      if (piece.length === 0) {
+        return;
+      }
+      queue.push(piece);
+      queued += piece.length;
+      if (!header) {
+        if (queued < HEADER_BYTES) {
+          return;
+        }
+        header = take(HEADER_BYTES);
+        const chunkBytes = new DataView(header.buffer).getUint32(1, false);
+        if (header[0] !== ATTACHMENT_VERSION || chunkBytes < 1 || chunkBytes > MAX_CHUNK_BYTES) {
+          throw new ValidationError('Invalid attachment');
+        }
+        sealedBytes = chunkBytes + GCM_TAG_BYTES;
+        hashes.push(header);
+      }
+      // A full chunk with more bytes after it cannot be the final one.
+      while (queued > sealedBytes) {
+        yield await open(take(sealedBytes), false);
+      }
+    },
+
+    async finish(): Promise<Uint8Array> {
+      if (!header || queued < GCM_TAG_BYTES) {
+        throw new ValidationError('Invalid attachment');
+      }
+      const last = await open(take(queued), true);
+      if (size !== pointer.size) {
+        throw new ValidationError('Invalid attachment');
+      }
+      if (!bytesEqual(await sha256(concatBytes(hashes)), pointer.digest)) {
+        throw new ValidationError('Attachment digest mismatch');
+      }
+      return last;
+    },
+  };
+}
+
+/**
+ * Decrypt an attachment as it streams in, in pieces of any size. Each chunk is
+ * authenticated before its plaintext is yielded; the final chunk is withheld
+ * until the digest and size match the pointer, so a reader that runs to
+ * completion has seen exactly the attachment the pointer names.
+ *
+ * @throws ValidationError('Invalid attachment') on malformed, reordered,
+ *   truncated or tampered ciphertext; ValidationError('Attachment digest
+ *   mismatch') when it decrypts but is not the ciphertext the pointer commits to.
+ */
+export async function* decryptAttachmentStream(
+  source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>,
+  pointer: AttachmentPointer
+): AsyncGenerator<Uint8Array, void, undefined> {
+  const decryptor = await createAttachmentDecryptor(pointer);
+  for await (const piece of source) {
+    yield* decryptor.push(piece);
+  }
+  yield await decryptor.finish();
+}
+
+/** Decrypt a whole attachment; see {@link decryptAttachmentStream}. */
+export async function decryptAttachment(ciphertext: Uint8Array, pointer: AttachmentPointer): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  for await (const part of decryptAttachmentStream([ciphertext], pointer)) {
+    parts.push(part);
+  }
+  return concatBytes(parts);
+}
+
+// ============================================================================
+// Message content framing
+// ============================================================================
+
+function hasContentMagic(bytes: Uint8Array): boolean {
+  return bytes.length >= CONTENT_MAGIC.length && CONTENT_MAGIC.every((b, i) => bytes[i] === b);
+}
+
+/**
+ * Frame a message body with the attachment pointers it carries. A body with no
+ * pointers is returned as-is unless it begins with the content magic.
+ *
+ * @throws ValidationError with more than {@link MAX_MESSAGE_ATTACHMENTS} pointers.
+ */
+export function frameMessageContent(body: Uint8Array, pointers: AttachmentPointer[]): Uint8Array {
+  if (pointers.length > MAX_MESSAGE_ATTACHMENTS) {
+    throw new ValidationError(`A message carries at most ${MAX_MESSAGE_ATTACHMENTS} attachments`);
+  }
+  if (pointers.length === 0 && !hasContentMagic(body)) {
+    return body;
+  }
+  const prefix = CONTENT_MAGIC.length + 2;
+  const out = new Uint8Array(prefix + pointers.length * POINTER_BYTES + body.length);
+  const view = new DataView(out.buffer);
+  out.set(CONTENT_MAGIC, 0);
+  out[CONTENT_MAGIC.length] = CONTENT_VERSION;
+  out[CONTENT_MAGIC.length + 1] = pointers.length;
+  let off = prefix;
+  for (const pointer of pointers) {
+    out.set(pointer.key, off);
+    out.set(pointer.digest, off + KEY_BYTES);
+    view.setUint32(off + KEY_BYTES + DIGEST_BYTES, pointer.size, false);
+    off += POINTER_BYTES;
+  }
+  out.set(body, off);
+  return out;
+}
+
+/**
+ * Split received message content into body and pointers. Unframed content is
+ * all body. Framing this module would not have produced (only a non-conforming
+ * sender can emit it) is also returned whole as the body, pointer-free.
+ */
+export function parseMessageContent(bytes: Uint8Array): MessageContent {
+  const raw = { body: bytes, pointers: [] };
+  if (!hasContentMagic(bytes)) {
+    return raw;
+  }
+  const prefix = CONTENT_MAGIC.length + 2;
+  const count = bytes[CONTENT_MAGIC.length + 1] ?? 0;
+  if (
+    bytes.length < prefix + count * POINTER_BYTES ||
+    bytes[CONTENT_MAGIC.length] !== CONTENT_VERSION ||
+    count > MAX_MESSAGE_ATTACHMENTS
+  ) {
+    return raw;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const pointers: AttachmentPointer[] = [];
+  let off = prefix;
+  for (let i = 0; i < count; i++) {
+    const size = view.getUint32(off + KEY_BYTES + DIGEST_BYTES, false);
+    if (size > MAX_ATTACHMENT_BYTES) {
+      return raw;
+    }
+    pointers.push({
+      key: bytes.slice(off, off + KEY_BYTES),
+      digest: bytes.slice(off + KEY_BYTES, off + KEY_BYTES + DIGEST_BYTES),
+      size,
+    });
+    off += POINTER_BYTES;
+  }
+  return { body: bytes.slice(off), pointers };
+}
+
+// ============================================================================
+// Attachment handles
+// ============================================================================
+
+/** AAD binding a handle to its schema version and owning user. */
+function handleAAD(userId: string): ArrayBuffer {
+  const fields = { v: HANDLE_AAD_VERSION, userId };
+  return u8ToArrayBuffer(new TextEncoder().encode(JSON.stringify(fields, Object.keys(fields).sort())));
+}
+
+/**
+ * Seal a pointer into an attachment handle under the device's messaging KEK:
+ * `iv(12) || GCM ciphertext(+tag)`. The handle is opaque to the PWA and only
+ * this user's enclave can open it.
+ */
+export async function sealAttachmentHandle(
+  pointer: AttachmentPointer,
+  kek: CryptoKey,
+  userId: string
+): Promise<Uint8Array> {
+  const plain = new Uint8Array(POINTER_BYTES);
+  plain.set(pointer.key, 0);
+  plain.set(pointer.digest, KEY_BYTES);
+  new DataView(plain.buffer).setUint32(KEY_BYTES + DIGEST_BYTES, pointer.size, false);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const sealed = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: handleAAD(userId) }, kek, plain);
+  return concatBytes([iv, new Uint8Array(sealed)]);
+}
+
+/**
+ * Open an attachment handle sealed by {@link sealAttachmentHandle}.
+ *
+ * @throws ValidationError('Invalid attachment handle') if it does not authenticate.
+ */
+export async function openAttachmentHandle(
+  handle: Uint8Array,
+  kek: CryptoKey,
+  userId: string
+): Promise<AttachmentPointer> {
+  let plain: Uint8Array;
+  try {
+    plain = new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: u8ToArrayBuffer(handle.subarray(0, IV_BYTES)), additionalData: handleAAD(userId) },
+        kek,
+        u8ToArrayBuffer(handle.subarray(IV_BYTES))
+      )
+    );
+  } catch {
+    throw new ValidationError('Invalid attachment handle');
+  }
+  if (plain.length !== POINTER_BYTES) {
+    throw new ValidationError('Invalid attachment handle');
+  }
+  return {
+    key: plain.slice(0, KEY_BYTES),
+    digest: plain.slice(KEY_BYTES, KEY_BYTES + DIGEST_BYTES),
+    size: new DataView(plain.buffer).getUint32(KEY_BYTES + DIGEST_BYTES, false),
+  };
+}
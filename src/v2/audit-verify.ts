@@ -0,0 +1,368 @@
+/**
+ * Audit chain verification for KMS V2
+ *
+ * Verifies audit entries (hash chain + Ed25519 signatures, with the
+ * UAK -> LAK/KIAK delegation trust chain) and portable audit log exports.
+ * This module only uses WebCrypto and plain data, no IndexedDB or DOM, so it
+ * runs unchanged in the enclave and in Node (>= 20) for offline review:
+ *
+ * ```typescript
+ * import { verifyAuditExport } from './audit-verify';
+ * const result = await verifyAuditExport(JSON.parse(file), { uakPublicKey });
+ * ```
+ *
+ * Based on: docs/architecture/crypto/V2/design/05-audit-log.md
+ */
+
+import type {
+  AuditDelegationCert,
+  AuditEntryV2,
+  AuditLogExport,
+  VerificationResult,
+} from './types';
+import { arrayBufferToBase64url, base64urlToArrayBuffer } from './crypto-utils';
+
+/** `format` of an audit log export manifest. */
+export const AUDIT_EXPORT_FORMAT = 'ats-kms-audit-log';
+/** Current audit log export version. */
+export const AUDIT_EXPORT_VERSION = 1;
+
+/**
+ * Compute key ID from public key.
+ * keyId = base64url(SHA-256(publicKeyRaw))
+ */
+export async function computeKeyId(publicKeyRaw: ArrayBuffer): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', publicKeyRaw);
+  return arrayBufferToBase64url(hash);
+}
+
+/**
+ * JSON with object keys sorted at every level, so a signature over it
+ * survives re-serialisation of the export.
+ */
+export function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJSON(record[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function importVerifyKey(raw: ArrayBuffer): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw, { name: 'Ed25519' }, false, ['verify']);
+}
+
+/**
+ * Public keys an audit chain is verified against: the UAK (root of trust for
+ * user-authenticated entries and LAK delegations) and the instance KIAK.
+ * Null when that key has not been provisioned.
+ */
+export interface AuditTrustAnchors {
+  uakPublicKeyRaw: ArrayBuffer | null;
+  kiakPublicKeyRaw: ArrayBuffer | null;
+}
+
+/**
+ * Verify that a delegation certificate was genuinely signed by the UAK, and
+ * return the delegate's imported public key for verifying entry signatures.
+ *
+ * The cert binds the delegate public key (`delegatePub`) to the UAK's signature
+ * over the canonical, sig-excluded certificate. This is the root of the
+ * UAK -> LAK delegation trust chain. Any trusted UAK may have issued it: a
+ * lease outlives a Master Secret rotation with its original cert.
+ */
+async function verifyDelegationCert(
+  cert: AuditDelegationCert,
+  uakPubs: Iterable<CryptoKey>
+): Promise<CryptoKey> {
+  const { sig, ...certUnsigned } = cert;
+  const certCanonical = new TextEncoder().encode(
+    JSON.stringify(certUnsigned, Object.keys(certUnsigned).sort())
+  );
+  let certOk = false;
+  for (const uakPub of uakPubs) {
+    if (await crypto.subtle.verify('Ed25519', uakPub, base64urlToArrayBuffer(sig), certCanonical)) {
+      certOk = true;
+      break;
+    }
+  }
+  if (!certOk) {
+    throw new Error('delegation certificate signature is invalid');
+  }
+  return importVerifyKey(base64urlToArrayBuffer(cert.delegatePub));
+}
+
+/**
+ * Verify a list of audit entries against explicit trust anchors. For every
+ * entry this:
+ *  1. recomputes and checks the SHA-256 hash chain, and
+ *  2. cryptographically verifies the entry's Ed25519 signature against the
+ *     signer's public key, resolving trust as:
+ *       - UAK/KIAK: the anchor public key (signerId must match),
+ *       - LAK: the delegate key inside `cert`, whose cert must itself be signed
+ *         by the UAK (UAK -> LAK delegation chain).
+ *
+ * A Master Secret rotation replaces the UAK. Its entry is signed by the old
+ * UAK and, in `sigNew`, by the new one, and names both public keys; walking
+ * the chain backwards from the anchor UAK, each rotation vouched for by an
+ * already-trusted key makes the previous UAK trusted for earlier entries.
+ *
+ * Without (2) the chain hash is an unkeyed digest over public fields, so any
+ * party able to write IndexedDB could recompute a self-consistent chain. The
+ * signatures are what make the log tamper-EVIDENT, so they must be checked.
+ *
+ * NOTE (deferred, see plan §0): this does not yet enforce delegation-cert
+ * policy (scope, notBefore/notAfter) or that the op type is permitted for the
+ * signer kind. Those are Phase-4 hardening. Certs carry no code or manifest
+ * hash to check: the worker cannot hash its own build.
+ *
+ * Based on: 05-audit-log.md § "Verification Algorithm"
+ */
+export async function verifyAuditEntries(
+  entries: AuditEntryV2[],
+  anchors: AuditTrustAnchors
+): Promise<VerificationResult> {
+  const errors: string[] = [];
+  const trustedUaks = await resolveTrustedUaks(entries, anchors.uakPublicKeyRaw, errors);
+  await checkEntries(entries, trustedUaks, anchors.kiakPublicKeyRaw, errors);
+  return { valid: errors.length === 0, verified: entries.length, errors };
+}
+
+/**
+ * Check the hash and signature of each entry (steps 1 and 2 of
+ * {@link verifyAuditEntries}), collecting failures in `errors`.
+ */
+async function checkEntries(
+  entries: AuditEntryV2[],
+  trustedUaks: Map<string, CryptoKey>,
+  kiakPublicKeyRaw: ArrayBuffer | null,
+  errors: string[]
+): Promise<void> {
+  // Cache so we import each public key at most once.
+  const signerKeyCache = new Map<string, CryptoKey>();
+
+  for (const entry of entries) {
+    // Reconstruct payload for hashing
+    const payload = {
+      kmsVersion: entry.kmsVersion,
+      seqNum: entry.seqNum,
+      timestamp: entry.timestamp,
+      op: entry.op,
+      kid: entry.kid,
+      requestId: entry.requestId,
+      userId: entry.userId,
+      origin: entry.origin,
+      leaseId: entry.leaseId,
+      unlockTime: entry.unlockTime,
+      lockTime: entry.lockTime,
+      duration: entry.duration,
+      details: entry.details,
+      previousHash: entry.previousHash,
+      signer: entry.signer,
+      signerId: entry.signerId,
+    };
+
+    const payloadString = JSON.stringify(payload);
+    const chainInput = new TextEncoder().encode(entry.previousHash + payloadString);
+    const expectedChainBuf = await crypto.subtle.digest('SHA-256', chainInput);
+    const expectedChain = arrayBufferToBase64url(expectedChainBuf);
+
+    if (expectedChain !== entry.chainHash) {
+      errors.push(`Chain hash mismatch at seq ${entry.seqNum}`);
+    }
+
+    // Resolve the signer's public key and verify the entry signature.
+    try {
+      let signerPub = signerKeyCache.get(entry.signerId);
+
+      if (!signerPub) {
+        if (entry.signer === 'UAK') {
+          if (trustedUaks.size === 0) {
+            throw new Error('UAK public key not available');
+          }
+          signerPub = trustedUaks.get(entry.signerId);
+          if (!signerPub) {
+            throw new Error('UAK signerId does not match a trusted user key');
+          }
+        } else if (entry.signer === 'KIAK') {
+          if (!kiakPublicKeyRaw) {
+            throw new Error('KIAK public key not available');
+          }
+          if ((await computeKeyId(kiakPublicKeyRaw)) !== entry.signerId) {
+            throw new Error('KIAK signerId does not match stored instance key');
+          }
+          signerPub = await importVerifyKey(kiakPublicKeyRaw);
+        } else {
+          // LAK: trust flows from a UAK-signed delegation certificate.
+          if (!entry.cert) {
+            throw new Error('LAK entry is missing its delegation certificate');
+          }
+          if (trustedUaks.size === 0) {
+            throw new Error('UAK public key not available to verify delegation');
+          }
+          const delegatePubRaw = base64urlToArrayBuffer(entry.cert.delegatePub);
+          if ((await computeKeyId(delegatePubRaw)) !== entry.signerId) {
+            throw new Error('LAK signerId does not match certificate delegate key');
+          }
+          signerPub = await verifyDelegationCert(entry.cert, trustedUaks.values());
+        }
+        signerKeyCache.set(entry.signerId, signerPub);
+      }
+
+      const sigOk = await crypto.subtle.verify(
+        'Ed25519',
+        signerPub,
+        base64urlToArrayBuffer(entry.sig),
+        new TextEncoder().encode(entry.chainHash)
+      );
+      if (!sigOk) {
+        errors.push(`Signature invalid at seq ${entry.seqNum}`);
+      }
+    } catch (err) {
+      errors.push(
+        `Signature verification failed at seq ${entry.seqNum}: ${(err as Error).message}`
+      );
+    }
+  }
+}
+
+/**
+ * Collect the UAKs an entry may be signed by, keyed by key ID: the anchor UAK
+ * plus every predecessor handed over by a rotation entry whose `sigNew`
+ * verifies under an already-trusted key. Unverifiable rotations are reported
+ * in `errors` and break the hand-over, so earlier UAK entries then fail too.
+ */
+async function resolveTrustedUaks(
+  entries: AuditEntryV2[],
+  anchorRaw: ArrayBuffer | null,
+  errors: string[]
+): Promise<Map<string, CryptoKey>> {
+  const trusted = new Map<string, CryptoKey>();
+  if (!anchorRaw) {
+    return trusted;
+  }
+  trusted.set(await computeKeyId(anchorRaw), await importVerifyKey(anchorRaw));
+
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i]!;
+    if (entry.signer !== 'UAK' || entry.sigNew === undefined) continue;
+
+    const newKey = entry.details?.uakPublicKey;
+    const previousKey = entry.details?.previousUakPublicKey;
+    try {
+      if (typeof newKey !== 'string' || typeof previousKey !== 'string') {
+        throw new Error('rotation entry does not name both keys');
+      }
+      const newPub = trusted.get(await computeKeyId(base64urlToArrayBuffer(newKey)));
+      if (!newPub) {
+        throw new Error('new UAK is not trusted');
+      }
+      const ok = await crypto.subtle.verify(
+        'Ed25519',
+        newPub,
+        base64urlToArrayBuffer(entry.sigNew),
+        new TextEncoder().encode(entry.chainHash)
+      );
+      if (!ok) {
+        throw new Error('new UAK signature is invalid');
+      }
+      const previousRaw = base64urlToArrayBuffer(previousKey);
+      trusted.set(await computeKeyId(previousRaw), await importVerifyKey(previousRaw));
+    } catch (err) {
+      errors.push(`UAK rotation unverifiable at seq ${entry.seqNum}: ${(err as Error).message}`);
+    }
+  }
+  return trusted;
+}
+
+/**
+ * Verify a portable audit log export (from the `exportAuditLog` RPC):
+ *
+ *  1. the manifest is signed by its UAK, which must be `uakPublicKey` when the
+ *     reviewer pins one (otherwise the export only proves self-consistency);
+ *  2. the entries are exactly the stretch the manifest names: contiguous
+ *     seqNums, each `previousHash` linking to the entry before, ending at
+ *     `lastChainHash`, and no later than the head;
+ *  3. every entry passes {@link verifyAuditEntries}, with the UAK trusted
+ *     through the rotations after the range, LAKs through their certs, and
+ *     the KIAK through its UAK-signed cert.
+ *
+ * `verified` counts the exported entries.
+ */
+export async function verifyAuditExport(
+  bundle: AuditLogExport,
+  options: { uakPublicKey?: string } = {}
+): Promise<VerificationResult> {
+  const errors: string[] = [];
+  const { manifest, entries, rotations, certs } = bundle;
+
+  if (manifest.format !== AUDIT_EXPORT_FORMAT || manifest.version !== AUDIT_EXPORT_VERSION) {
+    return { valid: false, verified: 0, errors: ['Not a supported audit log export'] };
+  }
+
+  // 1. Manifest signature
+  if (options.uakPublicKey !== undefined && options.uakPublicKey !== manifest.uakPublicKey) {
+    errors.push('Manifest is not signed by the trusted UAK');
+  }
+  const uakRaw = base64urlToArrayBuffer(manifest.uakPublicKey);
+  const manifestOk = await crypto.subtle.verify(
+    'Ed25519',
+    await importVerifyKey(uakRaw),
+    base64urlToArrayBuffer(bundle.sig),
+    new TextEncoder().encode(canonicalJSON(manifest))
+  );
+  if (!manifestOk) {
+    errors.push('Manifest signature invalid');
+  }
+
+  // 2. The entries are the signed stretch of the chain
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  if (
+    entries.length !== manifest.entryCount ||
+    (first?.seqNum ?? null) !== manifest.firstSeqNum ||
+    (last?.seqNum ?? null) !== manifest.lastSeqNum ||
+    (last?.chainHash ?? null) !== manifest.lastChainHash
+  ) {
+    errors.push('Entries do not match the manifest');
+  }
+  for (let i = 1; i < entries.length; i++) {
+    const entry = entries[i]!;
+    const previous = entries[i - 1]!;
+    if (entry.seqNum !== previous.seqNum + 1 || entry.previousHash !== previous.chainHash) {
+      errors.push(`Chain is broken before seq ${entry.seqNum}`);
+    }
+  }
+  if (last && last.seqNum > manifest.head.seqNum) {
+    errors.push('Entries extend past the exported head');
+  }
+  for (const rotation of rotations) {
+    if (rotation.seqNum <= (last?.seqNum ?? 0) || rotation.seqNum > manifest.head.seqNum) {
+      errors.push(`Rotation entry at seq ${rotation.seqNum} is outside the exported log`);
+    }
+  }
+
+  // 3. Trust, then every entry (rotations included: their hashes carry the keys)
+  const trustedUaks = await resolveTrustedUaks([...entries, ...rotations], uakRaw, errors);
+  let kiakRaw: ArrayBuffer | null = null;
+  for (const cert of certs) {
+    try {
+      await verifyDelegationCert(cert, trustedUaks.values());
+      if (cert.signerKind === 'KIAK') {
+        kiakRaw = base64urlToArrayBuffer(cert.delegatePub);
+      }
+    } catch (err) {
+      errors.push(`${cert.signerKind} ${cert.leaseId ?? cert.instanceId ?? ''}: ${(err as Error).message}`);
+    }
+  }
+  await checkEntries([...entries, ...rotations], trustedUaks, kiakRaw, errors);
+
+  return { valid: errors.length === 0, verified: entries.length, errors };
+}
@@ -18,8 +18,12 @@ import type {
   AuditOperation,
   AuditEntryV2,
   AuditDelegationCert,
+  AuditLogExport,
+  AuditLogExportManifest,
+  AuditLogFilter,
   VerificationResult,
   AuthCredentials,
+  WrappedKey,
 } from './types';
 import {
   storeAuditEntry,
@@ -29,8 +33,18 @@ import {
   putMeta,
   getWrappedKey,
   wrapKey,
+  buildWrappedKey,
 } from './storage';
-import { arrayBufferToBase64url, base64urlToArrayBuffer, buildKeyWrapAAD } from './crypto-utils';
+import { arrayBufferToBase64url, buildKeyWrapAAD } from './crypto-utils';
+import {
+  AUDIT_EXPORT_FORMAT,
+  AUDIT_EXPORT_VERSION,
+  canonicalJSON,
+  computeKeyId,
+  verifyAuditEntries,
+} from './audit-verify';
+import { emitKMSEvent } from './events';
+import { KMSError } from './errors';
 
 // Promise chain to serialize audit operations (prevents seqNum collisions in IndexedDB)
 // Sequence numbers are derived from the audit log itself (database is source of truth)
@@ -46,6 +60,18 @@ interface ActiveSigner {
 
 let activeSigner: ActiveSigner | null = null;
 
+/**
+ * One dispatch's claim on the audit log, minted by {@link openAuditScope}.
+ * Opaque to callers: entries count for it only through the ids registered to it.
+ */
+export type AuditScope = number;
+
+let nextAuditScope: AuditScope = 1;
+// Request ids (and registered sub-step ids) in flight, each mapped to its dispatch
+const auditScopeIds = new Map<string, AuditScope>();
+// Open dispatches, and whether an entry was appended for each
+const auditScopes = new Map<AuditScope, boolean>();
+
 /**
  * Initialize the audit logger.
  * Called at module init, but UAK/KIAK are generated separately.
@@ -65,12 +91,7 @@ async function ensureLRK(): Promise<CryptoKey> {
   let lrk = await getMeta<CryptoKey>('LRK');
 
   if (!lrk) {
-    lrk = await crypto.subtle.generateKey(
-      { name: 'AES-GCM', length: 256 },
-      false, // non-extractable
-      ['wrapKey', 'unwrapKey', 'encrypt', 'decrypt']
-    );
-
+    lrk = await generateLRK();
     await putMeta('LRK', lrk);
   }
 
@@ -78,12 +99,53 @@ async function ensureLRK(): Promise<CryptoKey> {
 }
 
 /**
- * Compute key ID from public key.
- * keyId = base64url(SHA-256(publicKeyRaw))
+ * Generate a fresh, non-extractable LRK. Not persisted; callers store it
+ * under meta key `LRK`.
  */
-async function computeKeyId(publicKeyRaw: ArrayBuffer): Promise<string> {
-  const hash = await crypto.subtle.digest('SHA-256', publicKeyRaw);
-  return arrayBufferToBase64url(hash);
+export async function generateLRK(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: 256 },
+    false, // non-extractable
+    ['wrapKey', 'unwrapKey', 'encrypt', 'decrypt']
+  );
+}
+
+/**
+ * A private key sealed under the LRK: the KIAK record (`keys` store,
+ * kid `audit-instance`) and LAK records (meta `lease-audit-key:{leaseId}`).
+ */
+export interface LRKSealedKey {
+  wrappedKey: ArrayBuffer;
+  iv: ArrayBuffer;
+  aad: ArrayBuffer;
+}
+
+/**
+ * Decrypt an LRK-sealed private key to its PKCS#8 bytes.
+ *
+ * The LRK never leaves this device, so KIAK and LAKs can only move to
+ * another KMS (backup/restore) in this form, inside an encrypted archive.
+ */
+export async function openLRKSealedKey(sealed: LRKSealedKey): Promise<ArrayBuffer> {
+  const lrk = await ensureLRK();
+  return crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: sealed.iv, additionalData: sealed.aad },
+    lrk,
+    sealed.wrappedKey
+  );
+}
+
+/**
+ * Seal PKCS#8 private key bytes under the given LRK, keeping the record's AAD.
+ */
+export async function sealUnderLRK(
+  lrk: CryptoKey,
+  pkcs8: ArrayBuffer,
+  aad: ArrayBuffer
+): Promise<{ wrappedKey: ArrayBuffer; iv: ArrayBuffer }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappedKey = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: aad }, lrk, pkcs8);
+  return { wrappedKey, iv: iv.buffer };
 }
 
 /**
@@ -200,22 +262,11 @@ export async function generateLAK(
     scope: ['vapid:issue', 'lease:expire'],
     notBefore: now,
     notAfter: exp,
-    codeHash: 'TODO', // KMS code hash
-    manifestHash: 'TODO', // KMS manifest hash
     kmsVersion: 'v2.0.0',
   };
 
   // 4. Sign delegation cert with UAK
-  const certCanonical = JSON.stringify(certUnsigned, Object.keys(certUnsigned).sort());
-  const certSig = await crypto.subtle.sign(
-    'Ed25519',
-    activeSigner.keyPair.privateKey,
-    new TextEncoder().encode(certCanonical)
-  );
-  const delegationCert: AuditDelegationCert = {
-    ...certUnsigned,
-    sig: arrayBufferToBase64url(certSig),
-  };
+  const delegationCert = await signDelegationCert(certUnsigned, activeSigner);
 
   // 5. Wrap LAK under LRK
   const lrk = await ensureLRK();
@@ -251,6 +302,22 @@ export async function generateLAK(
   return { lakKeyPair: lak, delegationCert };
 }
 
+/**
+ * Sign a delegation certificate (canonical, sig-excluded form) with the UAK.
+ */
+async function signDelegationCert(
+  certUnsigned: Omit<AuditDelegationCert, 'sig'>,
+  uak: ActiveSigner
+): Promise<AuditDelegationCert> {
+  const certCanonical = JSON.stringify(certUnsigned, Object.keys(certUnsigned).sort());
+  const certSig = await crypto.subtle.sign(
+    'Ed25519',
+    uak.keyPair.privateKey,
+    new TextEncoder().encode(certCanonical)
+  );
+  return { ...certUnsigned, sig: arrayBufferToBase64url(certSig) };
+}
+
 /**
  * Load LAK (Lease Audit Key) and set as active signer.
  * This is called before performing lease operations (JWT signing).
@@ -427,264 +494,370 @@ export async function ensureKIAK(): Promise<void> {
  * @returns The audit entry that was logged
  */
 export async function logOperation(op: AuditOperation): Promise<AuditEntryV2> {
-  // Create a wrapper that will hold the audit entry or error
-  let resolver: (entry: AuditEntryV2) => void;
-  let rejecter: (err: Error) => void;
-  const resultPromise = new Promise<AuditEntryV2>((resolve, reject) => {
-    resolver = resolve;
-    rejecter = reject;
-  });
-
-  // Queue this operation after the previous one completes
-  // ALL sequence management happens inside the chain to ensure serialization
-  auditChain = auditChain.then(async () => {
-    try {
-      if (!activeSigner) {
-        throw new Error('No active audit signer - call ensureAuditKey, loadLAK, or ensureKIAK first');
-      }
-
-      const timestamp = Date.now();
-      const previousEntry = await getLastAuditEntry();
-      const previousHash = previousEntry ? previousEntry.chainHash : '';
-
-      // Determine next sequence number from previous entry (audit log is source of truth)
-      const mySeqNum = previousEntry ? previousEntry.seqNum + 1 : 1;
-
-      // Construct the payload to be hashed (excluding sig and chainHash)
-      const payload = {
-        kmsVersion: 2 as const,
-        seqNum: mySeqNum,
-        timestamp,
-        op: op.op,
-        kid: op.kid,
-        requestId: op.requestId,
-        userId: op.userId,
-        origin: op.origin,
-        leaseId: op.leaseId,
-        unlockTime: op.unlockTime,
-        lockTime: op.lockTime,
-        duration: op.duration,
-        details: op.details,
-        previousHash,
-        signer: activeSigner.type,
-        signerId: activeSigner.keyId,
-      };
-
-      // Canonical JSON representation for hashing
-      const payloadString = JSON.stringify(payload);
-
-      // Compute chain hash = SHA256(previousHash + payloadString)
-      const chainInput = new TextEncoder().encode(previousHash + payloadString);
-      const chainHashBuf = await crypto.subtle.digest('SHA-256', chainInput);
-      const chainHash = arrayBufferToBase64url(chainHashBuf);
-
-      // Sign the chain hash
-      const chainHashBytes = new TextEncoder().encode(chainHash);
-      const sigBuf = await crypto.subtle.sign('Ed25519', activeSigner.keyPair.privateKey, chainHashBytes);
-      const sig = arrayBufferToBase64url(sigBuf);
-
-      // Construct entry
-      const entry: AuditEntryV2 = {
-        kmsVersion: payload.kmsVersion,
-        seqNum: payload.seqNum,
-        timestamp: payload.timestamp,
-        op: payload.op,
-        kid: payload.kid,
-        requestId: payload.requestId,
-        userId: payload.userId,
-        ...(payload.origin !== undefined && { origin: payload.origin }),
-        ...(payload.leaseId !== undefined && { leaseId: payload.leaseId }),
-        ...(payload.unlockTime !== undefined && { unlockTime: payload.unlockTime }),
-        ...(payload.lockTime !== undefined && { lockTime: payload.lockTime}),
-        ...(payload.duration !== undefined && { duration: payload.duration }),
-        ...(payload.details !== undefined && { details: payload.details }),
-        previousHash: payload.previousHash,
-        chainHash,
-        signer: payload.signer,
-        signerId: payload.signerId,
-        ...(activeSigner.cert !== undefined && { cert: activeSigner.cert }),
-        sig,
-      };
-
-      await storeAuditEntry(entry);
-      resolver!(entry);
-    } catch (err) {
-      rejecter!(err as Error);
+  return enqueueAudit(async () => {
+    if (!activeSigner) {
+      throw new Error('No active audit signer - call ensureAuditKey, loadLAK, or ensureKIAK first');
     }
-  }).catch(() => {
-    /* c8 ignore next - Error swallowing for chain resilience */
-    // Swallow errors to keep chain alive
+    const { entry } = await buildSignedEntry(op, activeSigner);
+    await storeAuditEntry(entry);
+    noteAppended(entry.requestId);
+    emitKMSEvent({
+      type: 'audit-appended',
+      seqNum: entry.seqNum,
+      op: entry.op,
+      userId: entry.userId,
+      timestamp: entry.timestamp,
+    });
+    return entry;
   });
+}
 
-  // Return the result promise to the caller
-  return resultPromise;
+/**
+ * Open the audit scope of one dispatch of `requestId`. The worker dispatcher
+ * calls this for every request before running it, and {@link closeAuditScope}
+ * once it has finished; a method whose policy requires an audit entry fails if
+ * none was appended under the scope.
+ *
+ * @throws {KMSError} CONFLICT when a request with this id is already in flight
+ *   (or the id is a sub-step id of one): its entries would count for both
+ */
+export function openAuditScope(requestId: string): AuditScope {
+  if (auditScopeIds.has(requestId)) {
+    throw new KMSError('CONFLICT', `Request id ${requestId} is already in flight`);
+  }
+  const scope = nextAuditScope++;
+  auditScopes.set(scope, false);
+  auditScopeIds.set(requestId, scope);
+  return scope;
 }
 
 /**
- * Resolve the root-of-trust UAK public key from storage, importing it once.
- * Returns null if no UAK has been provisioned yet.
+ * Let entries logged under `subId` count for the dispatch `requestId` belongs
+ * to. Sub-steps (the lease and JWTs of fullSetup, each JWT of a batch) log
+ * under their own ids and register them here first; no other id counts. A
+ * `requestId` with no open scope (a handler run outside the dispatcher) needs
+ * no registration.
+ *
+ * @throws {KMSError} CONFLICT when `subId` is already in flight
  */
-async function loadUAKPublicKey(): Promise<CryptoKey | null> {
-  const uakRecord = await getWrappedKey('audit-user');
-  if (!uakRecord || !uakRecord.publicKeyRaw) {
-    return null;
+export function registerAuditSubId(requestId: string, subId: string): void {
+  const scope = auditScopeIds.get(requestId);
+  if (scope === undefined) {
+    return;
   }
-  return crypto.subtle.importKey('raw', uakRecord.publicKeyRaw, { name: 'Ed25519' }, false, [
-    'verify',
-  ]);
+  if (auditScopeIds.has(subId)) {
+    throw new KMSError('CONFLICT', `Request id ${subId} is already in flight`);
+  }
+  auditScopeIds.set(subId, scope);
 }
 
 /**
- * Verify that a delegation certificate was genuinely signed by the UAK, and
- * return the delegate's imported public key for verifying entry signatures.
+ * Close a dispatch's scope, releasing its request id and sub-step ids. Closing
+ * an already closed scope is a no-op.
  *
- * The cert binds the delegate public key (`delegatePub`) to the UAK's signature
- * over the canonical, sig-excluded certificate. This is the root of the
- * UAK -> LAK delegation trust chain.
+ * @returns Whether an entry was appended (or waived) under the scope
  */
-async function verifyDelegationCert(
-  cert: AuditDelegationCert,
-  uakPub: CryptoKey
-): Promise<CryptoKey> {
-  const { sig, ...certUnsigned } = cert;
-  const certCanonical = JSON.stringify(certUnsigned, Object.keys(certUnsigned).sort());
-  const certOk = await crypto.subtle.verify(
-    'Ed25519',
-    uakPub,
-    base64urlToArrayBuffer(sig),
-    new TextEncoder().encode(certCanonical)
-  );
-  if (!certOk) {
-    throw new Error('delegation certificate signature is invalid');
+export function closeAuditScope(scope: AuditScope): boolean {
+  const appended = auditScopes.get(scope) === true;
+  auditScopes.delete(scope);
+  for (const [id, owner] of auditScopeIds) {
+    if (owner === scope) {
+      auditScopeIds.delete(id);
+    }
   }
-  return crypto.subtle.importKey(
-    'raw',
-    base64urlToArrayBuffer(cert.delegatePub),
-    { name: 'Ed25519' },
-    false,
-    ['verify']
+  return appended;
+}
+
+/**
+ * A request that changed nothing (every lease skipped, nothing to replenish)
+ * has nothing to audit: its handler says so here instead of appending an entry.
+ */
+export function waiveAuditEntry(requestId: string): void {
+  noteAppended(requestId);
+}
+
+// Only an exact request id or registered sub-step id counts for a dispatch
+function noteAppended(requestId: string): void {
+  const scope = auditScopeIds.get(requestId);
+  if (scope !== undefined && auditScopes.has(scope)) {
+    auditScopes.set(scope, true);
+  }
+}
+
+/**
+ * Queue a task on the audit chain. Tasks run one at a time, so each sees the
+ * entry written by the previous one (seqNum and previousHash come from the
+ * database). A failed task rejects its own caller but never stalls the chain.
+ */
+function enqueueAudit<T>(task: () => Promise<T>): Promise<T> {
+  const result = auditChain.then(task);
+  auditChain = result.then(
+    () => undefined,
+    /* c8 ignore next - Error swallowing for chain resilience */
+    () => undefined
   );
+  return result;
 }
 
 /**
- * Verify the integrity of the audit chain. For every entry this:
- *  1. recomputes and checks the SHA-256 hash chain, and
- *  2. cryptographically verifies the entry's Ed25519 signature against the
- *     signer's public key, resolving trust as:
- *       - UAK/KIAK: the stored instance/user public key (signerId must match),
- *       - LAK: the delegate key inside `cert`, whose cert must itself be signed
- *         by the UAK (UAK -> LAK delegation chain).
- *
- * Without (2) the chain hash is an unkeyed digest over public fields, so any
- * party able to write IndexedDB could recompute a self-consistent chain. The
- * signatures are what make the log tamper-EVIDENT, so they must be checked.
+ * Build the next entry of the chain, signed by `signer`. Must run inside
+ * {@link enqueueAudit}. Returns the signed chain-hash bytes as well, for
+ * entries that carry a second signature.
+ */
+async function buildSignedEntry(
+  op: AuditOperation,
+  signer: ActiveSigner
+): Promise<{ entry: AuditEntryV2; chainHashBytes: Uint8Array<ArrayBuffer> }> {
+  const timestamp = Date.now();
+  const previousEntry = await getLastAuditEntry();
+  const previousHash = previousEntry ? previousEntry.chainHash : '';
+
+  // Determine next sequence number from previous entry (audit log is source of truth)
+  const mySeqNum = previousEntry ? previousEntry.seqNum + 1 : 1;
+
+  // Construct the payload to be hashed (excluding sig and chainHash)
+  const payload = {
+    kmsVersion: 2 as const,
+    seqNum: mySeqNum,
+    timestamp,
+    op: op.op,
+    kid: op.kid,
+    requestId: op.requestId,
+    userId: op.userId,
+    origin: op.origin,
+    leaseId: op.leaseId,
+    unlockTime: op.unlockTime,
+    lockTime: op.lockTime,
+    duration: op.duration,
+    details: op.details,
+    previousHash,
+    signer: signer.type,
+    signerId: signer.keyId,
+  };
+
+  // Canonical JSON representation for hashing
+  const payloadString = JSON.stringify(payload);
+
+  // Compute chain hash = SHA256(previousHash + payloadString)
+  const chainInput = new TextEncoder().encode(previousHash + payloadString);
+  const chainHashBuf = await crypto.subtle.digest('SHA-256', chainInput);
+  const chainHash = arrayBufferToBase64url(chainHashBuf);
+
+  // Sign the chain hash
+  const chainHashBytes = new TextEncoder().encode(chainHash);
+  const sigBuf = await crypto.subtle.sign('Ed25519', signer.keyPair.privateKey, chainHashBytes);
+  const sig = arrayBufferToBase64url(sigBuf);
+
+  // Construct entry
+  const entry: AuditEntryV2 = {
+    kmsVersion: payload.kmsVersion,
+    seqNum: payload.seqNum,
+    timestamp: payload.timestamp,
+    op: payload.op,
+    kid: payload.kid,
+    requestId: payload.requestId,
+    userId: payload.userId,
+    ...(payload.origin !== undefined && { origin: payload.origin }),
+    ...(payload.leaseId !== undefined && { leaseId: payload.leaseId }),
+    ...(payload.unlockTime !== undefined && { unlockTime: payload.unlockTime }),
+    ...(payload.lockTime !== undefined && { lockTime: payload.lockTime}),
+    ...(payload.duration !== undefined && { duration: payload.duration }),
+    ...(payload.details !== undefined && { details: payload.details }),
+    previousHash: payload.previousHash,
+    chainHash,
+    signer: payload.signer,
+    signerId: payload.signerId,
+    ...(signer.cert !== undefined && { cert: signer.cert }),
+    sig,
+  };
+
+  return { entry, chainHashBytes };
+}
+
+/**
+ * Replace the UAK as part of a Master Secret rotation.
  *
- * NOTE (deferred, see plan §0): this does not yet enforce delegation-cert
- * policy (scope, notBefore/notAfter, codeHash/manifestHash) or that the op type
- * is permitted for the signer kind. Those are Phase-4 hardening.
+ * Generates a new UAK wrapped under `newMkek` and writes the rotation entry,
+ * signed by the current UAK (`sig`) and the new one (`sigNew`). The entry's
+ * details name both public keys (`previousUakPublicKey`, `uakPublicKey`), so a
+ * verifier holding the new UAK can trust the old one for the entries before
+ * it. `commit` must persist the new UAK record and the entry — typically in
+ * the same transaction as everything else the rotation re-wraps; the new UAK
+ * becomes the active signer only once it has succeeded.
  *
- * Based on: 05-audit-log.md § "Verification Algorithm"
+ * @param newMkek - MKEK of the new Master Secret
+ * @param op - The rotation entry (its details are extended with the keys)
+ * @param commit - Persists the new `audit-user` record and the entry
+ * @returns The rotation entry
+ * @throws if the UAK is not the active signer (call ensureAuditKey first)
  */
-export async function verifyAuditChain(): Promise<VerificationResult> {
-  const entries = await getAllAuditEntries();
-  const errors: string[] = [];
-  let verified = 0;
+export async function rotateAuditKey(
+  newMkek: CryptoKey,
+  op: AuditOperation,
+  commit: (uakRecord: WrappedKey, entry: AuditEntryV2) => Promise<void>
+): Promise<AuditEntryV2> {
+  return enqueueAudit(async () => {
+    const previous = activeSigner;
+    if (!previous || previous.type !== 'UAK') {
+      throw new Error('UAK must be active to rotate it - call ensureAuditKey first');
+    }
+    const previousRecord = await getWrappedKey('audit-user');
+    if (!previousRecord?.publicKeyRaw) {
+      throw new Error('UAK not initialized');
+    }
 
-  // Root of trust + caches so we import each public key at most once.
-  const uakPub = await loadUAKPublicKey();
-  const signerKeyCache = new Map<string, CryptoKey>();
+    const uak = await crypto.subtle.generateKey(
+      { name: 'Ed25519' },
+      true, // temporarily extractable for wrapping
+      ['sign', 'verify']
+    );
+    const publicKeyRaw = await crypto.subtle.exportKey('raw', uak.publicKey);
+    const uakRecord = await buildWrappedKey(uak.privateKey, newMkek, 'audit-user', ['sign'], {
+      alg: 'EdDSA',
+      purpose: 'audit',
+      publicKeyRaw,
+    });
+
+    const { entry, chainHashBytes } = await buildSignedEntry(
+      {
+        ...op,
+        details: {
+          ...op.details,
+          previousUakPublicKey: arrayBufferToBase64url(previousRecord.publicKeyRaw),
+          uakPublicKey: arrayBufferToBase64url(publicKeyRaw),
+        },
+      },
+      previous
+    );
+    const sigNew = await crypto.subtle.sign('Ed25519', uak.privateKey, chainHashBytes);
+    const rotationEntry: AuditEntryV2 = { ...entry, sigNew: arrayBufferToBase64url(sigNew) };
 
-  for (const entry of entries) {
-    // Reconstruct payload for hashing
-    const payload = {
-      kmsVersion: entry.kmsVersion,
-      seqNum: entry.seqNum,
-      timestamp: entry.timestamp,
-      op: entry.op,
-      kid: entry.kid,
-      requestId: entry.requestId,
-      userId: entry.userId,
-      origin: entry.origin,
-      leaseId: entry.leaseId,
-      unlockTime: entry.unlockTime,
-      lockTime: entry.lockTime,
-      duration: entry.duration,
-      details: entry.details,
-      previousHash: entry.previousHash,
-      signer: entry.signer,
-      signerId: entry.signerId,
+    await commit(uakRecord, rotationEntry);
+    noteAppended(rotationEntry.requestId);
+
+    activeSigner = {
+      type: 'UAK',
+      keyPair: uak,
+      keyId: await computeKeyId(publicKeyRaw),
     };
+    return rotationEntry;
+  });
+}
 
-    const payloadString = JSON.stringify(payload);
-    const chainInput = new TextEncoder().encode(entry.previousHash + payloadString);
-    const expectedChainBuf = await crypto.subtle.digest('SHA-256', chainInput);
-    const expectedChain = arrayBufferToBase64url(expectedChainBuf);
+/**
+ * Verify the integrity of the audit chain against the stored UAK and KIAK
+ * (see {@link verifyAuditEntries} for what is checked).
+ */
+export async function verifyAuditChain(): Promise<VerificationResult> {
+  const entries = await getAllAuditEntries();
+  const uakRecord = await getWrappedKey('audit-user');
+  const kiakRecord = await getWrappedKey('audit-instance');
+  return verifyAuditEntries(entries, {
+    uakPublicKeyRaw: uakRecord?.publicKeyRaw ?? null,
+    kiakPublicKeyRaw: kiakRecord?.publicKeyRaw ?? null,
+  });
+}
 
-    if (expectedChain !== entry.chainHash) {
-      errors.push(`Chain hash mismatch at seq ${entry.seqNum}`);
+function inFilter(entry: AuditEntryV2, filter: AuditLogFilter): boolean {
+  return (
+    (filter.fromSeqNum === undefined || entry.seqNum >= filter.fromSeqNum) &&
+    (filter.toSeqNum === undefined || entry.seqNum <= filter.toSeqNum) &&
+    (filter.fromTime === undefined || entry.timestamp >= filter.fromTime) &&
+    (filter.toTime === undefined || entry.timestamp <= filter.toTime)
+  );
+}
+
+/**
+ * Build a portable export of the audit log, verifiable offline with
+ * `verifyAuditExport` (audit-verify.ts).
+ *
+ * The export carries the entries in range, the UAK rotation entries after
+ * it, the LAK certs its entries rely on and a KIAK delegation cert issued
+ * now; the UAK signs that cert and the manifest, so the UAK public key is
+ * the only trust anchor a reviewer needs.
+ *
+ * @param userId - Account the export is for (recorded in the manifest)
+ * @param filter - Range to export
+ * @throws if the UAK is not the active signer (call ensureAuditKey first)
+ */
+export async function exportAuditLog(userId: string, filter: AuditLogFilter): Promise<AuditLogExport> {
+  return enqueueAudit(async () => {
+    const uak = activeSigner;
+    if (!uak || uak.type !== 'UAK') {
+      throw new Error('UAK must be active to export the audit log - call ensureAuditKey first');
+    }
+    const uakRecord = await getWrappedKey('audit-user');
+    if (!uakRecord?.publicKeyRaw) {
+      throw new Error('UAK not initialized');
     }
 
-    // Resolve the signer's public key and verify the entry signature.
-    try {
-      let signerPub = signerKeyCache.get(entry.signerId);
-
-      if (!signerPub) {
-        if (entry.signer === 'UAK') {
-          if (!uakPub) {
-            throw new Error('UAK public key not available');
-          }
-          signerPub = uakPub;
-        } else if (entry.signer === 'KIAK') {
-          const kiakRecord = await getWrappedKey('audit-instance');
-          if (!kiakRecord || !kiakRecord.publicKeyRaw) {
-            throw new Error('KIAK public key not available');
-          }
-          if ((await computeKeyId(kiakRecord.publicKeyRaw)) !== entry.signerId) {
-            throw new Error('KIAK signerId does not match stored instance key');
-          }
-          signerPub = await crypto.subtle.importKey(
-            'raw',
-            kiakRecord.publicKeyRaw,
-            { name: 'Ed25519' },
-            false,
-            ['verify']
-          );
-        } else {
-          // LAK: trust flows from a UAK-signed delegation certificate.
-          if (!entry.cert) {
-            throw new Error('LAK entry is missing its delegation certificate');
-          }
-          if (!uakPub) {
-            throw new Error('UAK public key not available to verify delegation');
-          }
-          const delegatePubRaw = base64urlToArrayBuffer(entry.cert.delegatePub);
-          if ((await computeKeyId(delegatePubRaw)) !== entry.signerId) {
-            throw new Error('LAK signerId does not match certificate delegate key');
-          }
-          signerPub = await verifyDelegationCert(entry.cert, uakPub);
-        }
-        signerKeyCache.set(entry.signerId, signerPub);
-      }
+    const all = await getAllAuditEntries();
+    const head = all[all.length - 1];
+    if (!head) {
+      throw new Error('Audit log is empty');
+    }
+    const matching = all.filter((entry) => inFilter(entry, filter));
+    const first = matching[0];
+    const last = matching[matching.length - 1];
+    const entries = first && last
+      ? all.filter((entry) => entry.seqNum >= first.seqNum && entry.seqNum <= last.seqNum)
+      : [];
+    const rotations = all.filter(
+      (entry) => entry.seqNum > (last?.seqNum ?? 0) && entry.signer === 'UAK' && entry.sigNew !== undefined
+    );
 
-      const sigOk = await crypto.subtle.verify(
-        'Ed25519',
-        signerPub,
-        base64urlToArrayBuffer(entry.sig),
-        new TextEncoder().encode(entry.chainHash)
-      );
-      if (!sigOk) {
-        errors.push(`Signature invalid at seq ${entry.seqNum}`);
+    const certs = new Map<string, AuditDelegationCert>();
+    for (const entry of entries) {
+      if (entry.signer === 'LAK' && entry.cert) {
+        certs.set(entry.cert.delegatePub, entry.cert);
       }
-    } catch (err) {
-      errors.push(
-        `Signature verification failed at seq ${entry.seqNum}: ${(err as Error).message}`
+    }
+    const kiakRecord = await getWrappedKey('audit-instance');
+    if (kiakRecord?.publicKeyRaw) {
+      const kiakCert = await signDelegationCert(
+        {
+          type: 'audit-delegation',
+          version: 1,
+          signerKind: 'KIAK',
+          instanceId: await computeKeyId(kiakRecord.publicKeyRaw),
+          delegatePub: arrayBufferToBase64url(kiakRecord.publicKeyRaw),
+          scope: ['system.*'],
+          notBefore: kiakRecord.createdAt,
+          notAfter: null,
+          kmsVersion: 'v2.0.0',
+        },
+        uak
       );
+      certs.set(kiakCert.delegatePub, kiakCert);
     }
 
-    verified += 1;
-  }
+    const manifest: AuditLogExportManifest = {
+      format: AUDIT_EXPORT_FORMAT,
+      version: AUDIT_EXPORT_VERSION,
+      userId,
+      exportedAt: Date.now(),
+      filter,
+      entryCount: entries.length,
+      firstSeqNum: first?.seqNum ?? null,
+      lastSeqNum: last?.seqNum ?? null,
+      lastChainHash: last?.chainHash ?? null,
+      head: { seqNum: head.seqNum, chainHash: head.chainHash },
+      uakPublicKey: arrayBufferToBase64url(uakRecord.publicKeyRaw),
+    };
+    const sig = await crypto.subtle.sign(
+      'Ed25519',
+      uak.keyPair.privateKey,
+      new TextEncoder().encode(canonicalJSON(manifest))
+    );
 
-  return { valid: errors.length === 0, verified, errors };
+    return {
+      manifest,
+      sig: arrayBufferToBase64url(sig),
+      entries,
+      rotations,
+      certs: [...certs.values()],
+    };
+  });
 }
 
 /**
@@ -0,0 +1,441 @@
+/**
+ * Full-account backup archive (export / import).
+ *
+ * An archive is a JSON document holding every object store of the KMS database
+ * (see `MIGRATIONS` in storage.ts), encrypted under an archive key derived from
+ * the Master Secret:
+ *
+ *   archiveKey = HKDF-SHA256(MS, salt, "ATS/KMS/Backup/v1") -> AES-GCM-256
+ *
+ * The cleartext header (format, version, schema version, account, audit head,
+ * salt and the unlock slots) is bound to the ciphertext as AAD. The unlock
+ * slots are the account's passphrase / passkey-PRF enrolment configs: they
+ * already hold the MS only in encrypted form, and they are what lets the
+ * archive be opened in a browser that has no KMS state at all. Passkey-gate
+ * enrolments keep their pepper in the clear, so they only travel inside the
+ * encrypted payload.
+ *
+ * Device-bound material is never copied as-is:
+ * - The LRK and lease SessionKEKs are non-extractable CryptoKeys; they are left
+ *   out and recreated on import (new LRK; SessionKEKs re-derived from the MS).
+ * - KIAK and LAK private keys are sealed under the LRK; they travel as PKCS#8
+ *   inside the encrypted payload and are re-sealed under the new LRK.
+ *
+ * The worker owns the orchestration (unlock, confirmation, audit); this module
+ * owns the format: sealing, opening and verifying an archive.
+ */
+
+import { verifyAuditEntries } from './audit-verify';
+import { arrayBufferToBase64url, base64urlToArrayBuffer } from './crypto-utils';
+import { DB_VERSION } from './storage';
+import { isWrappedBlob } from './storage-types';
+import type { AuditEntryV2, UnlockEnrollments, WrappedBlob, WrappedKey } from './types';
+import { ValidationError } from './errors';
+
+/** Archive format identifier. */
+export const BACKUP_FORMAT = 'ats-kms-backup';
+
+/** Current (and highest readable) archive format version. */
+export const BACKUP_VERSION = 1;
+
+/** Cleartext archive header, authenticated as AAD. */
+export interface BackupHeader {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  /** Database schema version the stores were read at */
+  dbVersion: number;
+  /** Export time (ms) */
+  createdAt: number;
+  /** Account that exported the archive (and whose unlock slots it carries) */
+  userId: string;
+  /** Last audit entry in the archive, or null for an empty chain */
+  auditHead: { seqNum: number; chainHash: string } | null;
+  /** Encoded {@link UnlockEnrollments} */
+  enrollments: Record<string, unknown>;
+  /** HKDF salt for the archive key (base64url) */
+  salt: string;
+}
+
+/** A complete archive: header plus the encrypted payload. */
+export interface BackupArchive extends BackupHeader {
+  /** AES-GCM IV (base64url) */
+  iv: string;
+  /** AES-GCM ciphertext of the encoded {@link BackupPayload} (base64url) */
+  ciphertext: string;
+}
+
+/** An LRK-sealed private key, opened for transport. */
+export interface BackupDeviceKey {
+  /** Store holding the sealed record */
+  store: 'keys' | 'meta';
+  /** Record key: kid for `keys`, meta key for `meta` */
+  id: string;
+  pkcs8: ArrayBuffer;
+}
+
+/** Decrypted archive contents. */
+export interface BackupPayload {
+  /** Records of every object store, device-bound CryptoKeys removed */
+  stores: Record<string, unknown[]>;
+  /** KIAK / LAK private keys, to re-seal under the new LRK */
+  deviceKeys: BackupDeviceKey[];
+}
+
+/** Meta keys holding device-bound CryptoKeys, never exported. */
+export function isDeviceBoundMetaKey(key: string): boolean {
+  return key === 'LRK' || key.startsWith('sessionkek:');
+}
+
+/** Meta keys of LRK-sealed LAK records. */
+export const LAK_META_PREFIX = 'lease-audit-key:';
+
+/** Kid of the LRK-sealed KIAK record in the `keys` store. */
+export const KIAK_KID = 'audit-instance';
+
+// ============================================================================
+// Value encoding
+// ============================================================================
+
+/**
+ * JSON-safe encoding of stored records: binary values become tagged base64url
+ * objects so they round-trip with their type (ArrayBuffer vs Uint8Array).
+ */
+type EncodedBytes = { $bytes: string; $type: 'ArrayBuffer' | 'Uint8Array' };
+
+function encodeValue(value: unknown, path: string): unknown {
+  const tag = Object.prototype.toString.call(value);
+  if (tag === '[object ArrayBuffer]') {
+    return { $bytes: arrayBufferToBase64url(value as ArrayBuffer), $type: 'ArrayBuffer' };
+  }
+  if (tag === '[object Uint8Array]') {
+    const bytes = value as Uint8Array;
+    return {
+      $bytes: arrayBufferToBase64url(bytes.slice().buffer),
+      $type: 'Uint8Array',
+    };
+  }
+  if (tag === '[object CryptoKey]' || ArrayBuffer.isView(value)) {
+    throw new Error(`Cannot back up value at ${path} (${tag})`);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => encodeValue(item, `${path}[${i}]`));
+  }
+  if (typeof value === 'object' && value !== null) {
+    const out: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) out[key] = encodeValue(item, `${path}.${key}`);
+    }
+    return out;
+  }
+  return value;
+}
+
+function isEncodedBytes(value: object): value is EncodedBytes {
+  const v = value as Partial<EncodedBytes>;
+  return typeof v.$bytes === 'string' && (v.$type === 'ArrayBuffer' || v.$type === 'Uint8Array');
+}
+
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+  if (typeof value === 'object' && value !== null) {
+    if (isEncodedBytes(value)) {
+      const buffer = base64urlToArrayBuffer(value.$bytes);
+      return value.$type === 'Uint8Array' ? new Uint8Array(buffer) : buffer;
+    }
+    const out: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      out[key] = decodeValue(item);
+    }
+    return out;
+  }
+  return value;
+}
+
+/** Encode enrolment configs for the archive header. */
+export function encodeEnrollments(enrollments: UnlockEnrollments): Record<string, unknown> {
+  return encodeValue(enrollments, 'enrollments') as Record<string, unknown>;
+}
+
+/** Decode the unlock slots of an archive. */
+export function decodeEnrollments(archive: BackupArchive): UnlockEnrollments {
+  return decodeValue(archive.enrollments) as UnlockEnrollments;
+}
+
+// ============================================================================
+// Sealing and opening
+// ============================================================================
+
+/**
+ * AAD over the header: every field except the payload itself, top-level keys
+ * sorted. Nested values keep their order, which JSON round-trips unchanged.
+ */
+function buildBackupAAD(header: BackupHeader): ArrayBuffer {
+  const fields: Record<string, unknown> = {
+    format: header.format,
+    version: header.version,
+    dbVersion: header.dbVersion,
+    createdAt: header.createdAt,
+    userId: header.userId,
+    auditHead: header.auditHead,
+    enrollments: header.enrollments,
+    salt: header.salt,
+  };
+  const canonical =
+    '{' +
+    Object.keys(fields)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${JSON.stringify(fields[key])}`)
+      .join(',') +
+    '}';
+  const bytes = new TextEncoder().encode(canonical);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+/**
+ * Derive the archive key from the Master Secret. Non-extractable, so it can
+ * leave the unlock window as a handle while the MS is zeroised.
+ *
+ * @param ms - Master Secret
+ * @param salt - Per-archive random salt
+ */
+export async function deriveBackupKey(ms: Uint8Array, salt: ArrayBuffer): Promise<CryptoKey> {
+  const ikm = await crypto.subtle.importKey('raw', ms as BufferSource, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode('ATS/KMS/Backup/v1') },
+    ikm,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt a payload into a serialised archive.
+ *
+ * @param header - Archive header (bound as AAD)
+ * @param payload - Store snapshot and opened device keys
+ * @param backupKey - Key from {@link deriveBackupKey} over `header.salt`
+ * @returns The archive as JSON text
+ */
+export async function sealBackup(
+  header: BackupHeader,
+  payload: BackupPayload,
+  backupKey: CryptoKey
+): Promise<string> {
+  const plaintext = new TextEncoder().encode(JSON.stringify(encodeValue(payload, 'payload')));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: buildBackupAAD(header) },
+    backupKey,
+    plaintext
+  );
+  const archive: BackupArchive = {
+    ...header,
+    iv: arrayBufferToBase64url(iv.buffer),
+    ciphertext: arrayBufferToBase64url(ciphertext),
+  };
+  return JSON.stringify(archive);
+}
+
+/**
+ * Parse an archive and check it is one this KMS can restore. Refuses archives
+ * from a newer format or a newer database schema: their stores may carry data
+ * this version would silently drop.
+ *
+ * @throws if the text is not an archive, or the archive is too new
+ */
+export function readBackupArchive(text: string): BackupArchive {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ValidationError('Invalid backup archive: not JSON');
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new ValidationError('Invalid backup archive: not an object');
+  }
+  const a = parsed as Partial<BackupArchive>;
+  if (a.format !== BACKUP_FORMAT) {
+    throw new ValidationError('Invalid backup archive: unknown format');
+  }
+  if (typeof a.version !== 'number' || typeof a.dbVersion !== 'number') {
+    throw new ValidationError('Invalid backup archive: missing version');
+  }
+  if (a.version > BACKUP_VERSION) {
+    throw new ValidationError(`Backup format version ${a.version} is newer than this KMS supports (${BACKUP_VERSION})`);
+  }
+  if (a.dbVersion > DB_VERSION) {
+    throw new ValidationError(`Backup schema version ${a.dbVersion} is newer than this KMS supports (${DB_VERSION})`);
+  }
+  const head = a.auditHead;
+  if (
+    typeof a.createdAt !== 'number' ||
+    typeof a.userId !== 'string' ||
+    typeof a.salt !== 'string' ||
+    typeof a.iv !== 'string' ||
+    typeof a.ciphertext !== 'string' ||
+    typeof a.enrollments !== 'object' ||
+    a.enrollments === null ||
+    (head !== null &&
+      (typeof head !== 'object' || typeof head.seqNum !== 'number' || typeof head.chainHash !== 'string'))
+  ) {
+    throw new ValidationError('Invalid backup archive: malformed header');
+  }
+  return a as BackupArchive;
+}
+
+/**
+ * Decrypt an archive's payload.
+ *
+ * @throws if the key is wrong or the header or ciphertext were altered
+ */
+export async function openBackup(archive: BackupArchive, backupKey: CryptoKey): Promise<BackupPayload> {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: base64urlToArrayBuffer(archive.iv),
+        additionalData: buildBackupAAD(archive),
+      },
+      backupKey,
+      base64urlToArrayBuffer(archive.ciphertext)
+    );
+  } catch {
+    throw new ValidationError('Backup decryption failed: archive was altered or belongs to another account');
+  }
+  const payload = decodeValue(JSON.parse(new TextDecoder().decode(plaintext))) as BackupPayload;
+  if (typeof payload.stores !== 'object' || payload.stores === null || !Array.isArray(payload.deviceKeys)) {
+    throw new ValidationError('Invalid backup archive: malformed payload');
+  }
+  return payload;
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/** Every wrapped blob nested anywhere in a record. */
+function collectBlobs(value: unknown, out: WrappedBlob[] = []): WrappedBlob[] {
+  if (isWrappedBlob(value)) {
+    out.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectBlobs(item, out);
+  } else if (typeof value === 'object' && value !== null && !(value instanceof ArrayBuffer) && !ArrayBuffer.isView(value)) {
+    for (const item of Object.values(value)) collectBlobs(item, out);
+  }
+  return out;
+}
+
+/** Check a wrapped key's AAD (see `buildKeyWrapAAD`) describes the record it sits in. */
+function checkKeyAAD(
+  aadBytes: ArrayBuffer,
+  expected: { kid: string; alg: string; purpose: string; createdAt: number }
+): void {
+  let aad: Partial<typeof expected>;
+  try {
+    aad = JSON.parse(new TextDecoder().decode(aadBytes)) as Partial<typeof expected>;
+  } catch {
+    throw new ValidationError(`Backup key ${expected.kid} has an unreadable AAD`);
+  }
+  if (
+    aad.kid !== expected.kid ||
+    aad.alg !== expected.alg ||
+    aad.purpose !== expected.purpose ||
+    aad.createdAt !== expected.createdAt
+  ) {
+    throw new ValidationError(`Backup key ${expected.kid} does not match its AAD`);
+  }
+}
+
+async function opensUnder(blob: { ciphertext: ArrayBuffer; iv: ArrayBuffer; aad: ArrayBuffer }, keys: CryptoKey[]): Promise<boolean> {
+  for (const key of keys) {
+    try {
+      await crypto.subtle.decrypt({ name: 'AES-GCM', iv: blob.iv, additionalData: blob.aad }, key, blob.ciphertext);
+      return true;
+    } catch {
+      // try the next key
+    }
+  }
+  return false;
+}
+
+/**
+ * Verify a decrypted archive before anything is restored:
+ *
+ * - the audit chain is contiguous, hash-linked and correctly signed against
+ *   the archived UAK/KIAK, and ends at the header's `auditHead`;
+ * - every MKEK-wrapped key's AAD matches its record and authenticates under
+ *   the account's MKEK;
+ * - every wrapped blob authenticates under the MKEK or the messaging KEK;
+ * - every LRK-sealed record (KIAK, LAKs) has its private key in the payload
+ *   and an AAD matching its record.
+ *
+ * @throws describing the first failure
+ */
+export async function verifyBackupPayload(
+  archive: BackupArchive,
+  payload: BackupPayload,
+  keys: { mkek: CryptoKey; messagingKEK: CryptoKey }
+): Promise<void> {
+  const keyRecords = (payload.stores.keys ?? []) as WrappedKey[];
+  const metaRecords = (payload.stores.meta ?? []) as Array<{ key: string; value: unknown }>;
+  const deviceKeyIds = new Set(payload.deviceKeys.map((k) => `${k.store}:${k.id}`));
+
+  // Audit chain
+  const entries = (payload.stores.audit ?? []) as AuditEntryV2[];
+  entries.forEach((entry, i) => {
+    const previous = entries[i - 1];
+    const expectedPrevious = previous ? previous.chainHash : '';
+    if (entry.previousHash !== expectedPrevious || (previous && entry.seqNum !== previous.seqNum + 1)) {
+      throw new ValidationError(`Backup audit chain is broken at seq ${entry.seqNum}`);
+    }
+  });
+  const last = entries[entries.length - 1];
+  const head = last ? { seqNum: last.seqNum, chainHash: last.chainHash } : null;
+  if (head?.seqNum !== archive.auditHead?.seqNum || head?.chainHash !== archive.auditHead?.chainHash) {
+    throw new ValidationError('Backup audit chain does not end at the archived head');
+  }
+  const verification = await verifyAuditEntries(entries, {
+    uakPublicKeyRaw: keyRecords.find((k) => k.kid === 'audit-user')?.publicKeyRaw ?? null,
+    kiakPublicKeyRaw: keyRecords.find((k) => k.kid === KIAK_KID)?.publicKeyRaw ?? null,
+  });
+  if (!verification.valid) {
+    throw new ValidationError(`Backup audit chain is invalid: ${verification.errors[0] ?? 'unknown error'}`);
+  }
+
+  // Wrapped keys
+  for (const record of keyRecords) {
+    checkKeyAAD(record.aad, record);
+    if (record.kid === KIAK_KID) {
+      if (!deviceKeyIds.has(`keys:${KIAK_KID}`)) {
+        throw new ValidationError('Backup is missing the instance audit key');
+      }
+    } else if (!(await opensUnder({ ciphertext: record.wrappedKey, iv: record.iv, aad: record.aad }, [keys.mkek]))) {
+      throw new ValidationError(`Backup key ${record.kid} does not authenticate under this account`);
+    }
+  }
+
+  // LAK records
+  for (const { key, value } of metaRecords) {
+    if (!key.startsWith(LAK_META_PREFIX)) continue;
+    const leaseId = key.slice(LAK_META_PREFIX.length);
+    const lak = value as { aad: ArrayBuffer; createdAt: number };
+    checkKeyAAD(lak.aad, { kid: `lak-${leaseId}`, alg: 'EdDSA', purpose: 'lak', createdAt: lak.createdAt });
+    if (!deviceKeyIds.has(`meta:${key}`)) {
+      throw new ValidationError(`Backup is missing the audit key for lease ${leaseId}`);
+    }
+  }
+
+  // Wrapped blobs (Signal state, account root, contacts, invites)
+  for (const [store, records] of Object.entries(payload.stores)) {
+    if (store === 'keys' || store === 'audit') continue;
+    for (const blob of collectBlobs(records)) {
+      if (!(await opensUnder(blob, [keys.mkek, keys.messagingKEK]))) {
+        throw new ValidationError(`Backup ${store} record does not authenticate under this account`);
+      }
+    }
+  }
+}
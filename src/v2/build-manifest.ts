@@ -0,0 +1,190 @@
+/**
+ * Signed build manifest for the KMS enclave
+ *
+ * The release build (build/build-enclave.ts) publishes
+ * `/.well-known/kms-manifest.json` listing the worker bundles the enclave may
+ * run, and signs it with an Ed25519 release key for a limited time
+ * (`issuedAt` to `expires`). KMSUser pins the release public keys and fetches
+ * the manifest whenever it loads the enclave iframe. It refuses a manifest that
+ * is unsigned, signed by another key, expired, or issued before one it has
+ * already accepted (so an old signed manifest cannot be served again).
+ *
+ * The manifest does not say which worker the iframe actually runs. The enclave
+ * reports that itself, and KMSUser checks the report against `allowed` and
+ * `deprecated`. The check catches a deploy that was never signed off, or one
+ * still serving a withdrawn build. It does not stop a hostile KMS origin,
+ * which can serve the current signed manifest and report any hash it likes.
+ * Checking the code that runs still takes the reproducible-build verification
+ * in REPRODUCIBLE_BUILDS.md.
+ *
+ * The signature covers the canonical JSON of the manifest with `signature`
+ * left out, so it survives re-serialisation. Only WebCrypto and plain data
+ * are used, so the build signs with the same code KMSUser verifies with.
+ */
+
+import { canonicalJSON, computeKeyId } from './audit-verify.js';
+import { arrayBufferToBase64url, base64urlToArrayBuffer } from './crypto-utils.js';
+import { KMSError } from './errors.js';
+
+/** Where the enclave origin serves its manifest. */
+export const BUILD_MANIFEST_PATH = '/.well-known/kms-manifest.json';
+
+/**
+ * How close to `expires` KMSUser starts warning that the manifest has not been
+ * re-signed. The deploy workflow re-signs weekly, so a manifest this close to
+ * expiry means scheduled runs have been failing.
+ */
+export const BUILD_MANIFEST_EXPIRY_WARNING_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * The published manifest (the `.well-known` shape written by the build)
+ */
+export interface KMSBuildManifest {
+  schema: number;
+  current: {
+    version: string;
+    commit: string;
+    /** Worker bundle filename */
+    artifact: string;
+    /** SHA-256 (hex) of the worker bundle */
+    sha256: string;
+    files: Record<string, { filename: string; sha256?: string; sri: string }>;
+    timestamp: string;
+    build: Record<string, unknown>;
+  };
+  /** SHA-256 (hex) of every worker bundle a client may run */
+  allowed: string[];
+  /** SHA-256 (hex) of withdrawn worker bundles, refused even if still allowed */
+  deprecated: string[];
+  comment?: string;
+  /** When the release key signed the manifest (ISO 8601) */
+  issuedAt: string;
+  /** When the signature stops being accepted (ISO 8601); a release is re-signed before then */
+  expires: string;
+}
+
+/**
+ * Release signature over a manifest
+ */
+export interface BuildManifestSignature {
+  alg: 'Ed25519';
+  /** base64url(SHA-256(raw release public key)) */
+  kid: string;
+  /** base64url Ed25519 signature over the canonical, signature-excluded manifest */
+  sig: string;
+}
+
+/** A manifest carrying its release signature */
+export type SignedBuildManifest<T extends object = KMSBuildManifest> = T & { signature: BuildManifestSignature };
+
+/**
+ * Sign a manifest with a release key.
+ *
+ * @param privateKey - Ed25519 signing key
+ * @param publicKey - The matching raw public key, base64url (names the `kid`)
+ */
+export async function signBuildManifest<T extends object>(
+  manifest: T,
+  privateKey: CryptoKey,
+  publicKey: string
+): Promise<SignedBuildManifest<T>> {
+  const sig = await crypto.subtle.sign('Ed25519', privateKey, new TextEncoder().encode(canonicalJSON(manifest)));
+  return {
+    ...manifest,
+    signature: {
+      alg: 'Ed25519',
+      kid: await computeKeyId(base64urlToArrayBuffer(publicKey)),
+      sig: arrayBufferToBase64url(sig),
+    },
+  };
+}
+
+/**
+ * Freshness requirements for {@link verifyBuildManifest}
+ */
+export interface BuildManifestFreshness {
+  /** Current time in ms since the epoch (default: Date.now()) */
+  now?: number;
+  /** `issuedAt` of the newest manifest already accepted, in ms; anything older is a rollback */
+  issuedNotBefore?: number;
+}
+
+/**
+ * Verify a fetched manifest against pinned release keys, then check that it
+ * is still valid and not older than one already accepted.
+ *
+ * @param value - The parsed manifest JSON
+ * @param releaseKeys - Raw Ed25519 release public keys, base64url
+ * @returns The manifest without its signature
+ * @throws {KMSError} ATTESTATION_FAILED when the manifest is malformed,
+ *   unsigned, signed by a key that is not pinned, has an invalid signature,
+ *   has expired or was issued before `issuedNotBefore`
+ */
+export async function verifyBuildManifest(
+  value: unknown,
+  releaseKeys: readonly string[],
+  freshness: BuildManifestFreshness = {}
+): Promise<KMSBuildManifest> {
+  if (!isSignedManifest(value)) {
+    throw new KMSError('ATTESTATION_FAILED', 'Build manifest is malformed or unsigned');
+  }
+  const { signature, ...manifest } = value;
+
+  let releaseKey: ArrayBuffer | null = null;
+  for (const key of releaseKeys) {
+    const raw = base64urlToArrayBuffer(key);
+    if ((await computeKeyId(raw)) === signature.kid) {
+      releaseKey = raw;
+      break;
+    }
+  }
+  if (!releaseKey) {
+    throw new KMSError('ATTESTATION_FAILED', 'Build manifest is not signed by a pinned release key');
+  }
+
+  const valid = await crypto.subtle.verify(
+    'Ed25519',
+    await crypto.subtle.importKey('raw', releaseKey, { name: 'Ed25519' }, false, ['verify']),
+    base64urlToArrayBuffer(signature.sig),
+    new TextEncoder().encode(canonicalJSON(manifest))
+  );
+  if (!valid) {
+    throw new KMSError('ATTESTATION_FAILED', 'Build manifest signature invalid');
+  }
+
+  const { now = Date.now(), issuedNotBefore } = freshness;
+  if (Date.parse(manifest.expires) <= now) {
+    throw new KMSError('ATTESTATION_FAILED', `Build manifest expired at ${manifest.expires}`);
+  }
+  if (issuedNotBefore !== undefined && Date.parse(manifest.issuedAt) < issuedNotBefore) {
+    throw new KMSError(
+      'ATTESTATION_FAILED',
+      `Build manifest issued at ${manifest.issuedAt} is older than one already accepted`
+    );
+  }
+  return manifest;
+}
+
+function isSignedManifest(value: unknown): value is SignedBuildManifest {
+  const manifest = value as Partial<SignedBuildManifest> | null;
+  return (
+    typeof manifest === 'object' &&
+    manifest !== null &&
+    manifest.signature?.alg === 'Ed25519' &&
+    typeof manifest.signature.kid === 'string' &&
+    typeof manifest.signature.sig === 'string' &&
+    typeof manifest.current?.sha256 === 'string' &&
+    isStringArray(manifest.allowed) &&
+    isStringArray(manifest.deprecated) &&
+    isTimestamp(manifest.issuedAt) &&
+    isTimestamp(manifest.expires)
+  );
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
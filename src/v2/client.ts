@@ -5,13 +5,16 @@
  * bridge between the parent PWA (allthe.services) and the KMS Worker.
  *
  * Security:
- * - Origin validation: Only accepts messages from configured parent origin
+ * - Origin validation: Only accepts messages from configured parent origin,
+ *   which must be on the allowlist baked in at build time
+ * - Dedicated channel: After a handshake with the embedding window, RPCs travel
+ *   over a private MessagePort, never window.postMessage
  * - Minimal logic: Simple message forwarding, no crypto operations
  * - Worker isolation: All crypto operations delegated to Worker
  *
  * Architecture:
  *   PWA (allthe.services)
- *       ↓ postMessage (cross-origin)
+ *       ↓ MessagePort (cross-origin, after the kms:connect handshake)
  *   client.ts (iframe @ kms.ats.run)
  *       ↓ postMessage (Worker)
  *   worker.ts (Dedicated Worker)
@@ -19,14 +22,38 @@
 
 import type { RPCRequest, RPCResponse, AuthCredentials, StoredPushSubscription } from './types.js';
 import { formatError, getErrorMessage } from './error-utils.js';
+import { toRPCErrorDetail } from './errors.js';
+import { getOperationPolicy, OperationPolicyError } from './operation-policy.js';
 import { getPRFResults } from './webauthn-types.js';
 import { arrayBufferToBase64url, base64urlToArrayBuffer } from './crypto-utils.js';
 import { decodeInvite } from './invite.js';
 import { identityFingerprint } from './master-identity.js';
 import { qrSvg, decodeQr } from './qr.js';
+import { isSafetyQr } from './safety-number.js';
 
-// Global constant injected at build time by esbuild
+// Global constants injected at build time by esbuild
 declare const __WORKER_FILENAME__: string;
+declare const __WORKER_SHA256__: string;
+declare const __KMS_ALLOWED_PARENT_ORIGINS__: string[];
+
+/**
+ * Parent origins this enclave build will serve. Release builds bake the list in
+ * (`KMS_ALLOWED_PARENT_ORIGINS`, see build/build-enclave.ts), so a `parentOrigin`
+ * URL parameter naming anything else is refused even if `frame-ancestors` is
+ * misconfigured. Unbuilt sources (tests, the Vite demos) fall back to the
+ * production PWA and the local demo parent.
+ */
+export const ALLOWED_PARENT_ORIGINS: readonly string[] =
+  typeof __KMS_ALLOWED_PARENT_ORIGINS__ !== 'undefined'
+    ? __KMS_ALLOWED_PARENT_ORIGINS__
+    : ['https://allthe.services', 'http://localhost:5173'];
+
+/**
+ * SHA-256 (hex) of the worker bundle this client loads, baked in by the build
+ * next to its filename. Reported in `kms:ready` so KMSUser can check it against
+ * the signed build manifest; null in unbuilt sources.
+ */
+const WORKER_SHA256: string | null = typeof __WORKER_SHA256__ !== 'undefined' ? __WORKER_SHA256__ : null;
 
 /**
  * localStorage flag (first-party kms.ats.run) shared by the setup and unlock
@@ -46,6 +73,18 @@ function normalizeMnemonicWord(word: string): string {
   return word.trim().toLowerCase();
 }
 
+/**
+ * Whether a parent-port message is an RPC request the worker may see: a string
+ * `id`, a `method` the operation policy table knows, and no `type`. Anything
+ * else, in particular the worker's own `worker:*` control messages, would let
+ * the parent answer ceremonies meant for enclave UI.
+ */
+function isParentRPCRequest(data: unknown): data is RPCRequest {
+  if (!data || typeof data !== 'object' || 'type' in data) return false;
+  const { id, method } = data as { id?: unknown; method?: unknown };
+  return typeof id === 'string' && typeof method === 'string' && getOperationPolicy(method) !== undefined;
+}
+
 /**
  * Configuration for KMSClient
  */
@@ -61,6 +100,12 @@ export interface KMSClientConfig {
    * Defaults to './worker.js' relative to this module
    */
   workerUrl?: string;
+
+  /**
+   * Optional allowlist override (for testing)
+   * Defaults to {@link ALLOWED_PARENT_ORIGINS}, fixed at build time
+   */
+  allowedOrigins?: readonly string[];
 }
 
 /**
@@ -73,6 +118,14 @@ export class KMSClient {
   private worker: Worker | null = null;
   private parentOrigin: string;
   private workerUrl: string;
+  private allowedOrigins: readonly string[];
+  // IFRAME-side end of the channel KMSUser hands over in the kms:connect handshake.
+  // Once set, every RPC and response travels over it instead of window.postMessage.
+  private parentPort: MessagePort | null = null;
+  private boundParentHandler: ((event: MessageEvent) => void) | null = null;
+  // Set once the worker reports an error: heartbeats go unanswered from then on,
+  // so KMSUser re-creates the iframe (and with it the worker).
+  private workerFailed = false;
   private isInitialized = false;
   private pendingUnlockRequest: RPCRequest | null = null;
   private pendingUnlockRequestId: string | null = null; // For addEnrollmentWithPopup unlock flow
@@ -98,15 +151,24 @@ export class KMSClient {
   // BUG-007 recovery-phrase ceremony (worker:show-mnemonic) can be relayed to the
   // popup UI. Set while handleMessagingUnlockViaPopup is in flight; else null.
   private messagingPopupPort: MessagePort | null = null;
+  // Nonce of the confirmation prompt (worker:confirm-reset / worker:confirm-backup)
+  // last relayed to that popup. Echoed with the user's approval so the worker knows
+  // it came from this client and not from a parent that knows the RPC id. Never
+  // sent to the parent.
+  private messagingPopupNonce: string | null = null;
 
-  // IFRAME-side id of the in-flight Connect ceremony RPC (mint/accept). The
+  // IFRAME-side id of the in-flight Connect ceremony RPC (mint/accept/verify). The
   // ceremony renders in the iframe modal (NOT a popup — no credential is
   // collected), so its outcomes (worker:invite-shown / worker:invite-blob) post
   // straight back to the worker, matched by this id. Set while
   // handleConnectViaIframe is in flight; else null.
   private pendingConnectRequestId: string | null = null;
-  // Connect accept-view QR scanner: the live camera stream + a run flag for the
-  // decode loop. Both torn down on success, cancel, view change, and modal close.
+  // Nonce the worker attached to the safety-number prompt (worker:show-safety).
+  // The verdict echoes it so the worker accepts it only from this client; it is
+  // never rendered or sent to the parent.
+  private pendingConnectNonce: string | null = null;
+  // Connect accept/verify-view QR scanner: the live camera stream + a run flag for
+  // the decode loop. Both torn down on success, cancel, view change, and modal close.
   private connectScanStream: MediaStream | null = null;
   private connectScanning = false;
 
@@ -119,6 +181,7 @@ export class KMSClient {
     this.parentOrigin = config.parentOrigin;
     // Use injected worker filename from build (for production) or fallback to relative path (for dev)
     this.workerUrl = config.workerUrl ?? (typeof __WORKER_FILENAME__ !== 'undefined' ? __WORKER_FILENAME__ : new URL('./worker.js', import.meta.url).href);
+    this.allowedOrigins = config.allowedOrigins ?? ALLOWED_PARENT_ORIGINS;
   }
 
   /**
@@ -126,13 +189,17 @@ export class KMSClient {
    *
    * Creates the Worker, sets up message handlers, and signals ready to parent.
    *
-   * @throws {Error} If already initialized or Worker creation fails
+   * @throws {Error} If already initialized, the parent origin is not on the
+   *   allowlist, or Worker creation fails
    */
   // eslint-disable-next-line @typescript-eslint/require-await
   async init(): Promise<void> {
     if (this.isInitialized) {
       throw new Error('KMSClient already initialized');
     }
+    if (!this.allowedOrigins.includes(this.parentOrigin)) {
+      throw new Error(`Parent origin not allowed: ${this.parentOrigin}`);
+    }
 
     try {
       // Detect stateless popup mode from URL parameters
@@ -163,7 +230,8 @@ export class KMSClient {
 
       // Setup parent window message handler FIRST (before Worker creation)
       // This ensures popup can receive kms:hello even if Worker init fails
-      window.addEventListener('message', this.handleParentMessage.bind(this));
+      this.boundParentHandler = this.handleParentMessage.bind(this);
+      window.addEventListener('message', this.boundParentHandler);
 
       // Create Dedicated Worker
       this.worker = new Worker(this.workerUrl, {
@@ -182,7 +250,7 @@ export class KMSClient {
       // Signal ready to parent
       if (!this.isStatelessPopup) {
         // Normal iframe mode - use existing mechanism
-        this.sendToParent({ type: 'kms:ready' });
+        this.sendToParent({ type: 'kms:ready', ...(WORKER_SHA256 !== null ? { worker: WORKER_SHA256 } : {}) });
       } else {
         /* c8 ignore start - stateless popup mode requires browser integration testing */
         /* eslint-disable no-console */
@@ -277,6 +345,12 @@ export class KMSClient {
     /* eslint-enable no-console, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-assignment */
     /* c8 ignore stop */
 
+    // Iframe handshake: KMSUser answers kms:ready with the port all RPCs use.
+    if ((event.data as { type?: string } | null)?.type === 'kms:connect') {
+      this.acceptParentPort(event);
+      return;
+    }
+
     // Handle popup responses from parent
     const eventData = event.data as { type?: string; requestId?: string; reason?: string };
     /* c8 ignore start - fullSetup flow handlers: work in manual testing, tested against phase2-demo.allthe.services but cannot be reliably automated due to Playwright notification permission restrictions */
@@ -334,14 +408,73 @@ export class KMSClient {
     }
     /* c8 ignore stop */
 
+    // RPCs only travel over the handshake port: a request posted to the window
+    // could come from any same-origin document, not the KMSUser that connected.
+    console.warn('[KMS Client] Ignoring message sent over window.postMessage; RPCs use the kms:connect port');
+  }
+
+  /**
+   * Accept the dedicated MessagePort from the embedding window.
+   *
+   * KMSUser answers `kms:ready` with `kms:connect`, transferring one end of a
+   * fresh MessageChannel along with a nonce. The message has already passed the
+   * origin check; it must also come from `window.parent` itself, and only the
+   * first handshake is honoured. The nonce is echoed in `kms:connected` on the
+   * port so KMSUser knows the channel reached this iframe.
+   *
+   * @param event - The kms:connect message event from the parent window
+   */
+  private acceptParentPort(event: MessageEvent): void {
+    const hasParent = window.parent && window.parent !== window;
+    if (!hasParent || event.source !== window.parent) {
+      console.warn('[KMS Client] Rejected kms:connect from a window other than the parent');
+      return;
+    }
+    if (this.parentPort) {
+      console.warn('[KMS Client] Rejected second kms:connect; the parent channel is already established');
+      return;
+    }
+    const { nonce } = event.data as { nonce?: unknown };
+    const port = event.ports?.[0];
+    if (!port || typeof nonce !== 'string') {
+      console.error('[KMS Client] kms:connect without a MessagePort and nonce');
+      return;
+    }
+
+    this.parentPort = port;
+    port.onmessage = (portEvent: MessageEvent): void => {
+      const data = portEvent.data as { type?: string; nonce?: unknown };
+      if (data?.type === 'kms:ping') {
+        // The worker answers, and its kms:pong takes the default path back to
+        // the parent: a hung or failed worker leaves the heartbeat unanswered.
+        if (!this.workerFailed) {
+          this.worker?.postMessage({ type: 'kms:ping', nonce: data.nonce });
+        }
+        return;
+      }
+      if (!isParentRPCRequest(portEvent.data)) {
+        console.warn('[KMS Client] Dropped a parent-port message that is not an RPC request');
+        return;
+      }
+      this.handleParentRequest(portEvent.data);
+    };
+    port.postMessage({ type: 'kms:connected', nonce });
+  }
+
+  /**
+   * Handle an RPC request from the parent's MessagePort
+   *
+   * Intercepts operations that need enclave UI and forwards the rest to Worker.
+   *
+   * @param request - RPC request from KMSUser
+   */
+  private handleParentRequest(request: RPCRequest): void {
     // Validate client is initialized
     if (!this.isInitialized || !this.worker) {
       console.error('[KMS Client] Received message before initialization');
       return;
     }
 
-    const request = event.data as RPCRequest;
-
     // Intercept operations that require authentication
     // These will show modal, collect credentials, then execute.
     //
@@ -351,18 +484,11 @@ export class KMSClient {
     // happen — the appSalt lives in this (kms.ats.run) origin's localStorage and
     // is unreadable from the parent PWA. The PWA sends only { userId, ... }; the
     // client injects the collected credentials before forwarding to the worker.
-    const authRequiredMethods = [
-      'createLease',
-      'generateVAPID',
-      'signJWT',
-      'regenerateVAPID',
-      'addEnrollment',
-      'setupMessaging',
-      'provisionMessaging',
-      'provisionMessagingFromMnemonic',
-      'setupAccountRoot',
-      'openMessaging',
-    ];
+    //
+    // Which methods take this path comes from the operation policy table: every
+    // method that needs fresh auth AND a KMS-origin confirmation. Credentials a
+    // parent put in params do not skip the UI.
+    const policy = request?.method ? getOperationPolicy(request.method) : undefined;
     // Messaging unlock (setupMessaging / setupAccountRoot / openMessaging) now
     // collects ALL credentials — passphrase AND passkey — in the top-level
     // kms.ats.run popup. The iframe modal is NOT shown for these; the popup owns
@@ -374,15 +500,24 @@ export class KMSClient {
       'provisionMessagingFromMnemonic',
       'setupAccountRoot',
       'openMessaging',
+      // resetKMS rides the popup too: its confirmation step (worker:confirm-reset)
+      // must render in kms.ats.run, which needs the popup port. Same for the
+      // backup export/import confirmation (worker:confirm-backup).
+      'resetKMS',
+      'exportBackup',
+      'importBackup',
     ];
-    if (request?.method && authRequiredMethods.includes(request.method)) {
+    if (
+      (policy?.freshAuth === 'params' && policy.kmsConfirmation) ||
+      (request?.method && messagingUnlockMethods.includes(request.method))
+    ) {
       if (messagingUnlockMethods.includes(request.method)) {
         void this.handleMessagingUnlockViaPopup(request).catch((err: unknown) => {
           console.error('[KMS Client] Messaging unlock via popup failed:', err);
           if (request.id) {
             this.sendToParent({
               id: request.id,
-              error: formatError('Messaging unlock failed', err),
+              error: { ...toRPCErrorDetail(err), message: formatError('Messaging unlock failed', err) },
             });
           }
         });
@@ -398,14 +533,21 @@ export class KMSClient {
     // that already holds the vault); the room secret is only ever displayed (mint)
     // or entered (accept) inside the iframe, never in the PWA. The popup exists
     // solely for first-party WebAuthn/passkey unlock, which this ceremony skips.
-    const connectCeremonyMethods = ['mintInvite', 'acceptInvite'];
-    if (request?.method && connectCeremonyMethods.includes(request.method)) {
+    // Safety-number verification (rooms §4) rides the same modal: the verdict must
+    // come from the enclave surface, not the PWA.
+    //
+    // From the table: every session-scoped method that needs a KMS-origin
+    // confirmation (mintInvite, acceptInvite, verifySafetyNumber).
+    if (policy?.allowance === 'session' && policy.kmsConfirmation) {
       try {
         this.handleConnectViaIframe(request);
       } catch (err: unknown) {
         console.error('[KMS Client] Connect ceremony via iframe failed:', err);
         if (request.id) {
-          this.sendToParent({ id: request.id, error: formatError('Connect ceremony failed', err) });
+          this.sendToParent({
+            id: request.id,
+            error: { ...toRPCErrorDetail(err), message: formatError('Connect ceremony failed', err) },
+          });
         }
       }
       return; // Don't forward to worker yet — handleConnectViaIframe forwards it.
@@ -423,9 +565,24 @@ export class KMSClient {
       return; // Don't forward to worker yet
     }
 
+    // The popup setup flows are the only confirmed methods the worker drives
+    // itself (it asks for the popup with worker:setup-with-popup). Anything
+    // else the table says needs confirmation and no path above showed UI for
+    // is refused rather than run silently.
+    const workerCeremonyMethods = ['setupWithPopup', 'fullSetup', 'addEnrollmentWithPopup'];
+    if (policy?.kmsConfirmation && !workerCeremonyMethods.includes(request.method)) {
+      this.sendToParent({
+        id: request.id,
+        error: toRPCErrorDetail(
+          new OperationPolicyError(request.method, 'kmsConfirmation', 'no enclave UI confirms this method')
+        ),
+      });
+      return;
+    }
+
     // Forward to Worker
     try {
-      this.worker.postMessage(event.data);
+      this.worker.postMessage(request);
     } catch (err: unknown) {
       console.error('[KMS Client] Failed to forward message to Worker:', err);
 
@@ -433,7 +590,7 @@ export class KMSClient {
       if (request?.id) {
         this.sendToParent({
           id: request.id,
-          error: formatError('Failed to forward message', err),
+          error: { ...toRPCErrorDetail(err), message: formatError('Failed to forward message', err) },
         });
       }
     }
@@ -511,6 +668,45 @@ export class KMSClient {
         return;
       }
 
+      // KMS reset: relay the confirmation prompt to the top-level popup that just
+      // collected the credentials. Without a popup there is nowhere trustworthy to
+      // ask, so cancel — the worker wipes nothing.
+      if ('type' in data && data.type === 'worker:confirm-reset') {
+        if (this.messagingPopupPort) {
+          this.messagingPopupNonce = data.nonce as string;
+          this.messagingPopupPort.postMessage({
+            type: 'popup:confirm-reset',
+            userId: data.userId as string,
+          });
+        } else {
+          this.worker?.postMessage({
+            type: 'worker:reset-cancelled',
+            requestId: data.requestId as string,
+            reason: 'No popup available to confirm the reset',
+          });
+        }
+        return;
+      }
+
+      // Backup export/import: same relay as the reset confirmation.
+      if ('type' in data && data.type === 'worker:confirm-backup') {
+        if (this.messagingPopupPort) {
+          this.messagingPopupNonce = data.nonce as string;
+          this.messagingPopupPort.postMessage({
+            type: 'popup:confirm-backup',
+            userId: data.userId as string,
+            direction: data.direction as 'export' | 'import',
+          });
+        } else {
+          this.worker?.postMessage({
+            type: 'worker:backup-cancelled',
+            requestId: data.requestId as string,
+            reason: 'No popup available to confirm the backup',
+          });
+        }
+        return;
+      }
+
       // Connect ceremony (rooms §3.2/§3.4): render the invite in the IFRAME modal.
       // mint → display the (secret-bearing) link to share; accept → collect + confirm
       // a pasted link. The blob is shown/entered inside the iframe (same origin as
@@ -525,6 +721,19 @@ export class KMSClient {
         this.renderConnectAccept();
         return;
       }
+      // Safety-number ceremony (rooms §4): show the number + QR; the user scans the
+      // peer's QR or compares by eye, and the verdict posts back to the worker.
+      if ('type' in data && data.type === 'worker:show-safety') {
+        this.pendingConnectNonce = data.nonce as string;
+        this.renderConnectVerify(data as unknown as {
+          peerUserId: string;
+          digits: string;
+          emoji: string[];
+          words: string[];
+          qr: string;
+        });
+        return;
+      }
 
       // Intercept push subscription request from worker (for fullSetup)
       if ('type' in data && data.type === 'worker:request-push-subscription') {
@@ -547,6 +756,15 @@ export class KMSClient {
         return;
       }
 
+      // Enclave events (KMSUser.on) only travel on the handshake port: before the
+      // handshake there is no KMSUser to deliver them to.
+      if ('type' in data && data.type === 'worker:event') {
+        if (this.parentPort) {
+          this.sendToParent({ type: 'kms:event', event: data.event });
+        }
+        return;
+      }
+
       // Intercept popup request from worker
       if ('type' in data && data.type === 'worker:request-popup-from-parent') {
         this.handleWorkerPopupRequest(
@@ -944,8 +1162,13 @@ export class KMSClient {
       colno: event.colno,
     });
 
-    // Worker errors are often fatal - consider reinitializing
-    // For now, just log the error
+    // Treat it as fatal: KMSUser drops this iframe and builds a fresh one,
+    // replaying what is safe to replay. Heartbeats stop being answered too, in
+    // case this notice is lost.
+    this.workerFailed = true;
+    if (this.parentPort) {
+      this.sendToParent({ type: 'kms:worker-error', message: event.message });
+    }
   }
 
   /**
@@ -954,6 +1177,12 @@ export class KMSClient {
    * @param data - Data to send
    */
   private sendToParent(data: RPCResponse | { type: string; [key: string]: unknown }): void {
+    // Iframe mode after the handshake: the dedicated port is the only channel.
+    if (this.parentPort) {
+      this.parentPort.postMessage(data);
+      return;
+    }
+
     // Determine target window based on context
     // Popup mode: use window.opener (popup was opened by parent)
     // Iframe mode: use window.parent (iframe is embedded in parent)
@@ -1179,7 +1408,7 @@ export class KMSClient {
    * top-level popup needs to render its unlock modal, plus the PRF `appSalt`,
    * stored `credentialId`, and `rpId` (all sourced from the worker config).
    */
-  private async getMessagingUnlockOptions(userId: string): Promise<{
+  private async getMessagingUnlockOptions(userId: string, backup?: string): Promise<{
     hasPassphrase: boolean;
     hasPasskeyPrf: boolean;
     hasPasskeyGate: boolean;
@@ -1192,7 +1421,7 @@ export class KMSClient {
       const request: RPCRequest = {
         id: requestId,
         method: 'getMessagingUnlockOptions',
-        params: { userId },
+        params: { userId, ...(backup !== undefined ? { backup } : {}) },
       };
 
       const handler = (event: MessageEvent): void => {
@@ -1366,7 +1595,10 @@ export class KMSClient {
     }
 
     // Authoritative flags + PRF appSalt from the worker config (never localStorage).
-    const options = await this.getMessagingUnlockOptions(userId);
+    // importBackup unlocks with the archive's own enrolments, not the local ones.
+    const backup =
+      request.method === 'importBackup' ? (request.params as { backup?: string } | undefined)?.backup : undefined;
+    const options = await this.getMessagingUnlockOptions(userId, backup);
 
     const requestId = `unlock-popup-${Date.now()}`;
     const popupURL = `${location.origin}/?mode=unlock&parentOrigin=${this.parentOrigin}`;
@@ -1433,6 +1665,40 @@ export class KMSClient {
               reason: 'Recovery-phrase backup was cancelled',
             });
           }
+        } else if (data?.type === 'popup:reset-confirmed') {
+          // KMS reset: user confirmed the wipe in the popup (keyed by the RPC id).
+          if (rpcId) {
+            this.worker?.postMessage({
+              type: 'worker:reset-confirmed',
+              requestId: rpcId,
+              nonce: this.messagingPopupNonce,
+            });
+          }
+        } else if (data?.type === 'popup:reset-cancelled') {
+          if (rpcId) {
+            this.worker?.postMessage({
+              type: 'worker:reset-cancelled',
+              requestId: rpcId,
+              reason: 'KMS reset was cancelled',
+            });
+          }
+        } else if (data?.type === 'popup:backup-confirmed') {
+          // Backup export/import: user confirmed in the popup (keyed by the RPC id).
+          if (rpcId) {
+            this.worker?.postMessage({
+              type: 'worker:backup-confirmed',
+              requestId: rpcId,
+              nonce: this.messagingPopupNonce,
+            });
+          }
+        } else if (data?.type === 'popup:backup-cancelled') {
+          if (rpcId) {
+            this.worker?.postMessage({
+              type: 'worker:backup-cancelled',
+              requestId: rpcId,
+              reason: 'Backup was cancelled',
+            });
+          }
         } else if (data?.type === 'popup:error') {
           clearTimeout(timeout);
           port.close();
@@ -1511,6 +1777,7 @@ export class KMSClient {
         // The messaging RPC is done (incl. any BUG-007 mnemonic ceremony) — drop
         // the port handle so a later worker:show-mnemonic can't target a stale popup.
         this.messagingPopupPort = null;
+        this.messagingPopupNonce = null;
         const errMsg =
           resp.error === undefined
             ? undefined
@@ -1571,7 +1838,8 @@ export class KMSClient {
       }
       return;
     }
-    const mode = request.method === 'mintInvite' ? 'share' : 'accept';
+    const mode =
+      request.method === 'mintInvite' ? 'share' : request.method === 'verifySafetyNumber' ? 'verify' : 'accept';
     this.pendingConnectRequestId = request.id ?? null;
 
     // Reveal the iframe so its modal is visible. The PWA's kms-user wrapper also
@@ -1588,6 +1856,7 @@ export class KMSClient {
       if (resp.id !== request.id) return;
       this.worker?.removeEventListener('message', onFinalResponse);
       this.pendingConnectRequestId = null;
+      this.pendingConnectNonce = null;
       this.hideConnectModal();
     };
     this.worker?.addEventListener('message', onFinalResponse);
@@ -1612,6 +1881,17 @@ export class KMSClient {
     if (!requestId) return;
     this.worker?.postMessage({ type, requestId, ...(blob !== undefined ? { blob } : {}) });
   }
+
+  /**
+   * Post a safety-number ceremony outcome back to the worker: the scanned QR
+   * `text`, the manual `match` verdict, or a bare cancel. Same matching as
+   * {@link emitInviteOutcome}, plus the prompt's nonce.
+   */
+  private emitSafetyOutcome(type: string, outcome: { text?: string; match?: boolean } = {}): void {
+    const requestId = this.pendingConnectRequestId;
+    if (!requestId) return;
+    this.worker?.postMessage({ type, requestId, nonce: this.pendingConnectNonce, ...outcome });
+  }
   /* c8 ignore stop */
 
   /**
@@ -2925,14 +3205,16 @@ export class KMSClient {
    * vault — so the room secret never reaches the PWA.
    */
   /* c8 ignore start - iframe connect-ceremony UI is exercised in the browser, not the unit env */
-  private showConnectCeremony(mode: 'share' | 'accept'): void {
+  private showConnectCeremony(mode: 'share' | 'accept' | 'verify'): void {
     document.getElementById('unlock-modal')?.classList.add('hidden');
     document.getElementById('connect-modal')?.classList.remove('hidden');
+    const title = document.getElementById('kms-connect-title');
+    if (title) title.textContent = mode === 'verify' ? '🛡️ Verify' : '🔗 Connect';
     if (mode === 'accept') {
       this.renderConnectAccept();
     } else {
       const subtitle = document.getElementById('kms-connect-subtitle');
-      if (subtitle) subtitle.textContent = 'Generating your invite…';
+      if (subtitle) subtitle.textContent = mode === 'verify' ? 'Computing safety number…' : 'Generating your invite…';
       this.showConnectView('finishing');
     }
   }
@@ -3087,32 +3369,101 @@ export class KMSClient {
       };
     }
   }
+
+  /**
+   * Render the verify view: our safety number (emoji, digits, words) and our QR
+   * for the peer to scan, plus a scanner for theirs. A scanned safety QR goes to
+   * the worker, which checks it names exactly this pair; otherwise the user
+   * answers "match"/"doesn't match" after comparing by eye.
+   */
+  private renderConnectVerify(safety: {
+    peerUserId: string;
+    digits: string;
+    emoji: string[];
+    words: string[];
+    qr: string;
+  }): void {
+    const digits = document.getElementById('kms-connect-safety-digits');
+    if (!digits) {
+      this.emitSafetyOutcome('worker:safety-cancelled');
+      return;
+    }
+    digits.textContent = safety.digits;
+    const peer = document.getElementById('kms-connect-verify-peer');
+    if (peer) peer.textContent = safety.peerUserId;
+    const emoji = document.getElementById('kms-connect-safety-emoji');
+    if (emoji) emoji.textContent = safety.emoji.join(' ');
+    const words = document.getElementById('kms-connect-safety-words');
+    if (words) words.textContent = safety.words.join(' ');
+    // Our QR carries only public digests; the SVG is derived purely from the
+    // module grid (see renderConnectShare).
+    const qrBox = document.getElementById('kms-connect-safety-qr');
+    if (qrBox) {
+      try {
+        qrBox.innerHTML = qrSvg(safety.qr);
+        qrBox.classList.remove('kms-qr-enlarged');
+        qrBox.onclick = (): void => {
+          qrBox.classList.toggle('kms-qr-enlarged');
+        };
+      } catch {
+        qrBox.innerHTML = ''; // the manual comparison remains
+      }
+    }
+    const status = document.getElementById('kms-connect-verify-scan-status');
+    if (status) status.textContent = '';
+    const subtitle = document.getElementById('kms-connect-subtitle');
+    if (subtitle) subtitle.textContent = 'Compare your safety number';
+    this.showConnectView('verify');
+
+    const scanBtn = document.getElementById('kms-connect-verify-scan-btn');
+    if (scanBtn) {
+      scanBtn.onclick = (): void => {
+        if (this.connectScanning) {
+          this.stopConnectScan();
+        } else {
+          void this.startConnectScan('safety');
+        }
+      };
+    }
+    const settle = (type: string, outcome?: { match: boolean }): void => {
+      this.showConnectView('finishing');
+      this.emitSafetyOutcome(type, outcome);
+    };
+    const cancelBtn = document.getElementById('kms-connect-verify-cancel');
+    if (cancelBtn) cancelBtn.onclick = (): void => this.emitSafetyOutcome('worker:safety-cancelled');
+    const mismatchBtn = document.getElementById('kms-connect-verify-mismatch');
+    if (mismatchBtn) mismatchBtn.onclick = (): void => settle('worker:safety-compared', { match: false });
+    const matchBtn = document.getElementById('kms-connect-verify-match');
+    if (matchBtn) matchBtn.onclick = (): void => settle('worker:safety-compared', { match: true });
+  }
   /* c8 ignore stop */
 
   /** Show exactly one connect-modal sub-view; hide the rest. */
-  private showConnectView(view: 'share' | 'accept' | 'confirm' | 'finishing'): void {
+  private showConnectView(view: 'share' | 'accept' | 'confirm' | 'verify' | 'finishing'): void {
     // Any view change stops a running scan (leaving accept, or re-entering it).
     this.stopConnectScan();
     document.getElementById('connect-modal')?.classList.remove('hidden');
-    for (const v of ['share', 'accept', 'confirm', 'finishing']) {
+    for (const v of ['share', 'accept', 'confirm', 'verify', 'finishing']) {
       document.getElementById(`kms-connect-${v}`)?.classList.toggle('hidden', v !== view);
     }
   }
 
   /**
-   * Start the accept-view QR scanner: open the camera in the iframe and decode
-   * frames until an invite QR is found, then hand its text to the same paste path
-   * (confirmConnectPaste). Best-effort — if the camera is denied/unavailable
-   * (notably iOS Safari in a cross-origin iframe), we surface a hint and the user
-   * pastes the link instead. Runs entirely in the iframe; camera pixels are decoded
-   * locally and never leave the enclave origin.
+   * Start a QR scanner: open the camera in the iframe and decode frames until the
+   * wanted QR is found. For `invite` (accept view) its text goes to the same paste
+   * path (confirmConnectPaste); for `safety` (verify view) it is posted to the
+   * worker as the scanned safety code. Best-effort — if the camera is
+   * denied/unavailable (notably iOS Safari in a cross-origin iframe), we surface a
+   * hint and the user pastes the link / compares by eye instead. Runs entirely in
+   * the iframe; camera pixels are decoded locally and never leave the enclave origin.
    */
   /* c8 ignore start - camera UI is exercised in the browser, not the unit env */
-  private async startConnectScan(): Promise<void> {
-    const scanBox = document.getElementById('kms-connect-scan');
-    const video = document.getElementById('kms-connect-video') as HTMLVideoElement | null;
-    const status = document.getElementById('kms-connect-scan-status');
-    const btn = document.getElementById('kms-connect-scan-btn');
+  private async startConnectScan(target: 'invite' | 'safety' = 'invite'): Promise<void> {
+    const prefix = target === 'safety' ? 'kms-connect-verify' : 'kms-connect';
+    const scanBox = document.getElementById(`${prefix}-scan`);
+    const video = document.getElementById(`${prefix}-video`) as HTMLVideoElement | null;
+    const status = document.getElementById(`${prefix}-scan-status`);
+    const btn = document.getElementById(`${prefix}-scan-btn`);
     if (!scanBox || !video) return;
     if (status) status.textContent = 'Requesting camera…';
     try {
@@ -3126,16 +3477,24 @@ export class KMSClient {
       await video.play();
       scanBox.classList.remove('hidden');
       if (btn) btn.textContent = 'Stop scanning';
-      if (status) status.textContent = 'Point the camera at the invite QR…';
-      this.connectScanLoop(video);
+      if (status) {
+        status.textContent =
+          target === 'safety' ? 'Point the camera at their safety code…' : 'Point the camera at the invite QR…';
+      }
+      this.connectScanLoop(video, target);
     } catch {
       this.stopConnectScan();
-      if (status) status.textContent = 'Camera unavailable — paste the invite link below instead.';
+      if (status) {
+        status.textContent =
+          target === 'safety'
+            ? 'Camera unavailable — compare the numbers by eye instead.'
+            : 'Camera unavailable — paste the invite link below instead.';
+      }
     }
   }
 
-  /** Grab video frames onto a canvas and decode each until an invite QR appears. */
-  private connectScanLoop(video: HTMLVideoElement): void {
+  /** Grab video frames onto a canvas and decode each until the wanted QR appears. */
+  private connectScanLoop(video: HTMLVideoElement, target: 'invite' | 'safety'): void {
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d', { willReadFrequently: true });
     const tick = (): void => {
@@ -3147,13 +3506,19 @@ export class KMSClient {
         try {
           const img = ctx.getImageData(0, 0, canvas.width, canvas.height);
           const text = decodeQr(img.data, img.width, img.height);
-          // Only accept a Connect invite QR (has the secret fragment); ignore any
-          // other QR the camera happens to see. confirmConnectPaste re-validates.
-          if (text && text.includes('#c=')) {
+          // Only accept the QR kind this view wants (an invite has the secret
+          // fragment); ignore any other QR the camera happens to see. The paste
+          // path / the worker re-validates.
+          if (text && target === 'invite' && text.includes('#c=')) {
             this.stopConnectScan();
             void this.confirmConnectPaste(text);
             return;
           }
+          if (text && target === 'safety' && isSafetyQr(text)) {
+            this.showConnectView('finishing');
+            this.emitSafetyOutcome('worker:safety-scanned', { text });
+            return;
+          }
         } catch {
           /* transient frame read error — keep scanning */
         }
@@ -3170,11 +3535,15 @@ export class KMSClient {
       for (const track of this.connectScanStream.getTracks()) track.stop();
       this.connectScanStream = null;
     }
-    const video = document.getElementById('kms-connect-video') as HTMLVideoElement | null;
-    if (video) video.srcObject = null;
-    document.getElementById('kms-connect-scan')?.classList.add('hidden');
+    for (const prefix of ['kms-connect', 'kms-connect-verify']) {
+      const video = document.getElementById(`${prefix}-video`) as HTMLVideoElement | null;
+      if (video) video.srcObject = null;
+      document.getElementById(`${prefix}-scan`)?.classList.add('hidden');
+    }
     const btn = document.getElementById('kms-connect-scan-btn');
     if (btn) btn.textContent = '📷 Scan QR code';
+    const verifyBtn = document.getElementById('kms-connect-verify-scan-btn');
+    if (verifyBtn) verifyBtn.textContent = '📷 Scan their code';
   }
   /* c8 ignore stop */
 
@@ -3186,6 +3555,83 @@ export class KMSClient {
     return out.join(' ');
   }
 
+  /**
+   * Popup side of the KMS reset confirmation. Shows which account is about to be
+   * wiped and posts `popup:reset-confirmed` / `popup:reset-cancelled` back over
+   * the credential port. Cancels when the modal can't be rendered.
+   */
+  showResetConfirmation(userId: string): void {
+    const port = this.credentialPort;
+    const modal = document.getElementById('reset-modal');
+    if (!port || !modal) {
+      port?.postMessage({ type: 'popup:reset-cancelled' });
+      return;
+    }
+
+    document.getElementById('unlock-modal')?.classList.add('hidden');
+    document.getElementById('kms-reset-finishing')?.classList.add('hidden');
+    document.getElementById('kms-reset-prompt')?.classList.remove('hidden');
+    const userEl = document.getElementById('kms-reset-user');
+    if (userEl) userEl.textContent = userId;
+    modal.classList.remove('hidden');
+
+    const cancelBtn = document.getElementById('kms-reset-cancel');
+    if (cancelBtn) {
+      cancelBtn.onclick = (): void => {
+        modal.classList.add('hidden');
+        port.postMessage({ type: 'popup:reset-cancelled' });
+      };
+    }
+    const confirmBtn = document.getElementById('kms-reset-confirm');
+    if (confirmBtn) {
+      confirmBtn.onclick = (): void => {
+        document.getElementById('kms-reset-prompt')?.classList.add('hidden');
+        document.getElementById('kms-reset-finishing')?.classList.remove('hidden');
+        port.postMessage({ type: 'popup:reset-confirmed' });
+      };
+    }
+  }
+
+  /**
+   * Popup side of the backup export/import confirmation. Shows the account and
+   * what is about to happen, and posts `popup:backup-confirmed` /
+   * `popup:backup-cancelled` back over the credential port.
+   */
+  showBackupConfirmation(userId: string, direction: 'export' | 'import'): void {
+    const port = this.credentialPort;
+    const modal = document.getElementById('backup-modal');
+    if (!port || !modal) {
+      port?.postMessage({ type: 'popup:backup-cancelled' });
+      return;
+    }
+
+    document.getElementById('unlock-modal')?.classList.add('hidden');
+    document.getElementById('kms-backup-finishing')?.classList.add('hidden');
+    document.getElementById('kms-backup-prompt')?.classList.remove('hidden');
+    document.getElementById('kms-backup-export-note')?.classList.toggle('hidden', direction !== 'export');
+    document.getElementById('kms-backup-import-note')?.classList.toggle('hidden', direction !== 'import');
+    const userEl = document.getElementById('kms-backup-user');
+    if (userEl) userEl.textContent = userId;
+    modal.classList.remove('hidden');
+
+    const cancelBtn = document.getElementById('kms-backup-cancel');
+    if (cancelBtn) {
+      cancelBtn.onclick = (): void => {
+        modal.classList.add('hidden');
+        port.postMessage({ type: 'popup:backup-cancelled' });
+      };
+    }
+    const confirmBtn = document.getElementById('kms-backup-confirm');
+    if (confirmBtn) {
+      confirmBtn.textContent = direction === 'export' ? 'Export backup' : 'Replace with backup';
+      confirmBtn.onclick = (): void => {
+        document.getElementById('kms-backup-prompt')?.classList.add('hidden');
+        document.getElementById('kms-backup-finishing')?.classList.remove('hidden');
+        port.postMessage({ type: 'popup:backup-confirmed' });
+      };
+    }
+  }
+
   showMnemonicCeremony(mnemonic: string): void {
     const port = this.credentialPort;
     const modal = document.getElementById('mnemonic-modal');
@@ -3612,6 +4058,14 @@ export class KMSClient {
       this.worker.terminate();
       this.worker = null;
     }
+    if (this.parentPort) {
+      this.parentPort.close();
+      this.parentPort = null;
+    }
+    if (this.boundParentHandler) {
+      window.removeEventListener('message', this.boundParentHandler);
+      this.boundParentHandler = null;
+    }
 
     this.isInitialized = false;
   }
@@ -3728,6 +4182,7 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
                 credentialId?: string;
                 hkdfSalt?: string;
                 userId?: string;
+                direction?: 'export' | 'import';
                 success?: boolean;
                 error?: string;
                 mnemonic?: string;
@@ -3748,6 +4203,18 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
                 return;
               }
 
+              // KMS reset: ask the user to confirm the wipe in this enclave popup.
+              if (portData?.type === 'popup:confirm-reset') {
+                client.showResetConfirmation(portData.userId ?? '');
+                return;
+              }
+
+              // Backup export/import: ask the user to confirm in this enclave popup.
+              if (portData?.type === 'popup:confirm-backup') {
+                client.showBackupConfirmation(portData.userId ?? '', portData.direction ?? 'import');
+                return;
+              }
+
               // Restore: worker wants the recovery phrase — run the in-popup 12-word
               // entry ceremony. The entered phrase stays in this enclave popup; only
               // the result (entered/cancelled) goes back over the port.
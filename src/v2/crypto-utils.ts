@@ -5,8 +5,8 @@
  * KMS worker. The functions cover encoding/decoding operations,
  * signature format conversions, construction of authenticated data
  * (AAD) for AES‑GCM operations, computation of key check values
- * (KCVs), derivation of deterministic salts, PBKDF2 calibration
- * routines and platform fingerprinting. All functions are pure and
+ * (KCVs), derivation of deterministic salts, PBKDF2 and Argon2id
+ * calibration routines and platform fingerprinting. All functions are pure and
  * return new data structures without side effects. Any use of the
  * WebCrypto API is encapsulated here to isolate cryptographic
  * operations from higher‑level business logic.
@@ -14,6 +14,7 @@
 
 // Browser-compatible imports (TextEncoder and performance are globals)
 import type { MSAADConfig, KeyWrapAADConfig } from './types';
+import { argon2id, type Argon2idParams } from './argon2';
 
 // -- Encoding helpers ----------------------------------------------------
 
@@ -391,6 +392,54 @@ export async function calibratePBKDF2Iterations(
   return { iterations, measuredMs };
 }
 
+// -- Argon2id calibration -------------------------------------------------
+
+/**
+ * Bounds on calibrated Argon2id parameters. The floor is the OWASP minimum
+ * (19 MiB, 2 passes, 1 lane) and applies even where it overshoots the
+ * target time, which it does with the bundled TypeScript Argon2id: the floor
+ * alone takes around half a second on a laptop core and longer on phones.
+ * The memory ceiling keeps the enclave within what a mobile browser tab can
+ * allocate, with extra passes beyond it.
+ */
+export const ARGON2ID_BOUNDS = {
+  minMemoryKiB: 19 * 1024,
+  maxMemoryKiB: 256 * 1024,
+  minIterations: 2,
+  maxIterations: 10,
+} as const;
+
+/**
+ * Calibrate Argon2id parameters to a target derivation time on the current
+ * platform. A 4 MiB single-pass probe gives the cost per KiB and pass; the
+ * memory is then sized for the target midpoint at the minimum pass count,
+ * and passes are added only once memory reaches its ceiling.
+ *
+ * Parallelism is always 1: lanes run one after another in the worker, so
+ * extra lanes would not speed up the derivation here, only for an attacker
+ * who can fill them in parallel.
+ */
+export async function calibrateArgon2idParams(
+  targetMs: { min: number; max: number; mid: number } = { min: 150, max: 300, mid: 220 }
+): Promise<{ params: Argon2idParams; measuredMs: number }> {
+  const probe: Argon2idParams = { memoryKiB: 4096, iterations: 1, parallelism: 1 };
+  const start = performance.now();
+  await argon2id(new TextEncoder().encode('calibration'), crypto.getRandomValues(new Uint8Array(16)), probe);
+  const measuredMs = performance.now() - start;
+  const msPerKiBPass = measuredMs / probe.memoryKiB;
+
+  let iterations: number = ARGON2ID_BOUNDS.minIterations;
+  // Whole MiB, so the memory splits evenly into lanes and slices
+  let memoryKiB = Math.floor(targetMs.mid / (iterations * msPerKiBPass) / 1024) * 1024;
+  if (memoryKiB > ARGON2ID_BOUNDS.maxMemoryKiB) {
+    memoryKiB = ARGON2ID_BOUNDS.maxMemoryKiB;
+    iterations = Math.round(targetMs.mid / (memoryKiB * msPerKiBPass));
+    iterations = Math.min(Math.max(iterations, ARGON2ID_BOUNDS.minIterations), ARGON2ID_BOUNDS.maxIterations);
+  }
+  memoryKiB = Math.max(memoryKiB, ARGON2ID_BOUNDS.minMemoryKiB);
+  return { params: { memoryKiB, iterations, parallelism: 1 }, measuredMs };
+}
+
 // -- Platform fingerprint -------------------------------------------------
 
 /**
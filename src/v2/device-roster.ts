@@ -0,0 +1,243 @@
+/**
+ * Device rosters (rooms-and-trust §2.4).
+ *
+ * A device certificate ({@link ./master-identity.ts | signDeviceCert}) says "this
+ * device is mine" and can never be taken back. The roster is how an account takes
+ * it back: a list of the account's current devices plus the device keys it has
+ * revoked, signed with the master signing key and carrying a version that only
+ * ever goes up. Whoever holds the account's master signing public key — its own
+ * devices, its contacts — accepts a roster only if it verifies and is newer than
+ * the one already held, so a stale roster cannot un-revoke a lost device.
+ *
+ * Devices are named by their Signal identity key (the key a session is bound
+ * to), normalised to the raw 32 bytes so the 0x05-prefixed form matches too.
+ * Revocation is permanent: a revoked key never re-enters `devices`.
+ *
+ * Wire form: UTF-8 JSON `{body, sig}` — the canonical body bytes and an Ed25519
+ * signature over them, both base64url. Public keys only; rosters travel in the
+ * clear to contacts and sealed on the self-channel to the account's devices.
+ */
+
+import { arrayBufferToBase64url, base64urlToArrayBuffer } from './crypto-utils';
+import { ValidationError } from './errors';
+import type { DeviceIdentityKeys } from './master-identity';
+
+/** Current roster body version; bump on any wire-format change. */
+const ROSTER_VERSION = 1;
+
+/** Tag distinguishing a roster body from any other signed payload. */
+const ROSTER_KIND = 'device-roster';
+
+/** Most devices a roster lists as current. */
+export const MAX_ROSTER_DEVICES = 32;
+
+/** Most revoked device keys a roster carries. */
+export const MAX_REVOKED_DEVICES = 256;
+
+const RAW_KEY_BYTES = 32;
+const SIGNATURE_BYTES = 64;
+const MAX_ID_CHARS = 128;
+
+/** A device on a roster: its identity keys, base64url (identity key normalised). */
+export interface RosterDevice {
+  ik: string;
+  isk: string;
+}
+
+/** A verified device roster. */
+export interface DeviceRoster {
+  /** The account the roster belongs to. */
+  uid: string;
+  /** Monotonic version; a roster replaces only a lower one. */
+  version: number;
+  issuedAt: number;
+  devices: RosterDevice[];
+  /** Revoked identity keys, normalised base64url. */
+  revoked: string[];
+}
+
+/** Wire form of a roster body (what the master key signs). */
+interface RosterBody {
+  v: number;
+  k: string;
+  uid: string;
+  version: number;
+  issuedAt: number;
+  devices: RosterDevice[];
+  revoked: string[];
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Copy a Uint8Array into a fresh, exactly-sized ArrayBuffer. */
+function u8ToArrayBuffer(u: Uint8Array): ArrayBuffer {
+  const b = new ArrayBuffer(u.byteLength);
+  new Uint8Array(b).set(u);
+  return b;
+}
+
+/**
+ * A device's roster id: its identity key as raw 32 bytes, base64url. Accepts the
+ * 33-byte 0x05-prefixed Signal form too, so both spellings name the same device.
+ */
+export function rosterDeviceId(identityKey: Uint8Array): string {
+  const prefixed = identityKey.length === RAW_KEY_BYTES + 1 && identityKey[0] === 0x05;
+  const raw = prefixed ? identityKey.subarray(1) : identityKey;
+  return arrayBufferToBase64url(u8ToArrayBuffer(raw));
+}
+
+/** Whether `roster` revokes the device with this identity key. */
+export function isDeviceRevoked(roster: Pick<DeviceRoster, 'revoked'>, identityKey: Uint8Array): boolean {
+  return roster.revoked.includes(rosterDeviceId(identityKey));
+}
+
+/**
+ * The next roster after `prev` (or the first, when `prev` is null): one version
+ * up, with `add` joining the current devices and `revoke` moving device keys to
+ * the revoked list. Re-adding a revoked key is refused.
+ *
+ * @throws ValidationError on a revoked `add`, or when either list outgrows its cap.
+ */
+export function nextDeviceRoster(
+  prev: DeviceRoster | null,
+  uid: string,
+  change: { add?: DeviceIdentityKeys[]; revoke?: Uint8Array[] },
+  now: number = Date.now()
+): DeviceRoster {
+  const revoked = new Set(prev?.revoked ?? []);
+  for (const key of change.revoke ?? []) {
+    revoked.add(rosterDeviceId(key));
+  }
+  const devices = new Map((prev?.devices ?? []).map((d) => [d.ik, d]));
+  for (const keys of change.add ?? []) {
+    const ik = rosterDeviceId(keys.identityKey);
+    if (revoked.has(ik)) {
+      throw new ValidationError('A revoked device cannot rejoin the roster');
+    }
+    devices.set(ik, { ik, isk: arrayBufferToBase64url(u8ToArrayBuffer(keys.identitySigningKey)) });
+  }
+  for (const ik of revoked) {
+    devices.delete(ik);
+  }
+  if (devices.size > MAX_ROSTER_DEVICES) {
+    throw new ValidationError(`A roster lists at most ${MAX_ROSTER_DEVICES} devices`);
+  }
+  if (revoked.size > MAX_REVOKED_DEVICES) {
+    throw new ValidationError(`A roster revokes at most ${MAX_REVOKED_DEVICES} devices`);
+  }
+  return {
+    uid,
+    version: (prev?.version ?? 0) + 1,
+    issuedAt: now,
+    devices: [...devices.values()],
+    revoked: [...revoked],
+  };
+}
+
+/** Sign a roster with the account's master signing key; returns the wire bytes. */
+export async function signDeviceRoster(roster: DeviceRoster, signingKey: CryptoKey): Promise<Uint8Array> {
+  const body = toBody(roster);
+  assertValidBody(body);
+  const bodyBytes = encoder.encode(JSON.stringify(body));
+  const sig = await crypto.subtle.sign({ name: 'Ed25519' }, signingKey, bodyBytes);
+  return encoder.encode(
+    JSON.stringify({ body: arrayBufferToBase64url(u8ToArrayBuffer(bodyBytes)), sig: arrayBufferToBase64url(sig) })
+  );
+}
+
+/**
+ * Verify a roster against the owning account's raw master signing public key and
+ * return it. Fails closed: anything malformed, or not signed by that key, throws.
+ *
+ * @throws ValidationError('Invalid device roster')
+ */
+export async function openDeviceRoster(signed: Uint8Array, masterSigningPub: Uint8Array): Promise<DeviceRoster> {
+  let body: Uint8Array;
+  let sig: Uint8Array;
+  let parsed: unknown;
+  try {
+    const envelope = JSON.parse(decoder.decode(signed)) as { body?: unknown; sig?: unknown };
+    if (typeof envelope.body !== 'string' || typeof envelope.sig !== 'string') {
+      throw new Error('envelope');
+    }
+    body = new Uint8Array(base64urlToArrayBuffer(envelope.body));
+    sig = new Uint8Array(base64urlToArrayBuffer(envelope.sig));
+    parsed = JSON.parse(decoder.decode(body));
+  } catch {
+    throw new ValidationError('Invalid device roster');
+  }
+  let ok = false;
+  try {
+    const pub = await crypto.subtle.importKey(
+      'raw',
+      u8ToArrayBuffer(masterSigningPub),
+      { name: 'Ed25519' },
+      false,
+      ['verify']
+    );
+    ok =
+      sig.length === SIGNATURE_BYTES &&
+      (await crypto.subtle.verify({ name: 'Ed25519' }, pub, u8ToArrayBuffer(sig), u8ToArrayBuffer(body)));
+  } catch {
+    ok = false;
+  }
+  if (!ok) {
+    throw new ValidationError('Invalid device roster');
+  }
+  assertValidBody(parsed);
+  return {
+    uid: parsed.uid,
+    version: parsed.version,
+    issuedAt: parsed.issuedAt,
+    devices: parsed.devices.map((d) => ({ ik: d.ik, isk: d.isk })),
+    revoked: [...parsed.revoked],
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Internals
+// ----------------------------------------------------------------------------
+
+function toBody(roster: DeviceRoster): RosterBody {
+  return {
+    v: ROSTER_VERSION,
+    k: ROSTER_KIND,
+    uid: roster.uid,
+    version: roster.version,
+    issuedAt: roster.issuedAt,
+    devices: roster.devices,
+    revoked: roster.revoked,
+  };
+}
+
+function isKeyId(x: unknown): x is string {
+  return typeof x === 'string' && x.length > 0 && x.length <= 64;
+}
+
+function assertValidBody(x: unknown): asserts x is RosterBody {
+  const b = x as Partial<RosterBody> | null;
+  const valid =
+    typeof b === 'object' &&
+    b !== null &&
+    b.v === ROSTER_VERSION &&
+    b.k === ROSTER_KIND &&
+    typeof b.uid === 'string' &&
+    b.uid.length > 0 &&
+    b.uid.length <= MAX_ID_CHARS &&
+    Number.isSafeInteger(b.version) &&
+    (b.version ?? 0) >= 1 &&
+    Number.isSafeInteger(b.issuedAt) &&
+    Array.isArray(b.devices) &&
+    b.devices.length <= MAX_ROSTER_DEVICES &&
+    b.devices.every((d: unknown) => {
+      const dev = d as Partial<RosterDevice> | null;
+      return typeof dev === 'object' && dev !== null && isKeyId(dev.ik) && isKeyId(dev.isk);
+    }) &&
+    Array.isArray(b.revoked) &&
+    b.revoked.length <= MAX_REVOKED_DEVICES &&
+    b.revoked.every(isKeyId);
+  if (!valid) {
+    throw new ValidationError('Invalid device roster');
+  }
+}
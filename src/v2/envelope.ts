@@ -5,8 +5,7 @@
  * ciphertext per recipient device (including the sender's own other devices, so
  * history converges). The §12-resolved wire format bundles them into ONE opaque
  * payload the relay forwards verbatim, so no per-device structure leaks on the
- * wire, and recipients find their envelope by **trial decryption** rather than a
- * cleartext device tag.
+ * wire.
  *
  * Trial decryption is safe here because of the fork's clone-verify-commit MAC
  * isolation: a decrypt attempt against the wrong session advances the ratchet on
@@ -15,17 +14,48 @@
  * one-time prekey and stores no session — so a non-matching envelope leaves the
  * recipient's state untouched.
  *
- * The envelope reserves an optional `tag` field (§12) for a future rotating
- * per-envelope transport tag (groups); it is unused today and always absent from
- * bundles this module produces. Envelope order within a bundle is shuffled so
- * position leaks nothing about which device an envelope targets.
+ * Each envelope carries a rotating **transport tag** (§12) so a recipient can
+ * find its envelope by lookup instead of trial-decrypting every envelope against
+ * every plausible sender. The tag is an HMAC over the current tag epoch, under a
+ * key derived from a Double Ratchet chain key of the pair's Signal session: the
+ * key for the sender's next message on its sending chain, or — on the first
+ * message after the sender has read a reply — the next key on the chain that
+ * reply came in on, which the recipient also holds as its own sending chain.
+ * Chain keys are secret to the session's two ends and move forward with every
+ * message, so consecutive envelopes carry unrelated tags, the relay cannot link
+ * one pair's traffic, and a compromised device cannot recompute the tags of
+ * traffic whose chain keys it has already discarded. The epoch
+ * ({@link TRANSPORT_TAG_EPOCH_MS}) bounds how long a recipient accepts a tag.
+ *
+ * Trial decryption remains the fallback for an envelope whose tag the recipient
+ * does not recognise: a first message from a device it has no session with, a
+ * message on a ratchet step it has not seen yet (the sender had not read its
+ * latest reply), one that overtook more than {@link TAG_CHAIN_LOOKAHEAD} earlier
+ * messages, a badly skewed clock, an untagged bundle. Envelope order within a
+ * bundle is shuffled so position leaks nothing about which device an envelope
+ * targets.
+ *
+ * In **sealed-sender** mode (§12.2) the relay does not learn who sent a bundle
+ * either. Each Signal envelope is wrapped, together with a sender certificate
+ * (the sender's address, device identity keys, master signing key and device
+ * cert), in an AES-GCM box keyed from an ephemeral X25519 exchange with the
+ * recipient's identity key. Sealed envelopes carry no transport tag; the
+ * recipient finds its own by trying to unseal each one, which touches no
+ * session state, and only then learns — and verifies — the sender.
  *
  * Serialization is a compact length-prefixed binary framing (opaque to relays):
  *   bundle   = version(1) || count(u16 BE) || envelope*
  *   envelope = type(1) || tagLen(1) || tag(tagLen) || bodyLen(u32 BE) || body
+ *   sealed body (type 6) = ephemeralPub(32) || iv(12) || GCM(senderCert || innerType(1) || innerBody)
+ *   senderCert = nameLen(u16 BE) || name || deviceId(u32 BE) || identityKey(33)
+ *                || identitySigningKey(32) || masterSigningPub(32) || deviceCert(64)
  */
 
-import { SessionCipher } from '@lukium/libsignal-protocol-typescript';
+import { ChainType, SessionCipher } from '@lukium/libsignal-protocol-typescript';
+import { crypto as signalCrypto } from '@lukium/libsignal-protocol-typescript/internal/crypto';
+import { SessionRecord } from '@lukium/libsignal-protocol-typescript/session-record';
+import { deriveDeterministicSalt } from './crypto-utils';
+import { ValidationError } from './errors';
 
 // ============================================================================
 // Constants & types
@@ -35,27 +65,111 @@ import { SessionCipher } from '@lukium/libsignal-protocol-typescript';
 export const ENVELOPE_TYPE_WHISPER = 1;
 /** PreKey (X3DH bootstrap) message — the first message to a device. */
 export const ENVELOPE_TYPE_PREKEY = 3;
+/** Sealed-sender box around a Whisper or PreKey envelope (§12.2). */
+export const ENVELOPE_TYPE_SEALED = 6;
 
 /** Bundle framing version. */
 const BUNDLE_VERSION = 1;
 
 /** Guards against absurd allocations when parsing untrusted bundles. */
 const MAX_ENVELOPES = 4096;
-const MAX_BODY_BYTES = 1 << 20; // 1 MiB per envelope
+const MAX_BODY_BYTES = 1 << 20; // 1 MiB per envelope; larger payloads go as attachments (attachment.ts)
+
+/** Length of a transport tag on the wire (truncated HMAC-SHA-256). */
+export const TRANSPORT_TAG_BYTES = 16;
+
+/** Length of one transport-tag epoch; a tag names the epoch it was made in. */
+export const TRANSPORT_TAG_EPOCH_MS = 60 * 60 * 1000;
+
+/**
+ * Epochs a recipient still recognises either side of its own: behind, for
+ * delivery delay (a day of queued messages); ahead, for sender clock skew.
+ */
+const TAG_EPOCHS_BEHIND = 24;
+const TAG_EPOCHS_AHEAD = 1;
+
+/**
+ * Chain keys a recipient tries past the next one it expects on the sender's
+ * chain, for envelopes that overtook earlier ones (or were never delivered).
+ */
+export const TAG_CHAIN_LOOKAHEAD = 4;
 
 /**
- * One recipient device's copy of a message: a Signal ciphertext plus its type.
- * `tag` is a reserved rotating per-envelope transport tag (§12), unused today.
+ * HKDF labels for a tag key: from the sender's sending chain, or from the
+ * chain of the reply the sender last read (the recipient's sending chain).
+ */
+const TAG_LABEL_SEND = 'ATS/KMS/transport-tag/v2/send';
+const TAG_LABEL_REPLY = 'ATS/KMS/transport-tag/v2/reply';
+
+/** DJB type byte prefixing a serialized curve25519 public key (fork convention). */
+const DJB_TYPE = 0x05;
+const X25519_KEY_BYTES = 32;
+
+/** HKDF label for a sealed-sender box key. */
+const SEALED_LABEL = 'ATS/KMS/sealed-sender/v1';
+const SEALED_IV_BYTES = 12;
+const ED25519_KEY_BYTES = 32;
+const DEVICE_CERT_BYTES = 64;
+const MAX_SENDER_NAME_BYTES = 1024;
+/** Fixed-size tail of a sender certificate: identityKey + identitySigningKey + masterSigningPub + deviceCert. */
+const SENDER_KEYS_BYTES = X25519_KEY_BYTES + 1 + 2 * ED25519_KEY_BYTES + DEVICE_CERT_BYTES;
+
+/** Fixed PKCS#8 DER prefix for a bare 32-byte X25519 private key (OID 1.3.101.110). */
+const X25519_PKCS8_PREFIX = new Uint8Array([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x6e, 0x04, 0x22, 0x04, 0x20,
+]);
+
+/**
+ * One recipient device's copy of a message: a Signal ciphertext plus its type
+ * and (when the sender knows the recipient's identity) its transport tag.
  */
 export interface Envelope {
   /** {@link ENVELOPE_TYPE_WHISPER} (1) or {@link ENVELOPE_TYPE_PREKEY} (3). */
   type: number;
   /** Signal ciphertext bytes (the fork's binary-string body, decoded to bytes). */
   body: Uint8Array;
-  /** Reserved optional rotating tag for future group transport; absent today. */
+  /** Rotating transport tag ({@link TRANSPORT_TAG_BYTES}); absent on untagged envelopes. */
   tag?: Uint8Array;
 }
 
+/** One planned decrypt: an envelope and the index of the sender to try it with. */
+export interface DecryptAttempt {
+  envelope: Envelope;
+  sender: number;
+  /** Whether the envelope's transport tag named this sender. */
+  tagged: boolean;
+}
+
+/**
+ * Who sent a sealed-sender envelope, as the sender claims it. The recipient
+ * checks `deviceCert` against `masterSigningPub` and `identityKey` against the
+ * Signal session before believing it.
+ */
+export interface SenderCertificate {
+  /** The sender's Signal address name (its user id). */
+  peerName: string;
+  peerDeviceId: number;
+  /** The sender device's identity public key (33-byte 0x05-prefixed). */
+  identityKey: Uint8Array;
+  /** The sender device's Ed25519 identity signing public key. */
+  identitySigningKey: Uint8Array;
+  /** The sender account's raw Ed25519 master signing public key. */
+  masterSigningPub: Uint8Array;
+  /** Master signature over the device's identity keys (rooms-and-trust §2.2). */
+  deviceCert: Uint8Array;
+}
+
+/**
+ * The chain keys of the open session in a fork `SessionRecord` that the
+ * transport tags are derived from. `sendingUnused` marks a sending chain that
+ * has not carried a message yet.
+ */
+interface SessionChainKeys {
+  sending?: ArrayBuffer | undefined;
+  sendingUnused: boolean;
+  receiving?: ArrayBuffer | undefined;
+}
+
 // ============================================================================
 // binary-string <-> bytes (the fork emits/consumes latin1 binary strings)
 // ============================================================================
@@ -91,15 +205,18 @@ function toArrayBuffer(data: ArrayBuffer | Uint8Array): ArrayBuffer {
 
 /**
  * Encrypt `plaintext` for one recipient device via its established
- * {@link SessionCipher}, yielding a single {@link Envelope}. The first message
- * to a device is a PreKey (type 3) message; subsequent ones are Whisper (type 1).
+ * {@link SessionCipher}, yielding a single {@link Envelope} (carrying `tag` when
+ * given). The first message to a device is a PreKey (type 3) message; subsequent
+ * ones are Whisper (type 1).
  */
 export async function encryptEnvelope(
   cipher: SessionCipher,
-  plaintext: ArrayBuffer | Uint8Array
+  plaintext: ArrayBuffer | Uint8Array,
+  tag?: Uint8Array
 ): Promise<Envelope> {
   const msg = await cipher.encrypt(toArrayBuffer(plaintext));
-  return { type: msg.type, body: binaryStringToBytes(msg.body as string) };
+  const body = binaryStringToBytes(msg.body as string);
+  return tag ? { type: msg.type, body, tag } : { type: msg.type, body };
 }
 
 /**
@@ -108,14 +225,14 @@ export async function encryptEnvelope(
  */
 export function serializeBundle(envelopes: Envelope[]): Uint8Array {
   if (envelopes.length > MAX_ENVELOPES) {
-    throw new Error(`Too many envelopes: ${envelopes.length} (max ${MAX_ENVELOPES})`);
+    throw new ValidationError(`Too many envelopes: ${envelopes.length} (max ${MAX_ENVELOPES})`);
   }
   const shuffled = shuffle(envelopes);
   let total = 1 + 2; // version + count
   for (const env of shuffled) {
     const tagLen = env.tag?.length ?? 0;
     if (tagLen > 0xff) {
-      throw new Error(`Envelope tag too long: ${tagLen} (max 255)`);
+      throw new ValidationError(`Envelope tag too long: ${tagLen} (max 255)`);
     }
     total += 1 + 1 + tagLen + 4 + env.body.length;
   }
@@ -164,35 +281,35 @@ export async function buildFanoutBundle(
 export function parseBundle(bundle: ArrayBuffer | Uint8Array): Envelope[] {
   const bytes = bundle instanceof Uint8Array ? bundle : new Uint8Array(bundle);
   if (bytes.length < 3) {
-    throw new Error('Malformed bundle: too short');
+    throw new ValidationError('Malformed bundle: too short');
   }
   const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
   let off = 0;
   const version = bytes[off++];
   if (version !== BUNDLE_VERSION) {
-    throw new Error(`Unsupported bundle version: ${version}`);
+    throw new ValidationError(`Unsupported bundle version: ${version}`);
   }
   const count = view.getUint16(off, false);
   off += 2;
   if (count > MAX_ENVELOPES) {
-    throw new Error(`Too many envelopes: ${count} (max ${MAX_ENVELOPES})`);
+    throw new ValidationError(`Too many envelopes: ${count} (max ${MAX_ENVELOPES})`);
   }
   const envelopes: Envelope[] = [];
   for (let i = 0; i < count; i++) {
     if (off + 2 > bytes.length) {
-      throw new Error('Malformed bundle: truncated envelope header');
+      throw new ValidationError('Malformed bundle: truncated envelope header');
     }
     const type = bytes[off++]!;
     const tagLen = bytes[off++]!;
     if (off + tagLen + 4 > bytes.length) {
-      throw new Error('Malformed bundle: truncated envelope');
+      throw new ValidationError('Malformed bundle: truncated envelope');
     }
     const tag = tagLen > 0 ? bytes.slice(off, off + tagLen) : undefined;
     off += tagLen;
     const bodyLen = view.getUint32(off, false);
     off += 4;
     if (bodyLen > MAX_BODY_BYTES || off + bodyLen > bytes.length) {
-      throw new Error('Malformed bundle: invalid body length');
+      throw new ValidationError('Malformed bundle: invalid body length');
     }
     const body = bytes.slice(off, off + bodyLen);
     off += bodyLen;
@@ -227,6 +344,67 @@ export async function trialDecryptEnvelope(
   }
 }
 
+/** Protobuf field number of `identityKey` in a PreKeyWhisperMessage. */
+const PREKEY_IDENTITY_KEY_FIELD = 3;
+
+/**
+ * Read the sender's identity key out of a PreKey envelope without decrypting
+ * it: the version byte, then the PreKeyWhisperMessage protobuf. Decrypting a
+ * first message saves that key as the peer's trusted identity, so a caller that
+ * must vet the key does it here, before {@link trialDecryptEnvelope}.
+ *
+ * @returns The key as sent (33-byte 0x05-prefixed form), or `null` for a
+ *   Whisper envelope, a malformed message, or one without the field. As in the
+ *   protobuf decoder, the last occurrence of the field wins.
+ */
+export function preKeyIdentityKey(envelope: Envelope): Uint8Array | null {
+  if (envelope.type !== ENVELOPE_TYPE_PREKEY) {
+    return null;
+  }
+  const bytes = envelope.body;
+  let off = 1; // version byte
+  const readVarint = (): number | null => {
+    let value = 0;
+    for (let shift = 0; shift < 64; shift += 7) {
+      if (off >= bytes.length) return null;
+      const byte = bytes[off++]!;
+      value += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) return value;
+    }
+    return null;
+  };
+
+  let identityKey: Uint8Array | null = null;
+  while (off < bytes.length) {
+    const key = readVarint();
+    if (key === null) return null;
+    const field = Math.floor(key / 8);
+    switch (key % 8) {
+      case 0:
+        if (readVarint() === null) return null;
+        break;
+      case 1:
+        off += 8;
+        break;
+      case 2: {
+        const len = readVarint();
+        if (len === null || off + len > bytes.length) return null;
+        if (field === PREKEY_IDENTITY_KEY_FIELD) {
+          identityKey = bytes.slice(off, off + len);
+        }
+        off += len;
+        break;
+      }
+      case 5:
+        off += 4;
+        break;
+      default:
+        return null;
+    }
+  }
+  return off === bytes.length ? identityKey : null;
+}
+
 /**
  * Open a fan-out bundle: trial-decrypt each envelope against each candidate
  * sender-device session, returning the first plaintext that authenticates, or
@@ -252,6 +430,350 @@ export async function openFanoutBundle(
   return null;
 }
 
+// ============================================================================
+// Transport tags (§12)
+// ============================================================================
+
+/** The transport-tag epoch containing `now` (ms). */
+export function transportTagEpoch(now: number): number {
+  return Math.floor(now / TRANSPORT_TAG_EPOCH_MS);
+}
+
+/**
+ * The tag this device puts on its next envelope to the peer, at `now`, from
+ * `record` (the serialized Signal session with the peer, read just before
+ * encrypting). A sending chain that has not carried a message yet is one the
+ * peer cannot know, so its first message is tagged from the chain of the reply
+ * this device last read instead. Returns undefined when there is no open
+ * session.
+ */
+export async function sendTransportTag(record: string | undefined, now: number): Promise<Uint8Array | undefined> {
+  const chains = sessionChainKeys(record);
+  if (!chains) {
+    return undefined;
+  }
+  const epoch = transportTagEpoch(now);
+  if (chains.sendingUnused && chains.receiving) {
+    return computeTransportTag(await deriveTransportTagKey(chains.receiving, TAG_LABEL_REPLY), epoch);
+  }
+  if (chains.sending) {
+    return computeTransportTag(await deriveTransportTagKey(chains.sending, TAG_LABEL_SEND), epoch);
+  }
+  return undefined;
+}
+
+/**
+ * The tags an envelope from the peer to this device may carry at `now`, from
+ * `record` (the serialized Signal session with the peer): the peer's next
+ * message and the {@link TAG_CHAIN_LOOKAHEAD} after it on the chain this device
+ * last received from it, and the first message of a new ratchet step answering
+ * this device's sending chain — each in every epoch of the recognised window.
+ * Nothing is stored: the look-ahead chain keys are computed and dropped.
+ */
+export async function expectedTransportTags(record: string | undefined, now: number): Promise<Uint8Array[]> {
+  const chains = sessionChainKeys(record);
+  if (!chains) {
+    return [];
+  }
+  const keys: CryptoKey[] = [];
+  if (chains.receiving) {
+    let chainKey = chains.receiving;
+    for (let i = 0; i <= TAG_CHAIN_LOOKAHEAD; i++) {
+      keys.push(await deriveTransportTagKey(chainKey, TAG_LABEL_SEND));
+      chainKey = await nextChainKey(chainKey);
+    }
+  }
+  if (chains.sending) {
+    keys.push(await deriveTransportTagKey(chains.sending, TAG_LABEL_REPLY));
+  }
+
+  const epoch = transportTagEpoch(now);
+  const epochs: number[] = [];
+  for (let e = epoch - TAG_EPOCHS_BEHIND; e <= epoch + TAG_EPOCHS_AHEAD; e++) {
+    epochs.push(e);
+  }
+  return Promise.all(keys.flatMap((key) => epochs.map((e) => computeTransportTag(key, e))));
+}
+
+/**
+ * Order the decrypt attempts for opening a bundle. `expected[i]` holds the tags
+ * sender `i` may use towards this device, or `null` when this device has no
+ * session with it yet. Envelopes whose tag names a sender are tried with that sender alone and
+ * come first; every other envelope falls back to trial decryption, against the
+ * untagged senders first (a first message from an unseen device) and then the
+ * rest. `tagged` marks the attempts made by tag lookup.
+ */
+export function planDecryptAttempts(
+  envelopes: Envelope[],
+  expected: ReadonlyArray<Uint8Array[] | null>
+): DecryptAttempt[] {
+  const bySender = new Map<string, number>();
+  expected.forEach((tags, sender) => {
+    for (const tag of tags ?? []) bySender.set(tagKeyString(tag), sender);
+  });
+  const fallbackOrder = [
+    ...expected.flatMap((tags, sender) => (tags === null ? [sender] : [])),
+    ...expected.flatMap((tags, sender) => (tags === null ? [] : [sender])),
+  ];
+
+  const direct: DecryptAttempt[] = [];
+  const fallback: Envelope[] = [];
+  for (const envelope of envelopes) {
+    const sender = envelope.tag ? bySender.get(tagKeyString(envelope.tag)) : undefined;
+    if (sender !== undefined) {
+      direct.push({ envelope, sender, tagged: true });
+    } else {
+      fallback.push(envelope);
+    }
+  }
+  return [
+    ...direct,
+    ...fallback.flatMap((envelope) => fallbackOrder.map((sender) => ({ envelope, sender, tagged: false }))),
+  ];
+}
+
+/**
+ * The chain keys of the open session in serialized `record`, read through the
+ * fork's own `SessionRecord`. A record that does not deserialize, or whose open
+ * session lacks the expected chains, yields undefined: the envelope then goes
+ * untagged or unrecognised, and trial decryption still opens it.
+ */
+function sessionChainKeys(record: string | undefined): SessionChainKeys | undefined {
+  if (record === undefined) {
+    return undefined;
+  }
+  try {
+    const session = SessionRecord.deserialize(record).getOpenSession();
+    if (!session) {
+      return undefined;
+    }
+    const { currentRatchet, chains } = session;
+    const sending = currentRatchet.ephemeralKeyPair && chains[chainIndex(currentRatchet.ephemeralKeyPair.pubKey)];
+    const receiving = chains[chainIndex(currentRatchet.lastRemoteEphemeralKey)];
+    return {
+      sending: sending?.chainType === ChainType.SENDING ? sending.chainKey.key : undefined,
+      sendingUnused: sending?.chainType === ChainType.SENDING && sending.chainKey.counter === -1,
+      receiving: receiving?.chainType === ChainType.RECEIVING ? receiving.chainKey.key : undefined,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/** The key the fork files a ratchet public key's chain under (standard base64). */
+function chainIndex(ratchetKey: ArrayBuffer): string {
+  return btoa(bytesToBinaryString(new Uint8Array(ratchetKey)));
+}
+
+/**
+ * Derive a tag key from a chain key. `label` separates the two uses, so a chain
+ * key never yields the same tag for a message and for the reply to it.
+ */
+async function deriveTransportTagKey(chainKey: ArrayBuffer, label: string): Promise<CryptoKey> {
+  const salt = await deriveDeterministicSalt('ATS/KMS/transport-tag/salt/v2');
+  const ikm = await crypto.subtle.importKey('raw', chainKey, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(label) },
+    ikm,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign']
+  );
+}
+
+/** The chain key after `chainKey`, by the fork's own KDF_CK step (HMAC(chainKey, 0x02)). */
+function nextChainKey(chainKey: ArrayBuffer): Promise<ArrayBuffer> {
+  return signalCrypto.sign(chainKey, new Uint8Array([2]).buffer);
+}
+
+/** HMAC(key, epoch), truncated to {@link TRANSPORT_TAG_BYTES}. */
+async function computeTransportTag(key: CryptoKey, epoch: number): Promise<Uint8Array> {
+  const input = new Uint8Array(4);
+  new DataView(input.buffer).setUint32(0, epoch >>> 0, false);
+  const mac = await crypto.subtle.sign('HMAC', key, input);
+  return new Uint8Array(mac, 0, TRANSPORT_TAG_BYTES).slice();
+}
+
+/** Strip the 0x05 DJB prefix from a serialized curve25519 public key (32 bytes pass through). */
+function toRawPublic(pub: Uint8Array): Uint8Array {
+  if (pub.length === X25519_KEY_BYTES) {
+    return pub;
+  }
+  if (pub.length === X25519_KEY_BYTES + 1 && pub[0] === DJB_TYPE) {
+    return pub.slice(1);
+  }
+  throw new ValidationError(`Invalid identity public key length: ${pub.length}`);
+}
+
+/** X25519 between a raw 32-byte private scalar and a raw 32-byte public key. */
+async function x25519(rawPriv: Uint8Array, rawPub: Uint8Array): Promise<ArrayBuffer> {
+  const pkcs8 = new Uint8Array(X25519_PKCS8_PREFIX.length + X25519_KEY_BYTES);
+  pkcs8.set(X25519_PKCS8_PREFIX, 0);
+  pkcs8.set(rawPriv, X25519_PKCS8_PREFIX.length);
+  try {
+    const priv = await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'X25519' }, false, ['deriveBits']);
+    const pub = await crypto.subtle.importKey('raw', rawPub as BufferSource, { name: 'X25519' }, false, []);
+    return await crypto.subtle.deriveBits({ name: 'X25519', public: pub }, priv, 256);
+  } finally {
+    pkcs8.fill(0);
+  }
+}
+
+/** A Map key for tag bytes. */
+function tagKeyString(tag: Uint8Array): string {
+  return bytesToBinaryString(tag);
+}
+
+// ============================================================================
+// Sealed sender (§12.2)
+// ============================================================================
+
+/**
+ * Seal one envelope and the sender's certificate to the recipient device's
+ * identity key (fork form: 0x05-prefixed). The result is an untagged
+ * {@link ENVELOPE_TYPE_SEALED} envelope that says nothing about its sender.
+ */
+export async function sealEnvelope(
+  envelope: Envelope,
+  sender: SenderCertificate,
+  recipientIdentityPub: ArrayBuffer
+): Promise<Envelope> {
+  const recipient = toRawPublic(new Uint8Array(recipientIdentityPub));
+  const ephemeral = (await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits'])) as CryptoKeyPair;
+  const ephemeralPub = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+  const peer = await crypto.subtle.importKey('raw', recipient as BufferSource, { name: 'X25519' }, false, []);
+  const shared = await crypto.subtle.deriveBits({ name: 'X25519', public: peer }, ephemeral.privateKey, 256);
+  const key = await deriveSealedKey(shared, ephemeralPub, recipient);
+
+  const iv = crypto.getRandomValues(new Uint8Array(SEALED_IV_BYTES));
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    toArrayBuffer(serializeSealedContent(sender, envelope))
+  );
+  const body = new Uint8Array(X25519_KEY_BYTES + SEALED_IV_BYTES + sealed.byteLength);
+  body.set(ephemeralPub, 0);
+  body.set(iv, X25519_KEY_BYTES);
+  body.set(new Uint8Array(sealed), X25519_KEY_BYTES + SEALED_IV_BYTES);
+  return { type: ENVELOPE_TYPE_SEALED, body };
+}
+
+/**
+ * Try to unseal a sealed-sender envelope with this device's identity key pair.
+ * Returns the claimed sender and the inner Signal envelope, or `null` when the
+ * envelope is not sealed to this device (or is not sealed at all). Verifying
+ * the sender is the caller's job.
+ */
+export async function unsealEnvelope(
+  envelope: Envelope,
+  identity: { pubKey: ArrayBuffer; privKey: ArrayBuffer }
+): Promise<{ sender: SenderCertificate; envelope: Envelope } | null> {
+  if (envelope.type !== ENVELOPE_TYPE_SEALED || envelope.body.length <= X25519_KEY_BYTES + SEALED_IV_BYTES) {
+    return null;
+  }
+  const ephemeralPub = envelope.body.slice(0, X25519_KEY_BYTES);
+  const iv = envelope.body.slice(X25519_KEY_BYTES, X25519_KEY_BYTES + SEALED_IV_BYTES);
+  try {
+    const shared = await x25519(new Uint8Array(identity.privKey), ephemeralPub);
+    const key = await deriveSealedKey(shared, ephemeralPub, toRawPublic(new Uint8Array(identity.pubKey)));
+    const content = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      toArrayBuffer(envelope.body.subarray(X25519_KEY_BYTES + SEALED_IV_BYTES))
+    );
+    return parseSealedContent(new Uint8Array(content));
+  } catch {
+    return null;
+  }
+}
+
+/** AES-GCM key for one sealed box: HKDF over the X25519 secret, bound to both publics. */
+async function deriveSealedKey(
+  shared: ArrayBuffer,
+  ephemeralPub: Uint8Array,
+  recipient: Uint8Array
+): Promise<CryptoKey> {
+  const label = new TextEncoder().encode(SEALED_LABEL);
+  const info = new Uint8Array(label.length + 2 * X25519_KEY_BYTES);
+  info.set(label, 0);
+  info.set(ephemeralPub, label.length);
+  info.set(recipient, label.length + X25519_KEY_BYTES);
+  const salt = await deriveDeterministicSalt('ATS/KMS/sealed-sender/salt/v1');
+  const ikm = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info },
+    ikm,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function serializeSealedContent(sender: SenderCertificate, envelope: Envelope): Uint8Array {
+  const name = new TextEncoder().encode(sender.peerName);
+  if (name.length > MAX_SENDER_NAME_BYTES) {
+    throw new ValidationError(`Sender name too long: ${name.length} bytes (max ${MAX_SENDER_NAME_BYTES})`);
+  }
+  const fixed: Array<[Uint8Array, number, string]> = [
+    [sender.identityKey, X25519_KEY_BYTES + 1, 'identityKey'],
+    [sender.identitySigningKey, ED25519_KEY_BYTES, 'identitySigningKey'],
+    [sender.masterSigningPub, ED25519_KEY_BYTES, 'masterSigningPub'],
+    [sender.deviceCert, DEVICE_CERT_BYTES, 'deviceCert'],
+  ];
+  for (const [bytes, length, field] of fixed) {
+    if (bytes.length !== length) {
+      throw new ValidationError(`Sender certificate ${field} must be ${length} bytes`);
+    }
+  }
+  const out = new Uint8Array(2 + name.length + 4 + SENDER_KEYS_BYTES + 1 + envelope.body.length);
+  const view = new DataView(out.buffer);
+  let off = 0;
+  view.setUint16(off, name.length, false);
+  off += 2;
+  out.set(name, off);
+  off += name.length;
+  view.setUint32(off, sender.peerDeviceId, false);
+  off += 4;
+  for (const [bytes] of fixed) {
+    out.set(bytes, off);
+    off += bytes.length;
+  }
+  out[off++] = envelope.type;
+  out.set(envelope.body, off);
+  return out;
+}
+
+function parseSealedContent(bytes: Uint8Array): { sender: SenderCertificate; envelope: Envelope } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 2) {
+    return null;
+  }
+  const nameLen = view.getUint16(0, false);
+  let off = 2;
+  if (nameLen === 0 || nameLen > MAX_SENDER_NAME_BYTES || bytes.length < off + nameLen + 4 + SENDER_KEYS_BYTES + 1) {
+    return null;
+  }
+  const peerName = new TextDecoder().decode(bytes.subarray(off, off + nameLen));
+  off += nameLen;
+  const peerDeviceId = view.getUint32(off, false);
+  off += 4;
+  const take = (n: number): Uint8Array => {
+    const out = bytes.slice(off, off + n);
+    off += n;
+    return out;
+  };
+  const sender: SenderCertificate = {
+    peerName,
+    peerDeviceId,
+    identityKey: take(X25519_KEY_BYTES + 1),
+    identitySigningKey: take(ED25519_KEY_BYTES),
+    masterSigningPub: take(ED25519_KEY_BYTES),
+    deviceCert: take(DEVICE_CERT_BYTES),
+  };
+  const type = bytes[off++]!;
+  return { sender, envelope: { type, body: bytes.slice(off) } };
+}
+
 // ============================================================================
 // Internal
 // ============================================================================
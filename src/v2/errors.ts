@@ -0,0 +1,133 @@
+/**
+ * @file errors.ts
+ * @description Typed KMS errors and their RPC wire form.
+ *
+ * Handlers throw {@link KMSError} (or a subclass) with an {@link RPCErrorCode};
+ * the worker sends it as a structured {@link RPCErrorDetail} and KMSUser
+ * rethrows it as the matching class, so callers branch on `code`,
+ * `retryable` and `requiresReauth` instead of matching message text.
+ * Errors that are not KMSErrors reach the caller as `INTERNAL`.
+ */
+
+import type { RPCErrorCode, RPCErrorDetail } from './types.js';
+import { getErrorMessage } from './error-utils.js';
+
+/**
+ * What a caller can do about each code:
+ * - `retryable`: the same request may succeed later unchanged;
+ * - `reauth`: it may succeed after the user authenticates again (new
+ *   credentials, a new lease, or a new messaging session).
+ */
+const RECOVERY: Record<RPCErrorCode, { retryable: boolean; reauth: boolean }> = {
+  VALIDATION: { retryable: false, reauth: false },
+  UNKNOWN_METHOD: { retryable: false, reauth: false },
+  POLICY_DENIED: { retryable: false, reauth: false },
+  NOT_SETUP: { retryable: false, reauth: false },
+  UNLOCK_FAILED: { retryable: false, reauth: true },
+  NOT_FOUND: { retryable: false, reauth: false },
+  CONFLICT: { retryable: false, reauth: false },
+  LEASE_EXPIRED: { retryable: false, reauth: true },
+  WRONG_KEY: { retryable: false, reauth: true },
+  SESSION_EXPIRED: { retryable: false, reauth: true },
+  UNAUTHORIZED: { retryable: false, reauth: true },
+  EXPIRED: { retryable: false, reauth: false },
+  QUOTA_EXCEEDED: { retryable: true, reauth: false },
+  CANCELLED: { retryable: false, reauth: false },
+  TIMEOUT: { retryable: true, reauth: false },
+  CONNECTION_LOST: { retryable: false, reauth: false },
+  ATTESTATION_FAILED: { retryable: false, reauth: false },
+  INTERNAL: { retryable: false, reauth: false },
+};
+
+/**
+ * Type guard for error codes (e.g. read back from an RPC response).
+ */
+export function isRPCErrorCode(value: unknown): value is RPCErrorCode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(RECOVERY, value);
+}
+
+/**
+ * Base class of every error the KMS reports with a code.
+ *
+ * `retryAfterMs` is the earliest point at which a retry can succeed, when
+ * the KMS knows one (quota rejections); null otherwise.
+ */
+export class KMSError extends Error {
+  constructor(
+    public readonly code: RPCErrorCode,
+    message: string,
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'KMSError';
+  }
+
+  /** Whether the same request may succeed later unchanged. */
+  get retryable(): boolean {
+    return RECOVERY[this.code].retryable;
+  }
+
+  /** Whether the request may succeed after the user authenticates again. */
+  get requiresReauth(): boolean {
+    return RECOVERY[this.code].reauth;
+  }
+
+  /** Wire form sent by the worker. */
+  toDetail(): RPCErrorDetail {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.retryAfterMs !== null && { retryAfterMs: this.retryAfterMs }),
+    };
+  }
+}
+
+/** Malformed or out-of-range request parameters. */
+export class ValidationError extends KMSError {
+  constructor(message: string) {
+    super('VALIDATION', message);
+    this.name = 'ValidationError';
+  }
+}
+
+/** The credentials did not unlock the Master Secret. */
+export class UnlockFailedError extends KMSError {
+  constructor(message: string) {
+    super('UNLOCK_FAILED', message);
+    this.name = 'UnlockFailedError';
+  }
+}
+
+/** The lease has expired; create a new one. */
+export class LeaseExpiredError extends KMSError {
+  constructor(message = 'Lease expired') {
+    super('LEASE_EXPIRED', message);
+    this.name = 'LeaseExpiredError';
+  }
+}
+
+/** The lease is bound to a retired VAPID key; create a new one. */
+export class WrongKeyError extends KMSError {
+  constructor(message: string) {
+    super('WRONG_KEY', message);
+    this.name = 'WrongKeyError';
+  }
+}
+
+/** The messaging session is closed or has expired; call openMessaging again. */
+export class SessionExpiredError extends KMSError {
+  constructor(message: string) {
+    super('SESSION_EXPIRED', message);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/**
+ * Structured form of any thrown value, for an RPC response.
+ */
+export function toRPCErrorDetail(err: unknown): RPCErrorDetail {
+  if (err instanceof KMSError) {
+    return err.toDetail();
+  }
+  return { code: 'INTERNAL', message: getErrorMessage(err) };
+}
@@ -0,0 +1,38 @@
+/**
+ * Enclave event fan-out.
+ *
+ * Worker-side code (the lease and messaging-session timers, audit appends,
+ * prekey maintenance, VAPID rotation) calls {@link emitKMSEvent}. The worker
+ * entry point subscribes once and posts each event to KMSClient as
+ * `worker:event`, which relays it to KMSUser over the handshake port.
+ *
+ * Listeners run synchronously and their exceptions are contained, so an event
+ * can never fail the operation that emitted it.
+ */
+
+import type { KMSEvent } from './types';
+
+const listeners = new Set<(event: KMSEvent) => void>();
+
+/**
+ * Receive every event emitted in this worker instance.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeKMSEvents(listener: (event: KMSEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Deliver an event to every subscriber. */
+export function emitKMSEvent(event: KMSEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (err: unknown) {
+      console.error('[KMS Events] Listener failed:', err);
+    }
+  }
+}
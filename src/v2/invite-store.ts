@@ -40,6 +40,7 @@ function toMeta(r: MessagingInviteRecord): InviteMeta {
     type: r.type,
     createdAt: r.createdAt,
   };
+  if (r.roomId !== undefined) meta.roomId = r.roomId;
   if (r.expiresAt !== undefined) meta.expiresAt = r.expiresAt;
   if (r.singleUse !== undefined) meta.singleUse = r.singleUse;
   return meta;
@@ -53,6 +54,7 @@ export async function storeInvite(
     secret: Uint8Array;
     scope: string;
     type: InviteType;
+    roomId?: string;
     expiresAt?: number;
     singleUse?: boolean;
   },
@@ -71,6 +73,7 @@ export async function storeInvite(
     type: params.type,
     createdAt: Date.now(),
   };
+  if (params.roomId !== undefined) record.roomId = params.roomId;
   if (params.expiresAt !== undefined) record.expiresAt = params.expiresAt;
   if (params.singleUse !== undefined) record.singleUse = params.singleUse;
   await putMessagingInvite(record);
@@ -14,6 +14,7 @@
 
 import { arrayBufferToBase64url, base64urlToArrayBuffer } from './crypto-utils';
 import type { InviteType } from './types';
+import { ValidationError } from './errors';
 
 /** Invite lifecycle type (rooms §3.3): a single-use 1:1, or a reusable room. */
 export type { InviteType };
@@ -58,12 +59,21 @@ export interface InvitePayload {
   v: number;
   t: InviteType;
   card: InviteCard;
-  /** Room secret, base64url. Enclave-only — never handed to the PWA. */
+  /**
+   * Invite secret, base64url. Enclave-only — never handed to the PWA. For a
+   * `connect-1:1` invite it becomes the pair's channel secret; for a `room` invite
+   * it only seals the join announcement (members get the room secret from the
+   * admin after approval).
+   */
   s: string;
-  /** Absolute expiry (ms epoch), for `connect-1:1`. */
+  /** Absolute expiry (ms epoch). */
   exp?: number;
   /** Single-use flag, for `connect-1:1`. */
   single?: boolean;
+  /** Room id, for `room`. */
+  r?: string;
+  /** Room name hint, for `room`. */
+  rn?: string;
 }
 
 const encoder = new TextEncoder();
@@ -111,14 +121,14 @@ export function decodeInvite(blob: string): InvitePayload {
   // Cap the untrusted input before any decoding so a huge paste/scan can't force
   // a large base64 + JSON parse.
   if (typeof blob !== 'string' || blob.length > MAX_INVITE_BLOB_CHARS) {
-    throw new Error('Invalid invite');
+    throw new ValidationError('Invalid invite');
   }
   const token = extractToken(blob);
   let parsed: unknown;
   try {
     parsed = JSON.parse(decoder.decode(base64urlToArrayBuffer(token)));
   } catch {
-    throw new Error('Invalid invite');
+    throw new ValidationError('Invalid invite');
   }
   assertValidPayload(parsed);
   return parsed;
@@ -141,7 +151,29 @@ export function buildConnectInvite(
   return payload;
 }
 
-/** Whether a `connect-1:1` invite has passed its expiry at time `now` (ms). */
+/**
+ * Build an admin's reusable `room` invite payload from a card + invite secret +
+ * the room it admits to.
+ */
+export function buildRoomInvite(
+  card: InviteCard,
+  secret: Uint8Array,
+  room: { roomId: string; name?: string },
+  opts: { expiresAt?: number } = {}
+): InvitePayload {
+  const payload: InvitePayload = {
+    v: INVITE_VERSION,
+    t: 'room',
+    card,
+    s: roomSecretToB64url(secret),
+    r: room.roomId,
+  };
+  if (room.name !== undefined) payload.rn = room.name;
+  if (opts.expiresAt !== undefined) payload.exp = opts.expiresAt;
+  return payload;
+}
+
+/** Whether an invite has passed its expiry at time `now` (ms). */
 export function isInviteExpired(payload: InvitePayload, now: number): boolean {
   return typeof payload.exp === 'number' && now >= payload.exp;
 }
@@ -157,7 +189,7 @@ const ANNOUNCEMENT_KIND = 'connect-ann';
  * approval — not stuffed in here. Returns raw bytes for the caller to seal.
  */
 export function encodeAnnouncement(card: InviteCard): Uint8Array {
-  if (!isValidCard(card)) throw new Error('Invalid announcement');
+  if (!isValidCard(card)) throw new ValidationError('Invalid announcement');
   return encoder.encode(JSON.stringify({ v: INVITE_VERSION, k: ANNOUNCEMENT_KIND, card }));
 }
 
@@ -167,10 +199,10 @@ export function decodeAnnouncement(bytes: Uint8Array): InviteCard {
   try {
     parsed = JSON.parse(decoder.decode(bytes)) as { v?: number; k?: string; card?: InviteCard };
   } catch {
-    throw new Error('Invalid announcement');
+    throw new ValidationError('Invalid announcement');
   }
   if (!parsed || parsed.v !== INVITE_VERSION || parsed.k !== ANNOUNCEMENT_KIND || !isValidCard(parsed.card)) {
-    throw new Error('Invalid announcement');
+    throw new ValidationError('Invalid announcement');
   }
   return parsed.card;
 }
@@ -208,7 +240,7 @@ function hasOnlyKeys(o: object, allowed: readonly string[]): boolean {
 }
 
 const CARD_KEYS = ['uid', 'name', 'msk', 'mek'] as const;
-const PAYLOAD_KEYS = ['v', 't', 'card', 's', 'exp', 'single'] as const;
+const PAYLOAD_KEYS = ['v', 't', 'card', 's', 'exp', 'single', 'r', 'rn'] as const;
 
 /**
  * Whether `c` is a valid identity card: a plain object with ONLY the card keys, a
@@ -230,11 +262,13 @@ function isValidCard(c: unknown): c is InviteCard {
 /**
  * Throw unless `p` is a valid current-version invite payload: a plain object with
  * ONLY the payload keys, a 32-byte room secret, a valid card, and (when present) a
- * bounded safe-integer expiry + boolean single-use flag.
+ * bounded safe-integer expiry + boolean single-use flag. A `room` invite carries a
+ * bounded room id (+ optional name) and is never single-use; a `connect-1:1`
+ * invite carries neither.
  */
 function assertValidPayload(p: unknown): asserts p is InvitePayload {
   if (!p || typeof p !== 'object' || Array.isArray(p) || !hasOnlyKeys(p, PAYLOAD_KEYS)) {
-    throw new Error('Invalid invite');
+    throw new ValidationError('Invalid invite');
   }
   const o = p as Partial<InvitePayload>;
   if (
@@ -243,10 +277,20 @@ function assertValidPayload(p: unknown): asserts p is InvitePayload {
     !isB64urlOfLength(o.s, ROOM_SECRET_BYTES) ||
     !isValidCard(o.card)
   ) {
-    throw new Error('Invalid invite');
+    throw new ValidationError('Invalid invite');
   }
   if (o.exp !== undefined && (!Number.isSafeInteger(o.exp) || o.exp <= 0 || o.exp > MAX_EXP_MS)) {
-    throw new Error('Invalid invite');
+    throw new ValidationError('Invalid invite');
+  }
+  if (o.single !== undefined && typeof o.single !== 'boolean') throw new ValidationError('Invalid invite');
+  if (o.t === 'room') {
+    if (!isNonEmptyString(o.r) || o.r.length > MAX_UID_CHARS || o.single === true) {
+      throw new ValidationError('Invalid invite');
+    }
+    if (o.rn !== undefined && (typeof o.rn !== 'string' || o.rn.length > MAX_NAME_CHARS)) {
+      throw new ValidationError('Invalid invite');
+    }
+  } else if (o.r !== undefined || o.rn !== undefined) {
+    throw new ValidationError('Invalid invite');
   }
-  if (o.single !== undefined && typeof o.single !== 'boolean') throw new Error('Invalid invite');
 }
@@ -2,19 +2,22 @@
  * KMS V2 User API
  *
  * This class provides the PWA-facing API for the KMS. It runs in the PWA
- * context (allthe.services) and communicates with the KMS iframe via postMessage.
+ * context (allthe.services) and communicates with the KMS iframe over a
+ * dedicated MessagePort handed over in the kms:connect handshake.
  *
  * Features:
  * - Iframe initialization and lifecycle management
- * - Request/response correlation with timeouts
+ * - Request/response correlation with per-method timeouts
+ * - Heartbeats, iframe re-creation and replay of idempotent requests
  * - WebAuthn ceremony orchestration
  * - Setup and unlock operations
  * - VAPID key management and JWT signing
  * - Lease-based authorization
+ * - Enclave events (lease/session expiry, low prekeys, VAPID rotation, audit) via on()
  *
  * Architecture:
  *   kms-user.ts (PWA @ allthe.services)
- *       ↓ postMessage (cross-origin)
+ *       ↓ MessagePort (cross-origin, after the kms:connect handshake)
  *   client.ts (iframe @ kms.ats.run)
  *       ↓ postMessage (Worker)
  *   worker.ts (Dedicated Worker)
@@ -23,17 +26,119 @@
 import type {
   RPCRequest,
   RPCResponse,
+  RPCErrorDetail,
   RPCMethod,
   AuthCredentials,
   AuditEntryV2,
+  AuditLogExport,
+  AuditLogFilter,
+  PassphraseKDFAlgorithm,
   LeaseRecord,
   LeaseVerificationResult,
   StoredPushSubscription,
+  PushSubscriptionRecord,
+  QuotaState,
+  ContactInfo,
+  ContactTrustState,
+  ReceivedAttachment,
+  BundleSender,
+  KMSEvent,
+  KMSEventType,
+} from './types.js';
+import type {
+  PublicPreKeyBundle,
+  PrekeyBundleDelta,
+  WrappedAccountRoot,
+  ConnectPeer,
+  InviteMeta,
+  InviteType,
+  RoomInfo,
+  RoomRekey,
 } from './types.js';
-import type { PublicPreKeyBundle, WrappedAccountRoot, ConnectPeer, InviteMeta } from './types.js';
 import type { MessagingDeviceBundle } from './rpc-validation.js';
+import type { SafetyNumber } from './safety-number.js';
 import { formatError } from './error-utils.js';
+import { QuotaExceededError, isQuotaDimension } from './rate-limit.js';
+import {
+  KMSError,
+  LeaseExpiredError,
+  SessionExpiredError,
+  UnlockFailedError,
+  ValidationError,
+  WrongKeyError,
+  isRPCErrorCode,
+} from './errors.js';
 import { getPRFResults } from './webauthn-types.js';
+import { awaitsUser, isReplaySafe } from './operation-policy.js';
+import {
+  BUILD_MANIFEST_EXPIRY_WARNING_MS,
+  BUILD_MANIFEST_PATH,
+  verifyBuildManifest,
+  type KMSBuildManifest,
+} from './build-manifest.js';
+
+export {
+  KMSError,
+  LeaseExpiredError,
+  QuotaExceededError,
+  SessionExpiredError,
+  UnlockFailedError,
+  ValidationError,
+  WrongKeyError,
+};
+
+/**
+ * Rebuild the typed error of an RPC error response. String errors (from
+ * older KMS builds) and unknown codes surface as `INTERNAL`.
+ */
+function fromRPCError(error: string | RPCErrorDetail): KMSError {
+  if (typeof error === 'string') {
+    return new KMSError('INTERNAL', error);
+  }
+  const message = error.message || JSON.stringify(error);
+  switch (error.code) {
+    case 'QUOTA_EXCEEDED':
+      if (isQuotaDimension(error.quota)) {
+        return new QuotaExceededError(error.quota, error.retryAfterMs ?? null);
+      }
+      break;
+    case 'VALIDATION':
+      return new ValidationError(message);
+    case 'UNLOCK_FAILED':
+      return new UnlockFailedError(message);
+    case 'LEASE_EXPIRED':
+      return new LeaseExpiredError(message);
+    case 'WRONG_KEY':
+      return new WrongKeyError(message);
+    case 'SESSION_EXPIRED':
+      return new SessionExpiredError(message);
+  }
+  return new KMSError(isRPCErrorCode(error.code) ? error.code : 'INTERNAL', message, error.retryAfterMs ?? null);
+}
+
+/**
+ * Typed error for a lease that failed the pre-issuance check, by
+ * {@link LeaseVerificationResult.reason}.
+ */
+function leaseError(reason: string | undefined, message: string): KMSError {
+  switch (reason) {
+    case 'expired':
+      return new LeaseExpiredError(message);
+    case 'wrong-key':
+      return new WrongKeyError(message);
+    case 'not-found':
+      return new KMSError('NOT_FOUND', message);
+    default:
+      return new KMSError('INTERNAL', message);
+  }
+}
+
+export type { KMSEvent, KMSEventType };
+
+/**
+ * Listener for one enclave event type (see {@link KMSUser.on})
+ */
+export type KMSEventListener<T extends KMSEventType> = (event: Extract<KMSEvent, { type: T }>) => void;
 
 /**
  * Configuration for KMSUser
@@ -50,6 +155,64 @@ export interface KMSUserConfig {
    */
   defaultTimeout?: number;
 
+  /**
+   * Timeout for methods that may wait on the user (unlock modal, popup
+   * ceremonies, KMS-origin confirmation)
+   * @default 900000 (15 minutes)
+   */
+  ceremonyTimeout?: number;
+
+  /**
+   * Per-method timeouts in milliseconds, overriding the two defaults above
+   */
+  methodTimeouts?: Partial<Record<RPCMethod, number>>;
+
+  /**
+   * Interval between heartbeat pings to the enclave; 0 disables them
+   * @default 10000 (10 seconds)
+   */
+  heartbeatInterval?: number;
+
+  /**
+   * How long to wait for a heartbeat reply before treating the iframe as lost
+   * @default 5000 (5 seconds)
+   */
+  heartbeatTimeout?: number;
+
+  /**
+   * Attempts to re-create a lost iframe before giving up
+   * @default 5
+   */
+  maxReconnectAttempts?: number;
+
+  /**
+   * Open the enclave channel without an iframe, resolving with KMSUser's end
+   * of it. The other end must relay `kms:ping` to the worker as client.ts does.
+   * Used by the headless test harness (src/testing/kms-harness.ts).
+   */
+  connect?: () => Promise<MessagePort>;
+
+  /**
+   * Pinned Ed25519 release public keys (raw, base64url). When set, init() and
+   * every iframe re-creation fetch the enclave's signed build manifest
+   * (build-manifest.ts) before sending the enclave anything. A manifest that
+   * is missing, unsigned, signed by another key, expired, or older than one
+   * already accepted always fails init() with ATTESTATION_FAILED.
+   *
+   * The worker hash is then checked against the manifest, but the enclave
+   * reports that hash itself: this catches a deploy that was never signed off
+   * or still runs a deprecated build, not a hostile KMS origin.
+   */
+  releaseKeys?: readonly string[];
+
+  /**
+   * What to do when the worker the enclave reports is not allowed by the
+   * signed manifest (or is deprecated, or missing): refuse the iframe
+   * (init() rejects with ATTESTATION_FAILED) or log a warning and carry on
+   * @default 'refuse'
+   */
+  onManifestMismatch?: 'refuse' | 'warn';
+
   /**
    * Whether to auto-initialize on construction
    * @default false
@@ -64,7 +227,7 @@ interface PendingRequest {
   resolve: (result: unknown) => void;
   reject: (error: Error) => void;
   timeoutId: NodeJS.Timeout | number;
-  method: string;
+  request: RPCRequest; // Kept for replay after a reconnect
 }
 
 /**
@@ -90,18 +253,40 @@ export interface VAPIDKeyResult {
   publicKey: string;
 }
 
+/**
+ * VAPID rotation result: the new current key plus the keys now in their grace period
+ */
+export interface VAPIDRotationResult extends VAPIDKeyResult {
+  retiring: Array<{ kid: string; retireAt: number }>;
+}
+
+/**
+ * VAPID key retirement result (lease IDs migrated to the current key or expired)
+ */
+export interface VAPIDRetirementResult {
+  kid: string;
+  migrated: string[];
+  expired: string[];
+}
+
+/**
+ * Entry in the VAPID key ring
+ */
+export interface VAPIDKeyInfo {
+  kid: string;
+  publicKey: string;
+  createdAt: number;
+  status: 'current' | 'retiring' | 'superseded';
+  retireAt?: number;
+}
+
 /**
  * Lease result
  */
 export interface LeaseResult {
   leaseId: string;
   exp: number;
-  quotas: {
-    tokensPerHour: number;
-    sendsPerMinute: number;
-    burstSends: number;
-    sendsPerMinutePerEid: number;
-  };
+  quotas: QuotaState;
   autoExtend?: boolean;
 }
 
@@ -174,7 +359,22 @@ export class KMSUser {
   private defaultTimeout: number;
   private isInitialized = false;
   private isReady = false;
-  private boundMessageHandler: ((event: MessageEvent) => void) | null = null;
+  private port: MessagePort | null = null; // Dedicated channel to the enclave, set by the handshake
+  private eventListeners: Map<KMSEventType, Set<(event: KMSEvent) => void>> = new Map();
+  private ceremonyTimeout: number;
+  private methodTimeouts: Partial<Record<RPCMethod, number>>;
+  private heartbeatInterval: number;
+  private heartbeatTimeout: number;
+  private maxReconnectAttempts: number;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatNonce: string | null = null;
+  private reconnecting: Promise<void> | null = null;
+  private lostReason: string | null = null; // Why the last reconnect gave up, until the next init()
+  private epoch = 0; // Bumped by cleanup() so a stale reconnect loop stops
+  private connectPort: (() => Promise<MessagePort>) | null;
+  private releaseKeys: readonly string[];
+  private onManifestMismatch: 'refuse' | 'warn';
+  private manifestIssuedAt: number | undefined; // Newest signed manifest accepted, if localStorage is unavailable
 
   /**
    * Create a new KMS user API instance
@@ -184,6 +384,14 @@ export class KMSUser {
   constructor(config: KMSUserConfig) {
     this.kmsOrigin = config.kmsOrigin;
     this.defaultTimeout = config.defaultTimeout ?? 300000; // 5 minutes for testing
+    this.ceremonyTimeout = config.ceremonyTimeout ?? 900000;
+    this.methodTimeouts = config.methodTimeouts ?? {};
+    this.heartbeatInterval = config.heartbeatInterval ?? 10000;
+    this.heartbeatTimeout = config.heartbeatTimeout ?? 5000;
+    this.maxReconnectAttempts = config.maxReconnectAttempts ?? 5;
+    this.connectPort = config.connect ?? null;
+    this.releaseKeys = config.releaseKeys ?? [];
+    this.onManifestMismatch = config.onManifestMismatch ?? 'refuse';
 
     if (config.autoInit && typeof window !== 'undefined') {
       this.init().catch((err) => {
@@ -206,73 +414,204 @@ export class KMSUser {
       throw new Error('KMSUser already initialized');
     }
 
-    if (typeof window === 'undefined' || typeof document === 'undefined') {
+    if (!this.connectPort && (typeof window === 'undefined' || typeof document === 'undefined')) {
       throw new Error('KMSUser requires browser environment');
     }
 
     try {
-      // Create iframe
-      this.iframe = document.createElement('iframe');
-      this.iframe.src = `${this.kmsOrigin}/?parentOrigin=${encodeURIComponent(window.location.origin)}`;
-
-      // Style as full-page overlay (hidden by default)
-      this.iframe.style.position = 'fixed';
-      this.iframe.style.top = '0';
-      this.iframe.style.left = '0';
-      this.iframe.style.width = '100%';
-      this.iframe.style.height = '100%';
-      this.iframe.style.border = 'none';
-      this.iframe.style.zIndex = '99999';
-      this.iframe.style.display = 'none'; // Hidden by default
-
-      this.iframe.sandbox.add('allow-scripts', 'allow-same-origin');
-      // clipboard-write: the Connect ceremony's "Copy link" button runs in this
-      // cross-origin iframe; navigator.clipboard.writeText is blocked there without
-      // this Permissions-Policy delegation (it worked in the old top-level popup).
-      // camera: the Connect accept-view QR scanner uses getUserMedia in the iframe
-      // (paired with the enclave's own `camera=(self)` Permissions-Policy). Delegated
-      // to the iframe origin only; the parent PWA must itself permit camera to
-      // delegate it (top-level documents allow it by default).
-      this.iframe.allow =
-        'publickey-credentials-get; publickey-credentials-create; clipboard-write; camera';
-
-      // Setup message handler (store bound reference for later removal)
-      this.boundMessageHandler = this.handleMessage.bind(this);
-      window.addEventListener('message', this.boundMessageHandler);
-
-      // Append to DOM
-      document.body.appendChild(this.iframe);
-
       this.isInitialized = true;
+      this.lostReason = null;
+      await this.openFrame();
 
-      // Wait for ready signal from iframe
-      await this.waitForReady();
+      // An unsolicited kms:ready means the iframe reloaded and its port is dead
+      if (this.iframe) {
+        window.addEventListener('message', this.handleWindowMessage);
+      }
+      this.startHeartbeat();
     } catch (err: unknown) {
       console.error('[KMS User] Initialization failed:', err);
       this.cleanup();
+      if (err instanceof KMSError && err.code === 'ATTESTATION_FAILED') {
+        throw err;
+      }
       throw new Error(formatError('Failed to initialize KMS', err));
     }
   }
 
   /**
-   * Wait for ready signal from KMS iframe
+   * Create the KMS iframe and complete the handshake with it (or, given a
+   * `connect` hook, just open the channel)
+   */
+  private async openFrame(): Promise<void> {
+    if (this.connectPort) {
+      this.attachPort(await this.connectPort());
+      return;
+    }
+
+    // Create iframe
+    this.iframe = document.createElement('iframe');
+    this.iframe.src = `${this.kmsOrigin}/?parentOrigin=${encodeURIComponent(window.location.origin)}`;
+
+    // Style as full-page overlay (hidden by default)
+    this.iframe.style.position = 'fixed';
+    this.iframe.style.top = '0';
+    this.iframe.style.left = '0';
+    this.iframe.style.width = '100%';
+    this.iframe.style.height = '100%';
+    this.iframe.style.border = 'none';
+    this.iframe.style.zIndex = '99999';
+    this.iframe.style.display = 'none'; // Hidden by default
+
+    this.iframe.sandbox.add('allow-scripts', 'allow-same-origin');
+    // clipboard-write: the Connect ceremony's "Copy link" button runs in this
+    // cross-origin iframe; navigator.clipboard.writeText is blocked there without
+    // this Permissions-Policy delegation (it worked in the old top-level popup).
+    // camera: the Connect accept-view QR scanner uses getUserMedia in the iframe
+    // (paired with the enclave's own `camera=(self)` Permissions-Policy). Delegated
+    // to the iframe origin only; the parent PWA must itself permit camera to
+    // delegate it (top-level documents allow it by default).
+    this.iframe.allow =
+      'publickey-credentials-get; publickey-credentials-create; clipboard-write; camera';
+
+    // Append to DOM
+    document.body.appendChild(this.iframe);
+
+    // Wait for ready signal from iframe and hand it the RPC port; use the port
+    // only once the signed manifest checks out
+    const { port, worker } = await this.waitForReady();
+    if (this.releaseKeys.length > 0) {
+      try {
+        await this.verifyEnclaveBuild(worker);
+      } catch (err: unknown) {
+        port.close();
+        throw err;
+      }
+    }
+    this.attachPort(port);
+  }
+
+  /**
+   * Fetch and verify the signed build manifest at `kmsOrigin` with the pinned
+   * `releaseKeys`, then check the worker the enclave reported against it. A
+   * manifest close to expiry is accepted with a warning: the KMS is about to
+   * become unusable unless its release is re-signed.
+   *
+   * @param worker - SHA-256 (hex) the enclave reported in `kms:ready`
+   * @throws {KMSError} ATTESTATION_FAILED when the manifest fails, or when the
+   *   worker does and `onManifestMismatch` is not 'warn'
+   */
+  private async verifyEnclaveBuild(worker: string | null): Promise<void> {
+    let manifest: KMSBuildManifest;
+    try {
+      const response = await fetch(`${this.kmsOrigin}${BUILD_MANIFEST_PATH}`, {
+        cache: 'no-store',
+        credentials: 'omit',
+      });
+      if (!response.ok) {
+        throw new KMSError('ATTESTATION_FAILED', `Build manifest unavailable (HTTP ${response.status})`);
+      }
+      const issuedNotBefore = this.loadManifestIssuedAt();
+      manifest = await verifyBuildManifest(
+        await response.json(),
+        this.releaseKeys,
+        issuedNotBefore !== undefined ? { issuedNotBefore } : {}
+      );
+    } catch (err: unknown) {
+      throw err instanceof KMSError
+        ? err
+        : new KMSError('ATTESTATION_FAILED', formatError('Build manifest check failed', err));
+    }
+    this.storeManifestIssuedAt(Date.parse(manifest.issuedAt));
+    if (Date.parse(manifest.expires) - Date.now() < BUILD_MANIFEST_EXPIRY_WARNING_MS) {
+      console.warn(`[KMS User] Build manifest expires at ${manifest.expires} and has not been re-signed`);
+    }
+
+    let mismatch: string | null = null;
+    if (worker === null) {
+      mismatch = 'KMS enclave did not report its worker hash';
+    } else if (manifest.deprecated.includes(worker)) {
+      mismatch = `KMS worker ${worker} is deprecated by the signed build manifest`;
+    } else if (!manifest.allowed.includes(worker)) {
+      mismatch = `KMS worker ${worker} is not in the signed build manifest`;
+    }
+    if (mismatch === null) {
+      return;
+    }
+    if (this.onManifestMismatch === 'warn') {
+      console.warn('[KMS User] Enclave build not verified:', mismatch);
+      return;
+    }
+    throw new KMSError('ATTESTATION_FAILED', mismatch);
+  }
+
+  /**
+   * `issuedAt` (ms) of the newest build manifest accepted from `kmsOrigin`.
+   * Kept in this app's localStorage, which the KMS origin cannot write, so a
+   * rollback is caught across page loads.
+   */
+  private loadManifestIssuedAt(): number | undefined {
+    if (typeof localStorage !== 'undefined') {
+      const stored = Number(localStorage.getItem(`kms:manifestIssuedAt:${this.kmsOrigin}`));
+      if (stored > 0) {
+        return Math.max(stored, this.manifestIssuedAt ?? 0);
+      }
+    }
+    return this.manifestIssuedAt;
+  }
+
+  private storeManifestIssuedAt(issuedAt: number): void {
+    this.manifestIssuedAt = Math.max(issuedAt, this.loadManifestIssuedAt() ?? 0);
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(`kms:manifestIssuedAt:${this.kmsOrigin}`, String(this.manifestIssuedAt));
+    }
+  }
+
+  /**
+   * Wait for ready signal from KMS iframe, then connect the dedicated port
+   *
+   * `kms:ready` counts only from our own iframe's window at `kmsOrigin`. The
+   * reply, `kms:connect`, transfers one end of a fresh MessageChannel with a
+   * nonce; the enclave echoes the nonce as `kms:connected` over the port, and
+   * from then on every RPC travels over it.
    *
    * @param timeout - Timeout in milliseconds
-   * @returns Promise that resolves when ready
+   * @returns Our end of the channel, and the worker hash `kms:ready` reported
    */
-  private waitForReady(timeout: number = 5000): Promise<void> {
+  private waitForReady(timeout: number = 5000): Promise<{ port: MessagePort; worker: string | null }> {
     return new Promise((resolve, reject) => {
+      const channel = new MessageChannel();
+      const nonce = crypto.randomUUID();
+      let sawReady = false;
+      let worker: string | null = null;
+
       const timeoutId = setTimeout(() => {
-        reject(new Error('Timeout waiting for KMS ready signal'));
+        window.removeEventListener('message', checkReady);
+        channel.port1.close();
+        reject(new Error(sawReady ? 'Timeout waiting for KMS handshake' : 'Timeout waiting for KMS ready signal'));
       }, timeout);
 
+      channel.port1.onmessage = (event: MessageEvent): void => {
+        const data = event.data as { type?: string; nonce?: string };
+        if (data?.type !== 'kms:connected' || data.nonce !== nonce) {
+          return;
+        }
+        clearTimeout(timeoutId);
+        resolve({ port: channel.port1, worker });
+      };
+
       const checkReady = (event: MessageEvent): void => {
-        const data = event.data as { type?: string };
-        if (event.origin === this.kmsOrigin && data?.type === 'kms:ready') {
-          clearTimeout(timeoutId);
+        const data = event.data as { type?: string; worker?: unknown };
+        const contentWindow = this.iframe?.contentWindow;
+        if (
+          event.origin === this.kmsOrigin &&
+          data?.type === 'kms:ready' &&
+          contentWindow &&
+          event.source === contentWindow
+        ) {
           window.removeEventListener('message', checkReady);
-          this.isReady = true;
-          resolve();
+          sawReady = true;
+          worker = typeof data.worker === 'string' ? data.worker : null;
+          contentWindow.postMessage({ type: 'kms:connect', nonce }, this.kmsOrigin, [channel.port2]);
         }
       };
 
@@ -281,21 +620,40 @@ export class KMSUser {
   }
 
   /**
-   * Cleanup iframe and resources (without rejecting pending requests)
+   * Route everything arriving on the enclave channel to handleMessage
    */
-  private cleanup(): void {
-    // Remove message event listener
-    if (this.boundMessageHandler) {
-      window.removeEventListener('message', this.boundMessageHandler);
-      this.boundMessageHandler = null;
+  private attachPort(port: MessagePort): void {
+    port.onmessage = (message: MessageEvent): void => this.handleMessage(message.data);
+    this.port = port;
+    this.isReady = true;
+  }
+
+  /**
+   * Close the enclave channel and remove the iframe
+   */
+  private closeFrame(): void {
+    if (this.port) {
+      this.port.close();
+      this.port = null;
     }
 
-    // Remove iframe
     if (this.iframe && this.iframe.parentNode) {
       this.iframe.parentNode.removeChild(this.iframe);
     }
     this.iframe = null;
+  }
+
+  /**
+   * Cleanup iframe and resources (without rejecting pending requests)
+   */
+  private cleanup(): void {
+    this.stopHeartbeat();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('message', this.handleWindowMessage);
+    }
+    this.closeFrame();
 
+    this.epoch++;
     this.isInitialized = false;
     this.isReady = false;
   }
@@ -316,25 +674,220 @@ export class KMSUser {
   }
 
   // ========================================================================
-  // RPC Communication
+  // Connection Recovery
   // ========================================================================
 
   /**
-   * Handle messages from KMS iframe
+   * Watch for our iframe announcing itself again after the handshake, which
+   * only happens when it reloaded (e.g. Mobile Safari discarding it).
+   */
+  private readonly handleWindowMessage = (event: MessageEvent): void => {
+    const data = event.data as { type?: string };
+    const contentWindow = this.iframe?.contentWindow;
+    if (
+      this.isReady &&
+      event.origin === this.kmsOrigin &&
+      data?.type === 'kms:ready' &&
+      contentWindow &&
+      event.source === contentWindow
+    ) {
+      this.handleConnectionLost('KMS iframe reloaded');
+    }
+  };
+
+  /**
+   * Schedule the next heartbeat ping
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    if (this.heartbeatInterval <= 0) {
+      return;
+    }
+    this.heartbeatTimer = setTimeout(() => this.sendHeartbeat(), this.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer !== null) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.heartbeatNonce = null;
+  }
+
+  /**
+   * Ping the enclave; without a matching `kms:pong` in time the iframe is lost.
+   * The enclave's worker answers, so a worker stuck in a handler counts as lost.
+   */
+  private sendHeartbeat(): void {
+    const nonce = crypto.randomUUID();
+    this.heartbeatNonce = nonce;
+    this.heartbeatTimer = setTimeout(() => this.handleConnectionLost('no heartbeat reply'), this.heartbeatTimeout);
+    this.port?.postMessage({ type: 'kms:ping', nonce });
+  }
+
+  /**
+   * The iframe reloaded, stopped answering, or its worker crashed.
+   *
+   * Requests their policy marks idempotent (see isReplaySafe) stay
+   * pending and are replayed once a new iframe is connected. The rest are
+   * failed now with CONNECTION_LOST: the enclave may or may not have applied
+   * them, so resending could apply them twice.
    *
-   * @param event - Message event
+   * @param reason - Logged and carried in the error messages
+   */
+  private handleConnectionLost(reason: string): void {
+    if (!this.isReady) {
+      return; // Already recovering
+    }
+    console.warn(`[KMS User] Connection lost (${reason}); reconnecting`);
+    this.isReady = false;
+    this.stopHeartbeat();
+
+    for (const [id, pending] of this.pendingRequests) {
+      if (isReplaySafe(pending.request.method)) {
+        continue;
+      }
+      clearTimeout(pending.timeoutId as number);
+      this.pendingRequests.delete(id);
+      pending.reject(
+        new KMSError(
+          'CONNECTION_LOST',
+          `KMS connection lost during ${pending.request.method} (${reason}); it may or may not have taken effect`
+        )
+      );
+    }
+
+    this.reconnecting = this.reconnect(reason).finally(() => {
+      this.reconnecting = null;
+    });
+  }
+
+  /**
+   * Re-create the iframe with exponential backoff, then replay what is still
+   * pending. After `maxReconnectAttempts` failures the remaining requests are
+   * rejected and the KMSUser is left uninitialized until the next init().
    */
-  private handleMessage(event: MessageEvent): void {
-    // Validate origin
-    if (event.origin !== this.kmsOrigin) {
+  private async reconnect(reason: string): Promise<void> {
+    const epoch = this.epoch;
+
+    for (let attempt = 1; attempt <= this.maxReconnectAttempts; attempt++) {
+      this.closeFrame();
+      if (attempt > 1) {
+        const delay = Math.min(1000 * 2 ** (attempt - 2), 30000);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+      if (epoch !== this.epoch) {
+        return; // terminate() was called
+      }
+
+      try {
+        await this.openFrame();
+      } catch (err: unknown) {
+        console.warn(`[KMS User] Reconnect attempt ${attempt} failed:`, err);
+        continue;
+      }
+      if (epoch !== this.epoch) {
+        this.closeFrame();
+        return;
+      }
+
+      for (const pending of this.pendingRequests.values()) {
+        this.port!.postMessage(pending.request);
+      }
+      this.startHeartbeat();
       return;
     }
 
-    // Handle ready signal (already handled in waitForReady)
-    const data = event.data as { type?: string };
-    if (data?.type === 'kms:ready') {
+    if (epoch !== this.epoch) {
       return;
     }
+    for (const pending of this.pendingRequests.values()) {
+      clearTimeout(pending.timeoutId as number);
+      pending.reject(
+        new KMSError('CONNECTION_LOST', `KMS connection lost (${reason}); ${pending.request.method} was not completed`)
+      );
+    }
+    this.pendingRequests.clear();
+    this.cleanup();
+    this.lostReason = reason;
+  }
+
+  // ========================================================================
+  // Enclave Events
+  // ========================================================================
+
+  /**
+   * Subscribe to events the enclave pushes, instead of polling for them:
+   *
+   * - `lease-expiring`: a lease is within a day of `exp` (extend it now)
+   * - `lease-expired`: a lease reached `exp` or was deleted (e.g. its VAPID key retired)
+   * - `session-expired`: a messaging session idled out or hit its cap (openMessaging again)
+   * - `prekeys-low`: one-time prekeys ran low and were replenished (publish the delta)
+   * - `vapid-rotated`: a new current VAPID key (re-subscribe push)
+   * - `audit-appended`: an entry was added to the audit chain
+   *
+   * Listeners survive terminate() and a later init(). Events raised while no
+   * KMSUser is connected are not replayed.
+   *
+   * @param type - Event type
+   * @param listener - Called with each event of that type
+   * @returns Unsubscribe function
+   *
+   * @example
+   * ```typescript
+   * const stop = kmsUser.on('lease-expiring', ({ leaseId }) => {
+   *   void kmsUser.extendLeases([leaseId], userId);
+   * });
+   * ```
+   */
+  on<T extends KMSEventType>(type: T, listener: KMSEventListener<T>): () => void {
+    let listeners = this.eventListeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.eventListeners.set(type, listeners);
+    }
+    listeners.add(listener as (event: KMSEvent) => void);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Remove a listener added with {@link on}
+   *
+   * @param type - Event type
+   * @param listener - The listener passed to on()
+   */
+  off<T extends KMSEventType>(type: T, listener: KMSEventListener<T>): void {
+    this.eventListeners.get(type)?.delete(listener as (event: KMSEvent) => void);
+  }
+
+  /**
+   * Deliver an enclave event to its listeners. A throwing listener is logged
+   * and does not stop the others.
+   */
+  private dispatchEvent(event: KMSEvent): void {
+    for (const listener of this.eventListeners.get(event.type) ?? []) {
+      try {
+        listener(event);
+      } catch (err: unknown) {
+        console.error(`[KMS User] ${event.type} listener failed:`, err);
+      }
+    }
+  }
+
+  // ========================================================================
+  // RPC Communication
+  // ========================================================================
+
+  /**
+   * Handle messages from KMS iframe
+   *
+   * Only called for messages on the handshake port, so there is no origin to
+   * check: nothing else holds the other end.
+   *
+   * @param message - Message data
+   */
+  private handleMessage(message: unknown): void {
+    const data = message as { type?: string };
 
     // Handle show-iframe request (from unlock modal)
     if (data?.type === 'kms:show-iframe') {
@@ -344,8 +897,28 @@ export class KMSUser {
       return;
     }
 
+    // Handle heartbeat reply
+    if (data?.type === 'kms:pong') {
+      if ((message as { nonce?: string }).nonce === this.heartbeatNonce) {
+        this.startHeartbeat();
+      }
+      return;
+    }
+
+    // Handle worker crash (the iframe is alive but its enclave is not)
+    if (data?.type === 'kms:worker-error') {
+      this.handleConnectionLost(`KMS worker failed: ${(message as { message?: string }).message ?? 'unknown error'}`);
+      return;
+    }
+
+    // Handle enclave event (see on())
+    if (data?.type === 'kms:event') {
+      this.dispatchEvent((message as { event: KMSEvent }).event);
+      return;
+    }
+
     // Handle RPC response
-    const response = event.data as RPCResponse;
+    const response = message as RPCResponse;
     if (!response.id) {
       console.warn('[KMS User] Received message without ID:', response);
       return;
@@ -363,11 +936,7 @@ export class KMSUser {
 
     // Resolve or reject
     if ('error' in response && response.error) {
-      // Handle both string and object error formats
-      const errorMsg = typeof response.error === 'string'
-        ? response.error
-        : response.error.message || JSON.stringify(response.error);
-      pending.reject(new Error(errorMsg));
+      pending.reject(fromRPCError(response.error));
     } else {
       pending.resolve(response.result);
     }
@@ -376,6 +945,10 @@ export class KMSUser {
   /**
    * Send RPC request to KMS iframe
    *
+   * Waits out a reconnect in progress. Unless given explicitly, the timeout
+   * is `methodTimeouts[method]`, else `ceremonyTimeout` for methods that may
+   * wait on the user, else `defaultTimeout`.
+   *
    * @param method - RPC method
    * @param params - RPC parameters
    * @param timeout - Optional timeout override
@@ -386,40 +959,48 @@ export class KMSUser {
     params: unknown,
     timeout?: number
   ): Promise<T> {
+    if (this.reconnecting) {
+      await this.reconnecting;
+    }
+
     if (!this.isInitialized || !this.isReady) {
+      if (this.lostReason !== null) {
+        throw new KMSError('CONNECTION_LOST', `KMS connection lost (${this.lostReason}); call init() to reconnect`);
+      }
       throw new Error('KMS not initialized. Call init() first.');
     }
 
-    if (!this.iframe?.contentWindow) {
-      throw new Error('KMS iframe not available');
+    if (!this.port) {
+      throw new Error('KMS channel not available');
     }
 
     const requestId = crypto.randomUUID();
-    const requestTimeout = timeout ?? this.defaultTimeout;
+    const requestTimeout =
+      timeout ?? this.methodTimeouts[method] ?? (awaitsUser(method) ? this.ceremonyTimeout : this.defaultTimeout);
 
     return new Promise<T>((resolve, reject) => {
       // Setup timeout
       const timeoutId = setTimeout(() => {
         this.pendingRequests.delete(requestId);
-        reject(new Error(`Request timeout: ${method} (${requestTimeout}ms)`));
+        reject(new KMSError('TIMEOUT', `Request timeout: ${method} (${requestTimeout}ms)`));
       }, requestTimeout);
 
+      const request: RPCRequest = {
+        id: requestId,
+        method,
+        params,
+      };
+
       // Store pending request
       this.pendingRequests.set(requestId, {
         resolve: resolve as (result: unknown) => void,
         reject,
         timeoutId,
-        method,
+        request,
       });
 
       // Send request
-      const request: RPCRequest = {
-        id: requestId,
-        method,
-        params,
-      };
-
-      this.iframe!.contentWindow!.postMessage(request, this.kmsOrigin);
+      this.port!.postMessage(request);
     });
   }
 
@@ -431,11 +1012,14 @@ export class KMSUser {
    * Setup KMS with passphrase authentication.
    *
    * Creates the Master Secret (if first enrollment) and generates initial VAPID keypair.
-   * The passphrase is hashed using PBKDF2 with calibrated iterations (150-300ms target).
+   * The passphrase is hashed with Argon2id, calibrated to the device for a
+   * 150-300ms target but never below 19 MiB and 2 passes. The floor usually
+   * wins: it takes around half a second on a laptop, longer on phones.
    *
    * **Security Notes:**
    * - Passphrase must be at least 8 characters (recommended: 12+ characters)
-   * - PBKDF2 iterations are calibrated on first call for device performance
+   * - Argon2id memory and passes are calibrated per device; enrollments made
+   *   with PBKDF2 by earlier versions are upgraded on their next unlock
    * - Master Secret is randomly generated (32 bytes) and encrypted with passphrase-derived KEK
    *
    * @category Setup Operations
@@ -447,6 +1031,7 @@ export class KMSUser {
    *
    * @throws {Error} Passphrase must be at least 8 characters
    * @throws {Error} KMS not initialized (call init() first)
+   * @throws {Error} User already set up (add methods with addEnrollment)
    * @throws {Error} Request timeout (>10s)
    * @throws {Error} IndexedDB access denied
    *
@@ -506,6 +1091,7 @@ export class KMSUser {
    * @throws {Error} PRF extension not supported or failed
    * @throws {Error} User cancelled WebAuthn ceremony
    * @throws {Error} KMS not initialized
+   * @throws {Error} User already set up (add methods with addEnrollment)
    *
    * @example
    * ```typescript
@@ -583,11 +1169,13 @@ export class KMSUser {
       }
 
       // Send to KMS
+      // The enclave stores appSalt so later unlocks evaluate PRF with the same salt
       const result = await this.sendRequest<SetupResult>('setupPasskeyPRF', {
         userId: config.userId,
         credentialId: credential.rawId,
         prfOutput: prfOutput,
         rpId: config.rpId,
+        appSalt,
       });
 
       // Store appSalt for future unlock operations
@@ -636,6 +1224,7 @@ export class KMSUser {
    * @throws {Error} WebAuthn not supported
    * @throws {Error} User cancelled WebAuthn ceremony
    * @throws {Error} KMS not initialized
+   * @throws {Error} User already set up (add methods with addEnrollment)
    *
    * @example
    * ```typescript
@@ -1017,12 +1606,12 @@ export class KMSUser {
    *   console.log(`Lease ${lease.leaseId}:`, result.valid ? 'VALID' : 'INVALID');
    * }
    *
-   * // Push subscription lost - must re-register
-   * const { subscription } = await kmsUser.getPushSubscription();
-   * console.log('Subscription:', subscription);  // null
+   * // Push subscriptions lost - must re-register
+   * const { subscriptions } = await kmsUser.listPushSubscriptions('user@example.com');
+   * console.log('Subscriptions:', subscriptions);  // []
    *
    * // Re-subscribe to push
-   * await kmsUser.setPushSubscription(newSubscription);
+   * await kmsUser.setPushSubscription('user@example.com', newSubscription);
    *
    * // Create new lease with new key
    * await kmsUser.createLease({ userId: 'user@example.com', subs: [...], ttlHours: 12 });
@@ -1031,6 +1620,7 @@ export class KMSUser {
    * @see {@link verifyLease} to check which leases are now invalid
    * @see {@link getUserLeases} to get all leases for cleanup
    * @see {@link setPushSubscription} to re-register push subscription
+   * @see {@link rotateVAPID} for planned rotation without invalidating leases
    */
   async regenerateVAPID(params: {
     userId: string;
@@ -1058,44 +1648,155 @@ export class KMSUser {
   }
 
   /**
-   * Get public key for a specific VAPID key by key ID.
+   * Rotate the VAPID key with an overlapping grace period.
    *
-   * Retrieves the public key portion of a VAPID keypair given its key ID (kid).
-   * The public key is returned in raw format (65 bytes, uncompressed P-256 point)
-   * encoded as base64url, suitable for use with PushManager.subscribe().
+   * Generates a new VAPID key that becomes current, while the previous key
+   * stays usable until `retireAt`. Unlike {@link regenerateVAPID}, nothing is
+   * invalidated immediately:
+   * - New leases are created under the new key
+   * - Existing leases keep issuing JWTs under their pinned kid until `retireAt`
+   *   (auto-extension is capped at `retireAt`)
+   * - The old key keeps its push subscription; the new key starts without one
+   * - When `retireAt` passes, the old key and its remaining leases are expired
+   *   (audit-logged), unless {@link retireVAPIDKey} retired it earlier
    *
-   * **Note:** Most applications should use `getVAPIDPublicKey()` instead, which
-   * automatically retrieves the current VAPID key without needing to know the kid.
+   * **Security:** Credentials are ALWAYS collected in KMS iframe.
    *
    * @category VAPID Key Management
    *
-   * @param kid - Key ID (JWK thumbprint) of the VAPID key
+   * @param params - Rotation parameters
+   * @param params.userId - User ID for authentication (REQUIRED for iframe modal)
+   * @param params.graceHours - Grace period for the old key (default: 720, min: 1, max: 720)
    *
-   * @returns Promise resolving to public key
-   * @returns {object} result
-   * @returns {string} result.publicKey - Public key (base64url-encoded, 65 bytes decoded)
+   * @returns Promise resolving to the new key and the keys now retiring
    *
-   * @throws {Error} KMS not initialized
-   * @throws {Error} Key not found
+   * @throws {Error} Authentication cancelled by user
+   * @throws {Error} graceHours is outside 1 to 720 (30 days)
    *
    * @example
    * ```typescript
-   * // Get public key by kid (if you know the kid)
-   * const { publicKey } = await kmsUser.getPublicKey('kid-abc-123');
-   * console.log('Public Key:', publicKey);
-   *
-   * // Use with PushManager (convert to Uint8Array)
-   * const pubKeyBytes = base64urlToUint8Array(publicKey);
-   * const subscription = await registration.pushManager.subscribe({
-   *   userVisibleOnly: true,
-   *   applicationServerKey: pubKeyBytes,
+   * const { kid, publicKey, retiring } = await kmsUser.rotateVAPID({
+   *   userId: 'user@example.com',
+   *   graceHours: 168, // one week to re-subscribe devices
    * });
+   *
+   * // Re-subscribe each device with the new key, then register it under the same eid
+   * await kmsUser.setPushSubscription('user@example.com', newSubscription);
    * ```
    *
-   * @see {@link getVAPIDPublicKey} to get current VAPID key without knowing kid
+   * @see {@link retireVAPIDKey} to end a grace period early
+   * @see {@link listVAPIDKeys} to inspect the key ring
    */
-  async getPublicKey(kid: string): Promise<{ publicKey: string }> {
-    return this.sendRequest<{ publicKey: string }>('getPublicKey', { kid });
+  async rotateVAPID(params: {
+    userId: string;
+    graceHours?: number;
+  }): Promise<VAPIDRotationResult> {
+    // ALWAYS show iframe for authentication
+    if (this.iframe) {
+      this.iframe.style.display = 'block';
+    }
+
+    try {
+      return await this.sendRequest<VAPIDRotationResult>('rotateVAPID', params);
+    } finally {
+      if (this.iframe) {
+        this.iframe.style.display = 'none';
+      }
+    }
+  }
+
+  /**
+   * Retire a rotated-out VAPID key before its grace period ends.
+   *
+   * Leases still pinned to the key are either migrated to the current key
+   * (`migrateLeases: true`, only once their devices are re-subscribed under the
+   * new key) or expired. Each migrated or expired lease is audit-logged. The
+   * current key cannot be retired; rotate first.
+   *
+   * **Security:** Credentials are ALWAYS collected in KMS iframe.
+   *
+   * @category VAPID Key Management
+   *
+   * @param params - Retirement parameters
+   * @param params.userId - User ID for authentication (REQUIRED for iframe modal)
+   * @param params.kid - Key ID of the retiring key
+   * @param params.migrateLeases - Re-pin live leases to the current key instead of expiring them (default: false)
+   *
+   * @returns Promise resolving to the migrated and expired lease IDs
+   *
+   * @throws {Error} Authentication cancelled by user
+   * @throws {Error} No VAPID key found with kid
+   * @throws {Error} Cannot retire the current VAPID key
+   *
+   * @example
+   * ```typescript
+   * const { migrated, expired } = await kmsUser.retireVAPIDKey({
+   *   userId: 'user@example.com',
+   *   kid: oldKid,
+   *   migrateLeases: true,
+   * });
+   * ```
+   *
+   * @see {@link rotateVAPID} to start a rotation
+   */
+  async retireVAPIDKey(params: {
+    userId: string;
+    kid: string;
+    migrateLeases?: boolean;
+  }): Promise<VAPIDRetirementResult> {
+    // ALWAYS show iframe for authentication
+    if (this.iframe) {
+      this.iframe.style.display = 'block';
+    }
+
+    try {
+      return await this.sendRequest<VAPIDRetirementResult>('retireVAPIDKey', params);
+    } finally {
+      if (this.iframe) {
+        this.iframe.style.display = 'none';
+      }
+    }
+  }
+
+  /**
+   * Get public key for a specific VAPID key by key ID.
+   *
+   * Retrieves the public key portion of a VAPID keypair given its key ID (kid).
+   * The public key is returned in raw format (65 bytes, uncompressed P-256 point)
+   * encoded as base64url, suitable for use with PushManager.subscribe().
+   *
+   * **Note:** Most applications should use `getVAPIDPublicKey()` instead, which
+   * automatically retrieves the current VAPID key without needing to know the kid.
+   *
+   * @category VAPID Key Management
+   *
+   * @param kid - Key ID (JWK thumbprint) of the VAPID key
+   *
+   * @returns Promise resolving to public key
+   * @returns {object} result
+   * @returns {string} result.publicKey - Public key (base64url-encoded, 65 bytes decoded)
+   *
+   * @throws {Error} KMS not initialized
+   * @throws {Error} Key not found
+   *
+   * @example
+   * ```typescript
+   * // Get public key by kid (if you know the kid)
+   * const { publicKey } = await kmsUser.getPublicKey('kid-abc-123');
+   * console.log('Public Key:', publicKey);
+   *
+   * // Use with PushManager (convert to Uint8Array)
+   * const pubKeyBytes = base64urlToUint8Array(publicKey);
+   * const subscription = await registration.pushManager.subscribe({
+   *   userVisibleOnly: true,
+   *   applicationServerKey: pubKeyBytes,
+   * });
+   * ```
+   *
+   * @see {@link getVAPIDPublicKey} to get current VAPID key without knowing kid
+   */
+  async getPublicKey(kid: string): Promise<{ publicKey: string }> {
+    return this.sendRequest<{ publicKey: string }>('getPublicKey', { kid });
   }
 
   /**
@@ -1143,7 +1844,7 @@ export class KMSUser {
    * });
    *
    * // Store subscription in KMS
-   * await kmsUser.setPushSubscription({
+   * await kmsUser.setPushSubscription('user@example.com', {
    *   endpoint: subscription.endpoint,
    *   expirationTime: subscription.expirationTime,
    *   keys: {
@@ -1169,6 +1870,32 @@ export class KMSUser {
     };
   }
 
+  /**
+   * List the VAPID key ring, newest first.
+   *
+   * Outside a rotation this holds a single `current` key. After
+   * {@link rotateVAPID} it also holds `retiring` keys with their `retireAt`,
+   * which tells a push backend which devices still need re-subscribing and by
+   * when.
+   *
+   * @category VAPID Key Management
+   *
+   * @returns Promise resolving to the key ring
+   *
+   * @throws {Error} KMS not initialized
+   *
+   * @example
+   * ```typescript
+   * const { keys } = await kmsUser.listVAPIDKeys();
+   * for (const key of keys.filter((k) => k.status === 'retiring')) {
+   *   console.log(`${key.kid} retires at`, new Date(key.retireAt!));
+   * }
+   * ```
+   */
+  async listVAPIDKeys(): Promise<{ keys: VAPIDKeyInfo[] }> {
+    return this.sendRequest<{ keys: VAPIDKeyInfo[] }>('listVAPIDKeys', {});
+  }
+
   // ========================================================================
   // VAPID Lease Operations
   // ========================================================================
@@ -1183,14 +1910,18 @@ export class KMSUser {
    * **Authentication:** This operation triggers iframe modal for user authentication.
    * Credentials are collected inside the KMS iframe and NEVER exposed to parent PWA.
    *
-   * **Push Subscription:** The lease automatically uses the push subscription stored on
-   * the VAPID key. Call `setPushSubscription()` before creating leases if you need
-   * push notification support.
+   * **Push Subscriptions:** The lease issues JWTs for any of the user's push subscriptions
+   * on its VAPID key (see `issueVAPIDJWT`'s `eid`). Call `setPushSubscription()` for each
+   * device if you need push notification support.
+   *
+   * **Quotas:** Each lease has rate limits enforced by the worker. Defaults,
+   * each overridable through `params.quotas`:
+   * - 100 tokens per hour (sliding window)
+   * - 10 sends per minute, burst 20 (token bucket)
+   * - 5 issuance requests per minute per endpoint ID (a batch counts once)
    *
-   * **Quotas:** Each lease has rate limits enforced by the worker:
-   * - 100 tokens per hour
-   * - 10 sends per minute (burst: 20)
-   * - 5 sends per minute per endpoint ID
+   * Issuance over a quota rejects with {@link QuotaExceededError}, whose
+   * `retryAfterMs` says when the same request will be admitted.
    *
    * @category VAPID Lease Operations
    *
@@ -1198,6 +1929,7 @@ export class KMSUser {
    * @param params.userId - User ID for authentication (REQUIRED for iframe modal)
    * @param params.subs - Array of push subscription endpoints to authorize
    * @param params.ttlHours - Lease time-to-live in hours (max 720 hours / 30 days)
+   * @param params.quotas - Optional per-dimension quota overrides (positive integers)
    *
    * @returns Promise resolving to lease information
    * @returns {LeaseResult} result
@@ -1216,7 +1948,7 @@ export class KMSUser {
    * @example
    * ```typescript
    * // Ensure push subscription is set
-   * await kmsUser.setPushSubscription(subscription);
+   * await kmsUser.setPushSubscription('user@example.com', subscription);
    *
    * // Create lease (triggers auth modal)
    * const lease = await kmsUser.createLease({
@@ -1251,6 +1983,7 @@ export class KMSUser {
     userId: string;
     subs: Array<{ url: string; aud: string; eid: string }>;
     ttlHours: number;
+    quotas?: Partial<QuotaState>;
   }): Promise<LeaseResult> {
     // ALWAYS show iframe for authentication
     // Credentials are collected in iframe, never passed from parent
@@ -1378,11 +2111,10 @@ export class KMSUser {
    *
    * @param params - JWT issuance parameters
    * @param params.leaseId - Lease ID for authorization
-   * @param params.endpoint - Push endpoint details
-   * @param params.endpoint.url - Push service URL (e.g., FCM endpoint)
-   * @param params.endpoint.aud - Audience (push service origin, e.g., "https://fcm.googleapis.com")
-   * @param params.endpoint.eid - Endpoint identifier for quota tracking
-   * @param params.kid - Optional VAPID key ID (auto-detected if not provided)
+   * @param params.eid - Endpoint to target (see {@link setPushSubscription}). Optional when
+   *   the user has a single subscription on the lease's VAPID key. `aud` comes from that
+   *   endpoint, and `sendsPerMinutePerEid` is counted per endpoint.
+   * @param params.kid - Optional VAPID key ID (ignored, the lease pins its own key)
    *
    * @returns Promise resolving to JWT result
    * @returns {JWTResult} result
@@ -1395,18 +2127,17 @@ export class KMSUser {
    * @throws {Error} Cannot issue JWT: lease not-found
    * @throws {Error} KMS not initialized
    * @throws {Error} Lease not found in worker memory
+   * @throws {Error} No push subscription for endpoint (NOT_FOUND), or none at all (NOT_SETUP)
+   * @throws {Error} eid required: user has several push subscriptions (VALIDATION)
+   * @throws {Error} Push subscription is bound to another VAPID key (WRONG_KEY)
    * @throws {Error} Quota exceeded (rate limits)
    *
    * @example
    * ```typescript
-   * // Issue a single JWT using a lease
+   * // Issue a single JWT using a lease, for the user's phone
    * const jwt = await kmsUser.issueVAPIDJWT({
    *   leaseId: 'lease-abc-123',
-   *   endpoint: {
-   *     url: 'https://fcm.googleapis.com/fcm/send/abc123',
-   *     aud: 'https://fcm.googleapis.com',
-   *     eid: 'device-1',
-   *   },
+   *   eid: 'phone',
    * });
    *
    * console.log('JWT:', jwt.jwt);
@@ -1422,14 +2153,14 @@ export class KMSUser {
    */
   async issueVAPIDJWT(params: {
     leaseId: string;
-    endpoint: { url: string; aud: string; eid: string };
-    kid?: string; // Optional - auto-detected if not provided (per V2 spec)
+    eid?: string;
+    kid?: string;
   }): Promise<JWTResult> {
     // Auto-verify lease before issuing JWT (fail-fast)
     const verification = await this.verifyLease(params.leaseId);
 
     if (!verification.valid) {
-      throw new Error(`Cannot issue JWT: lease ${verification.reason || 'invalid'}`);
+      throw leaseError(verification.reason, `Cannot issue JWT: lease ${verification.reason || 'invalid'}`);
     }
 
     return this.sendRequest<JWTResult>('issueVAPIDJWT', params);
@@ -1457,12 +2188,10 @@ export class KMSUser {
    *
    * @param params - Batch issuance parameters
    * @param params.leaseId - Lease ID for authorization
-   * @param params.endpoint - Push endpoint details
-   * @param params.endpoint.url - Push service URL
-   * @param params.endpoint.aud - Audience (push service origin)
-   * @param params.endpoint.eid - Endpoint identifier for quota tracking
+   * @param params.eid - Endpoint to target (optional when the user has a single subscription
+   *   on the lease's VAPID key); the whole batch is charged to that endpoint
    * @param params.count - Number of JWTs to issue (1-10, hard limit enforced by worker)
-   * @param params.kid - Optional VAPID key ID (auto-detected if not provided)
+   * @param params.kid - Optional VAPID key ID (ignored, the lease pins its own key)
    *
    * @returns Promise resolving to array of JWT results with staggered expirations
    * @returns {JWTResult[]} results - Array of JWT objects
@@ -1479,11 +2208,7 @@ export class KMSUser {
    * // Issue 5 staggered JWTs for JWT rotation
    * const jwts = await kmsUser.issueVAPIDJWTs({
    *   leaseId: 'lease-abc-123',
-   *   endpoint: {
-   *     url: 'https://fcm.googleapis.com/fcm/send/abc123',
-   *     aud: 'https://fcm.googleapis.com',
-   *     eid: 'device-1',
-   *   },
+   *   eid: 'laptop-chrome',
    *   count: 5,
    * });
    *
@@ -1502,7 +2227,7 @@ export class KMSUser {
    */
   async issueVAPIDJWTs(params: {
     leaseId: string;
-    endpoint: { url: string; aud: string; eid: string };
+    eid?: string;
     count: number;
     kid?: string;
   }): Promise<JWTResult[]> {
@@ -1510,7 +2235,7 @@ export class KMSUser {
     const verification = await this.verifyLease(params.leaseId);
 
     if (!verification.valid) {
-      throw new Error(`Cannot issue JWTs: lease ${verification.reason || 'invalid'}`);
+      throw leaseError(verification.reason, `Cannot issue JWTs: lease ${verification.reason || 'invalid'}`);
     }
 
     return this.sendRequest<JWTResult[]>('issueVAPIDJWTs', params);
@@ -1677,6 +2402,37 @@ export class KMSUser {
     return this.sendRequest<{ entries: AuditEntryV2[] }>('getAuditLog', {});
   }
 
+  /**
+   * Export the audit log as a self-contained, signed bundle for offline review.
+   *
+   * The bundle holds the entries in range, the keys and delegation certs
+   * needed to check them, and a manifest signed by the audit key (UAK). It is
+   * plain JSON: reviewers verify it with `verifyAuditExport` from
+   * `audit-verify.ts` (runs in Node) or `scripts/verify-audit-log.ts`, ideally
+   * pinning the UAK public key from {@link getAuditPublicKey}.
+   *
+   * @category Status and Query Operations
+   *
+   * @param credentials - Fresh auth (the UAK signs the export)
+   * @param filter - Optional inclusive seqNum and/or time (ms) range; a time
+   *   range exports the run of entries from the first to the last inside it
+   * @returns The export bundle
+   *
+   * @example
+   * ```typescript
+   * const bundle = await kmsUser.exportAuditLog(credentials, {
+   *   fromTime: Date.parse('2026-01-01'),
+   *   toTime: Date.parse('2026-04-01'),
+   * });
+   * download('audit.json', JSON.stringify(bundle));
+   * ```
+   *
+   * @see {@link getAuditLog} for the raw entries
+   */
+  async exportAuditLog(credentials: AuthCredentials, filter: AuditLogFilter = {}): Promise<AuditLogExport> {
+    return this.sendRequest<AuditLogExport>('exportAuditLog', { credentials, ...filter });
+  }
+
   /**
    * Get the audit log's Ed25519 public key.
    *
@@ -1785,6 +2541,7 @@ export class KMSUser {
    * @returns {boolean} result.valid - Whether lease is valid
    * @returns {string} result.kid - Key ID from lease
    * @returns {string} [result.reason] - Reason if invalid ("expired", "wrong-key", "not-found")
+   * @returns {number} [result.retireAt] - Set when the lease's key is being rotated out; the lease stops working then
    *
    * @throws {Error} KMS not initialized
    * @throws {Error} Request timeout
@@ -1841,22 +2598,28 @@ export class KMSUser {
    *
    * This operation cannot be undone. Use for testing, debugging, or complete account reset.
    *
-   * **Security:** No authentication required - this is a nuclear option for complete reset.
+   * **Security:** The user unlocks and then confirms the wipe in a top-level
+   * kms.ats.run popup; the parent page never sees the credentials and cannot
+   * confirm on the user's behalf. The returned audit entry is the final,
+   * KIAK-signed record of the old chain — keep it if you need proof of the reset.
    *
    * @category Management Operations
    *
+   * @param userId - User whose credentials authorize the reset
    * @returns Promise resolving to success status
    * @returns {object} result
    * @returns {boolean} result.success - Always true if no error
+   * @returns {AuditEntryV2} result.auditEntry - Final audit entry written before the wipe
    *
    * @throws {Error} KMS not initialized
-   * @throws {Error} IndexedDB access denied
+   * @throws {ValidationError} Without a userId (the old, unauthenticated `resetKMS()` form)
+   * @throws {Error} Unlock failed, or the user cancelled the confirmation
    *
    * @example
    * ```typescript
    * // ⚠️ WARNING: This deletes everything!
-   * const result = await kmsUser.resetKMS();
-   * console.log('KMS reset complete - all data deleted');
+   * const { auditEntry } = await kmsUser.resetKMS('user@example.com');
+   * console.log('KMS reset complete - final entry', auditEntry.seqNum);
    *
    * // After reset, user must setup again
    * await kmsUser.setupPassphrase('user@example.com', 'new-passphrase');
@@ -1864,8 +2627,91 @@ export class KMSUser {
    *
    * @see {@link setupPassphrase} to setup after reset
    */
-  async resetKMS(): Promise<{ success: boolean }> {
-    return this.sendRequest<{ success: boolean }>('resetKMS', {});
+  async resetKMS(userId: string): Promise<{ success: boolean; auditEntry?: AuditEntryV2 }> {
+    // Breaking change from the unauthenticated resetKMS(): fail here with a
+    // pointer to the new form rather than deep inside the popup flow.
+    if (typeof userId !== 'string' || userId.length === 0) {
+      throw new ValidationError('resetKMS(userId) needs the user whose credentials authorize the reset');
+    }
+    // Unlock + confirmation happen in the top-level popup (like setupAccountRoot),
+    // so the iframe stays hidden.
+    if (this.iframe) {
+      this.iframe.style.display = 'none';
+    }
+    return this.sendRequest<{ success: boolean; auditEntry?: AuditEntryV2 }>('resetKMS', { userId });
+  }
+
+  /**
+   * Export the whole KMS as an encrypted backup archive.
+   *
+   * The user unlocks and confirms the export in the KMS popup. The archive holds
+   * every key, lease, contact and audit entry, encrypted under a key derived
+   * from the Master Secret; it opens with this account's passphrase or passkey
+   * (PRF) — a passkey-gate-only account cannot export. Store it as an opaque
+   * string.
+   *
+   * @category Management Operations
+   *
+   * @param userId - Account to back up (must be the only account in this KMS)
+   * @returns {object} result
+   * @returns {string} result.backup - The archive (JSON text)
+   * @returns {AuditEntryV2} result.auditEntry - The `export-backup` audit entry
+   *
+   * @throws {Error} Unlock failed, or the user cancelled the confirmation
+   *
+   * @example
+   * ```typescript
+   * const { backup } = await kmsUser.exportBackup('user@example.com');
+   * download(new Blob([backup], { type: 'application/json' }));
+   * ```
+   *
+   * @see {@link importBackup} to restore it
+   */
+  async exportBackup(userId: string): Promise<{ backup: string; auditEntry: AuditEntryV2 }> {
+    // Unlock + confirmation happen in the top-level popup, like resetKMS.
+    if (this.iframe) {
+      this.iframe.style.display = 'none';
+    }
+    return this.sendRequest<{ backup: string; auditEntry: AuditEntryV2 }>('exportBackup', { userId });
+  }
+
+  /**
+   * Restore a backup archive from {@link exportBackup}, replacing everything in
+   * this KMS.
+   *
+   * The user unlocks with the credentials the archive was exported under, then
+   * confirms in the KMS popup. The archive's audit chain, key AADs and wrapped
+   * data are verified before anything is replaced. Importing into a KMS that
+   * already holds the account also requires its current credentials, and an
+   * archive older than the local audit chain is refused, as is one whose chain
+   * does not continue the local one unless `options.overwrite` is set; a KMS
+   * holding another account must be reset first.
+   *
+   * @category Management Operations
+   *
+   * @param userId - Account the archive belongs to
+   * @param backup - The archive (JSON text)
+   * @param options.overwrite - Replace a local audit chain the archive does not continue
+   * @returns {object} result
+   * @returns {boolean} result.success - Always true if no error
+   * @returns {AuditEntryV2} result.auditEntry - The `import-backup` entry that continues the restored chain
+   *
+   * @throws {Error} Archive malformed, altered or from a newer KMS version
+   * @throws {Error} Unlock failed, downgrade or diverged chain refused, or the user cancelled the confirmation
+   */
+  async importBackup(
+    userId: string,
+    backup: string,
+    options: { overwrite?: boolean } = {}
+  ): Promise<{ success: boolean; auditEntry: AuditEntryV2 }> {
+    if (this.iframe) {
+      this.iframe.style.display = 'none';
+    }
+    return this.sendRequest<{ success: boolean; auditEntry: AuditEntryV2 }>('importBackup', {
+      userId,
+      backup,
+      ...(options.overwrite !== undefined && { overwrite: options.overwrite }),
+    });
   }
 
   /**
@@ -1922,19 +2768,111 @@ export class KMSUser {
     });
   }
 
+  /**
+   * Change the passphrase without changing the Master Secret.
+   *
+   * The KMS unlocks with the current passphrase and re-wraps the same Master
+   * Secret under the new one, with freshly calibrated KDF parameters. VAPID,
+   * audit and messaging keys, leases and other enrollment methods are
+   * unaffected. Works when the passphrase is the only enrollment.
+   *
+   * @category Management Operations
+   *
+   * @param userId - Account whose passphrase changes
+   * @param currentPassphrase - Current passphrase (fresh auth)
+   * @param newPassphrase - New passphrase (at least 8 characters)
+   * @returns {object} result
+   * @returns {boolean} result.success - Always true if no error
+   * @returns {string} result.algorithm - KDF of the new passphrase config (`'Argon2id'` by default)
+   * @returns {number} result.iterations - Argon2id passes or PBKDF2 iterations of the new config
+   *
+   * @throws {Error} Current passphrase is wrong
+   * @throws {Error} Passphrase must be at least 8 characters
+   *
+   * @example
+   * ```typescript
+   * await kmsUser.changePassphrase('user@example.com', 'old-passphrase', 'new-passphrase');
+   * ```
+   */
+  async changePassphrase(
+    userId: string,
+    currentPassphrase: string,
+    newPassphrase: string
+  ): Promise<{ success: boolean; algorithm: PassphraseKDFAlgorithm; iterations: number }> {
+    return this.sendRequest<{ success: boolean; algorithm: PassphraseKDFAlgorithm; iterations: number }>(
+      'changePassphrase',
+      {
+        newPassphrase,
+        credentials: { method: 'passphrase', passphrase: currentPassphrase, userId },
+      }
+    );
+  }
+
+  /**
+   * Replace the Master Secret with a fresh one.
+   *
+   * Every key that depends on the Master Secret is re-wrapped in a single
+   * transaction: each enrollment method gets the new Master Secret under its
+   * existing KEK (so all passphrases and passkeys keep working), VAPID keys,
+   * Signal state, contacts, invites and the account root move to the new keys,
+   * and existing leases keep issuing JWTs. The audit key is replaced; the
+   * rotation entry is signed by both the old and the new key, so the audit
+   * chain still verifies end to end.
+   *
+   * Passphrase and passkey-PRF enrollments can only be re-wrapped with their
+   * credential: pass one per enrollment, `credentials` first. Open messaging
+   * sessions are closed.
+   *
+   * @category Management Operations
+   *
+   * @param credentials - Fresh auth for the account
+   * @param additionalCredentials - Credentials for the account's other
+   *   passphrase / passkey-PRF enrollments
+   * @returns {object} result
+   * @returns {boolean} result.success - Always true if no error
+   * @returns {AuditEntryV2} result.auditEntry - The dual-signed rotation entry
+   * @returns {object} result.rewrapped - Counts of re-wrapped enrollments, keys, blobs and leases
+   *
+   * @throws {Error} A passphrase / passkey-PRF enrollment has no credential
+   * @throws {Error} This KMS also holds another account
+   *
+   * @example
+   * ```typescript
+   * // Account with a passphrase and a PRF passkey
+   * await kmsUser.rotateMasterSecret(
+   *   { method: 'passphrase', passphrase: 'my-passphrase', userId },
+   *   [{ method: 'passkey-prf', prfOutput, userId }]
+   * );
+   * ```
+   */
+  async rotateMasterSecret(
+    credentials: AuthCredentials,
+    additionalCredentials?: AuthCredentials[]
+  ): Promise<{
+    success: boolean;
+    auditEntry: AuditEntryV2;
+    rewrapped: { enrollments: number; keys: number; blobs: number; leases: number };
+  }> {
+    return this.sendRequest('rotateMasterSecret', {
+      credentials,
+      ...(additionalCredentials ? { additionalCredentials } : {}),
+    });
+  }
+
   // ============================================================================
   // Push Subscription Methods
   // ============================================================================
 
   /**
-   * Store or update Web Push subscription on VAPID key.
+   * Register or update the Web Push subscription of one of the user's endpoints.
    *
-   * The subscription is stored on the `WrappedKey` record in IndexedDB, establishing a 1:1
-   * relationship between VAPID key and push subscription. This allows leases and JWTs to
-   * automatically use the subscription data without passing it on every call.
+   * Subscriptions are keyed by (userId, `subscription.eid`): each device or browser registers
+   * under its own eid, so a laptop, phone and tablet keep separate subscriptions. Registering
+   * an eid again replaces that endpoint's subscription only. Leases then issue JWTs for any of
+   * these endpoints without the subscription being passed on every call.
    *
-   * **Storage Location:** The subscription is stored on the VAPID key's `subscription` field,
-   * NOT in lease records. All leases for a VAPID key use the same subscription (single source of truth).
+   * **VAPID key:** The subscription is bound to the current VAPID key (the `applicationServerKey`
+   * it was created with). After a rotation, re-register each endpoint to move it to the new key.
    *
    * **Security:** Endpoints are validated against a whitelist of known push services:
    * - Firebase Cloud Messaging (FCM)
@@ -1944,6 +2882,7 @@ export class KMSUser {
    *
    * @category Push Notifications
    *
+   * @param userId - User the endpoint belongs to
    * @param subscription - Push subscription object from PushManager.subscribe()
    * @param subscription.endpoint - Push service URL (must be HTTPS and whitelisted)
    * @param subscription.expirationTime - Subscription expiry timestamp (ms) or null
@@ -1975,7 +2914,7 @@ export class KMSUser {
    * });
    *
    * // Convert and store in KMS
-   * await kmsUser.setPushSubscription({
+   * await kmsUser.setPushSubscription('alice@example.com', {
    *   endpoint: pushSub.endpoint,
    *   expirationTime: pushSub.expirationTime,
    *   keys: {
@@ -1987,38 +2926,35 @@ export class KMSUser {
    * });
    * ```
    *
-   * @see {@link getPushSubscription} to retrieve subscription
+   * @see {@link listPushSubscriptions} to list the user's endpoints
    * @see {@link removePushSubscription} to delete subscription
    * @see {@link issueVAPIDJWT} uses subscription for JWT generation
    */
-  async setPushSubscription(subscription: StoredPushSubscription): Promise<{ success: boolean }> {
+  async setPushSubscription(userId: string, subscription: StoredPushSubscription): Promise<{ success: boolean }> {
     return this.sendRequest<{ success: boolean }>('setPushSubscription', {
+      userId,
       subscription,
     });
   }
 
   /**
-   * Remove the Web Push subscription from the VAPID key.
-   *
-   * Removes the subscription field from the VAPID key record. The VAPID key itself is **not**
-   * deleted - only the subscription field is removed. This operation is idempotent (calling
-   * when no subscription exists does not throw an error).
+   * Remove the Web Push subscription of one of the user's endpoints.
    *
-   * **Behavior:**
-   * - Subscription field deleted from VAPID key
-   * - VAPID key remains (can still sign JWTs if subscription not needed)
-   * - Existing leases remain valid but cannot issue JWTs until subscription is re-added
-   * - Idempotent: safe to call multiple times
+   * The user's other endpoints and the VAPID key are left alone. Leases keep working for the
+   * remaining endpoints; JWTs can no longer target this one until it is registered again.
+   * Idempotent: `removed` is false when no subscription was registered under `eid`.
    *
    * @category Push Notifications
    *
+   * @param userId - User the endpoint belongs to
+   * @param eid - Endpoint label the subscription was registered under
+   *
    * @returns Promise resolving to success status
    * @returns {object} result
    * @returns {boolean} result.success - Always true if no error thrown
+   * @returns {boolean} result.removed - Whether a subscription was removed
    *
    * @throws {Error} KMS not initialized (call init() first)
-   * @throws {Error} No VAPID key found
-   * @throws {Error} Multiple VAPID keys found (ambiguous which to update)
    *
    * @example
    * ```typescript
@@ -2029,70 +2965,79 @@ export class KMSUser {
    *   await subscription.unsubscribe();
    * }
    *
-   * // Remove subscription from KMS storage
-   * await kmsUser.removePushSubscription();
-   *
-   * // Verify removal
-   * const { subscription: stored } = await kmsUser.getPushSubscription();
-   * console.log('Subscription is now:', stored);  // null
+   * // Remove this device's subscription from KMS storage
+   * await kmsUser.removePushSubscription('alice@example.com', 'my-laptop-chrome');
    * ```
    *
    * @see {@link setPushSubscription} to store a new subscription
-   * @see {@link getPushSubscription} to check if subscription exists
-   * @see {@link regenerateVAPID} regenerates key (also loses subscription)
+   * @see {@link listPushSubscriptions} to list the remaining endpoints
+   * @see {@link regenerateVAPID} regenerates key (also loses subscriptions)
    */
-  async removePushSubscription(): Promise<{ success: boolean }> {
-    return this.sendRequest<{ success: boolean }>('removePushSubscription', {});
+  async removePushSubscription(userId: string, eid: string): Promise<{ success: boolean; removed: boolean }> {
+    return this.sendRequest<{ success: boolean; removed: boolean }>('removePushSubscription', { userId, eid });
   }
 
   /**
-   * Get the push subscription stored on the VAPID key.
-   *
-   * Returns the Web Push subscription currently associated with the VAPID key, or null if
-   * no subscription has been set. The subscription is stored on the VAPID key's `subscription`
-   * field (1:1 relationship).
+   * Get the push subscription of one of the user's endpoints.
    *
    * **Use Cases:**
-   * - Check if push notifications are configured before creating leases
-   * - Verify subscription hasn't expired
-   * - Display current subscription endpoint to user
-   * - Check subscription exists before issuing JWTs
+   * - Verify an endpoint's subscription hasn't expired
+   * - Check which VAPID key (`kid`) an endpoint is bound to after a rotation
    *
    * @category Push Notifications
    *
+   * @param userId - User the endpoint belongs to
+   * @param eid - Endpoint label the subscription was registered under
+   *
    * @returns Promise resolving to object containing subscription or null
    * @returns {object} result
-   * @returns {StoredPushSubscription | null} result.subscription - The stored subscription or null
+   * @returns {PushSubscriptionRecord | null} result.subscription - The stored subscription or null
    *
    * @throws {Error} KMS not initialized (call init() first)
-   * @throws {Error} No VAPID key found
-   * @throws {Error} Multiple VAPID keys found (ambiguous which to read from)
    *
    * @example
    * ```typescript
-   * // Check if subscription exists
-   * const { subscription } = await kmsUser.getPushSubscription();
-   *
-   * if (subscription) {
-   *   console.log('Push endpoint:', subscription.endpoint);
-   *   console.log('Endpoint ID:', subscription.eid);
+   * const { subscription } = await kmsUser.getPushSubscription('alice@example.com', 'my-laptop-chrome');
    *
-   *   // Check if expired
-   *   if (subscription.expirationTime && subscription.expirationTime < Date.now()) {
-   *     console.warn('Subscription expired, need to renew');
-   *   }
-   * } else {
-   *   console.log('No subscription configured');
-   *   // Need to call setPushSubscription()
+   * if (subscription?.expirationTime && subscription.expirationTime < Date.now()) {
+   *   console.warn('Subscription expired, need to renew');
    * }
    * ```
    *
+   * @see {@link listPushSubscriptions} to list all of the user's endpoints
    * @see {@link setPushSubscription} to store a subscription
-   * @see {@link removePushSubscription} to delete the subscription
-   * @see {@link createLease} requires subscription to be set first
    */
-  async getPushSubscription(): Promise<{ subscription: StoredPushSubscription | null }> {
-    return this.sendRequest<{ subscription: StoredPushSubscription | null }>('getPushSubscription', {});
+  async getPushSubscription(userId: string, eid: string): Promise<{ subscription: PushSubscriptionRecord | null }> {
+    return this.sendRequest<{ subscription: PushSubscriptionRecord | null }>('getPushSubscription', { userId, eid });
+  }
+
+  /**
+   * List the user's push subscriptions, oldest first.
+   *
+   * Each record carries the VAPID `kid` it is bound to: during a rotation, endpoints still on
+   * the retiring key are the ones to re-subscribe.
+   *
+   * @category Push Notifications
+   *
+   * @param userId - User whose endpoints to list
+   *
+   * @returns Promise resolving to the user's subscriptions (empty if none)
+   *
+   * @throws {Error} KMS not initialized (call init() first)
+   *
+   * @example
+   * ```typescript
+   * const { subscriptions } = await kmsUser.listPushSubscriptions('alice@example.com');
+   * for (const sub of subscriptions) {
+   *   await kmsUser.issueVAPIDJWT({ leaseId, eid: sub.eid });
+   * }
+   * ```
+   *
+   * @see {@link setPushSubscription} to add an endpoint
+   * @see {@link issueVAPIDJWT} to target one of them
+   */
+  async listPushSubscriptions(userId: string): Promise<{ subscriptions: PushSubscriptionRecord[] }> {
+    return this.sendRequest<{ subscriptions: PushSubscriptionRecord[] }>('listPushSubscriptions', { userId });
   }
 
   // ========================================================================
@@ -2237,7 +3182,8 @@ export class KMSUser {
   }
 
   /**
-   * Count a user's unconsumed one-time prekeys (for low-count top-up polling).
+   * Count a user's unconsumed one-time prekeys. The enclave replenishes them
+   * itself (see {@link maintainPrekeys}); this is for diagnostics.
    *
    * @category Messaging Operations
    */
@@ -2250,11 +3196,14 @@ export class KMSUser {
    * capability token to carry on subsequent message operations until `exp`
    * (8h absolute cap) or 15 minutes of inactivity, whichever comes first.
    *
+   * Opening also applies the prekey policy; when that changed anything the
+   * result carries `prekeys`, the delta to publish to the directory.
+   *
    * @category Messaging Operations
    */
   async openMessaging(
     userId: string
-  ): Promise<{ sid: string; token: string; exp: number }> {
+  ): Promise<{ sid: string; token: string; exp: number; prekeys?: PrekeyBundleDelta }> {
     // Auth is now collected in a top-level kms.ats.run POPUP (BUG-008), not the iframe
     // modal — so the iframe must STAY HIDDEN. Revealing it here covered the whole page
     // (it's a full-screen overlay) and made pages like /messages unusable.
@@ -2262,9 +3211,12 @@ export class KMSUser {
       this.iframe.style.display = 'none';
     }
     try {
-      const result = await this.sendRequest<{ sid: string; token: string; exp: number }>('openMessaging', {
-        userId,
-      });
+      const result = await this.sendRequest<{
+        sid: string;
+        token: string;
+        exp: number;
+        prekeys?: PrekeyBundleDelta;
+      }>('openMessaging', { userId });
       if (this.iframe) {
         this.iframe.style.display = 'none';
       }
@@ -2286,9 +3238,23 @@ export class KMSUser {
     return this.sendRequest<{ closed: true }>('closeMessaging', { sid, token });
   }
 
+  /**
+   * Bring prekeys up to policy within an open session: replenish one-time
+   * prekeys below the low watermark, rotate an aged signed prekey and delete
+   * superseded ones past their grace window. Returns the delta to publish
+   * (empty when nothing changed). Call it on a timer so rotation happens even
+   * when no messages arrive.
+   *
+   * @category Messaging Operations
+   */
+  async maintainPrekeys(sid: string, token: string): Promise<{ prekeys: PrekeyBundleDelta }> {
+    return this.sendRequest<{ prekeys: PrekeyBundleDelta }>('maintainPrekeys', { sid, token });
+  }
+
   /**
    * Rotate the signed prekey and top up one-time prekeys within an open session,
-   * returning the refreshed bundle to re-upload.
+   * returning the refreshed bundle to re-upload. Explicit override of the
+   * enclave-managed lifecycle ({@link maintainPrekeys}) for migrations and tests.
    *
    * @category Messaging Operations
    */
@@ -2466,6 +3432,15 @@ export class KMSUser {
    * hold for that contact (rooms §2.2/§4). `true` iff the device provably belongs
    * to that identity. A pure public-key check, kept in the enclave.
    *
+   * Pass `peerUserId` to also check the key against the trust ledger: `trust` is
+   * the contact's state afterwards. A `masterSigningPub` other than the key on
+   * record marks the contact `changed` only if the certificate verifies, the device
+   * is not revoked, and its `identityKey` is the one an existing Signal session with
+   * the contact recorded; otherwise the stored state comes back unchanged.
+   * `trust` is omitted when the enclave holds no entry for the contact. The
+   * device is also checked against the contact's roster: a revoked device comes
+   * back `{ valid: false, revoked: true }`.
+   *
    * @category Master Identity Operations
    */
   async verifyContactDevice(args: {
@@ -2475,15 +3450,141 @@ export class KMSUser {
     identityKey: ArrayBuffer;
     identitySigningKey: ArrayBuffer;
     cert: ArrayBuffer;
-  }): Promise<{ valid: boolean }> {
-    return this.sendRequest<{ valid: boolean }>('verifyContactDevice', args);
+    peerUserId?: string;
+  }): Promise<{ valid: boolean; revoked?: true; trust?: ContactTrustState }> {
+    return this.sendRequest<{ valid: boolean; revoked?: true; trust?: ContactTrustState }>('verifyContactDevice', args);
+  }
+
+  /**
+   * Get the safety number between this account and a contact (rooms §4), from the
+   * contact's master public keys: 60 digits that read the same on both sides, an
+   * emoji and a word sequence for a quicker check, and the text of this side's QR.
+   * Public values — display them freely. Omit the keys to use the ones in the
+   * trust ledger (`NOT_FOUND` if there are none).
+   *
+   * @category Master Identity Operations
+   */
+  async getSafetyNumber(args: {
+    sid: string;
+    token: string;
+    peerUserId: string;
+    masterSigningPub?: ArrayBuffer;
+    masterEncryptionPub?: ArrayBuffer;
+  }): Promise<SafetyNumber> {
+    return this.sendRequest<SafetyNumber>('getSafetyNumber', args);
+  }
+
+  /**
+   * Verify a contact's safety number in the enclave modal (rooms §4): the user
+   * scans the contact's QR, or compares the number by eye and confirms. Resolves
+   * `verified: false` on a mismatch — treat the contact's keys as suspect. Rejects
+   * with `CANCELLED` if the user closes the modal.
+   *
+   * The verdict is recorded in the trust ledger; `trust` is the contact's state
+   * afterwards. Keys are optional as for {@link getSafetyNumber}.
+   *
+   * @category Master Identity Operations
+   */
+  async verifySafetyNumber(args: {
+    sid: string;
+    token: string;
+    peerUserId: string;
+    masterSigningPub?: ArrayBuffer;
+    masterEncryptionPub?: ArrayBuffer;
+  }): Promise<{ verified: boolean; method: 'qr' | 'manual'; trust: ContactTrustState }> {
+    // The comparison renders in the iframe modal, like the Connect ceremony (see mintInvite).
+    if (this.iframe) this.iframe.style.display = 'block';
+    try {
+      return await this.sendRequest<{ verified: boolean; method: 'qr' | 'manual'; trust: ContactTrustState }>(
+        'verifySafetyNumber',
+        args
+      );
+    } finally {
+      if (this.iframe) this.iframe.style.display = 'none';
+    }
+  }
+
+  /**
+   * Get this account's newest device roster (rooms §2.4) in its signed form, to
+   * send to contacts alongside your device bundle. `NOT_FOUND` until one has been
+   * issued with {@link updateDeviceRoster}.
+   *
+   * @category Master Identity Operations
+   */
+  async getDeviceRoster(sid: string, token: string): Promise<{ version: number; roster: ArrayBuffer }> {
+    return this.sendRequest<{ version: number; roster: ArrayBuffer }>('getDeviceRoster', { sid, token });
+  }
+
+  /**
+   * Issue the account's next device roster, signed by the master identity: this
+   * device plus `add` (each with its device certificate) as current devices, and
+   * `revoke` (device identity keys) revoked for good. Publish `announcement` on
+   * the self-channel and send `roster` to your contacts; revoked devices then stop
+   * receiving envelopes.
+   *
+   * @category Master Identity Operations
+   */
+  async updateDeviceRoster(args: {
+    sid: string;
+    token: string;
+    add?: Array<{ identityKey: ArrayBuffer; identitySigningKey: ArrayBuffer; cert: ArrayBuffer }>;
+    revoke?: ArrayBuffer[];
+  }): Promise<{ version: number; roster: ArrayBuffer; announcement: ArrayBuffer }> {
+    return this.sendRequest<{ version: number; roster: ArrayBuffer; announcement: ArrayBuffer }>(
+      'updateDeviceRoster',
+      args
+    );
+  }
+
+  /**
+   * Apply a device-roster announcement from the self-channel. `revoked: true`
+   * means THIS device has been revoked by another of the account's devices —
+   * sign out and clear local data.
+   *
+   * @category Master Identity Operations
+   */
+  async applyDeviceRoster(args: {
+    sid: string;
+    token: string;
+    ciphertext: ArrayBuffer;
+  }): Promise<{ version: number; applied: boolean; revoked: boolean }> {
+    return this.sendRequest<{ version: number; applied: boolean; revoked: boolean }>('applyDeviceRoster', args);
+  }
+
+  /**
+   * Import a contact's signed device roster. It must verify under the master key
+   * the enclave holds for that contact; `applied` is false for a roster no newer
+   * than the one held.
+   *
+   * @category Master Identity Operations
+   */
+  async importContactRoster(args: {
+    sid: string;
+    token: string;
+    peerUserId: string;
+    roster: ArrayBuffer;
+  }): Promise<{ version: number; applied: boolean }> {
+    return this.sendRequest<{ version: number; applied: boolean }>('importContactRoster', args);
   }
 
   /**
    * Build one opaque fan-out bundle: encrypt `plaintext` once per recipient
    * device (pass `deviceBundle` on the first message to a device to establish the
-   * session), shuffle, and pack. Compose the recipient set yourself — the peer's
-   * devices plus the account's own other devices.
+   * session), tag each envelope for its recipient, shuffle, and pack. Compose the
+   * recipient set yourself — the peer's devices plus the account's own other
+   * devices.
+   *
+   * Devices revoked by their account's roster (see {@link updateDeviceRoster} /
+   * {@link importContactRoster}) are left out and listed in `revoked` — drop them
+   * from your device list.
+   *
+   * To send files, pass the handles from {@link encryptAttachment} as
+   * `attachments`; recipients get them back from {@link openBundle}.
+   *
+   * Pass `sealedSender` (with this device's Signal device id) to hide the sender
+   * from the relay: every envelope is sealed to its recipient together with this
+   * device's certificate, and recipients open it without naming any senders.
+   * Needs an account root on this device.
    *
    * @category Fan-out Bundle Operations
    */
@@ -2492,23 +3593,121 @@ export class KMSUser {
     token: string;
     recipients: Array<{ peerName: string; peerDeviceId?: number; deviceBundle?: MessagingDeviceBundle }>;
     plaintext: ArrayBuffer;
-  }): Promise<{ bundle: ArrayBuffer }> {
-    return this.sendRequest<{ bundle: ArrayBuffer }>('buildBundle', args);
+    attachments?: ArrayBuffer[];
+    sealedSender?: { deviceId?: number };
+  }): Promise<{ bundle: ArrayBuffer; revoked?: Array<{ peerName: string; peerDeviceId: number }> }> {
+    return this.sendRequest<{ bundle: ArrayBuffer; revoked?: Array<{ peerName: string; peerDeviceId: number }> }>(
+      'buildBundle',
+      args
+    );
   }
 
   /**
-   * Open a fan-out bundle by trial decryption against the given candidate sender
-   * devices. Returns the plaintext addressed to this device, or `null` if none.
+   * Open a fan-out bundle from one of the given candidate sender devices: the
+   * envelope is found by its transport tag, or by trial decryption when the tag
+   * is not recognised. Returns the plaintext addressed to this device, or `null`
+   * if none, plus any `attachments` the message carries (fetch each by `digest`,
+   * then {@link decryptAttachment} with its `handle`).
+   * A sealed-sender bundle needs no `senders`: the enclave recovers the sender,
+   * verifies its device certificate, and returns it as `sender`.
+   * A decrypt that consumed a one-time prekey may trigger replenishment; the
+   * delta to publish is then returned as `prekeys`.
    *
    * @category Fan-out Bundle Operations
    */
   async openBundle(args: {
     sid: string;
     token: string;
-    senders: Array<{ peerName: string; peerDeviceId?: number }>;
+    senders?: Array<{ peerName: string; peerDeviceId?: number }>;
     bundle: ArrayBuffer;
-  }): Promise<{ plaintext: ArrayBuffer | null }> {
-    return this.sendRequest<{ plaintext: ArrayBuffer | null }>('openBundle', args);
+  }): Promise<{
+    plaintext: ArrayBuffer | null;
+    attachments?: ReceivedAttachment[];
+    sender?: BundleSender;
+    prekeys?: PrekeyBundleDelta;
+  }> {
+    return this.sendRequest<{
+      plaintext: ArrayBuffer | null;
+      attachments?: ReceivedAttachment[];
+      sender?: BundleSender;
+      prekeys?: PrekeyBundleDelta;
+    }>('openBundle', args);
+  }
+
+  /**
+   * Encrypt a file or photo once, in chunks, under a fresh key held by the
+   * enclave. Upload `ciphertext` to any blob store (keyed by `digest` if you
+   * like) and send `handle` in {@link buildBundle}'s `attachments`; the handle is
+   * opaque and only this account's enclave can open it.
+   *
+   * @category Attachment Operations
+   */
+  async encryptAttachment(args: {
+    sid: string;
+    token: string;
+    plaintext: ArrayBuffer;
+  }): Promise<{ handle: ArrayBuffer; ciphertext: ArrayBuffer; digest: ArrayBuffer; size: number }> {
+    return this.sendRequest<{ handle: ArrayBuffer; ciphertext: ArrayBuffer; digest: ArrayBuffer; size: number }>(
+      'encryptAttachment',
+      args
+    );
+  }
+
+  /**
+   * Decrypt a downloaded attachment with its handle. Rejects ciphertext that is
+   * truncated, tampered with, or not the blob the sender committed to.
+   *
+   * @category Attachment Operations
+   */
+  async decryptAttachment(args: {
+    sid: string;
+    token: string;
+    handle: ArrayBuffer;
+    ciphertext: ArrayBuffer;
+  }): Promise<{ plaintext: ArrayBuffer }> {
+    return this.sendRequest<{ plaintext: ArrayBuffer }>('decryptAttachment', args);
+  }
+
+  /**
+   * Start decrypting an attachment piece by piece, for one too large to hold
+   * whole. Feed the ciphertext in order to {@link feedAttachmentDecrypt}, then
+   * call {@link finishAttachmentDecrypt}; the stream ends with the session.
+   *
+   * @category Attachment Operations
+   */
+  async beginAttachmentDecrypt(args: { sid: string; token: string; handle: ArrayBuffer }): Promise<{ stream: string }> {
+    return this.sendRequest<{ stream: string }>('beginAttachmentDecrypt', args);
+  }
+
+  /**
+   * Feed the next piece of ciphertext (any size) to a chunked decryption.
+   * Returns the authenticated plaintext it completed, possibly empty. A piece
+   * that fails to decrypt ends the stream.
+   *
+   * @category Attachment Operations
+   */
+  async feedAttachmentDecrypt(args: {
+    sid: string;
+    token: string;
+    stream: string;
+    ciphertext: ArrayBuffer;
+  }): Promise<{ plaintext: ArrayBuffer }> {
+    return this.sendRequest<{ plaintext: ArrayBuffer }>('feedAttachmentDecrypt', args);
+  }
+
+  /**
+   * End a chunked decryption: returns the last plaintext once the whole
+   * ciphertext matches the sender's pointer. Until then, treat the plaintext
+   * already fed back as unconfirmed.
+   *
+   * @category Attachment Operations
+   */
+  async finishAttachmentDecrypt(args: {
+    sid: string;
+    token: string;
+    stream: string;
+  }): Promise<{ plaintext: ArrayBuffer }> {
+    return this.sendRequest<{ plaintext: ArrayBuffer }>('finishAttachmentDecrypt', args);
   }
 
   // -------------------------------------------------------------------------
@@ -2535,15 +3734,12 @@ export class KMSUser {
     return this.sendRequest<{ scope: string }>('getContactScope', { sid, token, peerUserId });
   }
 
-  /** List every contact's {peerUserId, scope} (to subscribe all topics on connect). */
-  async listContacts(
-    sid: string,
-    token: string
-  ): Promise<{ contacts: Array<{ peerUserId: string; scope: string }> }> {
-    return this.sendRequest<{ contacts: Array<{ peerUserId: string; scope: string }> }>(
-      'listContacts',
-      { sid, token }
-    );
+  /**
+   * List every contact's {peerUserId, scope} (to subscribe all topics on connect),
+   * with its trust-ledger state and, when keys are on record, their fingerprint.
+   */
+  async listContacts(sid: string, token: string): Promise<{ contacts: ContactInfo[] }> {
+    return this.sendRequest<{ contacts: ContactInfo[] }>('listContacts', { sid, token });
   }
 
   /** AEAD-seal this account's device bundle for a contact over the pair-topic (§6). */
@@ -2568,9 +3764,8 @@ export class KMSUser {
 
   /**
    * Seal a contact for self-channel propagation to the account's other devices.
-   * `identity` is an OPAQUE caller blob (the PWA's serialized trust-ledger entry —
-   * the peer's public master keys) carried verbatim so propagated/restored contacts
-   * keep a consistent safety number.
+   * The contact's trust-ledger entry (keys + state) travels with it; `identity` is
+   * an OPAQUE caller blob (the PWA's display data for the peer) carried verbatim.
    */
   async sealContactAnnouncement(args: {
     sid: string;
@@ -2581,13 +3776,16 @@ export class KMSUser {
     return this.sendRequest<{ ciphertext: ArrayBuffer }>('sealContactAnnouncement', args);
   }
 
-  /** Apply a self-channel contact announcement from another device; stores it. */
+  /**
+   * Apply a self-channel contact announcement from another device; stores it and
+   * merges its trust-ledger entry (`trust` is the contact's state afterwards).
+   */
   async applyContactAnnouncement(args: {
     sid: string;
     token: string;
     ciphertext: ArrayBuffer;
-  }): Promise<{ peerUserId: string; scope: string; identity?: string }> {
-    return this.sendRequest<{ peerUserId: string; scope: string; identity?: string }>(
+  }): Promise<{ peerUserId: string; scope: string; identity?: string; trust?: ContactTrustState }> {
+    return this.sendRequest<{ peerUserId: string; scope: string; identity?: string; trust?: ContactTrustState }>(
       'applyContactAnnouncement',
       args
     );
@@ -2603,6 +3801,10 @@ export class KMSUser {
    * Mint a Connect invite: the enclave generates the room secret, arms it, and
    * displays the invite (link/QR) in its OWN popup. Returns only the public
    * `inviteId` + `scope` to subscribe on — never the secret or the blob.
+   *
+   * With `type: 'room'` the invite is reusable and admits to the room `roomId`
+   * (which this account must administer), or to a new room named `roomName` with
+   * this account as its admin; `roomId` is returned either way.
    */
   async mintInvite(args: {
     sid: string;
@@ -2610,13 +3812,16 @@ export class KMSUser {
     nameHint?: string;
     ttlMs?: number;
     singleUse?: boolean;
-  }): Promise<{ inviteId: string; scope: string }> {
+    type?: InviteType;
+    roomId?: string;
+    roomName?: string;
+  }): Promise<{ inviteId: string; scope: string; roomId?: string }> {
     // The Connect ceremony renders in the iframe modal (no popup — no credential is
     // collected), so reveal the iframe for the duration of the RPC (mirrors
     // extendLeases' requestAuth reveal). The enclave client also emits kms:show-iframe.
     if (this.iframe) this.iframe.style.display = 'block';
     try {
-      return await this.sendRequest<{ inviteId: string; scope: string }>('mintInvite', args);
+      return await this.sendRequest<{ inviteId: string; scope: string; roomId?: string }>('mintInvite', args);
     } finally {
       if (this.iframe) this.iframe.style.display = 'none';
     }
@@ -2626,19 +3831,24 @@ export class KMSUser {
    * Accept a Connect invite: the enclave popup collects + confirms the blob, then
    * returns the (public) peer card + fingerprint and the opaque sealed
    * announcement to publish on `dm:<scope>`. The invite secret never reaches here.
+   *
+   * For a room invite `roomId` is set and `peer` is the room's admin; the join
+   * completes when the admin's room key arrives (see {@link applyRoomKey}).
    */
   async acceptInvite(args: {
     sid: string;
     token: string;
     nameHint?: string;
-  }): Promise<{ scope: string; peer: ConnectPeer; announcement: ArrayBuffer }> {
+  }): Promise<{ scope: string; peer: ConnectPeer; announcement: ArrayBuffer; roomId?: string }> {
     // Reveal the iframe modal for the paste + fingerprint-confirm ceremony (see mintInvite).
     if (this.iframe) this.iframe.style.display = 'block';
     try {
-      return await this.sendRequest<{ scope: string; peer: ConnectPeer; announcement: ArrayBuffer }>(
-        'acceptInvite',
-        args
-      );
+      return await this.sendRequest<{
+        scope: string;
+        peer: ConnectPeer;
+        announcement: ArrayBuffer;
+        roomId?: string;
+      }>('acceptInvite', args);
     } finally {
       if (this.iframe) this.iframe.style.display = 'none';
     }
@@ -2664,13 +3874,23 @@ export class KMSUser {
    * The enclave derives the bound peer uid from the opened join internally (the
    * caller cannot substitute one), consumes the approval + single-use invite, and
    * returns the channel scope + the bound peerUserId.
+   *
+   * On a room invite the joiner is added and the room moves to a new epoch:
+   * `scope` is the room's new topic and `room.roomKeys` are the sealed updates to
+   * deliver to each member, the joiner's welcome included.
+   *
+   * On a 1:1 invite the joiner's master keys enter the trust ledger; `trust` is
+   * their state (`changed` if they differ from keys already on record).
    */
   async approveInviteJoin(args: {
     sid: string;
     token: string;
     approvalId: string;
-  }): Promise<{ scope: string; peerUserId: string }> {
-    return this.sendRequest<{ scope: string; peerUserId: string }>('approveInviteJoin', args);
+  }): Promise<{ scope: string; peerUserId: string; room?: RoomRekey; trust?: ContactTrustState }> {
+    return this.sendRequest<{ scope: string; peerUserId: string; room?: RoomRekey; trust?: ContactTrustState }>(
+      'approveInviteJoin',
+      args
+    );
   }
 
   /** Cancel one of our own armed invites, dropping its stored secret. */
@@ -2682,4 +3902,36 @@ export class KMSUser {
   async listInvites(sid: string, token: string): Promise<{ invites: InviteMeta[] }> {
     return this.sendRequest<{ invites: InviteMeta[] }>('listInvites', { sid, token });
   }
+
+  // -------------------------------------------------------------------------
+  // Rooms (rooms-and-trust §3.3). Room secrets stay in the enclave; the PWA
+  // delivers opaque sealed room keys and subscribes to the returned scope.
+  // -------------------------------------------------------------------------
+
+  /**
+   * Apply a room key an admin sealed to this account: the welcome that completes
+   * a room join, or a later rekey. Returns the room as it now stands.
+   */
+  async applyRoomKey(sid: string, token: string, roomKey: ArrayBuffer): Promise<RoomInfo> {
+    return this.sendRequest<RoomInfo>('applyRoomKey', { sid, token, roomKey });
+  }
+
+  /** A room's epoch, topic and members. */
+  async listRoomMembers(sid: string, token: string, roomId: string): Promise<RoomInfo> {
+    return this.sendRequest<RoomInfo>('listRoomMembers', { sid, token, roomId });
+  }
+
+  /**
+   * Remove a member from a room this account administers. The room secret is
+   * rotated in the same step; deliver the returned room keys to the remaining
+   * members.
+   */
+  async removeRoomMember(sid: string, token: string, roomId: string, memberUid: string): Promise<RoomRekey> {
+    return this.sendRequest<RoomRekey>('removeRoomMember', { sid, token, roomId, memberUid });
+  }
+
+  /** Rotate the secret of a room this account administers, keeping its members. */
+  async rotateRoomSecret(sid: string, token: string, roomId: string): Promise<RoomRekey> {
+    return this.sendRequest<RoomRekey>('rotateRoomSecret', { sid, token, roomId });
+  }
 }
@@ -195,14 +195,14 @@ export async function verifyDeviceCert(
 }
 
 // ============================================================================
-// Fingerprint (safety numbers, §4 — verification UX is roadmap)
+// Fingerprint (§4)
 // ============================================================================
 
 /**
- * A stable fingerprint of an identity = SHA-256 over both master public keys,
- * base64url. Two people comparing fingerprints out-of-band is the safety-number
- * check that flips a contact Unverified→Verified (§4). Rendering it as
- * words/emoji/number for display is a follow-up; this is the canonical value.
+ * A stable fingerprint of ONE identity = SHA-256 over both master public keys,
+ * base64url — a compact key-change detector and lookup value. For the
+ * human-comparable check between two people (digits, emoji, words, QR) use the
+ * pairwise safety number in `safety-number.ts`.
  */
 export async function identityFingerprint(
   masterSigningPubRaw: Uint8Array,
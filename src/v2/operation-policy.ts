@@ -0,0 +1,356 @@
+/**
+ * @file operation-policy.ts
+ * @description Declarative per-method operation policy, enforced by the worker
+ * dispatcher around every handler and by KMSClient's request routing.
+ *
+ * Each RPC method declares how it is authorized (fresh auth, KMS-origin
+ * confirmation, lease/session allowance), which parameter ceilings apply, and
+ * how severe its audit entry is. `handleMessage` calls `enforceOperationPolicy`
+ * first, so a method without an entry cannot be dispatched at all, and fails a
+ * method that declares an audit severity but returns without appending its
+ * entry. KMSClient routes every method that declares `kmsConfirmation` through
+ * enclave UI (or refuses it) before the request reaches the worker.
+ *
+ * Handlers keep their own checks (withUnlock, requireCapability, lease expiry);
+ * the table is the outer gate and the reviewable summary. `listSilentOperations`
+ * answers "what can the parent PWA trigger without the user noticing".
+ */
+
+import type { OperationPolicy, OperationParamLimit, RPCMethod } from './types.js';
+import { KMSError } from './errors.js';
+
+// Injected by build/build-enclave.ts; undefined when running from source (tests).
+declare const __KMS_DEV_UNAUTHENTICATED_RESET__: boolean;
+
+/**
+ * Dev-only: allow resetKMS without credentials or confirmation. Production
+ * builds define this as false, so the table demands fresh auth for reset.
+ */
+export const DEV_UNAUTHENTICATED_RESET: boolean =
+  typeof __KMS_DEV_UNAUTHENTICATED_RESET__ !== 'undefined' && __KMS_DEV_UNAUTHENTICATED_RESET__;
+
+/**
+ * Custom error for requests rejected by the operation policy.
+ */
+export class OperationPolicyError extends KMSError {
+  constructor(
+    public readonly method: string,
+    public readonly rule: keyof OperationPolicy,
+    detail: string
+  ) {
+    super('POLICY_DENIED', `RPC ${method}: Policy violation (${rule}) - ${detail}`);
+    this.name = 'OperationPolicyError';
+  }
+}
+
+/** Lease TTL ceiling in hours (30 days), shared by createLease and fullSetup. */
+const MAX_LEASE_TTL_HOURS = 720;
+/** VAPID rotation grace ceiling in hours; a pinned lease can't outlive its TTL anyway. */
+const MAX_VAPID_GRACE_HOURS = MAX_LEASE_TTL_HOURS;
+/** Invite TTL ceiling in milliseconds (30 days). */
+const MAX_INVITE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+/** Max staggered JWTs per issueVAPIDJWTs call. */
+const MAX_JWT_BATCH = 10;
+/** Max one-time prekeys generated per call. */
+const MAX_ONETIME_PREKEYS = 100;
+/** Max devices in one fan-out bundle. */
+const MAX_FANOUT_RECIPIENTS = 64;
+
+/** Unauthenticated read: no unlock, no UI, no audit entry. */
+const OPEN_READ: OperationPolicy = {
+  freshAuth: 'none',
+  kmsConfirmation: false,
+  allowance: 'none',
+  audit: 'none',
+};
+
+/** An {@link OPEN_READ} that changes nothing, so a lost request may be sent again. */
+const IDEMPOTENT_READ: OperationPolicy = { ...OPEN_READ, idempotent: true };
+
+/** Runs under a messaging capability (sid/token) minted by openMessaging. */
+const SESSION_OP: OperationPolicy = {
+  freshAuth: 'none',
+  kmsConfirmation: false,
+  allowance: 'session',
+  audit: 'routine',
+};
+
+/** Needs AuthCredentials in params, collected by the KMS client's unlock UI. */
+const CONFIRMED_UNLOCK: OperationPolicy = {
+  freshAuth: 'params',
+  kmsConfirmation: true,
+  allowance: 'none',
+  audit: 'sensitive',
+};
+
+/**
+ * The policy table. Typed as a full Record so adding an RPCMethod without a
+ * policy is a compile error.
+ */
+export const OPERATION_POLICIES: Readonly<Record<RPCMethod, OperationPolicy>> = {
+  // === Setup ===
+  // First enrollment has nothing to unlock, so these are open: the worker
+  // refuses them once the account is enrolled (more methods go through
+  // addEnrollment) and rejects an existingMS in params, so a parent can
+  // neither replace an enrollment nor choose the Master Secret.
+  setupPassphrase: { ...OPEN_READ, audit: 'sensitive' },
+  setupPasskeyPRF: { ...OPEN_READ, audit: 'sensitive' },
+  setupPasskeyGate: { ...OPEN_READ, audit: 'sensitive' },
+  setupWithPopup: { ...OPEN_READ, kmsConfirmation: true, audit: 'sensitive' },
+  fullSetup: {
+    ...OPEN_READ,
+    kmsConfirmation: true,
+    maxTtl: { param: 'ttlHours', max: MAX_LEASE_TTL_HOURS },
+    audit: 'sensitive',
+  },
+  addEnrollment: { ...CONFIRMED_UNLOCK, audit: 'critical' },
+  addEnrollmentWithPopup: { ...OPEN_READ, freshAuth: 'ceremony', kmsConfirmation: true, audit: 'critical' },
+  removeEnrollment: { ...CONFIRMED_UNLOCK, kmsConfirmation: false, audit: 'critical' },
+  changePassphrase: { ...CONFIRMED_UNLOCK, kmsConfirmation: false, audit: 'critical' },
+  // Re-wraps a snapshot of every store: nothing else may write until it commits.
+  rotateMasterSecret: { ...CONFIRMED_UNLOCK, kmsConfirmation: false, audit: 'critical', exclusive: true },
+  getEnrollments: IDEMPOTENT_READ,
+  getPasskeyUnlockParams: IDEMPOTENT_READ,
+  getMessagingUnlockOptions: IDEMPOTENT_READ,
+  isSetup: IDEMPOTENT_READ,
+
+  // === VAPID ===
+  generateVAPID: CONFIRMED_UNLOCK,
+  regenerateVAPID: { ...CONFIRMED_UNLOCK, audit: 'critical' },
+  rotateVAPID: { ...CONFIRMED_UNLOCK, maxTtl: { param: 'graceHours', max: MAX_VAPID_GRACE_HOURS } },
+  retireVAPIDKey: { ...CONFIRMED_UNLOCK, audit: 'critical' },
+  listVAPIDKeys: IDEMPOTENT_READ,
+  signJWT: { ...CONFIRMED_UNLOCK, audit: 'routine' },
+  getPublicKey: IDEMPOTENT_READ,
+  getVAPIDKid: IDEMPOTENT_READ,
+
+  // === Leases ===
+  createLease: { ...CONFIRMED_UNLOCK, maxTtl: { param: 'ttlHours', max: MAX_LEASE_TTL_HOURS } },
+  // Auto-extendable leases extend silently; the rest need credentials, which
+  // the client only collects (via its modal) when requestAuth is set.
+  extendLeases: { ...OPEN_READ, freshAuth: 'optional', allowance: 'lease', audit: 'routine' },
+  issueVAPIDJWT: { ...OPEN_READ, allowance: 'lease', audit: 'routine' },
+  issueVAPIDJWTs: {
+    ...OPEN_READ,
+    allowance: 'lease',
+    maxCount: { param: 'count', max: MAX_JWT_BATCH },
+    audit: 'routine',
+  },
+  getUserLeases: IDEMPOTENT_READ,
+  // deleteIfInvalid only drops a lease that is already invalid; a repeat finds it gone and answers the same.
+  verifyLease: IDEMPOTENT_READ,
+
+  // === Audit ===
+  getAuditLog: IDEMPOTENT_READ,
+  // The UAK signs the export, so it needs an unlock
+  exportAuditLog: { ...CONFIRMED_UNLOCK, kmsConfirmation: false },
+  verifyAuditChain: IDEMPOTENT_READ,
+  getAuditPublicKey: IDEMPOTENT_READ,
+
+  // === Management ===
+  // Wipes every store: fresh auth + popup confirmation, and a final KIAK-signed entry.
+  resetKMS: DEV_UNAUTHENTICATED_RESET ? OPEN_READ : { ...CONFIRMED_UNLOCK, audit: 'critical' },
+  // Moves every store (including all private key material) out of / into this KMS.
+  exportBackup: { ...CONFIRMED_UNLOCK, audit: 'critical' },
+  importBackup: { ...CONFIRMED_UNLOCK, audit: 'critical' },
+  setPushSubscription: OPEN_READ,
+  removePushSubscription: OPEN_READ,
+  getPushSubscription: IDEMPOTENT_READ,
+  listPushSubscriptions: IDEMPOTENT_READ,
+
+  // === Signal messaging ===
+  setupMessaging: { ...CONFIRMED_UNLOCK, maxCount: { param: 'oneTimePrekeyCount', max: MAX_ONETIME_PREKEYS } },
+  provisionMessaging: {
+    ...CONFIRMED_UNLOCK,
+    maxCount: { param: 'oneTimePrekeyCount', max: MAX_ONETIME_PREKEYS },
+  },
+  provisionMessagingFromMnemonic: {
+    ...CONFIRMED_UNLOCK,
+    maxCount: { param: 'oneTimePrekeyCount', max: MAX_ONETIME_PREKEYS },
+    audit: 'critical',
+  },
+  getMessagingBundle: IDEMPOTENT_READ,
+  getPrekeyCount: IDEMPOTENT_READ,
+  openMessaging: CONFIRMED_UNLOCK,
+  closeMessaging: SESSION_OP,
+  rotatePrekeys: { ...SESSION_OP, maxCount: { param: 'count', max: MAX_ONETIME_PREKEYS } },
+  maintainPrekeys: SESSION_OP,
+
+  // === Account root ===
+  setupAccountRoot: CONFIRMED_UNLOCK,
+  importAccountRootFromMnemonic: { ...CONFIRMED_UNLOCK, kmsConfirmation: false, audit: 'critical' },
+  importWrappedAccountRoot: { ...CONFIRMED_UNLOCK, kmsConfirmation: false, audit: 'critical' },
+  wrapAccountRootForDevice: { ...CONFIRMED_UNLOCK, kmsConfirmation: false, audit: 'critical' },
+  hasAccountRoot: IDEMPOTENT_READ,
+
+  // === Self-channel ===
+  getSelfScope: { ...SESSION_OP, audit: 'none', idempotent: true },
+  sealSelfMessage: SESSION_OP,
+  openSelfMessage: SESSION_OP,
+
+  // === Master identity ===
+  getIdentityCard: { ...SESSION_OP, audit: 'none', idempotent: true },
+  getDeviceCert: { ...SESSION_OP, audit: 'none', idempotent: true },
+  // Audited: naming a contact can move them to `changed` in the trust ledger.
+  verifyContactDevice: SESSION_OP,
+  getSafetyNumber: { ...SESSION_OP, audit: 'none', idempotent: true },
+  // Shows the safety number (and scans the peer's QR) in the KMS iframe modal.
+  verifySafetyNumber: { ...SESSION_OP, kmsConfirmation: true, audit: 'sensitive' },
+
+  // === Device rosters ===
+  getDeviceRoster: { ...SESSION_OP, audit: 'none', idempotent: true },
+  // Revoking a device cuts it off from every future message.
+  updateDeviceRoster: { ...SESSION_OP, audit: 'sensitive' },
+  applyDeviceRoster: SESSION_OP,
+  importContactRoster: SESSION_OP,
+
+  // === Fan-out bundle ===
+  buildBundle: { ...SESSION_OP, maxCount: { param: 'recipients', max: MAX_FANOUT_RECIPIENTS } },
+  openBundle: { ...SESSION_OP, maxCount: { param: 'senders', max: MAX_FANOUT_RECIPIENTS } },
+
+  // === Attachments ===
+  encryptAttachment: SESSION_OP,
+  decryptAttachment: SESSION_OP,
+  // A chunked decrypt is audited once, when it finishes.
+  beginAttachmentDecrypt: { ...SESSION_OP, audit: 'none' },
+  feedAttachmentDecrypt: { ...SESSION_OP, audit: 'none' },
+  finishAttachmentDecrypt: SESSION_OP,
+
+  // === Pairing / contacts ===
+  setContactSecret: SESSION_OP,
+  getContactScope: { ...SESSION_OP, audit: 'none', idempotent: true },
+  listContacts: { ...SESSION_OP, audit: 'none', idempotent: true },
+  sealDeviceExchange: SESSION_OP,
+  openDeviceExchange: SESSION_OP,
+  sealContactAnnouncement: SESSION_OP,
+  applyContactAnnouncement: SESSION_OP,
+
+  // === Connect invite ceremony ===
+  // mint/accept show or collect the invite in the KMS iframe modal.
+  mintInvite: {
+    ...SESSION_OP,
+    kmsConfirmation: true,
+    maxTtl: { param: 'ttlMs', max: MAX_INVITE_TTL_MS },
+    audit: 'sensitive',
+  },
+  acceptInvite: { ...SESSION_OP, kmsConfirmation: true, audit: 'sensitive' },
+  openInviteJoin: SESSION_OP,
+  approveInviteJoin: { ...SESSION_OP, audit: 'sensitive' },
+  forgetInvite: SESSION_OP,
+  listInvites: { ...SESSION_OP, audit: 'none', idempotent: true },
+
+  // === Rooms ===
+  applyRoomKey: SESSION_OP,
+  listRoomMembers: { ...SESSION_OP, audit: 'none', idempotent: true },
+  // Removal and rotation hand out a new room secret to every remaining member.
+  removeRoomMember: { ...SESSION_OP, audit: 'sensitive' },
+  rotateRoomSecret: { ...SESSION_OP, audit: 'sensitive' },
+};
+
+/**
+ * Look up the policy for a method name.
+ *
+ * @returns The policy, or undefined if the method has none (and is not dispatchable)
+ */
+export function getOperationPolicy(method: string): OperationPolicy | undefined {
+  return Object.prototype.hasOwnProperty.call(OPERATION_POLICIES, method)
+    ? OPERATION_POLICIES[method as RPCMethod]
+    : undefined;
+}
+
+/**
+ * Methods the parent PWA can trigger with no fresh auth, no KMS-origin UI and
+ * no lease or session: the complete "silent" surface of the enclave.
+ */
+export function listSilentOperations(): RPCMethod[] {
+  return (Object.keys(OPERATION_POLICIES) as RPCMethod[]).filter((method) => {
+    const policy = OPERATION_POLICIES[method];
+    return (
+      (policy.freshAuth === 'none' || policy.freshAuth === 'optional') &&
+      !policy.kmsConfirmation &&
+      policy.allowance === 'none'
+    );
+  });
+}
+
+/**
+ * Whether a request may be sent again after the enclave was lost mid-flight.
+ * Only methods whose policy declares `idempotent` are replayed on the
+ * re-created enclave; anything else may already have taken effect and is
+ * failed instead.
+ */
+export function isReplaySafe(method: string): boolean {
+  return getOperationPolicy(method)?.idempotent === true;
+}
+
+/**
+ * Whether a method may wait on the user in KMS-origin UI (the unlock modal or
+ * a popup ceremony), so its caller needs a longer timeout than a plain call.
+ */
+export function awaitsUser(method: string): boolean {
+  const policy = getOperationPolicy(method);
+  return policy !== undefined && (policy.kmsConfirmation || policy.freshAuth !== 'none');
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function checkLimit(
+  method: string,
+  rule: 'maxTtl' | 'maxCount',
+  limit: OperationParamLimit,
+  params: Record<string, unknown>
+): void {
+  const value = params[limit.param];
+  const size = Array.isArray(value) ? value.length : value;
+  if (typeof size === 'number' && size > limit.max) {
+    throw new OperationPolicyError(method, rule, `${limit.param} exceeds maximum of ${limit.max}`);
+  }
+}
+
+/**
+ * Enforce the operation policy for a request before dispatch.
+ *
+ * Only checks what the policy can decide from the request shape: presence of
+ * credentials / lease / session fields and parameter ceilings. Whether the
+ * credentials unlock, the lease is live or the capability is valid stays with
+ * the handler. Malformed params are left to the per-method validators.
+ *
+ * @param method - RPC method name from the request
+ * @param params - Raw request params
+ * @returns The policy that was enforced
+ * @throws KMSError('UNKNOWN_METHOD') if the method has no policy
+ * @throws OperationPolicyError if the request violates the policy
+ */
+export function enforceOperationPolicy(method: string, params: unknown): OperationPolicy {
+  const policy = getOperationPolicy(method);
+  if (!policy) {
+    throw new KMSError('UNKNOWN_METHOD', `Unknown RPC method: ${method}`);
+  }
+
+  const p = typeof params === 'object' && params !== null ? (params as Record<string, unknown>) : {};
+
+  if (policy.freshAuth === 'params' && (typeof p.credentials !== 'object' || p.credentials === null)) {
+    throw new OperationPolicyError(method, 'freshAuth', 'fresh AuthCredentials required');
+  }
+  if (policy.freshAuth === 'ceremony' && p.credentials !== undefined) {
+    throw new OperationPolicyError(method, 'freshAuth', 'credentials are collected by the KMS popup, not the caller');
+  }
+
+  if (policy.allowance === 'lease' && !isNonEmptyString(p.leaseId) && !Array.isArray(p.leaseIds)) {
+    throw new OperationPolicyError(method, 'allowance', 'lease required');
+  }
+  if (policy.allowance === 'session' && (!isNonEmptyString(p.sid) || !isNonEmptyString(p.token))) {
+    throw new OperationPolicyError(method, 'allowance', 'messaging session (sid, token) required');
+  }
+
+  if (policy.maxTtl) {
+    checkLimit(method, 'maxTtl', policy.maxTtl, p);
+  }
+  if (policy.maxCount) {
+    checkLimit(method, 'maxCount', policy.maxCount, p);
+  }
+
+  return policy;
+}
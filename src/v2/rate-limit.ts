@@ -0,0 +1,176 @@
+/**
+ * @file rate-limit.ts
+ * @description Lease quota accounting for VAPID JWT issuance.
+ *
+ * Every lease carries a {@link QuotaState}; each dimension is enforced with its
+ * own accounting over the persisted {@link RateLimitState}:
+ *
+ * - `tokensPerHour`: sliding window over the issuance timestamps of the last
+ *   hour. Every JWT counts, so a batch of N costs N.
+ * - `sendsPerMinute` / `burstSends`: token bucket of capacity `burstSends`,
+ *   refilled continuously at `sendsPerMinute`. Every JWT costs one token.
+ * - `sendsPerMinutePerEid`: sliding one-minute window per endpoint ID, counted
+ *   per issuance request. A staggered batch is one request: its JWTs cover
+ *   consecutive validity windows rather than concurrent sends.
+ *
+ * Functions here are pure (state in, state out); the worker serialises the
+ * read-modify-write per lease and persists the result.
+ */
+
+import type { QuotaState, RPCErrorDetail } from './types';
+import { KMSError } from './errors';
+import type { RateLimitState } from './storage-types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/** A quota dimension that can reject an issuance request. */
+export type QuotaDimension = 'tokensPerHour' | 'sendsPerMinute' | 'sendsPerMinutePerEid';
+
+const QUOTA_LABELS: Record<QuotaDimension, string> = {
+  tokensPerHour: 'tokens per hour',
+  sendsPerMinute: 'sends per minute',
+  sendsPerMinutePerEid: 'sends per minute per endpoint',
+};
+
+/** Default per-lease quotas, used for any dimension createLease does not set. */
+export const DEFAULT_LEASE_QUOTAS: Readonly<QuotaState> = {
+  tokensPerHour: 100,
+  sendsPerMinute: 10,
+  burstSends: 20,
+  sendsPerMinutePerEid: 5,
+};
+
+/**
+ * Thrown when an issuance request would exceed a lease quota.
+ *
+ * `retryAfterMs` is the earliest point at which the same request fits every
+ * dimension, or null when it can never fit (the request is larger than the
+ * quota itself). The worker returns both as a structured RPC error
+ * (`code: 'QUOTA_EXCEEDED'`) and KMSUser rethrows it as this class.
+ */
+export class QuotaExceededError extends KMSError {
+  constructor(
+    public readonly quota: QuotaDimension,
+    retryAfterMs: number | null
+  ) {
+    super(
+      'QUOTA_EXCEEDED',
+      `Quota exceeded: ${QUOTA_LABELS[quota]} (${
+        retryAfterMs === null ? 'request is larger than the quota' : `retry after ${retryAfterMs} ms`
+      })`,
+      retryAfterMs
+    );
+    this.name = 'QuotaExceededError';
+  }
+
+  /** Retryable only when the request can ever fit the quota. */
+  override get retryable(): boolean {
+    return this.retryAfterMs !== null;
+  }
+
+  override toDetail(): RPCErrorDetail {
+    return { code: this.code, message: this.message, quota: this.quota, retryAfterMs: this.retryAfterMs };
+  }
+}
+
+/**
+ * Type guard for quota dimension names (e.g. read back from an RPC error).
+ */
+export function isQuotaDimension(value: unknown): value is QuotaDimension {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(QUOTA_LABELS, value);
+}
+
+/** One issuance request against a lease. */
+export interface QuotaCharge {
+  /** Request time in milliseconds */
+  now: number;
+  /** Endpoint ID of the push subscription the JWTs target */
+  eid: string;
+  /** Number of JWTs issued by the request */
+  jwts: number;
+}
+
+/**
+ * Time until a sliding window (timestamps ascending) has room for `needed`
+ * more entries under `limit`, or null if it never will.
+ */
+function windowRetryAfter(
+  timestamps: number[],
+  limit: number,
+  needed: number,
+  windowMs: number,
+  now: number
+): number | null {
+  if (needed > limit) return null;
+  const excess = timestamps.length + needed - limit;
+  if (excess <= 0) return 0;
+  const unblockingEntry = timestamps[excess - 1];
+  return unblockingEntry === undefined ? 0 : Math.max(1, unblockingEntry + windowMs - now);
+}
+
+/**
+ * Charge an issuance request against a lease's quotas.
+ *
+ * Either every dimension admits the request and the updated state is
+ * returned, or nothing is charged and a {@link QuotaExceededError} names the
+ * dimension with the longest wait.
+ *
+ * @param state - Current accounting state (not mutated)
+ * @param quotas - The lease's quotas
+ * @param charge - The request to admit
+ * @returns The state after admitting the request
+ * @throws {QuotaExceededError} If any dimension rejects the request
+ */
+export function chargeQuota(
+  state: RateLimitState,
+  quotas: QuotaState,
+  charge: QuotaCharge
+): RateLimitState {
+  const { now, eid, jwts } = charge;
+
+  // Slide the windows forward
+  const issuedAt = state.issuedAt.filter((t) => t > now - HOUR_MS);
+  const perEndpoint: Record<string, number[]> = {};
+  for (const [endpoint, timestamps] of Object.entries(state.perEndpoint)) {
+    const live = timestamps.filter((t) => t > now - MINUTE_MS);
+    if (live.length > 0) perEndpoint[endpoint] = live;
+  }
+  const eidRequests = perEndpoint[eid] ?? [];
+
+  // Refill the bucket
+  const refill = ((now - state.lastRefillAt) * quotas.sendsPerMinute) / MINUTE_MS;
+  const sendTokens = Math.min(quotas.burstSends, state.sendTokens + Math.max(0, refill));
+
+  const waits: Array<[QuotaDimension, number | null]> = [
+    ['tokensPerHour', windowRetryAfter(issuedAt, quotas.tokensPerHour, jwts, HOUR_MS, now)],
+    [
+      'sendsPerMinute',
+      jwts > quotas.burstSends
+        ? null
+        : sendTokens >= jwts
+          ? 0
+          : Math.ceil(((jwts - sendTokens) * MINUTE_MS) / quotas.sendsPerMinute),
+    ],
+    ['sendsPerMinutePerEid', windowRetryAfter(eidRequests, quotas.sendsPerMinutePerEid, 1, MINUTE_MS, now)],
+  ];
+
+  // Report the longest wait: once it has passed, every other dimension has recovered too
+  let rejection: [QuotaDimension, number | null] | undefined;
+  for (const wait of waits) {
+    if (wait[1] === 0) continue;
+    if (!rejection || wait[1] === null || (rejection[1] !== null && wait[1] > rejection[1])) {
+      rejection = wait;
+    }
+  }
+  if (rejection) {
+    throw new QuotaExceededError(rejection[0], rejection[1]);
+  }
+
+  return {
+    issuedAt: [...issuedAt, ...Array<number>(jwts).fill(now)],
+    sendTokens: sendTokens - jwts,
+    lastRefillAt: now,
+    perEndpoint: { ...perEndpoint, [eid]: [...eidRequests, now] },
+  };
+}
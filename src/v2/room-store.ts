@@ -0,0 +1,76 @@
+/**
+ * Room persistence (rooms-and-trust §3.3).
+ *
+ * A room's current secret is wrapped under the device's messagingKEK and bound
+ * by AAD to (userId, roomId, epoch), so a blob cannot be transplanted to another
+ * room, user, or epoch. The member list, epoch, and derived `scope` are stored in
+ * the clear: they are public (the PWA is shown them) and reading them must not
+ * need the key.
+ *
+ * These run off a live messaging capability (the session's messagingKEK), never a
+ * full unlock — joining and managing a room is routine foreground activity.
+ */
+
+import { wrapBlob, getMessagingRoom, putMessagingRoom } from './storage';
+import { deriveScope } from './pairing';
+import type { MessagingRoomRecord, RoomInfo, RoomMember } from './types';
+
+export type { RoomInfo };
+
+/** AAD schema version for a wrapped room secret; bump if the binding changes. */
+const ROOM_SECRET_AAD_VERSION = 'room-secret/1';
+
+/** Deterministic AAD binding a wrapped room secret to (userId, roomId, epoch). */
+function roomSecretAAD(userId: string, roomId: string, epoch: number): ArrayBuffer {
+  const fields = { v: ROOM_SECRET_AAD_VERSION, type: 'room-secret', userId, roomId, epoch };
+  const canonical = JSON.stringify(fields, Object.keys(fields).sort());
+  const bytes = new TextEncoder().encode(canonical);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+/** The public view of a stored record (no secret bytes). */
+function toInfo(r: MessagingRoomRecord): RoomInfo {
+  const info: RoomInfo = { roomId: r.roomId, epoch: r.epoch, members: r.members };
+  if (r.name !== undefined) info.name = r.name;
+  if (r.scope !== undefined) info.scope = r.scope;
+  return info;
+}
+
+/**
+ * Persist a room at `epoch`. With a `secret`, wrap it and derive the room scope;
+ * with `null`, record a join still awaiting its first room key (epoch 0).
+ * Keeps the original `createdAt` when the room already exists.
+ */
+export async function storeRoom(
+  params: { userId: string; roomId: string; name?: string; epoch: number; members: RoomMember[] },
+  secret: Uint8Array | null,
+  messagingKEK: CryptoKey
+): Promise<RoomInfo> {
+  const existing = await getMessagingRoom(params.userId, params.roomId);
+  const now = Date.now();
+  const record: MessagingRoomRecord = {
+    userId: params.userId,
+    roomId: params.roomId,
+    epoch: params.epoch,
+    members: params.members,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  if (params.name !== undefined) record.name = params.name;
+  if (secret) {
+    record.wrappedSecret = await wrapBlob(
+      secret,
+      messagingKEK,
+      roomSecretAAD(params.userId, params.roomId, params.epoch)
+    );
+    record.scope = await deriveScope(secret);
+  }
+  await putMessagingRoom(record);
+  return toInfo(record);
+}
+
+/** The public view of one of this user's rooms, or `null` if it has none by that id. */
+export async function getRoomInfo(userId: string, roomId: string): Promise<RoomInfo | null> {
+  const record = await getMessagingRoom(userId, roomId);
+  return record ? toInfo(record) : null;
+}
@@ -0,0 +1,338 @@
+/**
+ * Room keys (rooms-and-trust §3.3).
+ *
+ * A room is a scope seeded by a room secret that N members share ({@link
+ * ./pairing.ts} derives its scope exactly as for a 1:1 pair). Membership is
+ * enclave state: an admin approves joins and removes members, and every change
+ * moves the room to a fresh secret at the next epoch, so a removed member cannot
+ * follow the room and a new member cannot read what came before.
+ *
+ * The admin hands each member the new epoch as a **room-key update** — room id,
+ * epoch, secret and the full member list — signed with the admin's master
+ * signing key (members accept updates only from an admin they already hold) and
+ * then sealed to that member's master encryption key, so only the member's own
+ * devices can open it. The seal is the ECIES construction of
+ * {@link ./device-wrap.ts} under its own label. The PWA only carries the opaque
+ * sealed blobs; the secret never leaves the enclave in the clear.
+ */
+
+import { arrayBufferToBase64url, base64urlToArrayBuffer, deriveDeterministicSalt } from './crypto-utils';
+import type { RoomMember } from './types';
+import { ValidationError } from './errors';
+
+/** Most members a room may hold (bounds every update's size and fan-out). */
+export const MAX_ROOM_MEMBERS = 64;
+
+/** Current room-key body version; bump on any wire-format change. */
+const ROOM_KEY_VERSION = 1;
+
+/** Tag distinguishing a room-key body from any other signed payload. */
+const ROOM_KEY_KIND = 'room-key';
+
+/** HKDF label / GCM AAD domain-separation string for the seal. */
+const SEAL_LABEL = 'ATS/KMS/room-key/v1';
+
+const X25519_KEY_BYTES = 32;
+const IV_BYTES = 12;
+const ROOM_SECRET_BYTES = 32;
+const MASTER_KEY_BYTES = 32;
+const MAX_ID_CHARS = 128;
+const MAX_NAME_CHARS = 128;
+
+/** A room epoch as an admin distributes it. */
+export interface RoomKeyUpdate {
+  roomId: string;
+  /** Room name hint, as set by the creating admin. */
+  name?: string;
+  epoch: number;
+  /** The room secret for `epoch`. Enclave-only. */
+  secret: Uint8Array;
+  members: RoomMember[];
+}
+
+/** An opened (decrypted, not yet verified) room-key update. */
+export interface SignedRoomKey {
+  update: RoomKeyUpdate;
+  /** The uid the update claims to be signed by; see {@link verifyRoomKey}. */
+  signer: string;
+  body: Uint8Array;
+  signature: Uint8Array;
+}
+
+/** Wire form of a room-key body (what the admin signs). */
+interface RoomKeyBody {
+  v: number;
+  k: string;
+  room: string;
+  name?: string;
+  epoch: number;
+  /** Room secret, base64url. */
+  s: string;
+  members: RoomMember[];
+}
+
+/** Wire form inside the seal: the signed body and who signed it. */
+interface SignedEnvelope {
+  by: string;
+  /** The signed body bytes, base64url. */
+  body: string;
+  /** Ed25519 signature over the body bytes, base64url. */
+  sig: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Copy a Uint8Array into a fresh, exactly-sized ArrayBuffer (never SharedArrayBuffer). */
+function u8ToArrayBuffer(u: Uint8Array): ArrayBuffer {
+  const b = new ArrayBuffer(u.byteLength);
+  new Uint8Array(b).set(u);
+  return b;
+}
+
+/**
+ * Sign a room-key update as `signer` (an admin's master signing key) and seal it
+ * to one member's master encryption public key (raw 32 bytes). Returns
+ * `ephemeralPub || iv || ciphertext`.
+ */
+export async function sealRoomKey(
+  update: RoomKeyUpdate,
+  signer: { uid: string; signingKey: CryptoKey },
+  recipientMek: Uint8Array
+): Promise<ArrayBuffer> {
+  const body: RoomKeyBody = {
+    v: ROOM_KEY_VERSION,
+    k: ROOM_KEY_KIND,
+    room: update.roomId,
+    epoch: update.epoch,
+    s: arrayBufferToBase64url(u8ToArrayBuffer(update.secret)),
+    members: update.members,
+  };
+  if (update.name !== undefined) body.name = update.name;
+  assertValidBody(body);
+
+  const bodyBytes = encoder.encode(JSON.stringify(body));
+  const signature = await crypto.subtle.sign({ name: 'Ed25519' }, signer.signingKey, bodyBytes);
+  const envelope: SignedEnvelope = {
+    by: signer.uid,
+    body: arrayBufferToBase64url(u8ToArrayBuffer(bodyBytes)),
+    sig: arrayBufferToBase64url(signature),
+  };
+
+  const ephemeral = (await crypto.subtle.generateKey({ name: 'X25519' }, false, ['deriveBits'])) as CryptoKeyPair;
+  const ephemeralPub = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+  const shared = await sharedSecret(ephemeral.privateKey, recipientMek);
+  const sealKey = await deriveSealKey(shared, ephemeralPub, recipientMek);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(SEAL_LABEL) },
+    sealKey,
+    encoder.encode(JSON.stringify(envelope))
+  );
+
+  const out = new Uint8Array(X25519_KEY_BYTES + IV_BYTES + ciphertext.byteLength);
+  out.set(ephemeralPub, 0);
+  out.set(iv, X25519_KEY_BYTES);
+  out.set(new Uint8Array(ciphertext), X25519_KEY_BYTES + IV_BYTES);
+  return u8ToArrayBuffer(out);
+}
+
+/**
+ * Open a room-key update sealed to this account: `recipient` is the master
+ * encryption private key and its raw public half. The result is NOT yet trusted —
+ * pass it to {@link verifyRoomKey} with the room's known admins.
+ */
+export async function openRoomKey(
+  sealed: ArrayBuffer,
+  recipient: { encryptionKey: CryptoKey; mek: Uint8Array }
+): Promise<SignedRoomKey> {
+  const bytes = new Uint8Array(sealed);
+  if (bytes.byteLength <= X25519_KEY_BYTES + IV_BYTES) {
+    throw new ValidationError('Invalid room key');
+  }
+  const ephemeralPub = bytes.slice(0, X25519_KEY_BYTES);
+  const iv = bytes.slice(X25519_KEY_BYTES, X25519_KEY_BYTES + IV_BYTES);
+
+  let envelope: unknown;
+  try {
+    const shared = await sharedSecret(recipient.encryptionKey, ephemeralPub);
+    const sealKey = await deriveSealKey(shared, ephemeralPub, recipient.mek);
+    const plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: encoder.encode(SEAL_LABEL) },
+      sealKey,
+      bytes.slice(X25519_KEY_BYTES + IV_BYTES)
+    );
+    envelope = JSON.parse(decoder.decode(plain));
+  } catch {
+    // Sealed to someone else, or tampered with (GCM tag) — fail closed.
+    throw new ValidationError('Invalid room key');
+  }
+  if (!isValidEnvelope(envelope)) {
+    throw new ValidationError('Invalid room key');
+  }
+
+  let body: Uint8Array;
+  let parsed: unknown;
+  try {
+    body = new Uint8Array(base64urlToArrayBuffer(envelope.body));
+    parsed = JSON.parse(decoder.decode(body));
+  } catch {
+    throw new ValidationError('Invalid room key');
+  }
+  assertValidBody(parsed);
+
+  const update: RoomKeyUpdate = {
+    roomId: parsed.room,
+    epoch: parsed.epoch,
+    secret: new Uint8Array(base64urlToArrayBuffer(parsed.s)),
+    members: parsed.members,
+  };
+  if (parsed.name !== undefined) update.name = parsed.name;
+  return {
+    update,
+    signer: envelope.by,
+    body,
+    signature: new Uint8Array(base64urlToArrayBuffer(envelope.sig)),
+  };
+}
+
+/**
+ * Throw unless `key` is signed by one of `admins` — the room's admins as this
+ * device already knows them (never the admins the update itself lists).
+ */
+export async function verifyRoomKey(key: SignedRoomKey, admins: RoomMember[]): Promise<void> {
+  const admin = admins.find((m) => m.role === 'admin' && m.uid === key.signer);
+  if (!admin) {
+    throw new ValidationError('Room key is not signed by a room admin');
+  }
+  const pub = await crypto.subtle.importKey(
+    'raw',
+    base64urlToArrayBuffer(admin.msk),
+    { name: 'Ed25519' },
+    false,
+    ['verify']
+  );
+  const ok = await crypto.subtle.verify(
+    { name: 'Ed25519' },
+    pub,
+    key.signature as BufferSource,
+    key.body as BufferSource
+  );
+  if (!ok) {
+    throw new ValidationError('Room key is not signed by a room admin');
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Internals
+// ----------------------------------------------------------------------------
+
+/** X25519 shared secret between a private key and a raw 32-byte peer public key. */
+async function sharedSecret(priv: CryptoKey, peerPubRaw: Uint8Array): Promise<ArrayBuffer> {
+  const pub = await crypto.subtle.importKey('raw', peerPubRaw as BufferSource, { name: 'X25519' }, false, []);
+  return crypto.subtle.deriveBits({ name: 'X25519', public: pub }, priv, 256);
+}
+
+/**
+ * Derive the AES-GCM seal key from the X25519 shared secret, binding the label
+ * and both public keys into the HKDF `info`.
+ */
+async function deriveSealKey(
+  shared: ArrayBuffer,
+  ephemeralPubRaw: Uint8Array,
+  recipientPubRaw: Uint8Array
+): Promise<CryptoKey> {
+  const label = encoder.encode(SEAL_LABEL);
+  const info = new Uint8Array(label.length + ephemeralPubRaw.length + recipientPubRaw.length);
+  info.set(label, 0);
+  info.set(ephemeralPubRaw, label.length);
+  info.set(recipientPubRaw, label.length + ephemeralPubRaw.length);
+  const salt = await deriveDeterministicSalt('ATS/KMS/room-key/salt/v1');
+  const ikm = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info },
+    ikm,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function isBoundedString(v: unknown, max: number): v is string {
+  return typeof v === 'string' && v.length > 0 && v.length <= max;
+}
+
+/** Whether `s` is a base64url string that decodes to EXACTLY `bytes` bytes. */
+function isB64urlOfLength(s: unknown, bytes: number): boolean {
+  if (typeof s !== 'string' || s.length === 0) return false;
+  try {
+    return base64urlToArrayBuffer(s).byteLength === bytes;
+  } catch {
+    return false;
+  }
+}
+
+/** Whether `o` is a plain object whose keys are all within `allowed` (reject extras). */
+function hasOnlyKeys(o: object, allowed: readonly string[]): boolean {
+  return Object.keys(o).every((k) => allowed.includes(k));
+}
+
+function isPlainObject(o: unknown): o is Record<string, unknown> {
+  return !!o && typeof o === 'object' && !Array.isArray(o);
+}
+
+const ENVELOPE_KEYS = ['by', 'body', 'sig'] as const;
+const BODY_KEYS = ['v', 'k', 'room', 'name', 'epoch', 's', 'members'] as const;
+const MEMBER_KEYS = ['uid', 'name', 'msk', 'mek', 'role', 'joinedAt'] as const;
+
+function isValidEnvelope(e: unknown): e is SignedEnvelope {
+  return (
+    isPlainObject(e) &&
+    hasOnlyKeys(e, ENVELOPE_KEYS) &&
+    isBoundedString(e.by, MAX_ID_CHARS) &&
+    typeof e.body === 'string' &&
+    isB64urlOfLength(e.sig, 64)
+  );
+}
+
+function isValidMember(m: unknown): m is RoomMember {
+  if (!isPlainObject(m) || !hasOnlyKeys(m, MEMBER_KEYS)) return false;
+  if (!isBoundedString(m.uid, MAX_ID_CHARS)) return false;
+  if (m.name !== undefined && (typeof m.name !== 'string' || m.name.length > MAX_NAME_CHARS)) return false;
+  if (m.role !== 'admin' && m.role !== 'member') return false;
+  if (!Number.isSafeInteger(m.joinedAt) || (m.joinedAt as number) < 0) return false;
+  return isB64urlOfLength(m.msk, MASTER_KEY_BYTES) && isB64urlOfLength(m.mek, MASTER_KEY_BYTES);
+}
+
+/**
+ * Throw unless `b` is a valid current-version room-key body: only the body keys,
+ * a bounded room id and name, a positive epoch, a 32-byte secret, and 1..{@link
+ * MAX_ROOM_MEMBERS} valid members with distinct uids, at least one an admin.
+ */
+function assertValidBody(b: unknown): asserts b is RoomKeyBody {
+  if (!isPlainObject(b) || !hasOnlyKeys(b, BODY_KEYS)) {
+    throw new ValidationError('Invalid room key');
+  }
+  if (
+    b.v !== ROOM_KEY_VERSION ||
+    b.k !== ROOM_KEY_KIND ||
+    !isBoundedString(b.room, MAX_ID_CHARS) ||
+    (b.name !== undefined && (typeof b.name !== 'string' || b.name.length > MAX_NAME_CHARS)) ||
+    !Number.isSafeInteger(b.epoch) ||
+    (b.epoch as number) < 1 ||
+    !isB64urlOfLength(b.s, ROOM_SECRET_BYTES)
+  ) {
+    throw new ValidationError('Invalid room key');
+  }
+  const members = b.members;
+  if (
+    !Array.isArray(members) ||
+    members.length === 0 ||
+    members.length > MAX_ROOM_MEMBERS ||
+    !members.every(isValidMember) ||
+    new Set(members.map((m) => m.uid)).size !== members.length ||
+    !members.some((m) => m.role === 'admin')
+  ) {
+    throw new ValidationError('Invalid room key');
+  }
+}
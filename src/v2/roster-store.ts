@@ -0,0 +1,61 @@
+/**
+ * Device roster persistence (rooms-and-trust §2.4).
+ *
+ * The enclave keeps the newest verified roster per account it cares about: our
+ * own (to extend and re-publish) and each contact's (to refuse their revoked
+ * devices). Callers verify a roster ({@link ./device-roster.ts | openDeviceRoster})
+ * before storing it; storing only ever moves the version forward, so a replayed
+ * older roster cannot bring a revoked device back.
+ */
+
+import { getMessagingRoster, putMessagingRoster } from './storage';
+import { isDeviceRevoked, type DeviceRoster } from './device-roster';
+
+/** The roster held for `ownerUid` (ourselves or a contact), or `null` if none. */
+export async function loadDeviceRoster(
+  userId: string,
+  ownerUid: string
+): Promise<{ roster: DeviceRoster; signed: ArrayBuffer } | null> {
+  const record = await getMessagingRoster(userId, ownerUid);
+  if (!record) {
+    return null;
+  }
+  return {
+    roster: {
+      uid: record.ownerUid,
+      version: record.version,
+      issuedAt: record.issuedAt,
+      devices: record.devices,
+      revoked: record.revoked,
+    },
+    signed: record.signed,
+  };
+}
+
+/**
+ * Store a verified roster if it is newer than the one held. Returns whether it
+ * was stored; an equal or older version is ignored.
+ */
+export async function storeDeviceRoster(userId: string, roster: DeviceRoster, signed: ArrayBuffer): Promise<boolean> {
+  const existing = await getMessagingRoster(userId, roster.uid);
+  if (existing && existing.version >= roster.version) {
+    return false;
+  }
+  await putMessagingRoster({
+    userId,
+    ownerUid: roster.uid,
+    version: roster.version,
+    issuedAt: roster.issuedAt,
+    devices: roster.devices,
+    revoked: roster.revoked,
+    signed,
+    updatedAt: Date.now(),
+  });
+  return true;
+}
+
+/** Whether the roster held for `ownerUid` revokes the device with this identity key. */
+export async function isRevokedDevice(userId: string, ownerUid: string, identityKey: Uint8Array): Promise<boolean> {
+  const record = await getMessagingRoster(userId, ownerUid);
+  return record !== null && isDeviceRevoked(record, identityKey);
+}
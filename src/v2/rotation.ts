@@ -0,0 +1,112 @@
+/**
+ * Master Secret rotation: re-encrypting stored material for a new MS.
+ *
+ * Everything the KMS keeps under a key derived from the MS must move to the
+ * matching key derived from the new one:
+ *
+ *   - `keys` store records (VAPID, UAK): MKEK -> new MKEK;
+ *   - wrapped blobs in the other stores (Signal state, account root,
+ *     contacts, invites): MKEK or messaging KEK -> its new counterpart;
+ *   - lease keys: SessionKEK -> new SessionKEK (re-derived per lease salt).
+ *
+ * Ciphertexts are re-encrypted with a fresh IV and their original AAD, so
+ * every record keeps its identity (kid, AAD binding, record shape). The
+ * worker owns the orchestration (unlock, enrolments, audit, the single
+ * write transaction); this module owns the re-encryption.
+ */
+
+import { isWrappedBlob } from './storage-types';
+import type { WrappedBlob, WrappedKey } from './types';
+
+/** A key derived from the current MS and its counterpart from the new MS. */
+export interface RotationKeyPair {
+  old: CryptoKey;
+  new: CryptoKey;
+}
+
+async function reencrypt(
+  ciphertext: ArrayBuffer,
+  aad: ArrayBuffer,
+  iv: ArrayBuffer,
+  pair: RotationKeyPair
+): Promise<{ ciphertext: ArrayBuffer; iv: ArrayBuffer }> {
+  const plaintext = new Uint8Array(
+    await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData: aad }, pair.old, ciphertext)
+  );
+  try {
+    const newIv = crypto.getRandomValues(new Uint8Array(12));
+    const newCiphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: newIv, additionalData: aad },
+      pair.new,
+      plaintext
+    );
+    return { ciphertext: newCiphertext, iv: newIv.buffer };
+  } finally {
+    plaintext.fill(0);
+  }
+}
+
+/**
+ * Re-encrypt an MKEK-wrapped `keys` record under the new MKEK.
+ *
+ * @throws if the record does not authenticate under `mkek.old`
+ */
+export async function rewrapKeyRecord(record: WrappedKey, mkek: RotationKeyPair): Promise<WrappedKey> {
+  let rewrapped: { ciphertext: ArrayBuffer; iv: ArrayBuffer };
+  try {
+    rewrapped = await reencrypt(record.wrappedKey, record.aad, record.iv, mkek);
+  } catch {
+    throw new Error(`Key ${record.kid} does not authenticate under the current MKEK`);
+  }
+  return { ...record, wrappedKey: rewrapped.ciphertext, iv: rewrapped.iv };
+}
+
+/**
+ * Re-encrypt, in place, every {@link WrappedBlob} nested in `value` under the
+ * new key of whichever pair opens it.
+ *
+ * @returns Number of blobs re-encrypted
+ * @throws if a blob opens under none of the old keys
+ */
+export async function rewrapBlobs(value: unknown, pairs: RotationKeyPair[]): Promise<number> {
+  if (Array.isArray(value)) {
+    let count = 0;
+    for (let i = 0; i < value.length; i++) {
+      const item: unknown = value[i];
+      if (isWrappedBlob(item)) {
+        value[i] = await rewrapBlob(item, pairs);
+        count += 1;
+      } else {
+        count += await rewrapBlobs(item, pairs);
+      }
+    }
+    return count;
+  }
+  if (typeof value !== 'object' || value === null || value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return 0;
+  }
+  const record = value as Record<string, unknown>;
+  let count = 0;
+  for (const [field, item] of Object.entries(record)) {
+    if (isWrappedBlob(item)) {
+      record[field] = await rewrapBlob(item, pairs);
+      count += 1;
+    } else {
+      count += await rewrapBlobs(item, pairs);
+    }
+  }
+  return count;
+}
+
+async function rewrapBlob(blob: WrappedBlob, pairs: RotationKeyPair[]): Promise<WrappedBlob> {
+  for (const pair of pairs) {
+    let rewrapped: { ciphertext: ArrayBuffer; iv: ArrayBuffer };
+    try {
+      rewrapped = await reencrypt(blob.ciphertext, blob.aad, blob.iv, pair);
+    } catch {
+      continue; // try the next key
+    }
+    return { ...blob, ciphertext: rewrapped.ciphertext, iv: rewrapped.iv };
+  }
+  throw new Error('Wrapped blob does not authenticate under the current Master Secret');
+}
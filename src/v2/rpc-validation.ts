@@ -10,16 +10,20 @@
 
 import type {
   AuthCredentials,
+  AuditLogFilter,
   VAPIDPayload,
   StoredPushSubscription,
   WrappedAccountRoot,
+  QuotaState,
+  InviteType,
 } from './types.js';
+import { ValidationError } from './errors.js';
 
 /**
  * Custom error for RPC parameter validation failures.
  * Provides detailed context about what validation failed.
  */
-export class RPCValidationError extends Error {
+export class RPCValidationError extends ValidationError {
   constructor(
     public readonly method: string,
     public readonly param: string,
@@ -205,17 +209,26 @@ function validateVAPIDPayload(method: string, payload: unknown): VAPIDPayload {
 // RPC Method Validators
 // ============================================================================
 
+/**
+ * Refuse a Master Secret supplied in setup params. Whoever supplies it picks
+ * the key every enrollment wraps; only the worker's own enrollment flows may
+ * reuse an existing MS, and they never take it from a caller.
+ */
+function rejectExistingMS(method: string, p: Record<string, unknown>): void {
+  if (p.existingMS !== undefined) {
+    throw new ValidationError(`RPC ${method}: existingMS is not accepted over RPC`);
+  }
+}
+
 export function validateSetupPassphrase(params: unknown): {
   userId: string;
   passphrase: string;
-  existingMS?: Uint8Array;
 } {
   const p = validateParamsObject('setupPassphrase', params);
-  const existingMS = validateOptionalBuffer('setupPassphrase', 'existingMS', p.existingMS);
+  rejectExistingMS('setupPassphrase', p);
   return {
     userId: validateString('setupPassphrase', 'userId', p.userId),
     passphrase: validateString('setupPassphrase', 'passphrase', p.passphrase),
-    ...(existingMS !== undefined && { existingMS }),
   };
 }
 
@@ -224,24 +237,26 @@ export function validateSetupPasskeyPRF(params: unknown): {
   credentialId: ArrayBuffer;
   prfOutput: ArrayBuffer;
   rpId?: string;
-  existingMS?: Uint8Array;
+  appSalt?: Uint8Array;
 } {
   const p = validateParamsObject('setupPasskeyPRF', params);
+  rejectExistingMS('setupPasskeyPRF', p);
 
   // Check for credentialId presence first (match handler error message)
   if (!p.credentialId) {
-    throw new Error('credentialId required');
+    throw new ValidationError('credentialId required');
   }
 
   const rpId = validateOptionalString('setupPasskeyPRF', 'rpId', p.rpId);
-  const existingMS = validateOptionalBuffer('setupPasskeyPRF', 'existingMS', p.existingMS);
+  // The PRF eval salt the PWA used, so unlock can evaluate with the same one
+  const appSalt = validateOptionalBuffer('setupPasskeyPRF', 'appSalt', p.appSalt);
 
   return {
     userId: validateString('setupPasskeyPRF', 'userId', p.userId),
     credentialId: validateBuffer('setupPasskeyPRF', 'credentialId', p.credentialId),
     prfOutput: validateBuffer('setupPasskeyPRF', 'prfOutput', p.prfOutput),
     ...(rpId !== undefined && { rpId }),
-    ...(existingMS !== undefined && { existingMS }),
+    ...(appSalt !== undefined && { appSalt }),
   };
 }
 
@@ -297,16 +312,14 @@ export function validateSetupPasskeyGate(params: unknown): {
   userId: string;
   credentialId: ArrayBuffer;
   rpId?: string;
-  existingMS?: Uint8Array;
 } {
   const p = validateParamsObject('setupPasskeyGate', params);
+  rejectExistingMS('setupPasskeyGate', p);
   const rpId = validateOptionalString('setupPasskeyGate', 'rpId', p.rpId);
-  const existingMS = validateOptionalBuffer('setupPasskeyGate', 'existingMS', p.existingMS);
   return {
     userId: validateString('setupPasskeyGate', 'userId', p.userId),
     credentialId: validateBuffer('setupPasskeyGate', 'credentialId', p.credentialId),
     ...(rpId !== undefined && { rpId }),
-    ...(existingMS !== undefined && { existingMS }),
   };
 }
 
@@ -350,6 +363,45 @@ export function validateRegenerateVAPID(params: unknown): {
   };
 }
 
+export function validateRotateVAPID(params: unknown): {
+  credentials: AuthCredentials;
+  graceHours?: number;
+} {
+  const p = validateParamsObject('rotateVAPID', params);
+  const result: { credentials: AuthCredentials; graceHours?: number } = {
+    credentials: validateAuthCredentials('rotateVAPID', p.credentials),
+  };
+
+  if (p.graceHours !== undefined) {
+    const graceHours = validateNumber('rotateVAPID', 'graceHours', p.graceHours);
+    if (!(graceHours >= 1 && graceHours <= 720)) {
+      throw new RPCValidationError('rotateVAPID', 'graceHours', '1 <= graceHours <= 720', graceHours);
+    }
+    result.graceHours = graceHours;
+  }
+
+  return result;
+}
+
+export function validateRetireVAPIDKey(params: unknown): {
+  kid: string;
+  credentials: AuthCredentials;
+  migrateLeases?: boolean;
+} {
+  const p = validateParamsObject('retireVAPIDKey', params);
+  const result: { kid: string; credentials: AuthCredentials; migrateLeases?: boolean } = {
+    kid: validateString('retireVAPIDKey', 'kid', p.kid),
+    credentials: validateAuthCredentials('retireVAPIDKey', p.credentials),
+  };
+
+  const migrateLeases = validateOptionalBoolean('retireVAPIDKey', 'migrateLeases', p.migrateLeases);
+  if (migrateLeases !== undefined) {
+    result.migrateLeases = migrateLeases;
+  }
+
+  return result;
+}
+
 export function validateSignJWT(params: unknown): {
   kid: string;
   payload: VAPIDPayload;
@@ -368,6 +420,7 @@ export function validateCreateLease(params: unknown): {
   ttlHours: number;
   credentials: AuthCredentials;
   autoExtend?: boolean;
+  quotas?: Partial<QuotaState>;
 } {
   const p = validateParamsObject('createLease', params);
   const result: {
@@ -375,6 +428,7 @@ export function validateCreateLease(params: unknown): {
     ttlHours: number;
     credentials: AuthCredentials;
     autoExtend?: boolean;
+    quotas?: Partial<QuotaState>;
   } = {
     userId: validateString('createLease', 'userId', p.userId),
     ttlHours: validateNumber('createLease', 'ttlHours', p.ttlHours),
@@ -386,9 +440,37 @@ export function validateCreateLease(params: unknown): {
     result.autoExtend = autoExtend;
   }
 
+  if (p.quotas !== undefined) {
+    result.quotas = validateLeaseQuotas('createLease', p.quotas);
+  }
+
   return result;
 }
 
+const LEASE_QUOTA_KEYS: ReadonlyArray<keyof QuotaState> = [
+  'tokensPerHour',
+  'sendsPerMinute',
+  'burstSends',
+  'sendsPerMinutePerEid',
+];
+
+function validateLeaseQuotas(method: string, value: unknown): Partial<QuotaState> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new RPCValidationError(method, 'quotas', 'object', value);
+  }
+  const quotas: Partial<QuotaState> = {};
+  for (const [key, limit] of Object.entries(value)) {
+    if (!(LEASE_QUOTA_KEYS as readonly string[]).includes(key)) {
+      throw new ValidationError(`RPC ${method}: Unknown quota ${key}`);
+    }
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit <= 0) {
+      throw new RPCValidationError(method, `quotas.${key}`, 'positive integer', limit);
+    }
+    quotas[key as keyof QuotaState] = limit;
+  }
+  return quotas;
+}
+
 export function validateExtendLeases(params: unknown): {
   leaseIds: string[];
   userId: string;
@@ -399,14 +481,14 @@ export function validateExtendLeases(params: unknown): {
 
   // Validate leaseIds array
   if (!Array.isArray(p.leaseIds)) {
-    throw new Error(`RPC extendLeases: Invalid leaseIds - expected array, got ${typeof p.leaseIds}`);
+    throw new ValidationError(`RPC extendLeases: Invalid leaseIds - expected array, got ${typeof p.leaseIds}`);
   }
   if (p.leaseIds.length === 0) {
-    throw new Error(`RPC extendLeases: leaseIds array cannot be empty`);
+    throw new ValidationError(`RPC extendLeases: leaseIds array cannot be empty`);
   }
   const leaseIds = p.leaseIds.map((id: unknown, index: number) => {
     if (typeof id !== 'string' || id.length === 0) {
-      throw new Error(`RPC extendLeases: Invalid leaseId at index ${index} - expected non-empty string`);
+      throw new ValidationError(`RPC extendLeases: Invalid leaseId at index ${index} - expected non-empty string`);
     }
     return id;
   });
@@ -437,18 +519,21 @@ export function validateExtendLeases(params: unknown): {
 
 export function validateIssueVAPIDJWT(params: unknown): {
   leaseId: string;
+  eid?: string;
   kid?: string;
   jti?: string;
   exp?: number;
 } {
   const p = validateParamsObject('issueVAPIDJWT', params);
 
+  const eid = validateOptionalString('issueVAPIDJWT', 'eid', p.eid);
   const kid = validateOptionalString('issueVAPIDJWT', 'kid', p.kid);
   const jti = validateOptionalString('issueVAPIDJWT', 'jti', p.jti);
   const exp = p.exp !== undefined ? validateNumber('issueVAPIDJWT', 'exp', p.exp) : undefined;
 
   return {
     leaseId: validateString('issueVAPIDJWT', 'leaseId', p.leaseId),
+    ...(eid !== undefined && { eid }),
     ...(kid !== undefined && { kid }),
     ...(jti !== undefined && { jti }),
     ...(exp !== undefined && { exp }),
@@ -458,15 +543,18 @@ export function validateIssueVAPIDJWT(params: unknown): {
 export function validateIssueVAPIDJWTs(params: unknown): {
   leaseId: string;
   count: number;
+  eid?: string;
   kid?: string;
 } {
   const p = validateParamsObject('issueVAPIDJWTs', params);
 
+  const eid = validateOptionalString('issueVAPIDJWTs', 'eid', p.eid);
   const kid = validateOptionalString('issueVAPIDJWTs', 'kid', p.kid);
 
   return {
     leaseId: validateString('issueVAPIDJWTs', 'leaseId', p.leaseId),
     count: validateNumber('issueVAPIDJWTs', 'count', p.count),
+    ...(eid !== undefined && { eid }),
     ...(kid !== undefined && { kid }),
   };
 }
@@ -501,14 +589,19 @@ export function validateGetPasskeyUnlockParams(params: unknown): { userId?: stri
   return userId !== undefined ? { userId } : {};
 }
 
-export function validateGetMessagingUnlockOptions(params: unknown): { userId?: string } {
-  // getMessagingUnlockOptions takes an optional userId (defaults to 'default')
+export function validateGetMessagingUnlockOptions(params: unknown): { userId?: string; backup?: string } {
+  // getMessagingUnlockOptions takes an optional userId (defaults to 'default'),
+  // and an optional backup archive whose unlock slots replace the stored ones
   if (params === undefined || params === null) {
     return {};
   }
   const p = validateParamsObject('getMessagingUnlockOptions', params);
   const userId = validateOptionalString('getMessagingUnlockOptions', 'userId', p.userId);
-  return userId !== undefined ? { userId } : {};
+  const backup = validateOptionalString('getMessagingUnlockOptions', 'backup', p.backup);
+  return {
+    ...(userId !== undefined && { userId }),
+    ...(backup !== undefined && { backup }),
+  };
 }
 
 export function validateVerifyAuditChain(_params: unknown): Record<string, never> {
@@ -521,6 +614,25 @@ export function validateGetAuditLog(_params: unknown): Record<string, never> {
   return {};
 }
 
+export function validateExportAuditLog(params: unknown): {
+  credentials: AuthCredentials;
+  filter: AuditLogFilter;
+} {
+  const p = validateParamsObject('exportAuditLog', params);
+  const credentials = validateAuthCredentials('exportAuditLog', p.credentials);
+  const filter: AuditLogFilter = {};
+  for (const bound of ['fromSeqNum', 'toSeqNum', 'fromTime', 'toTime'] as const) {
+    if (p[bound] !== undefined) {
+      const value = validateNumber('exportAuditLog', bound, p[bound]);
+      if (!Number.isFinite(value) || value < 0) {
+        throw new RPCValidationError('exportAuditLog', bound, 'non-negative number', value);
+      }
+      filter[bound] = value;
+    }
+  }
+  return { credentials, filter };
+}
+
 export function validateGetPublicKey(params: unknown): { kid: string } {
   const p = validateParamsObject('getPublicKey', params);
   return {
@@ -552,7 +664,7 @@ export function validateVerifyLease(params: unknown): {
   // Optional parameter
   if ('deleteIfInvalid' in p) {
     if (typeof p.deleteIfInvalid !== 'boolean') {
-      throw new Error('verifyLease: deleteIfInvalid must be a boolean');
+      throw new ValidationError('verifyLease: deleteIfInvalid must be a boolean');
     }
     result.deleteIfInvalid = p.deleteIfInvalid;
   }
@@ -565,9 +677,35 @@ export function validateGetVAPIDKid(_params: unknown): Record<string, never> {
   return {};
 }
 
-export function validateResetKMS(_params: unknown): Record<string, never> {
-  // No params required
-  return {};
+export function validateResetKMS(params: unknown): { credentials?: AuthCredentials } {
+  // Credentials are optional here only so dev builds can keep the unauthenticated
+  // variant; production refuses a credential-less reset (operation policy + handler).
+  if (params === undefined || params === null) {
+    return {};
+  }
+  const p = validateParamsObject('resetKMS', params);
+  if (p.credentials === undefined) {
+    return {};
+  }
+  return { credentials: validateAuthCredentials('resetKMS', p.credentials) };
+}
+
+export function validateExportBackup(params: unknown): { credentials: AuthCredentials } {
+  const p = validateParamsObject('exportBackup', params);
+  return { credentials: validateAuthCredentials('exportBackup', p.credentials) };
+}
+
+export function validateImportBackup(params: unknown): {
+  backup: string;
+  credentials: AuthCredentials;
+  overwrite?: boolean;
+} {
+  const p = validateParamsObject('importBackup', params);
+  return {
+    backup: validateString('importBackup', 'backup', p.backup),
+    credentials: validateAuthCredentials('importBackup', p.credentials),
+    ...(p.overwrite !== undefined && { overwrite: validateBoolean('importBackup', 'overwrite', p.overwrite) }),
+  };
 }
 
 export function validateRemoveEnrollment(params: unknown): {
@@ -581,6 +719,39 @@ export function validateRemoveEnrollment(params: unknown): {
   };
 }
 
+export function validateChangePassphrase(params: unknown): {
+  newPassphrase: string;
+  credentials: AuthCredentials;
+} {
+  const p = validateParamsObject('changePassphrase', params);
+  return {
+    newPassphrase: validateString('changePassphrase', 'newPassphrase', p.newPassphrase),
+    credentials: validateAuthCredentials('changePassphrase', p.credentials),
+  };
+}
+
+export function validateRotateMasterSecret(params: unknown): {
+  credentials: AuthCredentials;
+  additionalCredentials?: AuthCredentials[];
+} {
+  const p = validateParamsObject('rotateMasterSecret', params);
+  const credentials = validateAuthCredentials('rotateMasterSecret', p.credentials);
+  if (p.additionalCredentials === undefined) {
+    return { credentials };
+  }
+  if (!Array.isArray(p.additionalCredentials)) {
+    throw new RPCValidationError('rotateMasterSecret', 'additionalCredentials', 'array', p.additionalCredentials);
+  }
+  const additionalCredentials = p.additionalCredentials.map((value: unknown, index: number) => {
+    const extra = validateAuthCredentials('rotateMasterSecret', value);
+    if (extra.userId !== credentials.userId) {
+      throw new ValidationError(`RPC rotateMasterSecret: additionalCredentials[${index}] is for another account`);
+    }
+    return extra;
+  });
+  return { credentials, additionalCredentials };
+}
+
 // ============================================================================
 // Push Notification Subscription Validation
 // ============================================================================
@@ -618,7 +789,7 @@ function validatePushSubscription(method: string, value: unknown): StoredPushSub
 
   // Require HTTPS
   if (!endpoint.startsWith('https://')) {
-    throw new Error(`${method}: subscription.endpoint must use HTTPS`);
+    throw new ValidationError(`${method}: subscription.endpoint must use HTTPS`);
   }
 
   // Whitelist known push services
@@ -626,7 +797,7 @@ function validatePushSubscription(method: string, value: unknown): StoredPushSub
   try {
     endpointUrl = new URL(endpoint);
   } catch {
-    throw new Error(`${method}: subscription.endpoint is not a valid URL`);
+    throw new ValidationError(`${method}: subscription.endpoint is not a valid URL`);
   }
 
   const isKnownService = KNOWN_PUSH_SERVICES.some(
@@ -634,7 +805,7 @@ function validatePushSubscription(method: string, value: unknown): StoredPushSub
   );
 
   if (!isKnownService) {
-    throw new Error(
+    throw new ValidationError(
       `${method}: subscription.endpoint must be from a known push service (FCM, APNs, Mozilla Push, WNS). Got: ${endpointUrl.hostname}`
     );
   }
@@ -655,16 +826,16 @@ function validatePushSubscription(method: string, value: unknown): StoredPushSub
   const auth = validateString(method, 'subscription.keys.auth', keys.auth);
 
   if (p256dh.length === 0) {
-    throw new Error(`${method}: subscription.keys.p256dh must be non-empty`);
+    throw new ValidationError(`${method}: subscription.keys.p256dh must be non-empty`);
   }
   if (auth.length === 0) {
-    throw new Error(`${method}: subscription.keys.auth must be non-empty`);
+    throw new ValidationError(`${method}: subscription.keys.auth must be non-empty`);
   }
 
   // Validate eid
   const eid = validateString(method, 'subscription.eid', sub.eid);
   if (eid.length === 0) {
-    throw new Error(`${method}: subscription.eid must be non-empty`);
+    throw new ValidationError(`${method}: subscription.eid must be non-empty`);
   }
 
   // Validate createdAt
@@ -683,22 +854,37 @@ function validatePushSubscription(method: string, value: unknown): StoredPushSub
 }
 
 export function validateSetPushSubscription(params: unknown): {
+  userId: string;
   subscription: StoredPushSubscription;
 } {
   const p = validateParamsObject('setPushSubscription', params);
   return {
+    userId: validateString('setPushSubscription', 'userId', p.userId),
     subscription: validatePushSubscription('setPushSubscription', p.subscription),
   };
 }
 
-export function validateRemovePushSubscription(_params: unknown): Record<string, never> {
-  // No params required
-  return {};
+export function validateRemovePushSubscription(params: unknown): { userId: string; eid: string } {
+  const p = validateParamsObject('removePushSubscription', params);
+  return {
+    userId: validateString('removePushSubscription', 'userId', p.userId),
+    eid: validateString('removePushSubscription', 'eid', p.eid),
+  };
 }
 
-export function validateGetPushSubscription(_params: unknown): Record<string, never> {
-  // No params required
-  return {};
+export function validateGetPushSubscription(params: unknown): { userId: string; eid: string } {
+  const p = validateParamsObject('getPushSubscription', params);
+  return {
+    userId: validateString('getPushSubscription', 'userId', p.userId),
+    eid: validateString('getPushSubscription', 'eid', p.eid),
+  };
+}
+
+export function validateListPushSubscriptions(params: unknown): { userId: string } {
+  const p = validateParamsObject('listPushSubscriptions', params);
+  return {
+    userId: validateString('listPushSubscriptions', 'userId', p.userId),
+  };
 }
 
 // ============================================================================
@@ -912,6 +1098,14 @@ export function validateRotatePrekeys(params: unknown): {
   };
 }
 
+export function validateMaintainPrekeys(params: unknown): { sid: string; token: string } {
+  const p = validateParamsObject('maintainPrekeys', params);
+  return {
+    sid: validateString('maintainPrekeys', 'sid', p.sid),
+    token: validateString('maintainPrekeys', 'token', p.token),
+  };
+}
+
 // === Fan-out Bundle Operations (secure-messaging §8/§12) ===
 
 /** Max devices in one logical message's fan-out (a contact's devices + own devices). */
@@ -935,6 +1129,8 @@ export function validateBuildBundle(params: unknown): {
   token: string;
   recipients: Array<{ peerName: string; peerDeviceId: number; deviceBundle?: MessagingDeviceBundle }>;
   plaintext: ArrayBuffer;
+  attachments?: ArrayBuffer[];
+  sealedSender?: { deviceId: number };
 } {
   const p = validateParamsObject('buildBundle', params);
   const plaintext = validateBuffer('buildBundle', 'plaintext', p.plaintext);
@@ -962,18 +1158,45 @@ export function validateBuildBundle(params: unknown): {
     }
     return { ...addr, deviceBundle: validateDeviceBundle('buildBundle', obj.deviceBundle) };
   });
+  if (p.attachments !== undefined) {
+    if (!Array.isArray(p.attachments) || p.attachments.length > MAX_MESSAGE_ATTACHMENTS) {
+      throw new RPCValidationError(
+        'buildBundle',
+        'attachments',
+        `array of ≤ ${MAX_MESSAGE_ATTACHMENTS}`,
+        p.attachments
+      );
+    }
+  }
   return {
     sid: validateString('buildBundle', 'sid', p.sid),
     token: validateString('buildBundle', 'token', p.token),
     recipients,
     plaintext,
+    ...(Array.isArray(p.attachments) && {
+      attachments: p.attachments.map((h) => validateAttachmentHandle('buildBundle', 'attachments', h)),
+    }),
+    ...(p.sealedSender !== undefined && { sealedSender: validateSealedSender(p.sealedSender) }),
   };
 }
 
+/** Sealed-sender options (§12.2): this device's Signal device id, default 1. */
+function validateSealedSender(value: unknown): { deviceId: number } {
+  const s = validateParamsObject('buildBundle', value);
+  if (s.deviceId === undefined) {
+    return { deviceId: 1 };
+  }
+  const deviceId = validateNumber('buildBundle', 'sealedSender.deviceId', s.deviceId);
+  if (!Number.isInteger(deviceId) || deviceId < 1 || deviceId > 0xffffffff) {
+    throw new RPCValidationError('buildBundle', 'sealedSender.deviceId', 'integer 1..2^32-1', s.deviceId);
+  }
+  return { deviceId };
+}
+
 export function validateOpenBundle(params: unknown): {
   sid: string;
   token: string;
-  senders: Array<{ peerName: string; peerDeviceId: number }>;
+  senders?: Array<{ peerName: string; peerDeviceId: number }>;
   bundle: ArrayBuffer;
 } {
   const p = validateParamsObject('openBundle', params);
@@ -986,6 +1209,14 @@ export function validateOpenBundle(params: unknown): {
       p.bundle
     );
   }
+  // Omitted senders: only sealed-sender envelopes (§12.2) can be opened.
+  if (p.senders === undefined) {
+    return {
+      sid: validateString('openBundle', 'sid', p.sid),
+      token: validateString('openBundle', 'token', p.token),
+      bundle,
+    };
+  }
   if (!Array.isArray(p.senders) || p.senders.length < 1 || p.senders.length > MAX_FANOUT_RECIPIENTS) {
     throw new RPCValidationError(
       'openBundle',
@@ -1003,6 +1234,109 @@ export function validateOpenBundle(params: unknown): {
   };
 }
 
+// === Attachments (secure-messaging §8) ===
+
+/** Max attachments one message carries. */
+const MAX_MESSAGE_ATTACHMENTS = 32;
+/** Max attachment plaintext (64 MiB). */
+const MAX_ATTACHMENT_BYTES = 64 * 1024 * 1024;
+/** Max attachment ciphertext: the plaintext cap plus chunk framing, with headroom. */
+const MAX_ATTACHMENT_CIPHERTEXT_BYTES = MAX_ATTACHMENT_BYTES + 1024 * 1024;
+/** Sealed attachment handle: iv(12) || pointer(68) || GCM tag(16). */
+const ATTACHMENT_HANDLE_BYTES = 96;
+
+function validateAttachmentHandle(method: string, paramName: string, value: unknown): ArrayBuffer {
+  return validateBufferOfLength(method, paramName, value, ATTACHMENT_HANDLE_BYTES);
+}
+
+export function validateEncryptAttachment(params: unknown): { sid: string; token: string; plaintext: ArrayBuffer } {
+  const p = validateParamsObject('encryptAttachment', params);
+  const plaintext = validateBuffer('encryptAttachment', 'plaintext', p.plaintext);
+  if (plaintext.byteLength > MAX_ATTACHMENT_BYTES) {
+    throw new RPCValidationError(
+      'encryptAttachment',
+      'plaintext',
+      `ArrayBuffer ≤ ${MAX_ATTACHMENT_BYTES} bytes`,
+      p.plaintext
+    );
+  }
+  return {
+    sid: validateString('encryptAttachment', 'sid', p.sid),
+    token: validateString('encryptAttachment', 'token', p.token),
+    plaintext,
+  };
+}
+
+export function validateDecryptAttachment(params: unknown): {
+  sid: string;
+  token: string;
+  handle: ArrayBuffer;
+  ciphertext: ArrayBuffer;
+} {
+  const p = validateParamsObject('decryptAttachment', params);
+  const ciphertext = validateBuffer('decryptAttachment', 'ciphertext', p.ciphertext);
+  if (ciphertext.byteLength === 0 || ciphertext.byteLength > MAX_ATTACHMENT_CIPHERTEXT_BYTES) {
+    throw new RPCValidationError(
+      'decryptAttachment',
+      'ciphertext',
+      `non-empty ArrayBuffer ≤ ${MAX_ATTACHMENT_CIPHERTEXT_BYTES} bytes`,
+      p.ciphertext
+    );
+  }
+  return {
+    sid: validateString('decryptAttachment', 'sid', p.sid),
+    token: validateString('decryptAttachment', 'token', p.token),
+    handle: validateAttachmentHandle('decryptAttachment', 'handle', p.handle),
+    ciphertext,
+  };
+}
+
+export function validateBeginAttachmentDecrypt(params: unknown): {
+  sid: string;
+  token: string;
+  handle: ArrayBuffer;
+} {
+  const p = validateParamsObject('beginAttachmentDecrypt', params);
+  return {
+    sid: validateString('beginAttachmentDecrypt', 'sid', p.sid),
+    token: validateString('beginAttachmentDecrypt', 'token', p.token),
+    handle: validateAttachmentHandle('beginAttachmentDecrypt', 'handle', p.handle),
+  };
+}
+
+export function validateFeedAttachmentDecrypt(params: unknown): {
+  sid: string;
+  token: string;
+  stream: string;
+  ciphertext: ArrayBuffer;
+} {
+  const p = validateParamsObject('feedAttachmentDecrypt', params);
+  const ciphertext = validateBuffer('feedAttachmentDecrypt', 'ciphertext', p.ciphertext);
+  if (ciphertext.byteLength === 0 || ciphertext.byteLength > MAX_ATTACHMENT_CIPHERTEXT_BYTES) {
+    throw new RPCValidationError(
+      'feedAttachmentDecrypt',
+      'ciphertext',
+      `non-empty ArrayBuffer ≤ ${MAX_ATTACHMENT_CIPHERTEXT_BYTES} bytes`,
+      p.ciphertext
+    );
+  }
+  return {
+    sid: validateString('feedAttachmentDecrypt', 'sid', p.sid),
+    token: validateString('feedAttachmentDecrypt', 'token', p.token),
+    stream: validateString('feedAttachmentDecrypt', 'stream', p.stream),
+    ciphertext,
+  };
+}
+
+export function validateFinishAttachmentDecrypt(params: unknown): { sid: string; token: string; stream: string } {
+  const p = validateParamsObject('finishAttachmentDecrypt', params);
+  return {
+    sid: validateString('finishAttachmentDecrypt', 'sid', p.sid),
+    token: validateString('finishAttachmentDecrypt', 'token', p.token),
+    stream: validateString('finishAttachmentDecrypt', 'stream', p.stream),
+  };
+}
+
 // === Account Root Operations (secure-messaging §18) ===
 
 /** Max recovery-phrase length in chars (24 words × ~9 chars + spaces, padded). */
@@ -1193,6 +1527,7 @@ export function validateVerifyContactDevice(params: unknown): {
   identityKey: ArrayBuffer;
   identitySigningKey: ArrayBuffer;
   cert: ArrayBuffer;
+  peerUserId?: string;
 } {
   const p = validateParamsObject('verifyContactDevice', params);
   return {
@@ -1202,6 +1537,130 @@ export function validateVerifyContactDevice(params: unknown): {
     identityKey: validateDevicePubKey('verifyContactDevice', 'identityKey', p.identityKey),
     identitySigningKey: validateDevicePubKey('verifyContactDevice', 'identitySigningKey', p.identitySigningKey),
     cert: validateBufferOfLength('verifyContactDevice', 'cert', p.cert, 64),
+    ...(p.peerUserId !== undefined && { peerUserId: validatePeerUserId('verifyContactDevice', p.peerUserId) }),
+  };
+}
+
+interface SafetyNumberParams {
+  sid: string;
+  token: string;
+  peerUserId: string;
+  masterSigningPub?: ArrayBuffer;
+  masterEncryptionPub?: ArrayBuffer;
+}
+
+/**
+ * Params shared by getSafetyNumber / verifySafetyNumber: the peer's uid and,
+ * optionally, raw master public keys (both or neither — without them the enclave
+ * uses the trust ledger's).
+ */
+function validateSafetyNumberParams(method: string, params: unknown): SafetyNumberParams {
+  const p = validateParamsObject(method, params);
+  const out: SafetyNumberParams = {
+    sid: validateString(method, 'sid', p.sid),
+    token: validateString(method, 'token', p.token),
+    peerUserId: validatePeerUserId(method, p.peerUserId),
+  };
+  if (p.masterSigningPub !== undefined || p.masterEncryptionPub !== undefined) {
+    out.masterSigningPub = validateBufferOfLength(method, 'masterSigningPub', p.masterSigningPub, 32);
+    out.masterEncryptionPub = validateBufferOfLength(method, 'masterEncryptionPub', p.masterEncryptionPub, 32);
+  }
+  return out;
+}
+
+export function validateGetSafetyNumber(params: unknown): ReturnType<typeof validateSafetyNumberParams> {
+  return validateSafetyNumberParams('getSafetyNumber', params);
+}
+
+export function validateVerifySafetyNumber(params: unknown): ReturnType<typeof validateSafetyNumberParams> {
+  return validateSafetyNumberParams('verifySafetyNumber', params);
+}
+
+// === Device rosters (rooms-and-trust §2.4) ===
+
+/** Max devices added or revoked by one roster update. */
+const MAX_ROSTER_CHANGES = 32;
+/** Max signed-roster bytes (32 devices + 256 revocations, base64url JSON, with headroom). */
+const MAX_ROSTER_BYTES = 64 * 1024;
+
+export function validateGetDeviceRoster(params: unknown): { sid: string; token: string } {
+  const p = validateParamsObject('getDeviceRoster', params);
+  return {
+    sid: validateString('getDeviceRoster', 'sid', p.sid),
+    token: validateString('getDeviceRoster', 'token', p.token),
+  };
+}
+
+function validateRosterChangeList(paramName: string, value: unknown): unknown[] {
+  if (!Array.isArray(value) || value.length > MAX_ROSTER_CHANGES) {
+    throw new RPCValidationError('updateDeviceRoster', paramName, `array of ≤ ${MAX_ROSTER_CHANGES}`, value);
+  }
+  return value;
+}
+
+export function validateUpdateDeviceRoster(params: unknown): {
+  sid: string;
+  token: string;
+  add?: Array<{ identityKey: ArrayBuffer; identitySigningKey: ArrayBuffer; cert: ArrayBuffer }>;
+  revoke?: ArrayBuffer[];
+} {
+  const p = validateParamsObject('updateDeviceRoster', params);
+  const out: {
+    sid: string;
+    token: string;
+    add?: Array<{ identityKey: ArrayBuffer; identitySigningKey: ArrayBuffer; cert: ArrayBuffer }>;
+    revoke?: ArrayBuffer[];
+  } = {
+    sid: validateString('updateDeviceRoster', 'sid', p.sid),
+    token: validateString('updateDeviceRoster', 'token', p.token),
+  };
+  if (p.add !== undefined) {
+    out.add = validateRosterChangeList('add', p.add).map((raw) => {
+      const d = validateParamsObject('updateDeviceRoster', raw);
+      return {
+        identityKey: validateDevicePubKey('updateDeviceRoster', 'add.identityKey', d.identityKey),
+        identitySigningKey: validateDevicePubKey('updateDeviceRoster', 'add.identitySigningKey', d.identitySigningKey),
+        cert: validateBufferOfLength('updateDeviceRoster', 'add.cert', d.cert, 64),
+      };
+    });
+  }
+  if (p.revoke !== undefined) {
+    out.revoke = validateRosterChangeList('revoke', p.revoke).map((key) =>
+      validateDevicePubKey('updateDeviceRoster', 'revoke', key)
+    );
+  }
+  return out;
+}
+
+function validateRosterBytes(method: string, paramName: string, value: unknown): ArrayBuffer {
+  const buf = validateBuffer(method, paramName, value);
+  if (buf.byteLength === 0 || buf.byteLength > MAX_ROSTER_BYTES) {
+    throw new RPCValidationError(method, paramName, `non-empty ArrayBuffer ≤ ${MAX_ROSTER_BYTES} bytes`, value);
+  }
+  return buf;
+}
+
+export function validateApplyDeviceRoster(params: unknown): { sid: string; token: string; ciphertext: ArrayBuffer } {
+  const p = validateParamsObject('applyDeviceRoster', params);
+  return {
+    sid: validateString('applyDeviceRoster', 'sid', p.sid),
+    token: validateString('applyDeviceRoster', 'token', p.token),
+    ciphertext: validateRosterBytes('applyDeviceRoster', 'ciphertext', p.ciphertext),
+  };
+}
+
+export function validateImportContactRoster(params: unknown): {
+  sid: string;
+  token: string;
+  peerUserId: string;
+  roster: ArrayBuffer;
+} {
+  const p = validateParamsObject('importContactRoster', params);
+  return {
+    sid: validateString('importContactRoster', 'sid', p.sid),
+    token: validateString('importContactRoster', 'token', p.token),
+    peerUserId: validatePeerUserId('importContactRoster', p.peerUserId),
+    roster: validateRosterBytes('importContactRoster', 'roster', p.roster),
   };
 }
 
@@ -1316,7 +1775,7 @@ export function validateSealContactAnnouncement(params: unknown): {
   identity?: string;
 } {
   const p = validateParamsObject('sealContactAnnouncement', params);
-  // Opaque caller-supplied blob (the PWA's serialized trust-ledger entry); bounded
+  // Opaque caller-supplied blob (the PWA's display data for the peer); bounded
   // to keep a self-channel announcement small. The enclave never interprets it.
   const identity = validateOptionalString('sealContactAnnouncement', 'identity', p.identity);
   if (identity !== undefined && identity.length > 4096) {
@@ -1360,22 +1819,63 @@ const MAX_INVITE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 /** Max sealed join-announcement ciphertext (a small identity card, padded). */
 const MAX_ANNOUNCEMENT_BYTES = 8192;
 
+/** Max room-name hint (matches the invite blob's name bound). */
+const MAX_ROOM_NAME_CHARS = 128;
+
 function validateInviteId(method: string, value: unknown): string {
   return validateBoundedString(method, 'inviteId', value, 128);
 }
 
+function validateRoomId(method: string, value: unknown): string {
+  return validateBoundedString(method, 'roomId', value, 128);
+}
+
 export function validateMintInvite(params: unknown): {
   sid: string;
   token: string;
   nameHint?: string;
   ttlMs?: number;
   singleUse?: boolean;
+  type?: InviteType;
+  roomId?: string;
+  roomName?: string;
 } {
   const p = validateParamsObject('mintInvite', params);
-  const out: { sid: string; token: string; nameHint?: string; ttlMs?: number; singleUse?: boolean } = {
+  const out: {
+    sid: string;
+    token: string;
+    nameHint?: string;
+    ttlMs?: number;
+    singleUse?: boolean;
+    type?: InviteType;
+    roomId?: string;
+    roomName?: string;
+  } = {
     sid: validateString('mintInvite', 'sid', p.sid),
     token: validateString('mintInvite', 'token', p.token),
   };
+  if (p.type !== undefined) {
+    if (p.type !== 'connect-1:1' && p.type !== 'room') {
+      throw new RPCValidationError('mintInvite', 'type', "'connect-1:1' or 'room'", p.type);
+    }
+    out.type = p.type;
+  }
+  if (out.type === 'room') {
+    if (p.singleUse === true) {
+      throw new ValidationError('RPC mintInvite: room invites are reusable (singleUse must not be true)');
+    }
+    if (p.roomId !== undefined) {
+      if (p.roomName !== undefined) {
+        throw new ValidationError('RPC mintInvite: roomName only applies when creating a room');
+      }
+      out.roomId = validateRoomId('mintInvite', p.roomId);
+    }
+    if (p.roomName !== undefined) {
+      out.roomName = validateBoundedString('mintInvite', 'roomName', p.roomName, MAX_ROOM_NAME_CHARS);
+    }
+  } else if (p.roomId !== undefined || p.roomName !== undefined) {
+    throw new ValidationError("RPC mintInvite: roomId and roomName require type 'room'");
+  }
   if (p.nameHint !== undefined) {
     out.nameHint = validateBoundedString('mintInvite', 'nameHint', p.nameHint, MAX_PEER_NAME_CHARS);
   }
@@ -1459,3 +1959,59 @@ export function validateListInvites(params: unknown): { sid: string; token: stri
     token: validateString('listInvites', 'token', p.token),
   };
 }
+
+// === Rooms (rooms-and-trust §3.3) ===
+
+/** Max sealed room-key update (secret + up to 64 member cards, signed and sealed). */
+const MAX_ROOM_KEY_BYTES = 64 * 1024;
+
+export function validateApplyRoomKey(params: unknown): { sid: string; token: string; roomKey: ArrayBuffer } {
+  const p = validateParamsObject('applyRoomKey', params);
+  const roomKey = validateBuffer('applyRoomKey', 'roomKey', p.roomKey);
+  if (roomKey.byteLength === 0 || roomKey.byteLength > MAX_ROOM_KEY_BYTES) {
+    throw new RPCValidationError(
+      'applyRoomKey',
+      'roomKey',
+      `non-empty ArrayBuffer ≤ ${MAX_ROOM_KEY_BYTES} bytes`,
+      p.roomKey
+    );
+  }
+  return {
+    sid: validateString('applyRoomKey', 'sid', p.sid),
+    token: validateString('applyRoomKey', 'token', p.token),
+    roomKey,
+  };
+}
+
+export function validateListRoomMembers(params: unknown): { sid: string; token: string; roomId: string } {
+  const p = validateParamsObject('listRoomMembers', params);
+  return {
+    sid: validateString('listRoomMembers', 'sid', p.sid),
+    token: validateString('listRoomMembers', 'token', p.token),
+    roomId: validateRoomId('listRoomMembers', p.roomId),
+  };
+}
+
+export function validateRemoveRoomMember(params: unknown): {
+  sid: string;
+  token: string;
+  roomId: string;
+  memberUid: string;
+} {
+  const p = validateParamsObject('removeRoomMember', params);
+  return {
+    sid: validateString('removeRoomMember', 'sid', p.sid),
+    token: validateString('removeRoomMember', 'token', p.token),
+    roomId: validateRoomId('removeRoomMember', p.roomId),
+    memberUid: validateBoundedString('removeRoomMember', 'memberUid', p.memberUid, 128),
+  };
+}
+
+export function validateRotateRoomSecret(params: unknown): { sid: string; token: string; roomId: string } {
+  const p = validateParamsObject('rotateRoomSecret', params);
+  return {
+    sid: validateString('rotateRoomSecret', 'sid', p.sid),
+    token: validateString('rotateRoomSecret', 'token', p.token),
+    roomId: validateRoomId('rotateRoomSecret', p.roomId),
+  };
+}
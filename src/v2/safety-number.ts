@@ -0,0 +1,202 @@
+/**
+ * Safety numbers (rooms-and-trust §4): a human-comparable rendering of a pair of
+ * identities, so two people can check over the phone or in person that each
+ * holds the other's real master keys.
+ *
+ * Each identity is reduced to a **safety digest**: SHA-512 iterated
+ * {@link SAFETY_ITERATIONS} times over its uid and both master public keys (the
+ * iteration count makes grinding a look-alike identity expensive). From the two
+ * digests we derive three equivalent renderings, identical on both sides:
+ *
+ *  - `digits` — 60 digits in 12 groups of 5: 30 per identity, the two halves in
+ *    sorted order so neither party's view depends on who is "local";
+ *  - `emoji` / `words` — a short sequence drawn from a hash of both digests, for
+ *    a quicker (if lower-entropy) spoken or visual check.
+ *
+ * The scannable form is a QR of `ats-sn:1:` + base64url(ourDigest || theirDigest)
+ * ({@link safetyQrSvg}). The peer scans it and {@link checkSafetyQr} confirms it
+ * names exactly the two identities the peer holds, in the mirrored order — a
+ * match proves both sides agree without anyone reading digits aloud. The QR
+ * carries only public digests.
+ */
+
+import { arrayBufferToBase64url, base64urlToArrayBuffer } from './crypto-utils';
+import { BIP39_WORDLIST } from './bip39-wordlist';
+import { ValidationError } from './errors';
+import { qrSvg } from './qr';
+
+/** Safety-number format version (bound into every digest and the QR prefix). */
+const SAFETY_VERSION = 1;
+
+/** SHA-512 rounds per identity digest. */
+const SAFETY_ITERATIONS = 5200;
+
+/** Bytes of a safety digest carried in the QR. */
+const DIGEST_BYTES = 32;
+
+/** Digits per identity (6 groups of 5), each group from 5 digest bytes. */
+const DIGIT_GROUPS = 6;
+
+const EMOJI_COUNT = 8;
+const WORD_COUNT = 6;
+
+/** Prefix of a safety-number QR's text. */
+export const SAFETY_QR_PREFIX = `ats-sn:${SAFETY_VERSION}:`;
+
+/**
+ * 64 visually distinct emoji (6 bits each), in a fixed, load-bearing order —
+ * reordering changes every emoji sequence.
+ */
+const EMOJI: readonly string[] = Object.freeze([
+  '🐶', '🐱', '🦁', '🐴', '🦄', '🐷', '🐘', '🐰',
+  '🐼', '🐓', '🐧', '🐢', '🐟', '🐙', '🦋', '🌷',
+  '🌳', '🌵', '🍄', '🌏', '🌙', '☁️', '🔥', '🍌',
+  '🍎', '🍓', '🌽', '🍕', '🎂', '❤️', '😀', '🤖',
+  '🎩', '👓', '🔧', '🎅', '👍', '☂️', '⌛', '⏰',
+  '🎁', '💡', '📕', '✏️', '📎', '✂️', '🔒', '🔑',
+  '🔨', '☎️', '🏁', '🚂', '🚲', '✈️', '🚀', '🏆',
+  '⚽', '🎸', '🎺', '🔔', '⚓', '🎧', '📁', '📌',
+]);
+
+/** One side of a safety number: an account's uid and raw 32-byte master public keys. */
+export interface SafetyIdentity {
+  uid: string;
+  /** Master signing public key (Ed25519), raw. */
+  msk: Uint8Array;
+  /** Master encryption public key (X25519), raw. */
+  mek: Uint8Array;
+}
+
+/** The renderings of one pair's safety number. */
+export interface SafetyNumber {
+  /** 60 digits in 12 space-separated groups of 5; the same on both sides. */
+  digits: string;
+  /** {@link EMOJI_COUNT} emoji; the same on both sides. */
+  emoji: string[];
+  /** {@link WORD_COUNT} BIP-39 words; the same on both sides. */
+  words: string[];
+  /** Text of THIS side's QR code, for the peer to scan ({@link checkSafetyQr}). */
+  qr: string;
+}
+
+/** Compute the safety number between our identity and a peer's. */
+export async function computeSafetyNumber(ours: SafetyIdentity, theirs: SafetyIdentity): Promise<SafetyNumber> {
+  const [a, b] = await Promise.all([safetyDigest(ours), safetyDigest(theirs)]);
+  const halves = [digitsOf(a), digitsOf(b)].sort();
+  const sorted = compareBytes(a, b) <= 0 ? [a, b] : [b, a];
+  const mixed = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', concat(new TextEncoder().encode(SAFETY_QR_PREFIX), ...sorted))
+  );
+
+  const qrBytes = concat(a.subarray(0, DIGEST_BYTES), b.subarray(0, DIGEST_BYTES));
+  return {
+    digits: halves.join('').replace(/(\d{5})(?=\d)/g, '$1 '),
+    emoji: readBits(mixed, 6, EMOJI_COUNT).map((i) => EMOJI[i]!),
+    words: readBits(mixed, 11, WORD_COUNT).map((i) => BIP39_WORDLIST[i]!),
+    qr: SAFETY_QR_PREFIX + arrayBufferToBase64url(qrBytes.buffer),
+  };
+}
+
+/** Render a safety number's QR as a self-contained SVG (see {@link qrSvg}). */
+export function safetyQrSvg(safety: SafetyNumber): string {
+  return qrSvg(safety.qr);
+}
+
+/** Whether `text` (e.g. a scanned QR) looks like a safety-number QR. */
+export function isSafetyQr(text: string): boolean {
+  return text.startsWith(SAFETY_QR_PREFIX);
+}
+
+/**
+ * Check a QR scanned from the peer's screen: `true` iff it is the peer's code
+ * for this very pair — its first digest is `theirs` and its second is `ours`.
+ * `false` on a well-formed code for any other pair (a wrong or substituted key).
+ *
+ * @throws ValidationError if `scanned` is not a safety-number QR of this version.
+ */
+export async function checkSafetyQr(scanned: string, ours: SafetyIdentity, theirs: SafetyIdentity): Promise<boolean> {
+  if (!isSafetyQr(scanned)) {
+    throw new ValidationError('Not a safety-number QR code');
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = new Uint8Array(base64urlToArrayBuffer(scanned.slice(SAFETY_QR_PREFIX.length)));
+  } catch {
+    throw new ValidationError('Not a safety-number QR code');
+  }
+  if (bytes.length !== 2 * DIGEST_BYTES) {
+    throw new ValidationError('Not a safety-number QR code');
+  }
+  const [a, b] = await Promise.all([safetyDigest(ours), safetyDigest(theirs)]);
+  return (
+    compareBytes(bytes.subarray(0, DIGEST_BYTES), b.subarray(0, DIGEST_BYTES)) === 0 &&
+    compareBytes(bytes.subarray(DIGEST_BYTES), a.subarray(0, DIGEST_BYTES)) === 0
+  );
+}
+
+// ============================================================================
+// Internals
+// ============================================================================
+
+/**
+ * An identity's safety digest: SHA-512(version || msk || mek || uid), then
+ * re-hashed with both keys {@link SAFETY_ITERATIONS} times (64 bytes).
+ */
+async function safetyDigest(identity: SafetyIdentity): Promise<Uint8Array> {
+  if (identity.msk.length !== 32 || identity.mek.length !== 32) {
+    throw new ValidationError('Master public keys must be 32 bytes');
+  }
+  const version = new Uint8Array([0, SAFETY_VERSION]);
+  const keys = concat(identity.msk, identity.mek);
+  let hash: Uint8Array = new Uint8Array(
+    await crypto.subtle.digest('SHA-512', concat(version, keys, new TextEncoder().encode(identity.uid)))
+  );
+  for (let i = 0; i < SAFETY_ITERATIONS; i++) {
+    hash = new Uint8Array(await crypto.subtle.digest('SHA-512', concat(hash, keys)));
+  }
+  return hash;
+}
+
+/** 30 digits from a digest: 6 groups, each a 5-byte big-endian integer mod 100000. */
+function digitsOf(digest: Uint8Array): string {
+  let out = '';
+  for (let g = 0; g < DIGIT_GROUPS; g++) {
+    let n = 0;
+    for (let i = 0; i < 5; i++) {
+      n = n * 256 + digest[g * 5 + i]!;
+    }
+    out += String(n % 100000).padStart(5, '0');
+  }
+  return out;
+}
+
+/** Read `count` consecutive big-endian `bits`-bit integers from the start of `bytes`. */
+function readBits(bytes: Uint8Array, bits: number, count: number): number[] {
+  const out: number[] = [];
+  for (let k = 0; k < count; k++) {
+    let v = 0;
+    for (let j = 0; j < bits; j++) {
+      const bit = k * bits + j;
+      v = (v << 1) | ((bytes[bit >> 3]! >> (7 - (bit & 7))) & 1);
+    }
+    out.push(v);
+  }
+  return out;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) {
+    out.set(p, off);
+    off += p.length;
+  }
+  return out;
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i]! - b[i]!;
+  }
+  return a.length - b.length;
+}
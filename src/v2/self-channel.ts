@@ -24,6 +24,7 @@
  */
 
 import { arrayBufferToBase64url, deriveDeterministicSalt } from './crypto-utils';
+import { ValidationError } from './errors';
 
 // ============================================================================
 // Constants
@@ -156,7 +157,7 @@ export async function decryptSelfMessage(
 ): Promise<Uint8Array> {
   const bytes = blob instanceof Uint8Array ? blob : new Uint8Array(blob);
   if (bytes.length <= IV_BYTES) {
-    throw new Error('Malformed self-channel message: too short');
+    throw new ValidationError('Malformed self-channel message: too short');
   }
   // Copy into fresh ArrayBuffer-backed views (subarray preserves the source's
   // ArrayBufferLike, which does not satisfy WebCrypto's BufferSource).
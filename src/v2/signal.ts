@@ -12,6 +12,9 @@
  *  - prekey generation ({@link generateIdentity}, {@link generateSignedPrekey},
  *    {@link generateOneTimePrekeys}) and {@link getPublicBundle}, which returns
  *    only public bytes (no unlock needed) for upload to the directory server.
+ *  - the prekey lifecycle ({@link maintainPrekeys}): one-time prekey top-up
+ *    below a watermark, signed-prekey rotation by age, and deletion of
+ *    superseded signed prekeys after a grace window.
  *
  * Identity is the WebCrypto two-key form: an X25519 DH key (X3DH) plus an
  * Ed25519 signing key (signs signed-prekeys). Both public halves travel in the
@@ -48,17 +51,20 @@ import {
   getSignalTrustedIdentity,
   putSignalTrustedIdentity,
 } from './storage';
+import { markContactChanged } from './trust-store';
 import type {
   SignalIdentityRecord,
   SignalSignedPrekeyRecord,
   SignalOnetimePrekeyRecord,
   PublicPreKeyBundle,
+  PrekeyBundleDelta,
 } from './types';
 import {
   arrayBufferToBase64url,
   base64urlToArrayBuffer,
   timingSafeEqual,
 } from './crypto-utils';
+import { KMSError } from './errors';
 
 // ============================================================================
 // Constants
@@ -67,9 +73,49 @@ import {
 /** AAD schema version; bump if the blob-context binding shape changes. */
 const SIGNAL_AAD_VERSION = 'signal/1';
 
-/** Default signed-prekey lifetime (rotation cadence is enforced elsewhere). */
+/** Default signed-prekey lifetime (rotation cadence is set by the prekey policy). */
 const SIGNED_PREKEY_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
 
+/** Signal key ids live in the 24-bit medium-id space (1..0xFFFFFF). */
+const MAX_PREKEY_ID = 0xffffff;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When {@link maintainPrekeys} replenishes one-time prekeys and rotates the
+ * signed prekey.
+ */
+export interface PrekeyPolicy {
+  /** Replenish once fewer unconsumed one-time prekeys than this remain */
+  lowWatermark: number;
+  /** Unconsumed one-time prekeys after a replenishment */
+  targetCount: number;
+  /** Rotate the signed prekey once the newest one is older than this (ms) */
+  signedPrekeyMaxAgeMs: number;
+  /**
+   * Keep a superseded signed prekey this long after its successor was created
+   * (ms), so a peer holding the old bundle can still start a session
+   */
+  signedPrekeyGraceMs: number;
+}
+
+export const DEFAULT_PREKEY_POLICY: PrekeyPolicy = {
+  lowWatermark: 10,
+  targetCount: 20,
+  signedPrekeyMaxAgeMs: 7 * DAY_MS,
+  signedPrekeyGraceMs: 30 * DAY_MS,
+};
+
+let prekeyPolicy: PrekeyPolicy = DEFAULT_PREKEY_POLICY;
+
+/**
+ * Set the policy {@link maintainPrekeys} applies. Applies to this worker
+ * instance until changed again.
+ */
+export function setPrekeyPolicy(policy: PrekeyPolicy): void {
+  prekeyPolicy = policy;
+}
+
 // ============================================================================
 // AAD + (de)serialization helpers
 // ============================================================================
@@ -196,7 +242,7 @@ export async function generateSignedPrekey(
 ): Promise<SignalSignedPrekeyRecord> {
   const identityRecord = await getSignalIdentity(userId);
   if (!identityRecord) {
-    throw new Error(`No Signal identity for user ${userId}; call generateIdentity first`);
+    throw new KMSError('NOT_SETUP', `No Signal identity for user ${userId}; call generateIdentity first`);
   }
   const identity = await unwrapIdentity(identityRecord, userId, mkek);
   const signed = await KeyHelper.generateSignedPreKey(identity, keyId);
@@ -228,11 +274,22 @@ export async function generateOneTimePrekeys(
   mkek: CryptoKey,
   startKeyId: number,
   count: number
+): Promise<SignalOnetimePrekeyRecord[]> {
+  return generateOneTimePrekeysWithIds(
+    userId,
+    mkek,
+    Array.from({ length: count }, (_, i) => startKeyId + i)
+  );
+}
+
+async function generateOneTimePrekeysWithIds(
+  userId: string,
+  mkek: CryptoKey,
+  keyIds: number[]
 ): Promise<SignalOnetimePrekeyRecord[]> {
   const now = Date.now();
   const records: SignalOnetimePrekeyRecord[] = [];
-  for (let i = 0; i < count; i++) {
-    const keyId = startKeyId + i;
+  for (const keyId of keyIds) {
     const preKey = await KeyHelper.generatePreKey(keyId);
     const wrappedKeyPair = await wrapBlob(
       serializeKeyPair(preKey.keyPair),
@@ -252,6 +309,92 @@ export async function generateOneTimePrekeys(
   return records;
 }
 
+// ============================================================================
+// Prekey lifecycle
+// ============================================================================
+
+/**
+ * The next `count` key ids after the highest one ever used, wrapping within
+ * 1..0xFFFFFF and skipping ids still held. Consumed one-time prekeys keep their
+ * records, so an id is never handed out twice until the space wraps.
+ */
+function allocateKeyIds(used: Set<number>, count: number): number[] {
+  const ids: number[] = [];
+  let id = 0;
+  for (const usedId of used) {
+    id = Math.max(id, usedId);
+  }
+  while (ids.length < count) {
+    id = id >= MAX_PREKEY_ID ? 1 : id + 1;
+    if (!used.has(id)) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Apply the prekey policy to a user's prekeys and report what changed:
+ * - rotate the signed prekey when the newest one is older than
+ *   `signedPrekeyMaxAgeMs`;
+ * - delete signed prekeys whose successor is older than `signedPrekeyGraceMs`;
+ * - top unconsumed one-time prekeys back up to `targetCount` once fewer than
+ *   `lowWatermark` remain.
+ *
+ * The enclave picks every key id. Callers serialise runs per user, since two
+ * concurrent runs would allocate the same ids.
+ */
+export async function maintainPrekeys(
+  userId: string,
+  mkek: CryptoKey,
+  policy: PrekeyPolicy = prekeyPolicy
+): Promise<PrekeyBundleDelta> {
+  const now = Date.now();
+  const delta: PrekeyBundleDelta = { oneTimePreKeys: [], deletedSignedPreKeyIds: [], oneTimePrekeyCount: 0 };
+
+  let signedPrekeys = await getSignalSignedPrekeys(userId);
+  const newest = signedPrekeys.reduce<SignalSignedPrekeyRecord | undefined>(
+    (acc, candidate) => (acc && acc.createdAt >= candidate.createdAt ? acc : candidate),
+    undefined
+  );
+  if (!newest || now - newest.createdAt >= policy.signedPrekeyMaxAgeMs) {
+    const [keyId] = allocateKeyIds(new Set(signedPrekeys.map((r) => r.keyId)), 1);
+    const rotated = await generateSignedPrekey(userId, mkek, keyId!);
+    delta.signedPreKey = { keyId: rotated.keyId, publicKey: rotated.signedPubKey, signature: rotated.signature };
+    signedPrekeys = [...signedPrekeys, rotated];
+  }
+
+  // Every signed prekey but the newest is superseded from its successor's createdAt
+  const byAge = [...signedPrekeys].sort((a, b) => a.createdAt - b.createdAt || a.keyId - b.keyId);
+  for (let i = 0; i < byAge.length - 1; i++) {
+    const successor = byAge[i + 1]!;
+    if (now - successor.createdAt >= policy.signedPrekeyGraceMs) {
+      await deleteSignalSignedPrekey(userId, byAge[i]!.keyId);
+      delta.deletedSignedPreKeyIds.push(byAge[i]!.keyId);
+    }
+  }
+
+  const oneTime = await getSignalOnetimePrekeys(userId);
+  const unconsumed = oneTime.filter((pk) => !pk.consumed).length;
+  delta.oneTimePrekeyCount = unconsumed;
+  if (unconsumed < policy.lowWatermark) {
+    const count = Math.max(0, policy.targetCount - unconsumed);
+    const keyIds = allocateKeyIds(new Set(oneTime.map((pk) => pk.keyId)), count);
+    const added = await generateOneTimePrekeysWithIds(userId, mkek, keyIds);
+    delta.oneTimePreKeys = added.map((pk) => ({ keyId: pk.keyId, publicKey: pk.pubKey }));
+    delta.oneTimePrekeyCount = unconsumed + added.length;
+  }
+
+  return delta;
+}
+
+/** Whether {@link maintainPrekeys} changed anything the directory must learn about. */
+export function isPrekeyDeltaEmpty(delta: PrekeyBundleDelta): boolean {
+  return (
+    delta.signedPreKey === undefined && delta.oneTimePreKeys.length === 0 && delta.deletedSignedPreKeyIds.length === 0
+  );
+}
+
 // ============================================================================
 // Public bundle (public bytes only — no unlock required)
 // ============================================================================
@@ -268,11 +411,11 @@ export type { PublicPreKeyBundle };
 export async function getPublicBundle(userId: string): Promise<PublicPreKeyBundle> {
   const identity = await getSignalIdentity(userId);
   if (!identity) {
-    throw new Error(`No Signal identity for user ${userId}`);
+    throw new KMSError('NOT_SETUP', `No Signal identity for user ${userId}`);
   }
   const signedPrekeys = await getSignalSignedPrekeys(userId);
   if (signedPrekeys.length === 0) {
-    throw new Error(`No signed prekey for user ${userId}`);
+    throw new KMSError('NOT_SETUP', `No signed prekey for user ${userId}`);
   }
   // Use the most recently created signed prekey.
   const signed = signedPrekeys.reduce((newest, candidate) =>
@@ -296,6 +439,16 @@ export async function getPublicBundle(userId: string): Promise<PublicPreKeyBundl
 // StorageType adapter
 // ============================================================================
 
+/**
+ * The contact a Signal address belongs to: the name part of `name.deviceId`
+ * (the library's `SignalProtocolAddress.toString()`). Names may contain dots,
+ * so split at the last one.
+ */
+export function addressName(encodedAddress: string): string {
+  const dot = encodedAddress.lastIndexOf('.');
+  return dot > 0 ? encodedAddress.slice(0, dot) : encodedAddress;
+}
+
 /**
  * Build a `StorageType` for one user, with the MKEK captured in-closure. Every
  * read unwraps and every write rewraps against the MKEK; the key is never
@@ -303,6 +456,27 @@ export async function getPublicBundle(userId: string): Promise<PublicPreKeyBundl
  * session closes (the MKEK leaves memory with it).
  */
 export function createSignalProtocolStore(userId: string, mkek: CryptoKey): StorageType {
+  // Identity saves take effect with the session store that ends the library's
+  // job on an address. A decrypt saves the sender's identity before the message
+  // MAC is checked but stores its session only after, so a failed trial
+  // decryption records no identity and flags no contact `changed` (§4). Every
+  // job starts by loading the session, which drops what a failed job left.
+  const pendingIdentities = new Map<string, { publicKey: ArrayBuffer; changed: boolean }>();
+  const storedSessions = new Set<string>();
+
+  const commitIdentity = async (encodedAddress: string, publicKey: ArrayBuffer, changed: boolean): Promise<void> => {
+    const existing = await getSignalTrustedIdentity(userId, encodedAddress);
+    const now = Date.now();
+    await putSignalTrustedIdentity(
+      existing
+        ? { ...existing, identityPubKey: publicKey, updatedAt: now }
+        : { userId, peerAddress: encodedAddress, identityPubKey: publicKey, firstSeenAt: now, updatedAt: now }
+    );
+    if (changed) {
+      await markContactChanged(userId, addressName(encodedAddress));
+    }
+  };
+
   return {
     getIdentityKeyPair: async (): Promise<IdentityKeyPairType | undefined> => {
       const record = await getSignalIdentity(userId);
@@ -320,6 +494,7 @@ export function createSignalProtocolStore(userId: string, mkek: CryptoKey): Stor
     isTrustedIdentity: async (identifier: string, identityKey: ArrayBuffer): Promise<boolean> => {
       // Trust-on-first-use: an unseen peer is trusted; a changed key is not (the
       // RPC/UI layer surfaces the change). `identifier` is the peer address.
+      // Called before the message authenticates, so it changes no state.
       const record = await getSignalTrustedIdentity(userId, identifier);
       if (!record) {
         return true;
@@ -329,24 +504,14 @@ export function createSignalProtocolStore(userId: string, mkek: CryptoKey): Stor
 
     saveIdentity: async (encodedAddress: string, publicKey: ArrayBuffer): Promise<boolean> => {
       const existing = await getSignalTrustedIdentity(userId, encodedAddress);
-      const now = Date.now();
-      if (!existing) {
-        await putSignalTrustedIdentity({
-          userId,
-          peerAddress: encodedAddress,
-          identityPubKey: publicKey,
-          firstSeenAt: now,
-          updatedAt: now,
-        });
-        return false;
-      }
-      const changed = !timingSafeEqual(existing.identityPubKey, publicKey);
-      if (changed) {
-        await putSignalTrustedIdentity({
-          ...existing,
-          identityPubKey: publicKey,
-          updatedAt: now,
-        });
+      const changed = existing !== null && !timingSafeEqual(existing.identityPubKey, publicKey);
+      if (existing && !changed) {
+        pendingIdentities.delete(encodedAddress);
+      } else if (storedSessions.has(encodedAddress)) {
+        // An outbound session setup stores its session and saves concurrently
+        await commitIdentity(encodedAddress, publicKey, changed);
+      } else {
+        pendingIdentities.set(encodedAddress, { publicKey, changed });
       }
       return changed;
     },
@@ -414,7 +579,7 @@ export function createSignalProtocolStore(userId: string, mkek: CryptoKey): Stor
       const id = Number(keyId);
       const identityRecord = await getSignalIdentity(userId);
       if (!identityRecord) {
-        throw new Error(`No Signal identity for user ${userId}`);
+        throw new KMSError('NOT_SETUP', `No Signal identity for user ${userId}`);
       }
       const identity = await unwrapIdentity(identityRecord, userId, mkek);
       const signed = await KeyHelper.generateSignedPreKey(identity, id);
@@ -453,9 +618,17 @@ export function createSignalProtocolStore(userId: string, mkek: CryptoKey): Stor
         updatedAt: Date.now(),
         messageCount: (existing?.messageCount ?? 0) + 1,
       });
+      storedSessions.add(encodedAddress);
+      const pending = pendingIdentities.get(encodedAddress);
+      if (pending) {
+        pendingIdentities.delete(encodedAddress);
+        await commitIdentity(encodedAddress, pending.publicKey, pending.changed);
+      }
     },
 
     loadSession: async (encodedAddress: string): Promise<string | undefined> => {
+      pendingIdentities.delete(encodedAddress);
+      storedSessions.delete(encodedAddress);
       const record = await getSignalSession(userId, encodedAddress);
       if (!record) {
         return undefined;
@@ -6,14 +6,35 @@
  * These utilities provide type-safe access to stored data structures.
  */
 
+import type { QuotaState, WrappedBlob } from './types';
+
 /**
- * Rate limit state structure stored in IndexedDB
+ * Rate limit state structure stored in IndexedDB (meta key `quota:{leaseId}`).
+ * The accounting over it lives in rate-limit.ts.
  */
 export interface RateLimitState {
+  /** Issuance timestamps (ms) inside the trailing hour, ascending */
+  issuedAt: number[];
+  /** Tokens left in the send bucket (capacity burstSends) */
+  sendTokens: number;
+  /** Last time the send bucket was refilled (Unix timestamp, ms) */
+  lastRefillAt: number;
+  /** Per-endpoint issuance request timestamps (ms) inside the trailing minute */
+  perEndpoint: Record<string, number[]>;
+}
+
+/**
+ * Pre-token-bucket rate limit state (a single hourly counter).
+ */
+interface LegacyRateLimitState {
   tokensIssued: number;
   lastResetAt: number; // Unix timestamp
 }
 
+function isTimestampList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((t) => typeof t === 'number');
+}
+
 /**
  * Type guard for rate limit state
  * Validates structure at runtime to ensure safe access.
@@ -25,25 +46,72 @@ export function isRateLimitState(value: unknown): value is RateLimitState {
   if (typeof value !== 'object' || value === null) return false;
   const state = value as Partial<RateLimitState>;
   return (
-    typeof state.tokensIssued === 'number' &&
-    typeof state.lastResetAt === 'number'
+    isTimestampList(state.issuedAt) &&
+    typeof state.sendTokens === 'number' &&
+    typeof state.lastRefillAt === 'number' &&
+    typeof state.perEndpoint === 'object' &&
+    state.perEndpoint !== null &&
+    Object.values(state.perEndpoint).every(isTimestampList)
   );
 }
 
+function isLegacyRateLimitState(value: unknown): value is LegacyRateLimitState {
+  if (typeof value !== 'object' || value === null) return false;
+  const state = value as Partial<LegacyRateLimitState>;
+  return typeof state.tokensIssued === 'number' && typeof state.lastResetAt === 'number';
+}
+
+/**
+ * Fresh rate limit state for a new lease: empty windows, full send bucket.
+ *
+ * @param quotas - The lease's quotas
+ * @param now - Current time in milliseconds
+ */
+export function createRateLimitState(quotas: QuotaState, now: number = Date.now()): RateLimitState {
+  return {
+    issuedAt: [],
+    sendTokens: quotas.burstSends,
+    lastRefillAt: now,
+    perEndpoint: {},
+  };
+}
+
 /**
  * Safely load rate limit state with default fallback.
  * Returns valid state or default if stored data is invalid/missing.
  *
+ * State written before the token bucket (`{ tokensIssued, lastResetAt }`) is
+ * carried over: its hourly count stays in the window until the hour it was
+ * counted in ends.
+ *
  * @param rawState - Unknown value from storage
+ * @param quotas - The lease's quotas (sizes the default send bucket)
+ * @param now - Current time in milliseconds
  * @returns Validated rate limit state or default
  */
-export function loadRateLimitState(rawState: unknown): RateLimitState {
+export function loadRateLimitState(
+  rawState: unknown,
+  quotas: QuotaState,
+  now: number = Date.now()
+): RateLimitState {
   if (isRateLimitState(rawState)) {
     return rawState;
   }
+
   // Return default state if invalid or missing
-  return {
-    tokensIssued: 0,
-    lastResetAt: Date.now(),
-  };
+  const state = createRateLimitState(quotas, now);
+
+  if (isLegacyRateLimitState(rawState) && rawState.lastResetAt > now - 3600 * 1000) {
+    state.issuedAt = Array<number>(Math.max(0, rawState.tokensIssued)).fill(rawState.lastResetAt);
+  }
+  return state;
+}
+
+/**
+ * Type guard for an AES-GCM {@link WrappedBlob} nested in a stored record.
+ */
+export function isWrappedBlob(value: unknown): value is WrappedBlob {
+  if (typeof value !== 'object' || value === null) return false;
+  const v = value as Partial<WrappedBlob>;
+  return v.ciphertext instanceof ArrayBuffer && v.iv instanceof ArrayBuffer && v.aad instanceof ArrayBuffer;
 }
@@ -7,6 +7,10 @@
  * - keys: Wrapped application keys (VAPID, Signal, etc.)
  * - leases: VAPID lease records
  * - audit: Tamper-evident audit log entries
+ * - push-subscription: Web Push subscriptions per [user, endpoint]
+ * - messaging-room: rooms (members + wrapped room secret) per [user, room]
+ * - messaging-trust: contact trust ledger (master keys + verification state) per [user, peer]
+ * - messaging-roster: newest master-signed device roster per [user, account]
  *
  * All operations are asynchronous and return Promises. The module automatically
  * initializes the database on first use with lazy loading via getDB().
@@ -18,6 +22,7 @@ import type {
   AuditEntryV2,
   LeaseRecord,
   StoredPushSubscription,
+  PushSubscriptionRecord,
   WrappedBlob,
   SignalIdentityRecord,
   SignalSignedPrekeyRecord,
@@ -27,6 +32,9 @@ import type {
   MessagingAccountRecord,
   MessagingContactRecord,
   MessagingInviteRecord,
+  MessagingRoomRecord,
+  MessagingTrustRecord,
+  MessagingRosterRecord,
 } from './types';
 import { buildKeyWrapAAD } from './crypto-utils';
 
@@ -38,9 +46,11 @@ export const DB_NAME = 'kms-v2';
 /**
  * Current schema version. v2 added the Signal messaging stores; v3 the per-device
  * account-root store; v4 the per-contact pairing-secret store (secure-messaging
- * §5). Every increment must add a numbered entry to {@link MIGRATIONS}.
+ * §5); v5 armed invites; v6 the push subscription registry; v7 rooms; v8 the
+ * contact trust ledger; v9 device rosters. Every increment must add a numbered
+ * entry to {@link MIGRATIONS}.
  */
-export const DB_VERSION = 5;
+export const DB_VERSION = 9;
 
 /** Names of the Signal messaging object stores (added in v2). */
 export type SignalStoreName =
@@ -145,6 +155,45 @@ const MIGRATIONS: Record<number, (db: IDBDatabase) => void> = {
       store.createIndex('by-userId', 'userId', { unique: false });
     }
   },
+  // v6: push subscription registry. Compound key scopes each subscription to
+  // (userId, eid) so a user's devices no longer overwrite each other. Additive:
+  // the single subscription v1-v5 kept on the VAPID key record is moved over
+  // lazily (see adoptLegacyPushSubscriptions), since it carries no userId.
+  6: (database) => {
+    if (!database.objectStoreNames.contains('push-subscription')) {
+      const store = database.createObjectStore('push-subscription', {
+        keyPath: ['userId', 'eid'],
+      });
+      store.createIndex('by-userId', 'userId', { unique: false });
+    }
+  },
+  // v7: rooms (rooms-and-trust §3.3). Compound key scopes each room to (userId,
+  // roomId); the room secret inside is wrapped under the messagingKEK. Additive.
+  7: (database) => {
+    if (!database.objectStoreNames.contains('messaging-room')) {
+      const store = database.createObjectStore('messaging-room', {
+        keyPath: ['userId', 'roomId'],
+      });
+      store.createIndex('by-userId', 'userId', { unique: false });
+    }
+  },
+  // v8: contact trust ledger (rooms-and-trust §4). Compound key, one entry per
+  // (userId, peerUserId); public keys and state only, nothing wrapped. Additive.
+  8: (database) => {
+    if (!database.objectStoreNames.contains('messaging-trust')) {
+      const store = database.createObjectStore('messaging-trust', {
+        keyPath: ['userId', 'peerUserId'],
+      });
+      store.createIndex('by-userId', 'userId', { unique: false });
+    }
+  },
+  // v9: device rosters (rooms-and-trust §2.4). Compound key, the newest roster
+  // per (userId, ownerUid) — our own and each contact's. Public data. Additive.
+  9: (database) => {
+    if (!database.objectStoreNames.contains('messaging-roster')) {
+      database.createObjectStore('messaging-roster', { keyPath: ['userId', 'ownerUid'] });
+    }
+  },
 };
 
 /**
@@ -178,6 +227,10 @@ let db: IDBDatabase | null = null;
  * - v3: `messaging-account`
  * - v4: `messaging-contact`
  * - v5: `messaging-invite`
+ * - v6: `push-subscription`
+ * - v7: `messaging-room`
+ * - v8: `messaging-trust`
+ * - v9: `messaging-roster`
  *
  * This function is idempotent and safe to call multiple times. Upgrading an
  * existing database only runs the newer migrations and preserves prior data.
@@ -263,6 +316,119 @@ export async function clearAllStores(): Promise<void> {
   });
 }
 
+/**
+ * Read every record of every object store in one readonly transaction, so the
+ * snapshot is consistent. Records come back in key order (the `audit` store's
+ * auto-increment key is insertion order); keys are not returned because every
+ * store except `audit` keeps its key inside the record.
+ *
+ * Used by backup export.
+ */
+export async function snapshotAllStores(): Promise<Record<string, unknown[]>> {
+  const database = await getDB();
+  const storeNames = Array.from(database.objectStoreNames);
+  const snapshot: Record<string, unknown[]> = {};
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeNames, 'readonly');
+    transaction.oncomplete = (): void => resolve(snapshot);
+    /* c8 ignore next 3 */
+    transaction.onerror = (): void => {
+      reject(new Error(`Failed to snapshot stores: ${transaction.error?.message ?? 'unknown'}`));
+    };
+    for (const name of storeNames) {
+      const request = transaction.objectStore(name).getAll();
+      request.onsuccess = (): void => {
+        snapshot[name] = request.result as unknown[];
+      };
+    }
+  });
+}
+
+/**
+ * Replace the contents of every object store with `snapshot`, atomically: the
+ * clear and all puts share one readwrite transaction, so a failure leaves the
+ * previous data untouched. Stores missing from the snapshot end up empty.
+ *
+ * Used by backup import.
+ *
+ * @throws if the snapshot names a store this schema does not have
+ */
+export async function replaceAllStores(snapshot: Record<string, unknown[]>): Promise<void> {
+  const database = await getDB();
+  const storeNames = Array.from(database.objectStoreNames);
+  for (const name of Object.keys(snapshot)) {
+    if (!storeNames.includes(name)) {
+      throw new Error(`Unknown object store: ${name}`);
+    }
+  }
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeNames, 'readwrite');
+    transaction.oncomplete = (): void => resolve();
+    /* c8 ignore next 6 */
+    transaction.onerror = (): void => {
+      reject(new Error(`Failed to replace stores: ${transaction.error?.message ?? 'unknown'}`));
+    };
+    transaction.onabort = (): void => {
+      reject(new Error(`Replace-stores transaction aborted: ${transaction.error?.message ?? 'unknown'}`));
+    };
+    try {
+      for (const name of storeNames) {
+        const store = transaction.objectStore(name);
+        store.clear();
+        for (const record of snapshot[name] ?? []) {
+          store.put(record);
+        }
+      }
+    } catch (err) {
+      // A record the store rejects outright (e.g. missing its key path) must not
+      // leave a half-written database behind: abort so the clear rolls back too.
+      transaction.abort();
+      reject(err instanceof Error ? err : new Error(String(err)));
+    }
+  });
+}
+
+/**
+ * Write records to several stores in one readwrite transaction, so they land
+ * together or not at all. Records are put (insert or overwrite by key).
+ *
+ * Used by Master Secret rotation, where a partial write would leave keys
+ * wrapped under two different MKEKs.
+ *
+ * @throws if a store name is not part of this schema
+ */
+export async function putRecords(batch: Record<string, unknown[]>): Promise<void> {
+  const database = await getDB();
+  const storeNames = Object.keys(batch);
+  for (const name of storeNames) {
+    if (!database.objectStoreNames.contains(name)) {
+      throw new Error(`Unknown object store: ${name}`);
+    }
+  }
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeNames, 'readwrite');
+    transaction.oncomplete = (): void => resolve();
+    /* c8 ignore next 6 */
+    transaction.onerror = (): void => {
+      reject(new Error(`Failed to write records: ${transaction.error?.message ?? 'unknown'}`));
+    };
+    transaction.onabort = (): void => {
+      reject(new Error(`Write-records transaction aborted: ${transaction.error?.message ?? 'unknown'}`));
+    };
+    try {
+      for (const name of storeNames) {
+        const store = transaction.objectStore(name);
+        for (const record of batch[name] ?? []) {
+          store.put(record);
+        }
+      }
+    } catch (err) {
+      transaction.abort();
+      reject(err instanceof Error ? err : new Error(String(err)));
+    }
+  });
+}
+
 // ============================================================================
 // Generic Storage Operations
 // ============================================================================
@@ -380,6 +546,20 @@ export async function wrapKey(
   usages: KeyUsage[] = key.usages,
   metadata: KeyMetadata = { alg: 'unknown', purpose: 'unknown' }
 ): Promise<void> {
+  await put('keys', await buildWrappedKey(key, wrappingKey, kid, usages, metadata));
+}
+
+/**
+ * Build the {@link WrappedKey} record {@link wrapKey} stores, without storing
+ * it (for callers that write it together with other records).
+ */
+export async function buildWrappedKey(
+  key: CryptoKey,
+  wrappingKey: CryptoKey,
+  kid: string,
+  usages: KeyUsage[] = key.usages,
+  metadata: KeyMetadata = { alg: 'unknown', purpose: 'unknown' }
+): Promise<WrappedKey> {
   const iv = crypto.getRandomValues(new Uint8Array(12));
   const createdAt = Date.now();
   const aad = buildKeyWrapAAD({
@@ -402,8 +582,7 @@ export async function wrapKey(
     exportedKey
   );
 
-  // Build storage record
-  const record: WrappedKey = {
+  return {
     kid,
     kmsVersion: 2,
     wrappedKey: ciphertext,
@@ -414,9 +593,6 @@ export async function wrapKey(
     purpose: metadata.purpose,
     createdAt,
   };
-
-  // Persist to keys object store
-  await put('keys', record);
 }
 
 /**
@@ -501,6 +677,36 @@ export async function deleteWrappedKey(kid: string): Promise<void> {
   await del('keys', kid);
 }
 
+/**
+ * Retrieve all VAPID key records, newest first.
+ *
+ * During a rotation the ring holds the current key plus any keys still inside
+ * their grace period (`retireAt` set).
+ *
+ * @returns VAPID WrappedKey records sorted by createdAt descending
+ */
+export async function getVAPIDKeys(): Promise<WrappedKey[]> {
+  const allKeys = await getAllWrappedKeys();
+  return allKeys
+    .filter((k) => k.purpose === 'vapid')
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Schedule a VAPID key for retirement at the end of a rotation grace period.
+ *
+ * @param kid - Key identifier
+ * @param retireAt - Retirement timestamp in milliseconds
+ * @throws Error if the key does not exist
+ */
+export async function scheduleKeyRetirement(kid: string, retireAt: number): Promise<void> {
+  const record = await get<WrappedKey>('keys', kid);
+  if (!record) {
+    throw new Error(`No wrapped key with id: ${kid}`);
+  }
+  await put('keys', { ...record, retireAt });
+}
+
 // ============================================================================
 // Signal Messaging Storage (Phase 6)
 // ============================================================================
@@ -561,7 +767,7 @@ export async function unwrapBlob(
  * Generic indexed query over a store (e.g. all records for a given userId).
  */
 async function getAllByIndex<T>(
-  storeName: SignalStoreName | 'messaging-contact' | 'messaging-invite',
+  storeName: SignalStoreName | 'messaging-contact' | 'messaging-invite' | 'messaging-trust' | 'push-subscription',
   indexName: string,
   query: IDBValidKey | IDBKeyRange
 ): Promise<T[]> {
@@ -666,28 +872,76 @@ export async function putSignalOnetimePrekeys(
  * crypto library's internal session lock, which only covers the cipher step,
  * not our unwrap/rewrap storage steps.
  */
-const sessionLocks = new Map<string, Promise<unknown>>();
-
 export function withSessionLock<T>(
   userId: string,
   peerAddress: string,
   fn: () => Promise<T>
 ): Promise<T> {
-  const key = `${userId} ${peerAddress}`;
-  const prev = sessionLocks.get(key) ?? Promise.resolve();
+  return withKeyedLock(`session ${userId} ${peerAddress}`, fn);
+}
+
+const keyedLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Serialise async read-modify-write operations that share a key (operations
+ * on different keys still run concurrently). Backs {@link withSessionLock} and
+ * the per-lease quota accounting.
+ */
+export function withKeyedLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const prev = keyedLocks.get(key) ?? Promise.resolve();
   const result = prev.then(() => fn());
-  // Tail must never reject, or a failed op would wedge the peer's chain.
+  // Tail must never reject, or a failed op would wedge the key's chain.
   const tail = result.catch(() => undefined);
-  sessionLocks.set(key, tail);
+  keyedLocks.set(key, tail);
   // Drop the entry once this is the last queued op, to bound map growth.
   void tail.then(() => {
-    if (sessionLocks.get(key) === tail) {
-      sessionLocks.delete(key);
+    if (keyedLocks.get(key) === tail) {
+      keyedLocks.delete(key);
     }
   });
   return result;
 }
 
+let sharedHolders = 0;
+let exclusiveHold: Promise<void> | null = null;
+let onDrained: (() => void) | null = null;
+
+/**
+ * Enter the store for one request. Any number of shared holders run together;
+ * an exclusive holder (a Master Secret rotation, which snapshots, re-wraps and
+ * writes back every store) waits for them to finish and keeps new ones out
+ * until it is done, so nothing writes under the old keys in between.
+ *
+ * @returns Releases the hold; call it exactly once
+ */
+export async function acquireStoreAccess(exclusive: boolean): Promise<() => void> {
+  while (exclusiveHold) {
+    await exclusiveHold;
+  }
+  if (!exclusive) {
+    sharedHolders++;
+    return (): void => {
+      sharedHolders--;
+      if (sharedHolders === 0) onDrained?.();
+    };
+  }
+
+  let release!: () => void;
+  exclusiveHold = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  if (sharedHolders > 0) {
+    await new Promise<void>((resolve) => {
+      onDrained = resolve;
+    });
+    onDrained = null;
+  }
+  return (): void => {
+    exclusiveHold = null;
+    release();
+  };
+}
+
 export async function getSignalSession(
   userId: string,
   peerAddress: string
@@ -719,6 +973,10 @@ export async function getSignalTrustedIdentity(
   );
 }
 
+export async function getSignalTrustedIdentities(userId: string): Promise<SignalTrustedIdentityRecord[]> {
+  return getAllByIndex<SignalTrustedIdentityRecord>('signal-trusted-identity', 'by-userId', userId);
+}
+
 export async function putSignalTrustedIdentity(
   record: SignalTrustedIdentityRecord
 ): Promise<void> {
@@ -782,6 +1040,50 @@ export async function deleteMessagingInvite(inviteId: string): Promise<void> {
   await del('messaging-invite', inviteId);
 }
 
+// ============================================================================
+// Messaging Room Storage Operations (rooms-and-trust §3.3)
+// ============================================================================
+
+export async function getMessagingRoom(userId: string, roomId: string): Promise<MessagingRoomRecord | null> {
+  return (await get<MessagingRoomRecord>('messaging-room', [userId, roomId])) ?? null;
+}
+
+export async function putMessagingRoom(record: MessagingRoomRecord): Promise<void> {
+  await put('messaging-room', record);
+}
+
+export async function deleteMessagingRoom(userId: string, roomId: string): Promise<void> {
+  await del('messaging-room', [userId, roomId]);
+}
+
+// ============================================================================
+// Contact Trust Ledger Storage Operations (rooms-and-trust §4)
+// ============================================================================
+
+export async function getMessagingTrust(userId: string, peerUserId: string): Promise<MessagingTrustRecord | null> {
+  return (await get<MessagingTrustRecord>('messaging-trust', [userId, peerUserId])) ?? null;
+}
+
+export async function getMessagingTrusts(userId: string): Promise<MessagingTrustRecord[]> {
+  return getAllByIndex<MessagingTrustRecord>('messaging-trust', 'by-userId', userId);
+}
+
+export async function putMessagingTrust(record: MessagingTrustRecord): Promise<void> {
+  await put('messaging-trust', record);
+}
+
+// ============================================================================
+// Device Roster Storage Operations (rooms-and-trust §2.4)
+// ============================================================================
+
+export async function getMessagingRoster(userId: string, ownerUid: string): Promise<MessagingRosterRecord | null> {
+  return (await get<MessagingRosterRecord>('messaging-roster', [userId, ownerUid])) ?? null;
+}
+
+export async function putMessagingRoster(record: MessagingRosterRecord): Promise<void> {
+  await put('messaging-roster', record);
+}
+
 // ============================================================================
 // Metadata Storage Operations
 // ============================================================================
@@ -925,6 +1227,26 @@ export async function getUserLeases(userId: string): Promise<LeaseRecord[]> {
   });
 }
 
+/**
+ * Get every stored lease, across users.
+ *
+ * @returns Array of all lease records
+ */
+export async function getAllLeases(): Promise<LeaseRecord[]> {
+  return getAll<LeaseRecord>('leases');
+}
+
+/**
+ * Get all leases pinned to a VAPID key.
+ *
+ * @param kid - VAPID key identifier
+ * @returns Array of lease records whose kid matches
+ */
+export async function getLeasesByKid(kid: string): Promise<LeaseRecord[]> {
+  const leases = await getAll<LeaseRecord>('leases');
+  return leases.filter((lease) => lease.kid === kid);
+}
+
 /**
  * Delete a lease.
  *
@@ -975,97 +1297,128 @@ export async function deleteExpiredLeases(): Promise<number> {
 // ============================================================================
 
 /**
- * Set push subscription for the current VAPID key.
- *
- * This updates the subscription field of the VAPID key record. There can only
- * be one VAPID key (enforced by getVAPIDKid logic), and only one subscription
- * per VAPID key.
- *
- * @param subscription - Push subscription data from PushManager.subscribe()
- * @throws Error if no VAPID key found or multiple VAPID keys exist
+ * Resolve the current VAPID key: the single VAPID key that is not scheduled for
+ * retirement. New subscriptions are bound to it.
  */
-export async function setPushSubscription(subscription: StoredPushSubscription): Promise<void> {
-  // Get all keys and find the VAPID key
-  const allKeys = await getAllWrappedKeys();
-  const vapidKeys = allKeys.filter((k) => k.purpose === 'vapid');
-
+async function getCurrentVAPIDKey(): Promise<WrappedKey> {
+  const vapidKeys = await getVAPIDKeys();
   if (vapidKeys.length === 0) {
     throw new Error('No VAPID key found. Generate a VAPID key first.');
   }
 
-  if (vapidKeys.length > 1) {
+  const currentKeys = vapidKeys.filter((k) => k.retireAt === undefined);
+  if (currentKeys.length > 1) {
     throw new Error('Multiple VAPID keys found. Cannot determine which to update.');
   }
 
-  const vapidKey = vapidKeys[0];
+  const vapidKey = currentKeys[0];
   if (!vapidKey) {
     throw new Error('No VAPID key found after filtering');
   }
-
-  // Update the VAPID key record with the subscription
-  const updatedKey: WrappedKey = {
-    ...vapidKey,
-    subscription,
-  };
-
-  // Write back to database
-  await put('keys', updatedKey);
+  return vapidKey;
 }
 
 /**
- * Remove push subscription from the current VAPID key.
- *
- * @throws Error if no VAPID key found or multiple VAPID keys exist
+ * Move subscriptions written before the registry (one per VAPID key, on the
+ * key record, no userId) to `userId`. Before v6 that single subscription served
+ * every user's leases, so the first user to read the registry claims it. An
+ * existing registry entry for the same eid wins; the legacy copy is dropped.
  */
-export async function removePushSubscription(): Promise<void> {
-  // Get all keys and find the VAPID key
-  const allKeys = await getAllWrappedKeys();
-  const vapidKeys = allKeys.filter((k) => k.purpose === 'vapid');
-
-  if (vapidKeys.length === 0) {
-    throw new Error('No VAPID key found');
+async function adoptLegacyPushSubscriptions(userId: string): Promise<void> {
+  for (const vapidKey of await getVAPIDKeys()) {
+    const { subscription, ...keyRecord } = vapidKey;
+    if (!subscription) {
+      continue;
+    }
+    const existing = await get<PushSubscriptionRecord>('push-subscription', [userId, subscription.eid]);
+    const record: PushSubscriptionRecord = { ...subscription, userId, kid: vapidKey.kid };
+    await putRecords({
+      keys: [keyRecord],
+      'push-subscription': existing ? [] : [record],
+    });
   }
+}
 
-  if (vapidKeys.length > 1) {
-    throw new Error('Multiple VAPID keys found. Cannot determine which to update.');
-  }
+/**
+ * Register a push subscription for one of the user's endpoints.
+ *
+ * The subscription is bound to the current VAPID key (keys being rotated out
+ * carry `retireAt`). Registering an eid again replaces that endpoint's
+ * subscription, including moving it to the current key after a rotation.
+ *
+ * @param userId - User the endpoint belongs to
+ * @param subscription - Push subscription data from PushManager.subscribe()
+ * @returns The stored registry record
+ * @throws Error if no VAPID key found or multiple current VAPID keys exist
+ */
+export async function setPushSubscription(
+  userId: string,
+  subscription: StoredPushSubscription
+): Promise<PushSubscriptionRecord> {
+  const vapidKey = await getCurrentVAPIDKey();
+  await adoptLegacyPushSubscriptions(userId);
+
+  const record: PushSubscriptionRecord = { ...subscription, userId, kid: vapidKey.kid };
+  await put('push-subscription', record);
+  return record;
+}
 
-  const vapidKey = vapidKeys[0];
-  if (!vapidKey) {
-    throw new Error('No VAPID key found after filtering');
+/**
+ * Remove one of the user's push subscriptions.
+ *
+ * @param userId - User the endpoint belongs to
+ * @param eid - Endpoint label
+ * @returns Whether a subscription was removed
+ */
+export async function removePushSubscription(userId: string, eid: string): Promise<boolean> {
+  const existing = await getPushSubscription(userId, eid);
+  if (!existing) {
+    return false;
   }
-
-  // Remove the subscription field (don't set to undefined, delete it)
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const { subscription: _, ...updatedKey } = vapidKey;
-
-  // Write back to database
-  await put('keys', updatedKey);
+  await del('push-subscription', [userId, eid]);
+  return true;
 }
 
 /**
- * Get push subscription from the current VAPID key.
+ * Get one of the user's push subscriptions.
  *
- * @returns Push subscription or null if not set
- * @throws Error if no VAPID key found or multiple VAPID keys exist
+ * @param userId - User the endpoint belongs to
+ * @param eid - Endpoint label
+ * @returns Push subscription or null if not registered
  */
-export async function getPushSubscription(): Promise<StoredPushSubscription | null> {
-  // Get all keys and find the VAPID key
-  const allKeys = await getAllWrappedKeys();
-  const vapidKeys = allKeys.filter((k) => k.purpose === 'vapid');
-
-  if (vapidKeys.length === 0) {
-    throw new Error('No VAPID key found');
-  }
+export async function getPushSubscription(
+  userId: string,
+  eid: string
+): Promise<PushSubscriptionRecord | null> {
+  await adoptLegacyPushSubscriptions(userId);
+  return (await get<PushSubscriptionRecord>('push-subscription', [userId, eid])) ?? null;
+}
 
-  if (vapidKeys.length > 1) {
-    throw new Error('Multiple VAPID keys found. Cannot determine which to read.');
-  }
+/**
+ * List the user's push subscriptions across all VAPID keys, oldest first.
+ *
+ * @param userId - User whose endpoints to list
+ * @returns Registry records (each carries the kid it is bound to)
+ */
+export async function listPushSubscriptions(userId: string): Promise<PushSubscriptionRecord[]> {
+  await adoptLegacyPushSubscriptions(userId);
+  const records = await getAllByIndex<PushSubscriptionRecord>('push-subscription', 'by-userId', userId);
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+}
 
-  const vapidKey = vapidKeys[0];
-  if (!vapidKey) {
-    throw new Error('No VAPID key found after filtering');
+/**
+ * Delete every subscription bound to a VAPID key. Called when the key itself is
+ * deleted (regeneration or retirement): the push service rejects JWTs from any
+ * other key, so those subscriptions are dead.
+ *
+ * @param kid - VAPID key identifier
+ * @returns Number of subscriptions deleted
+ */
+export async function deletePushSubscriptionsByKid(kid: string): Promise<number> {
+  const records = await getAll<PushSubscriptionRecord>('push-subscription');
+  const bound = records.filter((record) => record.kid === kid);
+  for (const record of bound) {
+    await del('push-subscription', [record.userId, record.eid]);
   }
-
-  return vapidKey.subscription ?? null;
+  return bound.length;
 }
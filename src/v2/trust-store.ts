@@ -0,0 +1,136 @@
+/**
+ * Contact trust ledger (rooms-and-trust §4).
+ *
+ * One entry per contact: the master public keys the enclave holds for the peer
+ * and a verification state. The ledger lives in the enclave, not the PWA, so a
+ * compromised parent page cannot tell the user a contact is verified when it is
+ * not, or hide that a contact's keys changed.
+ *
+ * State moves only on enclave-observed events:
+ *  - a Connect invite (or a sibling device's contact announcement) records the
+ *    peer's keys — `unverified` if new, `changed` if they differ from the record;
+ *  - a safety-number comparison in the enclave popup sets `verified`;
+ *  - a device certificate, or a Signal identity key on a message that then
+ *    decrypts, that does not match what we hold sets `changed`.
+ *
+ * Entries are public keys and state only; nothing here is wrapped.
+ */
+
+import { getMessagingTrust, getMessagingTrusts, putMessagingTrust } from './storage';
+import type { ContactTrustState, MessagingTrustRecord } from './types';
+
+/** A peer's master public keys, base64url (as on an identity card). */
+export interface ContactKeys {
+  msk: string;
+  mek: string;
+}
+
+function sameKeys(record: MessagingTrustRecord, keys: ContactKeys): boolean {
+  return record.msk === keys.msk && record.mek === keys.mek;
+}
+
+/** A contact's ledger entry, or `null` if the enclave holds no keys for them. */
+export async function getContactTrust(userId: string, peerUserId: string): Promise<MessagingTrustRecord | null> {
+  return getMessagingTrust(userId, peerUserId);
+}
+
+/** Every ledger entry of this user. */
+export async function listContactTrust(userId: string): Promise<MessagingTrustRecord[]> {
+  return getMessagingTrusts(userId);
+}
+
+/**
+ * Record the master keys a contact presented. A new contact starts at `state`
+ * (default `unverified`); different keys than on record replace them and mark the
+ * contact `changed`; the same keys keep the current state unless `state` is
+ * `verified` or `changed` (a sibling device's verdict).
+ */
+export async function recordContactIdentity(
+  userId: string,
+  peerUserId: string,
+  keys: ContactKeys,
+  state: ContactTrustState = 'unverified'
+): Promise<MessagingTrustRecord> {
+  const existing = await getMessagingTrust(userId, peerUserId);
+  const now = Date.now();
+  if (!existing) {
+    const record: MessagingTrustRecord = {
+      userId,
+      peerUserId,
+      msk: keys.msk,
+      mek: keys.mek,
+      state,
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (state === 'verified') record.verifiedAt = now;
+    if (state === 'changed') record.changedAt = now;
+    await putMessagingTrust(record);
+    return record;
+  }
+  if (!sameKeys(existing, keys)) {
+    const record: MessagingTrustRecord = {
+      ...existing,
+      msk: keys.msk,
+      mek: keys.mek,
+      state: 'changed',
+      changedAt: now,
+      updatedAt: now,
+    };
+    await putMessagingTrust(record);
+    return record;
+  }
+  if (state === 'unverified' || state === existing.state) {
+    return existing;
+  }
+  const record: MessagingTrustRecord = { ...existing, state, updatedAt: now };
+  if (state === 'verified') record.verifiedAt = now;
+  if (state === 'changed') record.changedAt = now;
+  await putMessagingTrust(record);
+  return record;
+}
+
+/**
+ * Apply the user's safety-number verdict on `keys`. A match records those keys as
+ * `verified` (replacing any others — the user just confirmed them). A mismatch
+ * withdraws a `verified` state on those same keys; otherwise the entry is left as
+ * it is. Returns the entry, or `null` if there is none.
+ */
+export async function setContactVerification(
+  userId: string,
+  peerUserId: string,
+  keys: ContactKeys,
+  verified: boolean
+): Promise<MessagingTrustRecord | null> {
+  const existing = await getMessagingTrust(userId, peerUserId);
+  const now = Date.now();
+  if (verified) {
+    const record: MessagingTrustRecord = existing
+      ? { ...existing, msk: keys.msk, mek: keys.mek, state: 'verified', verifiedAt: now, updatedAt: now }
+      : { userId, peerUserId, ...keys, state: 'verified', verifiedAt: now, createdAt: now, updatedAt: now };
+    await putMessagingTrust(record);
+    return record;
+  }
+  if (existing && existing.state === 'verified' && sameKeys(existing, keys)) {
+    const record: MessagingTrustRecord = { ...existing, state: 'unverified', updatedAt: now };
+    await putMessagingTrust(record);
+    return record;
+  }
+  return existing;
+}
+
+/**
+ * Mark a contact `changed`: they presented keys that do not match the ledger.
+ * No-op (returns `false`) for a peer with no entry — there is nothing to change from.
+ */
+export async function markContactChanged(userId: string, peerUserId: string): Promise<boolean> {
+  const existing = await getMessagingTrust(userId, peerUserId);
+  if (!existing) {
+    return false;
+  }
+  if (existing.state !== 'changed') {
+    const now = Date.now();
+    await putMessagingTrust({ ...existing, state: 'changed', changedAt: now, updatedAt: now });
+  }
+  return true;
+}
@@ -22,7 +22,7 @@
  * Authentication credentials for KMS operations.
  *
  * Discriminated union supporting three authentication methods:
- * - **Passphrase**: User-provided password (PBKDF2-derived KEK)
+ * - **Passphrase**: User-provided password (Argon2id- or PBKDF2-derived KEK)
  * - **Passkey PRF**: WebAuthn PRF extension output (deterministic key derivation)
  * - **Passkey Gate**: WebAuthn credential as authentication gate (random MS)
  *
@@ -66,17 +66,36 @@ export type AuthCredentials =
  * compatibility during migrations.
  */
 
+/**
+ * Passphrase KDF of an enrolment, with the parameters it was calibrated to.
+ * New and recalibrated enrolments use Argon2id (`iterations` is its pass
+ * count); PBKDF2 enrolments are upgraded after their next passphrase unlock.
+ */
+export type PassphraseKDFConfig =
+  | {
+      algorithm: 'PBKDF2-HMAC-SHA256';
+      iterations: number;
+      salt: ArrayBuffer;
+      lastCalibratedAt: number;
+      platformHash: string;
+    }
+  | {
+      algorithm: 'Argon2id';
+      memoryKiB: number;
+      iterations: number;
+      parallelism: number;
+      salt: ArrayBuffer;
+      lastCalibratedAt: number;
+      platformHash: string;
+    };
+
+export type PassphraseKDFAlgorithm = PassphraseKDFConfig['algorithm'];
+
 export interface PassphraseConfigV2 {
   kmsVersion: 2;
   algVersion: number;
   method: 'passphrase';
-  kdf: {
-    algorithm: 'PBKDF2-HMAC-SHA256';
-    iterations: number;
-    salt: ArrayBuffer;
-    lastCalibratedAt: number;
-    platformHash: string;
-  };
+  kdf: PassphraseKDFConfig;
   kcv: ArrayBuffer;
   encryptedMS: ArrayBuffer;
   msIV: ArrayBuffer;
@@ -128,22 +147,24 @@ export type EnrollmentConfigV2 =
   | PasskeyGateConfigV2;
 
 /* ------------------------------------------------------------------
- * Push Notification Subscription
+ * Push Notification Subscriptions
  *
  * Stores the push subscription data returned by PushManager.subscribe().
- * This is stored with the VAPID key record, as subscriptions are tied
- * to the VAPID key lifecycle (regenerating VAPID key invalidates subs).
+ * Each user can register one subscription per endpoint (device/browser),
+ * bound to the VAPID key it was created under: subscriptions are tied to
+ * the VAPID key lifecycle (regenerating VAPID key invalidates subs).
  */
 
 /**
- * Web Push subscription data stored with VAPID key.
+ * Web Push subscription data.
  *
  * Represents a push notification subscription returned by `PushManager.subscribe()`.
- * The subscription establishes a 1:1 relationship with the VAPID key - each VAPID
- * key can have exactly one subscription. Stored on the `WrappedKey.subscription` field.
+ * `eid` labels the endpoint; a user's laptop, phone and tablet each register
+ * their own subscription under their own eid.
  *
- * **Storage:** Stored with VAPID key, NOT in lease records. All leases for a VAPID
- * key use the same subscription (single source of truth).
+ * **Storage:** Stored in the push subscription registry (see
+ * {@link PushSubscriptionRecord}), NOT in lease records. A lease issues JWTs for
+ * any of its user's subscriptions on the lease's VAPID key.
  *
  * **Lifecycle:** Lost when VAPID key is regenerated. Must call `setPushSubscription()`
  * again after `regenerateVAPID()`.
@@ -190,6 +211,21 @@ export interface StoredPushSubscription {
   createdAt: number;
 }
 
+/**
+ * A registered push subscription. Store key: `[userId, eid]`, so registering the
+ * same eid again replaces that endpoint's subscription and leaves the user's
+ * other endpoints alone.
+ *
+ * `kid` is the VAPID key that was current when the subscription was registered
+ * (its `applicationServerKey`). Only leases pinned to that key can issue JWTs
+ * for it, and deleting the key deletes its subscriptions.
+ */
+export interface PushSubscriptionRecord extends StoredPushSubscription {
+  userId: string;
+  /** VAPID key the subscription was created with */
+  kid: string;
+}
+
 /* ------------------------------------------------------------------
  * Wrapped keys and metadata
  *
@@ -261,8 +297,16 @@ export interface WrappedKey {
   createdAt: number;
   /** Last usage timestamp in milliseconds (optional) */
   lastUsedAt?: number;
-  /** Optional push subscription for VAPID keys (1:1 relationship) */
+  /**
+   * Single KMS-wide push subscription written before the per-user registry
+   * (DB v6). Moved into the registry the first time a user lists their
+   * subscriptions; never written any more.
+   *
+   * @deprecated Use {@link PushSubscriptionRecord}
+   */
   subscription?: StoredPushSubscription;
+  /** Scheduled retirement timestamp (ms) for a VAPID key being rotated out; unset on the current key */
+  retireAt?: number;
 }
 
 export interface KeyMetadata {
@@ -382,6 +426,84 @@ export interface MessagingContactRecord {
   createdAt: number;
 }
 
+/**
+ * A contact's verification state (rooms-and-trust §4): `unverified` until the user
+ * compares safety numbers, `verified` once they match, and `changed` when the
+ * contact later presents different keys — a possible impersonation to surface.
+ */
+export type ContactTrustState = 'unverified' | 'verified' | 'changed';
+
+/**
+ * A contact's trust-ledger entry (rooms-and-trust §4): the master public keys the
+ * enclave holds for the peer and their verification state. Kept in the enclave so
+ * the PWA cannot misreport who is verified. Public keys only — nothing wrapped.
+ * Store key: `[userId, peerUserId]`.
+ */
+export interface MessagingTrustRecord {
+  userId: string;
+  peerUserId: string;
+  /** The peer's master signing public key (Ed25519), base64url. */
+  msk: string;
+  /** The peer's master encryption public key (X25519), base64url. */
+  mek: string;
+  state: ContactTrustState;
+  /** When the user last verified these keys. */
+  verifiedAt?: number;
+  /** When the contact was last seen with keys other than the ones on record. */
+  changedAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * The newest verified device roster (rooms-and-trust §2.4) held for one account —
+ * our own (`ownerUid === userId`) or a contact's. Public keys only; `signed` is
+ * the master-signed wire form, kept to re-publish and re-verify.
+ */
+export interface MessagingRosterRecord {
+  userId: string;
+  ownerUid: string;
+  version: number;
+  issuedAt: number;
+  /** Current devices: identity key (normalised) + identity signing key, base64url. */
+  devices: Array<{ ik: string; isk: string }>;
+  /** Revoked identity keys (normalised), base64url. */
+  revoked: string[];
+  signed: ArrayBuffer;
+  updatedAt: number;
+}
+
+/**
+ * An attachment a received message carries (secure-messaging §8): a handle only
+ * this device's enclave can open, plus the ciphertext's digest and the plaintext
+ * size so the PWA can fetch and size it without holding the key.
+ */
+export interface ReceivedAttachment {
+  handle: ArrayBuffer;
+  digest: ArrayBuffer;
+  size: number;
+}
+
+/**
+ * The sender of a sealed-sender message (secure-messaging §12.2), as recovered
+ * and verified by the enclave: its Signal address and, for a contact the trust
+ * ledger knows, its trust state.
+ */
+export interface BundleSender {
+  peerName: string;
+  peerDeviceId: number;
+  trust?: ContactTrustState;
+}
+
+/** One contact as listed to the PWA: its topic and enclave-held trust state. */
+export interface ContactInfo {
+  peerUserId: string;
+  scope: string;
+  trust: ContactTrustState;
+  /** Master-key fingerprint (§4), when the enclave holds the peer's master keys. */
+  fingerprint?: string;
+}
+
 /** Invite lifecycle type (rooms-and-trust §3.3): a single-use 1:1, or a reusable room. */
 export type InviteType = 'connect-1:1' | 'room';
 
@@ -402,9 +524,11 @@ export interface MessagingInviteRecord {
   /** `deriveScope(secret)` — the (non-secret) channel topic to listen on. */
   scope: string;
   type: InviteType;
-  /** Absolute expiry (ms epoch), for `connect-1:1`. */
+  /** The room a `room` invite admits to. */
+  roomId?: string;
+  /** Absolute expiry (ms epoch). */
   expiresAt?: number;
-  /** Single-use flag, for `connect-1:1`. */
+  /** Single-use flag, for `connect-1:1` (room invites are always reusable). */
   singleUse?: boolean;
   createdAt: number;
 }
@@ -414,15 +538,80 @@ export interface InviteMeta {
   inviteId: string;
   scope: string;
   type: InviteType;
+  roomId?: string;
   expiresAt?: number;
   singleUse?: boolean;
   createdAt: number;
 }
 
+/** A room member's authority: admins approve joins, remove members and rekey. */
+export type RoomRole = 'admin' | 'member';
+
+/**
+ * A room member's public identity (rooms-and-trust §2.3) and role. The master
+ * keys are what room-key updates are sealed to (mek) and verified against (msk).
+ */
+export interface RoomMember {
+  uid: string;
+  /** Display-name hint (forgeable — never the crypto identity). */
+  name?: string;
+  /** Master signing public key (Ed25519), base64url. */
+  msk: string;
+  /** Master encryption public key (X25519), base64url. */
+  mek: string;
+  role: RoomRole;
+  joinedAt: number;
+}
+
+/**
+ * A room (multi-party conversation) at rest. The room secret for the current
+ * `epoch` is wrapped under this device's messagingKEK, bound by AAD to (userId,
+ * roomId, epoch); every membership change moves the room to a fresh secret and
+ * the next epoch. A joiner holds the record at epoch 0, with no secret and the
+ * inviting admin as the only member, until the admin's first room key arrives.
+ * Store key: `[userId, roomId]`.
+ */
+export interface MessagingRoomRecord {
+  userId: string;
+  roomId: string;
+  /** Room name hint, as set by the creating admin. */
+  name?: string;
+  epoch: number;
+  /** messagingKEK-wrapped room secret for `epoch` (absent at epoch 0). */
+  wrappedSecret?: WrappedBlob;
+  /** `deriveScope(secret)` for `epoch` — the (non-secret) room topic (absent at epoch 0). */
+  scope?: string;
+  members: RoomMember[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Public (non-secret) view of a room — safe to hand to the PWA. */
+export interface RoomInfo {
+  roomId: string;
+  name?: string;
+  epoch: number;
+  scope?: string;
+  members: RoomMember[];
+}
+
+/**
+ * A room-key update an admin produced for the other members: one sealed blob per
+ * recipient, openable only by that member's master encryption key. The PWA
+ * delivers each `roomKey` to its `uid` (e.g. on their contact or invite scope).
+ */
+export interface RoomRekey {
+  roomId: string;
+  epoch: number;
+  /** The room topic for the new epoch. */
+  scope: string;
+  roomKeys: Array<{ uid: string; roomKey: ArrayBuffer }>;
+}
+
 /**
  * The public identity a Connect peer presents (rooms-and-trust §2.3/§4): master
- * public keys + fingerprint + a name HINT. No secret material; the PWA uses this
- * for the trust ledger and the mutual-confirmation prompt.
+ * public keys + fingerprint + a name HINT. No secret material; the PWA shows it
+ * in the mutual-confirmation prompt (the enclave records the keys in its ledger).
  */
 export interface ConnectPeer {
   uid: string;
@@ -433,6 +622,8 @@ export interface ConnectPeer {
   mek: string;
   /** Master-key fingerprint (§4) — the value compared out-of-band to verify. */
   fingerprint: string;
+  /** The contact's trust state once recorded in the enclave's ledger. */
+  trust?: ContactTrustState;
 }
 
 /**
@@ -469,6 +660,22 @@ export interface PublicPreKeyBundle {
   oneTimePreKeys: { keyId: number; publicKey: ArrayBuffer }[];
 }
 
+/**
+ * What prekey maintenance changed in a user's published bundle, ready to apply
+ * to the directory: publish `signedPreKey` (when rotated) and the added
+ * `oneTimePreKeys`, and withdraw `deletedSignedPreKeyIds`.
+ */
+export interface PrekeyBundleDelta {
+  /** New signed prekey, present only when it was rotated. */
+  signedPreKey?: { keyId: number; publicKey: ArrayBuffer; signature: ArrayBuffer };
+  /** One-time prekeys added by replenishment (public halves). */
+  oneTimePreKeys: { keyId: number; publicKey: ArrayBuffer }[];
+  /** Superseded signed prekeys deleted after their grace window. */
+  deletedSignedPreKeyIds: number[];
+  /** Unconsumed one-time prekeys after maintenance. */
+  oneTimePrekeyCount: number;
+}
+
 /* ------------------------------------------------------------------
  * Audit types
  *
@@ -508,8 +715,10 @@ export interface AuditDelegationCert {
   scope: string[]; // e.g., ["vapid.issue", "lease.expire"] or ["system.*"]
   notBefore: number; // Unix timestamp (ms)
   notAfter: number | null; // Unix timestamp (ms), null = no expiration
-  codeHash: string; // KMS code hash at delegation time
-  manifestHash: string; // KMS manifest hash
+  // KMS code and manifest hashes at delegation time. Not set by this build:
+  // the worker cannot hash its own bundle, and older certs may hold placeholders.
+  codeHash?: string;
+  manifestHash?: string;
   kmsVersion: string; // e.g., "v2.0.0"
   sig: string; // base64url signature by UAK
 }
@@ -555,6 +764,51 @@ export interface VerificationResult {
   errors: string[];
 }
 
+/**
+ * Range of an audit log export. Bounds are inclusive and combine; a time
+ * range selects the run of entries from the first to the last one inside it,
+ * so the exported entries always form an unbroken stretch of the chain.
+ */
+export interface AuditLogFilter {
+  fromSeqNum?: number;
+  toSeqNum?: number;
+  fromTime?: number; // Unix timestamp (ms)
+  toTime?: number; // Unix timestamp (ms)
+}
+
+/**
+ * Signed summary of an audit log export. It pins the exported stretch of the
+ * chain (count, first/last seqNum, last chain hash) and the log head at
+ * export time, so entries can be neither dropped nor appended.
+ */
+export interface AuditLogExportManifest {
+  format: 'ats-kms-audit-log';
+  version: 1;
+  userId: string;
+  exportedAt: number; // Unix timestamp (ms)
+  filter: AuditLogFilter;
+  entryCount: number;
+  firstSeqNum: number | null; // null = no entry in range
+  lastSeqNum: number | null;
+  lastChainHash: string | null;
+  head: { seqNum: number; chainHash: string };
+  uakPublicKey: string; // base64url Ed25519 public key of the UAK that signed the manifest
+}
+
+/**
+ * Self-contained, offline-verifiable audit log export (see audit-verify.ts).
+ * JSON-safe: every field is a string, number, array or plain object.
+ */
+export interface AuditLogExport {
+  manifest: AuditLogExportManifest;
+  sig: string; // base64url UAK signature over the canonical JSON of `manifest`
+  entries: AuditEntryV2[];
+  /** UAK rotation entries after the range, which hand trust back to older UAKs */
+  rotations: AuditEntryV2[];
+  /** UAK-signed delegation certs: one per LAK in the entries, plus the KIAK */
+  certs: AuditDelegationCert[];
+}
+
 /* ------------------------------------------------------------------
  * Unlock operation result
  *
@@ -586,31 +840,71 @@ export interface RPCRequest<TParams = unknown> {
   params: TParams;
 }
 
+/**
+ * Machine-readable RPC error codes. Callers branch on these rather than on
+ * message text; the recovery each one implies (retry, re-authenticate) is
+ * described in errors.ts.
+ */
+export type RPCErrorCode =
+  | 'VALIDATION' // malformed or out-of-range parameters
+  | 'UNKNOWN_METHOD' // no such RPC method
+  | 'POLICY_DENIED' // rejected by the operation policy table
+  | 'NOT_SETUP' // the account (or the feature) has not been set up
+  | 'UNLOCK_FAILED' // credentials did not unlock the Master Secret
+  | 'NOT_FOUND' // the referenced record does not exist
+  | 'CONFLICT' // the operation clashes with existing state
+  | 'LEASE_EXPIRED' // the lease's TTL has passed
+  | 'WRONG_KEY' // the lease is bound to a retired VAPID key
+  | 'SESSION_EXPIRED' // the messaging session is closed or has expired
+  | 'UNAUTHORIZED' // the capability token does not authorise the call
+  | 'EXPIRED' // an invite, approval or transport key has expired
+  | 'QUOTA_EXCEEDED' // a lease quota rejected the request
+  | 'CANCELLED' // the user cancelled the popup step
+  | 'TIMEOUT' // no response in time (raised client-side)
+  | 'CONNECTION_LOST' // the enclave was lost with the request in flight (raised client-side)
+  | 'ATTESTATION_FAILED' // the signed build manifest or the reported worker failed KMSUser's check (raised client-side)
+  | 'INTERNAL'; // anything else
+
+/**
+ * Structured RPC error. Quota rejections carry the rejecting quota dimension
+ * and a retry-after hint (null = the request can never fit the quota).
+ */
+export interface RPCErrorDetail {
+  code: RPCErrorCode;
+  message: string;
+  quota?: string;
+  retryAfterMs?: number | null;
+}
+
 export interface RPCResponse<TResult = unknown> {
   id: string;
   result?: TResult;
-  error?: string | { code: string; message: string };
+  error?: string | RPCErrorDetail;
 }
 
 // Example enumerated method names. Implementations may extend this list.
 export type RPCMethod =
   | 'setupPassphrase'
-  | 'setupPasskey'
   | 'setupPasskeyPRF'
   | 'setupPasskeyGate'
   // Legacy methods removed: generateSetupTransportKey, setupWithEncryptedCredentials
   | 'setupWithPopup'
   | 'fullSetup'
-  | 'unlockWithPassphrase'
-  | 'unlockWithPasskey'
+  // Legacy methods removed: setupPasskey, unlockWithPassphrase, unlockWithPasskey
+  // (V2 unlocks per operation via AuthCredentials; there is no standing unlock RPC)
   | 'addEnrollment'
   | 'addEnrollmentWithPopup'
   | 'removeEnrollment'
+  | 'changePassphrase'
+  | 'rotateMasterSecret'
   | 'getEnrollments'
   | 'getPasskeyUnlockParams'
   | 'getMessagingUnlockOptions'
   | 'generateVAPID'
   | 'regenerateVAPID'
+  | 'rotateVAPID'
+  | 'retireVAPIDKey'
+  | 'listVAPIDKeys'
   | 'signJWT'
   | 'getPublicKey'
   | 'getVAPIDKid'
@@ -621,13 +915,17 @@ export type RPCMethod =
   | 'getUserLeases'
   | 'verifyLease'
   | 'getAuditLog'
+  | 'exportAuditLog'
   | 'verifyAuditChain'
   | 'getAuditPublicKey'
   | 'isSetup'
   | 'resetKMS'
+  | 'exportBackup'
+  | 'importBackup'
   | 'setPushSubscription'
   | 'removePushSubscription'
   | 'getPushSubscription'
+  | 'listPushSubscriptions'
   // === Signal messaging (Phase 2) ===
   | 'setupMessaging'
   | 'provisionMessaging'
@@ -637,6 +935,7 @@ export type RPCMethod =
   | 'openMessaging'
   | 'closeMessaging'
   | 'rotatePrekeys'
+  | 'maintainPrekeys'
   // === Account root (secure-messaging §18) ===
   | 'setupAccountRoot'
   | 'importAccountRootFromMnemonic'
@@ -651,9 +950,22 @@ export type RPCMethod =
   | 'getIdentityCard'
   | 'getDeviceCert'
   | 'verifyContactDevice'
+  | 'getSafetyNumber'
+  | 'verifySafetyNumber'
+  // === Device rosters (rooms-and-trust §2.4) ===
+  | 'getDeviceRoster'
+  | 'updateDeviceRoster'
+  | 'applyDeviceRoster'
+  | 'importContactRoster'
   // === Fan-out bundle (secure-messaging §8/§12) ===
   | 'buildBundle'
   | 'openBundle'
+  // === Attachments (secure-messaging §8) ===
+  | 'encryptAttachment'
+  | 'decryptAttachment'
+  | 'beginAttachmentDecrypt'
+  | 'feedAttachmentDecrypt'
+  | 'finishAttachmentDecrypt'
   // === Pairing / contacts (secure-messaging §5/§6) ===
   | 'setContactSecret'
   | 'getContactScope'
@@ -668,7 +980,110 @@ export type RPCMethod =
   | 'openInviteJoin'
   | 'approveInviteJoin'
   | 'forgetInvite'
-  | 'listInvites';
+  | 'listInvites'
+  // === Rooms (rooms-and-trust §3.3) ===
+  | 'applyRoomKey'
+  | 'listRoomMembers'
+  | 'removeRoomMember'
+  | 'rotateRoomSecret';
+
+/* ------------------------------------------------------------------
+ * Enclave events
+ *
+ * Pushed from the worker (its lease and session timers, and the
+ * handlers that change what the PWA would otherwise poll for) through
+ * KMSClient to KMSUser.on(). Informational only: every event describes
+ * state the PWA can also read with an RPC.
+ */
+
+export type KMSEvent =
+  /** A lease is within a day of `exp`. */
+  | { type: 'lease-expiring'; leaseId: string; userId: string; exp: number }
+  /** A lease reached `exp` (`reason: 'ttl'`) or was deleted (e.g. `'vapid-key-retired'`). */
+  | { type: 'lease-expired'; leaseId: string; userId: string; reason: string }
+  /** A messaging session was dropped; `openMessaging` again to continue. */
+  | { type: 'session-expired'; sid: string; userId: string; reason: 'idle' | 'absolute' }
+  /**
+   * One-time prekeys fell below the policy's low watermark (`count` left) and
+   * maintenance added `replenished`; the delta rides the RPC that triggered it.
+   */
+  | { type: 'prekeys-low'; userId: string; count: number; replenished: number }
+  /** A new current VAPID key; push subscriptions must move to `publicKey`. */
+  | {
+      type: 'vapid-rotated';
+      kid: string;
+      publicKey: string;
+      retiring: Array<{ kid: string; retireAt: number }>;
+    }
+  /** An entry was appended to the audit chain. */
+  | { type: 'audit-appended'; seqNum: number; op: string; userId: string; timestamp: number };
+
+export type KMSEventType = KMSEvent['type'];
+
+/* ------------------------------------------------------------------
+ * Operation policy types
+ *
+ * Every RPC method has one declarative policy entry (see
+ * operation-policy.ts). The worker dispatcher enforces it before the
+ * handler runs, so the table is the single answer to "what can the
+ * parent PWA trigger, and under which authority".
+ */
+
+/**
+ * How an operation obtains fresh user authentication.
+ *
+ * - `none`: no unlock; the operation never touches the Master Secret
+ * - `optional`: credentials are accepted but only needed on some paths
+ * - `params`: AuthCredentials must arrive in params (the KMS client may
+ *   inject them after its own unlock modal)
+ * - `ceremony`: the worker collects the unlock itself through a KMS-origin
+ *   popup; caller-supplied credentials are refused
+ */
+export type FreshAuthRequirement = 'none' | 'optional' | 'params' | 'ceremony';
+
+/**
+ * Standing authority an operation may run under instead of fresh auth.
+ *
+ * - `none`: no standing authority is consulted
+ * - `lease`: a VAPID lease (`leaseId` / `leaseIds`)
+ * - `session`: a messaging capability (`sid` + `token`)
+ */
+export type OperationAllowance = 'none' | 'lease' | 'session';
+
+/**
+ * Severity of the audit entry an operation writes.
+ * `none` means the operation writes no audit entry at all.
+ */
+export type AuditSeverity = 'none' | 'routine' | 'sensitive' | 'critical';
+
+/** Numeric ceiling on one request parameter (a number, or an array's length). */
+export interface OperationParamLimit {
+  param: string;
+  max: number;
+}
+
+/**
+ * Declarative policy for a single RPC method.
+ */
+export interface OperationPolicy {
+  freshAuth: FreshAuthRequirement;
+  /**
+   * User sees or acts in KMS-origin UI (unlock modal or popup) before it takes
+   * effect. Enforced by KMSClient, which is what shows that UI.
+   */
+  kmsConfirmation: boolean;
+  allowance: OperationAllowance;
+  /** Upper bound on a TTL parameter, in that parameter's own unit */
+  maxTtl?: OperationParamLimit;
+  /** Upper bound on a count parameter (or array length) */
+  maxCount?: OperationParamLimit;
+  /** Checked after the handler: anything but `none` must have appended an entry for the request */
+  audit: AuditSeverity;
+  /** Runs alone: in-flight requests finish first and new ones wait until it returns */
+  exclusive?: boolean;
+  /** Repeating it has no further effect, so KMSUser may send it again after the enclave was lost mid-flight */
+  idempotent?: boolean;
+}
 
 /* ------------------------------------------------------------------
  * VAPID lease and quota types (MVP)
@@ -695,7 +1110,7 @@ export type RPCMethod =
  * - Worker reads subscription from VAPID key's `subscription` field
  * - All leases for a VAPID key share the same subscription
  *
- * **Quotas:**
+ * **Quotas (defaults, configurable per lease):**
  * - 100 tokens per hour (global)
  * - 10 sends per minute (burst: 20)
  * - 5 sends per minute per endpoint ID
@@ -757,8 +1172,9 @@ export interface LeaseRecord {
 /**
  * Rate limit quotas enforced by the KMS worker for lease operations.
  *
- * Quotas prevent abuse by limiting JWT issuance rates. Enforced in worker
- * memory using token bucket and sliding window algorithms.
+ * Quotas prevent abuse by limiting JWT issuance rates. Enforced by the worker
+ * with token bucket and sliding window accounting (see rate-limit.ts),
+ * persisted per lease. Each dimension can be set in createLease.
  *
  * **Default Limits:**
  * - `tokensPerHour`: 100 (global rate limit)
@@ -783,7 +1199,8 @@ export interface QuotaState {
  * A lease is valid if:
  * 1. It exists in storage
  * 2. It has not expired (`exp > Date.now()`)
- * 3. Its `kid` matches the current VAPID key
+ * 3. Its `kid` matches the current VAPID key, or a rotated-out key that is
+ *    still inside its grace period (`retireAt` is then returned)
  *
  * @example
  * ```typescript
@@ -806,6 +1223,8 @@ export interface LeaseVerificationResult {
   reason?: string;
   /** Key ID from the lease */
   kid: string;
+  /** When the lease's key retires, if it is pinned to a key being rotated out */
+  retireAt?: number;
 }
 
 /**
@@ -872,10 +1291,20 @@ export interface KeyWrapAADConfig {
 /* ------------------------------------------------------------------
  * Unlock result type
  *
- * Returned by unlock functions to indicate success or failure.
- * On success, returns decrypted Master Secret bytes.
+ * Returned by unlock and setup functions to indicate success or failure.
+ * On success, returns decrypted Master Secret bytes. A failure's `code` is
+ * the RPC error it is reported as; one without a code is UNLOCK_FAILED.
  */
 
 export type UnlockResult =
   | { success: true; ms: Uint8Array }
-  | { success: false; error: string };
+  | { success: false; error: string; code?: RPCErrorCode };
+
+/**
+ * Enrolment configurations to unlock against when they are not (or not
+ * necessarily) the stored ones, e.g. the unlock slots of a backup archive.
+ */
+export interface UnlockEnrollments {
+  passphrase?: PassphraseConfigV2;
+  passkeyPrf?: PasskeyPRFConfigV2;
+}
@@ -15,19 +15,26 @@ import {
   deriveDeterministicSalt,
   buildMSEncryptionAAD,
   calibratePBKDF2Iterations,
+  calibrateArgon2idParams,
+  getPlatformHash,
 } from './crypto-utils';
+import { argon2id } from './argon2';
 import {
   getMeta,
   putMeta,
 } from './storage';
 import type {
   PassphraseConfigV2,
+  PassphraseKDFAlgorithm,
+  PassphraseKDFConfig,
   PasskeyPRFConfigV2,
   PasskeyGateConfigV2,
   AuthCredentials,
   UnlockOperationResult,
   UnlockResult,
+  UnlockEnrollments,
 } from './types';
+import { KMSError, UnlockFailedError, ValidationError } from './errors';
 
 // Persistent config keys for enrolments. Keys are namespaced by userId
 // to support multiple users in the same browser.
@@ -35,6 +42,62 @@ const getPassphraseConfigKey = (userId: string): string => `enrollment:passphras
 const getPasskeyPRFConfigKey = (userId: string): string => `enrollment:passkey-prf:v2:${userId}`;
 const getPasskeyGateConfigKey = (userId: string): string => `enrollment:passkey-gate:v2:${userId}`;
 
+/**
+ * Which KDF passphrase enrolments use, and when its parameters are
+ * recalibrated.
+ */
+export interface PassphraseCalibrationPolicy {
+  /** KDF for new enrolments; enrolments using another one are re-wrapped */
+  algorithm: PassphraseKDFAlgorithm;
+  /** Target KDF derivation time on the current platform (ms) */
+  targetMs: { min: number; max: number; mid: number };
+  /** Recalibrate once the last calibration is older than this (ms) */
+  maxAgeMs: number;
+}
+
+export const DEFAULT_PASSPHRASE_CALIBRATION: PassphraseCalibrationPolicy = {
+  algorithm: 'Argon2id',
+  targetMs: { min: 150, max: 300, mid: 220 },
+  maxAgeMs: 90 * 24 * 60 * 60 * 1000, // 90 days
+};
+
+let calibrationPolicy: PassphraseCalibrationPolicy = DEFAULT_PASSPHRASE_CALIBRATION;
+
+/**
+ * Set the calibration policy used by passphrase setup, passphrase change and
+ * recalibration. Applies to this worker instance until changed again.
+ */
+export function setPassphraseCalibrationPolicy(policy: PassphraseCalibrationPolicy): void {
+  calibrationPolicy = policy;
+}
+
+/**
+ * Why a passphrase enrolment should be recalibrated:
+ * - `algorithm`: it uses another KDF than the policy's (a PBKDF2 enrolment
+ *   under the default policy is upgraded to Argon2id);
+ * - `stale`: the last calibration is older than the policy's `maxAgeMs`;
+ * - `platform`: it was calibrated on another platform (or on none recorded).
+ */
+export type RecalibrationReason = 'algorithm' | 'stale' | 'platform';
+
+/**
+ * A passphrase unlock kept for recalibration: a copy of the MS, the
+ * passphrase and the config it was unwrapped from. The holder must zeroise
+ * `ms` when done.
+ */
+export interface PendingRecalibration {
+  reason: RecalibrationReason;
+  ms: Uint8Array;
+  passphrase: string;
+  config: PassphraseConfigV2;
+}
+
+/**
+ * Accounts whose next passphrase unlock should be kept for recalibration
+ * (see {@link expectRecalibration}); null until such an unlock happens.
+ */
+const recalibrationSlots = new Map<string, PendingRecalibration | null>();
+
 /**
  * Generate a new random 32‑byte master secret. The MS should never
  * persist in storage unencrypted.
@@ -47,8 +110,8 @@ function generateMasterSecret(): Uint8Array {
 
 /**
  * Setup the passphrase authentication method. Derives a key
- * encryption key (KEK) from the provided passphrase via calibrated
- * PBKDF2, encrypts the master secret under AES‑GCM and stores the
+ * encryption key (KEK) from the provided passphrase via the policy's
+ * calibrated KDF, encrypts the master secret under AES‑GCM and stores the
  * resulting configuration. Returns the cleartext MS to the caller.
  */
 export async function setupPassphrase(
@@ -56,24 +119,146 @@ export async function setupPassphrase(
   passphrase: string,
   existingMS?: Uint8Array
 ): Promise<UnlockResult> {
+  if (passphrase.length < 8) {
+    return { success: false, code: 'VALIDATION', error: 'Passphrase must be at least 8 characters' };
+  }
+  if (existingMS && (await getMeta(getPassphraseConfigKey(userId)))) {
+    return { success: false, code: 'CONFLICT', error: 'Passphrase already enrolled; use changePassphrase' };
+  }
   const ms = existingMS ?? generateMasterSecret();
-  // Calibrate PBKDF2 iterations and derive KEK
-  const { iterations } = await calibratePBKDF2Iterations();
-  const salt = crypto.getRandomValues(new Uint8Array(16));
-  const passphraseKey = await crypto.subtle.importKey(
-    'raw',
-    new TextEncoder().encode(passphrase),
-    'PBKDF2',
-    false,
-    ['deriveKey']
-  );
-  const kek = await crypto.subtle.deriveKey(
-    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
-    passphraseKey,
-    { name: 'AES-GCM', length: 256 },
-    true, // extractable: true for KCV computation
-    ['encrypt', 'decrypt']
-  );
+  await putMeta(getPassphraseConfigKey(userId), await buildPassphraseConfig(ms, passphrase));
+  return { success: true, ms };
+}
+
+/**
+ * Change the passphrase of an existing enrolment: the same MS is re-wrapped
+ * under a KEK from the new passphrase, with a fresh salt and freshly
+ * calibrated KDF parameters. Only the passphrase config changes; every key
+ * derived from the MS (MKEK, messaging KEK) stays the same.
+ *
+ * @param userId - Account whose passphrase changes
+ * @param ms - The Master Secret, from unlocking with the old passphrase
+ * @param newPassphrase - Passphrase to wrap the MS under
+ * @returns The stored config
+ * @throws if the account has no passphrase enrolment
+ */
+export async function changePassphrase(
+  userId: string,
+  ms: Uint8Array,
+  newPassphrase: string
+): Promise<PassphraseConfigV2> {
+  return replacePassphraseConfig(userId, ms, newPassphrase);
+}
+
+/**
+ * Check whether a passphrase enrolment's KDF calibration should be
+ * redone on this platform (see {@link RecalibrationReason}).
+ *
+ * @returns The reason, or null when the calibration is current or the
+ *   account has no passphrase enrolment
+ */
+export async function checkPassphraseCalibration(
+  userId: string,
+  now: number = Date.now()
+): Promise<RecalibrationReason | null> {
+  const config = await getMeta<PassphraseConfigV2>(getPassphraseConfigKey(userId));
+  if (!config) return null;
+  return calibrationReason(config, now);
+}
+
+async function calibrationReason(config: PassphraseConfigV2, now: number): Promise<RecalibrationReason | null> {
+  if (config.kdf.algorithm !== calibrationPolicy.algorithm) return 'algorithm';
+  if (config.kdf.platformHash !== (await getPlatformHash())) return 'platform';
+  if (now - config.kdf.lastCalibratedAt > calibrationPolicy.maxAgeMs) return 'stale';
+  return null;
+}
+
+/**
+ * Keep the next passphrase unlock of `userId` for recalibration when its
+ * enrolment is due for one: the unlock stores a copy of the MS, to be
+ * collected with {@link takeRecalibration}. Lets a caller recalibrate after
+ * the operation that unlocked without unlocking (and running the KDF) again.
+ */
+export function expectRecalibration(userId: string): void {
+  if (!recalibrationSlots.has(userId)) {
+    recalibrationSlots.set(userId, null);
+  }
+}
+
+/**
+ * Collect the unlock kept by {@link expectRecalibration} and stop keeping
+ * unlocks for `userId`.
+ *
+ * @returns The kept unlock, or null when no passphrase unlock was due for
+ *   recalibration
+ */
+export function takeRecalibration(userId: string): PendingRecalibration | null {
+  const pending = recalibrationSlots.get(userId) ?? null;
+  recalibrationSlots.delete(userId);
+  return pending;
+}
+
+/**
+ * Recalibrate a passphrase enrolment for this platform: the same MS is
+ * re-wrapped under the same passphrase with a fresh salt, using the policy's
+ * KDF with parameters calibrated to its target time.
+ *
+ * @param userId - Account to recalibrate
+ * @param ms - The Master Secret, from unlocking with `passphrase`
+ * @param passphrase - The current passphrase
+ * @param unlockedFrom - Config the MS was unwrapped from; when given, the
+ *   enrolment is only replaced if it is still that config
+ * @returns The stored config
+ * @throws if the account has no passphrase enrolment, or it changed since
+ *   `unlockedFrom`
+ */
+export async function recalibratePassphrase(
+  userId: string,
+  ms: Uint8Array,
+  passphrase: string,
+  unlockedFrom?: PassphraseConfigV2
+): Promise<PassphraseConfigV2> {
+  return replacePassphraseConfig(userId, ms, passphrase, unlockedFrom);
+}
+
+/**
+ * Re-wrap the MS of an existing passphrase enrolment, keeping its creation
+ * time and bumping its `msVersion`.
+ */
+async function replacePassphraseConfig(
+  userId: string,
+  ms: Uint8Array,
+  passphrase: string,
+  unlockedFrom?: PassphraseConfigV2
+): Promise<PassphraseConfigV2> {
+  const current = await getMeta<PassphraseConfigV2>(getPassphraseConfigKey(userId));
+  if (!current) {
+    throw new KMSError('NOT_SETUP', 'Passphrase not set up');
+  }
+  if (unlockedFrom && !sameWrappedMS(current, unlockedFrom)) {
+    // Passphrase changed or MS rotated since: re-wrapping would undo that
+    throw new KMSError('CONFLICT', 'Passphrase enrolment changed since it was unlocked');
+  }
+  const config = await buildPassphraseConfig(ms, passphrase);
+  config.createdAt = current.createdAt;
+  config.msVersion = current.msVersion + 1;
+  await putMeta(getPassphraseConfigKey(userId), config);
+  return config;
+}
+
+function sameWrappedMS(a: PassphraseConfigV2, b: PassphraseConfigV2): boolean {
+  const x = new Uint8Array(a.encryptedMS);
+  const y = new Uint8Array(b.encryptedMS);
+  return x.length === y.length && x.every((byte, i) => byte === y[i]);
+}
+
+/**
+ * Wrap the MS under a key from `passphrase`, derived with the policy's KDF
+ * calibrated for this platform.
+ */
+async function buildPassphraseConfig(ms: Uint8Array, passphrase: string): Promise<PassphraseConfigV2> {
+  const kdf = await calibratePassphraseKDF();
+  const kek = await derivePassphraseKey(kdf, passphrase);
   // Compute KCV
   const kcv = await computeKCV(kek);
   // Encrypt MS
@@ -89,18 +274,11 @@ export async function setupPassphrase(
     kek,
     ms as BufferSource
   );
-  // Persist config
-  const config: PassphraseConfigV2 = {
+  return {
     kmsVersion: 2,
     algVersion: 1,
     method: 'passphrase',
-    kdf: {
-      algorithm: 'PBKDF2-HMAC-SHA256',
-      iterations,
-      salt: salt.buffer.slice(salt.byteOffset, salt.byteOffset + salt.byteLength),
-      lastCalibratedAt: Date.now(),
-      platformHash: '', // platform hash can be filled by caller
-    },
+    kdf,
     kcv,
     encryptedMS: ciphertext,
     msIV: iv.buffer.slice(iv.byteOffset, iv.byteOffset + iv.byteLength),
@@ -109,8 +287,55 @@ export async function setupPassphrase(
     createdAt: Date.now(),
     updatedAt: Date.now(),
   };
-  await putMeta(getPassphraseConfigKey(userId), config);
-  return { success: true, ms };
+}
+
+/**
+ * Fresh KDF parameters (and salt) for the policy's algorithm on this platform.
+ */
+async function calibratePassphraseKDF(): Promise<PassphraseKDFConfig> {
+  const salt = crypto.getRandomValues(new Uint8Array(16)).buffer;
+  const lastCalibratedAt = Date.now();
+  const platformHash = await getPlatformHash();
+  if (calibrationPolicy.algorithm === 'Argon2id') {
+    const { params } = await calibrateArgon2idParams(calibrationPolicy.targetMs);
+    return { algorithm: 'Argon2id', ...params, salt, lastCalibratedAt, platformHash };
+  }
+  const { iterations } = await calibratePBKDF2Iterations(calibrationPolicy.targetMs);
+  return { algorithm: 'PBKDF2-HMAC-SHA256', iterations, salt, lastCalibratedAt, platformHash };
+}
+
+/**
+ * Derive the passphrase KEK with an enrolment's KDF. The key is extractable
+ * for KCV computation.
+ */
+async function derivePassphraseKey(kdf: PassphraseKDFConfig, passphrase: string): Promise<CryptoKey> {
+  const passphraseBytes = new TextEncoder().encode(passphrase);
+  if (kdf.algorithm === 'Argon2id') {
+    const { memoryKiB, iterations, parallelism } = kdf;
+    const keyBytes = await argon2id(passphraseBytes, new Uint8Array(kdf.salt), {
+      memoryKiB,
+      iterations,
+      parallelism,
+    });
+    try {
+      return await crypto.subtle.importKey('raw', keyBytes as BufferSource, 'AES-GCM', true, [
+        'encrypt',
+        'decrypt',
+      ]);
+    } finally {
+      keyBytes.fill(0);
+      passphraseBytes.fill(0);
+    }
+  }
+  const passphraseKey = await crypto.subtle.importKey('raw', passphraseBytes, 'PBKDF2', false, ['deriveKey']);
+  passphraseBytes.fill(0);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: kdf.salt, iterations: kdf.iterations },
+    passphraseKey,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
 }
 
 /**
@@ -128,6 +353,16 @@ export async function setupPasskeyPRF(
   providedAppSalt?: Uint8Array,
   providedHkdfSalt?: Uint8Array
 ): Promise<UnlockResult> {
+  if (credentialId.byteLength === 0 || prfOutput.byteLength !== 32) {
+    return {
+      success: false,
+      code: 'VALIDATION',
+      error: 'Passkey PRF setup needs a credentialId and a 32-byte prfOutput',
+    };
+  }
+  if (existingMS && (await getMeta(getPasskeyPRFConfigKey(userId)))) {
+    return { success: false, code: 'CONFLICT', error: 'Passkey (PRF) already enrolled' };
+  }
   const ms = existingMS ?? generateMasterSecret();
 
   // Use provided salts (from popup flow) or generate them (from iframe flow)
@@ -221,6 +456,12 @@ export async function setupPasskeyGate(
   existingMS?: Uint8Array,
   rpId: string = ''
 ): Promise<UnlockResult> {
+  if (credentialId.byteLength === 0) {
+    return { success: false, code: 'VALIDATION', error: 'Passkey gate setup needs a credentialId' };
+  }
+  if (existingMS && (await getMeta(getPasskeyGateConfigKey(userId)))) {
+    return { success: false, code: 'CONFLICT', error: 'Passkey (gate) already enrolled' };
+  }
   const ms = existingMS ?? generateMasterSecret();
 
   // Generate random pepper (32 bytes)
@@ -285,34 +526,27 @@ export async function setupPasskeyGate(
 export async function unlockWithPassphrase(userId: string, passphrase: string): Promise<UnlockResult> {
   const config = (await getMeta<PassphraseConfigV2>(getPassphraseConfigKey(userId)));
   if (!config) return { success: false, error: 'Passphrase not set up' };
-  const passphraseKey = await crypto.subtle.importKey(
-    'raw',
-    new TextEncoder().encode(passphrase),
-    'PBKDF2',
-    false,
-    ['deriveKey']
-  );
-  const kek = await crypto.subtle.deriveKey(
-    { name: 'PBKDF2', hash: 'SHA-256', salt: config.kdf.salt, iterations: config.kdf.iterations },
-    passphraseKey,
-    { name: 'AES-GCM', length: 256 },
-    true, // extractable: true for KCV computation
-    ['encrypt', 'decrypt']
-  );
-  const computedKcv = await computeKCV(kek);
-  if (!verifyKCV(computedKcv, config.kcv)) {
-    return { success: false, error: 'Invalid passphrase' };
+  const result = await unlockPassphraseConfig(config, passphrase);
+  if (result.success && recalibrationSlots.has(userId)) {
+    const reason = await calibrationReason(config, Date.now());
+    // The caller zeroises result.ms; the slot keeps its own copy
+    if (reason && recalibrationSlots.has(userId)) {
+      recalibrationSlots.get(userId)?.ms.fill(0);
+      recalibrationSlots.set(userId, { reason, ms: result.ms.slice(), passphrase, config });
+    }
   }
-  try {
-    const msBuf = await crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv: config.msIV, additionalData: config.msAAD },
-      kek,
-      config.encryptedMS
-    );
-    return { success: true, ms: new Uint8Array(msBuf) };
-  } catch {
-    return { success: false, error: 'Decryption failed' };
+  return result;
+}
+
+/**
+ * Passphrase unlock against a given configuration (stored or from a backup).
+ */
+async function unlockPassphraseConfig(config: PassphraseConfigV2, passphrase: string): Promise<UnlockResult> {
+  const kek = await derivePassphraseKEK(config, passphrase);
+  if (!kek) {
+    return { success: false, error: 'Invalid passphrase' };
   }
+  return decryptMS(config, kek);
 }
 
 /**
@@ -323,26 +557,14 @@ export async function unlockWithPassphrase(userId: string, passphrase: string):
 export async function unlockWithPasskeyPRF(userId: string, prfOutput: ArrayBuffer): Promise<UnlockResult> {
   const config = (await getMeta<PasskeyPRFConfigV2>(getPasskeyPRFConfigKey(userId)));
   if (!config) return { success: false, error: 'Passkey not set up' };
-  const hkdfSalt = config.kdf.hkdfSalt;
-  const info = new TextEncoder().encode(config.kdf.info);
-  const ikm = await crypto.subtle.importKey('raw', prfOutput, 'HKDF', false, ['deriveKey']);
-  const kek = await crypto.subtle.deriveKey(
-    { name: 'HKDF', hash: 'SHA-256', salt: hkdfSalt, info },
-    ikm,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt', 'decrypt']
-  );
-  try {
-    const msBuf = await crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv: config.msIV, additionalData: config.msAAD },
-      kek,
-      config.encryptedMS
-    );
-    return { success: true, ms: new Uint8Array(msBuf) };
-  } catch {
-    return { success: false, error: 'Decryption failed' };
-  }
+  return unlockPasskeyPRFConfig(config, prfOutput);
+}
+
+/**
+ * Passkey PRF unlock against a given configuration (stored or from a backup).
+ */
+async function unlockPasskeyPRFConfig(config: PasskeyPRFConfigV2, prfOutput: ArrayBuffer): Promise<UnlockResult> {
+  return decryptMS(config, await derivePRFKEK(config, prfOutput));
 }
 
 /**
@@ -356,23 +578,58 @@ export async function unlockWithPasskeyPRF(userId: string, prfOutput: ArrayBuffe
 export async function unlockWithPasskeyGate(userId: string): Promise<UnlockResult> {
   const config = await getMeta<PasskeyGateConfigV2>(getPasskeyGateConfigKey(userId));
   if (!config) return { success: false, error: 'Passkey gate not set up' };
+  return decryptMS(config, await deriveGateKEK(config));
+}
 
-  // Retrieve the pepper
-  const pepper = new Uint8Array(config.pepperWrapped);
+/**
+ * Re-derive the passphrase KEK of a stored configuration. Returns null
+ * when the passphrase does not match the stored KCV.
+ */
+async function derivePassphraseKEK(config: PassphraseConfigV2, passphrase: string): Promise<CryptoKey | null> {
+  const kek = await derivePassphraseKey(config.kdf, passphrase);
+  const computedKcv = await computeKCV(kek);
+  return verifyKCV(computedKcv, config.kcv) ? kek : null;
+}
+
+/**
+ * Re-derive the KEK of a passkey PRF configuration from the PRF output.
+ */
+async function derivePRFKEK(config: PasskeyPRFConfigV2, prfOutput: ArrayBuffer): Promise<CryptoKey> {
+  const info = new TextEncoder().encode(config.kdf.info);
+  const ikm = await crypto.subtle.importKey('raw', prfOutput, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: config.kdf.hkdfSalt, info },
+    ikm,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
 
-  // Derive KEK from pepper (same as setup)
+/**
+ * Re-derive the KEK of a passkey gate configuration from its stored pepper
+ * (same derivation as setup).
+ */
+async function deriveGateKEK(config: PasskeyGateConfigV2): Promise<CryptoKey> {
+  const pepper = new Uint8Array(config.pepperWrapped);
   const hkdfSalt = await deriveDeterministicSalt('ATS/KMS/KEK-gate/salt/v2');
   const info = new TextEncoder().encode('ATS/KMS/KEK-gate/v2');
   const ikm = await crypto.subtle.importKey('raw', pepper, 'HKDF', false, ['deriveKey']);
-  const kek = await crypto.subtle.deriveKey(
+  return crypto.subtle.deriveKey(
     { name: 'HKDF', hash: 'SHA-256', salt: hkdfSalt, info },
     ikm,
     { name: 'AES-GCM', length: 256 },
     false,
     ['encrypt', 'decrypt']
   );
+}
 
-  // Decrypt MS
+type EnrollmentConfigV2 = PassphraseConfigV2 | PasskeyPRFConfigV2 | PasskeyGateConfigV2;
+
+/**
+ * Decrypt the MS of an enrolment configuration under its KEK.
+ */
+async function decryptMS(config: EnrollmentConfigV2, kek: CryptoKey): Promise<UnlockResult> {
   try {
     const msBuf = await crypto.subtle.decrypt(
       { name: 'AES-GCM', iv: config.msIV, additionalData: config.msAAD },
@@ -385,6 +642,87 @@ export async function unlockWithPasskeyGate(userId: string): Promise<UnlockResul
   }
 }
 
+/**
+ * Re-encrypt a new Master Secret for every enrolment of an account, for
+ * Master Secret rotation. Each enrolment keeps its KEK (same passphrase
+ * salt and iterations, same passkey, same pepper) and AAD; only the
+ * ciphertext, IV and `msVersion` change. Passphrase and passkey PRF
+ * enrolments need their credential in `credentials` to re-derive the KEK,
+ * and every enrolment must currently decrypt to `oldMS`.
+ *
+ * Nothing is written: the returned meta records are meant to be committed
+ * together with everything else the rotation re-wraps.
+ *
+ * @param userId - Account being rotated
+ * @param oldMS - The current Master Secret
+ * @param newMS - The Master Secret replacing it
+ * @param credentials - One credential per enrolment that needs one
+ * @returns The updated configurations as `meta` store records
+ * @throws if a credential is missing or an enrolment does not hold `oldMS`
+ */
+export async function rewrapEnrollments(
+  userId: string,
+  oldMS: Uint8Array,
+  newMS: Uint8Array,
+  credentials: AuthCredentials[]
+): Promise<Array<{ key: string; value: EnrollmentConfigV2 }>> {
+  const passphrase = await getMeta<PassphraseConfigV2>(getPassphraseConfigKey(userId));
+  const prf = await getMeta<PasskeyPRFConfigV2>(getPasskeyPRFConfigKey(userId));
+  const gate = await getMeta<PasskeyGateConfigV2>(getPasskeyGateConfigKey(userId));
+
+  const pending: Array<{ key: string; config: EnrollmentConfigV2; kek: CryptoKey | null }> = [];
+  const missing: string[] = [];
+  if (passphrase) {
+    const credential = credentials.find((c) => c.method === 'passphrase');
+    if (!credential) missing.push('passphrase');
+    const kek = credential ? await derivePassphraseKEK(passphrase, credential.passphrase) : null;
+    pending.push({ key: getPassphraseConfigKey(userId), config: passphrase, kek });
+  }
+  if (prf) {
+    const credential = credentials.find((c) => c.method === 'passkey-prf');
+    if (!credential) missing.push('passkey-prf');
+    const kek = credential ? await derivePRFKEK(prf, credential.prfOutput) : null;
+    pending.push({ key: getPasskeyPRFConfigKey(userId), config: prf, kek });
+  }
+  if (gate) {
+    pending.push({ key: getPasskeyGateConfigKey(userId), config: gate, kek: await deriveGateKEK(gate) });
+  }
+  if (missing.length > 0) {
+    throw new ValidationError(`Master Secret rotation needs credentials for every enrollment (missing: ${missing.join(', ')})`);
+  }
+
+  const now = Date.now();
+  const records: Array<{ key: string; value: EnrollmentConfigV2 }> = [];
+  for (const { key, config, kek } of pending) {
+    const current = kek ? await decryptMS(config, kek) : null;
+    const matches =
+      current?.success === true &&
+      current.ms.length === oldMS.length &&
+      current.ms.every((b, i) => b === oldMS[i]);
+    if (current?.success) current.ms.fill(0);
+    if (!kek || !matches) {
+      throw new UnlockFailedError(`Cannot re-wrap ${config.method} enrollment: credential does not unlock the current Master Secret`);
+    }
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encryptedMS = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: config.msAAD },
+      kek,
+      newMS as BufferSource
+    );
+    records.push({
+      key,
+      value: {
+        ...config,
+        encryptedMS,
+        msIV: iv.buffer,
+        msVersion: config.msVersion + 1,
+        updatedAt: now,
+      },
+    });
+  }
+  return records;
+}
+
 /**
  * Test whether any enrolment exists. Used by the UI to determine
  * whether setup is required.
@@ -472,25 +810,61 @@ export async function withUnlock<T>(
   credentials: AuthCredentials,
   operation: (mkek: CryptoKey, ms: Uint8Array) => Promise<T>
 ): Promise<UnlockOperationResult<T>> {
-  const start = Date.now();
-  let ms: Uint8Array | null = null;
-  try {
-    let unlockResult: UnlockResult;
+  return runUnlocked(async () => {
     switch (credentials.method) {
       case 'passphrase':
-        unlockResult = await unlockWithPassphrase(credentials.userId, credentials.passphrase);
-        break;
+        return unlockWithPassphrase(credentials.userId, credentials.passphrase);
       case 'passkey-prf':
-        unlockResult = await unlockWithPasskeyPRF(credentials.userId, credentials.prfOutput);
-        break;
+        return unlockWithPasskeyPRF(credentials.userId, credentials.prfOutput);
       case 'passkey-gate':
-        unlockResult = await unlockWithPasskeyGate(credentials.userId);
-        break;
+        return unlockWithPasskeyGate(credentials.userId);
       default:
-        throw new Error('Unknown credential method');
+        throw new ValidationError('Unknown credential method');
     }
+  }, operation);
+}
+
+/**
+ * Like {@link withUnlock}, but unlocks against the given enrolment
+ * configurations instead of the stored ones — used to open a backup
+ * archive, whose enrolments need not exist in this KMS. Passkey‑gate
+ * enrolments are not accepted: they carry no secret of their own.
+ */
+export async function withUnlockFromEnrollments<T>(
+  enrollments: UnlockEnrollments,
+  credentials: AuthCredentials,
+  operation: (mkek: CryptoKey, ms: Uint8Array) => Promise<T>
+): Promise<UnlockOperationResult<T>> {
+  return runUnlocked(async () => {
+    switch (credentials.method) {
+      case 'passphrase':
+        return enrollments.passphrase
+          ? unlockPassphraseConfig(enrollments.passphrase, credentials.passphrase)
+          : { success: false, error: 'Passphrase not set up' };
+      case 'passkey-prf':
+        return enrollments.passkeyPrf
+          ? unlockPasskeyPRFConfig(enrollments.passkeyPrf, credentials.prfOutput)
+          : { success: false, error: 'Passkey not set up' };
+      default:
+        return { success: false, error: `Unlock method ${credentials.method} is not supported here` };
+    }
+  }, operation);
+}
+
+/**
+ * Shared body of the unlock gates: unlock, derive the MKEK, run the
+ * operation and zeroise the MS whatever the outcome.
+ */
+async function runUnlocked<T>(
+  unlock: () => Promise<UnlockResult>,
+  operation: (mkek: CryptoKey, ms: Uint8Array) => Promise<T>
+): Promise<UnlockOperationResult<T>> {
+  const start = Date.now();
+  let ms: Uint8Array | null = null;
+  try {
+    const unlockResult = await unlock();
     if (!unlockResult.success) {
-      throw new Error(unlockResult.error ?? 'Unlock failed');
+      throw new UnlockFailedError(unlockResult.error);
     }
     ms = unlockResult.ms;
     const mkek = await deriveMKEKFromMS(ms);
@@ -27,56 +27,98 @@ import type {
   LeaseRecord,
   QuotaState,
   AuditEntryV2,
+  AuditLogExport,
+  AuditLogFilter,
   LeaseVerificationResult,
   VerificationResult,
   StoredPushSubscription,
+  PushSubscriptionRecord,
+  WrappedKey,
+  PassphraseConfigV2,
+  PassphraseKDFAlgorithm,
+  UnlockEnrollments,
   PasskeyPRFConfigV2,
   PasskeyGateConfigV2,
+  PrekeyBundleDelta,
 } from './types';
 import {
   setupPassphrase,
   setupPasskeyPRF,
   setupPasskeyGate,
   withUnlock,
+  withUnlockFromEnrollments,
+  changePassphrase,
+  expectRecalibration,
+  takeRecalibration,
+  recalibratePassphrase,
+  rewrapEnrollments,
   deriveMKEKFromMS,
   deriveMessagingKEK,
   isSetup,
   isPassphraseSetup,
   isPasskeySetup,
 } from './unlock';
+import type { PendingRecalibration } from './unlock';
 import {
   initAuditLogger,
   resetAuditLogger,
   ensureAuditKey,
   logOperation,
   verifyAuditChain,
+  exportAuditLog,
   getAuditPublicKey,
   generateLAK,
   loadLAK,
   ensureKIAK,
+  generateLRK,
+  openLRKSealedKey,
+  sealUnderLRK,
+  rotateAuditKey,
+  openAuditScope,
+  registerAuditSubId,
+  closeAuditScope,
+  type AuditScope,
+  waiveAuditEntry,
+  type LRKSealedKey,
 } from './audit';
 import {
   initDB,
+  DB_VERSION,
   clearAllStores,
+  snapshotAllStores,
+  replaceAllStores,
+  putRecords,
   wrapKey,
   unwrapKey,
   getWrappedKey,
   getAllWrappedKeys,
   deleteWrappedKey,
+  getVAPIDKeys,
+  scheduleKeyRetirement,
   putMeta,
   getMeta,
   deleteMeta,
+  getAllMeta,
   getAllAuditEntries,
+  getLastAuditEntry,
   getUserLeases,
+  getAllLeases,
+  getLeasesByKid,
   storeLease,
   getLease,
   deleteLease,
   setPushSubscription,
   removePushSubscription,
   getPushSubscription,
+  listPushSubscriptions,
+  deletePushSubscriptionsByKid,
   withSessionLock,
+  withKeyedLock,
+  acquireStoreAccess,
   countUnconsumedOnetimePrekeys,
   getSignalIdentity,
+  getSignalTrustedIdentity,
+  getSignalTrustedIdentities,
 } from './storage';
 import {
   rawP256ToJwk,
@@ -85,14 +127,44 @@ import {
   base64urlToArrayBuffer,
 } from './crypto-utils';
 import { getErrorMessage } from './error-utils';
+import {
+  KMSError,
+  LeaseExpiredError,
+  SessionExpiredError,
+  UnlockFailedError,
+  ValidationError,
+  WrongKeyError,
+  toRPCErrorDetail,
+} from './errors';
 import * as validators from './rpc-validation';
-import { loadRateLimitState } from './storage-types';
+import { enforceOperationPolicy, OperationPolicyError } from './operation-policy';
+import { loadRateLimitState, createRateLimitState } from './storage-types';
+import { chargeQuota, DEFAULT_LEASE_QUOTAS } from './rate-limit';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  KIAK_KID,
+  LAK_META_PREFIX,
+  isDeviceBoundMetaKey,
+  deriveBackupKey,
+  sealBackup,
+  readBackupArchive,
+  openBackup,
+  verifyBackupPayload,
+  encodeEnrollments,
+  decodeEnrollments,
+  type BackupDeviceKey,
+} from './backup';
+import { rewrapKeyRecord, rewrapBlobs } from './rotation';
 import {
   createSignalProtocolStore,
   generateIdentity,
   generateSignedPrekey,
   generateOneTimePrekeys,
   getPublicBundle,
+  maintainPrekeys,
+  isPrekeyDeltaEmpty,
+  addressName,
   type PublicPreKeyBundle,
 } from './signal';
 import {
@@ -109,6 +181,8 @@ import {
 } from './self-channel';
 import { deriveScope, deriveExchangeKey } from './pairing';
 import {
+  deriveMasterSigningKey,
+  deriveMasterEncryptionKey,
   masterSigningPublicRaw,
   masterEncryptionPublicRaw,
   signDeviceCert,
@@ -116,9 +190,13 @@ import {
   identityFingerprint,
   type DeviceIdentityKeys,
 } from './master-identity';
+import { computeSafetyNumber, checkSafetyQr, type SafetyIdentity, type SafetyNumber } from './safety-number';
+import { nextDeviceRoster, signDeviceRoster, openDeviceRoster, rosterDeviceId } from './device-roster';
+import { loadDeviceRoster, storeDeviceRoster, isRevokedDevice } from './roster-store';
 import {
   generateRoomSecret,
   buildConnectInvite,
+  buildRoomInvite,
   encodeInvite,
   decodeInvite,
   roomSecretFromB64url,
@@ -128,16 +206,57 @@ import {
   type InviteCard,
 } from './invite';
 import { storeInvite, loadInvite, listInviteMeta, type InviteMeta } from './invite-store';
-import { deleteMessagingInvite } from './storage';
-import type { ConnectPeer } from './types';
+import { deleteMessagingInvite, deleteMessagingRoom } from './storage';
+import type {
+  ConnectPeer,
+  ContactInfo,
+  ContactTrustState,
+  InviteType,
+  ReceivedAttachment,
+  BundleSender,
+  RoomInfo,
+  RoomMember,
+  RoomRekey,
+  RoomRole,
+  KMSEvent,
+  RPCErrorCode,
+} from './types';
+import { MAX_ROOM_MEMBERS, sealRoomKey, openRoomKey, verifyRoomKey } from './room';
+import { storeRoom, getRoomInfo } from './room-store';
 import { storeContactSecret, loadContactSecret, listContactPeers } from './contact-store';
+import {
+  getContactTrust,
+  listContactTrust,
+  recordContactIdentity,
+  setContactVerification,
+  markContactChanged,
+  type ContactKeys,
+} from './trust-store';
 import {
   encryptEnvelope,
   serializeBundle,
   parseBundle,
   trialDecryptEnvelope,
+  preKeyIdentityKey,
+  ENVELOPE_TYPE_PREKEY,
+  sendTransportTag,
+  expectedTransportTags,
+  planDecryptAttempts,
+  sealEnvelope,
+  unsealEnvelope,
   type Envelope,
+  type SenderCertificate,
 } from './envelope';
+import {
+  encryptAttachment,
+  decryptAttachment,
+  createAttachmentDecryptor,
+  frameMessageContent,
+  parseMessageContent,
+  sealAttachmentHandle,
+  openAttachmentHandle,
+  type AttachmentDecryptor,
+} from './attachment';
 import {
   wrapAccountRootToDevice,
   unwrapAccountRootFromDevice,
@@ -149,6 +268,10 @@ import {
   SignalProtocolAddress,
 } from '@lukium/libsignal-protocol-typescript';
 import type { DeviceType } from '@lukium/libsignal-protocol-typescript';
+import { emitKMSEvent, subscribeKMSEvents } from './events';
+
+// Injected by build/build-enclave.ts (`pnpm build:dev` only); see handleResetKMS.
+declare const __KMS_DEV_UNAUTHENTICATED_RESET__: boolean;
 
 // ============================================================================
 // Session Key Cache (Lease-Scoped)
@@ -237,8 +360,26 @@ interface MessagingSession {
    * Rides device-key announcements so peers verify device→identity continuity (§2.2).
    */
   deviceCert?: Uint8Array;
+  /** Non-extractable master signing key: signs the room-key updates an admin sends. */
+  masterSigningKey?: CryptoKey;
+  /** Non-extractable master encryption key: opens room-key updates sealed to us. */
+  masterEncryptionKey?: CryptoKey;
+  /**
+   * Attachment decryptions in progress (`beginAttachmentDecrypt`), keyed by
+   * stream id, so they end with the session that opened them.
+   */
+  attachmentDecrypts?: Map<string, AttachmentDecryptStream>;
+}
+
+/** One chunked attachment decryption: the decryptor and whether a call is feeding it. */
+interface AttachmentDecryptStream {
+  decryptor: AttachmentDecryptor;
+  busy: boolean;
 }
 
+/** Max chunked attachment decryptions one messaging session keeps open at once. */
+const MAX_ATTACHMENT_DECRYPTS = 4;
+
 /**
  * Memory-only map of live messaging sessions keyed by `sid`. Never persisted to
  * IndexedDB (unlike `sessionKEKCache`): messaging is foreground/user-present, so
@@ -246,6 +387,45 @@ interface MessagingSession {
  */
 const messagingSessions = new Map<string, MessagingSession>();
 
+/** Expiry timers for {@link messagingSessions}, keyed by `sid`. */
+const messagingSessionTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Arm a session's expiry timer for the earlier of its idle and absolute
+ * deadlines, so an abandoned session's keys leave memory without waiting for
+ * the next call. A session whose idle deadline slid in the meantime is re-armed
+ * rather than dropped, so authorized calls never have to touch the timer.
+ */
+function watchMessagingSession(sid: string, session: MessagingSession): void {
+  clearTimeout(messagingSessionTimers.get(sid));
+  const deadline = Math.min(session.idleExp, session.absoluteExp);
+  const timer = setTimeout(() => {
+    if (messagingSessions.get(sid) !== session) {
+      return;
+    }
+    if (Date.now() < Math.min(session.idleExp, session.absoluteExp)) {
+      watchMessagingSession(sid, session);
+      return;
+    }
+    expireMessagingSession(sid, session);
+  }, Math.max(0, deadline - Date.now()));
+  messagingSessionTimers.set(sid, timer);
+}
+
+/** Drop a session and its expiry timer. */
+function dropMessagingSession(sid: string): void {
+  messagingSessions.delete(sid);
+  clearTimeout(messagingSessionTimers.get(sid));
+  messagingSessionTimers.delete(sid);
+}
+
+/** Drop a session that passed a deadline and tell the PWA ('session-expired'). */
+function expireMessagingSession(sid: string, session: MessagingSession): void {
+  dropMessagingSession(sid);
+  const reason = Date.now() >= session.absoluteExp ? 'absolute' : 'idle';
+  emitKMSEvent({ type: 'session-expired', sid, userId: session.userId, reason });
+}
+
 /**
  * Mint an Ed25519 capability token (compact JWS, `alg: EdDSA`) binding a `sid`
  * and the `messaging` scope to an expiry. Signed by the per-session private key;
@@ -277,17 +457,17 @@ async function mintCapabilityToken(
 async function requireCapability(sid: string, token: string): Promise<MessagingSession> {
   const session = messagingSessions.get(sid);
   if (!session) {
-    throw new Error('Messaging session not found (closed, expired, or never opened)');
+    throw new SessionExpiredError('Messaging session not found (closed, expired, or never opened)');
   }
   const now = Date.now();
   if (now >= session.absoluteExp || now >= session.idleExp) {
-    messagingSessions.delete(sid);
-    throw new Error('Messaging session expired; re-authenticate with openMessaging');
+    expireMessagingSession(sid, session);
+    throw new SessionExpiredError('Messaging session expired; re-authenticate with openMessaging');
   }
 
   const parts = token.split('.');
   if (parts.length !== 3) {
-    throw new Error('Malformed capability token');
+    throw new KMSError('UNAUTHORIZED', 'Malformed capability token');
   }
   const [headerB64, payloadB64, signatureB64] = parts as [string, string, string];
 
@@ -295,16 +475,16 @@ async function requireCapability(sid: string, token: string): Promise<MessagingS
   try {
     payload = JSON.parse(new TextDecoder().decode(base64urlToArrayBuffer(payloadB64))) as typeof payload;
   } catch {
-    throw new Error('Malformed capability token payload');
+    throw new KMSError('UNAUTHORIZED', 'Malformed capability token payload');
   }
   if (payload.sid !== sid) {
-    throw new Error('Capability token sid mismatch');
+    throw new KMSError('UNAUTHORIZED', 'Capability token sid mismatch');
   }
   if (!Array.isArray(payload.scope) || !payload.scope.includes('messaging')) {
-    throw new Error('Capability token missing messaging scope');
+    throw new KMSError('UNAUTHORIZED', 'Capability token missing messaging scope');
   }
   if (typeof payload.exp !== 'number' || now / 1000 >= payload.exp) {
-    throw new Error('Capability token expired');
+    throw new SessionExpiredError('Capability token expired');
   }
 
   const signingInput = new TextEncoder().encode(`${headerB64}.${payloadB64}`);
@@ -315,7 +495,7 @@ async function requireCapability(sid: string, token: string): Promise<MessagingS
     signingInput
   );
   if (!valid) {
-    throw new Error('Capability token signature invalid');
+    throw new KMSError('UNAUTHORIZED', 'Capability token signature invalid');
   }
 
   // Slide the idle window (absolute cap is untouched).
@@ -427,7 +607,7 @@ function requireMnemonicConfirmation(requestId: string, mnemonic: string): Promi
   return new Promise<void>((resolve, reject) => {
     const timeout = setTimeout(() => {
       pendingMnemonicConfirms.delete(requestId);
-      reject(new Error('Recovery-phrase backup confirmation timed out'));
+      reject(new KMSError('TIMEOUT', 'Recovery-phrase backup confirmation timed out'));
     }, MNEMONIC_CONFIRM_TIMEOUT_MS);
     pendingMnemonicConfirms.set(requestId, { resolve, reject, timeout });
     self.postMessage({ type: 'worker:show-mnemonic', requestId, mnemonic });
@@ -453,7 +633,7 @@ function requireMnemonicInput(requestId: string): Promise<string> {
   return new Promise<string>((resolve, reject) => {
     const timeout = setTimeout(() => {
       pendingMnemonicInputs.delete(requestId);
-      reject(new Error('Recovery-phrase entry timed out'));
+      reject(new KMSError('TIMEOUT', 'Recovery-phrase entry timed out'));
     }, MNEMONIC_CONFIRM_TIMEOUT_MS);
     pendingMnemonicInputs.set(requestId, { resolve, reject, timeout });
     self.postMessage({ type: 'worker:collect-mnemonic', requestId });
@@ -473,6 +653,20 @@ type CeremonyResolvers<T> = {
   timeout: ReturnType<typeof setTimeout>;
 };
 
+/**
+ * A ceremony whose outcome approves something. The RPC id is known to the
+ * parent that sent the request, so it cannot authenticate the answer: the
+ * worker also mints a nonce, hands it to the client with the prompt, and only
+ * accepts the approval when the client echoes it. The nonce travels worker →
+ * client → worker and is never posted to the parent.
+ */
+type ConfirmResolvers<T> = CeremonyResolvers<T> & { nonce: string };
+
+/** Fresh nonce binding a ceremony outcome to the prompt this worker posted. */
+function mintCeremonyNonce(): string {
+  return arrayBufferToBase64url(crypto.getRandomValues(new Uint8Array(16)).buffer);
+}
+
 /** Pending mint ceremonies: the popup is displaying the (secret-bearing) invite blob. */
 const pendingInviteShows = new Map<string, CeremonyResolvers<void>>();
 /** Pending accept ceremonies: awaiting the blob the popup collects (paste/scan + confirm). */
@@ -508,7 +702,7 @@ function showInviteInPopup(requestId: string, blob: string): Promise<void> {
   return new Promise<void>((resolve, reject) => {
     const timeout = setTimeout(() => {
       pendingInviteShows.delete(requestId);
-      reject(new Error('Invite display timed out'));
+      reject(new KMSError('TIMEOUT', 'Invite display timed out'));
     }, INVITE_CEREMONY_TIMEOUT_MS);
     pendingInviteShows.set(requestId, { resolve, reject, timeout });
     self.postMessage({ type: 'worker:show-invite', requestId, blob });
@@ -525,13 +719,105 @@ function collectInviteFromPopup(requestId: string): Promise<string> {
   return new Promise<string>((resolve, reject) => {
     const timeout = setTimeout(() => {
       pendingInviteCollects.delete(requestId);
-      reject(new Error('Invite entry timed out'));
+      reject(new KMSError('TIMEOUT', 'Invite entry timed out'));
     }, INVITE_CEREMONY_TIMEOUT_MS);
     pendingInviteCollects.set(requestId, { resolve, reject, timeout });
     self.postMessage({ type: 'worker:collect-invite', requestId });
   });
 }
 
+// ============================================================================
+// Safety-number ceremony (rooms-and-trust §4) — iframe comparison / QR scan
+// ============================================================================
+
+/** How the user settled a safety-number comparison in the popup. */
+type SafetyOutcome = { method: 'qr'; text: string } | { method: 'manual'; match: boolean };
+
+/** Pending safety-number ceremonies, keyed by the verifySafetyNumber RPC id. */
+const pendingSafetyChecks = new Map<string, ConfirmResolvers<SafetyOutcome>>();
+
+/**
+ * Show a safety number (digits, emoji, words and this side's QR) in the enclave
+ * popup and resolve with how the user settled it: the text of the peer's QR they
+ * scanned, or their manual "match"/"no match" answer. The comparison renders in
+ * kms.ats.run only, and the verdict must echo the prompt's nonce, so a
+ * compromised PWA cannot mark a contact verified on the user's behalf. Rejects on
+ * cancel/timeout.
+ */
+function showSafetyNumberInPopup(requestId: string, peerUserId: string, safety: SafetyNumber): Promise<SafetyOutcome> {
+  return new Promise<SafetyOutcome>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      pendingSafetyChecks.delete(requestId);
+      reject(new KMSError('TIMEOUT', 'Safety-number verification timed out'));
+    }, INVITE_CEREMONY_TIMEOUT_MS);
+    const nonce = mintCeremonyNonce();
+    pendingSafetyChecks.set(requestId, { resolve, reject, timeout, nonce });
+    self.postMessage({ type: 'worker:show-safety', requestId, peerUserId, nonce, ...safety });
+  });
+}
+
+// ============================================================================
+// KMS reset ceremony — popup confirmation
+// ============================================================================
+
+/** Timeout for the user to confirm a KMS reset (5 minutes). */
+const RESET_CONFIRM_TIMEOUT_MS = 300000;
+
+/** Pending reset confirmations, keyed by the resetKMS RPC id. */
+const pendingResetConfirms = new Map<string, ConfirmResolvers<void>>();
+
+/**
+ * Ask the enclave popup to confirm a full KMS reset and resolve once the user
+ * does. The prompt is rendered in kms.ats.run (never the PWA), so a compromised
+ * parent page cannot click through it, and the confirmation must carry the
+ * prompt's nonce, so it cannot forge one either. Rejects on cancel/timeout, in
+ * which case nothing is wiped.
+ */
+function requireResetConfirmation(requestId: string, userId: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      pendingResetConfirms.delete(requestId);
+      reject(new KMSError('TIMEOUT', 'KMS reset confirmation timed out'));
+    }, RESET_CONFIRM_TIMEOUT_MS);
+    const nonce = mintCeremonyNonce();
+    pendingResetConfirms.set(requestId, { resolve, reject, timeout, nonce });
+    self.postMessage({ type: 'worker:confirm-reset', requestId, userId, nonce });
+  });
+}
+
+// ============================================================================
+// Backup ceremony — popup confirmation
+// ============================================================================
+
+/** Timeout for the user to confirm a backup export/import (5 minutes). */
+const BACKUP_CONFIRM_TIMEOUT_MS = 300000;
+
+/** Pending backup confirmations, keyed by the exportBackup/importBackup RPC id. */
+const pendingBackupConfirms = new Map<string, ConfirmResolvers<void>>();
+
+/**
+ * Ask the enclave popup to confirm a backup export (every key leaves the KMS,
+ * encrypted) or import (every store is replaced). Same trust argument as
+ * {@link requireResetConfirmation}: the prompt renders in kms.ats.run only and
+ * the approval must echo its nonce.
+ * Rejects on cancel/timeout; nothing is exported or replaced.
+ */
+function requireBackupConfirmation(
+  requestId: string,
+  userId: string,
+  direction: 'export' | 'import'
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      pendingBackupConfirms.delete(requestId);
+      reject(new KMSError('TIMEOUT', `Backup ${direction} confirmation timed out`));
+    }, BACKUP_CONFIRM_TIMEOUT_MS);
+    const nonce = mintCeremonyNonce();
+    pendingBackupConfirms.set(requestId, { resolve, reject, timeout, nonce });
+    self.postMessage({ type: 'worker:confirm-backup', requestId, userId, direction, nonce });
+  });
+}
+
 /**
  * Pending fullSetup requests (multi-step orchestration).
  * Maps requestId to promise resolvers for async operations (push subscription, test notification).
@@ -688,7 +974,7 @@ async function setupWithEncryptedCredentials(params: {
   // Step 1: Retrieve ephemeral transport key
   const transport = ephemeralTransportKeys.get(params.transportKeyId);
   if (!transport) {
-    throw new Error('Transport key not found or expired');
+    throw new KMSError('EXPIRED', 'Transport key not found or expired');
   }
 
   // Step 2: Import popup's ephemeral public key
@@ -820,7 +1106,7 @@ async function setupWithEncryptedCredentials(params: {
       };
     } else {
       const exhaustive: never = params.method;
-      throw new Error(`Unknown method: ${String(exhaustive)}`);
+      throw new ValidationError(`Unknown method: ${String(exhaustive)}`);
     }
 
   // Step 7: Delete ephemeral transport key (one-time use, no longer needed)
@@ -882,7 +1168,7 @@ async function handleSetupWithPopup(
     encryptedCredentials: string;
   }>((resolve, reject) => {
     const timeout = setTimeout(() => {
-      reject(new Error('Setup with popup timeout'));
+      reject(new KMSError('TIMEOUT', 'Setup with popup timeout'));
     }, 300000); // 5 minute timeout
 
     // Store resolver
@@ -960,19 +1246,16 @@ async function handleFullSetup(
 
   // Validate TTL
   if (ttlHours <= 0 || ttlHours > 720) {
-    throw new Error('ttlHours must be between 0 and 720 (30 days)');
+    throw new ValidationError('ttlHours must be between 0 and 720 (30 days)');
   }
 
   // STEP 1: Check if already setup
-  const setupCheck = await isSetup(userId);
-  if (setupCheck) {
-    throw new Error('User already has authentication setup. Use addEnrollment to add additional methods.');
-  }
+  await assertNotEnrolled(userId);
 
   // STEP 2: Setup authentication (via popup)
   // This returns credentials for immediate lease creation (not exposed via RPC)
   // Note: handleSetupWithPopup returns credentials internally, not via RPC
-  const setupResult = await handleSetupWithPopup({ userId }, `${requestId}-setup`) as {
+  const setupResult = await handleSetupWithPopup({ userId }, auditSubId(requestId, 'setup')) as {
     success: true;
     enrollmentId: string;
     vapidPublicKey: string;
@@ -989,7 +1272,7 @@ async function handleFullSetup(
   // STEP 3: Request push subscription from parent PWA
   const subscription = await new Promise<StoredPushSubscription>((resolve, reject) => {
     const timeout = setTimeout(() => {
-      reject(new Error('Push subscription timeout (60s)'));
+      reject(new KMSError('TIMEOUT', 'Push subscription timeout (60s)'));
     }, 60000); // 60 second timeout
 
     const subRequestId = `${requestId}-push-sub`;
@@ -1010,8 +1293,8 @@ async function handleFullSetup(
     });
   });
 
-  // STEP 4: Store push subscription with VAPID key
-  await handleSetPushSubscription({ subscription });
+  // STEP 4: Register the push subscription for this user's endpoint
+  await handleSetPushSubscription({ userId, subscription });
 
   // STEP 5: Create lease with saved credentials
   // No re-authentication needed - we saved credentials from setup
@@ -1022,7 +1305,7 @@ async function handleFullSetup(
       credentials,
       autoExtend,
     },
-    `${requestId}-lease`
+    auditSubId(requestId, 'lease')
   );
 
   // STEP 6: Issue packet of 5 JWTs with staggered expirations
@@ -1032,7 +1315,7 @@ async function handleFullSetup(
       count: 5,
       kid: vapidKid,
     },
-    `${requestId}-jwts`
+    auditSubId(requestId, 'jwts')
   );
 
   // Extract JWTs without audit entries (cleaner return)
@@ -1048,7 +1331,7 @@ async function handleFullSetup(
 
     await new Promise<void>((resolve, reject) => {
       const timeout = setTimeout(() => {
-        reject(new Error('Test notification timeout (30s)'));
+        reject(new KMSError('TIMEOUT', 'Test notification timeout (30s)'));
       }, 30000); // 30 second timeout
 
       const notifRequestId = `${requestId}-test-notif`;
@@ -1127,6 +1410,7 @@ const handleWorkerMessage = (event: MessageEvent): void => {
     requestId?: string;
     reason?: string;
     mnemonic?: string;
+    nonce?: unknown;
     credentials?: {
       method: 'passphrase' | 'passkey-prf' | 'passkey-gate';
       transportKeyId: string;
@@ -1137,6 +1421,13 @@ const handleWorkerMessage = (event: MessageEvent): void => {
     };
   };
 
+  // KMSUser's heartbeat, relayed by the client: answered here so that a worker
+  // stuck in a handler misses it, not just a dead iframe.
+  if ('type' in message && message.type === 'kms:ping') {
+    self.postMessage({ type: 'kms:pong', nonce: message.nonce });
+    return;
+  }
+
   // Handle internal messages from client (not RPC requests)
   if ('type' in message && message.type === 'worker:popup-credentials') {
     // Client completed popup flow and is sending back encrypted credentials
@@ -1189,7 +1480,7 @@ const handleWorkerMessage = (event: MessageEvent): void => {
       if (pending) {
         clearTimeout(pending.timeout);
         pendingUnlockRequests.delete(requestId);
-        pending.reject(new Error(message.reason || 'Unlock failed'));
+        pending.reject(new UnlockFailedError(message.reason || 'Unlock failed'));
       }
     }
     return;
@@ -1217,14 +1508,14 @@ const handleWorkerMessage = (event: MessageEvent): void => {
       if (pending) {
         clearTimeout(pending.timeout);
         pendingMnemonicConfirms.delete(requestId);
-        pending.reject(new Error(message.reason || 'Recovery-phrase backup was cancelled'));
+        pending.reject(new KMSError('CANCELLED', message.reason || 'Recovery-phrase backup was cancelled'));
       }
       // Restore: the same cancel signal aborts an in-progress phrase entry.
       const input = pendingMnemonicInputs.get(requestId);
       if (input) {
         clearTimeout(input.timeout);
         pendingMnemonicInputs.delete(requestId);
-        input.reject(new Error(message.reason || 'Recovery-phrase entry was cancelled'));
+        input.reject(new KMSError('CANCELLED', message.reason || 'Recovery-phrase entry was cancelled'));
       }
     }
     return;
@@ -1259,7 +1550,7 @@ const handleWorkerMessage = (event: MessageEvent): void => {
     if (pending && message.requestId) {
       clearTimeout(pending.timeout);
       pendingInviteShows.delete(message.requestId);
-      pending.reject(new Error(message.reason || 'Invite display was cancelled'));
+      pending.reject(new KMSError('CANCELLED', message.reason || 'Invite display was cancelled'));
     }
     return;
   }
@@ -1279,7 +1570,76 @@ const handleWorkerMessage = (event: MessageEvent): void => {
     if (pending && message.requestId) {
       clearTimeout(pending.timeout);
       pendingInviteCollects.delete(message.requestId);
-      pending.reject(new Error(message.reason || 'Invite entry was cancelled'));
+      pending.reject(new KMSError('CANCELLED', message.reason || 'Invite entry was cancelled'));
+    }
+    return;
+  }
+
+  // Safety-number ceremony: the popup scanned the peer's QR, or the user compared by eye.
+  if ('type' in message && message.type === 'worker:safety-scanned') {
+    const pending = message.requestId ? pendingSafetyChecks.get(message.requestId) : undefined;
+    if (pending && message.requestId && message.nonce === pending.nonce) {
+      clearTimeout(pending.timeout);
+      pendingSafetyChecks.delete(message.requestId);
+      pending.resolve({ method: 'qr', text: String((message as { text?: string }).text ?? '') });
+    }
+    return;
+  }
+  if ('type' in message && message.type === 'worker:safety-compared') {
+    const pending = message.requestId ? pendingSafetyChecks.get(message.requestId) : undefined;
+    if (pending && message.requestId && message.nonce === pending.nonce) {
+      clearTimeout(pending.timeout);
+      pendingSafetyChecks.delete(message.requestId);
+      pending.resolve({ method: 'manual', match: (message as { match?: boolean }).match === true });
+    }
+    return;
+  }
+  if ('type' in message && message.type === 'worker:safety-cancelled') {
+    const pending = message.requestId ? pendingSafetyChecks.get(message.requestId) : undefined;
+    if (pending && message.requestId) {
+      clearTimeout(pending.timeout);
+      pendingSafetyChecks.delete(message.requestId);
+      pending.reject(new KMSError('CANCELLED', message.reason || 'Safety-number verification was cancelled'));
+    }
+    return;
+  }
+
+  // KMS reset: the user confirmed (or cancelled) the wipe in the enclave popup.
+  if ('type' in message && message.type === 'worker:reset-confirmed') {
+    const pending = message.requestId ? pendingResetConfirms.get(message.requestId) : undefined;
+    if (pending && message.requestId && message.nonce === pending.nonce) {
+      clearTimeout(pending.timeout);
+      pendingResetConfirms.delete(message.requestId);
+      pending.resolve();
+    }
+    return;
+  }
+  if ('type' in message && message.type === 'worker:reset-cancelled') {
+    const pending = message.requestId ? pendingResetConfirms.get(message.requestId) : undefined;
+    if (pending && message.requestId) {
+      clearTimeout(pending.timeout);
+      pendingResetConfirms.delete(message.requestId);
+      pending.reject(new KMSError('CANCELLED', message.reason || 'KMS reset was cancelled'));
+    }
+    return;
+  }
+
+  // Backup export/import: the user confirmed (or cancelled) in the enclave popup.
+  if ('type' in message && message.type === 'worker:backup-confirmed') {
+    const pending = message.requestId ? pendingBackupConfirms.get(message.requestId) : undefined;
+    if (pending && message.requestId && message.nonce === pending.nonce) {
+      clearTimeout(pending.timeout);
+      pendingBackupConfirms.delete(message.requestId);
+      pending.resolve();
+    }
+    return;
+  }
+  if ('type' in message && message.type === 'worker:backup-cancelled') {
+    const pending = message.requestId ? pendingBackupConfirms.get(message.requestId) : undefined;
+    if (pending && message.requestId) {
+      clearTimeout(pending.timeout);
+      pendingBackupConfirms.delete(message.requestId);
+      pending.reject(new KMSError('CANCELLED', message.reason || 'Backup was cancelled'));
     }
     return;
   }
@@ -1341,7 +1701,7 @@ const handleWorkerMessage = (event: MessageEvent): void => {
     const request = event.data as RPCRequest;
     self.postMessage({
       id: request?.id || 'unknown',
-      error: err instanceof Error ? err.message : 'Unknown error',
+      error: toRPCErrorDetail(err),
     });
   });
 };
@@ -1351,6 +1711,11 @@ const handleWorkerMessage = (event: MessageEvent): void => {
 // those tests drive `handleMessage` directly instead.
 if (typeof self !== 'undefined' && typeof self.addEventListener === 'function') {
   self.addEventListener('message', handleWorkerMessage);
+  // Relay events to KMSClient. Under happy-dom `self` is the window, which would
+  // post them straight back into handleWorkerMessage, so only a real worker relays.
+  if (typeof window === 'undefined') {
+    subscribeKMSEvents((event: KMSEvent) => self.postMessage({ type: 'worker:event', event }));
+  }
 }
 
 // ============================================================================
@@ -1358,14 +1723,29 @@ if (typeof self !== 'undefined' && typeof self.addEventListener === 'function')
 // ============================================================================
 
 /**
- * Handle a single RPC request. Routes to appropriate handler based on method.
- * All errors are caught and returned as error responses.
+ * Handle a single RPC request. Enforces the method's operation policy, then
+ * routes to the appropriate handler. All errors are caught and returned as
+ * error responses.
  */
 export async function handleMessage(request: RPCRequest): Promise<RPCResponse> {
   const { id, method, params } = request;
-
+  let release: (() => void) | null = null;
+  let scope: AuditScope | null = null;
+  const recalibrationUserId = passphraseUserId(params);
+  let succeeded = false;
 
   try {
+    // Claim the request id first: a second request with the same id while
+    // this one runs is refused, so audit entries count for one dispatch only.
+    scope = openAuditScope(id);
+    // Central gate: every method must have a policy entry and satisfy it
+    // before its handler (and per-method validator) runs.
+    const policy = enforceOperationPolicy(method, params);
+    release = await acquireStoreAccess(policy.exclusive === true);
+    if (recalibrationUserId !== null) {
+      expectRecalibration(recalibrationUserId);
+    }
+
     let result: unknown;
 
     switch (method) {
@@ -1424,6 +1804,14 @@ export async function handleMessage(request: RPCRequest): Promise<RPCResponse> {
         result = await handleRegenerateVAPID(validators.validateRegenerateVAPID(params), id);
         break;
 
+      case 'rotateVAPID':
+        result = await handleRotateVAPID(validators.validateRotateVAPID(params), id);
+        break;
+
+      case 'retireVAPIDKey':
+        result = await handleRetireVAPIDKey(validators.validateRetireVAPIDKey(params), id);
+        break;
+
       case 'signJWT':
         result = await handleSignJWT(validators.validateSignJWT(params), id);
         break;
@@ -1470,6 +1858,10 @@ export async function handleMessage(request: RPCRequest): Promise<RPCResponse> {
         result = await handleGetAuditLog();
         break;
 
+      case 'exportAuditLog':
+        result = await handleExportAuditLog(validators.validateExportAuditLog(params), id);
+        break;
+
       case 'getPublicKey':
         result = await handleGetPublicKey(validators.validateGetPublicKey(params));
         break;
@@ -1490,25 +1882,49 @@ export async function handleMessage(request: RPCRequest): Promise<RPCResponse> {
         result = await handleGetVAPIDKid();
         break;
 
+      case 'listVAPIDKeys':
+        result = await handleListVAPIDKeys();
+        break;
+
       // === Management Operations ===
       case 'resetKMS':
-        result = await handleResetKMS();
+        result = await handleResetKMS(validators.validateResetKMS(params), id);
+        break;
+
+      case 'exportBackup':
+        result = await handleExportBackup(validators.validateExportBackup(params), id);
+        break;
+
+      case 'importBackup':
+        result = await handleImportBackup(validators.validateImportBackup(params), id);
         break;
 
       case 'removeEnrollment':
         result = await handleRemoveEnrollment(validators.validateRemoveEnrollment(params), id);
         break;
 
+      case 'changePassphrase':
+        result = await handleChangePassphrase(validators.validateChangePassphrase(params), id);
+        break;
+
+      case 'rotateMasterSecret':
+        result = await handleRotateMasterSecret(validators.validateRotateMasterSecret(params), id);
+        break;
+
       case 'setPushSubscription':
         result = await handleSetPushSubscription(validators.validateSetPushSubscription(params));
         break;
 
       case 'removePushSubscription':
-        result = await handleRemovePushSubscription();
+        result = await handleRemovePushSubscription(validators.validateRemovePushSubscription(params));
         break;
 
       case 'getPushSubscription':
-        result = await handleGetPushSubscription();
+        result = await handleGetPushSubscription(validators.validateGetPushSubscription(params));
+        break;
+
+      case 'listPushSubscriptions':
+        result = await handleListPushSubscriptions(validators.validateListPushSubscriptions(params));
         break;
 
       // === Signal Messaging Operations ===
@@ -1547,6 +1963,10 @@ export async function handleMessage(request: RPCRequest): Promise<RPCResponse> {
         result = await handleRotatePrekeys(validators.validateRotatePrekeys(params), id);
         break;
 
+      case 'maintainPrekeys':
+        result = await handleMaintainPrekeys(validators.validateMaintainPrekeys(params), id);
+        break;
+
       // === Fan-out Bundle Operations (secure-messaging §8/§12) ===
       case 'buildBundle':
         result = await handleBuildBundle(validators.validateBuildBundle(params), id);
@@ -1556,6 +1976,27 @@ export async function handleMessage(request: RPCRequest): Promise<RPCResponse> {
         result = await handleOpenBundle(validators.validateOpenBundle(params), id);
         break;
 
+      // === Attachments (secure-messaging §8) ===
+      case 'encryptAttachment':
+        result = await handleEncryptAttachment(validators.validateEncryptAttachment(params), id);
+        break;
+
+      case 'decryptAttachment':
+        result = await handleDecryptAttachment(validators.validateDecryptAttachment(params), id);
+        break;
+
+      case 'beginAttachmentDecrypt':
+        result = await handleBeginAttachmentDecrypt(validators.validateBeginAttachmentDecrypt(params));
+        break;
+
+      case 'feedAttachmentDecrypt':
+        result = await handleFeedAttachmentDecrypt(validators.validateFeedAttachmentDecrypt(params));
+        break;
+
+      case 'finishAttachmentDecrypt':
+        result = await handleFinishAttachmentDecrypt(validators.validateFinishAttachmentDecrypt(params), id);
+        break;
+
       // === Account Root Operations (secure-messaging §18) ===
       case 'setupAccountRoot':
         result = await handleSetupAccountRoot(validators.validateSetupAccountRoot(params), id);
@@ -1609,7 +2050,32 @@ export async function handleMessage(request: RPCRequest): Promise<RPCResponse> {
         break;
 
       case 'verifyContactDevice':
-        result = await handleVerifyContactDevice(validators.validateVerifyContactDevice(params));
+        result = await handleVerifyContactDevice(validators.validateVerifyContactDevice(params), id);
+        break;
+
+      case 'getSafetyNumber':
+        result = await handleGetSafetyNumber(validators.validateGetSafetyNumber(params));
+        break;
+
+      case 'verifySafetyNumber':
+        result = await handleVerifySafetyNumber(validators.validateVerifySafetyNumber(params), id);
+        break;
+
+      // === Device rosters (rooms §2.4) ===
+      case 'getDeviceRoster':
+        result = await handleGetDeviceRoster(validators.validateGetDeviceRoster(params));
+        break;
+
+      case 'updateDeviceRoster':
+        result = await handleUpdateDeviceRoster(validators.validateUpdateDeviceRoster(params), id);
+        break;
+
+      case 'applyDeviceRoster':
+        result = await handleApplyDeviceRoster(validators.validateApplyDeviceRoster(params), id);
+        break;
+
+      case 'importContactRoster':
+        result = await handleImportContactRoster(validators.validateImportContactRoster(params), id);
         break;
 
       // === Pairing / Contact Operations (secure-messaging §5/§6) ===
@@ -1672,13 +2138,128 @@ export async function handleMessage(request: RPCRequest): Promise<RPCResponse> {
         result = await handleListInvites(validators.validateListInvites(params));
         break;
 
+      // === Rooms (rooms-and-trust §3.3) ===
+      case 'applyRoomKey':
+        result = await handleApplyRoomKey(validators.validateApplyRoomKey(params), id);
+        break;
+
+      case 'listRoomMembers':
+        result = await handleListRoomMembers(validators.validateListRoomMembers(params));
+        break;
+
+      case 'removeRoomMember':
+        result = await handleRemoveRoomMember(validators.validateRemoveRoomMember(params), id);
+        break;
+
+      case 'rotateRoomSecret':
+        result = await handleRotateRoomSecret(validators.validateRotateRoomSecret(params), id);
+        break;
+
       default:
-        throw new Error(`Unknown RPC method: ${method}`);
+        throw new KMSError('UNKNOWN_METHOD', `Unknown RPC method: ${method}`);
+    }
+
+    // The table's audit severity is a promise to the user: a method that
+    // declares one and returned without appending its entry is a bug, and the
+    // caller must not treat the result as a clean success.
+    if (policy.audit !== 'none' && !closeAuditScope(scope)) {
+      throw new OperationPolicyError(method, 'audit', 'completed without appending its audit entry');
     }
 
+    succeeded = true;
     return { id, result };
   } catch (err: unknown) {
-    return { id, error: getErrorMessage(err) };
+    return { id, error: toRPCErrorDetail(err) };
+  } finally {
+    if (scope !== null) {
+      closeAuditScope(scope);
+    }
+    release?.();
+    if (recalibrationUserId !== null) {
+      scheduleRecalibration(recalibrationUserId, id, succeeded);
+    }
+  }
+}
+
+/** The account of a request's passphrase credentials, if it has them. */
+function passphraseUserId(params: unknown): string | null {
+  const credentials = (params as { credentials?: Partial<AuthCredentials> } | undefined)?.credentials;
+  return credentials?.method === 'passphrase' && typeof credentials.userId === 'string' ? credentials.userId : null;
+}
+
+/** The id a sub-step of `requestId` logs under, registered so its entries count for the request. */
+function auditSubId(requestId: string, step: string): string {
+  const subId = `${requestId}-${step}`;
+  registerAuditSubId(requestId, subId);
+  return subId;
+}
+
+/**
+ * After a request that unlocked with a passphrase, re-wrap the enrolment
+ * under freshly calibrated KDF parameters when it uses another KDF than the
+ * policy's, or was calibrated too long ago or on another platform (see
+ * `checkPassphraseCalibration`). This is how PBKDF2 enrolments move to
+ * Argon2id, and how an account set up on a slow device gets stronger
+ * parameters on a fast one.
+ *
+ * Runs on a timer, so the request's response is posted first: the caller
+ * does not wait for a second KDF run. The MS comes from the request's own
+ * unlock (kept by `expectRecalibration`), not from unlocking again. Only
+ * successful requests recalibrate; otherwise the kept MS is zeroised here.
+ */
+function scheduleRecalibration(userId: string, requestId: string, succeeded: boolean): void {
+  const pending = takeRecalibration(userId);
+  if (!pending) return;
+  if (!succeeded) {
+    pending.ms.fill(0);
+    return;
+  }
+  setTimeout(() => {
+    void recalibratePassphraseAfter(userId, requestId, pending);
+  }, 0);
+}
+
+/**
+ * Best effort: the request has already succeeded, and the old config keeps
+ * working if this fails, so errors are not reported to the caller. Holds
+ * exclusive store access so no passphrase change or MS rotation can land
+ * between the check that the enrolment is unchanged and the re-wrap.
+ */
+async function recalibratePassphraseAfter(
+  userId: string,
+  requestId: string,
+  pending: PendingRecalibration
+): Promise<void> {
+  const release = await acquireStoreAccess(true);
+  const start = Date.now();
+  try {
+    await ensureAuditKey(await deriveMKEKFromMS(pending.ms));
+    const { kdf } = await recalibratePassphrase(userId, pending.ms, pending.passphrase, pending.config);
+    const end = Date.now();
+
+    await logOperation({
+      op: 'recalibrate-passphrase',
+      kid: '',
+      requestId,
+      userId,
+      unlockTime: start,
+      lockTime: end,
+      duration: end - start,
+      details: {
+        reason: pending.reason,
+        previousAlgorithm: pending.config.kdf.algorithm,
+        previousIterations: pending.config.kdf.iterations,
+        algorithm: kdf.algorithm,
+        iterations: kdf.iterations,
+        memoryKiB: kdf.algorithm === 'Argon2id' ? kdf.memoryKiB : null,
+      },
+    });
+  } catch (err: unknown) {
+    // Keep the current calibration; the next passphrase unlock retries
+    console.warn('[KMS Worker] Passphrase recalibration failed (non-fatal):', getErrorMessage(err));
+  } finally {
+    pending.ms.fill(0);
+    release();
   }
 }
 
@@ -1686,25 +2267,46 @@ export async function handleMessage(request: RPCRequest): Promise<RPCResponse> {
 // Setup Operations
 // ============================================================================
 
+/**
+ * Refuse first-time setup for an account that is already enrolled. Setup
+ * mints a new Master Secret and replaces the enrollment without unlocking the
+ * old one, so on an enrolled account it would hand the account to whoever
+ * called it. More methods are added with addEnrollment, which needs fresh auth.
+ */
+async function assertNotEnrolled(userId: string): Promise<void> {
+  if (await isSetup(userId)) {
+    throw new KMSError('CONFLICT', 'User already has authentication setup. Use addEnrollment to add additional methods.');
+  }
+}
+
+/**
+ * The error a failed setup or enrollment reports: the code unlock.ts gave the
+ * failure (VALIDATION, CONFLICT), or UNLOCK_FAILED when it gave none.
+ */
+function setupError(result: { error: string; code?: RPCErrorCode }): KMSError {
+  return new KMSError(result.code ?? 'UNLOCK_FAILED', result.error);
+}
+
 /**
  * Setup passphrase authentication.
- * Creates first Master Secret if none exists, or wraps existing MS.
+ * Creates the first Master Secret; refuses an account that is already enrolled.
  * Generates VAPID keypair and returns public key for immediate use.
  */
 async function handleSetupPassphrase(
-  params: { userId: string; passphrase: string; existingMS?: Uint8Array },
+  params: { userId: string; passphrase: string },
   requestId: string
 ): Promise<{ success: true; enrollmentId: string; vapidPublicKey: string; vapidKid: string }> {
-  const { userId, passphrase, existingMS } = params;
+  const { userId, passphrase } = params;
 
   if (!passphrase || passphrase.length < 8) {
-    throw new Error('Passphrase must be at least 8 characters');
+    throw new ValidationError('Passphrase must be at least 8 characters');
   }
+  await assertNotEnrolled(userId);
 
-  const result = await setupPassphrase(userId, passphrase, existingMS);
+  const result = await setupPassphrase(userId, passphrase);
 
   if (!result.success) {
-    throw new Error(result.error);
+    throw setupError(result);
   }
 
   // Derive MKEK and initialize audit key
@@ -1773,26 +2375,26 @@ async function handleSetupPasskeyPRF(
     credentialId: ArrayBuffer;
     prfOutput: ArrayBuffer;
     rpId?: string;
-    existingMS?: Uint8Array;
     appSalt?: Uint8Array;
     hkdfSalt?: Uint8Array;
   },
   requestId: string
 ): Promise<{ success: true; enrollmentId: string; vapidPublicKey: string; vapidKid: string }> {
-  const { userId, credentialId, prfOutput, rpId = '', existingMS, appSalt, hkdfSalt } = params;
+  const { userId, credentialId, prfOutput, rpId = '', appSalt, hkdfSalt } = params;
 
   if (!credentialId || credentialId.byteLength === 0) {
-    throw new Error('credentialId required');
+    throw new ValidationError('credentialId required');
   }
 
   if (!prfOutput || prfOutput.byteLength !== 32) {
-    throw new Error('prfOutput must be 32 bytes');
+    throw new ValidationError('prfOutput must be 32 bytes');
   }
+  await assertNotEnrolled(userId);
 
-  const result = await setupPasskeyPRF(userId, credentialId, prfOutput, existingMS, rpId, appSalt, hkdfSalt);
+  const result = await setupPasskeyPRF(userId, credentialId, prfOutput, undefined, rpId, appSalt, hkdfSalt);
 
   if (!result.success) {
-    throw new Error(result.error);
+    throw setupError(result);
   }
 
   // Derive MKEK and initialize audit key
@@ -1860,20 +2462,20 @@ async function handleSetupPasskeyGate(
     userId: string;
     credentialId: ArrayBuffer;
     rpId?: string;
-    existingMS?: Uint8Array;
   },
   requestId: string
 ): Promise<{ success: true; enrollmentId: string; vapidPublicKey: string; vapidKid: string }> {
-  const { userId, credentialId, rpId = '', existingMS } = params;
+  const { userId, credentialId, rpId = '' } = params;
 
   if (!credentialId || credentialId.byteLength === 0) {
-    throw new Error('credentialId required');
+    throw new ValidationError('credentialId required');
   }
+  await assertNotEnrolled(userId);
 
-  const result = await setupPasskeyGate(userId, credentialId, existingMS, rpId);
+  const result = await setupPasskeyGate(userId, credentialId, undefined, rpId);
 
   if (!result.success) {
-    throw new Error(result.error);
+    throw setupError(result);
   }
 
   // Derive MKEK and initialize audit key
@@ -1972,7 +2574,7 @@ async function handleAddEnrollment(
   }>((resolve, reject) => {
     const timeout = setTimeout(() => {
       console.error('[Worker] Popup timeout after 5 minutes');
-      reject(new Error('Add enrollment popup timeout'));
+      reject(new KMSError('TIMEOUT', 'Add enrollment popup timeout'));
     }, 300000); // 5 minute timeout
 
     // Store resolver
@@ -2001,7 +2603,7 @@ async function handleAddEnrollment(
   // Step 5: Decrypt credentials (copy from setupWithEncryptedCredentials)
   const transportKey = ephemeralTransportKeys.get(newCredentialsEncrypted.transportKeyId);
   if (!transportKey) {
-    throw new Error('Transport key not found or expired');
+    throw new KMSError('EXPIRED', 'Transport key not found or expired');
   }
 
   const popupPublicKeyBytes = base64urlToArrayBuffer(newCredentialsEncrypted.ephemeralPublicKey);
@@ -2093,14 +2695,14 @@ async function handleAddEnrollment(
     enrollmentResult = await setupPasskeyGate(userId, base64urlToArrayBuffer(gateCredentials.credentialId), ms, rpId);
   } else {
     const exhaustive: never = method;
-    throw new Error(`Unknown enrollment method: ${String(exhaustive)}`);
+    throw new ValidationError(`Unknown enrollment method: ${String(exhaustive)}`);
   }
 
   // Zeroize MS
   ms.fill(0);
 
   if (!enrollmentResult.success) {
-    throw new Error(enrollmentResult.error);
+    throw setupError(enrollmentResult);
   }
 
   await logOperation({
@@ -2145,7 +2747,7 @@ async function handleAddEnrollmentWithPopup(
   }>((resolve, reject) => {
     const timeout = setTimeout(() => {
       console.error('[Worker] Popup timeout after 5 minutes');
-      reject(new Error('Add enrollment popup timeout'));
+      reject(new KMSError('TIMEOUT', 'Add enrollment popup timeout'));
     }, 300000); // 5 minute timeout
 
     // Store resolver
@@ -2171,7 +2773,7 @@ async function handleAddEnrollmentWithPopup(
   // Step 3: Decrypt new credentials
   const transportKey = ephemeralTransportKeys.get(newCredentialsEncrypted.transportKeyId);
   if (!transportKey) {
-    throw new Error('Transport key not found or expired');
+    throw new KMSError('EXPIRED', 'Transport key not found or expired');
   }
 
   const popupPublicKeyBytes = base64urlToArrayBuffer(newCredentialsEncrypted.ephemeralPublicKey);
@@ -2244,7 +2846,7 @@ async function handleAddEnrollmentWithPopup(
   const unlockCredentials = await new Promise<AuthCredentials>((resolve, reject) => {
     const timeout = setTimeout(() => {
       console.error('[Worker] Unlock timeout after 5 minutes');
-      reject(new Error('Unlock modal timeout'));
+      reject(new KMSError('TIMEOUT', 'Unlock modal timeout'));
     }, 300000); // 5 minute timeout
 
     // Store resolver
@@ -2298,11 +2900,11 @@ async function handleAddEnrollmentWithPopup(
       enrollmentResult = await setupPasskeyGate(userId, base64urlToArrayBuffer(gateCredentials.credentialId), ms, rpId);
     } else {
       const exhaustive: never = method;
-      throw new Error(`Unknown enrollment method: ${String(exhaustive)}`);
+      throw new ValidationError(`Unknown enrollment method: ${String(exhaustive)}`);
     }
 
     if (!enrollmentResult.success) {
-      throw new Error(enrollmentResult.error);
+      throw setupError(enrollmentResult);
     }
   } finally {
     // CRITICAL: Always zeroize MS copy (defense-in-depth)
@@ -2324,6 +2926,48 @@ async function handleAddEnrollmentWithPopup(
 // VAPID Operations
 // ============================================================================
 
+/**
+ * Generate an ECDSA P-256 VAPID keypair, wrap the private key under the MKEK
+ * and store it. Must run inside a withUnlock context.
+ */
+async function createVAPIDKey(mkek: CryptoKey): Promise<{ kid: string; publicKey: string }> {
+  const keypairResult = await crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    true, // temporarily extractable for wrapping
+    ['sign', 'verify']
+  );
+  if (!('privateKey' in keypairResult) || !('publicKey' in keypairResult)) {
+    throw new Error('Failed to generate ECDSA keypair');
+  }
+  const keypair = keypairResult;
+
+  // Export public key (raw format, 65 bytes)
+  const publicKeyRaw = await crypto.subtle.exportKey('raw', keypair.publicKey);
+
+  // Compute kid (JWK thumbprint)
+  const jwk = rawP256ToJwk(new Uint8Array(publicKeyRaw));
+  const kid = await jwkThumbprintP256(jwk);
+
+  // Wrap private key with MKEK
+  await wrapKey(
+    keypair.privateKey,
+    mkek,
+    kid,
+    { name: 'ECDSA', namedCurve: 'P-256' } as AlgorithmIdentifier,
+    ['sign'],
+    {
+      alg: 'ES256',
+      purpose: 'vapid',
+      publicKeyRaw,
+    }
+  );
+
+  return {
+    kid,
+    publicKey: arrayBufferToBase64url(publicKeyRaw),
+  };
+}
+
 /**
  * Generate new VAPID keypair (ECDSA P-256).
  * Private key wrapped with MKEK and stored in IndexedDB.
@@ -2339,54 +2983,19 @@ async function handleGenerateVAPID(
     // Ensure audit key is loaded/generated
     await ensureAuditKey(mkek);
 
-    // Generate ECDSA P-256 keypair
-    const keypairResult = await crypto.subtle.generateKey(
-      { name: 'ECDSA', namedCurve: 'P-256' },
-      true, // temporarily extractable for wrapping
-      ['sign', 'verify']
-    );
-    if (!('privateKey' in keypairResult) || !('publicKey' in keypairResult)) {
-      throw new Error('Failed to generate ECDSA keypair');
-    }
-    const keypair = keypairResult;
-
-    // Export public key (raw format, 65 bytes)
-    const publicKeyRaw = await crypto.subtle.exportKey('raw', keypair.publicKey);
+    return await createVAPIDKey(mkek);
+  });
 
-    // Compute kid (JWK thumbprint)
-    const jwk = rawP256ToJwk(new Uint8Array(publicKeyRaw));
-    const kid = await jwkThumbprintP256(jwk);
-
-    // Wrap private key with MKEK
-    await wrapKey(
-      keypair.privateKey,
-      mkek,
-      kid,
-      { name: 'ECDSA', namedCurve: 'P-256' } as AlgorithmIdentifier,
-      ['sign'],
-      {
-        alg: 'ES256',
-        purpose: 'vapid',
-        publicKeyRaw,
-      }
-    );
-
-    return {
-      kid,
-      publicKey: arrayBufferToBase64url(publicKeyRaw),
-    };
-  });
-
-  await logOperation({
-    op: 'generate',
-    kid: result.result.kid,
-    requestId,
-    userId: credentials.userId,
-    unlockTime: result.unlockTime,
-    lockTime: result.lockTime,
-    duration: result.duration,
-    details: { algorithm: 'ECDSA', curve: 'P-256', purpose: 'vapid' },
-  });
+  await logOperation({
+    op: 'generate',
+    kid: result.result.kid,
+    requestId,
+    userId: credentials.userId,
+    unlockTime: result.unlockTime,
+    lockTime: result.lockTime,
+    duration: result.duration,
+    details: { algorithm: 'ECDSA', curve: 'P-256', purpose: 'vapid' },
+  });
 
   return result.result;
 }
@@ -2399,6 +3008,9 @@ async function handleGenerateVAPID(
  * 1. Deletes all existing VAPID keys
  * 2. Generates a new VAPID keypair with a new kid
  * 3. All existing leases become invalid (they reference the old kid)
+ *
+ * This is the emergency path (e.g. a compromised key). Planned rotation should
+ * use rotateVAPID, which keeps the old key alive for a grace period.
  */
 async function handleRegenerateVAPID(
   params: { credentials: AuthCredentials },
@@ -2417,43 +3029,14 @@ async function handleRegenerateVAPID(
     // Delete all existing VAPID keys
     for (const key of vapidKeys) {
       await deleteWrappedKey(key.kid);
+      await deletePushSubscriptionsByKid(key.kid);
     }
 
     // Generate new ECDSA P-256 keypair
-    const keypairResult = await crypto.subtle.generateKey(
-      { name: 'ECDSA', namedCurve: 'P-256' },
-      true, // temporarily extractable for wrapping
-      ['sign', 'verify']
-    );
-    if (!('privateKey' in keypairResult) || !('publicKey' in keypairResult)) {
-      throw new Error('Failed to generate ECDSA keypair');
-    }
-    const keypair = keypairResult;
-
-    // Export public key (raw format, 65 bytes)
-    const publicKeyRaw = await crypto.subtle.exportKey('raw', keypair.publicKey);
-
-    // Compute kid (JWK thumbprint)
-    const jwk = rawP256ToJwk(new Uint8Array(publicKeyRaw));
-    const kid = await jwkThumbprintP256(jwk);
-
-    // Wrap private key with MKEK
-    await wrapKey(
-      keypair.privateKey,
-      mkek,
-      kid,
-      { name: 'ECDSA', namedCurve: 'P-256' } as AlgorithmIdentifier,
-      ['sign'],
-      {
-        alg: 'ES256',
-        purpose: 'vapid',
-        publicKeyRaw,
-      }
-    );
+    const newKey = await createVAPIDKey(mkek);
 
     return {
-      kid,
-      publicKey: arrayBufferToBase64url(publicKeyRaw),
+      ...newKey,
       oldKids: vapidKeys.map((k) => k.kid),
     };
   });
@@ -2474,6 +3057,7 @@ async function handleRegenerateVAPID(
       deletedCount: result.result.oldKids.length,
     },
   });
+  emitKMSEvent({ type: 'vapid-rotated', kid: result.result.kid, publicKey: result.result.publicKey, retiring: [] });
 
   return {
     kid: result.result.kid,
@@ -2497,16 +3081,16 @@ async function handleSignJWT(
 
   // Validate payload
   if (!payload.aud || !payload.sub || !payload.exp) {
-    throw new Error('JWT payload must include aud, sub, and exp');
+    throw new ValidationError('JWT payload must include aud, sub, and exp');
   }
 
   // Validate expiration (max 24 hours per RFC 8292)
   const now = Math.floor(Date.now() / 1000);
   if (payload.exp <= now) {
-    throw new Error('JWT exp must be in the future');
+    throw new ValidationError('JWT exp must be in the future');
   }
   if (payload.exp > now + 86400) {
-    throw new Error('JWT exp must be <= 24 hours (RFC 8292)');
+    throw new ValidationError('JWT exp must be <= 24 hours (RFC 8292)');
   }
 
   const result = await withUnlock(credentials, async (mkek, _ms) => {
@@ -2564,6 +3148,378 @@ async function handleSignJWT(
   return result.result;
 }
 
+// ============================================================================
+// Lease Expiry Events
+// ============================================================================
+
+/** Longest delay setTimeout honours; later deadlines are approached in steps. */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/** Notice a lease gets before its `exp` ('lease-expiring'). */
+const LEASE_EXPIRING_NOTICE_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/** The pending 'lease-expiring' / 'lease-expired' timer of each watched lease. */
+const leaseTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Arm a lease's next event: 'lease-expiring' once it is inside its notice
+ * window, then 'lease-expired' at `exp`. Armed for every stored lease when the
+ * worker starts, and again when a lease is created or extended (getUserLeases
+ * re-arms too). A lease created inside its notice window only gets
+ * 'lease-expired'.
+ *
+ * The stored lease is re-read when the timer fires: a lease deleted since is
+ * forgotten and one extended since is re-armed for its new `exp`.
+ */
+function watchLease(lease: LeaseRecord): void {
+  unwatchLease(lease.leaseId);
+  const now = Date.now();
+  if (now >= lease.exp) {
+    return;
+  }
+  const noticeAt = lease.exp - LEASE_EXPIRING_NOTICE_MS;
+  const at = now < noticeAt ? noticeAt : lease.exp;
+
+  const timer = setTimeout(() => {
+    leaseTimers.delete(lease.leaseId);
+    void (async (): Promise<void> => {
+      const current = await getLease(lease.leaseId);
+      if (!current) {
+        return;
+      }
+      if (current.exp !== lease.exp || Date.now() < at) {
+        watchLease(current);
+        return;
+      }
+      const { leaseId, userId, exp } = current;
+      if (at === exp) {
+        emitKMSEvent({ type: 'lease-expired', leaseId, userId, reason: 'ttl' });
+      } else {
+        emitKMSEvent({ type: 'lease-expiring', leaseId, userId, exp });
+        watchLease(current);
+      }
+    })().catch((err: unknown) => {
+      console.error('[KMS Worker] Lease timer failed:', err);
+    });
+  }, Math.min(at - now, MAX_TIMER_DELAY_MS));
+  leaseTimers.set(lease.leaseId, timer);
+}
+
+function unwatchLease(leaseId: string): void {
+  clearTimeout(leaseTimers.get(leaseId));
+  leaseTimers.delete(leaseId);
+}
+
+// ============================================================================
+// VAPID Key Rotation
+// ============================================================================
+
+/**
+ * Default rotation grace period. Matches the lease TTL ceiling so a lease
+ * created just before the rotation can live out its full term.
+ */
+const DEFAULT_VAPID_GRACE_HOURS = 720;
+
+/**
+ * How a lease's pinned kid relates to the VAPID key ring.
+ * - current: the key new leases are created under
+ * - retiring: a rotated-out key still inside its grace period
+ * - wrong-key: superseded, past its retireAt, or deleted
+ * - no-vapid-key: the ring is empty
+ */
+interface LeaseKeyResolution {
+  status: 'current' | 'retiring' | 'wrong-key' | 'no-vapid-key';
+  currentKid?: string;
+  retireAt?: number;
+}
+
+/**
+ * The current VAPID key: the newest key not scheduled for retirement.
+ * Keys are expected newest first (see getVAPIDKeys).
+ */
+function findCurrentVAPIDKey(vapidKeys: WrappedKey[]): WrappedKey | undefined {
+  return vapidKeys.find((k) => k.retireAt === undefined);
+}
+
+/**
+ * Resolve a lease's pinned kid against the VAPID key ring.
+ */
+async function resolveLeaseVAPIDKey(kid: string): Promise<LeaseKeyResolution> {
+  const vapidKeys = await getVAPIDKeys();
+  if (vapidKeys.length === 0) {
+    return { status: 'no-vapid-key' };
+  }
+
+  const current = findCurrentVAPIDKey(vapidKeys);
+  const resolution: LeaseKeyResolution = { status: 'wrong-key' };
+  if (current) {
+    resolution.currentKid = current.kid;
+  }
+
+  if (current?.kid === kid) {
+    resolution.status = 'current';
+    return resolution;
+  }
+
+  const pinned = vapidKeys.find((k) => k.kid === kid);
+  if (pinned?.retireAt !== undefined && Date.now() < pinned.retireAt) {
+    resolution.status = 'retiring';
+    resolution.retireAt = pinned.retireAt;
+  }
+  return resolution;
+}
+
+/**
+ * Delete leases (plus their SessionKEK and quota state) and record one
+ * 'expire-lease' audit entry per lease. Uses whichever audit signer is active.
+ *
+ * @returns The expired lease IDs
+ */
+async function expireLeases(
+  leases: LeaseRecord[],
+  requestId: string,
+  reason: string
+): Promise<string[]> {
+  const expired: string[] = [];
+  for (const lease of leases) {
+    await deleteLease(lease.leaseId);
+    await deleteMeta(`sessionkek:${lease.leaseId}`);
+    await deleteMeta(`quota:${lease.leaseId}`);
+    sessionKEKCache.delete(lease.leaseId);
+    unwatchLease(lease.leaseId);
+
+    await logOperation({
+      op: 'expire-lease',
+      kid: lease.kid,
+      requestId,
+      userId: lease.userId,
+      details: { action: 'expire-lease', leaseId: lease.leaseId, reason },
+    });
+    emitKMSEvent({ type: 'lease-expired', leaseId: lease.leaseId, userId: lease.userId, reason });
+    expired.push(lease.leaseId);
+  }
+  return expired;
+}
+
+/**
+ * Retire every VAPID key whose grace period has ended: expire the leases still
+ * pinned to it and delete the key. Runs lazily from the lease paths, so there
+ * is no user present and the entries are signed by the instance key (KIAK).
+ */
+async function expireRetiredVAPIDKeys(requestId: string): Promise<void> {
+  const now = Date.now();
+  const due = (await getVAPIDKeys()).filter((k) => k.retireAt !== undefined && k.retireAt <= now);
+  if (due.length === 0) {
+    return;
+  }
+
+  await ensureKIAK();
+  for (const key of due) {
+    const expired = await expireLeases(await getLeasesByKid(key.kid), requestId, 'vapid-key-retired');
+    await deleteWrappedKey(key.kid);
+    await deletePushSubscriptionsByKid(key.kid);
+
+    await logOperation({
+      op: 'retire-vapid',
+      kid: key.kid,
+      requestId,
+      userId: 'system',
+      details: {
+        action: 'retire-vapid',
+        trigger: 'grace-period-ended',
+        retireAt: key.retireAt,
+        migrated: [],
+        expired,
+      },
+    });
+  }
+}
+
+/**
+ * Rotate the VAPID key without invalidating existing leases.
+ * Requires user authentication (UAK-signed operation).
+ *
+ * Unlike regenerateVAPID, the previous key is kept:
+ * 1. A new VAPID keypair is generated and becomes current (new leases use it)
+ * 2. The previous current key(s) get retireAt = now + graceHours
+ * 3. Leases pinned to a retiring key keep issuing JWTs under that kid until
+ *    retireAt, giving the push backend time to re-subscribe devices
+ * 4. Once retireAt passes, the key and its remaining leases are expired
+ *    (see expireRetiredVAPIDKeys), or retireVAPIDKey finishes early
+ */
+async function handleRotateVAPID(
+  params: { credentials: AuthCredentials; graceHours?: number },
+  requestId: string
+): Promise<{ kid: string; publicKey: string; retiring: Array<{ kid: string; retireAt: number }> }> {
+  const { credentials, graceHours = DEFAULT_VAPID_GRACE_HOURS } = params;
+
+  // Validate grace period (max 720 hours / 30 days)
+  if (!(graceHours >= 1 && graceHours <= 720)) {
+    throw new ValidationError('graceHours must be between 1 and 720 (30 days)');
+  }
+
+  await expireRetiredVAPIDKeys(requestId);
+
+  const result = await withUnlock(credentials, async (mkek, _ms) => {
+    // Ensure audit key is loaded/generated
+    await ensureAuditKey(mkek);
+
+    // Only keys that are not already retiring get a new retireAt; an earlier
+    // rotation's deadline is never pushed back.
+    const previousKeys = (await getVAPIDKeys()).filter((k) => k.retireAt === undefined);
+    const retireAt = Date.now() + graceHours * 3600 * 1000;
+
+    const newKey = await createVAPIDKey(mkek);
+
+    for (const key of previousKeys) {
+      await scheduleKeyRetirement(key.kid, retireAt);
+    }
+
+    return {
+      ...newKey,
+      retiring: previousKeys.map((k) => ({ kid: k.kid, retireAt })),
+    };
+  });
+
+  await logOperation({
+    op: 'rotate-vapid',
+    kid: result.result.kid,
+    requestId,
+    userId: credentials.userId,
+    unlockTime: result.unlockTime,
+    lockTime: result.lockTime,
+    duration: result.duration,
+    details: {
+      algorithm: 'ECDSA',
+      curve: 'P-256',
+      purpose: 'vapid',
+      graceHours,
+      retiring: result.result.retiring,
+    },
+  });
+  emitKMSEvent({ type: 'vapid-rotated', ...result.result });
+
+  return result.result;
+}
+
+/**
+ * Retire a rotated-out VAPID key before its grace period ends.
+ * Requires user authentication (UAK-signed operation).
+ *
+ * Leases still pinned to the key are either:
+ * - migrated (migrateLeases: true): the current VAPID private key is re-wrapped
+ *   under each lease's SessionKEK (re-derived from MS + leaseSalt) and the lease
+ *   is re-pinned to the current kid. Only useful once the push backend has
+ *   re-subscribed those devices under the new key.
+ * - expired (default): the lease is deleted.
+ *
+ * Every migrated or expired lease gets its own audit entry, followed by a
+ * 'retire-vapid' entry for the key itself. The current key cannot be retired.
+ */
+async function handleRetireVAPIDKey(
+  params: { kid: string; credentials: AuthCredentials; migrateLeases?: boolean },
+  requestId: string
+): Promise<{ kid: string; migrated: string[]; expired: string[] }> {
+  const { kid, credentials, migrateLeases = false } = params;
+
+  const result = await withUnlock(credentials, async (mkek, ms) => {
+    // Ensure audit key (UAK) is loaded
+    await ensureAuditKey(mkek);
+
+    const vapidKeys = await getVAPIDKeys();
+    if (!vapidKeys.some((k) => k.kid === kid)) {
+      throw new KMSError('NOT_FOUND', `No VAPID key found with kid: ${kid}`);
+    }
+
+    const current = findCurrentVAPIDKey(vapidKeys);
+    if (current?.kid === kid) {
+      throw new KMSError('CONFLICT', 'Cannot retire the current VAPID key. Call rotateVAPID first.');
+    }
+
+    const now = Date.now();
+    const leases = await getLeasesByKid(kid);
+    const toExpire = leases.filter((lease) => !migrateLeases || now >= lease.exp);
+    const migrated: Array<{ leaseId: string; userId: string; toKid: string }> = [];
+
+    if (migrateLeases && toExpire.length < leases.length) {
+      if (!current) {
+        throw new KMSError('NOT_FOUND', 'No current VAPID key to migrate leases to');
+      }
+
+      // Unwrap the current VAPID key once (extractable, needed for re-wrapping)
+      const currentPrivateKey = await crypto.subtle.unwrapKey(
+        'pkcs8',
+        current.wrappedKey,
+        mkek,
+        { name: 'AES-GCM', iv: new Uint8Array(current.iv), additionalData: current.aad },
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        true, // extractable: true (required for wrapKey)
+        ['sign']
+      );
+
+      for (const lease of leases) {
+        if (now >= lease.exp) continue;
+
+        // Same salt, so the SessionKEK (and its stored/cached handle) is unchanged
+        const sessionKEK = await deriveSessionKEK(
+          ms as Uint8Array<ArrayBuffer>,
+          new Uint8Array(lease.leaseSalt)
+        );
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const wrappedLeaseKey = await crypto.subtle.wrapKey(
+          'pkcs8',
+          currentPrivateKey,
+          sessionKEK,
+          { name: 'AES-GCM', iv }
+        );
+
+        await storeLease({
+          ...lease,
+          kid: current.kid,
+          wrappedLeaseKey,
+          wrappedLeaseKeyIV: iv.buffer.slice(iv.byteOffset, iv.byteOffset + iv.byteLength),
+        });
+        migrated.push({ leaseId: lease.leaseId, userId: lease.userId, toKid: current.kid });
+      }
+    }
+
+    return { migrated, toExpire };
+  });
+
+  for (const lease of result.result.migrated) {
+    await logOperation({
+      op: 'migrate-lease',
+      kid: lease.toKid,
+      requestId,
+      userId: lease.userId,
+      details: { action: 'migrate-lease', leaseId: lease.leaseId, fromKid: kid, toKid: lease.toKid },
+    });
+  }
+
+  const expired = await expireLeases(result.result.toExpire, requestId, 'vapid-key-retired');
+  await deleteWrappedKey(kid);
+  await deletePushSubscriptionsByKid(kid);
+
+  const migrated = result.result.migrated.map((m) => m.leaseId);
+  await logOperation({
+    op: 'retire-vapid',
+    kid,
+    requestId,
+    userId: credentials.userId,
+    unlockTime: result.unlockTime,
+    lockTime: result.lockTime,
+    duration: result.duration,
+    details: {
+      action: 'retire-vapid',
+      trigger: 'manual',
+      migrated,
+      expired,
+    },
+  });
+
+  return { kid, migrated, expired };
+}
+
 // ============================================================================
 // VAPID Lease Operations (MVP)
 // ============================================================================
@@ -2585,6 +3541,7 @@ async function handleCreateLease(
     ttlHours: number;
     credentials: AuthCredentials;
     autoExtend?: boolean;
+    quotas?: Partial<QuotaState>;
   },
   requestId: string
 ): Promise<{ leaseId: string; exp: number; quotas: QuotaState; autoExtend?: boolean }> {
@@ -2592,21 +3549,20 @@ async function handleCreateLease(
 
   // Validate TTL (max 720 hours / 30 days)
   if (ttlHours <= 0 || ttlHours > 720) {
-    throw new Error('ttlHours must be between 0 and 720 (30 days)');
+    throw new ValidationError('ttlHours must be between 0 and 720 (30 days)');
   }
 
+  await expireRetiredVAPIDKeys(requestId);
+
   // Verify VAPID key exists (should have been generated during setup)
-  const allKeys = await getAllWrappedKeys();
-  const vapidKeys = allKeys.filter((k) => k.purpose === 'vapid');
+  const vapidKeys = await getVAPIDKeys();
   if (vapidKeys.length === 0) {
-    throw new Error('No VAPID key found. VAPID key should have been generated during setup.');
+    throw new KMSError('NOT_SETUP', 'No VAPID key found. VAPID key should have been generated during setup.');
   }
 
-  // Sort by createdAt descending to get the most recent key first (same logic as verifyLease)
-  vapidKeys.sort((a, b) => b.createdAt - a.createdAt);
-
-  // Use most recent VAPID key (multi-key rotation is future work)
-  const vapidKeyRecord = vapidKeys[0];
+  // New leases always pin the current key; keys being rotated out only serve
+  // the leases already pinned to them (same logic as verifyLease)
+  const vapidKeyRecord = findCurrentVAPIDKey(vapidKeys);
   if (!vapidKeyRecord) {
     throw new Error('VAPID key record not found after filtering');
   }
@@ -2635,7 +3591,7 @@ async function handleCreateLease(
     // Get the wrapped key record from storage
     const wrappedKeyRecord = await getWrappedKey(kid);
     if (!wrappedKeyRecord) {
-      throw new Error(`No wrapped key with id: ${kid}`);
+      throw new KMSError('NOT_FOUND', `No wrapped key with id: ${kid}`);
     }
 
     const keyIv = new Uint8Array(wrappedKeyRecord.iv);
@@ -2673,13 +3629,8 @@ async function handleCreateLease(
   // Cache SessionKEK in memory for performance
   sessionKEKCache.set(leaseId, result.result.sessionKEK);
 
-  // Initialize quota state
-  const quotas: QuotaState = {
-    tokensPerHour: 100, // Default quota: 100 tokens per hour
-    sendsPerMinute: 10, // Default: 10 sends per minute
-    burstSends: 20, // Default: 20 burst sends
-    sendsPerMinutePerEid: 5, // Default: 5 sends per minute per endpoint
-  };
+  // Initialize quota state (caller overrides per dimension, defaults for the rest)
+  const quotas: QuotaState = { ...DEFAULT_LEASE_QUOTAS, ...params.quotas };
 
   // Create lease record with SessionKEK-wrapped key and LAK delegation cert
   // Note: Push subscription data is stored with VAPID key, not in lease
@@ -2700,14 +3651,10 @@ async function handleCreateLease(
 
   // Store lease
   await storeLease(lease);
+  watchLease(lease);
 
   // Initialize quota tracking
-  await putMeta(`quota:${leaseId}`, {
-    leaseId,
-    tokensIssued: 0,
-    lastResetAt: now,
-    perEndpoint: {},
-  });
+  await putMeta(`quota:${leaseId}`, createRateLimitState(quotas, now));
 
   await logOperation({
     op: 'create-lease',
@@ -2720,6 +3667,7 @@ async function handleCreateLease(
       userId,
       ttlHours,
       autoExtend: lease.autoExtend,
+      quotas,
     },
   });
 
@@ -2773,6 +3721,8 @@ async function handleExtendLeases(
   let skipped = 0;
   let failed = 0;
 
+  await expireRetiredVAPIDKeys(requestId);
+
   // Validate credentials once if provided (for non-extendable leases)
   let credentialsValid = false;
   if (credentials) {
@@ -2795,6 +3745,7 @@ async function handleExtendLeases(
         }
       }
       if (skipped === leaseIds.length) {
+        waiveAuditEntry(requestId);
         return { results, extended, skipped, failed };
       }
     }
@@ -2837,10 +3788,9 @@ async function handleExtendLeases(
         continue;
       }
 
-      // Verify lease is for current VAPID key
-      const allKeys = await getAllWrappedKeys();
-      const vapidKeys = allKeys.filter((k) => k.purpose === 'vapid');
-      if (vapidKeys.length === 0) {
+      // Verify lease is for the current VAPID key or one still in its grace period
+      const keyResolution = await resolveLeaseVAPIDKey(existingLease.kid);
+      if (keyResolution.status === 'no-vapid-key') {
         results.push({
           leaseId,
           status: 'skipped',
@@ -2850,23 +3800,22 @@ async function handleExtendLeases(
         continue;
       }
 
-      vapidKeys.sort((a, b) => b.createdAt - a.createdAt);
-      const currentVapidKey = vapidKeys[0];
-      const currentKid = currentVapidKey!.kid;
-
-      if (existingLease.kid !== currentKid) {
+      if (keyResolution.status === 'wrong-key') {
         results.push({
           leaseId,
           status: 'skipped',
-          reason: `Lease is for different VAPID key (lease kid: ${existingLease.kid}, current kid: ${currentKid})`,
+          reason: `Lease is for different VAPID key (lease kid: ${existingLease.kid}, current kid: ${keyResolution.currentKid ?? 'none'})`,
         });
         skipped++;
         continue;
       }
 
-      // Extend the lease
+      // Extend the lease (never past the retirement of the key it is pinned to)
       const now = Date.now();
-      const newExp = now + 30 * 24 * 60 * 60 * 1000; // 30 days from now
+      const newExp = Math.min(
+        now + 30 * 24 * 60 * 60 * 1000, // 30 days from now
+        keyResolution.retireAt ?? Infinity
+      );
 
       const updatedLease: LeaseRecord = {
         ...existingLease,
@@ -2875,6 +3824,7 @@ async function handleExtendLeases(
       };
 
       await storeLease(updatedLease);
+      watchLease(updatedLease);
 
       // Log the extension
       await logOperation({
@@ -2913,106 +3863,117 @@ async function handleExtendLeases(
     }
   }
 
+  if (extended === 0) {
+    waiveAuditEntry(requestId);
+  }
   return { results, extended, skipped, failed };
 }
 
+/**
+ * Pick the push subscription a lease JWT targets: the lease user's endpoint
+ * `eid`, or, when no eid is given, the user's only endpoint on the lease's
+ * VAPID key. A subscription registered under another VAPID key cannot be
+ * reached with this lease's key (the push service checks it).
+ */
+async function resolveLeaseSubscription(
+  lease: LeaseRecord,
+  eid: string | undefined
+): Promise<PushSubscriptionRecord> {
+  if (eid !== undefined) {
+    const subscription = await getPushSubscription(lease.userId, eid);
+    if (!subscription) {
+      throw new KMSError('NOT_FOUND', `No push subscription for endpoint: ${eid}`);
+    }
+    if (subscription.kid !== lease.kid) {
+      throw new WrongKeyError(`Push subscription ${eid} is bound to another VAPID key; create a new lease`);
+    }
+    return subscription;
+  }
+
+  const candidates = (await listPushSubscriptions(lease.userId)).filter((s) => s.kid === lease.kid);
+  const [only] = candidates;
+  if (!only) {
+    throw new KMSError('NOT_SETUP', 'No push subscription found. Call setPushSubscription() first.');
+  }
+  if (candidates.length > 1) {
+    throw new ValidationError(
+      `eid required: user has ${candidates.length} push subscriptions (${candidates.map((s) => s.eid).join(', ')})`
+    );
+  }
+  return only;
+}
+
 /**
  * Issue VAPID JWT using lease authorization.
  * No credentials required - the lease IS the authorization.
- * Enforces quotas and expiration checks.
+ * Enforces quotas (see rate-limit.ts) and expiration checks. The JWT targets
+ * the endpoint `eid` (see resolveLeaseSubscription), whose sends are counted
+ * against `sendsPerMinutePerEid` separately from the user's other endpoints.
+ *
+ * @param quotaJwts JWTs to charge against the lease quotas. A batch charges the
+ *   whole batch on its first JWT and 0 on the rest, so it is admitted or
+ *   rejected as a unit. Not reachable over RPC.
  */
 async function handleIssueVAPIDJWT(
   params: {
     leaseId: string;
-    kid?: string; // Optional - auto-detect if not provided
+    eid?: string; // Optional - required when the user has several endpoints
+    kid?: string; // Optional - ignored, the lease pins its own kid
     jti?: string; // Optional - for batch issuance
     exp?: number; // Optional - for staggered expirations
   },
-  requestId: string
+  requestId: string,
+  quotaJwts = 1
 ): Promise<{ jwt: string; jti: string; exp: number; auditEntry: AuditEntryV2 }> {
   const { leaseId } = params;
-  let { kid } = params;
-
-  // Auto-detect VAPID key if kid not provided (per V2 spec)
-  if (!kid) {
-    const allKeys = await getAllWrappedKeys();
-    const vapidKeys = allKeys.filter((k) => k.purpose === 'vapid');
-
-    if (vapidKeys.length === 0) {
-      throw new Error('No VAPID key found. Create a lease first to auto-generate one.');
-    }
-
-    if (vapidKeys.length > 1) {
-      throw new Error('Multiple VAPID keys found. Please specify kid explicitly.');
-    }
 
-    const firstKey = vapidKeys[0];
-    if (!firstKey) {
-      throw new Error('No VAPID key found after filtering');
-    }
-    kid = firstKey.kid;
-  }
+  await expireRetiredVAPIDKeys(requestId);
 
   // Retrieve lease
   const lease = await getLease(leaseId);
   if (!lease) {
-    throw new Error(`Lease not found: ${leaseId}`);
+    throw new KMSError('NOT_FOUND', `Lease not found: ${leaseId}`);
   }
 
   // Check expiration
   if (Date.now() >= lease.exp) {
-    throw new Error('Lease expired');
-  }
-
-  // Check if lease kid matches current VAPID key (same logic as verifyLease)
-  // This prevents JWT issuance after VAPID regeneration
-  const allKeysForValidation = await getAllWrappedKeys();
-  const vapidKeysForValidation = allKeysForValidation.filter((k) => k.purpose === 'vapid');
-
-  if (vapidKeysForValidation.length === 0) {
-    throw new Error('No VAPID key available');
+    throw new LeaseExpiredError();
   }
 
-  // Sort by createdAt descending to get the most recent key first
-  vapidKeysForValidation.sort((a, b) => b.createdAt - a.createdAt);
-  const currentKid = vapidKeysForValidation[0]?.kid;
+  // The lease is pinned to its kid: it keeps signing under that key while it is
+  // current or inside a rotation grace period (same logic as verifyLease).
+  // This prevents JWT issuance after VAPID regeneration or retirement.
+  const keyResolution = await resolveLeaseVAPIDKey(lease.kid);
 
-  if (!currentKid) {
-    throw new Error('Failed to determine current VAPID key');
+  if (keyResolution.status === 'no-vapid-key') {
+    throw new KMSError('NOT_SETUP', 'No VAPID key available');
   }
 
-  if (lease.kid !== currentKid) {
-    throw new Error('Lease invalidated by VAPID key rotation (wrong-key)');
+  if (keyResolution.status === 'wrong-key') {
+    throw new WrongKeyError('Lease invalidated by VAPID key rotation (wrong-key)');
   }
 
   // Load LAK (Lease Audit Key) for audit logging
   // This loads the LAK private key and sets it as the active audit signer
   await loadLAK(leaseId, lease.lakDelegationCert);
 
-  // Get push subscription from VAPID key (single source of truth)
-  const subscription = await getPushSubscription();
-  if (!subscription) {
-    throw new Error('No push subscription found. Call setPushSubscription() first.');
-  }
-
-  // Check quota (simplified: tokens per hour)
-  const rawQuotaState = await getMeta(`quota:${leaseId}`);
-  const quotaState = loadRateLimitState(rawQuotaState);
-
-  const hourAgo = Date.now() - 3600 * 1000;
-  if (quotaState.lastResetAt < hourAgo) {
-    // Reset quota
-    quotaState.tokensIssued = 0;
-    quotaState.lastResetAt = Date.now();
-  }
+  const subscription = await resolveLeaseSubscription(lease, params.eid);
 
-  if (quotaState.tokensIssued >= lease.quotas.tokensPerHour) {
-    throw new Error('Quota exceeded: tokens per hour');
+  // Charge quotas. Serialised per lease so concurrent requests can't all
+  // read the same state and slip past the limit together.
+  if (quotaJwts > 0) {
+    await withKeyedLock(`quota:${leaseId}`, async () => {
+      const now = Date.now();
+      const quotaState = loadRateLimitState(await getMeta(`quota:${leaseId}`), lease.quotas, now);
+      const charged = chargeQuota(quotaState, lease.quotas, {
+        now,
+        eid: subscription.eid,
+        jwts: quotaJwts,
+      });
+      await putMeta(`quota:${leaseId}`, charged);
+    });
   }
 
-  quotaState.tokensIssued++;
-  await putMeta(`quota:${leaseId}`, quotaState);
-
   // Build JWT payload (use provided jti/exp or generate new ones)
   const jti = params.jti ?? crypto.randomUUID();
   const exp = params.exp ?? (Math.floor(Date.now() / 1000) + 900); // 15 min from now if not provided
@@ -3036,7 +3997,7 @@ async function handleIssueVAPIDJWT(
     // Load from IndexedDB if not in cache
     const sessionKEKFromDB = await getMeta<CryptoKey>(`sessionkek:${leaseId}`);
     if (!sessionKEKFromDB) {
-      throw new Error(`SessionKEK not found for lease: ${leaseId}`);
+      throw new KMSError('NOT_FOUND', `SessionKEK not found for lease: ${leaseId}`);
     }
     sessionKEK = sessionKEKFromDB;
     // Cache for next use
@@ -3117,15 +4078,16 @@ async function handleIssueVAPIDJWTs(
   params: {
     leaseId: string;
     count: number;
+    eid?: string;
     kid?: string;
   },
   requestId: string
 ): Promise<Array<{ jwt: string; jti: string; exp: number; auditEntry: AuditEntryV2 }>> {
-  const { leaseId, count, kid } = params;
+  const { leaseId, count, eid, kid } = params;
 
   // Validate count
   if (!Number.isInteger(count) || count < 1 || count > 10) {
-    throw new Error('count must be an integer between 1 and 10');
+    throw new ValidationError('count must be an integer between 1 and 10');
   }
 
   // Constants for staggering
@@ -3144,14 +4106,17 @@ async function handleIssueVAPIDJWTs(
 
     // Call handleIssueVAPIDJWT with staggered expiration and unique requestId
     // This function handles: LAK loading, quota check, key unwrapping, signing, and audit logging
+    // The first call charges the whole batch against the lease quotas
     const result = await handleIssueVAPIDJWT(
       {
         leaseId,
+        ...(eid !== undefined && { eid }),
         ...(kid !== undefined && { kid }),
         jti,
         exp,
       },
-      `${requestId}-${i}` // Unique requestId for each JWT
+      auditSubId(requestId, String(i)), // Unique requestId for each JWT
+      i === 0 ? count : 0
     );
 
     results.push(result);
@@ -3249,7 +4214,7 @@ async function handleGetPasskeyUnlockParams(params?: { userId?: string }): Promi
     };
   }
 
-  throw new Error('No passkey enrollment found for this user');
+  throw new KMSError('NOT_SETUP', 'No passkey enrollment found for this user');
 }
 
 /**
@@ -3262,7 +4227,7 @@ async function handleGetPasskeyUnlockParams(params?: { userId?: string }): Promi
  * stored `PasskeyPRFConfigV2.kdf.appSalt` (never localStorage). `credentialId`
  * and `rpId` prefer the PRF enrollment, falling back to gate.
  */
-async function handleGetMessagingUnlockOptions(params?: { userId?: string }): Promise<{
+async function handleGetMessagingUnlockOptions(params?: { userId?: string; backup?: string }): Promise<{
   hasPassphrase: boolean;
   hasPasskeyPrf: boolean;
   hasPasskeyGate: boolean;
@@ -3272,9 +4237,19 @@ async function handleGetMessagingUnlockOptions(params?: { userId?: string }): Pr
 }> {
   const userId = params?.userId ?? 'default';
 
-  const passphraseConfig = await getMeta(`enrollment:passphrase:v2:${userId}`);
-  const prfConfig = await getMeta<PasskeyPRFConfigV2>(`enrollment:passkey-prf:v2:${userId}`);
-  const gateConfig = await getMeta<PasskeyGateConfigV2>(`enrollment:passkey-gate:v2:${userId}`);
+  let passphraseConfig: unknown;
+  let prfConfig: PasskeyPRFConfigV2 | null | undefined;
+  let gateConfig: PasskeyGateConfigV2 | null | undefined;
+  if (params?.backup !== undefined) {
+    // importBackup: the archive's own unlock slots (no passkey-gate slot there)
+    const slots = decodeEnrollments(readBackupArchive(params.backup));
+    passphraseConfig = slots.passphrase;
+    prfConfig = slots.passkeyPrf;
+  } else {
+    passphraseConfig = await getMeta(`enrollment:passphrase:v2:${userId}`);
+    prfConfig = await getMeta<PasskeyPRFConfigV2>(`enrollment:passkey-prf:v2:${userId}`);
+    gateConfig = await getMeta<PasskeyGateConfigV2>(`enrollment:passkey-gate:v2:${userId}`);
+  }
 
   // appSalt only exists for PRF enrollments.
   const appSalt = prfConfig ? arrayBufferToBase64url(prfConfig.kdf.appSalt) : undefined;
@@ -3309,6 +4284,35 @@ async function handleGetAuditLog(): Promise<{ entries: AuditEntryV2[] }> {
   return { entries };
 }
 
+/**
+ * Export the audit log (or a range of it) as a UAK-signed, self-contained
+ * bundle for offline verification. The export is itself logged first, so the
+ * manifest's head covers it.
+ */
+async function handleExportAuditLog(
+  params: { credentials: AuthCredentials; filter: AuditLogFilter },
+  requestId: string
+): Promise<AuditLogExport> {
+  const { credentials, filter } = params;
+
+  const unlockResult = await withUnlock(credentials, async (mkek) => {
+    await ensureAuditKey(mkek);
+  });
+
+  await logOperation({
+    op: 'export-audit-log',
+    kid: '',
+    requestId,
+    userId: credentials.userId,
+    unlockTime: unlockResult.unlockTime,
+    lockTime: unlockResult.lockTime,
+    duration: unlockResult.duration,
+    details: { ...filter },
+  });
+
+  return exportAuditLog(credentials.userId, filter);
+}
+
 /**
  * Get public key for a wrapped key (by kid).
  */
@@ -3317,7 +4321,7 @@ async function handleGetPublicKey(params: { kid: string }): Promise<{ publicKey:
 
   const wrappedKey = await getWrappedKey(kid);
   if (!wrappedKey || !wrappedKey.publicKeyRaw) {
-    throw new Error(`Public key not found for kid: ${kid}`);
+    throw new KMSError('NOT_FOUND', `Public key not found for kid: ${kid}`);
   }
 
   return { publicKey: arrayBufferToBase64url(wrappedKey.publicKeyRaw) };
@@ -3331,11 +4335,12 @@ async function handleGetAuditPublicKey(): Promise<{ publicKey: string }> {
 }
 
 /**
- * Get all leases for a user.
+ * Get all leases for a user, re-arming each lease's expiry events.
  */
 async function handleGetUserLeases(params: { userId: string }): Promise<{ leases: LeaseRecord[] }> {
   const { userId } = params;
   const leases = await getUserLeases(userId);
+  leases.forEach(watchLease);
   return { leases };
 }
 
@@ -3345,7 +4350,8 @@ async function handleGetUserLeases(params: { userId: string }): Promise<{ leases
  * Checks:
  * - Lease exists
  * - Lease is not expired
- * - Lease kid matches current VAPID key
+ * - Lease kid matches current VAPID key, or a rotated-out key still inside its
+ *   grace period (the result then carries the key's retireAt)
  *
  * This is a read-only operation and does not create audit entries.
  */
@@ -3380,11 +4386,10 @@ async function handleVerifyLease(params: {
     };
   }
 
-  // Get current VAPID key (most recently created)
-  const allKeys = await getAllWrappedKeys();
-  const vapidKeys = allKeys.filter((k) => k.purpose === 'vapid');
+  // Resolve the lease's kid against the VAPID key ring
+  const keyResolution = await resolveLeaseVAPIDKey(lease.kid);
 
-  if (vapidKeys.length === 0) {
+  if (keyResolution.status === 'no-vapid-key') {
     // Delete if requested (no VAPID key means lease is invalid)
     if (deleteIfInvalid) {
       await deleteLease(leaseId);
@@ -3397,25 +4402,7 @@ async function handleVerifyLease(params: {
     };
   }
 
-  // Sort by createdAt descending to get the most recent key first
-  vapidKeys.sort((a, b) => b.createdAt - a.createdAt);
-
-  // Check if lease kid matches current VAPID key (most recent)
-  const firstKey = vapidKeys[0];
-  if (!firstKey) {
-    // Delete if requested
-    if (deleteIfInvalid) {
-      await deleteLease(leaseId);
-    }
-    return {
-      leaseId,
-      valid: false,
-      reason: 'no-vapid-key',
-      kid: lease.kid,
-    };
-  }
-  const currentKid = firstKey.kid;
-  if (lease.kid !== currentKid) {
+  if (keyResolution.status === 'wrong-key') {
     // Delete if requested (wrong key = stale lease)
     if (deleteIfInvalid) {
       await deleteLease(leaseId);
@@ -3428,28 +4415,29 @@ async function handleVerifyLease(params: {
     };
   }
 
-  // Lease is valid
+  // Lease is valid (possibly only until its key retires)
   return {
     leaseId,
     valid: true,
     kid: lease.kid,
+    ...(keyResolution.retireAt !== undefined && { retireAt: keyResolution.retireAt }),
   };
 }
 
 /**
  * Get VAPID key ID for the user (convenience method).
- * Returns the first VAPID key found, or throws if none exists.
+ * Returns the current VAPID key (keys being rotated out are ignored), or
+ * throws if none exists.
  */
 async function handleGetVAPIDKid(): Promise<{ kid: string }> {
-  const allKeys = await getAllWrappedKeys();
-  const vapidKeys = allKeys.filter((k) => k.purpose === 'vapid');
+  const vapidKeys = (await getVAPIDKeys()).filter((k) => k.retireAt === undefined);
 
   if (vapidKeys.length === 0) {
-    throw new Error('No VAPID key found');
+    throw new KMSError('NOT_SETUP', 'No VAPID key found');
   }
 
   if (vapidKeys.length > 1) {
-    throw new Error('Multiple VAPID keys found. Please use getPublicKey(kid) with explicit kid.');
+    throw new KMSError('CONFLICT', 'Multiple VAPID keys found. Please use getPublicKey(kid) with explicit kid.');
   }
 
   const firstKey = vapidKeys[0];
@@ -3460,49 +4448,98 @@ async function handleGetVAPIDKid(): Promise<{ kid: string }> {
   return { kid: firstKey.kid };
 }
 
+/**
+ * List the VAPID key ring, newest first (read-only, no audit log).
+ *
+ * During a rotation this shows the current key alongside keys still inside
+ * their grace period, so a push backend can tell which kid each device's
+ * subscription must move to and by when.
+ */
+async function handleListVAPIDKeys(): Promise<{
+  keys: Array<{
+    kid: string;
+    publicKey: string;
+    createdAt: number;
+    status: 'current' | 'retiring' | 'superseded';
+    retireAt?: number;
+  }>;
+}> {
+  const vapidKeys = await getVAPIDKeys();
+  const currentKid = findCurrentVAPIDKey(vapidKeys)?.kid;
+
+  return {
+    keys: vapidKeys.map((k) => ({
+      kid: k.kid,
+      publicKey: k.publicKeyRaw ? arrayBufferToBase64url(k.publicKeyRaw) : '',
+      createdAt: k.createdAt,
+      status: k.kid === currentKid ? 'current' : k.retireAt !== undefined ? 'retiring' : 'superseded',
+      ...(k.retireAt !== undefined && { retireAt: k.retireAt }),
+    })),
+  };
+}
+
 // ============================================================================
 // Push Subscription Operations
 // ============================================================================
 
 /**
- * Set push subscription for the current VAPID key.
+ * Register a push subscription for one of the user's endpoints.
  *
- * Stores the subscription data with the VAPID key record. This allows
- * leases and JWTs to automatically include the subscription info without
- * requiring it to be passed on every call.
+ * The subscription is bound to the current VAPID key and keyed by
+ * (userId, eid): registering another eid adds an endpoint, registering the
+ * same eid replaces it. Leases then issue JWTs for it without the
+ * subscription being passed on every call.
  *
- * @param params - Validated subscription data
+ * @param params - Validated user and subscription data
  * @returns Success confirmation
  */
 async function handleSetPushSubscription(params: {
+  userId: string;
   subscription: StoredPushSubscription;
 }): Promise<{ success: true }> {
-  await setPushSubscription(params.subscription);
+  await setPushSubscription(params.userId, params.subscription);
   return { success: true };
 }
 
 /**
- * Remove push subscription from the current VAPID key.
+ * Remove one of the user's push subscriptions (idempotent).
  *
- * @returns Success confirmation
+ * @returns Success confirmation and whether a subscription was removed
  */
-async function handleRemovePushSubscription(): Promise<{ success: true }> {
-  await removePushSubscription();
-  return { success: true };
+async function handleRemovePushSubscription(params: {
+  userId: string;
+  eid: string;
+}): Promise<{ success: true; removed: boolean }> {
+  const removed = await removePushSubscription(params.userId, params.eid);
+  return { success: true, removed };
 }
 
 /**
- * Get push subscription from the current VAPID key.
+ * Get one of the user's push subscriptions.
  *
- * @returns Subscription data or null if not set
+ * @returns Subscription data or null if not registered
  */
-async function handleGetPushSubscription(): Promise<{
-  subscription: StoredPushSubscription | null;
+async function handleGetPushSubscription(params: {
+  userId: string;
+  eid: string;
+}): Promise<{
+  subscription: PushSubscriptionRecord | null;
 }> {
-  const subscription = await getPushSubscription();
+  const subscription = await getPushSubscription(params.userId, params.eid);
   return { subscription };
 }
 
+/**
+ * List the user's push subscriptions, each with the VAPID kid it is bound to.
+ */
+async function handleListPushSubscriptions(params: {
+  userId: string;
+}): Promise<{
+  subscriptions: PushSubscriptionRecord[];
+}> {
+  return { subscriptions: await listPushSubscriptions(params.userId) };
+}
+
 // ============================================================================
 // Signal Messaging Operations (Phase 2)
 // ============================================================================
@@ -3664,6 +4701,7 @@ async function handleProvisionMessaging(
   }
   applyMasterIdentity(session, masterIdentity);
   messagingSessions.set(sid, session);
+  watchMessagingSession(sid, session);
 
   await logOperation({
     op: 'messaging.provision',
@@ -3759,6 +4797,7 @@ async function handleProvisionMessagingFromMnemonic(
   };
   applyMasterIdentity(session, masterIdentity);
   messagingSessions.set(sid, session);
+  watchMessagingSession(sid, session);
 
   await logOperation({
     op: 'messaging.provisionFromMnemonic',
@@ -3799,7 +4838,7 @@ async function handleGetPrekeyCount(params: { userId: string }): Promise<{ count
 async function handleOpenMessaging(
   params: { credentials: AuthCredentials },
   requestId: string
-): Promise<{ sid: string; token: string; exp: number }> {
+): Promise<{ sid: string; token: string; exp: number; prekeys?: PrekeyBundleDelta }> {
   const { credentials } = params;
   const sid = crypto.randomUUID();
 
@@ -3809,7 +4848,7 @@ async function handleOpenMessaging(
     // Messaging must be provisioned first (setupMessaging).
     const identity = await getSignalIdentity(credentials.userId);
     if (!identity) {
-      throw new Error('Messaging not set up for this user; call setupMessaging first');
+      throw new KMSError('NOT_SETUP', 'Messaging not set up for this user; call setupMessaging first');
     }
 
     const messagingKEK = await deriveMessagingKEK(ms);
@@ -3852,8 +4891,9 @@ async function handleOpenMessaging(
     }
     applyMasterIdentity(session, masterIdentity);
     messagingSessions.set(sid, session);
+    watchMessagingSession(sid, session);
 
-    return { token, exp };
+    return { token, exp, messagingKEK };
   });
 
   await logOperation({
@@ -3867,7 +4907,15 @@ async function handleOpenMessaging(
     details: { sid },
   });
 
-  return { sid, token: result.result.token, exp: result.result.exp };
+  // The messaging KEK is in hand: bring the prekeys up to policy while the user is here
+  const prekeys = await runPrekeyMaintenance(credentials.userId, result.result.messagingKEK, requestId, 'open');
+
+  return {
+    sid,
+    token: result.result.token,
+    exp: result.result.exp,
+    ...(!isPrekeyDeltaEmpty(prekeys) && { prekeys }),
+  };
 }
 
 /**
@@ -3880,7 +4928,7 @@ async function handleCloseMessaging(
 ): Promise<{ closed: true }> {
   const { sid, token } = params;
   const { userId } = await requireCapability(sid, token);
-  messagingSessions.delete(sid);
+  dropMessagingSession(sid);
 
   await logOperation({
     op: 'messaging.close',
@@ -3910,8 +4958,10 @@ async function handleRotatePrekeys(
   const { sid, token, signedPreKeyId, startKeyId, count } = params;
   const { messagingKEK, userId } = await requireCapability(sid, token);
 
-  await generateSignedPrekey(userId, messagingKEK, signedPreKeyId);
-  await generateOneTimePrekeys(userId, messagingKEK, startKeyId, count);
+  await withKeyedLock(`prekeys:${userId}`, async () => {
+    await generateSignedPrekey(userId, messagingKEK, signedPreKeyId);
+    await generateOneTimePrekeys(userId, messagingKEK, startKeyId, count);
+  });
   const bundle = await getPublicBundle(userId);
 
   await logOperation({
@@ -3925,6 +4975,57 @@ async function handleRotatePrekeys(
   return { bundle };
 }
 
+/**
+ * Apply the prekey policy (see maintainPrekeys in signal.ts) for a user and
+ * audit what changed. Runs are serialised per user so concurrent triggers
+ * cannot allocate the same key ids.
+ */
+async function runPrekeyMaintenance(
+  userId: string,
+  messagingKEK: CryptoKey,
+  requestId: string,
+  trigger: 'open' | 'consume' | 'request'
+): Promise<PrekeyBundleDelta> {
+  const delta = await withKeyedLock(`prekeys:${userId}`, () => maintainPrekeys(userId, messagingKEK));
+  if (!isPrekeyDeltaEmpty(delta)) {
+    await logOperation({
+      op: 'messaging.prekeys',
+      kid: `messaging:${userId}`,
+      requestId,
+      userId,
+      details: {
+        trigger,
+        signedPreKeyId: delta.signedPreKey?.keyId ?? null,
+        added: delta.oneTimePreKeys.length,
+        deletedSignedPreKeyIds: delta.deletedSignedPreKeyIds,
+        remaining: delta.oneTimePrekeyCount,
+      },
+    });
+  }
+  if (delta.oneTimePreKeys.length > 0) {
+    const replenished = delta.oneTimePreKeys.length;
+    emitKMSEvent({ type: 'prekeys-low', userId, count: delta.oneTimePrekeyCount - replenished, replenished });
+  }
+  return delta;
+}
+
+/**
+ * Bring a user's prekeys up to policy on demand (e.g. on a daily timer, for
+ * signed-prekey rotation between sessions) and return the delta to publish.
+ * Runs under a live session (uses the messaging KEK).
+ */
+async function handleMaintainPrekeys(
+  params: { sid: string; token: string },
+  requestId: string
+): Promise<{ prekeys: PrekeyBundleDelta }> {
+  const { messagingKEK, userId } = await requireCapability(params.sid, params.token);
+  const prekeys = await runPrekeyMaintenance(userId, messagingKEK, requestId, 'request');
+  if (isPrekeyDeltaEmpty(prekeys)) {
+    waiveAuditEntry(requestId);
+  }
+  return { prekeys };
+}
+
 // ============================================================================
 // Fan-out Bundle Operations (secure-messaging §8/§12) — messaging capability
 // ============================================================================
@@ -3932,9 +5033,22 @@ async function handleRotatePrekeys(
 /**
  * Build one opaque fan-out bundle for a logical message: encrypt the plaintext
  * once per recipient device session (establishing a session from `deviceBundle`
- * on the first message to a device), then shuffle + serialize. The caller
- * composes the recipient set (a contact's devices + the account's own other
- * devices); this handler only ciphers and packs — no addressing/routing logic.
+ * on the first message to a device), tag each envelope with the pair's current
+ * transport tag (§12), then shuffle + serialize. The caller composes the
+ * recipient set (a contact's devices + the account's own other devices); this
+ * handler only ciphers and packs — no addressing/routing logic.
+ *
+ * A recipient device its account's roster revokes (rooms §2.4) gets no envelope;
+ * it is left out of the bundle and reported in `revoked`.
+ *
+ * `attachments` are handles from `encryptAttachment`: each is unsealed and its
+ * pointer framed into the plaintext, so attachment keys reach the recipients'
+ * enclaves without passing through the PWA.
+ *
+ * With `sealedSender` (§12.2) each envelope is instead sealed, with this
+ * device's sender certificate, to its recipient's identity key and left
+ * untagged, so nothing in the bundle names the sender. `deviceId` is this
+ * device's Signal device id, which recipients need to find the session.
  */
 async function handleBuildBundle(
   params: {
@@ -3942,28 +5056,58 @@ async function handleBuildBundle(
     token: string;
     recipients: Array<{ peerName: string; peerDeviceId: number; deviceBundle?: DeviceType }>;
     plaintext: ArrayBuffer;
+    attachments?: ArrayBuffer[];
+    sealedSender?: { deviceId: number };
   },
   requestId: string
-): Promise<{ bundle: ArrayBuffer }> {
-  const { sid, token, recipients, plaintext } = params;
-  const { messagingKEK, userId } = await requireCapability(sid, token);
+): Promise<{ bundle: ArrayBuffer; revoked?: Array<{ peerName: string; peerDeviceId: number }> }> {
+  const { sid, token, recipients } = params;
+  const session = await requireCapability(sid, token);
+  const { messagingKEK, userId } = session;
+  const sender = params.sealedSender ? await senderCertificate(session, params.sealedSender.deviceId) : undefined;
+  const pointers = await Promise.all(
+    (params.attachments ?? []).map((handle) => openAttachmentHandle(new Uint8Array(handle), messagingKEK, userId))
+  );
+  const plaintext = frameMessageContent(new Uint8Array(params.plaintext), pointers);
+  const now = Date.now();
 
   const envelopes: Envelope[] = [];
+  const revoked: Array<{ peerName: string; peerDeviceId: number }> = [];
   for (const recipient of recipients) {
     const address = new SignalProtocolAddress(recipient.peerName, recipient.peerDeviceId);
     const peerAddress = address.toString();
     const envelope = await withSessionLock(userId, peerAddress, async () => {
       const store = createSignalProtocolStore(userId, messagingKEK);
       const existing = await store.loadSession(peerAddress);
+      if (!existing && !recipient.deviceBundle) {
+        throw new ValidationError(`No existing session with ${peerAddress}; deviceBundle is required`);
+      }
+      // The device's identity key: recorded by its session, or presented in its bundle.
+      const known = await getSignalTrustedIdentity(userId, peerAddress);
+      const deviceKey = existing && known ? known.identityPubKey : recipient.deviceBundle?.identityKey;
+      if (deviceKey && (await isRevokedDevice(userId, recipient.peerName, new Uint8Array(deviceKey)))) {
+        return null;
+      }
       if (!existing) {
-        if (!recipient.deviceBundle) {
-          throw new Error(`No existing session with ${peerAddress}; deviceBundle is required`);
+        await new SessionBuilder(store, address).processPreKey(recipient.deviceBundle!);
+      }
+      // The session (new or existing) has recorded the peer's identity key.
+      const peer = await getSignalTrustedIdentity(userId, peerAddress);
+      const cipher = new SessionCipher(store, address);
+      if (sender) {
+        if (!peer) {
+          throw new ValidationError(`No identity key on record for ${peerAddress}`);
         }
-        await new SessionBuilder(store, address).processPreKey(recipient.deviceBundle);
+        return sealEnvelope(await encryptEnvelope(cipher, plaintext), sender, peer.identityPubKey);
       }
-      return encryptEnvelope(new SessionCipher(store, address), plaintext);
+      const tag = await sendTransportTag(await store.loadSession(peerAddress), now);
+      return encryptEnvelope(cipher, plaintext, tag);
     });
-    envelopes.push(envelope);
+    if (envelope) {
+      envelopes.push(envelope);
+    } else {
+      revoked.push({ peerName: recipient.peerName, peerDeviceId: recipient.peerDeviceId });
+    }
   }
 
   const bundle = serializeBundle(envelopes);
@@ -3973,52 +5117,122 @@ async function handleBuildBundle(
     kid: `messaging:${userId}`,
     requestId,
     userId,
-    details: { recipients: recipients.length },
+    details: {
+      recipients: recipients.length,
+      tagged: envelopes.filter((e) => e.tag).length,
+      revoked: revoked.length,
+      attachments: pointers.length,
+      sealed: sender !== undefined,
+    },
   });
 
-  return { bundle: u8ToArrayBuffer(bundle) };
+  return { bundle: u8ToArrayBuffer(bundle), ...(revoked.length > 0 && { revoked }) };
 }
 
 /**
- * Open a fan-out bundle: trial-decrypt each envelope against each candidate
- * sender-device session, returning the first plaintext that authenticates (or
- * null if none is addressed to this device). A failed trial mutates no persisted
- * state (fork MAC isolation). Each attempt runs under the per-peer session lock.
+ * Open a fan-out bundle, returning the first plaintext that authenticates (or
+ * null if none is addressed to this device). Attachment pointers the message
+ * carries are sealed into handles for this device and returned alongside the
+ * body, with each attachment's digest and size. An envelope whose transport tag
+ * (§12) names one of the candidate senders is decrypted with that sender alone;
+ * only envelopes with an unrecognised tag fall back to trial decryption against
+ * each sender. A failed trial mutates no persisted state (fork MAC isolation).
+ * Each attempt runs under the per-peer session lock.
+ *
+ * Sealed-sender envelopes (§12.2) need no `senders`: each is unsealed with this
+ * device's identity key, and the sender it names is verified (see
+ * {@link openSealedEnvelope}) and returned as `sender`.
  */
 async function handleOpenBundle(
   params: {
     sid: string;
     token: string;
-    senders: Array<{ peerName: string; peerDeviceId: number }>;
+    senders?: Array<{ peerName: string; peerDeviceId: number }>;
     bundle: ArrayBuffer;
   },
   requestId: string
-): Promise<{ plaintext: ArrayBuffer | null }> {
-  const { sid, token, senders, bundle } = params;
+): Promise<{
+  plaintext: ArrayBuffer | null;
+  attachments?: ReceivedAttachment[];
+  sender?: BundleSender;
+  prekeys?: PrekeyBundleDelta;
+}> {
+  const { sid, token, bundle } = params;
   const { messagingKEK, userId } = await requireCapability(sid, token);
 
   const envelopes = parseBundle(bundle);
-  for (const envelope of envelopes) {
-    for (const sender of senders) {
-      const address = new SignalProtocolAddress(sender.peerName, sender.peerDeviceId);
-      const peerAddress = address.toString();
-      const plaintext = await withSessionLock(userId, peerAddress, async () => {
-        const store = createSignalProtocolStore(userId, messagingKEK);
-        return trialDecryptEnvelope(new SessionCipher(store, address), envelope);
-      });
-      if (plaintext !== null) {
-        await logOperation({
-          op: 'messaging.bundle.open',
-          kid: `messaging:${userId}`,
-          requestId,
-          userId,
-          details: { sender: peerAddress, envelopes: envelopes.length },
-        });
-        return { plaintext: u8ToArrayBuffer(plaintext) };
+  const identity = await createSignalProtocolStore(userId, messagingKEK).getIdentityKeyPair();
+
+  const deliver = async (
+    plaintext: Uint8Array,
+    details: Record<string, unknown>,
+    sender?: BundleSender
+  ): Promise<{
+    plaintext: ArrayBuffer;
+    attachments?: ReceivedAttachment[];
+    sender?: BundleSender;
+    prekeys?: PrekeyBundleDelta;
+  }> => {
+    const content = parseMessageContent(plaintext);
+    const attachments = await Promise.all(
+      content.pointers.map(async (pointer) => ({
+        handle: u8ToArrayBuffer(await sealAttachmentHandle(pointer, messagingKEK, userId)),
+        digest: u8ToArrayBuffer(pointer.digest),
+        size: pointer.size,
+      }))
+    );
+    await logOperation({
+      op: 'messaging.bundle.open',
+      kid: `messaging:${userId}`,
+      requestId,
+      userId,
+      details: { ...details, envelopes: envelopes.length, attachments: attachments.length },
+    });
+    // A first message from a new peer consumes a one-time prekey: replenish
+    // here rather than waiting for the PWA to notice the count dropping
+    const prekeys = await runPrekeyMaintenance(userId, messagingKEK, requestId, 'consume');
+    return {
+      plaintext: u8ToArrayBuffer(content.body),
+      ...(attachments.length > 0 && { attachments }),
+      ...(sender && { sender }),
+      ...(!isPrekeyDeltaEmpty(prekeys) && { prekeys }),
+    };
+  };
+
+  if (identity) {
+    for (const envelope of envelopes) {
+      const unsealed = await unsealEnvelope(envelope, identity);
+      const opened = unsealed && (await openSealedEnvelope(userId, messagingKEK, unsealed));
+      if (opened) {
+        const { peerName, peerDeviceId } = opened.sender;
+        return deliver(opened.plaintext, { sender: `${peerName}.${peerDeviceId}`, sealed: true }, opened.sender);
       }
     }
   }
 
+  const addresses = (params.senders ?? []).map((s) => new SignalProtocolAddress(s.peerName, s.peerDeviceId));
+  const now = Date.now();
+  const expected = await Promise.all(
+    addresses.map((address) =>
+      withSessionLock(userId, address.toString(), async () => {
+        const record = await createSignalProtocolStore(userId, messagingKEK).loadSession(address.toString());
+        return record === undefined ? null : expectedTransportTags(record, now);
+      })
+    )
+  );
+
+  for (const attempt of planDecryptAttempts(envelopes, expected)) {
+    const address = addresses[attempt.sender]!;
+    const peerAddress = address.toString();
+    const plaintext = await withSessionLock(userId, peerAddress, async () => {
+      const store = createSignalProtocolStore(userId, messagingKEK);
+      return trialDecryptEnvelope(new SessionCipher(store, address), attempt.envelope);
+    });
+    if (plaintext !== null) {
+      return deliver(plaintext, { sender: peerAddress, tagged: attempt.tagged });
+    }
+  }
+
   await logOperation({
     op: 'messaging.bundle.open',
     kid: `messaging:${userId}`,
@@ -4030,6 +5244,234 @@ async function handleOpenBundle(
   return { plaintext: null };
 }
 
+/** This device's sealed-sender certificate (§12.2): its address, identity keys and device cert. */
+async function senderCertificate(session: MessagingSession, deviceId: number): Promise<SenderCertificate> {
+  const { masterSigningPub, deviceCert } = requireMasterIdentity(session);
+  const keys = await requireDeviceKeys(session.userId);
+  return { peerName: session.userId, peerDeviceId: deviceId, ...keys, masterSigningPub, deviceCert };
+}
+
+/**
+ * Decrypt an unsealed sealed-sender envelope and establish who sent it. The
+ * claimed sender must hold a device cert from its master key, must not be
+ * revoked by its account's roster, and must own the Signal session the inner
+ * envelope decrypts under (the session's identity key is the certificate's).
+ * For a contact in the trust ledger, the certificate's master key must be the
+ * one on record: anyone can mint a certificate naming any contact, so a sealed
+ * envelope never changes the ledger (a real key change arrives through Connect
+ * or a device check). Returns `null` when the inner envelope does not decrypt.
+ *
+ * @throws ValidationError when the sender does not check out.
+ */
+async function openSealedEnvelope(
+  userId: string,
+  messagingKEK: CryptoKey,
+  unsealed: { sender: SenderCertificate; envelope: Envelope }
+): Promise<{ plaintext: Uint8Array; sender: BundleSender } | null> {
+  const { sender, envelope } = unsealed;
+  const { identityKey, identitySigningKey } = sender;
+  if (!(await verifyDeviceCert(sender.masterSigningPub, { identityKey, identitySigningKey }, sender.deviceCert))) {
+    throw new ValidationError('Sealed sender certificate does not verify');
+  }
+  if (await isRevokedDevice(userId, sender.peerName, identityKey)) {
+    throw new ValidationError('Sealed sender device is revoked');
+  }
+  const record = await getContactTrust(userId, sender.peerName);
+  if (record && record.msk !== arrayBufferToBase64url(u8ToArrayBuffer(sender.masterSigningPub))) {
+    throw new ValidationError("Sealed sender master key does not match the contact's");
+  }
+
+  const address = new SignalProtocolAddress(sender.peerName, sender.peerDeviceId);
+  const peerAddress = address.toString();
+  const ownsSession = async (): Promise<boolean> => {
+    const known = await getSignalTrustedIdentity(userId, peerAddress);
+    return !known || rosterDeviceId(new Uint8Array(known.identityPubKey)) === rosterDeviceId(identityKey);
+  };
+  const plaintext = await withSessionLock(userId, peerAddress, async () => {
+    if (!(await ownsSession())) {
+      throw new ValidationError('Sealed sender identity does not match its session');
+    }
+    // Decrypting a PreKey message saves the identity key it carries as the
+    // peer's trusted identity, so it must match the certificate beforehand.
+    if (envelope.type === ENVELOPE_TYPE_PREKEY) {
+      const preKeyIdentity = preKeyIdentityKey(envelope);
+      if (preKeyIdentity === null || rosterDeviceId(preKeyIdentity) !== rosterDeviceId(identityKey)) {
+        throw new ValidationError('Sealed sender identity does not match its session');
+      }
+    }
+    const store = createSignalProtocolStore(userId, messagingKEK);
+    return trialDecryptEnvelope(new SessionCipher(store, address), envelope);
+  });
+  if (plaintext === null) {
+    return null;
+  }
+
+  const trust = record?.state;
+  return {
+    plaintext,
+    sender: { peerName: sender.peerName, peerDeviceId: sender.peerDeviceId, ...(trust && { trust }) },
+  };
+}
+
+// ============================================================================
+// Attachment Operations (secure-messaging §8) — messaging capability
+// ============================================================================
+
+/**
+ * Encrypt an attachment once, in chunks, under a fresh key. The PWA uploads the
+ * ciphertext wherever it likes (named by `digest` if it wants) and passes the
+ * sealed `handle` to `buildBundle`; the key itself never leaves the enclave.
+ */
+async function handleEncryptAttachment(
+  params: { sid: string; token: string; plaintext: ArrayBuffer },
+  requestId: string
+): Promise<{ handle: ArrayBuffer; ciphertext: ArrayBuffer; digest: ArrayBuffer; size: number }> {
+  const { sid, token, plaintext } = params;
+  const { messagingKEK, userId } = await requireCapability(sid, token);
+
+  const { ciphertext, pointer } = await encryptAttachment(new Uint8Array(plaintext));
+  const handle = await sealAttachmentHandle(pointer, messagingKEK, userId);
+
+  await logOperation({
+    op: 'messaging.attachment.encrypt',
+    kid: `messaging:${userId}`,
+    requestId,
+    userId,
+    details: { size: pointer.size, ciphertextBytes: ciphertext.length },
+  });
+
+  return {
+    handle: u8ToArrayBuffer(handle),
+    ciphertext: u8ToArrayBuffer(ciphertext),
+    digest: u8ToArrayBuffer(pointer.digest),
+    size: pointer.size,
+  };
+}
+
+/**
+ * Decrypt a downloaded attachment with the handle `openBundle` (or
+ * `encryptAttachment`) returned. Fails unless the ciphertext is exactly the one
+ * the sender's pointer committed to. The whole ciphertext crosses in one call;
+ * `beginAttachmentDecrypt` takes it in pieces instead.
+ */
+async function handleDecryptAttachment(
+  params: { sid: string; token: string; handle: ArrayBuffer; ciphertext: ArrayBuffer },
+  requestId: string
+): Promise<{ plaintext: ArrayBuffer }> {
+  const { sid, token, handle, ciphertext } = params;
+  const { messagingKEK, userId } = await requireCapability(sid, token);
+
+  const pointer = await openAttachmentHandle(new Uint8Array(handle), messagingKEK, userId);
+  const plaintext = await decryptAttachment(new Uint8Array(ciphertext), pointer);
+
+  await logOperation({
+    op: 'messaging.attachment.decrypt',
+    kid: `messaging:${userId}`,
+    requestId,
+    userId,
+    details: { size: plaintext.length },
+  });
+
+  return { plaintext: u8ToArrayBuffer(plaintext) };
+}
+
+/**
+ * Start decrypting a downloaded attachment in pieces, for one too large to pass
+ * whole to `decryptAttachment`. Returns a `stream` id to feed the ciphertext to
+ * and finish; the stream lives only as long as the messaging session.
+ */
+async function handleBeginAttachmentDecrypt(params: {
+  sid: string;
+  token: string;
+  handle: ArrayBuffer;
+}): Promise<{ stream: string }> {
+  const { sid, token, handle } = params;
+  const session = await requireCapability(sid, token);
+
+  const pointer = await openAttachmentHandle(new Uint8Array(handle), session.messagingKEK, session.userId);
+  const streams = (session.attachmentDecrypts ??= new Map());
+  if (streams.size >= MAX_ATTACHMENT_DECRYPTS) {
+    throw new KMSError('QUOTA_EXCEEDED', `At most ${MAX_ATTACHMENT_DECRYPTS} attachment decryptions at once`);
+  }
+  const stream = crypto.randomUUID();
+  streams.set(stream, { decryptor: await createAttachmentDecryptor(pointer), busy: false });
+  return { stream };
+}
+
+/**
+ * Feed the next piece of ciphertext (in order) to a stream from
+ * `beginAttachmentDecrypt`. Returns the plaintext of the chunks it completed,
+ * each authenticated; the last chunk only comes from `finishAttachmentDecrypt`.
+ * A piece that fails to decrypt ends the stream.
+ */
+async function handleFeedAttachmentDecrypt(params: {
+  sid: string;
+  token: string;
+  stream: string;
+  ciphertext: ArrayBuffer;
+}): Promise<{ plaintext: ArrayBuffer }> {
+  const { sid, token, stream, ciphertext } = params;
+  const session = await requireCapability(sid, token);
+  const state = takeAttachmentDecrypt(session, stream);
+
+  try {
+    const parts: Uint8Array[] = [];
+    for await (const part of state.decryptor.push(new Uint8Array(ciphertext))) {
+      parts.push(part);
+    }
+    state.busy = false;
+    const plaintext = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      plaintext.set(part, offset);
+      offset += part.length;
+    }
+    return { plaintext: plaintext.buffer };
+  } catch (err) {
+    session.attachmentDecrypts?.delete(stream);
+    throw err;
+  }
+}
+
+/**
+ * End a stream from `beginAttachmentDecrypt`: returns the last chunk's
+ * plaintext once the whole ciphertext checks out against the sender's pointer.
+ */
+async function handleFinishAttachmentDecrypt(
+  params: { sid: string; token: string; stream: string },
+  requestId: string
+): Promise<{ plaintext: ArrayBuffer }> {
+  const { sid, token, stream } = params;
+  const session = await requireCapability(sid, token);
+  const state = takeAttachmentDecrypt(session, stream);
+  session.attachmentDecrypts?.delete(stream);
+
+  const last = await state.decryptor.finish();
+
+  await logOperation({
+    op: 'messaging.attachment.decrypt',
+    kid: `messaging:${session.userId}`,
+    requestId,
+    userId: session.userId,
+    details: { chunked: true },
+  });
+
+  return { plaintext: u8ToArrayBuffer(last) };
+}
+
+/** Claim an idle attachment decryption of `session` for one call. */
+function takeAttachmentDecrypt(session: MessagingSession, stream: string): AttachmentDecryptStream {
+  const state = session.attachmentDecrypts?.get(stream);
+  if (!state) {
+    throw new KMSError('NOT_FOUND', 'Attachment decrypt stream not found (finished, failed, or never begun)');
+  }
+  if (state.busy) {
+    throw new KMSError('CONFLICT', 'Attachment decrypt stream is already being fed');
+  }
+  state.busy = true;
+  return state;
+}
+
 // ============================================================================
 // Account Root Operations (secure-messaging §18) — full unlock required
 // ============================================================================
@@ -4049,7 +5491,7 @@ async function handleSetupAccountRoot(
   const result = await withUnlock(credentials, async (mkek) => {
     await ensureAuditKey(mkek);
     if (await hasAccountRoot(credentials.userId)) {
-      throw new Error('Account root already exists for this user');
+      throw new KMSError('CONFLICT', 'Account root already exists for this user');
     }
     const accountRoot = generateAccountRoot();
     const mnemonic = await accountRootToMnemonic(accountRoot);
@@ -4118,7 +5560,7 @@ async function handleImportWrappedAccountRoot(
     const store = createSignalProtocolStore(credentials.userId, messagingKEK);
     const identity = await store.getIdentityKeyPair();
     if (!identity) {
-      throw new Error('Messaging not set up for this user; call setupMessaging first');
+      throw new KMSError('NOT_SETUP', 'Messaging not set up for this user; call setupMessaging first');
     }
     const accountRoot = await unwrapAccountRootFromDevice(
       wrapped,
@@ -4156,7 +5598,7 @@ async function handleWrapAccountRootForDevice(
     await ensureAuditKey(mkek);
     const accountRoot = await loadAccountRoot(credentials.userId, mkek);
     if (!accountRoot) {
-      throw new Error('No account root on this device');
+      throw new KMSError('NOT_SETUP', 'No account root on this device');
     }
     const wrapped = await wrapAccountRootToDevice(
       accountRoot,
@@ -4201,7 +5643,7 @@ function u8ToArrayBuffer(u8: Uint8Array): ArrayBuffer {
 /** Small helper: the self-channel key/scope cached on the session, or throw. */
 function requireSelfChannel(session: MessagingSession): { selfKey: CryptoKey; selfScope: string } {
   if (!session.selfKey || !session.selfScope) {
-    throw new Error('No account root on this device; set up or import one first');
+    throw new KMSError('NOT_SETUP', 'No account root on this device; set up or import one first');
   }
   return { selfKey: session.selfKey, selfScope: session.selfScope };
 }
@@ -4211,6 +5653,8 @@ interface MasterIdentityMaterial {
   masterSigningPub: Uint8Array;
   masterEncryptionPub: Uint8Array;
   deviceCert: Uint8Array;
+  masterSigningKey: CryptoKey;
+  masterEncryptionKey: CryptoKey;
 }
 
 /**
@@ -4223,12 +5667,15 @@ async function deriveMasterIdentity(
   accountRoot: Uint8Array,
   deviceKeys: DeviceIdentityKeys
 ): Promise<MasterIdentityMaterial> {
-  const [masterSigningPub, masterEncryptionPub, deviceCert] = await Promise.all([
-    masterSigningPublicRaw(accountRoot),
-    masterEncryptionPublicRaw(accountRoot),
-    signDeviceCert(accountRoot, deviceKeys),
-  ]);
-  return { masterSigningPub, masterEncryptionPub, deviceCert };
+  const [masterSigningPub, masterEncryptionPub, deviceCert, masterSigningKey, masterEncryptionKey] =
+    await Promise.all([
+      masterSigningPublicRaw(accountRoot),
+      masterEncryptionPublicRaw(accountRoot),
+      signDeviceCert(accountRoot, deviceKeys),
+      deriveMasterSigningKey(accountRoot),
+      deriveMasterEncryptionKey(accountRoot),
+    ]);
+  return { masterSigningPub, masterEncryptionPub, deviceCert, masterSigningKey, masterEncryptionKey };
 }
 
 /** Cache derived master-identity material on the session (no-op when absent). */
@@ -4237,18 +5684,28 @@ function applyMasterIdentity(session: MessagingSession, m: MasterIdentityMateria
     session.masterSigningPub = m.masterSigningPub;
     session.masterEncryptionPub = m.masterEncryptionPub;
     session.deviceCert = m.deviceCert;
+    session.masterSigningKey = m.masterSigningKey;
+    session.masterEncryptionKey = m.masterEncryptionKey;
   }
 }
 
 /** The session's cached master-identity material, or throw (no account root). */
 function requireMasterIdentity(session: MessagingSession): MasterIdentityMaterial {
-  if (!session.masterSigningPub || !session.masterEncryptionPub || !session.deviceCert) {
-    throw new Error('No account root on this device; set up or import one first');
+  if (
+    !session.masterSigningPub ||
+    !session.masterEncryptionPub ||
+    !session.deviceCert ||
+    !session.masterSigningKey ||
+    !session.masterEncryptionKey
+  ) {
+    throw new KMSError('NOT_SETUP', 'No account root on this device; set up or import one first');
   }
   return {
     masterSigningPub: session.masterSigningPub,
     masterEncryptionPub: session.masterEncryptionPub,
     deviceCert: session.deviceCert,
+    masterSigningKey: session.masterSigningKey,
+    masterEncryptionKey: session.masterEncryptionKey,
   };
 }
 
@@ -4346,7 +5803,7 @@ async function handleGetDeviceCert(params: {
   const { deviceCert } = requireMasterIdentity(session);
   const identity = await getSignalIdentity(session.userId);
   if (!identity) {
-    throw new Error('Messaging not set up for this user');
+    throw new KMSError('NOT_SETUP', 'Messaging not set up for this user');
   }
   return {
     deviceCert: u8ToArrayBuffer(deviceCert),
@@ -4361,17 +5818,31 @@ async function handleGetDeviceCert(params: {
  * by `masterSigningPub` over exactly these device keys — i.e. the device provably
  * belongs to that identity. A pure public-key check, kept in the enclave so all
  * messaging crypto stays here. Session-gated; fails closed on any bad input.
+ *
+ * Naming the contact (`peerUserId`) also checks `masterSigningPub` against the
+ * trust ledger. Anyone can mint a master key and certify a device with it, so a
+ * different key marks the contact `changed` only with evidence: the certificate
+ * verifies, the device is not revoked, and its identity key is the one a Signal
+ * session with that contact already authenticated (§4). Otherwise the ledger is
+ * left alone. The resulting `trust` state is returned when the contact has an
+ * entry. And it checks the device against the contact's device roster (§2.4): a
+ * revoked device is never valid, whatever its certificate says. Every check is
+ * audited, so a contact moved to `changed` leaves an entry.
  */
-async function handleVerifyContactDevice(params: {
-  sid: string;
-  token: string;
-  masterSigningPub: ArrayBuffer;
-  identityKey: ArrayBuffer;
-  identitySigningKey: ArrayBuffer;
-  cert: ArrayBuffer;
-}): Promise<{ valid: boolean }> {
-  await requireCapability(params.sid, params.token);
-  const valid = await verifyDeviceCert(
+async function handleVerifyContactDevice(
+  params: {
+    sid: string;
+    token: string;
+    masterSigningPub: ArrayBuffer;
+    identityKey: ArrayBuffer;
+    identitySigningKey: ArrayBuffer;
+    cert: ArrayBuffer;
+    peerUserId?: string;
+  },
+  requestId: string
+): Promise<{ valid: boolean; revoked?: true; trust?: ContactTrustState }> {
+  const session = await requireCapability(params.sid, params.token);
+  const certified = await verifyDeviceCert(
     new Uint8Array(params.masterSigningPub),
     {
       identityKey: new Uint8Array(params.identityKey),
@@ -4379,70 +5850,416 @@ async function handleVerifyContactDevice(params: {
     },
     new Uint8Array(params.cert)
   );
-  return { valid };
-}
+  const { result, changed } = await checkContactDevice(session.userId, params, certified);
 
-// ============================================================================
-// Pairing / Contact Operations (secure-messaging §5/§6) — messaging capability
-// ============================================================================
+  await logOperation({
+    op: 'messaging.contact.verifyDevice',
+    kid: `messaging:${session.userId}`,
+    requestId,
+    userId: session.userId,
+    details: { ...(params.peerUserId !== undefined && { peerUserId: params.peerUserId }), ...result, changed },
+  });
 
-/** Context labels domain-separating the two pairing-secret-keyed AEAD payloads. */
-const DEVICE_EXCHANGE_CONTEXT = 'device-exchange';
-const CONTACT_ANNOUNCEMENT_CONTEXT = 'contact-announcement';
+  return result;
+}
 
 /**
- * Serialize a self-channel contact announcement ({peerUserId, secret}). `identity`
- * is an OPAQUE, caller-supplied string (the PWA's serialized trust-ledger entry —
- * the peer's public master keys + fingerprint); the enclave carries it verbatim so
- * a propagated/restored contact gets a consistent safety number. It rides inside
- * the self-key-encrypted payload, so it stays confidential to the account's devices.
+ * The roster and ledger half of {@link handleVerifyContactDevice}: the verdict on
+ * a device whose certificate check gave `certified`, and whether it just moved
+ * the contact to `changed`.
  */
-function encodeContactAnnouncement(peerUserId: string, secret: Uint8Array, identity?: string): Uint8Array {
-  const obj: { peerUserId: string; secret: string; identity?: string } = {
-    peerUserId,
-    secret: arrayBufferToBase64url(u8ToArrayBuffer(secret)),
-  };
-  if (identity !== undefined) obj.identity = identity;
-  return new TextEncoder().encode(JSON.stringify(obj));
+async function checkContactDevice(
+  userId: string,
+  params: { masterSigningPub: ArrayBuffer; identityKey: ArrayBuffer; peerUserId?: string },
+  certified: boolean
+): Promise<{ result: { valid: boolean; revoked?: true; trust?: ContactTrustState }; changed: boolean }> {
+  if (params.peerUserId === undefined) {
+    return { result: { valid: certified }, changed: false };
+  }
+  const revoked = await isRevokedDevice(userId, params.peerUserId, new Uint8Array(params.identityKey));
+  const verdict: { valid: boolean; revoked?: true } = revoked ? { valid: false, revoked } : { valid: certified };
+  const record = await getContactTrust(userId, params.peerUserId);
+  if (!record) {
+    return { result: verdict, changed: false };
+  }
+  if (
+    record.msk !== arrayBufferToBase64url(params.masterSigningPub) &&
+    certified &&
+    !revoked &&
+    (await hasSessionIdentity(userId, params.peerUserId, new Uint8Array(params.identityKey)))
+  ) {
+    await markContactChanged(userId, params.peerUserId);
+    return { result: { ...verdict, trust: 'changed' }, changed: record.state !== 'changed' };
+  }
+  return { result: { ...verdict, trust: record.state }, changed: false };
 }
 
-function decodeContactAnnouncement(bytes: Uint8Array): {
-  peerUserId: string;
-  secret: Uint8Array;
-  identity?: string;
-} {
-  const obj = JSON.parse(new TextDecoder().decode(bytes)) as {
-    peerUserId?: unknown;
-    secret?: unknown;
-    identity?: unknown;
-  };
-  if (typeof obj.peerUserId !== 'string' || typeof obj.secret !== 'string') {
-    throw new Error('Malformed contact announcement');
-  }
-  const out: { peerUserId: string; secret: Uint8Array; identity?: string } = {
-    peerUserId: obj.peerUserId,
-    secret: new Uint8Array(base64urlToArrayBuffer(obj.secret)),
-  };
-  if (typeof obj.identity === 'string') out.identity = obj.identity;
-  return out;
+/** Whether a Signal session with one of `peerUserId`'s devices recorded this identity key. */
+async function hasSessionIdentity(userId: string, peerUserId: string, identityKey: Uint8Array): Promise<boolean> {
+  const deviceId = rosterDeviceId(identityKey);
+  const known = await getSignalTrustedIdentities(userId);
+  return known.some(
+    (record) =>
+      addressName(record.peerAddress) === peerUserId &&
+      rosterDeviceId(new Uint8Array(record.identityPubKey)) === deviceId
+  );
 }
 
-/** Load a contact's pairing secret or throw a clear error. */
-async function requireContactSecret(
-  userId: string,
-  peerUserId: string,
-  messagingKEK: CryptoKey
-): Promise<Uint8Array> {
-  const secret = await loadContactSecret(userId, peerUserId, messagingKEK);
-  if (!secret) {
-    throw new Error(`No pairing secret for contact ${peerUserId}`);
+/**
+ * Our side and the peer's side of a safety number. The peer's keys are the ones
+ * passed in, or else the ones in the trust ledger; `keys` echoes them (base64url)
+ * for recording a verdict.
+ */
+async function safetyPair(
+  session: MessagingSession,
+  params: { peerUserId: string; masterSigningPub?: ArrayBuffer; masterEncryptionPub?: ArrayBuffer }
+): Promise<{ ours: SafetyIdentity; theirs: SafetyIdentity; keys: ContactKeys }> {
+  const { masterSigningPub, masterEncryptionPub } = requireMasterIdentity(session);
+  if (params.peerUserId === session.userId) {
+    throw new ValidationError('A safety number compares two different accounts');
   }
-  return secret;
+  let keys: ContactKeys;
+  if (params.masterSigningPub && params.masterEncryptionPub) {
+    keys = {
+      msk: arrayBufferToBase64url(params.masterSigningPub),
+      mek: arrayBufferToBase64url(params.masterEncryptionPub),
+    };
+  } else {
+    const record = await getContactTrust(session.userId, params.peerUserId);
+    if (!record) {
+      throw new KMSError('NOT_FOUND', `No master keys on record for contact ${params.peerUserId}`);
+    }
+    keys = { msk: record.msk, mek: record.mek };
+  }
+  return {
+    ours: { uid: session.userId, msk: masterSigningPub, mek: masterEncryptionPub },
+    theirs: {
+      uid: params.peerUserId,
+      msk: new Uint8Array(base64urlToArrayBuffer(keys.msk)),
+      mek: new Uint8Array(base64urlToArrayBuffer(keys.mek)),
+    },
+    keys,
+  };
 }
 
 /**
- * Store a contact's pairing secret (from a QR / word-pair, supplied by the PWA at
- * pairing time) and return the derived scope. Overwrites any existing record.
+ * Return the safety number between this account and a contact (rooms-and-trust
+ * §4) — over the master keys given, or those in the trust ledger: the symmetric
+ * digits plus the emoji and word renderings, and the text of our side's QR.
+ * Public values only — session-gated, no unlock. The PWA may show these
+ * anywhere; marking the contact verified goes through {@link handleVerifySafetyNumber}.
+ */
+async function handleGetSafetyNumber(params: {
+  sid: string;
+  token: string;
+  peerUserId: string;
+  masterSigningPub?: ArrayBuffer;
+  masterEncryptionPub?: ArrayBuffer;
+}): Promise<SafetyNumber> {
+  const session = await requireCapability(params.sid, params.token);
+  const { ours, theirs } = await safetyPair(session, params);
+  return computeSafetyNumber(ours, theirs);
+}
+
+/**
+ * Run the safety-number ceremony in the enclave popup (rooms-and-trust §4). The
+ * popup shows our safety number and QR; the user either scans the peer's QR —
+ * verified iff it names exactly this pair ({@link checkSafetyQr}) — or compares
+ * the digits/emoji/words by eye and answers. The verdict comes from the popup,
+ * never the PWA. Cancel/timeout rejects; a mismatch resolves `verified: false`.
+ *
+ * The verdict lands in the trust ledger: a match records the compared keys as
+ * `verified`; a mismatch withdraws an earlier verification of them.
+ */
+async function handleVerifySafetyNumber(
+  params: {
+    sid: string;
+    token: string;
+    peerUserId: string;
+    masterSigningPub?: ArrayBuffer;
+    masterEncryptionPub?: ArrayBuffer;
+  },
+  requestId: string
+): Promise<{ verified: boolean; method: 'qr' | 'manual'; trust: ContactTrustState }> {
+  const session = await requireCapability(params.sid, params.token);
+  const { ours, theirs, keys } = await safetyPair(session, params);
+  const safety = await computeSafetyNumber(ours, theirs);
+
+  const outcome = await showSafetyNumberInPopup(requestId, params.peerUserId, safety);
+  const verified = outcome.method === 'qr' ? await checkSafetyQr(outcome.text, ours, theirs) : outcome.match;
+  const record = await setContactVerification(session.userId, params.peerUserId, keys, verified);
+  const trust = record?.state ?? 'unverified';
+
+  await logOperation({
+    op: 'messaging.safety.verify',
+    kid: `messaging:${session.userId}`,
+    requestId,
+    userId: session.userId,
+    details: { peerUserId: params.peerUserId, method: outcome.method, verified, trust },
+  });
+
+  return { verified, method: outcome.method, trust };
+}
+
+// ============================================================================
+// Device rosters — publish, revoke, and learn revocations (rooms §2.4)
+// ============================================================================
+
+/** Self-channel context label for a device-roster announcement. */
+const DEVICE_ROSTER_CONTEXT = 'device-roster';
+
+/** This device's Signal identity keys, or throw if messaging is not set up. */
+async function requireDeviceKeys(userId: string): Promise<DeviceIdentityKeys> {
+  const identity = await getSignalIdentity(userId);
+  if (!identity) {
+    throw new KMSError('NOT_SETUP', 'Messaging not set up for this user');
+  }
+  return {
+    identityKey: new Uint8Array(identity.identityPubKey),
+    identitySigningKey: new Uint8Array(identity.identitySigningPubKey),
+  };
+}
+
+/**
+ * Return the account's newest device roster in its signed wire form, for the
+ * PWA to hand to contacts (alongside the device-key exchange). Public data.
+ */
+async function handleGetDeviceRoster(params: {
+  sid: string;
+  token: string;
+}): Promise<{ version: number; roster: ArrayBuffer }> {
+  const session = await requireCapability(params.sid, params.token);
+  const held = await loadDeviceRoster(session.userId, session.userId);
+  if (!held) {
+    throw new KMSError('NOT_FOUND', 'No device roster published for this account');
+  }
+  return { version: held.roster.version, roster: held.signed };
+}
+
+/**
+ * Issue the account's next device roster (rooms-and-trust §2.4): this device plus
+ * `add` as current devices, `revoke` moved to the revoked list, signed with the
+ * master signing key one version above the roster held. Each added device must
+ * present a certificate from this account's master. A device cannot revoke
+ * itself; a revoked device cannot be re-added.
+ *
+ * Returns the signed roster (for contacts) and the same roster sealed for the
+ * self-channel (for the account's other devices, see {@link handleApplyDeviceRoster}).
+ */
+async function handleUpdateDeviceRoster(
+  params: {
+    sid: string;
+    token: string;
+    add?: Array<{ identityKey: ArrayBuffer; identitySigningKey: ArrayBuffer; cert: ArrayBuffer }>;
+    revoke?: ArrayBuffer[];
+  },
+  requestId: string
+): Promise<{ version: number; roster: ArrayBuffer; announcement: ArrayBuffer }> {
+  const session = await requireCapability(params.sid, params.token);
+  const { masterSigningPub, masterSigningKey } = requireMasterIdentity(session);
+  const { selfKey } = requireSelfChannel(session);
+  const userId = session.userId;
+  const self = await requireDeviceKeys(userId);
+
+  const add: DeviceIdentityKeys[] = [self];
+  for (const device of params.add ?? []) {
+    const keys = {
+      identityKey: new Uint8Array(device.identityKey),
+      identitySigningKey: new Uint8Array(device.identitySigningKey),
+    };
+    if (!(await verifyDeviceCert(masterSigningPub, keys, new Uint8Array(device.cert)))) {
+      throw new ValidationError('Device certificate does not verify under this account');
+    }
+    add.push(keys);
+  }
+  const revoke = (params.revoke ?? []).map((key) => new Uint8Array(key));
+  if (revoke.some((key) => rosterDeviceId(key) === rosterDeviceId(self.identityKey))) {
+    throw new ValidationError('A device cannot revoke itself');
+  }
+
+  return withKeyedLock(`roster:${userId}`, async () => {
+    const held = await loadDeviceRoster(userId, userId);
+    const roster = nextDeviceRoster(held?.roster ?? null, userId, { add, revoke });
+    const signed = await signDeviceRoster(roster, masterSigningKey);
+    await storeDeviceRoster(userId, roster, u8ToArrayBuffer(signed));
+    const announcement = await encryptSelfMessage(selfKey, signed, DEVICE_ROSTER_CONTEXT);
+
+    await logOperation({
+      op: 'messaging.roster.update',
+      kid: `messaging:${userId}`,
+      requestId,
+      userId,
+      details: {
+        version: roster.version,
+        devices: roster.devices.length,
+        revoked: roster.revoked.length,
+        newlyRevoked: roster.revoked.length - (held?.roster.revoked.length ?? 0),
+      },
+    });
+
+    return { version: roster.version, roster: u8ToArrayBuffer(signed), announcement: u8ToArrayBuffer(announcement) };
+  });
+}
+
+/**
+ * Apply a roster another device of this account published on the self-channel.
+ * It must verify under our own master key and is kept only if newer than the
+ * roster held. `revoked` tells the PWA this very device has been revoked — it
+ * should sign out and wipe its local state.
+ */
+async function handleApplyDeviceRoster(
+  params: { sid: string; token: string; ciphertext: ArrayBuffer },
+  requestId: string
+): Promise<{ version: number; applied: boolean; revoked: boolean }> {
+  const session = await requireCapability(params.sid, params.token);
+  const { masterSigningPub } = requireMasterIdentity(session);
+  const { selfKey } = requireSelfChannel(session);
+  const userId = session.userId;
+
+  const signed = await decryptSelfMessage(selfKey, params.ciphertext, DEVICE_ROSTER_CONTEXT);
+  const roster = await openDeviceRoster(signed, masterSigningPub);
+  if (roster.uid !== userId) {
+    throw new ValidationError('Device roster is for another account');
+  }
+  const applied = await withKeyedLock(`roster:${userId}`, () =>
+    storeDeviceRoster(userId, roster, u8ToArrayBuffer(signed))
+  );
+  const revoked = await isRevokedDevice(userId, userId, (await requireDeviceKeys(userId)).identityKey);
+
+  await logOperation({
+    op: 'messaging.roster.apply',
+    kid: `messaging:${userId}`,
+    requestId,
+    userId,
+    details: { version: roster.version, applied, revoked },
+  });
+
+  return { version: roster.version, applied, revoked };
+}
+
+/**
+ * Import a contact's signed roster (received over the pair-topic). It must
+ * verify under the master signing key the trust ledger holds for that contact,
+ * and is kept only if newer than the roster held; from then on the contact's
+ * revoked devices fail {@link handleVerifyContactDevice} and get no envelopes
+ * from {@link handleBuildBundle}.
+ */
+async function handleImportContactRoster(
+  params: { sid: string; token: string; peerUserId: string; roster: ArrayBuffer },
+  requestId: string
+): Promise<{ version: number; applied: boolean }> {
+  const session = await requireCapability(params.sid, params.token);
+  const userId = session.userId;
+  const record = await getContactTrust(userId, params.peerUserId);
+  if (!record) {
+    throw new KMSError('NOT_FOUND', `No master keys on record for contact ${params.peerUserId}`);
+  }
+  const roster = await openDeviceRoster(
+    new Uint8Array(params.roster),
+    new Uint8Array(base64urlToArrayBuffer(record.msk))
+  );
+  if (roster.uid !== params.peerUserId) {
+    throw new ValidationError('Device roster is for another account');
+  }
+  const applied = await withKeyedLock(`roster:${userId}`, () => storeDeviceRoster(userId, roster, params.roster));
+
+  await logOperation({
+    op: 'messaging.roster.import',
+    kid: `messaging:${userId}`,
+    requestId,
+    userId,
+    details: { peerUserId: params.peerUserId, version: roster.version, applied, revoked: roster.revoked.length },
+  });
+
+  return { version: roster.version, applied };
+}
+
+// ============================================================================
+// Pairing / Contact Operations (secure-messaging §5/§6) — messaging capability
+// ============================================================================
+
+/** Context labels domain-separating the two pairing-secret-keyed AEAD payloads. */
+const DEVICE_EXCHANGE_CONTEXT = 'device-exchange';
+const CONTACT_ANNOUNCEMENT_CONTEXT = 'contact-announcement';
+
+/** A trust-ledger entry as carried between the account's own devices. */
+type AnnouncedTrust = ContactKeys & { state: ContactTrustState };
+
+const TRUST_STATES: readonly ContactTrustState[] = ['unverified', 'verified', 'changed'];
+
+/**
+ * Serialize a self-channel contact announcement ({peerUserId, secret}). `identity`
+ * is an OPAQUE, caller-supplied string (e.g. the PWA's display data for the peer);
+ * the enclave carries it verbatim. `trust` is this device's ledger entry for the
+ * peer (§4), so the account's other devices hold the same keys and verification
+ * state. Both ride inside the self-key-encrypted payload, so they stay
+ * confidential to the account's devices.
+ */
+function encodeContactAnnouncement(
+  peerUserId: string,
+  secret: Uint8Array,
+  identity?: string,
+  trust?: AnnouncedTrust
+): Uint8Array {
+  const obj: { peerUserId: string; secret: string; identity?: string; trust?: AnnouncedTrust } = {
+    peerUserId,
+    secret: arrayBufferToBase64url(u8ToArrayBuffer(secret)),
+  };
+  if (identity !== undefined) obj.identity = identity;
+  if (trust !== undefined) obj.trust = trust;
+  return new TextEncoder().encode(JSON.stringify(obj));
+}
+
+function decodeContactAnnouncement(bytes: Uint8Array): {
+  peerUserId: string;
+  secret: Uint8Array;
+  identity?: string;
+  trust?: AnnouncedTrust;
+} {
+  const obj = JSON.parse(new TextDecoder().decode(bytes)) as {
+    peerUserId?: unknown;
+    secret?: unknown;
+    identity?: unknown;
+    trust?: { msk?: unknown; mek?: unknown; state?: unknown };
+  };
+  if (typeof obj.peerUserId !== 'string' || typeof obj.secret !== 'string') {
+    throw new ValidationError('Malformed contact announcement');
+  }
+  const out: { peerUserId: string; secret: Uint8Array; identity?: string; trust?: AnnouncedTrust } = {
+    peerUserId: obj.peerUserId,
+    secret: new Uint8Array(base64urlToArrayBuffer(obj.secret)),
+  };
+  if (typeof obj.identity === 'string') out.identity = obj.identity;
+  if (obj.trust !== undefined) {
+    const { msk, mek, state } = obj.trust;
+    if (
+      typeof msk !== 'string' ||
+      typeof mek !== 'string' ||
+      !TRUST_STATES.includes(state as ContactTrustState)
+    ) {
+      throw new ValidationError('Malformed contact announcement');
+    }
+    out.trust = { msk, mek, state: state as ContactTrustState };
+  }
+  return out;
+}
+
+/** Load a contact's pairing secret or throw a clear error. */
+async function requireContactSecret(
+  userId: string,
+  peerUserId: string,
+  messagingKEK: CryptoKey
+): Promise<Uint8Array> {
+  const secret = await loadContactSecret(userId, peerUserId, messagingKEK);
+  if (!secret) {
+    throw new KMSError('NOT_FOUND', `No pairing secret for contact ${peerUserId}`);
+  }
+  return secret;
+}
+
+/**
+ * Store a contact's pairing secret (from a QR / word-pair, supplied by the PWA at
+ * pairing time) and return the derived scope. Overwrites any existing record.
  */
 async function handleSetContactSecret(
   params: { sid: string; token: string; peerUserId: string; secret: ArrayBuffer },
@@ -4475,18 +6292,27 @@ async function handleGetContactScope(params: {
   return { scope: await deriveScope(secret) };
 }
 
-/** List every contact's {peerUserId, scope} — for subscribing all topics on connect. */
-async function handleListContacts(params: {
-  sid: string;
-  token: string;
-}): Promise<{ contacts: Array<{ peerUserId: string; scope: string }> }> {
+/**
+ * List every contact's {peerUserId, scope} — for subscribing all topics on
+ * connect — with its trust state from the enclave's ledger (§4), and the
+ * fingerprint of the master keys on record. A contact with no ledger entry (paired
+ * by a bare secret) is `unverified`.
+ */
+async function handleListContacts(params: { sid: string; token: string }): Promise<{ contacts: ContactInfo[] }> {
   const session = await requireCapability(params.sid, params.token);
   const peers = await listContactPeers(session.userId);
-  const contacts: Array<{ peerUserId: string; scope: string }> = [];
+  const ledger = new Map((await listContactTrust(session.userId)).map((r) => [r.peerUserId, r]));
+  const contacts: ContactInfo[] = [];
   for (const peerUserId of peers) {
     const secret = await loadContactSecret(session.userId, peerUserId, session.messagingKEK);
     if (secret) {
-      contacts.push({ peerUserId, scope: await deriveScope(secret) });
+      const record = ledger.get(peerUserId);
+      contacts.push({
+        peerUserId,
+        scope: await deriveScope(secret),
+        trust: record?.state ?? 'unverified',
+        ...(record && { fingerprint: await cardFingerprint(record) }),
+      });
     }
   }
   return { contacts };
@@ -4540,9 +6366,10 @@ async function handleOpenDeviceExchange(
 
 /**
  * Seal a contact for propagation to the account's OTHER devices over the
- * self-channel: read the stored pairing secret and seal {peerUserId, secret}
- * under the account self-key. The PWA publishes the opaque result to the
- * self-channel; only this account's enclaves can open it.
+ * self-channel: read the stored pairing secret (and the contact's trust-ledger
+ * entry, if any) and seal {peerUserId, secret, trust} under the account self-key.
+ * The PWA publishes the opaque result to the self-channel; only this account's
+ * enclaves can open it.
  */
 async function handleSealContactAnnouncement(
   params: { sid: string; token: string; peerUserId: string; identity?: string },
@@ -4551,7 +6378,13 @@ async function handleSealContactAnnouncement(
   const session = await requireCapability(params.sid, params.token);
   const { selfKey } = requireSelfChannel(session);
   const secret = await requireContactSecret(session.userId, params.peerUserId, session.messagingKEK);
-  const payload = encodeContactAnnouncement(params.peerUserId, secret, params.identity);
+  const record = await getContactTrust(session.userId, params.peerUserId);
+  const payload = encodeContactAnnouncement(
+    params.peerUserId,
+    secret,
+    params.identity,
+    record ? { msk: record.msk, mek: record.mek, state: record.state } : undefined
+  );
   const out = await encryptSelfMessage(selfKey, payload, CONTACT_ANNOUNCEMENT_CONTEXT);
 
   await logOperation({
@@ -4567,19 +6400,22 @@ async function handleSealContactAnnouncement(
 
 /**
  * Apply a self-channel contact announcement from another of the account's
- * devices: open it under the self-key, store the pairing secret locally, and
- * return {peerUserId, scope} so the PWA can subscribe to the new topic.
+ * devices: open it under the self-key, store the pairing secret locally, merge
+ * the announced trust-ledger entry into ours (keys that differ from ours still
+ * mark the contact `changed`), and return {peerUserId, scope} so the PWA can
+ * subscribe to the new topic.
  */
 async function handleApplyContactAnnouncement(
   params: { sid: string; token: string; ciphertext: ArrayBuffer },
   requestId: string
-): Promise<{ peerUserId: string; scope: string; identity?: string }> {
+): Promise<{ peerUserId: string; scope: string; identity?: string; trust?: ContactTrustState }> {
   const session = await requireCapability(params.sid, params.token);
   const { selfKey } = requireSelfChannel(session);
   const bytes = await decryptSelfMessage(selfKey, params.ciphertext, CONTACT_ANNOUNCEMENT_CONTEXT);
-  const { peerUserId, secret, identity } = decodeContactAnnouncement(bytes);
+  const { peerUserId, secret, identity, trust } = decodeContactAnnouncement(bytes);
   await storeContactSecret(session.userId, peerUserId, secret, session.messagingKEK);
   const scope = await deriveScope(secret);
+  const record = trust ? await recordContactIdentity(session.userId, peerUserId, trust, trust.state) : null;
 
   await logOperation({
     op: 'messaging.contact.applyAnnounce',
@@ -4589,8 +6425,12 @@ async function handleApplyContactAnnouncement(
     details: { peer: peerUserId },
   });
 
-  const out: { peerUserId: string; scope: string; identity?: string } = { peerUserId, scope };
+  const out: { peerUserId: string; scope: string; identity?: string; trust?: ContactTrustState } = {
+    peerUserId,
+    scope,
+  };
   if (identity !== undefined) out.identity = identity;
+  if (record) out.trust = record.state;
   return out;
 }
 
@@ -4610,8 +6450,8 @@ function sessionCard(session: MessagingSession, name?: string): InviteCard {
   return card;
 }
 
-/** Compute the master-key fingerprint (§4) of an identity card. */
-async function cardFingerprint(card: InviteCard): Promise<string> {
+/** Compute the master-key fingerprint (§4) of an identity card (or ledger entry). */
+async function cardFingerprint(card: ContactKeys): Promise<string> {
   return identityFingerprint(
     new Uint8Array(base64urlToArrayBuffer(card.msk)),
     new Uint8Array(base64urlToArrayBuffer(card.mek))
@@ -4635,33 +6475,84 @@ async function toConnectPeer(card: InviteCard): Promise<ConnectPeer> {
  * wrapped so it survives the app closing), and DISPLAY the blob in the enclave
  * popup. The blob carries the secret and reaches ONLY the popup; the PWA gets
  * back just the (public) `inviteId` + `scope` to subscribe on.
+ *
+ * A `room` invite (rooms §3.3) is reusable and admits to a room we administer —
+ * `roomId`, or a new room (named `roomName`) created with us as its only admin.
+ * Its secret only seals join announcements; the room secret itself reaches each
+ * joiner in a room-key update once the join is approved.
  */
 async function handleMintInvite(
-  params: { sid: string; token: string; nameHint?: string; ttlMs?: number; singleUse?: boolean },
+  params: {
+    sid: string;
+    token: string;
+    nameHint?: string;
+    ttlMs?: number;
+    singleUse?: boolean;
+    type?: InviteType;
+    roomId?: string;
+    roomName?: string;
+  },
   requestId: string
-): Promise<{ inviteId: string; scope: string }> {
+): Promise<{ inviteId: string; scope: string; roomId?: string }> {
   const session = await requireCapability(params.sid, params.token);
   const card = sessionCard(session, params.nameHint);
-  const secret = generateRoomSecret();
-  const scope = await deriveScope(secret);
-  const inviteId = crypto.randomUUID();
-  const singleUse = params.singleUse ?? true;
+  const type = params.type ?? 'connect-1:1';
+  // Room invites are reusable: the same link admits every member the admin approves.
+  const singleUse = type === 'room' ? false : (params.singleUse ?? true);
   // exactOptionalPropertyTypes: only carry expiresAt when a TTL was given.
   const withExpiry = params.ttlMs !== undefined ? { expiresAt: Date.now() + params.ttlMs } : {};
 
-  const blob = encodeInvite(buildConnectInvite(card, secret, { singleUse, ...withExpiry }));
+  let room: RoomInfo | undefined;
+  let createdRoom = false;
+  if (type === 'room') {
+    if (params.roomId !== undefined) {
+      room = await requireRoomAdmin(session, params.roomId);
+    } else {
+      const roomId = crypto.randomUUID();
+      const created: RoomInfo = { roomId, epoch: 0, members: [] };
+      if (params.roomName !== undefined) created.name = params.roomName;
+      await withKeyedLock(roomLockKey(session.userId, roomId), () =>
+        rekeyRoom(session, created, [cardToMember(card, 'admin')])
+      );
+      room = created;
+      createdRoom = true;
+    }
+  }
+
+  const secret = generateRoomSecret();
+  const scope = await deriveScope(secret);
+  const inviteId = crypto.randomUUID();
+  const payload = room
+    ? buildRoomInvite(
+        card,
+        secret,
+        { roomId: room.roomId, ...(room.name !== undefined && { name: room.name }) },
+        withExpiry
+      )
+    : buildConnectInvite(card, secret, { singleUse, ...withExpiry });
+  const blob = encodeInvite(payload);
   await storeInvite(
-    { userId: session.userId, inviteId, secret, scope, type: 'connect-1:1', singleUse, ...withExpiry },
+    {
+      userId: session.userId,
+      inviteId,
+      secret,
+      scope,
+      type,
+      singleUse,
+      ...(room && { roomId: room.roomId }),
+      ...withExpiry,
+    },
     session.messagingKEK
   );
   secret.fill(0);
 
   // Display the (secret-bearing) blob in the popup. If the user cancels/times out,
-  // don't leave an orphaned armed invite behind.
+  // don't leave an orphaned armed invite (or a room nobody can join) behind.
   try {
     await showInviteInPopup(requestId, blob);
   } catch (err) {
     await deleteMessagingInvite(inviteId);
+    if (createdRoom && room) await deleteMessagingRoom(session.userId, room.roomId);
     throw err;
   }
 
@@ -4670,22 +6561,28 @@ async function handleMintInvite(
     kid: `messaging:${session.userId}`,
     requestId,
     userId: session.userId,
-    details: { inviteId, singleUse, hasExpiry: params.ttlMs !== undefined },
+    details: {
+      inviteId,
+      type,
+      singleUse,
+      hasExpiry: params.ttlMs !== undefined,
+      ...(room && { roomId: room.roomId, createdRoom }),
+    },
   });
-  return { inviteId, scope };
+  return { inviteId, scope, ...(room && { roomId: room.roomId }) };
 }
 
 /**
  * Accept a Connect invite (rooms §3.2/§3.4): the popup collects + confirms the
  * blob (its secret never touches the PWA), then we store the shared secret as a
- * contact and seal OUR identity announcement for the minter. Returns the (public)
- * peer card + fingerprint for the trust ledger and the opaque sealed announcement
- * for the PWA to publish on `dm:<scope>`.
+ * contact, record the peer's keys in the trust ledger, and seal OUR identity
+ * announcement for the minter. Returns the (public) peer card + fingerprint + trust
+ * state and the opaque sealed announcement for the PWA to publish on `dm:<scope>`.
  */
 async function handleAcceptInvite(
   params: { sid: string; token: string; nameHint?: string },
   requestId: string
-): Promise<{ scope: string; peer: ConnectPeer; announcement: ArrayBuffer }> {
+): Promise<{ scope: string; peer: ConnectPeer; announcement: ArrayBuffer; roomId?: string }> {
   const session = await requireCapability(params.sid, params.token);
   const myCard = sessionCard(session, params.nameHint); // requires our master identity
 
@@ -4694,14 +6591,39 @@ async function handleAcceptInvite(
   if (payload.card.uid === session.userId) {
     // Accepting your OWN invite would bind you to yourself (rooms §3.4). This also
     // catches the common "pasted the wrong/stale link" case with a clear error.
-    throw new Error('You cannot accept your own invite link');
+    throw new ValidationError('You cannot accept your own invite link');
   }
   if (isInviteExpired(payload, Date.now())) {
-    throw new Error('This invite has expired');
+    throw new KMSError('EXPIRED', 'This invite has expired');
   }
   const secret = roomSecretFromB64url(payload.s);
   const scope = await deriveScope(secret);
-  await storeContactSecret(session.userId, payload.card.uid, secret, session.messagingKEK);
+  const roomId = payload.t === 'room' ? payload.r : undefined;
+  let trust: ContactTrustState | undefined;
+  if (roomId !== undefined) {
+    // A room invite's secret only seals our announcement. Remember the inviting
+    // admin (rooms §3.3): only a room key signed by them can complete the join.
+    await withKeyedLock(roomLockKey(session.userId, roomId), async () => {
+      const existing = await getRoomInfo(session.userId, roomId);
+      if (existing && existing.epoch > 0) {
+        throw new KMSError('CONFLICT', 'You are already a member of this room');
+      }
+      await storeRoom(
+        {
+          userId: session.userId,
+          roomId,
+          ...(payload.rn !== undefined && { name: payload.rn }),
+          epoch: 0,
+          members: [cardToMember(payload.card, 'admin')],
+        },
+        null,
+        session.messagingKEK
+      );
+    });
+  } else {
+    await storeContactSecret(session.userId, payload.card.uid, secret, session.messagingKEK);
+    trust = (await recordContactIdentity(session.userId, payload.card.uid, payload.card)).state;
+  }
 
   const key = await deriveExchangeKey(secret);
   const sealed = await encryptSelfMessage(key, encodeAnnouncement(myCard), DEVICE_EXCHANGE_CONTEXT);
@@ -4712,9 +6634,14 @@ async function handleAcceptInvite(
     kid: `messaging:${session.userId}`,
     requestId,
     userId: session.userId,
-    details: { peer: payload.card.uid },
+    details: { peer: payload.card.uid, ...(roomId !== undefined && { roomId }) },
   });
-  return { scope, peer: await toConnectPeer(payload.card), announcement: u8ToArrayBuffer(sealed) };
+  return {
+    scope,
+    peer: { ...(await toConnectPeer(payload.card)), ...(trust !== undefined && { trust }) },
+    announcement: u8ToArrayBuffer(sealed),
+    ...(roomId !== undefined && { roomId }),
+  };
 }
 
 /**
@@ -4730,11 +6657,11 @@ async function handleOpenInviteJoin(
   const session = await requireCapability(params.sid, params.token);
   const loaded = await loadInvite(session.userId, params.inviteId, session.messagingKEK);
   if (!loaded) {
-    throw new Error('No such armed invite');
+    throw new KMSError('NOT_FOUND', 'No such armed invite');
   }
   if (loaded.meta.expiresAt !== undefined && Date.now() >= loaded.meta.expiresAt) {
     loaded.secret.fill(0);
-    throw new Error('This invite has expired');
+    throw new KMSError('EXPIRED', 'This invite has expired');
   }
   const key = await deriveExchangeKey(loaded.secret);
   loaded.secret.fill(0);
@@ -4771,29 +6698,49 @@ async function handleOpenInviteJoin(
  * replayed, and consumes a single-use invite (invalidating any other pending
  * approvals bound to it). Returns the channel `scope` + the bound `peerUserId` so
  * the PWA can finish the device-key exchange.
+ *
+ * Approving a join on a `room` invite instead adds the joiner to the room and
+ * moves it to a new epoch (rooms §3.3): `scope` is the room's new topic and `room`
+ * carries the room-key updates to deliver — the joiner's welcome among them.
  */
 async function handleApproveInviteJoin(
   params: { sid: string; token: string; approvalId: string },
   requestId: string
-): Promise<{ scope: string; peerUserId: string }> {
+): Promise<{ scope: string; peerUserId: string; room?: RoomRekey; trust?: ContactTrustState }> {
   const session = await requireCapability(params.sid, params.token);
   const pending = pendingJoinApprovals.get(params.approvalId);
   if (!pending || pending.userId !== session.userId) {
-    throw new Error('No such pending approval');
+    throw new KMSError('NOT_FOUND', 'No such pending approval');
   }
   if (Date.now() >= pending.expiresAt) {
     pendingJoinApprovals.delete(params.approvalId);
-    throw new Error('This approval has expired');
+    throw new KMSError('EXPIRED', 'This approval has expired');
   }
   const loaded = await loadInvite(session.userId, pending.inviteId, session.messagingKEK);
   if (!loaded) {
     pendingJoinApprovals.delete(params.approvalId);
-    throw new Error('No such armed invite');
+    throw new KMSError('NOT_FOUND', 'No such armed invite');
   }
   // Bind to the identity we opened — NOT a caller-supplied uid.
   const peerUserId = pending.card.uid;
-  await storeContactSecret(session.userId, peerUserId, loaded.secret, session.messagingKEK);
-  loaded.secret.fill(0);
+  const roomId = loaded.meta.roomId;
+  let room: RoomRekey | undefined;
+  let trust: ContactTrustState | undefined;
+  if (roomId !== undefined) {
+    loaded.secret.fill(0);
+    room = await withKeyedLock(roomLockKey(session.userId, roomId), async () => {
+      const info = await requireRoomAdmin(session, roomId);
+      const others = info.members.filter((m) => m.uid !== peerUserId);
+      if (others.length >= MAX_ROOM_MEMBERS) {
+        throw new KMSError('CONFLICT', `Room is full (${MAX_ROOM_MEMBERS} members)`);
+      }
+      return rekeyRoom(session, info, [...others, cardToMember(pending.card, 'member')]);
+    });
+  } else {
+    await storeContactSecret(session.userId, peerUserId, loaded.secret, session.messagingKEK);
+    loaded.secret.fill(0);
+    trust = (await recordContactIdentity(session.userId, peerUserId, pending.card)).state;
+  }
 
   // Consume the pending approval (no replay). Consume a single-use invite and drop
   // any other pending approvals bound to it (they now reference a gone invite).
@@ -4810,9 +6757,15 @@ async function handleApproveInviteJoin(
     kid: `messaging:${session.userId}`,
     requestId,
     userId: session.userId,
-    details: { inviteId: pending.inviteId, peer: peerUserId },
+    details: {
+      inviteId: pending.inviteId,
+      peer: peerUserId,
+      ...(room && { roomId: room.roomId, epoch: room.epoch }),
+    },
   });
-  return { scope: loaded.meta.scope, peerUserId };
+  return room
+    ? { scope: room.scope, peerUserId, room }
+    : { scope: loaded.meta.scope, peerUserId, ...(trust !== undefined && { trust }) };
 }
 
 /** Cancel one of our own armed invites (rooms §3.3), dropping its stored secret. */
@@ -4842,14 +6795,240 @@ async function handleListInvites(params: { sid: string; token: string }): Promis
   return { invites: await listInviteMeta(session.userId) };
 }
 
+// ============================================================================
+// Room handlers (rooms-and-trust §3.3)
+// ============================================================================
+
+/** Serialises membership changes per room, so concurrent rekeys cannot fork an epoch. */
+function roomLockKey(userId: string, roomId: string): string {
+  return `room:${userId}:${roomId}`;
+}
+
+/** An identity card → a room member with `role`, joining now. */
+function cardToMember(card: InviteCard, role: RoomRole): RoomMember {
+  const member: RoomMember = { uid: card.uid, msk: card.msk, mek: card.mek, role, joinedAt: Date.now() };
+  if (card.name) member.name = card.name;
+  return member;
+}
+
+/** The room, which this account must administer — or throw. */
+async function requireRoomAdmin(session: MessagingSession, roomId: string): Promise<RoomInfo> {
+  const room = await getRoomInfo(session.userId, roomId);
+  if (!room || room.epoch === 0) {
+    throw new KMSError('NOT_FOUND', 'No such room');
+  }
+  if (!room.members.some((m) => m.uid === session.userId && m.role === 'admin')) {
+    throw new KMSError('UNAUTHORIZED', 'Only a room admin can change its membership');
+  }
+  return room;
+}
+
+/**
+ * Move `room` to a fresh secret at the next epoch with `members`, persist it, and
+ * sign + seal the room-key update to every other member. Callers hold the room lock.
+ */
+async function rekeyRoom(session: MessagingSession, room: RoomInfo, members: RoomMember[]): Promise<RoomRekey> {
+  const { masterSigningKey } = requireMasterIdentity(session);
+  const secret = generateRoomSecret();
+  const epoch = room.epoch + 1;
+  const name = room.name !== undefined ? { name: room.name } : {};
+  try {
+    const roomKeys: RoomRekey['roomKeys'] = [];
+    for (const member of members) {
+      if (member.uid === session.userId) continue;
+      const roomKey = await sealRoomKey(
+        { roomId: room.roomId, epoch, secret, members, ...name },
+        { uid: session.userId, signingKey: masterSigningKey },
+        new Uint8Array(base64urlToArrayBuffer(member.mek))
+      );
+      roomKeys.push({ uid: member.uid, roomKey });
+    }
+    const stored = await storeRoom(
+      { userId: session.userId, roomId: room.roomId, epoch, members, ...name },
+      secret,
+      session.messagingKEK
+    );
+    return { roomId: room.roomId, epoch, scope: stored.scope as string, roomKeys };
+  } finally {
+    secret.fill(0);
+  }
+}
+
+/**
+ * Apply a room-key update an admin sealed to us (rooms §3.3): the welcome that
+ * completes a join accepted with acceptInvite, or a later rekey. It must be
+ * signed by an admin this device already knows for the room, move the room
+ * forward, and still list this account. Returns the room as it now stands.
+ */
+async function handleApplyRoomKey(
+  params: { sid: string; token: string; roomKey: ArrayBuffer },
+  requestId: string
+): Promise<RoomInfo> {
+  const session = await requireCapability(params.sid, params.token);
+  const { masterEncryptionKey, masterEncryptionPub } = requireMasterIdentity(session);
+  const signed = await openRoomKey(params.roomKey, { encryptionKey: masterEncryptionKey, mek: masterEncryptionPub });
+  const { update } = signed;
+
+  try {
+    const info = await withKeyedLock(roomLockKey(session.userId, update.roomId), async () => {
+      const room = await getRoomInfo(session.userId, update.roomId);
+      if (!room) {
+        throw new KMSError('NOT_FOUND', 'No such room');
+      }
+      await verifyRoomKey(signed, room.members);
+      if (update.epoch <= room.epoch) {
+        throw new KMSError('CONFLICT', `Stale room key (epoch ${update.epoch}, room is at ${room.epoch})`);
+      }
+      const mek = arrayBufferToBase64url(u8ToArrayBuffer(masterEncryptionPub));
+      if (!update.members.some((m) => m.uid === session.userId && m.mek === mek)) {
+        throw new ValidationError('Room key does not list this account as a member');
+      }
+      return storeRoom(
+        {
+          userId: session.userId,
+          roomId: update.roomId,
+          epoch: update.epoch,
+          members: update.members,
+          ...(update.name !== undefined && { name: update.name }),
+        },
+        update.secret,
+        session.messagingKEK
+      );
+    });
+
+    await logOperation({
+      op: 'messaging.room.key',
+      kid: `messaging:${session.userId}`,
+      requestId,
+      userId: session.userId,
+      details: { roomId: update.roomId, epoch: update.epoch, signer: signed.signer },
+    });
+    return info;
+  } finally {
+    update.secret.fill(0);
+  }
+}
+
+/** A room's epoch, topic and members (public data only). */
+async function handleListRoomMembers(params: { sid: string; token: string; roomId: string }): Promise<RoomInfo> {
+  const session = await requireCapability(params.sid, params.token);
+  const room = await getRoomInfo(session.userId, params.roomId);
+  if (!room) {
+    throw new KMSError('NOT_FOUND', 'No such room');
+  }
+  return room;
+}
+
+/**
+ * Remove a member from a room we administer and rotate the room secret in the
+ * same step, so the removed member cannot follow the room past this epoch.
+ * Returns the room-key updates for the remaining members.
+ */
+async function handleRemoveRoomMember(
+  params: { sid: string; token: string; roomId: string; memberUid: string },
+  requestId: string
+): Promise<RoomRekey> {
+  const session = await requireCapability(params.sid, params.token);
+  if (params.memberUid === session.userId) {
+    throw new ValidationError('A room admin cannot remove themselves');
+  }
+  const rekey = await withKeyedLock(roomLockKey(session.userId, params.roomId), async () => {
+    const room = await requireRoomAdmin(session, params.roomId);
+    if (!room.members.some((m) => m.uid === params.memberUid)) {
+      throw new KMSError('NOT_FOUND', 'No such room member');
+    }
+    return rekeyRoom(
+      session,
+      room,
+      room.members.filter((m) => m.uid !== params.memberUid)
+    );
+  });
+
+  await logOperation({
+    op: 'messaging.room.remove',
+    kid: `messaging:${session.userId}`,
+    requestId,
+    userId: session.userId,
+    details: { roomId: params.roomId, member: params.memberUid, epoch: rekey.epoch },
+  });
+  return rekey;
+}
+
+/** Rotate the secret of a room we administer, keeping its members. */
+async function handleRotateRoomSecret(
+  params: { sid: string; token: string; roomId: string },
+  requestId: string
+): Promise<RoomRekey> {
+  const session = await requireCapability(params.sid, params.token);
+  const rekey = await withKeyedLock(roomLockKey(session.userId, params.roomId), async () => {
+    const room = await requireRoomAdmin(session, params.roomId);
+    return rekeyRoom(session, room, room.members);
+  });
+
+  await logOperation({
+    op: 'messaging.room.rotate',
+    kid: `messaging:${session.userId}`,
+    requestId,
+    userId: session.userId,
+    details: { roomId: params.roomId, epoch: rekey.epoch },
+  });
+  return rekey;
+}
+
 // ============================================================================
 // Management Operations
 // ============================================================================
 
 /**
  * Reset KMS (delete all data). USE WITH CAUTION.
+ *
+ * Requires fresh credentials (proves the caller can unlock this KMS) and an
+ * explicit confirmation in the enclave popup. Before wiping, a final `reset`
+ * entry is appended to the audit chain, signed by the KIAK, and returned to the
+ * caller as a receipt — the chain itself does not survive the wipe. The fresh
+ * chain then opens with a `kms-init` entry that references the receipt's hash.
+ *
+ * Dev builds compiled with `__KMS_DEV_UNAUTHENTICATED_RESET__` keep the old
+ * credential-free wipe; production bundles compile that path out.
  */
-async function handleResetKMS(): Promise<{ success: true }> {
+async function handleResetKMS(
+  params: { credentials?: AuthCredentials },
+  requestId: string
+): Promise<{ success: true; auditEntry?: AuditEntryV2 }> {
+  const { credentials } = params;
+
+  if (!credentials) {
+    // Checked inline (not via a shared const) so esbuild folds the define and
+    // drops this block from production bundles.
+    if (typeof __KMS_DEV_UNAUTHENTICATED_RESET__ !== 'undefined' && __KMS_DEV_UNAUTHENTICATED_RESET__) {
+      console.warn('[KMS Worker] DEV build: unauthenticated resetKMS');
+      await clearAllStores();
+      resetAuditLogger();
+      return { success: true };
+    }
+    throw new ValidationError('resetKMS requires credentials');
+  }
+
+  // Fresh auth: fails with the usual unlock error if the credentials are wrong.
+  const unlockResult = await withUnlock(credentials, async () => Promise.resolve(true));
+
+  // Nothing is touched until the user confirms in the enclave popup.
+  await requireResetConfirmation(requestId, credentials.userId);
+
+  // Final entry of the old chain, signed by the instance key (KIAK) so the
+  // receipt verifies without any user key.
+  await ensureKIAK();
+  const auditEntry = await logOperation({
+    op: 'reset',
+    kid: '',
+    requestId,
+    userId: credentials.userId,
+    unlockTime: unlockResult.unlockTime,
+    lockTime: unlockResult.lockTime,
+    duration: unlockResult.duration,
+    details: { action: 'reset-kms' },
+  });
+
   // Wipe all user data by CLEARING every object store on the open connection, rather than
   // deleting the whole database.
   //
@@ -4864,13 +7043,245 @@ async function handleResetKMS(): Promise<{ success: true }> {
   // connections, wiping all data while keeping the current v4 schema.
   await clearAllStores();
 
-  // Reset in-memory audit state (seqCounter, auditKeyPair, etc.) so the next operation starts
-  // a fresh audit chain. We don't log the reset itself: the audit chain has just been wiped and
-  // no audit key exists yet (it requires the MKEK from credentials); the reset is implicitly
-  // recorded when the next operation creates a new chain.
+  // Reset in-memory audit state (seqCounter, auditKeyPair, etc.), then start the new chain
+  // exactly as worker init does on a fresh database: a new KIAK and a kms-init entry, here
+  // linked to the receipt so the two chains can be stitched together later.
   resetAuditLogger();
+  await ensureKIAK();
+  await logOperation({
+    op: 'kms-init',
+    kid: '',
+    requestId: `init-${Date.now()}`,
+    userId: 'system',
+    details: {
+      kmsVersion: 'v2.0.0',
+      timestamp: new Date().toISOString(),
+      note: 'KMS reset, new audit chain',
+      previousChainHash: auditEntry.chainHash,
+    },
+  });
 
-  return { success: true };
+  return { success: true, auditEntry };
+}
+
+/**
+ * Read an account's passphrase / passkey-PRF enrolments: the unlock slots a
+ * backup archive carries.
+ */
+async function loadUnlockEnrollments(userId: string): Promise<UnlockEnrollments> {
+  const passphrase = await getMeta<PassphraseConfigV2>(`enrollment:passphrase:v2:${userId}`);
+  const passkeyPrf = await getMeta<PasskeyPRFConfigV2>(`enrollment:passkey-prf:v2:${userId}`);
+  return {
+    ...(passphrase ? { passphrase } : {}),
+    ...(passkeyPrf ? { passkeyPrf } : {}),
+  };
+}
+
+/**
+ * Whether this KMS holds enrolments for any account other than `userId`.
+ * Backups and Master Secret rotation cover the whole database, so they are
+ * single-account.
+ */
+async function hasOtherAccounts(userId: string): Promise<boolean> {
+  const meta = await getAllMeta();
+  return meta.some(({ key }) => key.startsWith('enrollment:') && !key.endsWith(`:v2:${userId}`));
+}
+
+/**
+ * Export every store of the KMS as an encrypted backup archive (see backup.ts).
+ *
+ * Requires fresh credentials and a confirmation in the enclave popup. The
+ * archive key is derived from the MS, and the archive carries the account's
+ * passphrase / passkey-PRF enrolments so the same credentials can open it in
+ * an empty KMS. The `export-backup` audit entry is written before the
+ * snapshot, so the archived chain ends with its own export.
+ */
+async function handleExportBackup(
+  params: { credentials: AuthCredentials },
+  requestId: string
+): Promise<{ backup: string; auditEntry: AuditEntryV2 }> {
+  const { credentials } = params;
+  const { userId } = credentials;
+
+  const enrollments = await loadUnlockEnrollments(userId);
+  if (!enrollments.passphrase && !enrollments.passkeyPrf) {
+    throw new KMSError('NOT_SETUP', 'Backup requires a passphrase or passkey-PRF enrollment');
+  }
+  if (await hasOtherAccounts(userId)) {
+    throw new KMSError('CONFLICT', 'Cannot export a backup: this KMS holds other accounts');
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(32));
+  const unlockResult = await withUnlock(credentials, async (mkek, ms) => ({
+    mkek,
+    backupKey: await deriveBackupKey(ms, salt.buffer),
+  }));
+  const { mkek, backupKey } = unlockResult.result;
+
+  await requireBackupConfirmation(requestId, userId, 'export');
+
+  await ensureAuditKey(mkek);
+  const auditEntry = await logOperation({
+    op: 'export-backup',
+    kid: '',
+    requestId,
+    userId,
+    unlockTime: unlockResult.unlockTime,
+    lockTime: unlockResult.lockTime,
+    duration: unlockResult.duration,
+    details: { format: BACKUP_FORMAT, version: BACKUP_VERSION, dbVersion: DB_VERSION },
+  });
+
+  const stores = await snapshotAllStores();
+
+  // Device-bound keys: drop the LRK and SessionKEKs, open LRK-sealed private keys
+  const meta = (stores.meta ?? []) as Array<{ key: string; value: unknown }>;
+  stores.meta = meta.filter(({ key }) => !isDeviceBoundMetaKey(key));
+  const deviceKeys: BackupDeviceKey[] = [];
+  for (const { key, value } of meta) {
+    if (key.startsWith(LAK_META_PREFIX)) {
+      deviceKeys.push({ store: 'meta', id: key, pkcs8: await openLRKSealedKey(value as LRKSealedKey) });
+    }
+  }
+  const kiak = ((stores.keys ?? []) as WrappedKey[]).find((k) => k.kid === KIAK_KID);
+  if (kiak) {
+    deviceKeys.push({ store: 'keys', id: KIAK_KID, pkcs8: await openLRKSealedKey(kiak) });
+  }
+
+  const audit = (stores.audit ?? []) as AuditEntryV2[];
+  const head = audit[audit.length - 1];
+  const backup = await sealBackup(
+    {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      dbVersion: DB_VERSION,
+      createdAt: Date.now(),
+      userId,
+      auditHead: head ? { seqNum: head.seqNum, chainHash: head.chainHash } : null,
+      enrollments: encodeEnrollments(enrollments),
+      salt: arrayBufferToBase64url(salt.buffer),
+    },
+    { stores, deviceKeys },
+    backupKey
+  );
+
+  return { backup, auditEntry };
+}
+
+/**
+ * Restore a backup archive, replacing every store of this KMS.
+ *
+ * The credentials must open the archive's own unlock slots. The archive is
+ * decrypted and fully verified (audit chain, key AADs, wrapped blobs) before
+ * anything is written. If this KMS already holds the account, the credentials
+ * must unlock it too, and an archive whose audit chain is shorter than the
+ * local one is refused as a downgrade; a KMS holding another account must be
+ * reset first. The user then confirms in the enclave popup.
+ *
+ * Device-bound keys are recreated: a new LRK seals the archived KIAK and LAKs,
+ * and lease SessionKEKs are re-derived from the MS. The restored chain
+ * continues with an `import-backup` entry.
+ */
+async function handleImportBackup(
+  params: { backup: string; credentials: AuthCredentials; overwrite?: boolean },
+  requestId: string
+): Promise<{ success: true; auditEntry: AuditEntryV2 }> {
+  const { credentials } = params;
+  const archive = readBackupArchive(params.backup);
+  if (archive.userId !== credentials.userId) {
+    throw new ValidationError(`Backup belongs to another account (${archive.userId})`);
+  }
+
+  // Opening the archive is the fresh auth for the account it holds
+  const unlockResult = await withUnlockFromEnrollments(decodeEnrollments(archive), credentials, async (mkek, ms) => {
+    const payload = await openBackup(archive, await deriveBackupKey(ms, base64urlToArrayBuffer(archive.salt)));
+    await verifyBackupPayload(archive, payload, { mkek, messagingKEK: await deriveMessagingKEK(ms) });
+
+    const sessionKEKs = new Map<string, CryptoKey>();
+    for (const lease of (payload.stores.leases ?? []) as LeaseRecord[]) {
+      sessionKEKs.set(
+        lease.leaseId,
+        await deriveSessionKEK(ms as Uint8Array<ArrayBuffer>, new Uint8Array(lease.leaseSalt))
+      );
+    }
+    return { mkek, payload, sessionKEKs };
+  });
+  const { mkek, payload, sessionKEKs } = unlockResult.result;
+
+  const localEnrollments = (await getAllMeta()).filter(({ key }) => key.startsWith('enrollment:'));
+  if (localEnrollments.length > 0) {
+    if (await hasOtherAccounts(archive.userId)) {
+      throw new KMSError('CONFLICT', 'This KMS holds another account; reset it before importing a backup');
+    }
+    await withUnlock(credentials, async () => Promise.resolve(true));
+
+    const localHead = await getLastAuditEntry();
+    if (localHead && (!archive.auditHead || archive.auditHead.seqNum < localHead.seqNum)) {
+      throw new KMSError('CONFLICT', 'Backup is older than this KMS (audit chain is shorter); refusing to downgrade');
+    }
+    // A longer chain is only newer if it continues this one: an archive that
+    // forked off (or never shared) the local chain would silently drop
+    // whatever happened here since, so the caller has to ask for that.
+    const archived = ((payload.stores.audit ?? []) as AuditEntryV2[]).find((e) => e.seqNum === localHead?.seqNum);
+    if (localHead && archived?.chainHash !== localHead.chainHash && params.overwrite !== true) {
+      throw new KMSError(
+        'CONFLICT',
+        'Backup holds a different audit chain than this KMS; import it with overwrite to replace this history'
+      );
+    }
+  }
+
+  await requireBackupConfirmation(requestId, archive.userId, 'import');
+
+  // Re-seal the archived KIAK / LAKs under a new LRK
+  const { stores } = payload;
+  const keys = (stores.keys ?? []) as WrappedKey[];
+  const meta = ((stores.meta ?? []) as Array<{ key: string; value: unknown }>).filter(
+    ({ key }) => !isDeviceBoundMetaKey(key)
+  );
+  const lrk = await generateLRK();
+  for (const { store, id, pkcs8 } of payload.deviceKeys) {
+    const sealed =
+      store === 'keys'
+        ? keys.find((k) => k.kid === id)
+        : (meta.find((m) => m.key === id)?.value as LRKSealedKey | undefined);
+    if (sealed) {
+      Object.assign(sealed, await sealUnderLRK(lrk, pkcs8, sealed.aad));
+    }
+  }
+  meta.push({ key: 'LRK', value: lrk });
+  for (const [leaseId, sessionKEK] of sessionKEKs) {
+    meta.push({ key: `sessionkek:${leaseId}`, value: sessionKEK });
+  }
+  stores.meta = meta;
+
+  const replacedHead = await getLastAuditEntry();
+  await replaceAllStores(stores);
+
+  // In-memory state belongs to the replaced database
+  sessionKEKCache.clear();
+  for (const sid of [...messagingSessions.keys()]) {
+    dropMessagingSession(sid);
+  }
+  resetAuditLogger();
+
+  await ensureAuditKey(mkek);
+  const auditEntry = await logOperation({
+    op: 'import-backup',
+    kid: '',
+    requestId,
+    userId: archive.userId,
+    unlockTime: unlockResult.unlockTime,
+    lockTime: unlockResult.lockTime,
+    duration: unlockResult.duration,
+    details: {
+      backupCreatedAt: archive.createdAt,
+      backupDbVersion: archive.dbVersion,
+      replacedChainHash: replacedHead?.chainHash ?? null,
+    },
+  });
+
+  return { success: true, auditEntry };
 }
 
 /**
@@ -4902,13 +7313,192 @@ async function handleRemoveEnrollment(
   return { success: true };
 }
 
+/**
+ * Change the passphrase, keeping the same Master Secret.
+ *
+ * Unlocks with the current passphrase and re-wraps the MS under the new one
+ * (fresh salt, freshly calibrated KDF). Keys wrapped under the MKEK or derived
+ * from the MS — VAPID, audit, messaging, lease SessionKEKs — are untouched,
+ * and so are the other enrolments.
+ */
+async function handleChangePassphrase(
+  params: { newPassphrase: string; credentials: AuthCredentials },
+  requestId: string
+): Promise<{ success: true; algorithm: PassphraseKDFAlgorithm; iterations: number }> {
+  const { newPassphrase, credentials } = params;
+
+  if (credentials.method !== 'passphrase') {
+    throw new ValidationError('changePassphrase requires the current passphrase');
+  }
+  if (newPassphrase.length < 8) {
+    throw new ValidationError('Passphrase must be at least 8 characters');
+  }
+
+  const unlockResult = await withUnlock(credentials, async (mkek, ms) => {
+    await ensureAuditKey(mkek);
+    return changePassphrase(credentials.userId, ms, newPassphrase);
+  });
+  const { algorithm, iterations } = unlockResult.result.kdf;
+
+  await logOperation({
+    op: 'change-passphrase',
+    kid: '',
+    requestId,
+    userId: credentials.userId,
+    unlockTime: unlockResult.unlockTime,
+    lockTime: unlockResult.lockTime,
+    duration: unlockResult.duration,
+    details: { method: 'passphrase', algorithm, iterations },
+  });
+
+  return { success: true, algorithm, iterations };
+}
+
+/**
+ * Replace the Master Secret with a fresh one, re-wrapping everything that
+ * depends on it (see rotation.ts):
+ *
+ * - every enrolment re-encrypts the new MS under its existing KEK, so each
+ *   passphrase / passkey keeps working; passphrase and passkey-PRF
+ *   enrolments need their credential (`credentials` plus
+ *   `additionalCredentials`);
+ * - VAPID keys move to the new MKEK (kids and public keys unchanged);
+ * - Signal state, account root, contacts and invites move to the new MKEK /
+ *   messaging KEK;
+ * - lease keys move to SessionKEKs re-derived from the new MS, so existing
+ *   leases keep issuing JWTs;
+ * - the UAK is replaced, and the rotation entry is signed by the old and the
+ *   new UAK (`sigNew`).
+ *
+ * All of it is written in one transaction. The policy marks the method
+ * exclusive, so no other request can write under the old keys between the
+ * snapshot and that commit. Open messaging sessions hold the old messaging
+ * KEK and are closed. A KMS that also holds another account is refused: its
+ * keys do not open under this account's MS.
+ */
+async function handleRotateMasterSecret(
+  params: { credentials: AuthCredentials; additionalCredentials?: AuthCredentials[] },
+  requestId: string
+): Promise<{
+  success: true;
+  auditEntry: AuditEntryV2;
+  rewrapped: { enrollments: number; keys: number; blobs: number; leases: number };
+}> {
+  const { credentials, additionalCredentials = [] } = params;
+  const { userId } = credentials;
+
+  if (await hasOtherAccounts(userId)) {
+    throw new KMSError('CONFLICT', 'Cannot rotate the Master Secret: this KMS holds other accounts');
+  }
+
+  const newMS = crypto.getRandomValues(new Uint8Array(32));
+  try {
+    const unlockResult = await withUnlock(credentials, async (mkek, ms) => {
+      await ensureAuditKey(mkek);
+      // Sessions would keep writing blobs under the old messaging KEK
+      for (const [sid, session] of messagingSessions) {
+        if (session.userId === userId) dropMessagingSession(sid);
+      }
+      const enrollments = await rewrapEnrollments(userId, ms, newMS, [credentials, ...additionalCredentials]);
+      const mkekPair = { old: mkek, new: await deriveMKEKFromMS(newMS) };
+      const messagingPair = { old: await deriveMessagingKEK(ms), new: await deriveMessagingKEK(newMS) };
+      const stores = await snapshotAllStores();
+      const batch: Record<string, unknown[]> = {};
+
+      const keys: WrappedKey[] = [];
+      for (const record of (stores.keys ?? []) as WrappedKey[]) {
+        if (record.kid === KIAK_KID || record.kid === 'audit-user') continue;
+        keys.push(await rewrapKeyRecord(record, mkekPair));
+      }
+      batch.keys = keys;
+
+      let blobs = 0;
+      for (const [store, records] of Object.entries(stores)) {
+        if (store === 'keys' || store === 'audit' || store === 'leases') continue;
+        const changed: unknown[] = [];
+        for (const record of records) {
+          const count = await rewrapBlobs(record, [mkekPair, messagingPair]);
+          if (count > 0) changed.push(record);
+          blobs += count;
+        }
+        if (changed.length > 0) batch[store] = changed;
+      }
+
+      const leases = (stores.leases ?? []) as LeaseRecord[];
+      const sessionKEKs = new Map<string, CryptoKey>();
+      for (const lease of leases) {
+        const leaseSalt = new Uint8Array(lease.leaseSalt);
+        const oldKEK = await deriveSessionKEK(ms as Uint8Array<ArrayBuffer>, leaseSalt);
+        const newKEK = await deriveSessionKEK(newMS, leaseSalt);
+        const leaseKey = await crypto.subtle.unwrapKey(
+          'pkcs8',
+          lease.wrappedLeaseKey,
+          oldKEK,
+          { name: 'AES-GCM', iv: lease.wrappedLeaseKeyIV },
+          { name: 'ECDSA', namedCurve: 'P-256' },
+          true, // extractable: true (required for wrapKey)
+          ['sign']
+        );
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        lease.wrappedLeaseKey = await crypto.subtle.wrapKey('pkcs8', leaseKey, newKEK, { name: 'AES-GCM', iv });
+        lease.wrappedLeaseKeyIV = iv.buffer;
+        sessionKEKs.set(lease.leaseId, newKEK);
+      }
+      if (leases.length > 0) batch.leases = leases;
+
+      batch.meta = [
+        ...(batch.meta ?? []),
+        ...enrollments,
+        ...[...sessionKEKs].map(([leaseId, sessionKEK]) => ({ key: `sessionkek:${leaseId}`, value: sessionKEK })),
+      ];
+      return {
+        newMkek: mkekPair.new,
+        batch,
+        sessionKEKs,
+        counts: { enrollments: enrollments.length, keys: keys.length, blobs, leases: leases.length },
+      };
+    });
+    const { newMkek, batch, sessionKEKs, counts } = unlockResult.result;
+
+    const auditEntry = await rotateAuditKey(
+      newMkek,
+      {
+        op: 'rotate-master-secret',
+        kid: '',
+        requestId,
+        userId,
+        unlockTime: unlockResult.unlockTime,
+        lockTime: unlockResult.lockTime,
+        duration: unlockResult.duration,
+        details: { ...counts },
+      },
+      async (uakRecord, entry) => {
+        await putRecords({
+          ...batch,
+          keys: [...(batch.keys ?? []), uakRecord],
+          audit: [entry],
+        });
+      }
+    );
+
+    for (const [leaseId, sessionKEK] of sessionKEKs) {
+      sessionKEKCache.set(leaseId, sessionKEK);
+    }
+
+    return { success: true, auditEntry, rewrapped: counts };
+  } finally {
+    newMS.fill(0);
+  }
+}
+
 // ============================================================================
 // Worker Initialization
 // ============================================================================
 
 /**
  * Initialize KMS Worker on startup.
- * Generates KIAK (KMS Instance Audit Key) and logs initialization event.
+ * Generates KIAK (KMS Instance Audit Key), logs initialization event and arms
+ * the expiry events of the leases a previous worker left behind.
  */
 void (async (): Promise<void> => {
   try {
@@ -4938,6 +7528,8 @@ void (async (): Promise<void> => {
     } else {
       // Audit chain already exists, skipping init event
     }
+
+    (await getAllLeases()).forEach(watchLease);
   } catch (err) {
     // Initialization may fail in test environments where Worker/IndexedDB aren't fully set up
     // This is expected and safe to ignore during module loading for tests
@@ -6,6 +6,7 @@
 
 import { IDBFactory } from 'fake-indexeddb';
 import { IDBKeyRange } from 'fake-indexeddb';
+import { DEFAULT_PASSPHRASE_CALIBRATION, setPassphraseCalibrationPolicy } from '@/v2/unlock';
 
 // Mock IndexedDB for testing
 globalThis.indexedDB = new IDBFactory();
@@ -23,3 +24,8 @@ globalThis.IDBKeyRange = IDBKeyRange;
     return Reflect.get(target, prop);
   },
 });
+
+// Argon2id runs in plain TypeScript and costs half a second or more per
+// derivation at its floor, paid on every passphrase unlock. Suites use
+// PBKDF2 unless they switch the policy to Argon2id themselves.
+setPassphraseCalibrationPolicy({ ...DEFAULT_PASSPHRASE_CALIBRATION, algorithm: 'PBKDF2-HMAC-SHA256' });
@@ -0,0 +1,83 @@
+/**
+ * @file argon2.test.ts
+ * @description Tests for the bundled BLAKE2b and Argon2id (argon2.ts) against
+ * published test vectors. Passphrase enrolments using it are covered in
+ * unlock.test.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { argon2id, blake2b } from '@/v2/argon2';
+
+const hex = (bytes: Uint8Array): string => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+const utf8 = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+describe('blake2b', () => {
+  it('should match the RFC 7693 and reference test vectors', () => {
+    expect(hex(blake2b(utf8('abc')))).toBe(
+      'ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d1' +
+        '7d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923'
+    );
+    expect(hex(blake2b(new Uint8Array(0)))).toBe(
+      '786a02f742015903c6c6fd852552d272912f4740e15847618a86e217f71f5419' +
+        'd25e1031afee585313896444934eb04b903a685b1448b755d56f701afe9be2ce'
+    );
+  });
+
+  it('should bind the output length and span several blocks', () => {
+    const input = new Uint8Array(300).map((_, i) => i);
+    expect(blake2b(input, 32)).toHaveLength(32);
+    expect(hex(blake2b(input, 32))).not.toBe(hex(blake2b(input, 64).subarray(0, 32)));
+    expect(() => blake2b(input, 65)).toThrow('BLAKE2b output length must be 1-64 bytes');
+  });
+});
+
+describe('argon2id', () => {
+  it('should match the RFC 9106 test vector', async () => {
+    const tag = await argon2id(
+      new Uint8Array(32).fill(0x01),
+      new Uint8Array(16).fill(0x02),
+      { memoryKiB: 32, iterations: 3, parallelism: 4 },
+      { secret: new Uint8Array(8).fill(0x03), associatedData: new Uint8Array(12).fill(0x04) }
+    );
+    expect(hex(tag)).toBe('0d640df58d78766c08c037a34a8b53c9d01ef0452d75b65eb52520e96b01e659');
+  });
+
+  it('should match the reference implementation for a single lane over several address blocks', async () => {
+    const tag = await argon2id(utf8('password'), utf8('somesalt'), { memoryKiB: 256, iterations: 2, parallelism: 1 });
+    expect(hex(tag)).toBe('9dfeb910e80bad0311fee20f9c0e2b12c17987b4cac90c2ef54d5b3021c68bfe');
+  });
+
+  it('should produce tags of the requested length', async () => {
+    const params = { memoryKiB: 64, iterations: 1, parallelism: 1 };
+    expect(await argon2id(utf8('password'), utf8('somesalt'), params, { hashLength: 100 })).toHaveLength(100);
+  });
+
+  it('should let other tasks run during a derivation', async () => {
+    const params = { memoryKiB: 4096, iterations: 2, parallelism: 1 };
+    let ticks = 0;
+    const timer = setInterval(() => {
+      ticks++;
+    }, 0);
+    try {
+      await argon2id(utf8('password'), utf8('somesalt'), params);
+    } finally {
+      clearInterval(timer);
+    }
+    // A synchronous hash would not let the interval fire before it returned
+    expect(ticks).toBeGreaterThan(0);
+  });
+
+  it('should reject out-of-range parameters', async () => {
+    const password = utf8('password');
+    const salt = utf8('somesalt');
+    await expect(argon2id(password, salt, { memoryKiB: 8, iterations: 1, parallelism: 2 })).rejects.toThrow(
+      'Invalid Argon2id parameters'
+    );
+    await expect(argon2id(password, salt, { memoryKiB: 64, iterations: 0, parallelism: 1 })).rejects.toThrow(
+      'Invalid Argon2id parameters'
+    );
+    await expect(argon2id(password, utf8('short'), { memoryKiB: 64, iterations: 1, parallelism: 1 })).rejects.toThrow(
+      'Invalid Argon2id parameters'
+    );
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Encrypted attachment tests (secure-messaging §8).
+ *
+ * Covers the chunked ciphertext (round trip at chunk boundaries, streaming in
+ * arbitrary pieces, and failing closed on truncation, reordering, tampering or a
+ * digest the pointer does not commit to), the message content framing, and the
+ * KEK-sealed handles the PWA holds instead of keys.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  encryptAttachment,
+  decryptAttachment,
+  decryptAttachmentStream,
+  createAttachmentDecryptor,
+  frameMessageContent,
+  parseMessageContent,
+  sealAttachmentHandle,
+  openAttachmentHandle,
+  type AttachmentPointer,
+} from '@/v2/attachment';
+
+const HEADER = 5;
+const TAG = 16;
+
+function bytes(n: number): Uint8Array {
+  return Uint8Array.from({ length: n }, (_, i) => (i * 7) & 0xff);
+}
+
+async function collect(stream: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  for await (const part of stream) {
+    parts.push(part);
+  }
+  return Uint8Array.from(parts.flatMap((p) => Array.from(p)));
+}
+
+describe('encryptAttachment / decryptAttachment', () => {
+  it('round-trips empty, partial-chunk and whole-chunk payloads', async () => {
+    for (const size of [0, 5, 16, 40]) {
+      const plaintext = bytes(size);
+      const { ciphertext, pointer } = await encryptAttachment(plaintext, 16);
+      expect(pointer).toMatchObject({ size });
+      expect(pointer.key).toHaveLength(32);
+      expect(pointer.digest).toHaveLength(32);
+      expect(ciphertext.length).toBe(HEADER + Math.max(1, Math.ceil(size / 16)) * TAG + size);
+      expect(await decryptAttachment(ciphertext, pointer)).toEqual(plaintext);
+    }
+  });
+
+  it('uses a fresh key every time', async () => {
+    const a = await encryptAttachment(bytes(10));
+    const b = await encryptAttachment(bytes(10));
+    expect(a.pointer.key).not.toEqual(b.pointer.key);
+    expect(a.ciphertext).not.toEqual(b.ciphertext);
+  });
+
+  it('streams in pieces of any size', async () => {
+    const plaintext = bytes(100);
+    const { ciphertext, pointer } = await encryptAttachment(plaintext, 16);
+    const pieces: Uint8Array[] = [];
+    for (let off = 0; off < ciphertext.length; off += 7) {
+      pieces.push(ciphertext.slice(off, off + 7));
+    }
+    expect(await collect(decryptAttachmentStream(pieces, pointer))).toEqual(plaintext);
+  });
+
+  it('yields each chunk from the push that completes it, and the last one on finish', async () => {
+    const plaintext = bytes(40);
+    const { ciphertext, pointer } = await encryptAttachment(plaintext, 16);
+    const chunk = 16 + TAG;
+    const decryptor = await createAttachmentDecryptor(pointer);
+
+    expect(await collect(decryptor.push(ciphertext.subarray(0, HEADER + chunk)))).toEqual(new Uint8Array(0));
+    expect(await collect(decryptor.push(ciphertext.subarray(HEADER + chunk, HEADER + chunk + 1)))).toEqual(
+      plaintext.subarray(0, 16)
+    );
+    expect(await collect(decryptor.push(ciphertext.subarray(HEADER + chunk + 1)))).toEqual(plaintext.subarray(16, 32));
+    expect(await decryptor.finish()).toEqual(plaintext.subarray(32));
+  });
+
+  it('rejects truncated, reordered and tampered ciphertext', async () => {
+    const { ciphertext, pointer } = await encryptAttachment(bytes(48), 16);
+    const chunk = 16 + TAG;
+
+    // Dropping the last chunk leaves a non-final chunk at the end.
+    const truncated = ciphertext.slice(0, HEADER + 2 * chunk);
+    await expect(decryptAttachment(truncated, pointer)).rejects.toThrow('Invalid attachment');
+
+    const swapped = ciphertext.slice();
+    swapped.set(ciphertext.subarray(HEADER, HEADER + chunk), HEADER + chunk);
+    swapped.set(ciphertext.subarray(HEADER + chunk, HEADER + 2 * chunk), HEADER);
+    await expect(decryptAttachment(swapped, pointer)).rejects.toThrow('Invalid attachment');
+
+    const flipped = ciphertext.slice();
+    flipped[HEADER + 3]! ^= 1;
+    await expect(decryptAttachment(flipped, pointer)).rejects.toThrow('Invalid attachment');
+
+    await expect(decryptAttachment(ciphertext.subarray(0, 3), pointer)).rejects.toThrow('Invalid attachment');
+  });
+
+  it('rejects a pointer whose digest or size does not match', async () => {
+    const { ciphertext, pointer } = await encryptAttachment(bytes(20), 16);
+    const digest = pointer.digest.slice();
+    digest[0]! ^= 1;
+    await expect(decryptAttachment(ciphertext, { ...pointer, digest })).rejects.toThrow('Attachment digest mismatch');
+    await expect(decryptAttachment(ciphertext, { ...pointer, size: 19 })).rejects.toThrow('Invalid attachment');
+  });
+
+  it('withholds the final chunk until the digest verifies', async () => {
+    const { ciphertext, pointer } = await encryptAttachment(bytes(40), 16);
+    const digest = pointer.digest.slice();
+    digest[0]! ^= 1;
+    const seen: Uint8Array[] = [];
+    await expect(
+      (async (): Promise<void> => {
+        for await (const part of decryptAttachmentStream([ciphertext], { ...pointer, digest })) {
+          seen.push(part);
+        }
+      })()
+    ).rejects.toThrow('Attachment digest mismatch');
+    expect(seen.reduce((n, p) => n + p.length, 0)).toBe(32);
+  });
+});
+
+describe('frameMessageContent / parseMessageContent', () => {
+  const pointer: AttachmentPointer = { key: bytes(32), digest: bytes(32).reverse(), size: 1234 };
+
+  it('leaves a plain body unframed and round-trips pointers', () => {
+    const body = new TextEncoder().encode('caption');
+    expect(frameMessageContent(body, [])).toBe(body);
+    expect(parseMessageContent(body)).toEqual({ body, pointers: [] });
+
+    const framed = frameMessageContent(body, [pointer, { ...pointer, size: 0 }]);
+    expect(parseMessageContent(framed)).toEqual({ body, pointers: [pointer, { ...pointer, size: 0 }] });
+  });
+
+  it('frames a body that starts with the magic so it is not misread', () => {
+    const body = new Uint8Array([0x00, 0x41, 0x54, 0x53, 0x01, 0x05, 0xff]);
+    const framed = frameMessageContent(body, []);
+    expect(framed).not.toBe(body);
+    expect(parseMessageContent(framed)).toEqual({ body, pointers: [] });
+  });
+
+  it('reads malformed framing as a plain body', () => {
+    const framed = frameMessageContent(new Uint8Array(0), [pointer]);
+    const short = framed.slice(0, framed.length - 1);
+    expect(parseMessageContent(short)).toEqual({ body: short, pointers: [] });
+    expect(() => frameMessageContent(new Uint8Array(0), Array(33).fill(pointer))).toThrow(/at most 32/);
+  });
+});
+
+describe('sealAttachmentHandle / openAttachmentHandle', () => {
+  it('round-trips for the sealing user only', async () => {
+    const kek = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    const { pointer } = await encryptAttachment(bytes(3));
+    const handle = await sealAttachmentHandle(pointer, kek, 'alice');
+    expect(handle).toHaveLength(96);
+    expect(await openAttachmentHandle(handle, kek, 'alice')).toEqual(pointer);
+    await expect(openAttachmentHandle(handle, kek, 'bob')).rejects.toThrow('Invalid attachment handle');
+  });
+});
@@ -0,0 +1,189 @@
+// @vitest-environment node
+/**
+ * @file audit-verify.test.ts
+ * @description Tests for the offline audit export verifier (audit-verify.ts).
+ * Runs under the node environment: the verifier must not need browser APIs.
+ * Exports are produced with audit.ts; the RPC is covered in worker.test.ts.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  ensureAuditKey,
+  ensureKIAK,
+  exportAuditLog,
+  generateLAK,
+  getAuditPublicKey,
+  loadLAK,
+  logOperation,
+  resetAuditLogger,
+  rotateAuditKey,
+} from '@/v2/audit';
+import { canonicalJSON, verifyAuditExport } from '@/v2/audit-verify';
+import { initDB, closeDB, putRecords } from '@/v2/storage';
+import type { AuditLogExport, AuditOperation } from '@/v2/types';
+
+const generateMKEK = (): Promise<CryptoKey> =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']);
+
+const op = (requestId: string): AuditOperation => ({ op: 'sign', kid: 'key-1', requestId, userId: 'alice' });
+
+/** What a reviewer receives: the bundle after a JSON round trip. */
+async function exportAsJSON(filter = {}): Promise<AuditLogExport> {
+  return JSON.parse(JSON.stringify(await exportAuditLog('alice', filter))) as AuditLogExport;
+}
+
+let mkek: CryptoKey;
+
+/** seq 1 UAK, seq 2 KIAK, seq 3 LAK, seq 4 UAK; UAK active afterwards. */
+async function writeMixedLog(): Promise<void> {
+  await ensureAuditKey(mkek);
+  await logOperation(op('req-1'));
+  const { delegationCert } = await generateLAK('lease-1', Date.now() + 3600_000);
+  await ensureKIAK();
+  await logOperation({ op: 'worker-init', kid: '', requestId: 'req-2', userId: 'system' });
+  await loadLAK('lease-1', delegationCert);
+  await logOperation(op('req-3'));
+  await ensureAuditKey(mkek);
+  await logOperation(op('req-4'));
+}
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  await initDB();
+  resetAuditLogger();
+  mkek = await generateMKEK();
+});
+
+afterEach(() => {
+  closeDB();
+  resetAuditLogger();
+});
+
+describe('verifyAuditExport', () => {
+  it('should verify UAK, KIAK and LAK entries against the pinned UAK', async () => {
+    await writeMixedLog();
+    const { publicKey } = await getAuditPublicKey();
+
+    const bundle = await exportAsJSON();
+
+    expect(bundle.manifest).toMatchObject({ userId: 'alice', entryCount: 4, firstSeqNum: 1, lastSeqNum: 4 });
+    expect(bundle.certs.map((cert) => cert.signerKind).sort()).toEqual(['KIAK', 'LAK']);
+    // No placeholder build hashes
+    for (const cert of bundle.certs) {
+      expect(cert).not.toHaveProperty('codeHash');
+      expect(cert).not.toHaveProperty('manifestHash');
+    }
+    expect(await verifyAuditExport(bundle, { uakPublicKey: publicKey })).toEqual({
+      valid: true,
+      verified: 4,
+      errors: [],
+    });
+  });
+
+  it('should export the contiguous stretch a seqNum or time filter selects', async () => {
+    await writeMixedLog();
+
+    const bySeq = await exportAsJSON({ fromSeqNum: 2, toSeqNum: 3 });
+    expect(bySeq.entries.map((entry) => entry.seqNum)).toEqual([2, 3]);
+    expect(await verifyAuditExport(bySeq)).toMatchObject({ valid: true, verified: 2 });
+
+    const byTime = await exportAsJSON({ fromTime: Date.now() + 60_000 });
+    expect(byTime.entries).toEqual([]);
+    expect(byTime.manifest).toMatchObject({ entryCount: 0, firstSeqNum: null, head: { seqNum: 4 } });
+    expect(await verifyAuditExport(byTime)).toEqual({ valid: true, verified: 0, errors: [] });
+  });
+
+  it('should trust entries signed before a UAK rotation through the rotation entry', async () => {
+    await ensureAuditKey(mkek);
+    await logOperation(op('req-1'));
+    await rotateAuditKey(
+      await generateMKEK(),
+      { op: 'rotate-master-secret', kid: '', requestId: 'req-rot', userId: 'alice' },
+      (uakRecord, entry) => putRecords({ keys: [uakRecord], audit: [entry] })
+    );
+    await logOperation(op('req-2'));
+    const { publicKey } = await getAuditPublicKey();
+
+    const bundle = await exportAsJSON({ toSeqNum: 1 });
+
+    expect(bundle.entries.map((entry) => entry.seqNum)).toEqual([1]);
+    expect(bundle.rotations.map((entry) => entry.seqNum)).toEqual([2]);
+    expect(await verifyAuditExport(bundle, { uakPublicKey: publicKey })).toEqual({
+      valid: true,
+      verified: 1,
+      errors: [],
+    });
+  });
+
+  it('should reject an export signed by a UAK other than the pinned one', async () => {
+    await writeMixedLog();
+    const bundle = await exportAsJSON();
+
+    const result = await verifyAuditExport(bundle, { uakPublicKey: 'not-the-uak' });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Manifest is not signed by the trusted UAK');
+  });
+
+  it('should reject an edited entry', async () => {
+    await writeMixedLog();
+    const bundle = await exportAsJSON();
+
+    bundle.entries[1] = { ...bundle.entries[1]!, kid: 'key-2' };
+
+    const result = await verifyAuditExport(bundle);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => /seq 2/.test(e))).toBe(true);
+  });
+
+  it('should reject an export with an entry dropped', async () => {
+    await writeMixedLog();
+    const bundle = await exportAsJSON();
+
+    bundle.entries.splice(1, 1);
+
+    const result = await verifyAuditExport(bundle);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Entries do not match the manifest');
+    expect(result.errors).toContain('Chain is broken before seq 3');
+  });
+
+  it('should reject an edited manifest', async () => {
+    await writeMixedLog();
+    const bundle = await exportAsJSON({ toSeqNum: 2 });
+
+    bundle.manifest = { ...bundle.manifest, head: { ...bundle.manifest.head, seqNum: 2 } };
+
+    const result = await verifyAuditExport(bundle);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Manifest signature invalid');
+  });
+
+  it('should reject a bundle that is not an audit log export', async () => {
+    await writeMixedLog();
+    const bundle = await exportAsJSON();
+
+    expect(await verifyAuditExport({ ...bundle, manifest: { ...bundle.manifest, version: 2 as 1 } })).toEqual({
+      valid: false,
+      verified: 0,
+      errors: ['Not a supported audit log export'],
+    });
+  });
+});
+
+describe('exportAuditLog', () => {
+  it('should require the UAK to be the active signer', async () => {
+    await ensureKIAK();
+
+    await expect(exportAuditLog('alice', {})).rejects.toThrow('UAK must be active to export the audit log');
+  });
+});
+
+describe('canonicalJSON', () => {
+  it('should serialize nested keys in sorted order', () => {
+    expect(canonicalJSON({ b: 1, a: { d: [{ f: 1, e: 2 }], c: null } })).toBe(
+      '{"a":{"c":null,"d":[{"e":2,"f":1}]},"b":1}'
+    );
+  });
+});
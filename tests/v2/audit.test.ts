@@ -25,8 +25,14 @@ import {
   ensureKIAK,
   generateLAK,
   loadLAK,
+  ensureAuditKey,
+  rotateAuditKey,
+  openAuditScope,
+  registerAuditSubId,
+  closeAuditScope,
+  waiveAuditEntry,
 } from '@/v2/audit';
-import { initDB, closeDB, getAllAuditEntries, getWrappedKey, DB_NAME } from '@/v2/storage';
+import { initDB, closeDB, getAllAuditEntries, getWrappedKey, putRecords, DB_NAME } from '@/v2/storage';
 import { arrayBufferToBase64url } from '@/v2/crypto-utils';
 import type { AuditEntryV2 } from '@/v2/types';
 
@@ -64,7 +70,7 @@ async function replaceAuditEntry(seqNum: number, replacement: AuditEntryV2): Pro
     open.onerror = (): void => reject(open.error ?? new Error('tamper open failed'));
   });
 }
-import type { AuditOperation, AuditDelegationCert } from '@/v2/types';
+import type { AuditOperation, AuditDelegationCert, WrappedKey } from '@/v2/types';
 import { handleMessage } from '@/v2/worker';
 
 // Helper function to create worker requests
@@ -365,10 +371,126 @@ describe('verifyAuditChain', () => {
   });
 });
 
+describe('rotateAuditKey', () => {
+  const generateMKEK = (): Promise<CryptoKey> =>
+    crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']);
+  const rotationOp: AuditOperation = { op: 'rotate-master-secret', kid: '', requestId: 'req-rot', userId: 'alice' };
+  const commit = async (uakRecord: WrappedKey, entry: AuditEntryV2): Promise<void> =>
+    putRecords({ keys: [uakRecord], audit: [entry] });
+
+  it('should hand the chain over to a new UAK with a dual-signed entry', async () => {
+    await ensureAuditKey(await generateMKEK());
+    await logOperation({ op: 'sign', kid: 'key-1', requestId: 'req-1', userId: 'alice' });
+    const previousUak = (await getAuditPublicKey()).publicKey;
+
+    const entry = await rotateAuditKey(await generateMKEK(), rotationOp, commit);
+    await logOperation({ op: 'sign', kid: 'key-1', requestId: 'req-2', userId: 'alice' });
+
+    expect(entry.sigNew).toBeDefined();
+    expect(entry.details).toMatchObject({ previousUakPublicKey: previousUak });
+    expect(entry.details?.uakPublicKey).toBe((await getAuditPublicKey()).publicKey);
+    const entries = await getAllAuditEntries();
+    expect(entries[2]!.signerId).not.toBe(entries[0]!.signerId);
+    expect(entries[1]!.signerId).toBe(entries[0]!.signerId);
+
+    const result = await verifyAuditChain();
+    expect(result).toEqual({ valid: true, verified: 3, errors: [] });
+  });
+
+  it('should not trust the previous UAK when sigNew does not verify', async () => {
+    await ensureAuditKey(await generateMKEK());
+    await logOperation({ op: 'sign', kid: 'key-1', requestId: 'req-1', userId: 'alice' });
+    const entry = await rotateAuditKey(await generateMKEK(), rotationOp, commit);
+
+    await replaceAuditEntry(2, { ...entry, sigNew: entry.sig });
+
+    const result = await verifyAuditChain();
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('UAK rotation unverifiable at seq 2: new UAK signature is invalid');
+    expect(result.errors.some((e) => /seq 1: UAK signerId does not match a trusted user key/.test(e))).toBe(true);
+  });
+
+  it('should keep the current UAK when the commit fails', async () => {
+    await ensureAuditKey(await generateMKEK());
+    const uak = (await getAuditPublicKey()).publicKey;
+
+    await expect(
+      rotateAuditKey(await generateMKEK(), rotationOp, () => Promise.reject(new Error('disk full')))
+    ).rejects.toThrow('disk full');
+    await logOperation({ op: 'sign', kid: 'key-1', requestId: 'req-1', userId: 'alice' });
+
+    expect((await getAuditPublicKey()).publicKey).toBe(uak);
+    expect(await verifyAuditChain()).toEqual({ valid: true, verified: 1, errors: [] });
+  });
+
+  it('should require the UAK to be the active signer', async () => {
+    await ensureKIAK();
+
+    await expect(rotateAuditKey(await generateMKEK(), rotationOp, commit)).rejects.toThrow(
+      'UAK must be active to rotate it'
+    );
+  });
+});
+
 // ============================================================================
 // Public Key Export Tests
 // ============================================================================
 
+describe('openAuditScope / closeAuditScope', () => {
+  const op = (requestId: string): AuditOperation => ({ op: 'sign', kid: 'k', requestId, userId: 'alice' });
+
+  it('should report whether the request, or a registered sub-step of it, appended an entry', async () => {
+    await ensureKIAK();
+    const a = openAuditScope('req-a');
+    const b = openAuditScope('req-b');
+    const c = openAuditScope('req-c');
+    registerAuditSubId('req-b', 'req-b-lease');
+
+    await logOperation(op('req-a'));
+    await logOperation(op('req-b-lease'));
+    await logOperation(op('req-cx'));
+
+    expect(closeAuditScope(a)).toBe(true);
+    expect(closeAuditScope(b)).toBe(true);
+    expect(closeAuditScope(c)).toBe(false);
+    // Closed: no longer watched
+    expect(closeAuditScope(a)).toBe(false);
+  });
+
+  it('should not count an unregistered id that merely extends the request id', async () => {
+    await ensureKIAK();
+    const x = openAuditScope('X');
+    const other = openAuditScope('X-1');
+
+    await logOperation(op('X-1'));
+
+    expect(closeAuditScope(x)).toBe(false);
+    expect(closeAuditScope(other)).toBe(true);
+  });
+
+  it('should refuse a request id, or a sub-step id, already in flight', () => {
+    const first = openAuditScope('req-dup');
+    expect(() => openAuditScope('req-dup')).toThrow(expect.objectContaining({ code: 'CONFLICT' }));
+
+    registerAuditSubId('req-dup', 'req-dup-lease');
+    expect(() => openAuditScope('req-dup-lease')).toThrow(expect.objectContaining({ code: 'CONFLICT' }));
+    const taken = openAuditScope('req-taken');
+    expect(() => registerAuditSubId('req-dup', 'req-taken')).toThrow(expect.objectContaining({ code: 'CONFLICT' }));
+
+    // Closing releases the id and its sub-step ids
+    closeAuditScope(first);
+    closeAuditScope(taken);
+    closeAuditScope(openAuditScope('req-dup'));
+    closeAuditScope(openAuditScope('req-dup-lease'));
+  });
+
+  it('should count a waived entry as appended', () => {
+    const scope = openAuditScope('req-noop');
+    waiveAuditEntry('req-noop');
+    expect(closeAuditScope(scope)).toBe(true);
+  });
+});
+
 describe('getAuditPublicKey', () => {
   it('should export base64url encoded SPKI public key', async () => {
     // Setup KMS to initialize UAK
@@ -0,0 +1,232 @@
+/**
+ * @file backup.test.ts
+ * @description Tests for the backup archive format (backup.ts). The export /
+ * import orchestration is covered in worker.test.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  deriveBackupKey,
+  sealBackup,
+  readBackupArchive,
+  openBackup,
+  verifyBackupPayload,
+  encodeEnrollments,
+  decodeEnrollments,
+  isDeviceBoundMetaKey,
+} from '@/v2/backup';
+import type { BackupHeader, BackupPayload } from '@/v2/backup';
+import { DB_VERSION } from '@/v2/storage';
+import type { AuditEntryV2, PassphraseConfigV2 } from '@/v2/types';
+
+const ms = crypto.getRandomValues(new Uint8Array(32));
+const salt = crypto.getRandomValues(new Uint8Array(32));
+
+function header(overrides: Partial<BackupHeader> = {}): BackupHeader {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    dbVersion: DB_VERSION,
+    createdAt: 1_700_000_000_000,
+    userId: 'user@example.com',
+    auditHead: null,
+    enrollments: {},
+    salt: 'c2FsdA',
+    ...overrides,
+  };
+}
+
+function payload(): BackupPayload {
+  return {
+    stores: {
+      meta: [
+        { key: 'bytes', value: new Uint8Array([1, 2, 3]) },
+        { key: 'buffer', value: new Uint8Array([4, 5]).buffer },
+      ],
+      leases: [{ leaseId: 'lease-1', exp: 42, nested: { list: [1, 'two'] } }],
+    },
+    deviceKeys: [{ store: 'meta', id: 'lease-audit-key:lease-1', pkcs8: new Uint8Array([9]).buffer }],
+  };
+}
+
+describe('sealBackup / openBackup', () => {
+  it('should round-trip a payload, keeping binary types', async () => {
+    const key = await deriveBackupKey(ms, salt.buffer);
+    const archive = readBackupArchive(await sealBackup(header(), payload(), key));
+
+    const opened = await openBackup(archive, key);
+    const meta = opened.stores.meta as Array<{ key: string; value: unknown }>;
+    expect(meta[0]!.value).toBeInstanceOf(Uint8Array);
+    expect(Array.from(meta[0]!.value as Uint8Array)).toEqual([1, 2, 3]);
+    expect(meta[1]!.value).toBeInstanceOf(ArrayBuffer);
+    expect(Array.from(new Uint8Array(meta[1]!.value as ArrayBuffer))).toEqual([4, 5]);
+    expect(opened.stores.leases).toEqual(payload().stores.leases);
+    expect(Array.from(new Uint8Array(opened.deviceKeys[0]!.pkcs8))).toEqual([9]);
+  });
+
+  it('should reject an altered header', async () => {
+    const key = await deriveBackupKey(ms, salt.buffer);
+    const archive = readBackupArchive(await sealBackup(header(), payload(), key));
+
+    await expect(openBackup({ ...archive, userId: 'other@example.com' }, key)).rejects.toThrow(
+      'Backup decryption failed'
+    );
+    await expect(
+      openBackup({ ...archive, auditHead: { seqNum: 9, chainHash: 'x' } }, key)
+    ).rejects.toThrow('Backup decryption failed');
+  });
+
+  it('should reject another Master Secret', async () => {
+    const key = await deriveBackupKey(ms, salt.buffer);
+    const otherKey = await deriveBackupKey(crypto.getRandomValues(new Uint8Array(32)), salt.buffer);
+    const archive = readBackupArchive(await sealBackup(header(), payload(), key));
+
+    await expect(openBackup(archive, otherKey)).rejects.toThrow('Backup decryption failed');
+  });
+
+  it('should refuse to archive a CryptoKey', async () => {
+    const key = await deriveBackupKey(ms, salt.buffer);
+    const withKey: BackupPayload = { stores: { meta: [{ key: 'LRK', value: key }] }, deviceKeys: [] };
+
+    await expect(sealBackup(header(), withKey, key)).rejects.toThrow('Cannot back up value at payload.stores.meta[0].value');
+  });
+});
+
+describe('readBackupArchive', () => {
+  async function archiveText(overrides: Partial<BackupHeader> = {}): Promise<string> {
+    return sealBackup(header(overrides), payload(), await deriveBackupKey(ms, salt.buffer));
+  }
+
+  it('should reject text that is not an archive', async () => {
+    expect(() => readBackupArchive('not json')).toThrow('not JSON');
+    expect(() => readBackupArchive('null')).toThrow('not an object');
+    expect(() => readBackupArchive('{"format":"zip"}')).toThrow('unknown format');
+
+    const archive = JSON.parse(await archiveText()) as Record<string, unknown>;
+    delete archive.iv;
+    expect(() => readBackupArchive(JSON.stringify(archive))).toThrow('malformed header');
+  });
+
+  it('should refuse archives from a newer KMS', async () => {
+    expect(() => readBackupArchive(JSON.stringify({ ...header(), version: BACKUP_VERSION + 1 }))).toThrow(
+      `Backup format version ${BACKUP_VERSION + 1} is newer than this KMS supports`
+    );
+    expect(() => readBackupArchive(JSON.stringify({ ...header(), dbVersion: DB_VERSION + 1 }))).toThrow(
+      `Backup schema version ${DB_VERSION + 1} is newer than this KMS supports`
+    );
+  });
+
+  it('should accept archives from an older schema', async () => {
+    expect(readBackupArchive(await archiveText({ dbVersion: DB_VERSION - 1 })).dbVersion).toBe(DB_VERSION - 1);
+  });
+});
+
+describe('encodeEnrollments / decodeEnrollments', () => {
+  it('should round-trip enrolment configs through the header', async () => {
+    const passphrase: PassphraseConfigV2 = {
+      kmsVersion: 2,
+      algVersion: 1,
+      method: 'passphrase',
+      kdf: {
+        algorithm: 'PBKDF2-HMAC-SHA256',
+        iterations: 1000,
+        salt: new Uint8Array([1]).buffer,
+        lastCalibratedAt: 0,
+        platformHash: 'p',
+      },
+      kcv: new Uint8Array([2]).buffer,
+      encryptedMS: new Uint8Array([3]).buffer,
+      msIV: new Uint8Array([4]).buffer,
+      msAAD: new Uint8Array([5]).buffer,
+      msVersion: 1,
+      createdAt: 0,
+      updatedAt: 0,
+    };
+    const text = await sealBackup(
+      header({ enrollments: encodeEnrollments({ passphrase }) }),
+      payload(),
+      await deriveBackupKey(ms, salt.buffer)
+    );
+
+    const decoded = decodeEnrollments(readBackupArchive(text));
+    expect(decoded.passkeyPrf).toBeUndefined();
+    expect(Array.from(new Uint8Array(decoded.passphrase!.encryptedMS))).toEqual([3]);
+    expect(decoded.passphrase!.kdf.iterations).toBe(1000);
+  });
+});
+
+describe('verifyBackupPayload', () => {
+  async function keys(): Promise<{ mkek: CryptoKey; messagingKEK: CryptoKey }> {
+    const generate = (): Promise<CryptoKey> =>
+      crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    return { mkek: await generate(), messagingKEK: await generate() };
+  }
+
+  function entry(seqNum: number, previousHash: string, chainHash: string): AuditEntryV2 {
+    return { seqNum, previousHash, chainHash } as AuditEntryV2;
+  }
+
+  it('should reject a broken audit chain', async () => {
+    const archive = readBackupArchive(
+      await sealBackup(
+        header({ auditHead: { seqNum: 2, chainHash: 'b' } }),
+        payload(),
+        await deriveBackupKey(ms, salt.buffer)
+      )
+    );
+    const broken: BackupPayload = { stores: { audit: [entry(1, '', 'a'), entry(2, 'x', 'b')] }, deviceKeys: [] };
+
+    await expect(verifyBackupPayload(archive, broken, await keys())).rejects.toThrow(
+      'Backup audit chain is broken at seq 2'
+    );
+  });
+
+  it('should reject a chain that does not end at the archived head', async () => {
+    const archive = readBackupArchive(
+      await sealBackup(
+        header({ auditHead: { seqNum: 2, chainHash: 'b' } }),
+        payload(),
+        await deriveBackupKey(ms, salt.buffer)
+      )
+    );
+    const truncated: BackupPayload = { stores: { audit: [entry(1, '', 'a')] }, deviceKeys: [] };
+
+    await expect(verifyBackupPayload(archive, truncated, await keys())).rejects.toThrow(
+      'Backup audit chain does not end at the archived head'
+    );
+  });
+
+  it('should reject wrapped data from another account', async () => {
+    const archive = readBackupArchive(
+      await sealBackup(header(), payload(), await deriveBackupKey(ms, salt.buffer))
+    );
+    const foreign = await keys();
+    const iv = crypto.getRandomValues(new Uint8Array(12)).buffer;
+    const aad = new Uint8Array([1]).buffer;
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: aad },
+      foreign.mkek,
+      new Uint8Array([7])
+    );
+    const withBlob: BackupPayload = {
+      stores: { 'messaging-account': [{ userId: 'user@example.com', root: { ciphertext, iv, aad } }] },
+      deviceKeys: [],
+    };
+
+    await expect(verifyBackupPayload(archive, withBlob, await keys())).rejects.toThrow(
+      'Backup messaging-account record does not authenticate under this account'
+    );
+    await expect(verifyBackupPayload(archive, withBlob, foreign)).resolves.toBeUndefined();
+  });
+});
+
+describe('isDeviceBoundMetaKey', () => {
+  it('should match the LRK and SessionKEKs only', () => {
+    expect(isDeviceBoundMetaKey('LRK')).toBe(true);
+    expect(isDeviceBoundMetaKey('sessionkek:lease-1')).toBe(true);
+    expect(isDeviceBoundMetaKey('lease-audit-key:lease-1')).toBe(false);
+    expect(isDeviceBoundMetaKey('enrollment:passphrase:v2:user')).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Build manifest signing tests.
+ *
+ * Signs a `.well-known` manifest with a release key and verifies it against
+ * pinned keys: a JSON round trip with reordered keys still verifies; an edited,
+ * unsigned or unpinned manifest does not, nor does an expired one or one
+ * issued before a manifest already accepted.
+ *
+ * Runs in the `node` environment for native Ed25519.
+ */
+
+// @vitest-environment node
+
+import { describe, it, expect, beforeAll } from 'vitest';
+
+import {
+  signBuildManifest,
+  verifyBuildManifest,
+  type KMSBuildManifest,
+  type SignedBuildManifest,
+} from '@/v2/build-manifest';
+import { arrayBufferToBase64url, base64urlToArrayBuffer } from '@/v2/crypto-utils';
+import { computeKeyId } from '@/v2/audit-verify';
+
+const WORKER = 'ab'.repeat(32);
+
+const manifest: KMSBuildManifest = {
+  schema: 1,
+  current: {
+    version: '2.0.0',
+    commit: 'c0ffee',
+    artifact: 'kms-worker.abababab.js',
+    sha256: WORKER,
+    files: { worker: { filename: 'kms-worker.abababab.js', sha256: WORKER, sri: 'sha384-x' } },
+    timestamp: '2026-01-01T00:00:00.000Z',
+    build: { reproducible: true },
+  },
+  allowed: [WORKER],
+  deprecated: [],
+  issuedAt: '2026-01-01T00:00:00.000Z',
+  expires: '2126-01-01T00:00:00.000Z',
+};
+
+let releaseKey: string;
+let signed: SignedBuildManifest;
+
+async function releaseKeyPair(): Promise<{ privateKey: CryptoKey; publicKey: string }> {
+  const keys = (await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify'])) as CryptoKeyPair;
+  return {
+    privateKey: keys.privateKey,
+    publicKey: arrayBufferToBase64url(await crypto.subtle.exportKey('raw', keys.publicKey)),
+  };
+}
+
+beforeAll(async () => {
+  const { privateKey, publicKey } = await releaseKeyPair();
+  releaseKey = publicKey;
+  signed = await signBuildManifest(manifest, privateKey, publicKey);
+});
+
+describe('signBuildManifest / verifyBuildManifest', () => {
+  it('names the release key and verifies after a JSON round trip', async () => {
+    expect(signed.signature).toEqual({
+      alg: 'Ed25519',
+      kid: await computeKeyId(base64urlToArrayBuffer(releaseKey)),
+      sig: expect.any(String),
+    });
+
+    const reordered: unknown = JSON.parse(JSON.stringify(Object.fromEntries(Object.entries(signed).reverse())));
+    expect(await verifyBuildManifest(reordered, [releaseKey])).toEqual(manifest);
+  });
+
+  it('rejects an edited manifest', async () => {
+    const edited = { ...signed, allowed: [WORKER, 'cd'.repeat(32)] };
+    await expect(verifyBuildManifest(edited, [releaseKey])).rejects.toMatchObject({
+      code: 'ATTESTATION_FAILED',
+      message: 'Build manifest signature invalid',
+    });
+  });
+
+  it('rejects a manifest signed by a key that is not pinned', async () => {
+    const other = await releaseKeyPair();
+    await expect(verifyBuildManifest(signed, [other.publicKey])).rejects.toMatchObject({
+      code: 'ATTESTATION_FAILED',
+      message: 'Build manifest is not signed by a pinned release key',
+    });
+    expect(await verifyBuildManifest(signed, [other.publicKey, releaseKey])).toEqual(manifest);
+  });
+
+  it('rejects an expired manifest', async () => {
+    await expect(
+      verifyBuildManifest(signed, [releaseKey], { now: Date.parse('2126-01-01T00:00:00.000Z') })
+    ).rejects.toMatchObject({
+      code: 'ATTESTATION_FAILED',
+      message: 'Build manifest expired at 2126-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('rejects a manifest issued before one already accepted', async () => {
+    const accepted = Date.parse(manifest.issuedAt);
+    expect(await verifyBuildManifest(signed, [releaseKey], { issuedNotBefore: accepted })).toEqual(manifest);
+    await expect(verifyBuildManifest(signed, [releaseKey], { issuedNotBefore: accepted + 1 })).rejects.toMatchObject({
+      code: 'ATTESTATION_FAILED',
+      message: 'Build manifest issued at 2026-01-01T00:00:00.000Z is older than one already accepted',
+    });
+  });
+
+  it('rejects an unsigned or malformed manifest', async () => {
+    const noDeprecated: Partial<SignedBuildManifest> = { ...signed };
+    delete noDeprecated.deprecated;
+    const noExpiry: Partial<SignedBuildManifest> = { ...signed };
+    delete noExpiry.expires;
+    for (const value of [
+      manifest,
+      null,
+      { ...signed, allowed: 'all' },
+      { ...signed, signature: { alg: 'ES256' } },
+      noDeprecated,
+      noExpiry,
+      { ...signed, issuedAt: 'yesterday' },
+    ]) {
+      await expect(verifyBuildManifest(value, [releaseKey])).rejects.toMatchObject({
+        code: 'ATTESTATION_FAILED',
+        message: 'Build manifest is malformed or unsigned',
+      });
+    }
+  });
+});
@@ -6,7 +6,8 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { KMSClient, type KMSClientConfig } from '../../src/v2/client.js';
-import type { RPCRequest, RPCResponse } from '../../src/v2/types.js';
+import type { OperationPolicy, RPCMethod, RPCRequest, RPCResponse } from '../../src/v2/types.js';
+import { OPERATION_POLICIES } from '../../src/v2/operation-policy.js';
 
 // ============================================================================
 // Test Utilities
@@ -139,17 +140,54 @@ function createRequest(method: string, params?: any): RPCRequest {
 /**
  * Simulate parent sending message to iframe
  */
-function simulateParentMessage(_client: any, data: any, origin: string = 'https://allthe.services') {
+function simulateParentMessage(
+  _client: any,
+  data: any,
+  origin: string = 'https://allthe.services',
+  init: { source?: unknown; ports?: unknown[] } = {}
+) {
   const event = new MessageEvent('message', {
     data,
     origin,
-    source: window.parent as any,
+    source: (init.source ?? window.parent) as any,
+    ports: (init.ports ?? []) as any,
   });
 
   // Trigger the handleParentMessage method
   window.dispatchEvent(event);
 }
 
+/**
+ * KMSUser's side of the handshake channel, as seen by the client: `sent` holds
+ * what the client posts, `request` delivers an RPC as the parent would.
+ */
+class MockParentPort {
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+  public sent: any[] = [];
+  public close = vi.fn();
+
+  postMessage(data: any): void {
+    this.sent.push(data);
+  }
+
+  request(data: any): void {
+    this.onmessage?.(new MessageEvent('message', { data }));
+  }
+
+  getLastMessage(): any {
+    return this.sent[this.sent.length - 1];
+  }
+}
+
+/**
+ * Run the kms:connect handshake and return the port the client now listens on
+ */
+function connectParent(client: any, origin: string = 'https://allthe.services'): MockParentPort {
+  const port = new MockParentPort();
+  simulateParentMessage(client, { type: 'kms:connect', nonce: 'nonce-1' }, origin, { ports: [port] });
+  return port;
+}
+
 // ============================================================================
 // Client Initialization Tests
 // ============================================================================
@@ -236,6 +274,7 @@ describe('KMSClient initialization', () => {
 describe('message forwarding', () => {
   let env: ReturnType<typeof setupTestEnvironment>;
   let client: KMSClient;
+  let port: MockParentPort;
 
   beforeEach(async () => {
     env = setupTestEnvironment();
@@ -244,6 +283,7 @@ describe('message forwarding', () => {
     });
     await client.init();
     env.mockParent.clearMessages();
+    port = connectParent(client);
   });
 
   afterEach(async () => {
@@ -259,11 +299,16 @@ describe('message forwarding', () => {
     const postMessageSpy = vi.spyOn(worker!, 'postMessage');
 
     // Simulate parent sending message
-    simulateParentMessage(client, request);
+    port.request(request);
 
     expect(postMessageSpy).toHaveBeenCalledWith(request);
   });
 
+  it('should confirm the handshake by echoing the nonce on the port', () => {
+    expect(port.sent).toEqual([{ type: 'kms:connected', nonce: 'nonce-1' }]);
+    expect(port.onmessage).toBeTypeOf('function');
+  });
+
   it('should forward response from worker to parent', () => {
     const response: RPCResponse = {
       id: 'test-123',
@@ -275,10 +320,9 @@ describe('message forwarding', () => {
     // Simulate worker sending response
     worker!.simulateMessage(response);
 
-    // Check parent received the response
-    const lastMessage = env.mockParent.getLastMessage();
-    expect(lastMessage.data).toEqual(response);
-    expect(lastMessage.targetOrigin).toBe('https://allthe.services');
+    // Check parent received the response over the port, not the window
+    expect(port.getLastMessage()).toEqual(response);
+    expect(env.mockParent.receivedMessages).toHaveLength(0);
   });
 
   it('should handle bidirectional message flow', () => {
@@ -292,16 +336,46 @@ describe('message forwarding', () => {
     const postMessageSpy = vi.spyOn(worker!, 'postMessage');
 
     // Parent sends request
-    simulateParentMessage(client, request);
+    port.request(request);
     expect(postMessageSpy).toHaveBeenCalledWith(request);
 
     // Worker sends response
-    env.mockParent.clearMessages();
     worker!.simulateMessage(response);
 
     // Check parent received response
-    const lastMessage = env.mockParent.getLastMessage();
-    expect(lastMessage.data).toEqual(response);
+    expect(port.getLastMessage()).toEqual(response);
+  });
+
+  it('should relay worker events to the parent as kms:event', () => {
+    const event = { type: 'lease-expired', leaseId: 'lease-1', userId: 'test-user', reason: 'ttl' };
+
+    env.getMockWorker()!.simulateMessage({ type: 'worker:event', event });
+
+    expect(port.getLastMessage()).toEqual({ type: 'kms:event', event });
+  });
+
+  it('should drop worker events that arrive before the handshake', async () => {
+    const fresh = new KMSClient({ parentOrigin: 'https://allthe.services' });
+    await fresh.init();
+    env.mockParent.clearMessages();
+
+    env.getMockWorker()!.simulateMessage({ type: 'worker:event', event: { type: 'audit-appended' } });
+
+    expect(env.mockParent.receivedMessages).toHaveLength(0);
+    await fresh.terminate();
+  });
+
+  it('should ignore RPCs posted to the window once connected', () => {
+    const request = createRequest('isSetup');
+    const worker = env.getMockWorker();
+    const postMessageSpy = vi.spyOn(worker!, 'postMessage');
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    simulateParentMessage(client, request);
+
+    expect(postMessageSpy).not.toHaveBeenCalled();
+    expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('window.postMessage'));
+    consoleWarnSpy.mockRestore();
   });
 });
 
@@ -331,31 +405,55 @@ describe('origin validation', () => {
     const worker = env.getMockWorker();
     const postMessageSpy = vi.spyOn(worker!, 'postMessage');
 
-    simulateParentMessage(client, request, 'https://allthe.services');
+    connectParent(client, 'https://allthe.services').request(request);
 
     expect(postMessageSpy).toHaveBeenCalledWith(request);
   });
 
   it('should reject messages from invalid origin', () => {
-    const request = createRequest('isSetup');
-    const worker = env.getMockWorker();
-    const postMessageSpy = vi.spyOn(worker!, 'postMessage');
-
-    // Try to send from malicious origin
-    simulateParentMessage(client, request, 'https://evil.com');
+    // Try to connect from malicious origin
+    const port = connectParent(client, 'https://evil.com');
 
-    // Worker should NOT receive the message
-    expect(postMessageSpy).not.toHaveBeenCalled();
+    // No channel is established
+    expect(port.onmessage).toBeNull();
+    expect(port.sent).toHaveLength(0);
   });
 
   it('should reject messages from localhost when expecting production origin', () => {
-    const request = createRequest('isSetup');
-    const worker = env.getMockWorker();
-    const postMessageSpy = vi.spyOn(worker!, 'postMessage');
+    const port = connectParent(client, 'http://localhost:3000');
 
-    simulateParentMessage(client, request, 'http://localhost:3000');
+    expect(port.onmessage).toBeNull();
+  });
 
-    expect(postMessageSpy).not.toHaveBeenCalled();
+  it('should reject a handshake from a window other than the parent', () => {
+    const port = new MockParentPort();
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    simulateParentMessage(client, { type: 'kms:connect', nonce: 'n' }, 'https://allthe.services', {
+      source: { postMessage: vi.fn() },
+      ports: [port],
+    });
+
+    expect(port.onmessage).toBeNull();
+    expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('other than the parent'));
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should honour only the first handshake', () => {
+    const first = connectParent(client);
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const second = connectParent(client);
+
+    expect(second.onmessage).toBeNull();
+    expect(second.sent).toHaveLength(0);
+    expect(first.onmessage).toBeTypeOf('function');
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should refuse to start for a parent origin not on the allowlist', async () => {
+    const evilClient = new KMSClient({ parentOrigin: 'https://evil.com' });
+
+    await expect(evilClient.init()).rejects.toThrow('Parent origin not allowed: https://evil.com');
   });
 
   it('should accept messages from localhost when configured', async () => {
@@ -364,6 +462,7 @@ describe('origin validation', () => {
     // Create new client with localhost origin
     const localhostClient = new KMSClient({
       parentOrigin: 'http://localhost:3000',
+      allowedOrigins: ['http://localhost:3000'],
     });
     await localhostClient.init();
 
@@ -371,7 +470,7 @@ describe('origin validation', () => {
     const worker = env.getMockWorker();
     const postMessageSpy = vi.spyOn(worker!, 'postMessage');
 
-    simulateParentMessage(localhostClient, request, 'http://localhost:3000');
+    connectParent(localhostClient, 'http://localhost:3000').request(request);
 
     expect(postMessageSpy).toHaveBeenCalledWith(request);
 
@@ -412,6 +511,50 @@ describe('error handling', () => {
     consoleErrorSpy.mockRestore();
   });
 
+  it('should relay heartbeats to the worker until it fails, then report the failure', () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const port = connectParent(client);
+    const worker = env.getMockWorker()!;
+    const postMessageSpy = vi.spyOn(worker, 'postMessage');
+    port.sent = [];
+
+    // A worker that does not answer leaves the heartbeat unanswered
+    port.request({ type: 'kms:ping', nonce: 'n1' });
+    expect(postMessageSpy).toHaveBeenCalledWith({ type: 'kms:ping', nonce: 'n1' });
+    expect(port.sent).toEqual([]);
+    worker.simulateMessage({ type: 'kms:pong', nonce: 'n1' });
+    expect(port.sent).toEqual([{ type: 'kms:pong', nonce: 'n1' }]);
+
+    worker.simulateError('Worker crashed');
+    port.request({ type: 'kms:ping', nonce: 'n2' });
+    expect(postMessageSpy).toHaveBeenCalledTimes(1);
+    expect(port.sent).toEqual([
+      { type: 'kms:pong', nonce: 'n1' },
+      { type: 'kms:worker-error', message: 'Worker crashed' },
+    ]);
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should drop parent-port messages that are not well-formed RPC requests', () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const port = connectParent(client);
+    const postMessageSpy = vi.spyOn(env.getMockWorker()!, 'postMessage');
+
+    // Worker control messages: a parent must not answer an enclave ceremony
+    port.request({ type: 'worker:safety-compared', requestId: 'verify-1', match: true });
+    port.request({ type: 'worker:reset-confirmed', requestId: 'reset-1' });
+    port.request({ type: 'worker:backup-confirmed', requestId: 'backup-1' });
+    // An RPC with a type field, an unknown method, or no string id
+    port.request({ ...createRequest('isSetup'), type: 'worker:safety-compared' });
+    port.request(createRequest('notAMethod'));
+    port.request({ id: 42, method: 'isSetup' });
+    port.request(null);
+
+    expect(postMessageSpy).not.toHaveBeenCalled();
+    expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('not an RPC request'));
+    consoleWarnSpy.mockRestore();
+  });
+
   it('should not forward messages before initialization', async () => {
     const uninitializedClient = new KMSClient({
       parentOrigin: 'https://allthe.services',
@@ -421,7 +564,7 @@ describe('error handling', () => {
     const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
     // Try to send message before init
-    simulateParentMessage(uninitializedClient, request);
+    (uninitializedClient as any).handleParentRequest(request);
 
     expect(consoleErrorSpy).toHaveBeenCalled();
     consoleErrorSpy.mockRestore();
@@ -455,14 +598,18 @@ describe('error handling', () => {
     });
 
     // Should not throw, should log error and send error response to parent
-    simulateParentMessage(client, request);
+    const port = connectParent(client);
+    port.request(request);
 
     expect(consoleErrorSpy).toHaveBeenCalled();
 
     // Should send error response to parent
-    const lastMessage = env.mockParent.getLastMessage();
-    expect(lastMessage.data.id).toBe(request.id);
-    expect(lastMessage.data.error).toContain('Failed to forward message');
+    const lastMessage = port.getLastMessage();
+    expect(lastMessage.id).toBe(request.id);
+    expect(lastMessage.error).toMatchObject({
+      code: 'INTERNAL',
+      message: expect.stringContaining('Failed to forward message'),
+    });
 
     consoleErrorSpy.mockRestore();
   });
@@ -556,6 +703,7 @@ describe('legacy send() API', () => {
 describe('authentication interception', () => {
   let env: ReturnType<typeof setupTestEnvironment>;
   let client: KMSClient;
+  let port: MockParentPort;
 
   beforeEach(async () => {
     env = setupTestEnvironment();
@@ -564,6 +712,8 @@ describe('authentication interception', () => {
     });
     await client.init();
     env.mockParent.clearMessages();
+    port = connectParent(client);
+    port.sent = [];
   });
 
   afterEach(async () => {
@@ -576,11 +726,16 @@ describe('authentication interception', () => {
     'generateVAPID',
     'signJWT',
     'regenerateVAPID',
+    'rotateVAPID',
+    'retireVAPIDKey',
     'addEnrollment',
     'setupMessaging',
     'provisionMessaging',
     'setupAccountRoot',
     'openMessaging',
+    'resetKMS',
+    'exportBackup',
+    'importBackup',
   ];
 
   // Messaging methods route to the top-level popup, which first makes a
@@ -591,6 +746,9 @@ describe('authentication interception', () => {
     'provisionMessaging',
     'setupAccountRoot',
     'openMessaging',
+    'resetKMS',
+    'exportBackup',
+    'importBackup',
   ];
 
   authRequiredMethods.forEach((method) => {
@@ -600,7 +758,7 @@ describe('authentication interception', () => {
       const postMessageSpy = vi.spyOn(worker!, 'postMessage');
 
       // Simulate parent sending auth-required request
-      simulateParentMessage(client, request);
+      port.request(request);
 
       if (messagingUnlockMethods.includes(method)) {
         // Popup flow: a getMessagingUnlockOptions RPC may be sent, but never the
@@ -613,6 +771,68 @@ describe('authentication interception', () => {
     });
   });
 
+  it('should show the unlock modal even when the parent supplies credentials', () => {
+    const request = createRequest('createLease', {
+      userId: 'test-user',
+      credentials: { method: 'passphrase', userId: 'test-user', passphrase: 'from-the-parent' },
+    });
+    const postMessageSpy = vi.spyOn(env.getMockWorker()!, 'postMessage');
+
+    port.request(request);
+
+    expect(postMessageSpy).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a method whose policy needs confirmation that no enclave UI gives', () => {
+    const policies = OPERATION_POLICIES as Record<RPCMethod, OperationPolicy>;
+    const original = policies.isSetup;
+    policies.isSetup = { ...original, kmsConfirmation: true };
+    try {
+      const request = createRequest('isSetup');
+      const postMessageSpy = vi.spyOn(env.getMockWorker()!, 'postMessage');
+
+      port.request(request);
+
+      expect(postMessageSpy).not.toHaveBeenCalled();
+      expect(port.getLastMessage()).toMatchObject({
+        id: request.id,
+        error: { code: 'POLICY_DENIED', message: expect.stringContaining('kmsConfirmation') },
+      });
+    } finally {
+      policies.isSetup = original;
+    }
+  });
+
+  it('should cancel a reset confirmation when no popup is open', () => {
+    const worker = env.getMockWorker();
+    const postMessageSpy = vi.spyOn(worker!, 'postMessage');
+
+    worker!.simulateMessage({ type: 'worker:confirm-reset', requestId: 'reset-1', userId: 'test-user' });
+
+    expect(postMessageSpy).toHaveBeenCalledWith({
+      type: 'worker:reset-cancelled',
+      requestId: 'reset-1',
+      reason: 'No popup available to confirm the reset',
+    });
+    // The prompt never reaches the parent PWA
+    expect(env.mockParent.receivedMessages).toHaveLength(0);
+    expect(port.sent).toHaveLength(0);
+  });
+
+  it('should relay a reset confirmation to the open popup', () => {
+    const worker = env.getMockWorker();
+    const popupPort = { postMessage: vi.fn() };
+    (client as any).messagingPopupPort = popupPort;
+
+    worker!.simulateMessage({ type: 'worker:confirm-reset', requestId: 'reset-2', userId: 'test-user', nonce: 'n-2' });
+
+    // The nonce stays in the client: neither the popup nor the parent sees it
+    expect(popupPort.postMessage).toHaveBeenCalledWith({ type: 'popup:confirm-reset', userId: 'test-user' });
+    expect((client as any).messagingPopupNonce).toBe('n-2');
+    expect(env.mockParent.receivedMessages).toHaveLength(0);
+    expect(port.sent).toHaveLength(0);
+  });
+
   it('should forward non-auth-required methods immediately', () => {
     const nonAuthMethods = ['isSetup', 'getEnrollments', 'verifyAuditChain', 'getAuditLog'];
 
@@ -621,7 +841,7 @@ describe('authentication interception', () => {
       const worker = env.getMockWorker();
       const postMessageSpy = vi.spyOn(worker!, 'postMessage');
 
-      simulateParentMessage(client, request);
+      port.request(request);
 
       expect(postMessageSpy).toHaveBeenCalledWith(request);
     });
@@ -734,12 +954,13 @@ describe('setupWithPopup flow', () => {
   });
 
   it('should send worker:popup-error if parentOrigin not configured', async () => {
-    // Create client without parentOrigin
+    // init() refuses an origin outside the allowlist, so clear it afterwards
     await client.terminate();
     const clientWithoutOrigin = new KMSClient({
-      parentOrigin: '',
+      parentOrigin: 'https://allthe.services',
     });
     await clientWithoutOrigin.init();
+    (clientWithoutOrigin as any).parentOrigin = '';
 
     const setupMessage = {
       type: 'worker:setup-with-popup',
@@ -804,6 +1025,7 @@ describe('setupWithPopup flow', () => {
 describe('client integration', () => {
   let env: ReturnType<typeof setupTestEnvironment>;
   let client: KMSClient;
+  let port: MockParentPort;
 
   beforeEach(async () => {
     env = setupTestEnvironment();
@@ -812,6 +1034,8 @@ describe('client integration', () => {
     });
     await client.init();
     env.mockParent.clearMessages();
+    port = connectParent(client);
+    port.sent = [];
   });
 
   afterEach(async () => {
@@ -824,7 +1048,7 @@ describe('client integration', () => {
     const worker = env.getMockWorker();
 
     // Parent sends request
-    simulateParentMessage(client, request);
+    port.request(request);
 
     // Worker processes and sends response (simulated)
     const response: RPCResponse = {
@@ -834,8 +1058,7 @@ describe('client integration', () => {
     worker!.simulateMessage(response);
 
     // Check parent received response
-    const lastMessage = env.mockParent.getLastMessage();
-    expect(lastMessage.data).toEqual(response);
+    expect(port.getLastMessage()).toEqual(response);
   });
 
   it('should handle multiple concurrent requests', () => {
@@ -845,8 +1068,8 @@ describe('client integration', () => {
     const postMessageSpy = vi.spyOn(worker!, 'postMessage');
 
     // Send multiple requests
-    simulateParentMessage(client, request1);
-    simulateParentMessage(client, request2);
+    port.request(request1);
+    port.request(request2);
 
     expect(postMessageSpy).toHaveBeenCalledTimes(2);
     expect(postMessageSpy).toHaveBeenNthCalledWith(1, request1);
@@ -860,10 +1083,11 @@ describe('client integration', () => {
     const postMessageSpy = vi.spyOn(worker!, 'postMessage');
 
     // Valid message
-    simulateParentMessage(client, request1, 'https://allthe.services');
+    port.request(request1);
 
-    // Invalid message
-    simulateParentMessage(client, request2, 'https://evil.com');
+    // Invalid message: a second handshake from another origin opens no channel
+    const evilPort = connectParent(client, 'https://evil.com');
+    evilPort.request(request2);
 
     // Only valid message should be forwarded
     expect(postMessageSpy).toHaveBeenCalledTimes(1);
@@ -1293,6 +1517,51 @@ describe('popup unlock UX (BUG-011)', () => {
       expect(() => client.showMnemonicCeremony(MNEMONIC)).not.toThrow();
     });
   });
+
+  describe('reset confirmation', () => {
+    let port: { postMessage: ReturnType<typeof vi.fn> };
+    beforeEach(() => {
+      const modal = document.createElement('div');
+      modal.id = 'reset-modal';
+      modal.className = 'kms-modal hidden';
+      modal.innerHTML = `
+        <div id="kms-reset-prompt">
+          <strong id="kms-reset-user"></strong>
+          <button id="kms-reset-cancel"></button>
+          <button id="kms-reset-confirm"></button>
+        </div>
+        <div id="kms-reset-finishing" class="hidden"></div>`;
+      document.body.appendChild(modal);
+      port = { postMessage: vi.fn() };
+      (client as any).credentialPort = port;
+    });
+
+    it('shows the account being reset', () => {
+      client.showResetConfirmation('user@example.com');
+      expect(document.getElementById('reset-modal')!.classList.contains('hidden')).toBe(false);
+      expect(document.getElementById('kms-reset-user')!.textContent).toBe('user@example.com');
+    });
+
+    it('posts reset-confirmed on confirm', () => {
+      client.showResetConfirmation('user@example.com');
+      (document.getElementById('kms-reset-confirm') as HTMLButtonElement).click();
+      expect(port.postMessage).toHaveBeenCalledWith({ type: 'popup:reset-confirmed' });
+      expect(document.getElementById('kms-reset-finishing')!.classList.contains('hidden')).toBe(false);
+    });
+
+    it('posts reset-cancelled on cancel', () => {
+      client.showResetConfirmation('user@example.com');
+      (document.getElementById('kms-reset-cancel') as HTMLButtonElement).click();
+      expect(port.postMessage).toHaveBeenCalledWith({ type: 'popup:reset-cancelled' });
+      expect(port.postMessage).not.toHaveBeenCalledWith({ type: 'popup:reset-confirmed' });
+    });
+
+    it('cancels when the modal is missing', () => {
+      document.getElementById('reset-modal')!.remove();
+      client.showResetConfirmation('user@example.com');
+      expect(port.postMessage).toHaveBeenCalledWith({ type: 'popup:reset-cancelled' });
+    });
+  });
 });
 
 // ============================================================================
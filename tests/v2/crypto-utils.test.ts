@@ -32,6 +32,8 @@ import {
   timingSafeEqual,
   deriveDeterministicSalt,
   calibratePBKDF2Iterations,
+  calibrateArgon2idParams,
+  ARGON2ID_BOUNDS,
   getPlatformHash,
 } from '@/v2/crypto-utils';
 
@@ -665,6 +667,32 @@ describe('calibratePBKDF2Iterations', () => {
   });
 });
 
+describe('calibrateArgon2idParams', () => {
+  it('should not go below the floor for a short target', async () => {
+    const { params, measuredMs } = await calibrateArgon2idParams({ min: 1, max: 2, mid: 1.5 });
+    expect(measuredMs).toBeGreaterThan(0);
+    expect(params).toEqual({
+      memoryKiB: ARGON2ID_BOUNDS.minMemoryKiB,
+      iterations: ARGON2ID_BOUNDS.minIterations,
+      parallelism: 1,
+    });
+  });
+
+  it('should add passes once memory reaches its ceiling', async () => {
+    const { params } = await calibrateArgon2idParams({ min: 1e9, max: 1e9, mid: 1e9 });
+    expect(params).toEqual({
+      memoryKiB: ARGON2ID_BOUNDS.maxMemoryKiB,
+      iterations: ARGON2ID_BOUNDS.maxIterations,
+      parallelism: 1,
+    });
+  });
+
+  it('should size memory in whole MiB', async () => {
+    const { params } = await calibrateArgon2idParams();
+    expect(params.memoryKiB % 1024).toBe(0);
+  });
+});
+
 // ============================================================================
 // Platform Hash Tests
 // ============================================================================
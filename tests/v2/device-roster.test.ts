@@ -0,0 +1,82 @@
+/**
+ * Device rosters (rooms-and-trust §2.4): a roster built with nextDeviceRoster
+ * round-trips through sign/open under the account's master key, versions move
+ * forward only, revocation is permanent, and anything not signed by the expected
+ * master — or tampered with — fails closed.
+ *
+ * Runs in the `node` environment for native Ed25519.
+ */
+
+// @vitest-environment node
+
+import { describe, it, expect } from 'vitest';
+import {
+  nextDeviceRoster,
+  signDeviceRoster,
+  openDeviceRoster,
+  rosterDeviceId,
+  isDeviceRevoked,
+} from '@/v2/device-roster';
+import { deriveMasterSigningKey, masterSigningPublicRaw } from '@/v2/master-identity';
+
+const ROOT = new Uint8Array(16).fill(0xa1);
+
+function device(fill: number): { identityKey: Uint8Array; identitySigningKey: Uint8Array } {
+  const identityKey = new Uint8Array(33).fill(fill);
+  identityKey[0] = 0x05;
+  return { identityKey, identitySigningKey: new Uint8Array(32).fill(fill) };
+}
+
+describe('nextDeviceRoster', () => {
+  it('adds devices, moves revoked ones out, and bumps the version', () => {
+    const first = nextDeviceRoster(null, 'alice', { add: [device(1), device(2)] }, 1000);
+    expect(first.version).toBe(1);
+    expect(first.devices.map((d) => d.ik)).toEqual([
+      rosterDeviceId(device(1).identityKey),
+      rosterDeviceId(device(2).identityKey),
+    ]);
+    expect(first.revoked).toEqual([]);
+
+    const second = nextDeviceRoster(first, 'alice', { revoke: [device(2).identityKey] }, 2000);
+    expect(second.version).toBe(2);
+    expect(second.devices).toHaveLength(1);
+    expect(isDeviceRevoked(second, device(2).identityKey)).toBe(true);
+    expect(isDeviceRevoked(second, device(1).identityKey)).toBe(false);
+  });
+
+  it('refuses to re-add a revoked device', () => {
+    const roster = nextDeviceRoster(null, 'alice', { revoke: [device(3).identityKey] });
+    expect(() => nextDeviceRoster(roster, 'alice', { add: [device(3)] })).toThrow(/cannot rejoin/);
+  });
+
+  it('names a device the same in raw and 0x05-prefixed form', () => {
+    const prefixed = device(4).identityKey;
+    expect(rosterDeviceId(prefixed)).toBe(rosterDeviceId(prefixed.subarray(1)));
+  });
+});
+
+describe('signDeviceRoster / openDeviceRoster', () => {
+  it('round-trips under the master signing key', async () => {
+    const roster = nextDeviceRoster(null, 'alice', { add: [device(1)], revoke: [device(2).identityKey] }, 1000);
+    const signed = await signDeviceRoster(roster, await deriveMasterSigningKey(ROOT));
+    await expect(openDeviceRoster(signed, await masterSigningPublicRaw(ROOT))).resolves.toEqual(roster);
+  });
+
+  it("rejects another account's key, a tampered body, and garbage", async () => {
+    const roster = nextDeviceRoster(null, 'alice', { add: [device(1)] }, 1000);
+    const signed = await signDeviceRoster(roster, await deriveMasterSigningKey(ROOT));
+    const other = await masterSigningPublicRaw(new Uint8Array(16).fill(0xb2));
+    await expect(openDeviceRoster(signed, other)).rejects.toThrow(/Invalid device roster/);
+
+    // Re-sign nothing, but claim a higher version in the body.
+    const envelope = JSON.parse(new TextDecoder().decode(signed)) as { body: string; sig: string };
+    const body = JSON.parse(Buffer.from(envelope.body, 'base64url').toString()) as { version: number };
+    body.version = 99;
+    const forged = new TextEncoder().encode(
+      JSON.stringify({ body: Buffer.from(JSON.stringify(body)).toString('base64url'), sig: envelope.sig })
+    );
+    const msk = await masterSigningPublicRaw(ROOT);
+    await expect(openDeviceRoster(forged, msk)).rejects.toThrow(/Invalid device roster/);
+    await expect(openDeviceRoster(new TextEncoder().encode('not json'), msk)).rejects.toThrow(/Invalid device roster/);
+  });
+});
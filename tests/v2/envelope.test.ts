@@ -16,13 +16,16 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { IDBFactory } from 'fake-indexeddb';
 import {
+  ChainType,
   SessionBuilder,
   SessionCipher,
   SignalProtocolAddress,
 } from '@lukium/libsignal-protocol-typescript';
+import { SessionRecord } from '@lukium/libsignal-protocol-typescript/session-record';
 import type { DeviceType } from '@lukium/libsignal-protocol-typescript';
 
-import { initDB, closeDB, countUnconsumedOnetimePrekeys } from '@/v2/storage';
+import { initDB, closeDB, countUnconsumedOnetimePrekeys, getSignalTrustedIdentity } from '@/v2/storage';
+import { getContactTrust, recordContactIdentity } from '@/v2/trust-store';
 import {
   createSignalProtocolStore,
   generateIdentity,
@@ -37,10 +40,22 @@ import {
   parseBundle,
   buildFanoutBundle,
   trialDecryptEnvelope,
+  preKeyIdentityKey,
   openFanoutBundle,
+  sendTransportTag,
+  expectedTransportTags,
+  transportTagEpoch,
+  planDecryptAttempts,
+  sealEnvelope,
+  unsealEnvelope,
+  TRANSPORT_TAG_BYTES,
+  TRANSPORT_TAG_EPOCH_MS,
+  TAG_CHAIN_LOOKAHEAD,
   ENVELOPE_TYPE_PREKEY,
   ENVELOPE_TYPE_WHISPER,
+  ENVELOPE_TYPE_SEALED,
   type Envelope,
+  type SenderCertificate,
 } from '@/v2/envelope';
 
 const utf8 = new TextEncoder();
@@ -94,7 +109,7 @@ afterEach(() => {
 });
 
 describe('serializeBundle / parseBundle', () => {
-  it('round-trips envelopes (bytes preserved, tag reserved)', () => {
+  it('round-trips envelopes (bytes preserved, untagged stays untagged)', () => {
     const envelopes: Envelope[] = [
       { type: ENVELOPE_TYPE_PREKEY, body: new Uint8Array([1, 2, 3]) },
       { type: ENVELOPE_TYPE_WHISPER, body: new Uint8Array([9, 8, 7, 6]) },
@@ -108,7 +123,7 @@ describe('serializeBundle / parseBundle', () => {
     for (const e of parsed) expect(e.tag).toBeUndefined();
   });
 
-  it('preserves a reserved tag when present', () => {
+  it('preserves a tag when present', () => {
     const parsed = parseBundle(
       serializeBundle([{ type: 1, body: new Uint8Array([0]), tag: new Uint8Array([42, 43]) }])
     );
@@ -189,6 +204,28 @@ describe('multi-device fan-out (milestone)', () => {
     expect(await countUnconsumedOnetimePrekeys('b1')).toBe(4);
   });
 
+  it("a failed trial records no identity and leaves the candidate sender's contact unflagged", async () => {
+    const a1 = await makeDevice('a1', 100);
+    const b1 = await makeDevice('b1', 300);
+    const b2 = await makeDevice('b2', 400);
+    const c1 = await makeDevice('c1', 500);
+
+    // B1 knows A1 from a first message, and has A1's account in its ledger.
+    const b1FromA1 = new SessionCipher(b1.store, a1.addr);
+    const hello = await buildFanoutBundle([await outboundCipher(a1, b1)], utf8.encode('hello'));
+    expect(await openFanoutBundle([b1FromA1], hello)).not.toBeNull();
+    await recordContactIdentity('b1', 'a1', { msk: 'msk', mek: 'mek' });
+    const known = await getSignalTrustedIdentity('b1', a1.addr.toString());
+
+    // C1's PreKey envelope for B2 carries C1's identity key; B1 tries it as A1's.
+    const forB2 = await buildFanoutBundle([await outboundCipher(c1, b2)], utf8.encode('not for b1'));
+    expect(await openFanoutBundle([b1FromA1], forB2)).toBeNull();
+
+    const after = await getSignalTrustedIdentity('b1', a1.addr.toString());
+    expect(new Uint8Array(after!.identityPubKey)).toEqual(new Uint8Array(known!.identityPubKey));
+    expect((await getContactTrust('b1', 'a1'))?.state).toBe('unverified');
+  });
+
   it('trialDecryptEnvelope returns null for an unknown envelope type', async () => {
     const a1 = await makeDevice('a1', 100);
     const b1 = await makeDevice('b1', 300);
@@ -221,3 +258,226 @@ describe('encryptEnvelope', () => {
     expect(second.type).toBe(ENVELOPE_TYPE_WHISPER);
   });
 });
+
+describe('preKeyIdentityKey', () => {
+  it("reads the sender's identity key from a PreKey envelope without decrypting it", async () => {
+    const a1 = await makeDevice('a1', 100);
+    const b1 = await makeDevice('b1', 300);
+    const toB1 = await outboundCipher(a1, b1);
+    const first = await encryptEnvelope(toB1, utf8.encode('one'));
+
+    expect(preKeyIdentityKey(first)).toEqual(new Uint8Array((await a1.store.getIdentityKeyPair())!.pubKey));
+    expect(await getSignalTrustedIdentity('b1', 'a1.1')).toBeNull();
+
+    // Whisper and truncated bodies carry no readable key
+    expect(preKeyIdentityKey({ ...first, type: ENVELOPE_TYPE_WHISPER })).toBeNull();
+    expect(preKeyIdentityKey({ ...first, body: first.body.slice(0, first.body.length - 1) })).toBeNull();
+  });
+});
+
+describe('transport tags', () => {
+  /** a1 -> b1 over a session b1 has opened the first message of. */
+  async function pair(): Promise<{ a1: Device; b1: Device; toB1: SessionCipher; fromA1: SessionCipher }> {
+    const a1 = await makeDevice('a1', 100);
+    const b1 = await makeDevice('b1', 300);
+    const toB1 = await outboundCipher(a1, b1);
+    const fromA1 = new SessionCipher(b1.store, a1.addr);
+    expect(await trialDecryptEnvelope(fromA1, await encryptEnvelope(toB1, utf8.encode('hello')))).not.toBeNull();
+    return { a1, b1, toB1, fromA1 };
+  }
+
+  /** The tag `from` puts on its next envelope to `to`, and the tags `to` expects from `from`. */
+  const nextTag = async (from: Device, to: Device, now: number): Promise<Uint8Array | undefined> =>
+    sendTransportTag(await from.store.loadSession(to.addr.toString()), now);
+  const expects = async (at: Device, from: Device, tag: Uint8Array | undefined, now: number): Promise<boolean> =>
+    (await expectedTransportTags(await at.store.loadSession(from.addr.toString()), now)).some((t) =>
+      sameBytes(t, tag!)
+    );
+
+  const sameBytes = (a: Uint8Array, b: Uint8Array): boolean => Array.from(a).join() === Array.from(b).join();
+  const now = Date.UTC(2026, 0, 1);
+
+  it("the recipient expects the tag of the sender's next message on their session", async () => {
+    const { a1, b1 } = await pair();
+    const tag = await nextTag(a1, b1, now);
+    expect(tag).toHaveLength(TRANSPORT_TAG_BYTES);
+    expect(await expects(b1, a1, tag, now)).toBe(true);
+    // The sender does not expect its own tag back.
+    expect(await expects(a1, b1, tag, now)).toBe(false);
+  });
+
+  it('has nothing to tag or expect without a session', async () => {
+    expect(await sendTransportTag(undefined, now)).toBeUndefined();
+    expect(await expectedTransportTags(undefined, now)).toEqual([]);
+  });
+
+  it('falls back to no tags on a corrupt or unexpected session record', async () => {
+    const { a1, b1 } = await pair();
+    const record = JSON.parse((await b1.store.loadSession(a1.addr.toString()))!) as {
+      sessions: Record<string, { chains: unknown; currentRatchet: unknown }>;
+    };
+    const session = Object.values(record.sessions)[0]!;
+    const withoutChains = JSON.stringify({ ...record, sessions: { x: { ...session, chains: {} } } });
+    const withoutRatchet = JSON.stringify({ ...record, sessions: { x: { ...session, currentRatchet: null } } });
+
+    for (const bad of ['not json', '{}', '{"sessions":null}', withoutChains, withoutRatchet]) {
+      expect(await sendTransportTag(bad, now)).toBeUndefined();
+      expect(await expectedTransportTags(bad, now)).toEqual([]);
+    }
+  });
+
+  it("reads the chains the fork's SessionRecord keeps for the open session", async () => {
+    // Pins the fork layout the tags are read from: chains filed under the
+    // standard base64 of their ratchet key, a fresh sending chain at counter -1.
+    const { a1, b1 } = await pair();
+    const index = (key: ArrayBuffer): string => btoa(String.fromCharCode(...new Uint8Array(key)));
+
+    const sender = SessionRecord.deserialize((await a1.store.loadSession(b1.addr.toString()))!).getOpenSession()!;
+    const sending = sender.chains[index(sender.currentRatchet.ephemeralKeyPair!.pubKey)]!;
+    expect(sending.chainType).toBe(ChainType.SENDING);
+    expect(sending.chainKey.key).toBeInstanceOf(ArrayBuffer);
+
+    const recipient = SessionRecord.deserialize((await b1.store.loadSession(a1.addr.toString()))!).getOpenSession()!;
+    const receiving = recipient.chains[index(recipient.currentRatchet.lastRemoteEphemeralKey)]!;
+    expect(receiving.chainType).toBe(ChainType.RECEIVING);
+    expect(receiving.chainKey.counter).toBe(0);
+    expect(recipient.chains[index(recipient.currentRatchet.ephemeralKeyPair!.pubKey)]!.chainKey.counter).toBe(-1);
+  });
+
+  it('moves forward with every message, looking a few messages ahead', async () => {
+    const { a1, b1, toB1, fromA1 } = await pair();
+    const sent: Array<{ tag: Uint8Array; envelope: Envelope }> = [];
+    for (let i = 0; i < TAG_CHAIN_LOOKAHEAD + 2; i++) {
+      const tag = (await nextTag(a1, b1, now))!;
+      sent.push({ tag, envelope: await encryptEnvelope(toB1, utf8.encode(`m${i}`), tag) });
+    }
+    expect(new Set(sent.map(({ tag }) => Array.from(tag).join())).size).toBe(sent.length);
+
+    // b1 has read none of them: it recognises the next one and the look-ahead.
+    const recognised = await Promise.all(sent.map(({ tag }) => expects(b1, a1, tag, now)));
+    expect(recognised).toEqual([...Array<boolean>(TAG_CHAIN_LOOKAHEAD + 1).fill(true), false]);
+
+    // Once read, a message's tag is no longer expected; the ones after it now all are.
+    expect(await trialDecryptEnvelope(fromA1, sent[0]!.envelope)).not.toBeNull();
+    expect(await expects(b1, a1, sent[0]!.tag, now)).toBe(false);
+    expect(await expects(b1, a1, sent.at(-1)!.tag, now)).toBe(true);
+  });
+
+  it('tags the first message after a reply from the chain the reply came in on', async () => {
+    const { a1, b1, toB1, fromA1 } = await pair();
+
+    // b1's reply starts a ratchet step a1 has not seen: it is tagged from b1's receiving chain.
+    const reply = (await nextTag(b1, a1, now))!;
+    expect(await expects(a1, b1, reply, now)).toBe(true);
+    expect(await trialDecryptEnvelope(toB1, await encryptEnvelope(fromA1, utf8.encode('reply'), reply))).not.toBeNull();
+
+    // a1 answers on a new ratchet step b1 has not seen either.
+    const answer = (await nextTag(a1, b1, now))!;
+    expect(sameBytes(answer, reply)).toBe(false);
+    expect(await expects(b1, a1, answer, now)).toBe(true);
+    const answered = await encryptEnvelope(toB1, utf8.encode('answer'), answer);
+
+    // a1's next message is on that step's chain: b1 knows it once it has read the answer.
+    const more = (await nextTag(a1, b1, now))!;
+    expect(await expects(b1, a1, more, now)).toBe(false);
+    expect(await trialDecryptEnvelope(fromA1, answered)).not.toBeNull();
+    expect(await expects(b1, a1, more, now)).toBe(true);
+  });
+
+  it('rotates every epoch; a recipient recognises recent epochs but not stale ones', async () => {
+    const { a1, b1 } = await pair();
+    const tag = await nextTag(a1, b1, now);
+    expect(sameBytes((await nextTag(a1, b1, now + TRANSPORT_TAG_EPOCH_MS))!, tag!)).toBe(false);
+    expect(transportTagEpoch(now + TRANSPORT_TAG_EPOCH_MS)).toBe(transportTagEpoch(now) + 1);
+
+    const later = (epochs: number): Promise<boolean> => expects(b1, a1, tag, now + epochs * TRANSPORT_TAG_EPOCH_MS);
+    expect(await later(24)).toBe(true); // delayed delivery
+    expect(await later(-1)).toBe(true); // sender clock ahead
+    expect(await later(25)).toBe(false);
+    expect(await later(-2)).toBe(false);
+  });
+
+  it("another device's session does not recognise the tag", async () => {
+    const { a1, b1 } = await pair();
+    const c1 = await makeDevice('c1', 500);
+    const toC1 = await outboundCipher(a1, c1);
+    await trialDecryptEnvelope(new SessionCipher(c1.store, a1.addr), await encryptEnvelope(toC1, utf8.encode('hi')));
+    const tag = await nextTag(a1, b1, now);
+    expect(await expects(c1, a1, tag, now)).toBe(false);
+  });
+
+  it('encryptEnvelope carries the tag through the bundle', async () => {
+    const { a1, b1, toB1 } = await pair();
+    const tag = (await nextTag(a1, b1, Date.now()))!;
+    const envelope = await encryptEnvelope(toB1, utf8.encode('tagged'), tag);
+    const [parsed] = parseBundle(serializeBundle([envelope]));
+    expect(sameBytes(parsed!.tag!, tag)).toBe(true);
+  });
+});
+
+describe('planDecryptAttempts', () => {
+  const env = (n: number, tag?: number[]): Envelope =>
+    tag ? { type: 1, body: new Uint8Array([n]), tag: new Uint8Array(tag) } : { type: 1, body: new Uint8Array([n]) };
+  const summary = (attempts: ReturnType<typeof planDecryptAttempts>): string[] =>
+    attempts.map((a) => `${a.envelope.body[0]}:${a.sender}${a.tagged ? '*' : ''}`);
+
+  it('decrypts a recognised envelope with its sender alone, before any trial', () => {
+    const plan = planDecryptAttempts(
+      [env(0, [9, 9]), env(1, [2, 2]), env(2, [1, 1])],
+      [[new Uint8Array([1, 1])], [new Uint8Array([2, 2])]]
+    );
+    expect(summary(plan).slice(0, 2)).toEqual(['1:1*', '2:0*']);
+    // The unrecognised envelope still falls back to every sender.
+    expect(summary(plan).slice(2)).toEqual(['0:0', '0:1']);
+  });
+
+  it('falls back to trial decryption, trying senders with unknown tags first', () => {
+    const plan = planDecryptAttempts([env(0), env(1, [7])], [[new Uint8Array([1])], null]);
+    expect(summary(plan)).toEqual(['0:1', '0:0', '1:1', '1:0']);
+  });
+});
+
+describe('sealEnvelope / unsealEnvelope', () => {
+  const sender: SenderCertificate = {
+    peerName: 'a',
+    peerDeviceId: 7,
+    identityKey: new Uint8Array(33).fill(5),
+    identitySigningKey: new Uint8Array(32).fill(1),
+    masterSigningPub: new Uint8Array(32).fill(2),
+    deviceCert: new Uint8Array(64).fill(3),
+  };
+
+  it('only the addressed device unseals, recovering the sender and a working inner envelope', async () => {
+    const a1 = await makeDevice('a1', 100);
+    const b1 = await makeDevice('b1', 300);
+    const c1 = await makeDevice('c1', 500);
+    const bId = (await b1.store.getIdentityKeyPair())!;
+    const inner = await encryptEnvelope(await outboundCipher(a1, b1), utf8.encode('sealed'));
+    const sealed = await sealEnvelope(inner, sender, bId.pubKey);
+    expect(sealed.type).toBe(ENVELOPE_TYPE_SEALED);
+    expect(sealed.tag).toBeUndefined();
+
+    const [parsed] = parseBundle(serializeBundle([sealed]));
+    expect(await unsealEnvelope(parsed!, (await c1.store.getIdentityKeyPair())!)).toBeNull();
+    const opened = await unsealEnvelope(parsed!, bId);
+    expect(opened?.sender).toEqual(sender);
+    const fromA = new SessionCipher(b1.store, new SignalProtocolAddress('a1', 1));
+    expect(fromUtf8.decode((await trialDecryptEnvelope(fromA, opened!.envelope))!)).toBe('sealed');
+  });
+
+  it('ignores unsealed or tampered envelopes and rejects malformed certificates', async () => {
+    const b1 = await makeDevice('b1', 300);
+    const bId = (await b1.store.getIdentityKeyPair())!;
+    const inner: Envelope = { type: ENVELOPE_TYPE_WHISPER, body: new Uint8Array([1, 2, 3]) };
+    expect(await unsealEnvelope(inner, bId)).toBeNull();
+
+    const sealed = await sealEnvelope(inner, sender, bId.pubKey);
+    const body = sealed.body.slice();
+    body[body.length - 1]! ^= 1;
+    expect(await unsealEnvelope({ ...sealed, body }, bId)).toBeNull();
+
+    await expect(sealEnvelope(inner, { ...sender, deviceCert: new Uint8Array(63) }, bId.pubKey)).rejects.toThrow(
+      /deviceCert must be 64 bytes/
+    );
+  });
+});
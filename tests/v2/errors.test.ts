@@ -0,0 +1,81 @@
+/**
+ * @file errors.test.ts
+ * @description Tests for the typed KMS errors and their RPC wire form
+ * (errors.ts). The KMSUser decoding is covered in kms-user.test.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  KMSError,
+  LeaseExpiredError,
+  ValidationError,
+  isRPCErrorCode,
+  toRPCErrorDetail,
+} from '@/v2/errors';
+import { QuotaExceededError } from '@/v2/rate-limit';
+import { RPCValidationError } from '@/v2/rpc-validation';
+import { OperationPolicyError } from '@/v2/operation-policy';
+
+describe('KMSError', () => {
+  it('should derive recovery hints from the code', () => {
+    const expired = new LeaseExpiredError();
+    expect(expired).toBeInstanceOf(KMSError);
+    expect(expired).toMatchObject({ code: 'LEASE_EXPIRED', message: 'Lease expired', retryAfterMs: null });
+    expect(expired.retryable).toBe(false);
+    expect(expired.requiresReauth).toBe(true);
+
+    const timeout = new KMSError('TIMEOUT', 'Request timeout');
+    expect(timeout.retryable).toBe(true);
+    expect(timeout.requiresReauth).toBe(false);
+  });
+
+  it('should only mark a quota rejection retryable when it can ever fit', () => {
+    const later = new QuotaExceededError('sendsPerMinute', 6000);
+    const never = new QuotaExceededError('tokensPerHour', null);
+
+    expect(later).toMatchObject({ code: 'QUOTA_EXCEEDED', retryable: true, retryAfterMs: 6000 });
+    expect(never.retryable).toBe(false);
+  });
+
+  it('should code validation and policy errors', () => {
+    expect(new RPCValidationError('createLease', 'userId', 'string', 1)).toBeInstanceOf(ValidationError);
+    expect(new RPCValidationError('createLease', 'userId', 'string', 1).code).toBe('VALIDATION');
+    expect(new OperationPolicyError('createLease', 'maxTtl', 'too long').code).toBe('POLICY_DENIED');
+  });
+});
+
+describe('toRPCErrorDetail', () => {
+  it('should send a KMSError with its code', () => {
+    expect(toRPCErrorDetail(new ValidationError('bad input'))).toEqual({
+      code: 'VALIDATION',
+      message: 'bad input',
+    });
+    expect(toRPCErrorDetail(new KMSError('QUOTA_EXCEEDED', 'slow down', 250))).toEqual({
+      code: 'QUOTA_EXCEEDED',
+      message: 'slow down',
+      retryAfterMs: 250,
+    });
+  });
+
+  it('should keep the quota dimension of a quota rejection', () => {
+    expect(toRPCErrorDetail(new QuotaExceededError('tokensPerHour', null))).toEqual({
+      code: 'QUOTA_EXCEEDED',
+      message: 'Quota exceeded: tokens per hour (request is larger than the quota)',
+      quota: 'tokensPerHour',
+      retryAfterMs: null,
+    });
+  });
+
+  it('should send anything else as INTERNAL', () => {
+    expect(toRPCErrorDetail(new Error('boom'))).toEqual({ code: 'INTERNAL', message: 'boom' });
+    expect(toRPCErrorDetail('boom')).toEqual({ code: 'INTERNAL', message: 'boom' });
+  });
+});
+
+describe('isRPCErrorCode', () => {
+  it('should accept known codes only', () => {
+    expect(isRPCErrorCode('WRONG_KEY')).toBe(true);
+    expect(isRPCErrorCode('wrong-key')).toBe(false);
+    expect(isRPCErrorCode(undefined)).toBe(false);
+  });
+});
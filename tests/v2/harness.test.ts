@@ -0,0 +1,172 @@
+/**
+ * Headless harness tests.
+ *
+ * Drives real KMS flows through KMSUser → MessageChannel → in-process worker
+ * with scripted ceremonies: passphrase and software-passkey (PRF) unlocks, the
+ * recovery-phrase backup and restore ceremonies, and an invite minted in one
+ * enclave and accepted in the next. Cancelled ceremonies surface as CANCELLED and persist nothing.
+ *
+ * Runs in the `node` environment: no DOM, as in an app's own test suite.
+ */
+
+// @vitest-environment node
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+import { KMSHarness, SoftwareAuthenticator, type UnlockPrompt } from '@/testing/kms-harness';
+import type { KMSEvent } from '@/v2/types';
+
+const PASS = 'correct-horse-battery-staple';
+
+let harness: KMSHarness;
+
+afterEach(async () => {
+  await harness.terminate();
+});
+
+describe('unlock', () => {
+  it('runs a scripted passphrase unlock for an operation sent without credentials', async () => {
+    const prompts: UnlockPrompt[] = [];
+    harness = new KMSHarness({
+      ceremonies: {
+        unlock: (prompt) => {
+          prompts.push(prompt);
+          return { method: 'passphrase', passphrase: PASS };
+        },
+      },
+    });
+    await harness.init();
+    await harness.user.setupPassphrase('alice', PASS);
+
+    const lease = await harness.user.createLease({ userId: 'alice', subs: [], ttlHours: 1 });
+    expect(lease.leaseId).toEqual(expect.any(String));
+    expect(prompts).toEqual([
+      { method: 'createLease', userId: 'alice', hasPassphrase: true, hasPasskeyPrf: false, hasPasskeyGate: false },
+    ]);
+  });
+
+  it('unlocks with the software passkey PRF enrolled through KMSUser', async () => {
+    harness = new KMSHarness();
+    await harness.init();
+    await harness.user.setupPasskeyPRF({ userId: 'alice', name: 'Alice', rpId: 'localhost' });
+
+    const lease = await harness.user.createLease({ userId: 'alice', subs: [], ttlHours: 1 });
+    expect(lease.leaseId).toEqual(expect.any(String));
+  });
+
+  it('fails with CANCELLED when the unlock is cancelled', async () => {
+    harness = new KMSHarness();
+    await harness.init();
+    await harness.user.setupPassphrase('alice', PASS);
+
+    await expect(harness.user.createLease({ userId: 'alice', subs: [], ttlHours: 1 })).rejects.toMatchObject({
+      code: 'CANCELLED',
+    });
+  });
+
+  it('fails the unlock when the enrolled passkey is gone', async () => {
+    const authenticator = new SoftwareAuthenticator();
+    harness = new KMSHarness({ authenticator });
+    await harness.init();
+    await harness.user.setupPasskeyPRF({ userId: 'alice', name: 'Alice', rpId: 'localhost' });
+    authenticator.clear();
+
+    await expect(harness.user.createLease({ userId: 'alice', subs: [], ttlHours: 1 })).rejects.toThrow(
+      'No matching credential'
+    );
+  });
+});
+
+describe('ceremonies', () => {
+  const passphraseUnlock = { unlock: () => ({ method: 'passphrase' as const, passphrase: PASS }) };
+
+  it('shows the recovery phrase and relays enclave events', async () => {
+    const shown: string[] = [];
+    harness = new KMSHarness({
+      ceremonies: {
+        ...passphraseUnlock,
+        showMnemonic: (mnemonic) => {
+          shown.push(mnemonic);
+          return true;
+        },
+      },
+    });
+    await harness.init();
+    const events: KMSEvent[] = [];
+    harness.user.on('audit-appended', (event) => events.push(event));
+    await harness.user.setupPassphrase('alice', PASS);
+
+    const { sid } = await harness.user.provisionMessaging('alice');
+    expect(sid).toEqual(expect.any(String));
+    expect(shown).toHaveLength(1);
+    expect(shown[0]!.split(' ')).toHaveLength(12);
+    expect(await harness.user.hasAccountRoot('alice')).toEqual({ present: true });
+    await vi.waitFor(() => expect(events.length).toBeGreaterThan(0));
+  });
+
+  it('restores from a collected recovery phrase', async () => {
+    let phrase: string | null = null;
+    harness = new KMSHarness({
+      ceremonies: {
+        ...passphraseUnlock,
+        showMnemonic: (mnemonic) => {
+          phrase = mnemonic;
+          return true;
+        },
+        collectMnemonic: () => phrase,
+      },
+    });
+    await harness.init();
+    await harness.user.setupPassphrase('alice', PASS);
+    await harness.user.provisionMessaging('alice');
+
+    const restored = await harness.user.provisionMessagingFromMnemonic('alice');
+    expect(restored.sid).toEqual(expect.any(String));
+  });
+
+  it('persists nothing when the recovery phrase is not confirmed', async () => {
+    harness = new KMSHarness({ ceremonies: { ...passphraseUnlock, showMnemonic: () => false } });
+    await harness.init();
+    await harness.user.setupPassphrase('alice', PASS);
+
+    await expect(harness.user.provisionMessaging('alice')).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(await harness.user.hasAccountRoot('alice')).toEqual({ present: false });
+  });
+
+  it("hands alice's invite to bob's enclave", async () => {
+    let shared: string | null = null;
+    harness = new KMSHarness({
+      ceremonies: {
+        ...passphraseUnlock,
+        showInvite: (blob) => {
+          shared = blob;
+          return true;
+        },
+      },
+    });
+    await harness.init();
+    await harness.user.setupPassphrase('alice', PASS);
+    const alice = await harness.user.provisionMessaging('alice');
+    const minted = await harness.user.mintInvite({ sid: alice.sid, token: alice.token, nameHint: 'alice' });
+    expect(shared).toEqual(expect.any(String));
+    await harness.terminate();
+
+    // One enclave per device: bob's is a fresh store
+    harness = new KMSHarness({ ceremonies: { ...passphraseUnlock, collectInvite: () => shared } });
+    await harness.init();
+    await harness.user.setupPassphrase('bob', PASS);
+    const bob = await harness.user.provisionMessaging('bob');
+    const accepted = await harness.user.acceptInvite({ sid: bob.sid, token: bob.token, nameHint: 'bob' });
+    expect(accepted.scope).toBe(minted.scope);
+    expect(accepted.peer).toMatchObject({ uid: 'alice', name: 'alice', trust: 'unverified' });
+  });
+
+  it('fails with CANCELLED when no invite is pasted', async () => {
+    harness = new KMSHarness({ ceremonies: passphraseUnlock });
+    await harness.init();
+    await harness.user.setupPassphrase('alice', PASS);
+    const { sid, token } = await harness.user.provisionMessaging('alice');
+
+    await expect(harness.user.acceptInvite({ sid, token })).rejects.toMatchObject({ code: 'CANCELLED' });
+  });
+});
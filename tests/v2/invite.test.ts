@@ -14,6 +14,7 @@ import {
   encodeInvite,
   decodeInvite,
   buildConnectInvite,
+  buildRoomInvite,
   isInviteExpired,
   encodeAnnouncement,
   decodeAnnouncement,
@@ -132,6 +133,43 @@ describe('decodeInvite hardens against malformed input', () => {
   });
 });
 
+describe('room invites', () => {
+  const toBlob = (o: unknown): string => {
+    const bytes = new TextEncoder().encode(JSON.stringify(o));
+    let bin = '';
+    for (const byte of bytes) bin += String.fromCharCode(byte);
+    return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  };
+  const secret = roomSecretToB64url(generateRoomSecret());
+
+  it('round-trips the room id + name; a room invite is never single-use', () => {
+    const payload = buildRoomInvite(card, generateRoomSecret(), { roomId: 'room-1', name: 'Book club' }, {
+      expiresAt: 1_000,
+    });
+    const back = decodeInvite(encodeInvite(payload));
+    expect(back.t).toBe('room');
+    expect(back.r).toBe('room-1');
+    expect(back.rn).toBe('Book club');
+    expect(back.exp).toBe(1_000);
+    expect(back).not.toHaveProperty('single');
+  });
+
+  it('requires a bounded room id and rejects a single-use room invite', () => {
+    const base = { v: 1, t: 'room', card, s: secret, r: 'room-1' };
+    expect(decodeInvite(toBlob(base)).r).toBe('room-1');
+    expect(() => decodeInvite(toBlob({ ...base, r: undefined }))).toThrow(/Invalid invite/);
+    expect(() => decodeInvite(toBlob({ ...base, r: 'r'.repeat(129) }))).toThrow(/Invalid invite/);
+    expect(() => decodeInvite(toBlob({ ...base, rn: 'n'.repeat(129) }))).toThrow(/Invalid invite/);
+    expect(() => decodeInvite(toBlob({ ...base, single: true }))).toThrow(/Invalid invite/);
+  });
+
+  it('rejects room fields on a connect-1:1 invite', () => {
+    const base = { v: 1, t: 'connect-1:1', card, s: secret };
+    expect(() => decodeInvite(toBlob({ ...base, r: 'room-1' }))).toThrow(/Invalid invite/);
+    expect(() => decodeInvite(toBlob({ ...base, rn: 'Book club' }))).toThrow(/Invalid invite/);
+  });
+});
+
 describe('encodeInvite rejects an invalid payload', () => {
   it('throws rather than mint a malformed invite', () => {
     // @ts-expect-error — deliberately invalid type at the call site
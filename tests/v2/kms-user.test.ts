@@ -8,16 +8,57 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   KMSUser,
+  KMSError,
+  LeaseExpiredError,
+  QuotaExceededError,
+  SessionExpiredError,
+  WrongKeyError,
   type KMSUserConfig,
 } from '../../src/v2/kms-user.js';
 import type { RPCResponse } from '../../src/v2/types.js';
+import { signBuildManifest, type KMSBuildManifest, type SignedBuildManifest } from '../../src/v2/build-manifest.js';
+import { arrayBufferToBase64url } from '../../src/v2/crypto-utils.js';
 
 // ============================================================================
 // Test Utilities and Mocks
 // ============================================================================
 
+/**
+ * Synchronous stand-in for a MessageChannel port: postMessage delivers straight
+ * to the other end's onmessage.
+ */
+class MockMessagePort {
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+  public other: MockMessagePort | null = null;
+  public closed = false;
+
+  postMessage(data: any): void {
+    if (!this.closed) {
+      this.other?.onmessage?.(new MessageEvent('message', { data }));
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+class MockMessageChannel {
+  public port1 = new MockMessagePort();
+  public port2 = new MockMessagePort();
+
+  constructor() {
+    this.port1.other = this.port2;
+    this.port2.other = this.port1;
+  }
+}
+
 /**
  * Mock iframe for testing
+ *
+ * Its window plays the enclave's side of the handshake: a kms:connect keeps the
+ * transferred port (as `enclavePort`) and confirms with kms:connected. The port
+ * answers heartbeat pings while `answersPings` is set.
  */
 class MockIFrame {
   public src: string = '';
@@ -39,8 +80,20 @@ class MockIFrame {
     [Symbol.iterator]: vi.fn(),
   };
   public allow: string = '';
+  public enclavePort: MockMessagePort | null = null;
+  public answersPings = true;
   public contentWindow: any = {
-    postMessage: vi.fn(),
+    postMessage: vi.fn((data: any, _targetOrigin: string, transfer?: MockMessagePort[]) => {
+      if (data?.type === 'kms:connect' && transfer?.[0]) {
+        this.enclavePort = transfer[0];
+        this.enclavePort.onmessage = (event: MessageEvent): void => {
+          if (event.data?.type === 'kms:ping' && this.answersPings) {
+            this.enclavePort!.postMessage({ type: 'kms:pong', nonce: event.data.nonce });
+          }
+        };
+        this.enclavePort.postMessage({ type: 'kms:connected', nonce: data.nonce });
+      }
+    }),
   };
   public parentNode: any = {
     removeChild: vi.fn(),
@@ -63,6 +116,10 @@ function setupTestEnvironment() {
   let currentIframe: MockIFrame | null = null;
   const messageListeners: Array<(event: MessageEvent) => void> = [];
 
+  // Mock MessageChannel (synchronous ports)
+  const OriginalMessageChannel = global.MessageChannel;
+  (global as any).MessageChannel = MockMessageChannel;
+
   // Mock document.createElement
   const originalCreateElement = global.document?.createElement;
   (global.document as any) = {
@@ -100,25 +157,38 @@ function setupTestEnvironment() {
     origin: 'https://allthe.services',
   };
 
-  // Helper to simulate message from iframe
-  const simulateIframeMessage = (data: any, origin: string = 'https://kms.ats.run') => {
+  // Helper to simulate a window message from iframe (only kms:ready is honoured)
+  const simulateIframeMessage = (data: any, origin: string = 'https://kms.ats.run', source?: unknown) => {
     const event = new MessageEvent('message', {
       data,
       origin,
-      source: currentIframe?.contentWindow as any,
+      source: (source ?? currentIframe?.contentWindow) as any,
     });
     messageListeners.forEach((listener) => listener(event));
   };
 
+  // Helper to answer over the handshake port, as the enclave does
+  const respond = (data: any) => {
+    currentIframe!.enclavePort!.postMessage(data);
+  };
+
   const cleanup = () => {
     (global.document as any).createElement = originalCreateElement;
     (global.window as any).addEventListener = originalAddEventListener;
+    (global as any).MessageChannel = OriginalMessageChannel;
     currentIframe = null;
     messageListeners.length = 0;
     mockBody.appendChild.mockClear();
   };
 
-  return { getCurrentIframe: () => currentIframe, simulateIframeMessage, cleanup };
+  return {
+    getCurrentIframe: () => currentIframe,
+    // KMSUser's end of the handshake channel: requests are posted on it
+    getUserPort: () => currentIframe?.enclavePort?.other ?? null,
+    simulateIframeMessage,
+    respond,
+    cleanup,
+  };
 }
 
 /**
@@ -271,6 +341,54 @@ describe('KMSUser initialization', () => {
 
     kmsUser.terminate();
   });
+
+  it('should answer kms:ready with a MessagePort and nonce for the enclave', async () => {
+    const kmsUser = await initializeKMSUser({ kmsOrigin: 'https://kms.ats.run' }, env);
+
+    const iframe = env.getCurrentIframe()!;
+    expect(iframe.contentWindow.postMessage).toHaveBeenCalledTimes(1);
+    const [message, targetOrigin, transfer] = iframe.contentWindow.postMessage.mock.calls[0];
+    expect(message).toEqual({ type: 'kms:connect', nonce: expect.any(String) });
+    expect(targetOrigin).toBe('https://kms.ats.run');
+    expect(transfer).toEqual([iframe.enclavePort]);
+
+    kmsUser.terminate();
+    expect(env.getUserPort()?.closed).toBe(true);
+  });
+
+  it('should ignore kms:ready from another window or origin', async () => {
+    const kmsUser = new KMSUser({ kmsOrigin: 'https://kms.ats.run' });
+    const initPromise = kmsUser.init();
+
+    env.simulateIframeMessage({ type: 'kms:ready' }, 'https://evil.com');
+    env.simulateIframeMessage({ type: 'kms:ready' }, 'https://kms.ats.run', { postMessage: vi.fn() });
+    expect(env.getCurrentIframe()!.contentWindow.postMessage).not.toHaveBeenCalled();
+
+    env.simulateIframeMessage({ type: 'kms:ready' });
+    await initPromise;
+    kmsUser.terminate();
+  });
+
+  it('should fail init when the enclave does not echo the nonce', async () => {
+    vi.useFakeTimers();
+    try {
+      const kmsUser = new KMSUser({ kmsOrigin: 'https://kms.ats.run' });
+      const initPromise = kmsUser.init();
+      const failed = expect(initPromise).rejects.toThrow('Timeout waiting for KMS handshake');
+
+      const iframe = env.getCurrentIframe()!;
+      iframe.contentWindow.postMessage.mockImplementation((_data: any, _origin: string, transfer: any[]) => {
+        transfer[0].postMessage({ type: 'kms:connected', nonce: 'not-the-nonce' });
+      });
+      env.simulateIframeMessage({ type: 'kms:ready' });
+
+      await vi.advanceTimersByTimeAsync(5000);
+      await failed;
+      await expect(kmsUser.isSetup()).rejects.toThrow('KMS not initialized');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
 });
 
 // ============================================================================
@@ -301,25 +419,22 @@ describe('RPC communication', () => {
   });
 
   it('should send request and receive response', async () => {
-    const iframe = env.getCurrentIframe();
-    const postMessageSpy = vi.spyOn(iframe!.contentWindow!, 'postMessage');
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
 
     // Send request
     const requestPromise = kmsUser.isSetup();
 
-    // Check request was sent
+    // Check request was sent over the handshake port
     expect(postMessageSpy).toHaveBeenCalled();
-    const callArgs = postMessageSpy.mock.calls[0]!;
-    const [request, targetOrigin] = callArgs as [any, string];
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
     expect(request.method).toBe('isSetup');
-    expect(targetOrigin).toBe('https://kms.ats.run');
 
     // Simulate response
     const response: RPCResponse = {
       id: request.id,
       result: { isSetup: false, methods: [] },
     };
-    env.simulateIframeMessage(response);
+    env.respond(response);
 
     // Check result
     const result = await requestPromise;
@@ -327,26 +442,79 @@ describe('RPC communication', () => {
   });
 
   it('should handle error responses', async () => {
-    const iframe = env.getCurrentIframe();
-    const postMessageSpy = vi.spyOn(iframe!.contentWindow!, 'postMessage');
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
 
     // Send request
     const requestPromise = kmsUser.setupPassphrase('test@example.com', 'short');
 
     // Get request ID
-    const [request] = postMessageSpy.mock.calls[0]! as [any, string];
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
 
     // Simulate error response
     const response: RPCResponse = {
       id: request.id,
       error: 'Passphrase must be at least 8 characters',
     };
-    env.simulateIframeMessage(response);
+    env.respond(response);
 
     // Check error
     await expect(requestPromise).rejects.toThrow('Passphrase must be at least 8 characters');
   });
 
+  it('should rethrow quota rejections as QuotaExceededError', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+
+    // Any request: the structured error is decoded at the transport layer
+    const requestPromise = kmsUser.isSetup();
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
+
+    env.respond({
+      id: request.id,
+      error: {
+        code: 'QUOTA_EXCEEDED',
+        message: 'Quota exceeded: sends per minute (retry after 6000 ms)',
+        quota: 'sendsPerMinute',
+        retryAfterMs: 6000,
+      },
+    } satisfies RPCResponse);
+
+    const error: unknown = await requestPromise.catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error).toMatchObject({ quota: 'sendsPerMinute', retryAfterMs: 6000 });
+  });
+
+  it('should rethrow coded errors as their KMSError subclass', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+
+    const expiredPromise = kmsUser.isSetup();
+    const notFoundPromise = kmsUser.isSetup();
+    const legacyPromise = kmsUser.isSetup();
+    const [expired] = postMessageSpy.mock.calls[0]! as [any];
+    const [notFound] = postMessageSpy.mock.calls[1]! as [any];
+    const [legacy] = postMessageSpy.mock.calls[2]! as [any];
+
+    env.respond({
+      id: expired.id,
+      error: { code: 'SESSION_EXPIRED', message: 'Messaging session expired; re-authenticate with openMessaging' },
+    } satisfies RPCResponse);
+    env.respond({
+      id: notFound.id,
+      error: { code: 'NOT_FOUND', message: 'Lease not found: lease-1' },
+    } satisfies RPCResponse);
+    env.respond({ id: legacy.id, error: 'Something broke' } satisfies RPCResponse);
+
+    const expiredError: unknown = await expiredPromise.catch((err: unknown) => err);
+    expect(expiredError).toBeInstanceOf(SessionExpiredError);
+    expect(expiredError).toMatchObject({ code: 'SESSION_EXPIRED', retryable: false, requiresReauth: true });
+
+    const notFoundError: unknown = await notFoundPromise.catch((err: unknown) => err);
+    expect(notFoundError).toBeInstanceOf(KMSError);
+    expect(notFoundError).toMatchObject({ code: 'NOT_FOUND', message: 'Lease not found: lease-1' });
+
+    const legacyError: unknown = await legacyPromise.catch((err: unknown) => err);
+    expect(legacyError).toMatchObject({ code: 'INTERNAL', message: 'Something broke' });
+  });
+
   it('should timeout requests', async () => {
     // Send request with short timeout (but don't await it)
     kmsUser.setupPassphrase('test@example.com', 'test-passphrase-123');
@@ -358,8 +526,7 @@ describe('RPC communication', () => {
   }, { timeout: 500 }); // Skip this test as it takes too long
 
   it('should handle concurrent requests', async () => {
-    const iframe = env.getCurrentIframe();
-    const postMessageSpy = vi.spyOn(iframe!.contentWindow!, 'postMessage');
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
 
     // Send multiple requests
     const promise1 = kmsUser.isSetup();
@@ -369,15 +536,15 @@ describe('RPC communication', () => {
     expect(postMessageSpy).toHaveBeenCalledTimes(2);
 
     // Simulate responses
-    const [req1] = postMessageSpy.mock.calls[0]! as [any, string];
-    const [req2] = postMessageSpy.mock.calls[1]! as [any, string];
+    const [req1] = postMessageSpy.mock.calls[0]! as [any];
+    const [req2] = postMessageSpy.mock.calls[1]! as [any];
 
-    env.simulateIframeMessage({
+    env.respond({
       id: req1.id,
       result: { isSetup: true, methods: ['passphrase'] },
     });
 
-    env.simulateIframeMessage({
+    env.respond({
       id: req2.id,
       result: { enrollments: ['enrollment:passphrase:v2'] },
     });
@@ -388,26 +555,19 @@ describe('RPC communication', () => {
     expect(result2.enrollments).toContain('enrollment:passphrase:v2');
   });
 
-  it('should ignore messages from wrong origin', async () => {
-    const iframe = env.getCurrentIframe();
-    const postMessageSpy = vi.spyOn(iframe!.contentWindow!, 'postMessage');
+  it('should ignore responses posted to the window instead of the port', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
 
     const requestPromise = kmsUser.isSetup();
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
 
-    // Wait for request to be sent
-    await new Promise((resolve) => setTimeout(resolve, 10));
+    // Neither a wrong origin nor the right one counts once the port is up
+    env.simulateIframeMessage({ id: request.id, result: { isSetup: true } }, 'https://evil.com');
+    env.simulateIframeMessage({ id: request.id, result: { isSetup: true } });
 
-    // Simulate message from wrong origin
-    env.simulateIframeMessage(
-      { id: 'fake-id', result: { isSetup: true } },
-      'https://evil.com'
-    );
+    // Request should still be pending: only the port delivers responses
 
-    // Request should still be pending (no response from correct origin yet)
-    // Simulate correct response
-    const [request] = postMessageSpy.mock.calls[0]! as [any, string];
-
-    env.simulateIframeMessage({
+    env.respond({
       id: request.id,
       result: { isSetup: false, methods: [] },
     });
@@ -417,10 +577,386 @@ describe('RPC communication', () => {
   });
 });
 
+// ============================================================================
+// Enclave Events Tests
+// ============================================================================
+
+describe('enclave events', () => {
+  let env: ReturnType<typeof setupTestEnvironment>;
+  let kmsUser: KMSUser;
+
+  beforeEach(async () => {
+    env = setupTestEnvironment();
+    kmsUser = await initializeKMSUser({ kmsOrigin: 'https://kms.ats.run' }, env);
+  });
+
+  afterEach(() => {
+    kmsUser.terminate();
+    env.cleanup();
+  });
+
+  it('should deliver each event to the listeners of its type only', () => {
+    const expiring = vi.fn();
+    const expired = vi.fn();
+    kmsUser.on('lease-expiring', expiring);
+    kmsUser.on('lease-expired', expired);
+
+    const event = { type: 'lease-expiring', leaseId: 'lease-1', userId: 'user@example.com', exp: 1700000000000 };
+    env.respond({ type: 'kms:event', event });
+
+    expect(expiring).toHaveBeenCalledWith(event);
+    expect(expired).not.toHaveBeenCalled();
+  });
+
+  it('should stop delivering after unsubscribe or off()', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const stop = kmsUser.on('session-expired', first);
+    kmsUser.on('session-expired', second);
+
+    stop();
+    kmsUser.off('session-expired', second);
+    env.respond({ type: 'kms:event', event: { type: 'session-expired', sid: 's', userId: 'u', reason: 'idle' } });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should keep delivering when a listener throws', () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const after = vi.fn();
+    kmsUser.on('audit-appended', () => {
+      throw new Error('listener bug');
+    });
+    kmsUser.on('audit-appended', after);
+
+    env.respond({
+      type: 'kms:event',
+      event: { type: 'audit-appended', seqNum: 3, op: 'create-lease', userId: 'u', timestamp: 1 },
+    });
+
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(consoleErrorSpy).toHaveBeenCalledWith('[KMS User] audit-appended listener failed:', expect.any(Error));
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should ignore events posted to the window', () => {
+    const listener = vi.fn();
+    kmsUser.on('vapid-rotated', listener);
+
+    env.simulateIframeMessage({
+      type: 'kms:event',
+      event: { type: 'vapid-rotated', kid: 'k', publicKey: 'p', retiring: [] },
+    });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('connection recovery', () => {
+  let env: ReturnType<typeof setupTestEnvironment>;
+  let kmsUser: KMSUser;
+
+  /** Wait for KMSUser to replace the iframe, then let the new one handshake. */
+  async function reloadFrame(previous: unknown): Promise<void> {
+    await vi.waitFor(() => expect(env.getCurrentIframe()).not.toBe(previous));
+    env.simulateIframeMessage({ type: 'kms:ready' });
+  }
+
+  beforeEach(async () => {
+    env = setupTestEnvironment();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    kmsUser = await initializeKMSUser(
+      { kmsOrigin: 'https://kms.ats.run', heartbeatInterval: 20, heartbeatTimeout: 20 },
+      env
+    );
+  });
+
+  afterEach(() => {
+    kmsUser.terminate();
+    env.cleanup();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should re-create a silent iframe, replay idempotent requests and fail the rest', async () => {
+    const first = env.getCurrentIframe()!;
+    const setupPromise = kmsUser.isSetup();
+    const leasePromise = kmsUser.createLease({ userId: 'user@example.com', subs: [], ttlHours: 1 });
+    first.answersPings = false;
+
+    await expect(leasePromise).rejects.toMatchObject({
+      code: 'CONNECTION_LOST',
+      message: expect.stringMatching(/during createLease \(no heartbeat reply\); it may or may not have taken effect/),
+    });
+    await reloadFrame(first);
+    expect(first.parentNode.removeChild).toHaveBeenCalledWith(first);
+
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+    await vi.waitFor(() => expect(postMessageSpy).toHaveBeenCalledWith(expect.objectContaining({ method: 'isSetup' })));
+    const [request] = postMessageSpy.mock.calls.find(([m]) => m.method === 'isSetup')! as [any];
+    env.respond({ id: request.id, result: { isSetup: true, methods: ['passphrase'] } });
+    await expect(setupPromise).resolves.toEqual({ isSetup: true, methods: ['passphrase'] });
+  });
+
+  it('should reconnect when the worker crashes or the iframe reloads', async () => {
+    const first = env.getCurrentIframe()!;
+    env.respond({ type: 'kms:worker-error', message: 'out of memory' });
+    expect(console.warn).toHaveBeenCalledWith(
+      '[KMS User] Connection lost (KMS worker failed: out of memory); reconnecting'
+    );
+    await reloadFrame(first);
+
+    const second = env.getCurrentIframe()!;
+    await vi.waitFor(() => expect(second.enclavePort).not.toBeNull());
+    env.simulateIframeMessage({ type: 'kms:ready' });
+    expect(console.warn).toHaveBeenCalledWith('[KMS User] Connection lost (KMS iframe reloaded); reconnecting');
+    await reloadFrame(second);
+
+    // Calls made during the reconnect wait for it
+    const postMessageSpy = vi.spyOn(MockMessagePort.prototype, 'postMessage');
+    const statusPromise = kmsUser.isSetup();
+    await vi.waitFor(() => expect(postMessageSpy).toHaveBeenCalledWith(expect.objectContaining({ method: 'isSetup' })));
+    const [request] = postMessageSpy.mock.calls.find(([m]) => m.method === 'isSetup')! as [any];
+    env.respond({ id: request.id, result: { isSetup: false, methods: [] } });
+    await expect(statusPromise).resolves.toEqual({ isSetup: false, methods: [] });
+  });
+
+  it('should give up after maxReconnectAttempts until init() is called again', async () => {
+    kmsUser.terminate();
+    vi.useFakeTimers();
+    const initPromise = kmsUser.init();
+    env.simulateIframeMessage({ type: 'kms:ready' });
+    await initPromise;
+    (kmsUser as any).maxReconnectAttempts = 2;
+
+    const pending = kmsUser.isSetup();
+    env.respond({ type: 'kms:worker-error', message: 'boom' });
+    const later = kmsUser.isSetup();
+    const errors = Promise.all([pending, later].map((p) => p.catch((err: KMSError) => err)));
+    await vi.advanceTimersByTimeAsync(5000 + 1000 + 5000);
+
+    expect(await errors).toMatchObject([
+      { code: 'CONNECTION_LOST', message: 'KMS connection lost (KMS worker failed: boom); isSetup was not completed' },
+      { code: 'CONNECTION_LOST', message: 'KMS connection lost (KMS worker failed: boom); call init() to reconnect' },
+    ]);
+  });
+
+  it('should give methods that may wait on the user the ceremony timeout', async () => {
+    kmsUser.terminate();
+    vi.useFakeTimers();
+    kmsUser = new KMSUser({
+      kmsOrigin: 'https://kms.ats.run',
+      defaultTimeout: 1000,
+      ceremonyTimeout: 60000,
+      methodTimeouts: { getEnrollments: 3000 },
+      heartbeatInterval: 0,
+    });
+    const initPromise = kmsUser.init();
+    env.simulateIframeMessage({ type: 'kms:ready' });
+    await initPromise;
+
+    const plain = kmsUser.isSetup();
+    const configured = kmsUser.getEnrollments();
+    const ceremony = kmsUser.createLease({ userId: 'user@example.com', subs: [], ttlHours: 1 });
+    const outcomes = [plain, configured, ceremony].map((p) => p.catch((err: KMSError) => err.message));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(outcomes[0]).resolves.toBe('Request timeout: isSetup (1000ms)');
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(outcomes[1]).resolves.toBe('Request timeout: getEnrollments (3000ms)');
+    await vi.advanceTimersByTimeAsync(57000);
+    await expect(outcomes[2]).resolves.toBe('Request timeout: createLease (60000ms)');
+  });
+});
+
 // ============================================================================
 // Setup Operations Tests
 // ============================================================================
 
+describe('build manifest', () => {
+  const WORKER = 'a'.repeat(64);
+  let env: ReturnType<typeof setupTestEnvironment>;
+  let releasePair: CryptoKeyPair;
+  let releaseKey: string;
+  let manifest: SignedBuildManifest;
+  let fetchMock: ReturnType<typeof vi.fn<[], Promise<unknown>>>;
+
+  /** Sign a manifest allowing `allowed` with `keys`, or a fresh release key. */
+  async function signWith(
+    allowed: string[],
+    fields: Partial<KMSBuildManifest> = {},
+    keys?: CryptoKeyPair
+  ): Promise<{ keys: CryptoKeyPair; publicKey: string; manifest: SignedBuildManifest }> {
+    keys ??= (await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify'])) as CryptoKeyPair;
+    const publicKey = arrayBufferToBase64url(await crypto.subtle.exportKey('raw', keys.publicKey));
+    const unsigned: KMSBuildManifest = {
+      schema: 1,
+      current: {
+        version: '2.0.0',
+        commit: 'c0ffee',
+        artifact: 'kms-worker.aaaaaaaa.js',
+        sha256: allowed[0]!,
+        files: {},
+        timestamp: '2026-01-01T00:00:00.000Z',
+        build: {},
+      },
+      allowed,
+      deprecated: [],
+      issuedAt: '2026-01-01T00:00:00.000Z',
+      expires: '2126-01-01T00:00:00.000Z',
+      ...fields,
+    };
+    return { keys, publicKey, manifest: await signBuildManifest(unsigned, keys.privateKey, publicKey) };
+  }
+
+  /** Start init() and let the iframe report `worker` in kms:ready. */
+  function init(
+    config: Partial<KMSUserConfig>,
+    worker: string | null = WORKER
+  ): { user: KMSUser; ready: Promise<void> } {
+    const user = new KMSUser({ kmsOrigin: 'https://kms.ats.run', heartbeatInterval: 0, ...config });
+    const ready = user.init();
+    env.simulateIframeMessage({ type: 'kms:ready', ...(worker !== null ? { worker } : {}) });
+    return { user, ready };
+  }
+
+  beforeEach(async () => {
+    env = setupTestEnvironment();
+    ({ keys: releasePair, publicKey: releaseKey, manifest } = await signWith([WORKER]));
+    fetchMock = vi.fn(async (): Promise<unknown> => ({ ok: true, status: 200, json: async () => manifest }));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    env.cleanup();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should connect once the reported worker is in the signed manifest', async () => {
+    const { user, ready } = init({ releaseKeys: [releaseKey] });
+    await ready;
+
+    expect(fetchMock).toHaveBeenCalledWith('https://kms.ats.run/.well-known/kms-manifest.json', {
+      cache: 'no-store',
+      credentials: 'omit',
+    });
+    expect(env.getUserPort()?.closed).toBe(false);
+    user.terminate();
+  });
+
+  it('should not fetch the manifest without pinned release keys', async () => {
+    const { user, ready } = init({});
+    await ready;
+    expect(fetchMock).not.toHaveBeenCalled();
+    user.terminate();
+  });
+
+  it('should refuse an enclave running a worker the manifest does not allow', async () => {
+    const { user, ready } = init({ releaseKeys: [releaseKey] }, 'b'.repeat(64));
+
+    await expect(ready).rejects.toMatchObject({
+      code: 'ATTESTATION_FAILED',
+      message: `KMS worker ${'b'.repeat(64)} is not in the signed build manifest`,
+    });
+    expect(env.getUserPort()?.closed).toBe(true);
+    expect(env.getCurrentIframe()!.parentNode.removeChild).toHaveBeenCalled();
+    await expect(user.isSetup()).rejects.toThrow('KMS not initialized');
+  });
+
+  it('should refuse an unpinned or tampered manifest, or an enclave that reports no worker', async () => {
+    const signed = manifest;
+    const other = await signWith([WORKER]);
+    await expect(init({ releaseKeys: [other.publicKey] }).ready).rejects.toMatchObject({
+      code: 'ATTESTATION_FAILED',
+      message: 'Build manifest is not signed by a pinned release key',
+    });
+
+    manifest = { ...manifest, allowed: [WORKER, 'b'.repeat(64)] };
+    await expect(init({ releaseKeys: [releaseKey] }).ready).rejects.toMatchObject({
+      code: 'ATTESTATION_FAILED',
+      message: 'Build manifest signature invalid',
+    });
+
+    manifest = signed;
+    await expect(init({ releaseKeys: [releaseKey] }, null).ready).rejects.toMatchObject({
+      code: 'ATTESTATION_FAILED',
+      message: 'KMS enclave did not report its worker hash',
+    });
+  });
+
+  it('should refuse a deprecated worker even if the manifest still allows it', async () => {
+    manifest = (await signWith([WORKER], { deprecated: [WORKER] }, releasePair)).manifest;
+    await expect(init({ releaseKeys: [releaseKey] }).ready).rejects.toMatchObject({
+      code: 'ATTESTATION_FAILED',
+      message: `KMS worker ${WORKER} is deprecated by the signed build manifest`,
+    });
+  });
+
+  it('should refuse an expired manifest, or one older than a manifest already accepted', async () => {
+    const current = manifest;
+    manifest = (await signWith([WORKER], { expires: '2026-01-02T00:00:00.000Z' }, releasePair)).manifest;
+    await expect(init({ releaseKeys: [releaseKey] }).ready).rejects.toMatchObject({
+      code: 'ATTESTATION_FAILED',
+      message: 'Build manifest expired at 2026-01-02T00:00:00.000Z',
+    });
+
+    const newer = (await signWith([WORKER], { issuedAt: '2026-06-01T00:00:00.000Z' }, releasePair)).manifest;
+    manifest = newer;
+    const { user, ready } = init({ releaseKeys: [releaseKey] });
+    await ready;
+    user.terminate();
+
+    // A fresh KMSUser (a reload) remembers the newest manifest in this app's localStorage
+    manifest = current;
+    await expect(init({ releaseKeys: [releaseKey] }).ready).rejects.toMatchObject({
+      code: 'ATTESTATION_FAILED',
+      message: 'Build manifest issued at 2026-01-01T00:00:00.000Z is older than one already accepted',
+    });
+  });
+
+  it('should warn, but connect, when the manifest is close to expiry', async () => {
+    const expires = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString();
+    manifest = (await signWith([WORKER], { expires }, releasePair)).manifest;
+    const { user, ready } = init({ releaseKeys: [releaseKey] });
+    await ready;
+    expect(console.warn).toHaveBeenCalledWith(
+      `[KMS User] Build manifest expires at ${expires} and has not been re-signed`
+    );
+    expect(env.getUserPort()?.closed).toBe(false);
+    user.terminate();
+  });
+
+  it('should only warn about the reported worker when configured to, never about the manifest', async () => {
+    const { user, ready } = init({ releaseKeys: [releaseKey], onManifestMismatch: 'warn' }, 'b'.repeat(64));
+    await ready;
+    expect(console.warn).toHaveBeenCalledWith(
+      '[KMS User] Enclave build not verified:',
+      `KMS worker ${'b'.repeat(64)} is not in the signed build manifest`
+    );
+    expect(env.getUserPort()?.closed).toBe(false);
+    user.terminate();
+
+    fetchMock.mockResolvedValue({ ok: false, status: 404, json: async () => ({}) });
+    await expect(init({ releaseKeys: [releaseKey], onManifestMismatch: 'warn' }).ready).rejects.toMatchObject({
+      code: 'ATTESTATION_FAILED',
+      message: 'Build manifest unavailable (HTTP 404)',
+    });
+
+    const unsigned: Partial<SignedBuildManifest> = { ...manifest };
+    delete unsigned.signature;
+    fetchMock.mockResolvedValue({ ok: true, status: 200, json: async () => unsigned });
+    await expect(init({ releaseKeys: [releaseKey], onManifestMismatch: 'warn' }).ready).rejects.toMatchObject({
+      code: 'ATTESTATION_FAILED',
+      message: 'Build manifest is malformed or unsigned',
+    });
+  });
+});
+
 describe('setup operations', () => {
   let env: ReturnType<typeof setupTestEnvironment>;
   let kmsUser: KMSUser;
@@ -445,17 +981,16 @@ describe('setup operations', () => {
   });
 
   it('should setup passphrase', async () => {
-    const iframe = env.getCurrentIframe();
-    const postMessageSpy = vi.spyOn(iframe!.contentWindow!, 'postMessage');
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
 
     const requestPromise = kmsUser.setupPassphrase('test@example.com', 'test-passphrase-123');
 
-    const [request] = postMessageSpy.mock.calls[0]! as [any, string];
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
     expect(request.method).toBe('setupPassphrase');
     expect(request.params.userId).toBe('test@example.com');
     expect(request.params.passphrase).toBe('test-passphrase-123');
 
-    env.simulateIframeMessage({
+    env.respond({
       id: request.id,
       result: { success: true, enrollmentId: 'enrollment:passphrase:v2' },
     });
@@ -469,8 +1004,7 @@ describe('setup operations', () => {
     const webAuthn = setupWebAuthnMocks();
     const localStorage = setupLocalStorageMock();
 
-    const iframe = env.getCurrentIframe();
-    const postMessageSpy = vi.spyOn(iframe!.contentWindow!, 'postMessage');
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
 
     const requestPromise = kmsUser.setupPasskeyPRF({
       userId: 'test@example.com',
@@ -485,14 +1019,17 @@ describe('setup operations', () => {
     expect(webAuthn.mockNavigator.credentials.create).toHaveBeenCalled();
 
     // Get the RPC request
-    const [request] = postMessageSpy.mock.calls[0]! as [any, string];
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
     expect(request.method).toBe('setupPasskeyPRF');
     expect(request.params.credentialId).toBeDefined();
     expect(request.params.prfOutput).toBeDefined();
     expect(request.params.rpId).toBe('localhost');
+    // The enclave must store the salt PRF was evaluated with, or unlock derives a different key
+    const [options] = webAuthn.mockNavigator.credentials.create.mock.calls[0] as unknown as [any];
+    expect(request.params.appSalt).toBe(options.publicKey.extensions.prf.eval.first);
 
     // Simulate KMS response
-    env.simulateIframeMessage({
+    env.respond({
       id: request.id,
       result: { success: true, enrollmentId: 'enrollment:passkey-prf:v2' },
     });
@@ -507,8 +1044,7 @@ describe('setup operations', () => {
   it('should setup passkey gate with WebAuthn', async () => {
     const webAuthn = setupWebAuthnMocks();
 
-    const iframe = env.getCurrentIframe();
-    const postMessageSpy = vi.spyOn(iframe!.contentWindow!, 'postMessage');
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
 
     const requestPromise = kmsUser.setupPasskeyGate({
       userId: 'test@example.com',
@@ -523,11 +1059,11 @@ describe('setup operations', () => {
     expect(webAuthn.mockNavigator.credentials.create).toHaveBeenCalled();
 
     // Get the RPC request
-    const [request] = postMessageSpy.mock.calls[0]! as [any, string];
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
     expect(request.method).toBe('setupPasskeyGate');
 
     // Simulate KMS response
-    env.simulateIframeMessage({
+    env.respond({
       id: request.id,
       result: { success: true, enrollmentId: 'enrollment:passkey-gate:v2' },
     });
@@ -566,16 +1102,15 @@ describe('VAPID operations', () => {
 
 
   it('should get public key', async () => {
-    const iframe = env.getCurrentIframe();
-    const postMessageSpy = vi.spyOn(iframe!.contentWindow!, 'postMessage');
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
 
     const requestPromise = kmsUser.getPublicKey('test-kid');
 
-    const [request] = postMessageSpy.mock.calls[0]! as [any, string];
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
     expect(request.method).toBe('getPublicKey');
     expect(request.params.kid).toBe('test-kid');
 
-    env.simulateIframeMessage({
+    env.respond({
       id: request.id,
       result: { publicKey: 'test-pubkey-base64url' },
     });
@@ -613,8 +1148,7 @@ describe('lease operations', () => {
   });
 
   it('should create lease', async () => {
-    const iframe = env.getCurrentIframe();
-    const postMessageSpy = vi.spyOn(iframe!.contentWindow!, 'postMessage');
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
 
     const requestPromise = kmsUser.createLease({
       userId: 'user-123',
@@ -622,10 +1156,10 @@ describe('lease operations', () => {
       ttlHours: 12,
     });
 
-    const [request] = postMessageSpy.mock.calls[0]! as [any, string];
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
     expect(request.method).toBe('createLease');
 
-    env.simulateIframeMessage({
+    env.respond({
       id: request.id,
       result: {
         leaseId: 'lease-123',
@@ -645,20 +1179,19 @@ describe('lease operations', () => {
   });
 
   it('should issue VAPID JWT', async () => {
-    const iframe = env.getCurrentIframe();
-    const postMessageSpy = vi.spyOn(iframe!.contentWindow!, 'postMessage');
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
 
     const requestPromise = kmsUser.issueVAPIDJWT({
       leaseId: 'lease-123',
-      endpoint: { url: 'https://push.example.com/sub', aud: 'https://fcm.googleapis.com', eid: 'ep-1' },
+      eid: 'ep-1',
       kid: 'test-kid',
     });
 
     // First call: verifyLease (auto-verification before JWT issuance)
-    const [verifyRequest] = postMessageSpy.mock.calls[0]! as [any, string];
+    const [verifyRequest] = postMessageSpy.mock.calls[0]! as [any];
     expect(verifyRequest.method).toBe('verifyLease');
 
-    env.simulateIframeMessage({
+    env.respond({
       id: verifyRequest.id,
       result: {
         leaseId: 'lease-123',
@@ -671,10 +1204,11 @@ describe('lease operations', () => {
     await new Promise((resolve) => setTimeout(resolve, 10));
 
     // Second call: issueVAPIDJWT (after successful verification)
-    const [jwtRequest] = postMessageSpy.mock.calls[1]! as [any, string];
+    const [jwtRequest] = postMessageSpy.mock.calls[1]! as [any];
     expect(jwtRequest.method).toBe('issueVAPIDJWT');
+    expect(jwtRequest.params).toMatchObject({ leaseId: 'lease-123', eid: 'ep-1' });
 
-    env.simulateIframeMessage({
+    env.respond({
       id: jwtRequest.id,
       result: {
         jwt: 'eyJhbGciOi...test-jwt',
@@ -687,6 +1221,29 @@ describe('lease operations', () => {
     expect(result.jwt).toContain('eyJhbGciOi');
     expect(result.jti).toBe('jti-123');
   });
+
+  it('should refuse to issue a JWT on an expired or rotated-out lease', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+
+    const expiredPromise = kmsUser.issueVAPIDJWT({ leaseId: 'lease-123', eid: 'ep-1' });
+    const wrongKeyPromise = kmsUser.issueVAPIDJWTs({ leaseId: 'lease-456', eid: 'ep-1', count: 2 });
+    const [expired] = postMessageSpy.mock.calls[0]! as [any];
+    const [wrongKey] = postMessageSpy.mock.calls[1]! as [any];
+
+    env.respond({
+      id: expired.id,
+      result: { leaseId: 'lease-123', valid: false, reason: 'expired', kid: 'test-kid' },
+    });
+    env.respond({
+      id: wrongKey.id,
+      result: { leaseId: 'lease-456', valid: false, reason: 'wrong-key', kid: 'old-kid' },
+    });
+
+    await expect(expiredPromise).rejects.toBeInstanceOf(LeaseExpiredError);
+    await expect(wrongKeyPromise).rejects.toBeInstanceOf(WrongKeyError);
+    // Neither reached the KMS
+    expect(postMessageSpy).toHaveBeenCalledTimes(2);
+  });
 });
 
 // ============================================================================
@@ -717,15 +1274,14 @@ describe('status and management', () => {
   });
 
   it('should check setup status', async () => {
-    const iframe = env.getCurrentIframe();
-    const postMessageSpy = vi.spyOn(iframe!.contentWindow!, 'postMessage');
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
 
     const requestPromise = kmsUser.isSetup();
 
-    const [request] = postMessageSpy.mock.calls[0]! as [any, string];
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
     expect(request.method).toBe('isSetup');
 
-    env.simulateIframeMessage({
+    env.respond({
       id: request.id,
       result: { isSetup: true, methods: ['passphrase'] },
     });
@@ -735,16 +1291,187 @@ describe('status and management', () => {
     expect(result.methods).toContain('passphrase');
   });
 
-  it('should get enrollments', async () => {
+  it('should list and remove push subscriptions per endpoint', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+
+    const listPromise = kmsUser.listPushSubscriptions('alice@example.com');
+    const removePromise = kmsUser.removePushSubscription('alice@example.com', 'phone');
+
+    const [list] = postMessageSpy.mock.calls[0]! as [any];
+    const [remove] = postMessageSpy.mock.calls[1]! as [any];
+    expect(list).toMatchObject({ method: 'listPushSubscriptions', params: { userId: 'alice@example.com' } });
+    expect(remove).toMatchObject({
+      method: 'removePushSubscription',
+      params: { userId: 'alice@example.com', eid: 'phone' },
+    });
+
+    env.respond({ id: list.id, result: { subscriptions: [] } });
+    env.respond({ id: remove.id, result: { success: true, removed: true } });
+
+    expect(await listPromise).toEqual({ subscriptions: [] });
+    expect(await removePromise).toEqual({ success: true, removed: true });
+  });
+
+  it('should request prekey maintenance for a messaging session', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+
+    const promise = kmsUser.maintainPrekeys('sid-1', 'cap-token');
+
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
+    expect(request).toMatchObject({ method: 'maintainPrekeys', params: { sid: 'sid-1', token: 'cap-token' } });
+
+    const prekeys = { oneTimePreKeys: [], deletedSignedPreKeyIds: [3], oneTimePrekeyCount: 20 };
+    env.respond({ id: request.id, result: { prekeys } });
+
+    expect(await promise).toEqual({ prekeys });
+  });
+
+  it('should forward room membership RPCs for a messaging session', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+
+    const roomKey = new ArrayBuffer(96);
+    const applyPromise = kmsUser.applyRoomKey('sid-1', 'cap-token', roomKey);
+    const removePromise = kmsUser.removeRoomMember('sid-1', 'cap-token', 'room-1', 'bob');
+
+    const [apply] = postMessageSpy.mock.calls[0]! as [any];
+    const [remove] = postMessageSpy.mock.calls[1]! as [any];
+    expect(apply).toMatchObject({ method: 'applyRoomKey', params: { sid: 'sid-1', token: 'cap-token', roomKey } });
+    expect(remove).toMatchObject({
+      method: 'removeRoomMember',
+      params: { sid: 'sid-1', token: 'cap-token', roomId: 'room-1', memberUid: 'bob' },
+    });
+
+    const room = { roomId: 'room-1', epoch: 2, scope: 'scope-2', members: [] };
+    const rekey = { roomId: 'room-1', epoch: 3, scope: 'scope-3', roomKeys: [] };
+    env.respond({ id: apply.id, result: room });
+    env.respond({ id: remove.id, result: rekey });
+
+    expect(await applyPromise).toEqual(room);
+    expect(await removePromise).toEqual(rekey);
+  });
+
+  it('should forward safety-number RPCs and reveal the iframe for verification', async () => {
     const iframe = env.getCurrentIframe();
-    const postMessageSpy = vi.spyOn(iframe!.contentWindow!, 'postMessage');
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+    const args = {
+      sid: 'sid-1',
+      token: 'cap-token',
+      peerUserId: 'bob',
+      masterSigningPub: new ArrayBuffer(32),
+      masterEncryptionPub: new ArrayBuffer(32),
+    };
+
+    const getPromise = kmsUser.getSafetyNumber(args);
+    const verifyPromise = kmsUser.verifySafetyNumber(args);
+    expect(iframe?.style.display).toBe('block');
+
+    const [get] = postMessageSpy.mock.calls[0]! as [any];
+    const [verify] = postMessageSpy.mock.calls[1]! as [any];
+    expect(get).toMatchObject({ method: 'getSafetyNumber', params: args });
+    expect(verify).toMatchObject({ method: 'verifySafetyNumber', params: args });
+
+    const safety = { digits: '12345', emoji: ['🐶'], words: ['abandon'], qr: 'ats-sn:1:x' };
+    env.respond({ id: get.id, result: safety });
+    env.respond({ id: verify.id, result: { verified: true, method: 'qr' } });
+
+    expect(await getPromise).toEqual(safety);
+    expect(await verifyPromise).toEqual({ verified: true, method: 'qr' });
+    expect(iframe?.style.display).toBe('none');
+  });
+
+  it('should forward attachment RPCs', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+    const encryptArgs = { sid: 'sid-1', token: 'cap-token', plaintext: new ArrayBuffer(32) };
+    const decryptArgs = {
+      sid: 'sid-1',
+      token: 'cap-token',
+      handle: new ArrayBuffer(96),
+      ciphertext: new ArrayBuffer(53),
+    };
+
+    const encryptPromise = kmsUser.encryptAttachment(encryptArgs);
+    const decryptPromise = kmsUser.decryptAttachment(decryptArgs);
+
+    const [encrypt] = postMessageSpy.mock.calls[0]! as [any];
+    const [decrypt] = postMessageSpy.mock.calls[1]! as [any];
+    expect(encrypt).toMatchObject({ method: 'encryptAttachment', params: encryptArgs });
+    expect(decrypt).toMatchObject({ method: 'decryptAttachment', params: decryptArgs });
+
+    const encrypted = {
+      handle: new ArrayBuffer(96),
+      ciphertext: new ArrayBuffer(53),
+      digest: new ArrayBuffer(32),
+      size: 32,
+    };
+    env.respond({ id: encrypt.id, result: encrypted });
+    env.respond({ id: decrypt.id, result: { plaintext: new ArrayBuffer(32) } });
+
+    expect(await encryptPromise).toEqual(encrypted);
+    expect((await decryptPromise).plaintext.byteLength).toBe(32);
+  });
+
+  it('should forward chunked attachment decrypt RPCs', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+    const begin = { sid: 'sid-1', token: 'cap-token', handle: new ArrayBuffer(96) };
+    const feed = { sid: 'sid-1', token: 'cap-token', stream: 'st-1', ciphertext: new ArrayBuffer(53) };
+    const finish = { sid: 'sid-1', token: 'cap-token', stream: 'st-1' };
+
+    const beginPromise = kmsUser.beginAttachmentDecrypt(begin);
+    const feedPromise = kmsUser.feedAttachmentDecrypt(feed);
+    const finishPromise = kmsUser.finishAttachmentDecrypt(finish);
+
+    const calls = postMessageSpy.mock.calls.map(([req]) => req as any);
+    expect(calls[0]).toMatchObject({ method: 'beginAttachmentDecrypt', params: begin });
+    expect(calls[1]).toMatchObject({ method: 'feedAttachmentDecrypt', params: feed });
+    expect(calls[2]).toMatchObject({ method: 'finishAttachmentDecrypt', params: finish });
+
+    env.respond({ id: calls[0].id, result: { stream: 'st-1' } });
+    env.respond({ id: calls[1].id, result: { plaintext: new ArrayBuffer(16) } });
+    env.respond({ id: calls[2].id, result: { plaintext: new ArrayBuffer(4) } });
+
+    expect(await beginPromise).toEqual({ stream: 'st-1' });
+    expect((await feedPromise).plaintext.byteLength).toBe(16);
+    expect((await finishPromise).plaintext.byteLength).toBe(4);
+  });
+
+  it('should forward device-roster RPCs', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+    const update = { sid: 'sid-1', token: 'cap-token', revoke: [new ArrayBuffer(33)] };
+    const apply = { sid: 'sid-1', token: 'cap-token', ciphertext: new ArrayBuffer(16) };
+    const importArgs = { sid: 'sid-1', token: 'cap-token', peerUserId: 'bob', roster: new ArrayBuffer(16) };
+
+    const getPromise = kmsUser.getDeviceRoster('sid-1', 'cap-token');
+    const updatePromise = kmsUser.updateDeviceRoster(update);
+    const applyPromise = kmsUser.applyDeviceRoster(apply);
+    const importPromise = kmsUser.importContactRoster(importArgs);
+
+    const calls = postMessageSpy.mock.calls.map(([req]) => req as any);
+    expect(calls[0]).toMatchObject({ method: 'getDeviceRoster', params: { sid: 'sid-1', token: 'cap-token' } });
+    expect(calls[1]).toMatchObject({ method: 'updateDeviceRoster', params: update });
+    expect(calls[2]).toMatchObject({ method: 'applyDeviceRoster', params: apply });
+    expect(calls[3]).toMatchObject({ method: 'importContactRoster', params: importArgs });
+
+    const roster = { version: 2, roster: new ArrayBuffer(8) };
+    env.respond({ id: calls[0].id, result: roster });
+    env.respond({ id: calls[1].id, result: { ...roster, announcement: new ArrayBuffer(8) } });
+    env.respond({ id: calls[2].id, result: { version: 2, applied: true, revoked: false } });
+    env.respond({ id: calls[3].id, result: { version: 5, applied: false } });
+
+    expect(await getPromise).toEqual(roster);
+    expect((await updatePromise).version).toBe(2);
+    expect(await applyPromise).toEqual({ version: 2, applied: true, revoked: false });
+    expect(await importPromise).toEqual({ version: 5, applied: false });
+  });
+
+  it('should get enrollments', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
 
     const requestPromise = kmsUser.getEnrollments();
 
-    const [request] = postMessageSpy.mock.calls[0]! as [any, string];
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
     expect(request.method).toBe('getEnrollments');
 
-    env.simulateIframeMessage({
+    env.respond({
       id: request.id,
       result: { enrollments: ['enrollment:passphrase:v2', 'enrollment:passkey-prf:v2'] },
     });
@@ -754,15 +1481,14 @@ describe('status and management', () => {
   });
 
   it('should verify audit chain', async () => {
-    const iframe = env.getCurrentIframe();
-    const postMessageSpy = vi.spyOn(iframe!.contentWindow!, 'postMessage');
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
 
     const requestPromise = kmsUser.verifyAuditChain();
 
-    const [request] = postMessageSpy.mock.calls[0]! as [any, string];
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
     expect(request.method).toBe('verifyAuditChain');
 
-    env.simulateIframeMessage({
+    env.respond({
       id: request.id,
       result: { valid: true, entries: 10 },
     });
@@ -772,16 +1498,36 @@ describe('status and management', () => {
     expect(result.entries).toBe(10);
   });
 
+  it('should export the audit log with the range as flat params', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+    const credentials = { method: 'passphrase' as const, passphrase: 'secret', userId: 'user@example.com' };
+
+    const requestPromise = kmsUser.exportAuditLog(credentials, { fromSeqNum: 5 });
+
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
+    expect(request.method).toBe('exportAuditLog');
+    expect(request.params).toEqual({ credentials, fromSeqNum: 5 });
+
+    env.respond({
+      id: request.id,
+      result: { manifest: { entryCount: 0 }, sig: 'sig', entries: [], rotations: [], certs: [] },
+    });
+
+    const result = await requestPromise;
+    expect(result.manifest.entryCount).toBe(0);
+  });
+
   it('should reset KMS', async () => {
-    const iframe = env.getCurrentIframe();
-    const postMessageSpy = vi.spyOn(iframe!.contentWindow!, 'postMessage');
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
 
-    const requestPromise = kmsUser.resetKMS();
+    const requestPromise = kmsUser.resetKMS('user@example.com');
 
-    const [request] = postMessageSpy.mock.calls[0]! as [any, string];
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
     expect(request.method).toBe('resetKMS');
+    // Only the userId crosses from the PWA; credentials are collected in the enclave popup
+    expect(request.params).toEqual({ userId: 'user@example.com' });
 
-    env.simulateIframeMessage({
+    env.respond({
       id: request.id,
       result: { success: true },
     });
@@ -790,17 +1536,105 @@ describe('status and management', () => {
     expect(result.success).toBe(true);
   });
 
+  it('should reject the old zero-argument resetKMS() without sending anything', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+
+    const legacy = kmsUser as unknown as { resetKMS: () => Promise<unknown> };
+    await expect(legacy.resetKMS()).rejects.toMatchObject({
+      code: 'VALIDATION',
+      message: expect.stringContaining('resetKMS(userId)'),
+    });
+    expect(postMessageSpy).not.toHaveBeenCalled();
+  });
+
+  it('should export a backup', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+
+    const requestPromise = kmsUser.exportBackup('user@example.com');
+
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
+    expect(request.method).toBe('exportBackup');
+    expect(request.params).toEqual({ userId: 'user@example.com' });
+
+    env.respond({
+      id: request.id,
+      result: { backup: '{"format":"ats-kms-backup"}', auditEntry: { op: 'export-backup' } },
+    });
+
+    const result = await requestPromise;
+    expect(result.backup).toBe('{"format":"ats-kms-backup"}');
+  });
+
+  it('should import a backup', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+
+    const requestPromise = kmsUser.importBackup('user@example.com', 'archive-text');
+
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
+    expect(request.method).toBe('importBackup');
+    expect(request.params).toEqual({ userId: 'user@example.com', backup: 'archive-text' });
+
+    env.respond({
+      id: request.id,
+      result: { success: true, auditEntry: { op: 'import-backup' } },
+    });
+
+    const result = await requestPromise;
+    expect(result.success).toBe(true);
+  });
+
+  it('should change passphrase', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+
+    const requestPromise = kmsUser.changePassphrase('user@example.com', 'old-pass-123', 'new-pass-456');
+
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
+    expect(request.method).toBe('changePassphrase');
+    expect(request.params).toEqual({
+      newPassphrase: 'new-pass-456',
+      credentials: { method: 'passphrase', passphrase: 'old-pass-123', userId: 'user@example.com' },
+    });
+
+    env.respond({ id: request.id, result: { success: true, iterations: 600000 } });
+
+    const result = await requestPromise;
+    expect(result.iterations).toBe(600000);
+  });
+
+  it('should rotate the Master Secret', async () => {
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
+
+    const credentials = { method: 'passphrase' as const, passphrase: 'test-123', userId: 'test@example.com' };
+    const additional = { method: 'passkey-gate' as const, userId: 'test@example.com' };
+    const requestPromise = kmsUser.rotateMasterSecret(credentials, [additional]);
+
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
+    expect(request.method).toBe('rotateMasterSecret');
+    expect(request.params).toEqual({ credentials, additionalCredentials: [additional] });
+
+    env.respond({
+      id: request.id,
+      result: {
+        success: true,
+        auditEntry: { op: 'rotate-master-secret' },
+        rewrapped: { enrollments: 2, keys: 1, blobs: 0, leases: 0 },
+      },
+    });
+
+    const result = await requestPromise;
+    expect(result.rewrapped.enrollments).toBe(2);
+  });
+
   it('should remove enrollment', async () => {
-    const iframe = env.getCurrentIframe();
-    const postMessageSpy = vi.spyOn(iframe!.contentWindow!, 'postMessage');
+    const postMessageSpy = vi.spyOn(env.getUserPort()!, 'postMessage');
 
     const credentials = { method: 'passphrase' as const, passphrase: 'test-123', userId: 'test@example.com' };
     const requestPromise = kmsUser.removeEnrollment('enrollment:passkey-prf:v2', credentials);
 
-    const [request] = postMessageSpy.mock.calls[0]! as [any, string];
+    const [request] = postMessageSpy.mock.calls[0]! as [any];
     expect(request.method).toBe('removeEnrollment');
 
-    env.simulateIframeMessage({
+    env.respond({
       id: request.id,
       result: { success: true },
     });
@@ -0,0 +1,169 @@
+/**
+ * @file operation-policy.test.ts
+ * @description Tests for the declarative operation policy table and its
+ * enforcement in the worker dispatcher.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  OPERATION_POLICIES,
+  OperationPolicyError,
+  awaitsUser,
+  enforceOperationPolicy,
+  getOperationPolicy,
+  isReplaySafe,
+  listSilentOperations,
+} from '@/v2/operation-policy';
+import { handleMessage } from '@/v2/worker';
+import { initDB, closeDB } from '@/v2/storage';
+import { resetAuditLogger } from '@/v2/audit';
+import type { RPCRequest } from '@/v2/types';
+
+const creds = { method: 'passphrase', userId: 'user@example.com', passphrase: 'correct-horse-battery' };
+
+function createRequest(method: string, params: unknown = {}): RPCRequest {
+  return { id: `req-${method}-${Math.random().toString(36).slice(2)}`, method, params };
+}
+
+describe('OPERATION_POLICIES table', () => {
+  it('should return undefined for methods without a policy', () => {
+    expect(getOperationPolicy('unknownMethod')).toBeUndefined();
+    expect(getOperationPolicy('toString')).toBeUndefined();
+  });
+
+  it('should give every fresh-auth method in params a severity above none', () => {
+    for (const [method, policy] of Object.entries(OPERATION_POLICIES)) {
+      if (policy.freshAuth === 'params') {
+        expect(policy.audit, method).not.toBe('none');
+      }
+    }
+  });
+
+  it('should list only operations with no auth, UI, lease or session', () => {
+    const silent = listSilentOperations();
+    expect(silent).toContain('isSetup');
+    expect(silent).not.toContain('resetKMS');
+    expect(silent).toContain('setPushSubscription');
+    expect(silent).not.toContain('extendLeases');
+    expect(silent).not.toContain('createLease');
+    expect(silent).not.toContain('issueVAPIDJWT');
+    expect(silent).not.toContain('buildBundle');
+    expect(silent).not.toContain('addEnrollmentWithPopup');
+  });
+
+  it('should only let methods marked idempotent be replayed after a lost connection', () => {
+    expect(isReplaySafe('isSetup')).toBe(true);
+    expect(isReplaySafe('listContacts')).toBe(true);
+    // Unaudited, but writes: a replay could undo a later change
+    expect(isReplaySafe('setPushSubscription')).toBe(false);
+    expect(isReplaySafe('removePushSubscription')).toBe(false);
+    expect(isReplaySafe('createLease')).toBe(false);
+    expect(isReplaySafe('verifyContactDevice')).toBe(false);
+    expect(isReplaySafe('buildBundle')).toBe(false);
+    expect(isReplaySafe('unknownMethod')).toBe(false);
+    for (const [method, policy] of Object.entries(OPERATION_POLICIES)) {
+      if (policy.idempotent === true) expect(policy.audit, method).toBe('none');
+    }
+  });
+
+  it('should mark methods with unlock UI or confirmation as awaiting the user', () => {
+    expect(awaitsUser('createLease')).toBe(true);
+    expect(awaitsUser('setupWithPopup')).toBe(true);
+    expect(awaitsUser('extendLeases')).toBe(true);
+    expect(awaitsUser('isSetup')).toBe(false);
+    expect(awaitsUser('buildBundle')).toBe(false);
+  });
+});
+
+describe('enforceOperationPolicy', () => {
+  it('should reject unknown methods', () => {
+    expect(() => enforceOperationPolicy('unknownMethod', {})).toThrow('Unknown RPC method: unknownMethod');
+  });
+
+  it('should return the enforced policy', () => {
+    expect(enforceOperationPolicy('isSetup', undefined)).toBe(OPERATION_POLICIES.isSetup);
+  });
+
+  it('should require credentials for freshAuth params', () => {
+    expect(() => enforceOperationPolicy('createLease', { userId: 'u', ttlHours: 1 })).toThrow(
+      OperationPolicyError
+    );
+    expect(() =>
+      enforceOperationPolicy('createLease', { userId: 'u', ttlHours: 1, credentials: creds })
+    ).not.toThrow();
+  });
+
+  it('should refuse caller credentials for freshAuth ceremony', () => {
+    expect(() =>
+      enforceOperationPolicy('addEnrollmentWithPopup', { userId: 'u', credentials: creds })
+    ).toThrow(/collected by the KMS popup/);
+    expect(() => enforceOperationPolicy('addEnrollmentWithPopup', { userId: 'u' })).not.toThrow();
+  });
+
+  it('should require a lease for lease allowance', () => {
+    expect(() => enforceOperationPolicy('issueVAPIDJWT', {})).toThrow(/lease required/);
+    expect(() => enforceOperationPolicy('issueVAPIDJWT', { leaseId: 'lease-1' })).not.toThrow();
+    expect(() => enforceOperationPolicy('extendLeases', { leaseIds: [], userId: 'u' })).not.toThrow();
+  });
+
+  it('should require sid and token for session allowance', () => {
+    expect(() => enforceOperationPolicy('listContacts', { sid: 's' })).toThrow(/messaging session/);
+    expect(() => enforceOperationPolicy('listContacts', { sid: 's', token: 't' })).not.toThrow();
+  });
+
+  it('should enforce maxTtl', () => {
+    const err = ((): unknown => {
+      try {
+        enforceOperationPolicy('createLease', { userId: 'u', ttlHours: 721, credentials: creds });
+      } catch (e) {
+        return e;
+      }
+      return undefined;
+    })();
+    expect(err).toBeInstanceOf(OperationPolicyError);
+    expect((err as OperationPolicyError).rule).toBe('maxTtl');
+    expect((err as OperationPolicyError).message).toBe(
+      'RPC createLease: Policy violation (maxTtl) - ttlHours exceeds maximum of 720'
+    );
+  });
+
+  it('should enforce maxCount on numbers and array lengths', () => {
+    expect(() => enforceOperationPolicy('issueVAPIDJWTs', { leaseId: 'l', count: 11 })).toThrow(
+      /count exceeds maximum of 10/
+    );
+    expect(() => enforceOperationPolicy('issueVAPIDJWTs', { leaseId: 'l', count: 10 })).not.toThrow();
+    const recipients = Array.from({ length: 65 }, () => ({ peerName: 'p' }));
+    expect(() => enforceOperationPolicy('buildBundle', { sid: 's', token: 't', recipients })).toThrow(
+      /recipients exceeds maximum of 64/
+    );
+  });
+});
+
+describe('handleMessage policy enforcement', () => {
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    await initDB();
+    resetAuditLogger();
+  });
+
+  afterEach(() => {
+    closeDB();
+    resetAuditLogger();
+  });
+
+  it('should reject a policy violation before the handler runs', async () => {
+    const response = await handleMessage(
+      createRequest('issueVAPIDJWTs', { leaseId: 'lease-missing', count: 50 })
+    );
+    // The handler's own count check would say "between 1 and 10"; the policy gate fires first.
+    expect(response.error).toMatchObject({ code: 'POLICY_DENIED', message: expect.stringContaining('Policy violation (maxCount)') });
+  });
+
+  it('should reject caller-supplied credentials on popup ceremonies', async () => {
+    const response = await handleMessage(
+      createRequest('addEnrollmentWithPopup', { userId: 'u', credentials: creds })
+    );
+    expect(response.error).toMatchObject({ code: 'POLICY_DENIED', message: expect.stringContaining('Policy violation (freshAuth)') });
+  });
+});
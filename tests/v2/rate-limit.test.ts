@@ -0,0 +1,160 @@
+/**
+ * @file rate-limit.test.ts
+ * @description Tests for lease quota accounting (rate-limit.ts)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  chargeQuota,
+  DEFAULT_LEASE_QUOTAS,
+  QuotaExceededError,
+  isQuotaDimension,
+} from '@/v2/rate-limit';
+import { createRateLimitState } from '@/v2/storage-types';
+import type { RateLimitState } from '@/v2/storage-types';
+import type { QuotaState } from '@/v2/types';
+
+const T0 = 1_700_000_000_000;
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+function expectRejection(fn: () => unknown): QuotaExceededError {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(QuotaExceededError);
+    return err as QuotaExceededError;
+  }
+  throw new Error('Expected QuotaExceededError');
+}
+
+/** Charge `n` single-JWT requests, each on its own endpoint so only the lease-wide limits apply */
+function chargeMany(state: RateLimitState, quotas: QuotaState, n: number, now: number): RateLimitState {
+  for (let i = 0; i < n; i++) {
+    state = chargeQuota(state, quotas, { now, eid: `ep-${i}`, jwts: 1 });
+  }
+  return state;
+}
+
+describe('chargeQuota', () => {
+  describe('tokensPerHour (sliding window)', () => {
+    const quotas: QuotaState = { ...DEFAULT_LEASE_QUOTAS, tokensPerHour: 3, burstSends: 100, sendsPerMinute: 100 };
+
+    it('should admit requests up to the hourly limit', () => {
+      const state = chargeMany(createRateLimitState(quotas, T0), quotas, 3, T0);
+      expect(state.issuedAt).toHaveLength(3);
+
+      const err = expectRejection(() => chargeQuota(state, quotas, { now: T0 + 1000, eid: 'ep-x', jwts: 1 }));
+      expect(err.quota).toBe('tokensPerHour');
+      expect(err.retryAfterMs).toBe(HOUR - 1000);
+    });
+
+    it('should free capacity as the oldest issuance leaves the window', () => {
+      let state = chargeQuota(createRateLimitState(quotas, T0), quotas, { now: T0, eid: 'a', jwts: 1 });
+      state = chargeMany(state, quotas, 2, T0 + 10 * MINUTE);
+
+      // Only the first issuance has left the window
+      const next = chargeQuota(state, quotas, { now: T0 + HOUR + 1, eid: 'b', jwts: 1 });
+      expect(next.issuedAt).toHaveLength(3);
+      expectRejection(() => chargeQuota(next, quotas, { now: T0 + HOUR + 2, eid: 'c', jwts: 1 }));
+    });
+
+    it('should count every JWT of a batch', () => {
+      const state = chargeQuota(createRateLimitState(quotas, T0), quotas, { now: T0, eid: 'a', jwts: 2 });
+      const err = expectRejection(() => chargeQuota(state, quotas, { now: T0, eid: 'b', jwts: 2 }));
+      expect(err.quota).toBe('tokensPerHour');
+    });
+  });
+
+  describe('sendsPerMinute / burstSends (token bucket)', () => {
+    const quotas: QuotaState = { ...DEFAULT_LEASE_QUOTAS, sendsPerMinute: 6, burstSends: 3 };
+
+    it('should admit a burst up to the bucket capacity', () => {
+      const state = chargeMany(createRateLimitState(quotas, T0), quotas, 3, T0);
+      expect(state.sendTokens).toBe(0);
+
+      const err = expectRejection(() => chargeQuota(state, quotas, { now: T0, eid: 'ep-x', jwts: 1 }));
+      expect(err.quota).toBe('sendsPerMinute');
+      expect(err.retryAfterMs).toBe(10_000); // 6 per minute = one token every 10s
+    });
+
+    it('should refill continuously at sendsPerMinute', () => {
+      const state = chargeMany(createRateLimitState(quotas, T0), quotas, 3, T0);
+      const refilled = chargeQuota(state, quotas, { now: T0 + 10_000, eid: 'ep-x', jwts: 1 });
+      expect(refilled.sendTokens).toBe(0);
+      expect(refilled.lastRefillAt).toBe(T0 + 10_000);
+    });
+
+    it('should never refill beyond burstSends', () => {
+      const state = chargeQuota(createRateLimitState(quotas, T0), quotas, { now: T0 + HOUR, eid: 'a', jwts: 1 });
+      expect(state.sendTokens).toBe(2);
+    });
+
+    it('should report no retry for a batch larger than the bucket', () => {
+      const err = expectRejection(() =>
+        chargeQuota(createRateLimitState(quotas, T0), quotas, { now: T0, eid: 'a', jwts: 4 })
+      );
+      expect(err.quota).toBe('sendsPerMinute');
+      expect(err.retryAfterMs).toBeNull();
+      expect(err.message).toContain('request is larger than the quota');
+    });
+  });
+
+  describe('sendsPerMinutePerEid (sliding window per endpoint)', () => {
+    const quotas: QuotaState = { ...DEFAULT_LEASE_QUOTAS, sendsPerMinutePerEid: 2 };
+
+    it('should limit requests per endpoint independently', () => {
+      let state = createRateLimitState(quotas, T0);
+      state = chargeQuota(state, quotas, { now: T0, eid: 'a', jwts: 1 });
+      state = chargeQuota(state, quotas, { now: T0 + 5000, eid: 'a', jwts: 1 });
+
+      const err = expectRejection(() => chargeQuota(state, quotas, { now: T0 + 6000, eid: 'a', jwts: 1 }));
+      expect(err.quota).toBe('sendsPerMinutePerEid');
+      expect(err.retryAfterMs).toBe(MINUTE - 6000);
+
+      // Another endpoint is unaffected
+      expect(() => chargeQuota(state, quotas, { now: T0 + 6000, eid: 'b', jwts: 1 })).not.toThrow();
+    });
+
+    it('should count a batch as one request', () => {
+      const state = chargeQuota(createRateLimitState(quotas, T0), quotas, { now: T0, eid: 'a', jwts: 10 });
+      expect(state.perEndpoint.a).toEqual([T0]);
+    });
+
+    it('should drop endpoints whose window has emptied', () => {
+      let state = chargeQuota(createRateLimitState(quotas, T0), quotas, { now: T0, eid: 'a', jwts: 1 });
+      state = chargeQuota(state, quotas, { now: T0 + MINUTE, eid: 'b', jwts: 1 });
+      expect(Object.keys(state.perEndpoint)).toEqual(['b']);
+    });
+  });
+
+  it('should report the dimension with the longest wait', () => {
+    const quotas: QuotaState = { tokensPerHour: 1, sendsPerMinute: 1, burstSends: 1, sendsPerMinutePerEid: 1 };
+    const state = chargeQuota(createRateLimitState(quotas, T0), quotas, { now: T0, eid: 'a', jwts: 1 });
+
+    const err = expectRejection(() => chargeQuota(state, quotas, { now: T0, eid: 'a', jwts: 1 }));
+    expect(err.quota).toBe('tokensPerHour');
+    expect(err.retryAfterMs).toBe(HOUR);
+  });
+
+  it('should not mutate the input state', () => {
+    const state = createRateLimitState(DEFAULT_LEASE_QUOTAS, T0);
+    const snapshot = structuredClone(state);
+    chargeQuota(state, DEFAULT_LEASE_QUOTAS, { now: T0, eid: 'a', jwts: 2 });
+    expect(state).toEqual(snapshot);
+  });
+});
+
+describe('isQuotaDimension', () => {
+  it('should accept dimensions that can reject a request', () => {
+    expect(isQuotaDimension('tokensPerHour')).toBe(true);
+    expect(isQuotaDimension('sendsPerMinute')).toBe(true);
+    expect(isQuotaDimension('sendsPerMinutePerEid')).toBe(true);
+  });
+
+  it('should reject anything else', () => {
+    expect(isQuotaDimension('burstSends')).toBe(false);
+    expect(isQuotaDimension('toString')).toBe(false);
+    expect(isQuotaDimension(42)).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Room-key crypto (rooms-and-trust §3.3): an admin signs a room epoch with the
+ * master signing key and seals it to one member's master encryption key; only
+ * that member opens it, and only an admin the member already knows is trusted.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { sealRoomKey, openRoomKey, verifyRoomKey, MAX_ROOM_MEMBERS, type RoomKeyUpdate } from '@/v2/room';
+import {
+  deriveMasterSigningKey,
+  deriveMasterEncryptionKey,
+  masterSigningPublicRaw,
+  masterEncryptionPublicRaw,
+} from '@/v2/master-identity';
+import { arrayBufferToBase64url } from '@/v2/crypto-utils';
+import type { RoomMember, RoomRole } from '@/v2/types';
+
+const adminRoot = new Uint8Array(16).fill(0xa1);
+const bobRoot = new Uint8Array(16).fill(0xb2);
+const carolRoot = new Uint8Array(16).fill(0xc3);
+
+function toAb(u: Uint8Array): ArrayBuffer {
+  const b = new ArrayBuffer(u.byteLength);
+  new Uint8Array(b).set(u);
+  return b;
+}
+
+async function memberFor(uid: string, root: Uint8Array, role: RoomRole): Promise<RoomMember> {
+  return {
+    uid,
+    msk: arrayBufferToBase64url(toAb(await masterSigningPublicRaw(root))),
+    mek: arrayBufferToBase64url(toAb(await masterEncryptionPublicRaw(root))),
+    role,
+    joinedAt: 1,
+  };
+}
+
+async function recipient(root: Uint8Array): Promise<{ encryptionKey: CryptoKey; mek: Uint8Array }> {
+  return { encryptionKey: await deriveMasterEncryptionKey(root), mek: await masterEncryptionPublicRaw(root) };
+}
+
+async function fixture(): Promise<{ admin: RoomMember; bob: RoomMember; update: RoomKeyUpdate }> {
+  const admin = await memberFor('admin', adminRoot, 'admin');
+  const bob = await memberFor('bob', bobRoot, 'member');
+  const update: RoomKeyUpdate = {
+    roomId: 'room-1',
+    name: 'Book club',
+    epoch: 2,
+    secret: new Uint8Array(32).fill(0x42),
+    members: [admin, bob],
+  };
+  return { admin, bob, update };
+}
+
+describe('sealRoomKey / openRoomKey / verifyRoomKey', () => {
+  it('round-trips an update to the member it was sealed to, signed by a known admin', async () => {
+    const { admin, update } = await fixture();
+    const sealed = await sealRoomKey(
+      update,
+      { uid: 'admin', signingKey: await deriveMasterSigningKey(adminRoot) },
+      await masterEncryptionPublicRaw(bobRoot)
+    );
+
+    const opened = await openRoomKey(sealed, await recipient(bobRoot));
+    expect(opened.signer).toBe('admin');
+    expect(opened.update.roomId).toBe('room-1');
+    expect(opened.update.name).toBe('Book club');
+    expect(opened.update.epoch).toBe(2);
+    expect(Array.from(opened.update.secret)).toEqual(Array.from(update.secret));
+    expect(opened.update.members.map((m) => m.uid)).toEqual(['admin', 'bob']);
+    await expect(verifyRoomKey(opened, [admin])).resolves.toBeUndefined();
+  });
+
+  it('cannot be opened by another account, or after tampering', async () => {
+    const { update } = await fixture();
+    const sealed = await sealRoomKey(
+      update,
+      { uid: 'admin', signingKey: await deriveMasterSigningKey(adminRoot) },
+      await masterEncryptionPublicRaw(bobRoot)
+    );
+    await expect(openRoomKey(sealed, await recipient(carolRoot))).rejects.toThrow(/Invalid room key/);
+
+    const tampered = new Uint8Array(sealed.slice(0));
+    tampered[tampered.length - 1]! ^= 0x01;
+    await expect(openRoomKey(toAb(tampered), await recipient(bobRoot))).rejects.toThrow(/Invalid room key/);
+    await expect(openRoomKey(new ArrayBuffer(16), await recipient(bobRoot))).rejects.toThrow(/Invalid room key/);
+  });
+
+  it('trusts only admins the member already knows, never the signer the update names', async () => {
+    const { admin, bob, update } = await fixture();
+    // Carol forges an update naming herself admin and signs it with her own key.
+    const carol = await memberFor('carol', carolRoot, 'admin');
+    const forged = await sealRoomKey(
+      { ...update, members: [carol, bob] },
+      { uid: 'carol', signingKey: await deriveMasterSigningKey(carolRoot) },
+      await masterEncryptionPublicRaw(bobRoot)
+    );
+    const opened = await openRoomKey(forged, await recipient(bobRoot));
+    await expect(verifyRoomKey(opened, [admin, bob])).rejects.toThrow(/not signed by a room admin/);
+
+    // Claiming to be the known admin without their key fails the signature check.
+    const impostor = await sealRoomKey(
+      update,
+      { uid: 'admin', signingKey: await deriveMasterSigningKey(carolRoot) },
+      await masterEncryptionPublicRaw(bobRoot)
+    );
+    const openedImpostor = await openRoomKey(impostor, await recipient(bobRoot));
+    await expect(verifyRoomKey(openedImpostor, [admin])).rejects.toThrow(/not signed by a room admin/);
+
+    // A known member who is not an admin is not trusted either.
+    await expect(verifyRoomKey(opened, [{ ...carol, role: 'member' }])).rejects.toThrow(/not signed by a room admin/);
+  });
+
+  it('refuses to seal an invalid update', async () => {
+    const { admin, bob, update } = await fixture();
+    const signer = { uid: 'admin', signingKey: await deriveMasterSigningKey(adminRoot) };
+    const mek = await masterEncryptionPublicRaw(bobRoot);
+    await expect(sealRoomKey({ ...update, epoch: 0 }, signer, mek)).rejects.toThrow(/Invalid room key/);
+    await expect(sealRoomKey({ ...update, secret: new Uint8Array(16) }, signer, mek)).rejects.toThrow(
+      /Invalid room key/
+    );
+    await expect(sealRoomKey({ ...update, members: [bob] }, signer, mek)).rejects.toThrow(/Invalid room key/);
+    await expect(sealRoomKey({ ...update, members: [admin, admin] }, signer, mek)).rejects.toThrow(
+      /Invalid room key/
+    );
+    const crowd = Array.from({ length: MAX_ROOM_MEMBERS + 1 }, (_, i) => ({ ...bob, uid: `m${i}` }));
+    await expect(sealRoomKey({ ...update, members: [admin, ...crowd] }, signer, mek)).rejects.toThrow(
+      /Invalid room key/
+    );
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @file rotation.test.ts
+ * @description Tests for Master Secret rotation re-encryption (rotation.ts).
+ * The rotation itself is covered in worker.test.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { rewrapBlobs, rewrapKeyRecord } from '@/v2/rotation';
+import type { RotationKeyPair } from '@/v2/rotation';
+import type { WrappedBlob, WrappedKey } from '@/v2/types';
+
+const generate = (): Promise<CryptoKey> =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+async function pair(): Promise<RotationKeyPair> {
+  return { old: await generate(), new: await generate() };
+}
+
+async function seal(key: CryptoKey, plaintext: number[], aad = new Uint8Array([1]).buffer): Promise<WrappedBlob> {
+  const iv = crypto.getRandomValues(new Uint8Array(12)).buffer;
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: aad },
+    key,
+    new Uint8Array(plaintext)
+  );
+  return { ciphertext, iv, aad };
+}
+
+async function open(key: CryptoKey, blob: WrappedBlob): Promise<number[]> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: blob.iv, additionalData: blob.aad },
+    key,
+    blob.ciphertext
+  );
+  return Array.from(new Uint8Array(plaintext));
+}
+
+describe('rewrapBlobs', () => {
+  it('should re-encrypt nested blobs under the matching new key', async () => {
+    const mkek = await pair();
+    const messaging = await pair();
+    const record = {
+      userId: 'alice',
+      root: await seal(mkek.old, [1]),
+      sessions: [{ state: await seal(messaging.old, [2]) }],
+      raw: new Uint8Array([3]).buffer,
+    };
+    const aad = record.root.aad;
+
+    expect(await rewrapBlobs(record, [mkek, messaging])).toBe(2);
+    expect(await open(mkek.new, record.root)).toEqual([1]);
+    expect(await open(messaging.new, record.sessions[0]!.state)).toEqual([2]);
+    expect(record.root.aad).toBe(aad);
+  });
+
+  it('should reject a blob no old key opens', async () => {
+    const record = { blob: await seal(await generate(), [1]) };
+
+    await expect(rewrapBlobs(record, [await pair()])).rejects.toThrow(
+      'Wrapped blob does not authenticate under the current Master Secret'
+    );
+  });
+});
+
+describe('rewrapKeyRecord', () => {
+  it('should keep the record and move its key under the new MKEK', async () => {
+    const mkek = await pair();
+    const blob = await seal(mkek.old, [7, 8]);
+    const record = { kid: 'vapid-1', wrappedKey: blob.ciphertext, iv: blob.iv, aad: blob.aad } as WrappedKey;
+
+    const rewrapped = await rewrapKeyRecord(record, mkek);
+    expect(rewrapped.kid).toBe('vapid-1');
+    expect(
+      await open(mkek.new, { ciphertext: rewrapped.wrappedKey, iv: rewrapped.iv, aad: rewrapped.aad })
+    ).toEqual([7, 8]);
+
+    await expect(rewrapKeyRecord(record, await pair())).rejects.toThrow(
+      'Key vapid-1 does not authenticate under the current MKEK'
+    );
+  });
+});
@@ -17,9 +17,26 @@ import {
   validateBuildBundle,
   validateOpenBundle,
   validateRotatePrekeys,
+  validateMaintainPrekeys,
   validateGetIdentityCard,
   validateGetDeviceCert,
   validateVerifyContactDevice,
+  validateGetSafetyNumber,
+  validateVerifySafetyNumber,
+  validateGetDeviceRoster,
+  validateUpdateDeviceRoster,
+  validateApplyDeviceRoster,
+  validateImportContactRoster,
+  validateEncryptAttachment,
+  validateDecryptAttachment,
+  validateBeginAttachmentDecrypt,
+  validateFeedAttachmentDecrypt,
+  validateFinishAttachmentDecrypt,
+  validateMintInvite,
+  validateApplyRoomKey,
+  validateListRoomMembers,
+  validateRemoveRoomMember,
+  validateRotateRoomSecret,
   type MessagingDeviceBundle,
 } from '@/v2/rpc-validation';
 
@@ -164,6 +181,57 @@ describe('validateBuildBundle', () => {
     const r = validateBuildBundle({ ...base, recipients: [{ peerName: 'bob', deviceBundle: b }] });
     expect(r.recipients[0]!.deviceBundle?.preKey).toBeUndefined();
   });
+
+  it('accepts sealed attachment handles and rejects bad ones', () => {
+    const handle = new ArrayBuffer(96);
+    expect(validateBuildBundle(base)).not.toHaveProperty('attachments');
+    expect(validateBuildBundle({ ...base, attachments: [handle] }).attachments).toEqual([handle]);
+    expect(() => validateBuildBundle({ ...base, attachments: [new ArrayBuffer(95)] })).toThrow(/attachments/);
+    expect(() => validateBuildBundle({ ...base, attachments: Array(33).fill(handle) })).toThrow(/attachments/);
+  });
+
+  it('accepts sealed-sender options, defaulting the device id to 1', () => {
+    expect(validateBuildBundle(base)).not.toHaveProperty('sealedSender');
+    expect(validateBuildBundle({ ...base, sealedSender: {} }).sealedSender).toEqual({ deviceId: 1 });
+    expect(validateBuildBundle({ ...base, sealedSender: { deviceId: 7 } }).sealedSender).toEqual({ deviceId: 7 });
+    expect(() => validateBuildBundle({ ...base, sealedSender: { deviceId: 0 } })).toThrow(/sealedSender/);
+    expect(() => validateBuildBundle({ ...base, sealedSender: true })).toThrow();
+  });
+});
+
+describe('validateEncryptAttachment / validateDecryptAttachment', () => {
+  it('accept an attachment up to 64 MiB, including an empty one', () => {
+    const plaintext = new ArrayBuffer(0);
+    expect(validateEncryptAttachment({ sid: 's', token: 't', plaintext })).toEqual({ sid: 's', token: 't', plaintext });
+    expect(() =>
+      validateEncryptAttachment({ sid: 's', token: 't', plaintext: new ArrayBuffer(64 * 1024 * 1024 + 1) })
+    ).toThrow(/plaintext/);
+  });
+
+  it('require a 96-byte handle and non-empty ciphertext', () => {
+    const params = { sid: 's', token: 't', handle: new ArrayBuffer(96), ciphertext: new ArrayBuffer(21) };
+    expect(validateDecryptAttachment(params)).toEqual(params);
+    expect(() => validateDecryptAttachment({ ...params, handle: new ArrayBuffer(32) })).toThrow(/handle/);
+    expect(() => validateDecryptAttachment({ ...params, ciphertext: new ArrayBuffer(0) })).toThrow(/ciphertext/);
+  });
+
+  it('chunked decrypt: a handle to begin, a stream id and non-empty pieces to feed and finish', () => {
+    const begin = { sid: 's', token: 't', handle: new ArrayBuffer(96) };
+    expect(validateBeginAttachmentDecrypt(begin)).toEqual(begin);
+    expect(() => validateBeginAttachmentDecrypt({ ...begin, handle: new ArrayBuffer(32) })).toThrow(/handle/);
+
+    const feed = { sid: 's', token: 't', stream: 'x', ciphertext: new ArrayBuffer(7) };
+    expect(validateFeedAttachmentDecrypt(feed)).toEqual(feed);
+    expect(() => validateFeedAttachmentDecrypt({ ...feed, ciphertext: new ArrayBuffer(0) })).toThrow(/ciphertext/);
+    expect(() => validateFeedAttachmentDecrypt({ ...feed, stream: 1 })).toThrow(/stream/);
+
+    expect(validateFinishAttachmentDecrypt({ sid: 's', token: 't', stream: 'x' })).toEqual({
+      sid: 's',
+      token: 't',
+      stream: 'x',
+    });
+    expect(() => validateFinishAttachmentDecrypt({ sid: 's', token: 't' })).toThrow(/stream/);
+  });
 });
 
 describe('validateOpenBundle', () => {
@@ -175,7 +243,7 @@ describe('validateOpenBundle', () => {
   };
 
   it('defaults peerDeviceId to 1', () => {
-    expect(validateOpenBundle(base).senders[0]!.peerDeviceId).toBe(1);
+    expect(validateOpenBundle(base).senders?.[0]!.peerDeviceId).toBe(1);
   });
 
   it('rejects an empty or oversized bundle', () => {
@@ -188,6 +256,11 @@ describe('validateOpenBundle', () => {
     const many = Array.from({ length: 65 }, () => ({ peerName: 'b' }));
     expect(() => validateOpenBundle({ ...base, senders: many })).toThrow();
   });
+
+  it('allows senders to be omitted (sealed-sender bundles)', () => {
+    const sealed = { sid: 's', token: 't', bundle: base.bundle };
+    expect(validateOpenBundle(sealed)).toEqual(sealed);
+  });
 });
 
 describe('validateRotatePrekeys', () => {
@@ -204,6 +277,14 @@ describe('validateRotatePrekeys', () => {
   });
 });
 
+describe('validateMaintainPrekeys', () => {
+  it('requires sid and token', () => {
+    expect(validateMaintainPrekeys({ sid: 's', token: 't' })).toEqual({ sid: 's', token: 't' });
+    expect(() => validateMaintainPrekeys({ sid: 's' })).toThrow();
+    expect(() => validateMaintainPrekeys({ token: 't' })).toThrow();
+  });
+});
+
 describe('validateGetIdentityCard / validateGetDeviceCert', () => {
   it('require sid and token', () => {
     expect(validateGetIdentityCard({ sid: 's', token: 't' })).toEqual({ sid: 's', token: 't' });
@@ -243,4 +324,124 @@ describe('validateVerifyContactDevice', () => {
   it('rejects missing sid/token', () => {
     expect(() => validateVerifyContactDevice({ ...base, sid: undefined })).toThrow();
   });
+
+  it('passes an optional peerUserId through, validated', () => {
+    expect(validateVerifyContactDevice(base)).not.toHaveProperty('peerUserId');
+    expect(validateVerifyContactDevice({ ...base, peerUserId: 'bob' }).peerUserId).toBe('bob');
+    expect(() => validateVerifyContactDevice({ ...base, peerUserId: '' })).toThrow(/peerUserId/);
+  });
+});
+
+describe('validateGetSafetyNumber / validateVerifySafetyNumber', () => {
+  const base = {
+    sid: 's',
+    token: 't',
+    peerUserId: 'bob',
+    masterSigningPub: new ArrayBuffer(32),
+    masterEncryptionPub: new ArrayBuffer(32),
+  };
+
+  it('accept a peer uid and 32-byte master public keys', () => {
+    expect(validateGetSafetyNumber(base)).toEqual(base);
+    expect(validateVerifySafetyNumber(base)).toEqual(base);
+  });
+
+  it('reject wrong-length master keys, a missing peer, or a missing session', () => {
+    for (const validate of [validateGetSafetyNumber, validateVerifySafetyNumber]) {
+      expect(() => validate({ ...base, masterSigningPub: new ArrayBuffer(33) })).toThrow(/masterSigningPub/);
+      expect(() => validate({ ...base, masterEncryptionPub: new ArrayBuffer(31) })).toThrow(/masterEncryptionPub/);
+      expect(() => validate({ ...base, peerUserId: '' })).toThrow(/peerUserId/);
+      expect(() => validate({ ...base, token: undefined })).toThrow();
+    }
+  });
+
+  it('accept both master keys omitted (ledger keys), but not just one', () => {
+    const { masterSigningPub, masterEncryptionPub, ...bare } = base;
+    for (const validate of [validateGetSafetyNumber, validateVerifySafetyNumber]) {
+      expect(validate(bare)).toEqual(bare);
+      expect(() => validate({ ...bare, masterSigningPub })).toThrow(/masterEncryptionPub/);
+      expect(() => validate({ ...bare, masterEncryptionPub })).toThrow(/masterSigningPub/);
+    }
+  });
+});
+
+describe('device roster RPCs', () => {
+  const device = {
+    identityKey: new ArrayBuffer(33),
+    identitySigningKey: new ArrayBuffer(32),
+    cert: new ArrayBuffer(64),
+  };
+
+  it('accept a bare read, and an update with adds and revocations', () => {
+    expect(validateGetDeviceRoster({ sid: 's', token: 't' })).toEqual({ sid: 's', token: 't' });
+    expect(validateUpdateDeviceRoster({ sid: 's', token: 't' })).toEqual({ sid: 's', token: 't' });
+    const update = { sid: 's', token: 't', add: [device], revoke: [new ArrayBuffer(33)] };
+    expect(validateUpdateDeviceRoster(update)).toEqual(update);
+  });
+
+  it('reject a short cert, an empty key, or too many changes', () => {
+    const base = { sid: 's', token: 't' };
+    expect(() => validateUpdateDeviceRoster({ ...base, add: [{ ...device, cert: new ArrayBuffer(63) }] })).toThrow(
+      /add\.cert/
+    );
+    expect(() => validateUpdateDeviceRoster({ ...base, revoke: [new ArrayBuffer(0)] })).toThrow(/revoke/);
+    const many = Array.from({ length: 33 }, () => new ArrayBuffer(33));
+    expect(() => validateUpdateDeviceRoster({ ...base, revoke: many })).toThrow(/revoke/);
+    expect(() => validateUpdateDeviceRoster({ ...base, add: 'x' })).toThrow(/add/);
+  });
+
+  it('bound signed roster bytes for apply and import', () => {
+    const roster = new ArrayBuffer(128);
+    expect(validateApplyDeviceRoster({ sid: 's', token: 't', ciphertext: roster }).ciphertext).toBe(roster);
+    expect(validateImportContactRoster({ sid: 's', token: 't', peerUserId: 'bob', roster })).toEqual({
+      sid: 's',
+      token: 't',
+      peerUserId: 'bob',
+      roster,
+    });
+    expect(() => validateApplyDeviceRoster({ sid: 's', token: 't', ciphertext: new ArrayBuffer(0) })).toThrow();
+    expect(() =>
+      validateImportContactRoster({ sid: 's', token: 't', peerUserId: 'bob', roster: new ArrayBuffer(64 * 1024 + 1) })
+    ).toThrow(/roster/);
+    expect(() => validateImportContactRoster({ sid: 's', token: 't', peerUserId: '', roster })).toThrow(/peerUserId/);
+  });
+});
+
+describe('validateMintInvite (room invites)', () => {
+  it('accepts a new room (optional name) or an existing roomId', () => {
+    expect(validateMintInvite({ sid: 's', token: 't', type: 'room', roomName: 'Book club' })).toEqual({
+      sid: 's',
+      token: 't',
+      type: 'room',
+      roomName: 'Book club',
+    });
+    expect(validateMintInvite({ sid: 's', token: 't', type: 'room', roomId: 'room-1' }).roomId).toBe('room-1');
+  });
+
+  it('rejects an unknown type, a single-use room invite, or mixed room fields', () => {
+    expect(() => validateMintInvite({ sid: 's', token: 't', type: 'group' })).toThrow();
+    expect(() => validateMintInvite({ sid: 's', token: 't', type: 'room', singleUse: true })).toThrow(/reusable/);
+    expect(() => validateMintInvite({ sid: 's', token: 't', type: 'room', roomId: 'r', roomName: 'n' })).toThrow();
+    expect(() => validateMintInvite({ sid: 's', token: 't', roomId: 'room-1' })).toThrow(/require type 'room'/);
+    expect(() => validateMintInvite({ sid: 's', token: 't', type: 'room', roomName: 'n'.repeat(129) })).toThrow();
+  });
+});
+
+describe('room RPCs', () => {
+  it('validateApplyRoomKey bounds the sealed update', () => {
+    expect(validateApplyRoomKey({ sid: 's', token: 't', roomKey: new ArrayBuffer(512) }).roomKey.byteLength).toBe(512);
+    expect(() => validateApplyRoomKey({ sid: 's', token: 't', roomKey: new ArrayBuffer(0) })).toThrow();
+    expect(() => validateApplyRoomKey({ sid: 's', token: 't', roomKey: new ArrayBuffer(64 * 1024 + 1) })).toThrow();
+  });
+
+  it('require sid, token and a bounded roomId (+ memberUid for removal)', () => {
+    const base = { sid: 's', token: 't', roomId: 'room-1' };
+    expect(validateListRoomMembers(base)).toEqual(base);
+    expect(validateRotateRoomSecret(base)).toEqual(base);
+    expect(validateRemoveRoomMember({ ...base, memberUid: 'bob' }).memberUid).toBe('bob');
+    expect(() => validateListRoomMembers({ ...base, roomId: '' })).toThrow();
+    expect(() => validateRotateRoomSecret({ ...base, token: undefined })).toThrow();
+    expect(() => validateRemoveRoomMember(base)).toThrow();
+    expect(() => validateRemoveRoomMember({ ...base, memberUid: 'u'.repeat(129) })).toThrow();
+  });
 });
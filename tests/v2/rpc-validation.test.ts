@@ -13,21 +13,31 @@ import {
   validateAddEnrollment,
   validateGenerateVAPID,
   validateRegenerateVAPID,
+  validateRotateVAPID,
+  validateRetireVAPIDKey,
   validateSignJWT,
   validateCreateLease,
   validateIssueVAPIDJWT,
   validateIssueVAPIDJWTs,
+  validateRemovePushSubscription,
+  validateGetPushSubscription,
+  validateListPushSubscriptions,
   validateIsSetup,
   validateGetEnrollments,
   validateVerifyAuditChain,
   validateGetAuditLog,
+  validateExportAuditLog,
   validateGetPublicKey,
   validateGetAuditPublicKey,
   validateGetUserLeases,
   validateVerifyLease,
   validateGetVAPIDKid,
   validateResetKMS,
+  validateExportBackup,
+  validateImportBackup,
   validateRemoveEnrollment,
+  validateChangePassphrase,
+  validateRotateMasterSecret,
 } from '@/v2/rpc-validation';
 
 describe('RPCValidationError', () => {
@@ -60,31 +70,6 @@ describe('validateSetupPassphrase', () => {
         passphrase: 'secret',
       });
     });
-
-    it('should validate with optional existingMS as Uint8Array', () => {
-      const existingMS = new Uint8Array([1, 2, 3]);
-      const result = validateSetupPassphrase({
-        userId: 'user123',
-        passphrase: 'secret',
-        existingMS,
-      });
-      expect(result).toEqual({
-        userId: 'user123',
-        passphrase: 'secret',
-        existingMS,
-      });
-    });
-
-    it('should validate with optional existingMS as ArrayBuffer', () => {
-      const existingMS = new ArrayBuffer(8);
-      const result = validateSetupPassphrase({
-        userId: 'user123',
-        passphrase: 'secret',
-        existingMS,
-      });
-      expect(result.existingMS).toBeInstanceOf(Uint8Array);
-      expect(result.existingMS?.byteLength).toBe(8);
-    });
   });
 
   describe('invalid inputs', () => {
@@ -130,14 +115,14 @@ describe('validateSetupPassphrase', () => {
       ).toThrow(RPCValidationError);
     });
 
-    it('should reject invalid existingMS type', () => {
+    it('should reject an existingMS in params', () => {
       expect(() =>
         validateSetupPassphrase({
           userId: 'user123',
           passphrase: 'secret',
-          existingMS: 'not a buffer',
+          existingMS: new Uint8Array(32),
         })
-      ).toThrow(RPCValidationError);
+      ).toThrow('existingMS is not accepted over RPC');
     });
   });
 });
@@ -165,15 +150,25 @@ describe('validateSetupPasskeyPRF', () => {
       expect(result.rpId).toBe('example.com');
     });
 
-    it('should validate with optional existingMS', () => {
-      const existingMS = new Uint8Array([1, 2, 3]);
+    it('should reject an existingMS in params', () => {
+      expect(() =>
+        validateSetupPasskeyPRF({
+          userId: 'user123',
+          credentialId: new ArrayBuffer(16),
+          prfOutput: new ArrayBuffer(32),
+          existingMS: new Uint8Array(32),
+        })
+      ).toThrow('existingMS is not accepted over RPC');
+    });
+
+    it('should pass through the PRF appSalt as Uint8Array', () => {
       const result = validateSetupPasskeyPRF({
         userId: 'user123',
         credentialId: new ArrayBuffer(16),
         prfOutput: new ArrayBuffer(32),
-        existingMS,
+        appSalt: new ArrayBuffer(32),
       });
-      expect(result.existingMS).toBe(existingMS);
+      expect(result.appSalt).toEqual(new Uint8Array(32));
     });
 
     it('should convert Uint8Array credentialId to ArrayBuffer', () => {
@@ -261,14 +256,14 @@ describe('validateSetupPasskeyGate', () => {
       expect(result.rpId).toBe('example.com');
     });
 
-    it('should validate with optional existingMS', () => {
-      const existingMS = new Uint8Array([1, 2, 3]);
-      const result = validateSetupPasskeyGate({
-        userId: 'user123',
-        credentialId: new ArrayBuffer(16),
-        existingMS,
-      });
-      expect(result.existingMS).toBe(existingMS);
+    it('should reject an existingMS in params', () => {
+      expect(() =>
+        validateSetupPasskeyGate({
+          userId: 'user123',
+          credentialId: new ArrayBuffer(16),
+          existingMS: new Uint8Array(32),
+        })
+      ).toThrow('existingMS is not accepted over RPC');
     });
   });
 
@@ -528,6 +523,47 @@ describe('validateRegenerateVAPID', () => {
   });
 });
 
+describe('validateRotateVAPID', () => {
+  const credentials = { method: 'passphrase', userId: 'user123', passphrase: 'secret' };
+
+  it('should validate params with and without graceHours', () => {
+    expect(validateRotateVAPID({ credentials })).toEqual({ credentials });
+    expect(validateRotateVAPID({ credentials, graceHours: 48 }).graceHours).toBe(48);
+  });
+
+  it('should reject non-numeric graceHours', () => {
+    expect(() => validateRotateVAPID({ credentials, graceHours: '48' })).toThrow(RPCValidationError);
+  });
+
+  it('should accept graceHours from 1 to 720 inclusive', () => {
+    expect(validateRotateVAPID({ credentials, graceHours: 1 }).graceHours).toBe(1);
+    expect(validateRotateVAPID({ credentials, graceHours: 720 }).graceHours).toBe(720);
+    for (const graceHours of [0, 0.5, -1, 720.5, Number.NaN]) {
+      expect(() => validateRotateVAPID({ credentials, graceHours }), String(graceHours)).toThrow(
+        'RPC rotateVAPID: Invalid graceHours - expected 1 <= graceHours <= 720, got number'
+      );
+    }
+  });
+});
+
+describe('validateRetireVAPIDKey', () => {
+  const credentials = { method: 'passphrase', userId: 'user123', passphrase: 'secret' };
+
+  it('should validate params', () => {
+    const result = validateRetireVAPIDKey({ kid: 'old-kid', credentials, migrateLeases: true });
+    expect(result.kid).toBe('old-kid');
+    expect(result.migrateLeases).toBe(true);
+    expect(validateRetireVAPIDKey({ kid: 'old-kid', credentials })).not.toHaveProperty('migrateLeases');
+  });
+
+  it('should reject a missing kid or non-boolean migrateLeases', () => {
+    expect(() => validateRetireVAPIDKey({ credentials })).toThrow(RPCValidationError);
+    expect(() => validateRetireVAPIDKey({ kid: 'k', credentials, migrateLeases: 'yes' })).toThrow(
+      RPCValidationError
+    );
+  });
+});
+
 describe('validateSignJWT', () => {
   describe('valid inputs', () => {
     it('should validate complete params', () => {
@@ -656,6 +692,16 @@ describe('validateCreateLease', () => {
       });
       expect(result.ttlHours).toBe(24);
     });
+
+    it('should validate partial quotas', () => {
+      const result = validateCreateLease({
+        userId: 'user123',
+        ttlHours: 24,
+        credentials: { method: 'passphrase', userId: 'user123', passphrase: 'secret' },
+        quotas: { tokensPerHour: 50, burstSends: 5 },
+      });
+      expect(result.quotas).toEqual({ tokensPerHour: 50, burstSends: 5 });
+    });
   });
 
   describe('invalid inputs', () => {
@@ -672,6 +718,28 @@ describe('validateCreateLease', () => {
         })
       ).toThrow(RPCValidationError);
     });
+
+    it('should reject non-positive or fractional quotas', () => {
+      const base = {
+        userId: 'user123',
+        ttlHours: 24,
+        credentials: { method: 'passphrase', userId: 'user123', passphrase: 'secret' },
+      };
+      expect(() => validateCreateLease({ ...base, quotas: { sendsPerMinute: 0 } })).toThrow(RPCValidationError);
+      expect(() => validateCreateLease({ ...base, quotas: { sendsPerMinute: 1.5 } })).toThrow(RPCValidationError);
+      expect(() => validateCreateLease({ ...base, quotas: [] })).toThrow(RPCValidationError);
+    });
+
+    it('should reject unknown quotas', () => {
+      expect(() =>
+        validateCreateLease({
+          userId: 'user123',
+          ttlHours: 24,
+          credentials: { method: 'passphrase', userId: 'user123', passphrase: 'secret' },
+          quotas: { sendsPerDay: 10 },
+        })
+      ).toThrow('Unknown quota sendsPerDay');
+    });
   });
 });
 
@@ -692,6 +760,14 @@ describe('validateIssueVAPIDJWT', () => {
       expect(result.kid).toBe('key-id');
     });
 
+    it('should validate with optional eid', () => {
+      const result = validateIssueVAPIDJWT({
+        leaseId: 'lease123',
+        eid: 'phone',
+      });
+      expect(result.eid).toBe('phone');
+    });
+
     it('should validate with optional jti', () => {
       const result = validateIssueVAPIDJWT({
         leaseId: 'lease123',
@@ -759,6 +835,29 @@ describe('validateIssueVAPIDJWTs', () => {
         })
       ).toThrow(RPCValidationError);
     });
+
+    it('should reject non-string eid', () => {
+      expect(() =>
+        validateIssueVAPIDJWTs({
+          leaseId: 'lease123',
+          count: 5,
+          eid: 7,
+        })
+      ).toThrow(RPCValidationError);
+    });
+  });
+});
+
+describe('push subscription registry params', () => {
+  it('should require the user and endpoint to remove or get', () => {
+    expect(validateRemovePushSubscription({ userId: 'alice', eid: 'phone' })).toEqual({ userId: 'alice', eid: 'phone' });
+    expect(() => validateRemovePushSubscription({ userId: 'alice' })).toThrow(RPCValidationError);
+    expect(() => validateGetPushSubscription({ eid: 'phone' })).toThrow(RPCValidationError);
+  });
+
+  it('should require the user to list', () => {
+    expect(validateListPushSubscriptions({ userId: 'alice' })).toEqual({ userId: 'alice' });
+    expect(() => validateListPushSubscriptions({})).toThrow(RPCValidationError);
   });
 });
 
@@ -838,6 +937,28 @@ describe('validateGetAuditLog', () => {
   });
 });
 
+describe('validateExportAuditLog', () => {
+  const credentials = { method: 'passphrase', userId: 'user123', passphrase: 'secret' };
+
+  it('should collect the range bounds that are set', () => {
+    expect(validateExportAuditLog({ credentials })).toEqual({ credentials, filter: {} });
+    expect(validateExportAuditLog({ credentials, fromSeqNum: 3, toTime: 1700000000000 })).toEqual({
+      credentials,
+      filter: { fromSeqNum: 3, toTime: 1700000000000 },
+    });
+  });
+
+  it('should reject negative, non-finite or non-numeric bounds', () => {
+    expect(() => validateExportAuditLog({ credentials, fromSeqNum: -1 })).toThrow(RPCValidationError);
+    expect(() => validateExportAuditLog({ credentials, toTime: Infinity })).toThrow(RPCValidationError);
+    expect(() => validateExportAuditLog({ credentials, fromTime: '2024-01-01' })).toThrow(RPCValidationError);
+  });
+
+  it('should require credentials', () => {
+    expect(() => validateExportAuditLog({ fromSeqNum: 1 })).toThrow(RPCValidationError);
+  });
+});
+
 describe('validateGetPublicKey', () => {
   it('should validate valid params', () => {
     const result = validateGetPublicKey({ kid: 'key-id-123' });
@@ -898,10 +1019,98 @@ describe('validateGetVAPIDKid', () => {
 });
 
 describe('validateResetKMS', () => {
-  it('should accept any params', () => {
+  it('should accept missing params', () => {
     const result = validateResetKMS(undefined);
     expect(result).toEqual({});
   });
+
+  it('should extract credentials when present', () => {
+    const credentials = { method: 'passphrase', userId: 'user123', passphrase: 'secret' };
+    expect(validateResetKMS({ userId: 'user123', credentials })).toEqual({ credentials });
+  });
+
+  it('should reject malformed credentials', () => {
+    expect(() => validateResetKMS({ credentials: 'nope' })).toThrow(RPCValidationError);
+  });
+});
+
+describe('validateExportBackup', () => {
+  const credentials = { method: 'passphrase', userId: 'user123', passphrase: 'secret' };
+
+  it('should extract credentials', () => {
+    expect(validateExportBackup({ userId: 'user123', credentials })).toEqual({ credentials });
+  });
+
+  it('should require credentials', () => {
+    expect(() => validateExportBackup({ userId: 'user123' })).toThrow(RPCValidationError);
+  });
+});
+
+describe('validateImportBackup', () => {
+  const credentials = { method: 'passphrase', userId: 'user123', passphrase: 'secret' };
+
+  it('should validate valid params', () => {
+    expect(validateImportBackup({ userId: 'user123', backup: '{}', credentials })).toEqual({
+      backup: '{}',
+      credentials,
+    });
+    expect(validateImportBackup({ backup: '{}', credentials, overwrite: true })).toEqual({
+      backup: '{}',
+      credentials,
+      overwrite: true,
+    });
+  });
+
+  it('should reject a non-boolean overwrite', () => {
+    expect(() => validateImportBackup({ backup: '{}', credentials, overwrite: 'yes' })).toThrow(RPCValidationError);
+  });
+
+  it('should reject a non-string backup', () => {
+    expect(() => validateImportBackup({ backup: { format: 'ats-kms-backup' }, credentials })).toThrow(
+      RPCValidationError
+    );
+  });
+});
+
+describe('validateChangePassphrase', () => {
+  const credentials = { method: 'passphrase', userId: 'user123', passphrase: 'secret' };
+
+  it('should validate valid params', () => {
+    expect(validateChangePassphrase({ newPassphrase: 'new-secret', credentials })).toEqual({
+      newPassphrase: 'new-secret',
+      credentials,
+    });
+  });
+
+  it('should reject a missing new passphrase', () => {
+    expect(() => validateChangePassphrase({ credentials })).toThrow(RPCValidationError);
+  });
+});
+
+describe('validateRotateMasterSecret', () => {
+  const credentials = { method: 'passphrase', userId: 'user123', passphrase: 'secret' };
+  const gate = { method: 'passkey-gate', userId: 'user123' };
+
+  it('should validate params with and without additional credentials', () => {
+    expect(validateRotateMasterSecret({ credentials })).toEqual({ credentials });
+    expect(validateRotateMasterSecret({ credentials, additionalCredentials: [gate] })).toEqual({
+      credentials,
+      additionalCredentials: [gate],
+    });
+  });
+
+  it('should reject malformed additional credentials', () => {
+    expect(() => validateRotateMasterSecret({ credentials, additionalCredentials: gate })).toThrow(RPCValidationError);
+    expect(() => validateRotateMasterSecret({ credentials, additionalCredentials: [{ method: 'pin' }] })).toThrow(
+      RPCValidationError
+    );
+  });
+
+  it('should reject additional credentials for another account', () => {
+    expect(() =>
+      validateRotateMasterSecret({ credentials, additionalCredentials: [{ ...gate, userId: 'other' }] })
+    ).toThrow('additionalCredentials[0] is for another account');
+  });
 });
 
 describe('validateRemoveEnrollment', () => {
@@ -0,0 +1,126 @@
+/**
+ * Safety numbers (rooms-and-trust §4): a pair of identities renders to the same
+ * digits / emoji / words on both sides, changes with either side's keys, and each
+ * side's QR — scanned by the peer — confirms exactly that pair.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeSafetyNumber,
+  checkSafetyQr,
+  isSafetyQr,
+  safetyQrSvg,
+  SAFETY_QR_PREFIX,
+  type SafetyIdentity,
+} from '@/v2/safety-number';
+import { masterSigningPublicRaw, masterEncryptionPublicRaw } from '@/v2/master-identity';
+import { BIP39_WORDLIST } from '@/v2/bip39-wordlist';
+import { decodeQr } from '@/v2/qr';
+import { qrcodegen } from '@/v2/qrcodegen';
+
+async function identityFor(uid: string, fill: number): Promise<SafetyIdentity> {
+  const root = new Uint8Array(16).fill(fill);
+  return { uid, msk: await masterSigningPublicRaw(root), mek: await masterEncryptionPublicRaw(root) };
+}
+
+/** Render `text` as a QR to an RGBA frame (4 px per module, 4-module quiet zone). */
+function qrFrame(text: string): { data: Uint8ClampedArray; width: number; height: number } {
+  const qr = qrcodegen.QrCode.encodeText(text, qrcodegen.QrCode.Ecc.MEDIUM);
+  const scale = 4;
+  const dim = (qr.size + 8) * scale;
+  const data = new Uint8ClampedArray(dim * dim * 4).fill(255);
+  for (let y = 0; y < dim; y++) {
+    for (let x = 0; x < dim; x++) {
+      if (!qr.getModule(Math.floor(x / scale) - 4, Math.floor(y / scale) - 4)) continue;
+      data.fill(0, (y * dim + x) * 4, (y * dim + x) * 4 + 3);
+    }
+  }
+  return { data, width: dim, height: dim };
+}
+
+describe('computeSafetyNumber', () => {
+  it('renders the same digits, emoji and words on both sides', async () => {
+    const alice = await identityFor('alice', 0xa1);
+    const bob = await identityFor('bob', 0xb2);
+    const fromAlice = await computeSafetyNumber(alice, bob);
+    const fromBob = await computeSafetyNumber(bob, alice);
+
+    expect(fromAlice.digits).toMatch(/^\d{5}( \d{5}){11}$/);
+    expect(fromAlice.digits).toBe(fromBob.digits);
+    expect(fromAlice.emoji).toHaveLength(8);
+    expect(fromAlice.emoji).toEqual(fromBob.emoji);
+    expect(fromAlice.words).toHaveLength(6);
+    expect(fromAlice.words).toEqual(fromBob.words);
+    for (const w of fromAlice.words) expect(BIP39_WORDLIST).toContain(w);
+
+    // Each side's QR is its own (ours first), so the two differ.
+    expect(isSafetyQr(fromAlice.qr)).toBe(true);
+    expect(fromAlice.qr).not.toBe(fromBob.qr);
+  });
+
+  it('changes when either side presents different keys or a different uid', async () => {
+    const alice = await identityFor('alice', 0xa1);
+    const bob = await identityFor('bob', 0xb2);
+    const mallory = await identityFor('bob', 0xc3);
+    const base = await computeSafetyNumber(alice, bob);
+
+    const swapped = await computeSafetyNumber(alice, mallory);
+    expect(swapped.digits).not.toBe(base.digits);
+    expect(swapped.words).not.toEqual(base.words);
+    // Only bob's half of the digits moves; alice's 30 digits are unchanged.
+    const halves = (d: string): string[] => {
+      const flat = d.replace(/ /g, '');
+      return [flat.slice(0, 30), flat.slice(30)];
+    };
+    expect(halves(swapped.digits).filter((h) => halves(base.digits).includes(h))).toHaveLength(1);
+
+    const renamed = await computeSafetyNumber(alice, { ...bob, uid: 'bobby' });
+    expect(renamed.digits).not.toBe(base.digits);
+  });
+
+  it('rejects master keys of the wrong length', async () => {
+    const alice = await identityFor('alice', 0xa1);
+    await expect(computeSafetyNumber(alice, { uid: 'bob', msk: new Uint8Array(31), mek: alice.mek })).rejects.toThrow(
+      /32 bytes/
+    );
+  });
+});
+
+describe('checkSafetyQr', () => {
+  it('confirms the peer QR for this pair after a render + decodeQr round trip', async () => {
+    const alice = await identityFor('alice', 0xa1);
+    const bob = await identityFor('bob', 0xb2);
+    const fromBob = await computeSafetyNumber(bob, alice);
+
+    expect(safetyQrSvg(fromBob)).toMatch(/^<svg/);
+    const frame = qrFrame(fromBob.qr);
+    const scanned = decodeQr(frame.data, frame.width, frame.height);
+    expect(scanned).toBe(fromBob.qr);
+    await expect(checkSafetyQr(scanned!, alice, bob)).resolves.toBe(true);
+  });
+
+  it('rejects a QR for a substituted key, a third party, or our own screen', async () => {
+    const alice = await identityFor('alice', 0xa1);
+    const bob = await identityFor('bob', 0xb2);
+    const mallory = await identityFor('bob', 0xc3);
+    const carol = await identityFor('carol', 0xd4);
+
+    // A MITM shows bob a different "alice" key — bob's QR no longer names our key.
+    const fromBobSeeingMallory = await computeSafetyNumber(bob, mallory);
+    await expect(checkSafetyQr(fromBobSeeingMallory.qr, alice, bob)).resolves.toBe(false);
+    // We hold a substituted key for bob.
+    const fromBob = await computeSafetyNumber(bob, alice);
+    await expect(checkSafetyQr(fromBob.qr, alice, mallory)).resolves.toBe(false);
+    // Someone else's code, and our own code scanned back (the mirrored order matters).
+    await expect(checkSafetyQr((await computeSafetyNumber(carol, alice)).qr, alice, bob)).resolves.toBe(false);
+    await expect(checkSafetyQr((await computeSafetyNumber(alice, bob)).qr, alice, bob)).resolves.toBe(false);
+  });
+
+  it('throws ValidationError on text that is not a safety-number QR', async () => {
+    const alice = await identityFor('alice', 0xa1);
+    const bob = await identityFor('bob', 0xb2);
+    await expect(checkSafetyQr('https://kms.ats.run/connect#c=abc', alice, bob)).rejects.toThrow(/Not a safety-number/);
+    await expect(checkSafetyQr(`${SAFETY_QR_PREFIX}AAAA`, alice, bob)).rejects.toThrow(/Not a safety-number/);
+    await expect(checkSafetyQr(`${SAFETY_QR_PREFIX}!!!`, alice, bob)).rejects.toThrow(/Not a safety-number/);
+  });
+});
@@ -13,7 +13,7 @@
 
 // @vitest-environment node
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { IDBFactory } from 'fake-indexeddb';
 import {
   KeyHelper,
@@ -24,15 +24,20 @@ import {
 } from '@lukium/libsignal-protocol-typescript';
 import type { DeviceType } from '@lukium/libsignal-protocol-typescript';
 
-import { initDB, closeDB } from '@/v2/storage';
+import { initDB, closeDB, getSignalOnetimePrekeys, getSignalSignedPrekeys } from '@/v2/storage';
 import {
   createSignalProtocolStore,
   generateIdentity,
   generateSignedPrekey,
   generateOneTimePrekeys,
   getPublicBundle,
+  maintainPrekeys,
+  isPrekeyDeltaEmpty,
+  DEFAULT_PREKEY_POLICY,
+  type PrekeyPolicy,
   type PublicPreKeyBundle,
 } from '@/v2/signal';
+import { getContactTrust, recordContactIdentity } from '@/v2/trust-store';
 
 function makeMkek(): Promise<CryptoKey> {
   return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
@@ -65,6 +70,7 @@ beforeEach(async () => {
 
 afterEach(() => {
   closeDB();
+  vi.restoreAllMocks();
 });
 
 describe('signal round trip (milestone gate)', () => {
@@ -143,6 +149,108 @@ describe('prekey + bundle generation', () => {
   });
 });
 
+describe('maintainPrekeys', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const policy: PrekeyPolicy = {
+    lowWatermark: 3,
+    targetCount: 6,
+    signedPrekeyMaxAgeMs: 7 * DAY,
+    signedPrekeyGraceMs: 2 * DAY,
+  };
+
+  it('tops one-time prekeys up to the target once below the low watermark', async () => {
+    const mkek = await makeMkek();
+    await generateIdentity('u', mkek);
+    await generateSignedPrekey('u', mkek, 1);
+    await generateOneTimePrekeys('u', mkek, 1, 2);
+
+    const delta = await maintainPrekeys('u', mkek, policy);
+
+    expect(delta.signedPreKey).toBeUndefined();
+    expect(delta.oneTimePreKeys.map((pk) => pk.keyId)).toEqual([3, 4, 5, 6]);
+    expect(delta.oneTimePrekeyCount).toBe(6);
+    expect((await getSignalOnetimePrekeys('u')).length).toBe(6);
+
+    // At or above the watermark nothing changes
+    const again = await maintainPrekeys('u', mkek, policy);
+    expect(isPrekeyDeltaEmpty(again)).toBe(true);
+    expect(again.oneTimePrekeyCount).toBe(6);
+  });
+
+  it('never reuses the id of a consumed one-time prekey', async () => {
+    const mkek = await makeMkek();
+    await provision('u', mkek);
+    const store = createSignalProtocolStore('u', mkek);
+    for (const keyId of [1, 2, 3, 4, 5]) {
+      await store.removePreKey(keyId);
+    }
+
+    const delta = await maintainPrekeys('u', mkek, policy);
+
+    expect(delta.oneTimePreKeys.map((pk) => pk.keyId)).toEqual([6, 7, 8, 9, 10, 11]);
+    expect(delta.oneTimePrekeyCount).toBe(6);
+  });
+
+  it('wraps key ids within the 24-bit id space', async () => {
+    const mkek = await makeMkek();
+    await generateIdentity('u', mkek);
+    await generateSignedPrekey('u', mkek, 1);
+    await generateOneTimePrekeys('u', mkek, 0xfffffe, 1);
+
+    const delta = await maintainPrekeys('u', mkek, { ...policy, lowWatermark: 2, targetCount: 3 });
+
+    expect(delta.oneTimePreKeys.map((pk) => pk.keyId)).toEqual([0xffffff, 1]);
+  });
+
+  it('creates a signed prekey when there is none', async () => {
+    const mkek = await makeMkek();
+    await generateIdentity('u', mkek);
+
+    const delta = await maintainPrekeys('u', mkek, policy);
+
+    expect(delta.signedPreKey?.keyId).toBe(1);
+    expect(delta.signedPreKey?.signature.byteLength).toBe(64);
+    expect((await getPublicBundle('u')).signedPreKey.keyId).toBe(1);
+  });
+
+  it('rotates an aged signed prekey and deletes the superseded one after the grace window', async () => {
+    const mkek = await makeMkek();
+    await provision('u', mkek);
+    const start = Date.now();
+    const clock = vi.spyOn(Date, 'now');
+
+    clock.mockReturnValue(start + 6 * DAY);
+    expect((await maintainPrekeys('u', mkek, policy)).signedPreKey).toBeUndefined();
+
+    clock.mockReturnValue(start + 7 * DAY);
+    const rotated = await maintainPrekeys('u', mkek, policy);
+    expect(rotated.signedPreKey?.keyId).toBe(2);
+    expect(rotated.deletedSignedPreKeyIds).toEqual([]);
+    expect((await getPublicBundle('u')).signedPreKey.keyId).toBe(2);
+
+    // The old signed prekey still serves peers holding the previous bundle
+    clock.mockReturnValue(start + 8 * DAY);
+    expect(isPrekeyDeltaEmpty(await maintainPrekeys('u', mkek, policy))).toBe(true);
+    expect((await getSignalSignedPrekeys('u')).map((r) => r.keyId).sort()).toEqual([1, 2]);
+
+    clock.mockReturnValue(start + 9 * DAY);
+    const expired = await maintainPrekeys('u', mkek, policy);
+    expect(expired.signedPreKey).toBeUndefined();
+    expect(expired.deletedSignedPreKeyIds).toEqual([1]);
+    expect((await getSignalSignedPrekeys('u')).map((r) => r.keyId)).toEqual([2]);
+  });
+
+  it('uses the default policy when none is passed', async () => {
+    const mkek = await makeMkek();
+    await provision('u', mkek);
+
+    const delta = await maintainPrekeys('u', mkek);
+
+    expect(delta.signedPreKey).toBeUndefined();
+    expect(delta.oneTimePrekeyCount).toBe(DEFAULT_PREKEY_POLICY.targetCount);
+  });
+});
+
 describe('StorageType adapter', () => {
   it('returns undefined for a user with no provisioned state', async () => {
     const mkek = await makeMkek();
@@ -213,8 +321,10 @@ describe('StorageType adapter', () => {
 
     // Unseen peer is trusted.
     expect(await store.isTrustedIdentity('peer.1', keyA, Direction.RECEIVING)).toBe(true);
-    // First save records it (not a change).
+    // First save records it (not a change), once the job stores its session.
+    await store.loadSession('peer.1');
     expect(await store.saveIdentity('peer.1', keyA)).toBe(false);
+    await store.storeSession('peer.1', 'session-state');
     // Matching key trusted; different key not.
     expect(await store.isTrustedIdentity('peer.1', keyA, Direction.RECEIVING)).toBe(true);
     expect(await store.isTrustedIdentity('peer.1', keyB, Direction.RECEIVING)).toBe(false);
@@ -223,6 +333,41 @@ describe('StorageType adapter', () => {
     expect(await store.saveIdentity('peer.1', keyB)).toBe(true);
   });
 
+  it("marks a contact's trust-ledger entry changed when its identity key changes", async () => {
+    const mkek = await makeMkek();
+    const store = createSignalProtocolStore('u', mkek);
+    const keyA = utf8.encode('peer-identity-key-A').buffer;
+    const keyB = utf8.encode('peer-identity-key-B-different').buffer;
+    await recordContactIdentity('u', 'peer.name', { msk: 'msk', mek: 'mek' });
+
+    // The address is `name.deviceId`; the ledger is keyed by the name. Each
+    // library job on an address starts by loading its session.
+    await store.loadSession('peer.name.1');
+    expect(await store.saveIdentity('peer.name.1', keyA)).toBe(false);
+    await store.storeSession('peer.name.1', 'session-state');
+    expect((await getContactTrust('u', 'peer.name'))?.state).toBe('unverified');
+
+    // Checking a key, before its message authenticates, changes nothing.
+    expect(await store.isTrustedIdentity('peer.name.1', keyB, Direction.RECEIVING)).toBe(false);
+    expect((await getContactTrust('u', 'peer.name'))?.state).toBe('unverified');
+
+    // A job that saves a new key but never stores its session (a failed
+    // decrypt) leaves no trace once the next job loads the session.
+    await store.loadSession('peer.name.1');
+    expect(await store.saveIdentity('peer.name.1', keyB)).toBe(true);
+    await store.loadSession('peer.name.1');
+    await store.storeSession('peer.name.1', 'session-state');
+    expect((await getContactTrust('u', 'peer.name'))?.state).toBe('unverified');
+    expect(await store.isTrustedIdentity('peer.name.1', keyA, Direction.RECEIVING)).toBe(true);
+
+    // One that stores it flags the change.
+    await store.loadSession('peer.name.1');
+    expect(await store.saveIdentity('peer.name.1', keyB)).toBe(true);
+    await store.storeSession('peer.name.1', 'session-state');
+    expect((await getContactTrust('u', 'peer.name'))?.state).toBe('changed');
+    expect(await store.isTrustedIdentity('peer.name.1', keyB, Direction.RECEIVING)).toBe(true);
+  });
+
   it('binds wrapped blobs to context (AAD): a session cannot be read as another peer', async () => {
     const mkek = await makeMkek();
     await generateIdentity('u', mkek);
@@ -52,21 +52,39 @@ import {
   putSignalSession,
   deleteSignalSession,
   withSessionLock,
+  acquireStoreAccess,
   getSignalTrustedIdentity,
   putSignalTrustedIdentity,
   getMessagingAccount,
   putMessagingAccount,
   deleteMessagingAccount,
+  getMessagingRoom,
+  putMessagingRoom,
+  deleteMessagingRoom,
+  getMessagingTrust,
+  getMessagingTrusts,
+  putMessagingTrust,
+  getMessagingRoster,
+  putMessagingRoster,
   getMessagingContact,
   getMessagingContacts,
   putMessagingContact,
   deleteMessagingContact,
+  putRecords,
+  scheduleKeyRetirement,
+  setPushSubscription,
+  getPushSubscription,
+  listPushSubscriptions,
+  removePushSubscription,
+  deletePushSubscriptionsByKid,
 } from '@/v2/storage';
 import type {
   AuditEntryV2,
   LeaseRecord,
   AuditDelegationCert,
   SignalOnetimePrekeyRecord,
+  StoredPushSubscription,
+  WrappedKey,
 } from '@/v2/types';
 
 // ============================================================================
@@ -905,40 +923,63 @@ describe('wrapKey edge cases for branch coverage', () => {
 
 // Import loadRateLimitState for testing
 import { loadRateLimitState } from '../../src/v2/storage-types.js';
+import { DEFAULT_LEASE_QUOTAS } from '../../src/v2/rate-limit.js';
 
 describe('loadRateLimitState', () => {
+  const quotas = DEFAULT_LEASE_QUOTAS;
+  const now = 1_700_000_000_000;
+  const defaultState = {
+    issuedAt: [],
+    sendTokens: quotas.burstSends,
+    lastRefillAt: now,
+    perEndpoint: {},
+  };
+
   it('should return valid state when input is valid', () => {
     const validState = {
-      tokensIssued: 5,
-      lastResetAt: Date.now(),
+      issuedAt: [now - 1000],
+      sendTokens: 3.5,
+      lastRefillAt: now - 1000,
+      perEndpoint: { 'ep-1': [now - 1000] },
     };
-    const result = loadRateLimitState(validState);
+    const result = loadRateLimitState(validState, quotas, now);
     expect(result).toEqual(validState);
   });
 
   it('should return default state when input is invalid', () => {
     const invalidState = { invalid: true };
-    const result = loadRateLimitState(invalidState);
-    expect(result).toMatchObject({
-      tokensIssued: 0,
-      lastResetAt: expect.any(Number),
-    });
+    const result = loadRateLimitState(invalidState, quotas, now);
+    expect(result).toEqual(defaultState);
   });
 
   it('should return default state when input is null', () => {
-    const result = loadRateLimitState(null);
-    expect(result).toMatchObject({
-      tokensIssued: 0,
-      lastResetAt: expect.any(Number),
-    });
+    const result = loadRateLimitState(null, quotas, now);
+    expect(result).toEqual(defaultState);
   });
 
   it('should return default state when input is undefined', () => {
-    const result = loadRateLimitState(undefined);
-    expect(result).toMatchObject({
-      tokensIssued: 0,
-      lastResetAt: expect.any(Number),
-    });
+    const result = loadRateLimitState(undefined, quotas, now);
+    expect(result).toEqual(defaultState);
+  });
+
+  it('should reject state with non-numeric per-endpoint timestamps', () => {
+    const result = loadRateLimitState(
+      { issuedAt: [], sendTokens: 1, lastRefillAt: now, perEndpoint: { 'ep-1': ['x'] } },
+      quotas,
+      now
+    );
+    expect(result).toEqual(defaultState);
+  });
+
+  it('should carry over a legacy hourly counter from the current hour', () => {
+    const result = loadRateLimitState({ tokensIssued: 3, lastResetAt: now - 60_000 }, quotas, now);
+    expect(result.issuedAt).toEqual([now - 60_000, now - 60_000, now - 60_000]);
+    expect(result.sendTokens).toBe(quotas.burstSends);
+  });
+
+  it('should drop a legacy hourly counter older than an hour', () => {
+    const result = loadRateLimitState({ tokensIssued: 3, lastResetAt: now - 3_600_001 }, quotas, now);
+    expect(result).toEqual(defaultState);
   });
 });
 
@@ -978,8 +1019,8 @@ describe('schema migration', () => {
     });
   }
 
-  it('DB_VERSION is 5', () => {
-    expect(DB_VERSION).toBe(5);
+  it('DB_VERSION is 9', () => {
+    expect(DB_VERSION).toBe(9);
   });
 
   it('a v1 database has no Signal stores', async () => {
@@ -1148,6 +1189,120 @@ describe('messaging-contact store', () => {
   });
 });
 
+describe('messaging-room store', () => {
+  it('put / get / delete round-trip keyed by (user, room)', async () => {
+    expect(await getMessagingRoom('alice', 'room-1')).toBeNull();
+
+    await putMessagingRoom({ userId: 'alice', roomId: 'room-1', epoch: 0, members: [], createdAt: 1, updatedAt: 1 });
+    expect((await getMessagingRoom('alice', 'room-1'))?.roomId).toBe('room-1');
+    expect(await getMessagingRoom('bob', 'room-1')).toBeNull();
+
+    await deleteMessagingRoom('alice', 'room-1');
+    expect(await getMessagingRoom('alice', 'room-1')).toBeNull();
+  });
+});
+
+describe('messaging-trust store', () => {
+  it('put / get / list keyed by (user, peer)', async () => {
+    expect(await getMessagingTrust('alice', 'bob')).toBeNull();
+
+    const entry = { msk: 'k1', mek: 'k2', state: 'unverified' as const, createdAt: 1, updatedAt: 1 };
+    await putMessagingTrust({ userId: 'alice', peerUserId: 'bob', ...entry });
+    await putMessagingTrust({ userId: 'alice', peerUserId: 'carol', ...entry });
+    await putMessagingTrust({ userId: 'dave', peerUserId: 'bob', ...entry });
+    expect((await getMessagingTrust('alice', 'bob'))?.state).toBe('unverified');
+    expect(await getMessagingTrust('bob', 'alice')).toBeNull();
+    expect((await getMessagingTrusts('alice')).map((r) => r.peerUserId).sort()).toEqual(['bob', 'carol']);
+  });
+});
+
+describe('messaging-roster store', () => {
+  it('put / get keyed by (user, owner), replacing in place', async () => {
+    expect(await getMessagingRoster('alice', 'alice')).toBeNull();
+
+    const roster = { devices: [], revoked: ['ik-1'], signed: new ArrayBuffer(4), issuedAt: 1, updatedAt: 1 };
+    await putMessagingRoster({ userId: 'alice', ownerUid: 'alice', version: 1, ...roster });
+    await putMessagingRoster({ userId: 'alice', ownerUid: 'bob', version: 3, ...roster });
+    await putMessagingRoster({ userId: 'alice', ownerUid: 'alice', version: 2, ...roster });
+    expect((await getMessagingRoster('alice', 'alice'))?.version).toBe(2);
+    expect((await getMessagingRoster('alice', 'bob'))?.revoked).toEqual(['ik-1']);
+    expect(await getMessagingRoster('bob', 'alice')).toBeNull();
+  });
+});
+
+describe('push subscription registry', () => {
+  const vapidKey = (kid: string, createdAt: number): WrappedKey => ({
+    kid,
+    kmsVersion: 2,
+    wrappedKey: new ArrayBuffer(8),
+    iv: new ArrayBuffer(12),
+    aad: new ArrayBuffer(4),
+    alg: 'ES256',
+    purpose: 'vapid',
+    createdAt,
+  });
+  const subscription = (eid: string, createdAt = 1): StoredPushSubscription => ({
+    endpoint: `https://fcm.googleapis.com/fcm/send/${eid}`,
+    expirationTime: null,
+    keys: { p256dh: 'key1', auth: 'key2' },
+    eid,
+    createdAt,
+  });
+
+  beforeEach(async () => {
+    await putRecords({ keys: [vapidKey('vapid-1', 1000)] });
+  });
+
+  it('keeps one subscription per (user, eid), bound to the current VAPID key', async () => {
+    await setPushSubscription('alice', subscription('laptop', 1));
+    await setPushSubscription('alice', subscription('phone', 2));
+    await setPushSubscription('bob', subscription('laptop', 3));
+    await setPushSubscription('alice', { ...subscription('laptop', 4), endpoint: 'https://fcm.googleapis.com/fcm/send/new' });
+
+    const alice = await listPushSubscriptions('alice');
+    expect(alice.map((s) => [s.eid, s.kid, s.createdAt])).toEqual([
+      ['phone', 'vapid-1', 2],
+      ['laptop', 'vapid-1', 4],
+    ]);
+    expect((await getPushSubscription('alice', 'laptop'))?.endpoint).toBe('https://fcm.googleapis.com/fcm/send/new');
+    expect((await getPushSubscription('bob', 'laptop'))?.createdAt).toBe(3);
+
+    expect(await removePushSubscription('alice', 'phone')).toBe(true);
+    expect(await removePushSubscription('alice', 'phone')).toBe(false);
+    expect((await listPushSubscriptions('alice')).map((s) => s.eid)).toEqual(['laptop']);
+  });
+
+  it('binds new subscriptions to the new key during a rotation', async () => {
+    await setPushSubscription('alice', subscription('laptop'));
+    await scheduleKeyRetirement('vapid-1', Date.now() + 3600_000);
+    await putRecords({ keys: [vapidKey('vapid-2', 2000)] });
+    await setPushSubscription('alice', subscription('phone'));
+
+    expect((await listPushSubscriptions('alice')).map((s) => [s.eid, s.kid])).toEqual([
+      ['laptop', 'vapid-1'],
+      ['phone', 'vapid-2'],
+    ]);
+
+    expect(await deletePushSubscriptionsByKid('vapid-1')).toBe(1);
+    expect((await listPushSubscriptions('alice')).map((s) => s.eid)).toEqual(['phone']);
+  });
+
+  it('rejects a subscription when there is no VAPID key', async () => {
+    await clearAllStores();
+    await expect(setPushSubscription('alice', subscription('laptop'))).rejects.toThrow('No VAPID key found');
+  });
+
+  it('moves a pre-registry subscription to the first user who reads the registry', async () => {
+    await putRecords({ keys: [{ ...vapidKey('vapid-1', 1000), subscription: subscription('legacy') }] });
+
+    expect((await listPushSubscriptions('alice')).map((s) => [s.userId, s.eid, s.kid])).toEqual([
+      ['alice', 'legacy', 'vapid-1'],
+    ]);
+    expect(await listPushSubscriptions('bob')).toEqual([]);
+    expect((await getWrappedKey('vapid-1'))?.subscription).toBeUndefined();
+  });
+});
+
 // ============================================================================
 // wrapBlob / unwrapBlob Tests
 // ============================================================================
@@ -1350,3 +1505,34 @@ describe('withSessionLock', () => {
     expect(result).toBe('ok');
   });
 });
+
+describe('acquireStoreAccess', () => {
+  const tick = (): Promise<void> => new Promise((r) => setTimeout(r, 1));
+
+  it('lets shared holders run together and an exclusive holder run alone', async () => {
+    const order: string[] = [];
+    const first = await acquireStoreAccess(false);
+    const second = await acquireStoreAccess(false);
+
+    const exclusive = acquireStoreAccess(true).then((release) => {
+      order.push('exclusive');
+      return release;
+    });
+    const later = acquireStoreAccess(false).then((release) => {
+      order.push('later');
+      release();
+    });
+    await tick();
+    expect(order).toEqual([]); // waits for both shared holders
+
+    first();
+    second();
+    const releaseExclusive = await exclusive;
+    await tick();
+    expect(order).toEqual(['exclusive']); // new shared holders wait behind it
+
+    releaseExclusive();
+    await later;
+    expect(order).toEqual(['exclusive', 'later']);
+  });
+});
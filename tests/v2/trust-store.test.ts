@@ -0,0 +1,87 @@
+/**
+ * Contact trust ledger tests (rooms-and-trust §4).
+ *
+ * Covers the state machine over one (user, peer) entry: first sight records
+ * `unverified`, different keys mark `changed`, a safety-number match sets
+ * `verified` (and a mismatch withdraws it), and a key mismatch observed elsewhere
+ * flags `changed` only for a contact the ledger already knows.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+
+import { initDB, closeDB } from '@/v2/storage';
+import {
+  getContactTrust,
+  listContactTrust,
+  recordContactIdentity,
+  setContactVerification,
+  markContactChanged,
+} from '@/v2/trust-store';
+
+const KEYS = { msk: 'msk-bob', mek: 'mek-bob' };
+const OTHER = { msk: 'msk-mallory', mek: 'mek-mallory' };
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  await initDB();
+});
+afterEach(() => closeDB());
+
+describe('recordContactIdentity', () => {
+  it('records a new contact unverified and keeps the state for the same keys', async () => {
+    expect(await getContactTrust('alice', 'bob')).toBeNull();
+
+    const first = await recordContactIdentity('alice', 'bob', KEYS);
+    expect(first).toMatchObject({ ...KEYS, state: 'unverified' });
+    await setContactVerification('alice', 'bob', KEYS, true);
+
+    // Seeing the same keys again does not reset a verified contact.
+    expect((await recordContactIdentity('alice', 'bob', KEYS)).state).toBe('verified');
+    expect((await listContactTrust('alice')).map((r) => r.peerUserId)).toEqual(['bob']);
+    expect(await listContactTrust('bob')).toEqual([]);
+  });
+
+  it('marks the contact changed when different keys arrive, and stores them', async () => {
+    await recordContactIdentity('alice', 'bob', KEYS);
+    await setContactVerification('alice', 'bob', KEYS, true);
+
+    const changed = await recordContactIdentity('alice', 'bob', OTHER);
+    expect(changed).toMatchObject({ ...OTHER, state: 'changed' });
+    expect(changed.changedAt).toBeTypeOf('number');
+  });
+
+  it("adopts a sibling device's verdict on the same keys", async () => {
+    expect((await recordContactIdentity('alice', 'bob', KEYS, 'verified')).state).toBe('verified');
+    expect((await recordContactIdentity('alice', 'carol', KEYS, 'changed')).state).toBe('changed');
+    expect((await recordContactIdentity('alice', 'carol', KEYS, 'verified')).state).toBe('verified');
+  });
+});
+
+describe('setContactVerification', () => {
+  it('records a match as verified over the compared keys', async () => {
+    await recordContactIdentity('alice', 'bob', OTHER, 'changed');
+    const verified = await setContactVerification('alice', 'bob', KEYS, true);
+    expect(verified).toMatchObject({ ...KEYS, state: 'verified' });
+    expect(verified?.verifiedAt).toBeTypeOf('number');
+  });
+
+  it('withdraws verified on a mismatch over the same keys, and otherwise leaves the entry', async () => {
+    expect(await setContactVerification('alice', 'bob', KEYS, false)).toBeNull();
+
+    await setContactVerification('alice', 'bob', KEYS, true);
+    expect((await setContactVerification('alice', 'bob', OTHER, false))?.state).toBe('verified');
+    expect((await setContactVerification('alice', 'bob', KEYS, false))?.state).toBe('unverified');
+  });
+});
+
+describe('markContactChanged', () => {
+  it('flags a known contact and is a no-op for an unknown one', async () => {
+    expect(await markContactChanged('alice', 'bob')).toBe(false);
+    expect(await getContactTrust('alice', 'bob')).toBeNull();
+
+    await recordContactIdentity('alice', 'bob', KEYS);
+    expect(await markContactChanged('alice', 'bob')).toBe(true);
+    expect(await getContactTrust('alice', 'bob')).toMatchObject({ ...KEYS, state: 'changed' });
+  });
+});
@@ -4,7 +4,7 @@
  * Focuses on uncovered branches to improve coverage
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { IDBFactory } from 'fake-indexeddb';
 import {
   setupPassphrase,
@@ -14,9 +14,17 @@ import {
   unlockWithPasskeyPRF,
   unlockWithPasskeyGate,
   withUnlock,
+  changePassphrase,
+  rewrapEnrollments,
+  checkPassphraseCalibration,
+  recalibratePassphrase,
+  expectRecalibration,
+  takeRecalibration,
+  setPassphraseCalibrationPolicy,
+  DEFAULT_PASSPHRASE_CALIBRATION,
 } from '@/v2/unlock';
-import { initDB } from '@/v2/storage';
-import type { AuthCredentials } from '@/v2/types';
+import { initDB, getMeta, putMeta } from '@/v2/storage';
+import type { AuthCredentials, PassphraseConfigV2 } from '@/v2/types';
 
 // Setup fake IndexedDB before each test
 beforeEach(async () => {
@@ -177,6 +185,241 @@ describe('unlock.ts error paths', () => {
     });
   });
 
+  describe('changePassphrase', () => {
+    it('should re-wrap the same MS and keep createdAt', async () => {
+      const setup = await setupPassphrase('user-change', 'old-password');
+      const ms = setup.success ? setup.ms.slice() : new Uint8Array();
+      const before = await getMeta<PassphraseConfigV2>('enrollment:passphrase:v2:user-change');
+
+      const config = await changePassphrase('user-change', ms, 'new-password');
+      expect(config.createdAt).toBe(before!.createdAt);
+      expect(new Uint8Array(config.kdf.salt)).not.toEqual(new Uint8Array(before!.kdf.salt));
+
+      expect((await unlockWithPassphrase('user-change', 'old-password')).success).toBe(false);
+      const result = await unlockWithPassphrase('user-change', 'new-password');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(Array.from(result.ms)).toEqual(Array.from(ms));
+      }
+    });
+
+    it('should throw when passphrase not set up', async () => {
+      await expect(changePassphrase('user-no-pass', new Uint8Array(32), 'new-password')).rejects.toThrow(
+        'Passphrase not set up'
+      );
+    });
+  });
+
+  describe('passphrase calibration', () => {
+    const userId = 'user-calibrate';
+    const configKey = `enrollment:passphrase:v2:${userId}`;
+    // The suite-wide policy (tests/setup.ts)
+    const pbkdf2Policy = { ...DEFAULT_PASSPHRASE_CALIBRATION, algorithm: 'PBKDF2-HMAC-SHA256' as const };
+
+    afterEach(() => {
+      setPassphraseCalibrationPolicy(pbkdf2Policy);
+    });
+
+    it('should report nothing for a fresh config or no enrolment', async () => {
+      await setupPassphrase(userId, 'calibrate-pass');
+      expect(await checkPassphraseCalibration(userId)).toBeNull();
+      expect(await checkPassphraseCalibration('user-none')).toBeNull();
+    });
+
+    it('should detect another platform and a stale calibration', async () => {
+      await setupPassphrase(userId, 'calibrate-pass');
+      const config = (await getMeta<PassphraseConfigV2>(configKey))!;
+      const { lastCalibratedAt } = config.kdf;
+
+      expect(await checkPassphraseCalibration(userId, lastCalibratedAt + DEFAULT_PASSPHRASE_CALIBRATION.maxAgeMs + 1)).toBe(
+        'stale'
+      );
+      setPassphraseCalibrationPolicy({ ...pbkdf2Policy, maxAgeMs: 1000 });
+      expect(await checkPassphraseCalibration(userId, lastCalibratedAt + 1001)).toBe('stale');
+
+      await putMeta(configKey, { ...config, kdf: { ...config.kdf, platformHash: '' } });
+      expect(await checkPassphraseCalibration(userId, lastCalibratedAt)).toBe('platform');
+    });
+
+    it('should re-wrap the same MS under the same passphrase', async () => {
+      const setup = await setupPassphrase(userId, 'calibrate-pass');
+      const ms = setup.success ? setup.ms.slice() : new Uint8Array();
+      const config = (await getMeta<PassphraseConfigV2>(configKey))!;
+      await putMeta(configKey, { ...config, msVersion: 3, kdf: { ...config.kdf, lastCalibratedAt: 0 } });
+
+      const recalibrated = await recalibratePassphrase(userId, ms, 'calibrate-pass');
+      expect(recalibrated.msVersion).toBe(4);
+      expect(recalibrated.createdAt).toBe(config.createdAt);
+      expect(recalibrated.kdf.lastCalibratedAt).toBeGreaterThan(0);
+
+      const result = await unlockWithPassphrase(userId, 'calibrate-pass');
+      expect(result.success && Array.from(result.ms)).toEqual(Array.from(ms));
+    });
+
+    it('should upgrade a PBKDF2 enrolment to Argon2id under the default policy', async () => {
+      const setup = await setupPassphrase(userId, 'calibrate-pass');
+      const ms = setup.success ? setup.ms.slice() : new Uint8Array();
+      setPassphraseCalibrationPolicy(DEFAULT_PASSPHRASE_CALIBRATION);
+      expect(await checkPassphraseCalibration(userId)).toBe('algorithm');
+
+      const upgraded = await recalibratePassphrase(userId, ms, 'calibrate-pass');
+      expect(upgraded.kdf).toMatchObject({ algorithm: 'Argon2id', parallelism: 1 });
+      expect(upgraded.kdf.algorithm === 'Argon2id' && upgraded.kdf.memoryKiB).toBeGreaterThanOrEqual(19 * 1024);
+      expect(upgraded.kdf.iterations).toBeGreaterThanOrEqual(2);
+      expect(await checkPassphraseCalibration(userId)).toBeNull();
+
+      expect((await unlockWithPassphrase(userId, 'wrong-pass')).success).toBe(false);
+      const result = await unlockWithPassphrase(userId, 'calibrate-pass');
+      expect(result.success && Array.from(result.ms)).toEqual(Array.from(ms));
+    });
+
+    it('should keep an expected unlock only when the enrolment is due', async () => {
+      const setup = await setupPassphrase(userId, 'calibrate-pass');
+      const ms = setup.success ? setup.ms.slice() : new Uint8Array();
+
+      expectRecalibration(userId);
+      await withUnlock({ method: 'passphrase', passphrase: 'calibrate-pass', userId }, () => Promise.resolve());
+      expect(takeRecalibration(userId)).toBeNull();
+
+      const config = (await getMeta<PassphraseConfigV2>(configKey))!;
+      await putMeta(configKey, { ...config, kdf: { ...config.kdf, lastCalibratedAt: 0 } });
+      await withUnlock({ method: 'passphrase', passphrase: 'calibrate-pass', userId }, () => Promise.resolve());
+      expect(takeRecalibration(userId)).toBeNull(); // not expected
+
+      expectRecalibration(userId);
+      await withUnlock({ method: 'passphrase', passphrase: 'calibrate-pass', userId }, () => Promise.resolve());
+      const pending = takeRecalibration(userId);
+      // A copy that outlives the unlock's zeroisation
+      expect(pending && Array.from(pending.ms)).toEqual(Array.from(ms));
+      expect(pending?.reason).toBe('stale');
+      expect(takeRecalibration(userId)).toBeNull();
+    });
+
+    it('should refuse to recalibrate an enrolment changed since its unlock', async () => {
+      const setup = await setupPassphrase(userId, 'calibrate-pass');
+      const ms = setup.success ? setup.ms.slice() : new Uint8Array();
+      const unlockedFrom = (await getMeta<PassphraseConfigV2>(configKey))!;
+      await changePassphrase(userId, ms, 'new-pass');
+
+      await expect(recalibratePassphrase(userId, ms, 'calibrate-pass', unlockedFrom)).rejects.toMatchObject({
+        code: 'CONFLICT',
+      });
+      expect((await unlockWithPassphrase(userId, 'new-pass')).success).toBe(true);
+    });
+
+    it('should unlock an Argon2id enrolment with the parameters it stores', async () => {
+      setPassphraseCalibrationPolicy(DEFAULT_PASSPHRASE_CALIBRATION);
+      const setup = await setupPassphrase(userId, 'argon-pass');
+      const ms = setup.success ? setup.ms.slice() : new Uint8Array();
+      const config = (await getMeta<PassphraseConfigV2>(configKey))!;
+      expect(config.kdf.algorithm).toBe('Argon2id');
+
+      // Back under a PBKDF2 policy, the stored Argon2id config still unlocks
+      setPassphraseCalibrationPolicy(pbkdf2Policy);
+      const result = await unlockWithPassphrase(userId, 'argon-pass');
+      expect(result.success && Array.from(result.ms)).toEqual(Array.from(ms));
+      expect(await checkPassphraseCalibration(userId)).toBe('algorithm');
+    });
+  });
+
+  describe('rewrapEnrollments', () => {
+    const userId = 'user-rotate';
+    const prfOutput = crypto.getRandomValues(new Uint8Array(32)).buffer;
+    const passphraseCredentials: AuthCredentials = { method: 'passphrase', passphrase: 'rotate-pass', userId };
+    const prfCredentials: AuthCredentials = { method: 'passkey-prf', prfOutput, userId };
+
+    async function enrollAll(): Promise<Uint8Array> {
+      const setup = await setupPassphrase(userId, 'rotate-pass');
+      const ms = setup.success ? setup.ms.slice() : new Uint8Array();
+      await setupPasskeyPRF(userId, crypto.getRandomValues(new Uint8Array(16)).buffer, prfOutput, ms);
+      await setupPasskeyGate(userId, crypto.getRandomValues(new Uint8Array(16)).buffer, ms);
+      return ms;
+    }
+
+    it('should re-encrypt the new MS under every existing KEK without writing', async () => {
+      const oldMS = await enrollAll();
+      const newMS = crypto.getRandomValues(new Uint8Array(32));
+
+      const records = await rewrapEnrollments(userId, oldMS, newMS, [passphraseCredentials, prfCredentials]);
+      expect(records.map((r) => r.key)).toEqual([
+        `enrollment:passphrase:v2:${userId}`,
+        `enrollment:passkey-prf:v2:${userId}`,
+        `enrollment:passkey-gate:v2:${userId}`,
+      ]);
+      expect(records.every((r) => r.value.msVersion === 2)).toBe(true);
+
+      // Nothing stored yet: the old MS still unlocks
+      const before = await unlockWithPasskeyGate(userId);
+      expect(before.success && Array.from(before.ms)).toEqual(Array.from(oldMS));
+
+      for (const { key, value } of records) {
+        await putMeta(key, value);
+      }
+      const unlocked = [
+        await unlockWithPassphrase(userId, 'rotate-pass'),
+        await unlockWithPasskeyPRF(userId, prfOutput),
+        await unlockWithPasskeyGate(userId),
+      ];
+      for (const result of unlocked) {
+        expect(result.success && Array.from(result.ms)).toEqual(Array.from(newMS));
+      }
+    });
+
+    it('should require a credential for every passphrase / PRF enrolment', async () => {
+      const oldMS = await enrollAll();
+
+      await expect(
+        rewrapEnrollments(userId, oldMS, new Uint8Array(32), [passphraseCredentials])
+      ).rejects.toThrow('Master Secret rotation needs credentials for every enrollment (missing: passkey-prf)');
+    });
+
+    it('should refuse credentials that do not unlock the current MS', async () => {
+      const oldMS = await enrollAll();
+      const wrongPrf: AuthCredentials = { method: 'passkey-prf', prfOutput: new ArrayBuffer(32), userId };
+
+      await expect(
+        rewrapEnrollments(userId, oldMS, new Uint8Array(32), [passphraseCredentials, wrongPrf])
+      ).rejects.toThrow('Cannot re-wrap passkey-prf enrollment');
+      await expect(
+        rewrapEnrollments(userId, new Uint8Array(32), new Uint8Array(32), [passphraseCredentials, prfCredentials])
+      ).rejects.toThrow('Cannot re-wrap passphrase enrollment');
+    });
+  });
+
+  describe('setup failures', () => {
+    it('should report malformed setup input as VALIDATION', async () => {
+      const credentialId = crypto.getRandomValues(new Uint8Array(16)).buffer;
+      expect(await setupPassphrase('setup-user', 'short')).toMatchObject({ success: false, code: 'VALIDATION' });
+      expect(await setupPasskeyPRF('setup-user', credentialId, new ArrayBuffer(16))).toMatchObject({
+        success: false,
+        code: 'VALIDATION',
+      });
+      expect(await setupPasskeyGate('setup-user', new ArrayBuffer(0))).toMatchObject({
+        success: false,
+        code: 'VALIDATION',
+      });
+      expect(await unlockWithPassphrase('setup-user', 'short')).toMatchObject({ success: false });
+    });
+
+    it('should refuse to enroll a method the account already has as CONFLICT', async () => {
+      const userId = 'enrolled-user';
+      const first = await setupPassphrase(userId, 'first-passphrase');
+      if (!first.success) throw new Error('setup failed');
+      const prfOutput = crypto.getRandomValues(new Uint8Array(32)).buffer;
+      const credentialId = crypto.getRandomValues(new Uint8Array(16)).buffer;
+      await setupPasskeyPRF(userId, credentialId, prfOutput, first.ms);
+      await setupPasskeyGate(userId, credentialId, first.ms);
+
+      expect(await setupPassphrase(userId, 'second-passphrase', first.ms)).toMatchObject({
+        success: false,
+        code: 'CONFLICT',
+      });
+      expect(await setupPasskeyPRF(userId, credentialId, prfOutput, first.ms)).toMatchObject({ code: 'CONFLICT' });
+      expect(await setupPasskeyGate(userId, credentialId, first.ms)).toMatchObject({ code: 'CONFLICT' });
+      expect((await unlockWithPassphrase(userId, 'first-passphrase')).success).toBe(true);
+    });
+  });
+
   describe('integration: multiple unlock methods', () => {
     it('should allow multiple enrollment methods for same user', async () => {
       const userId = 'multi-method-user';
@@ -75,7 +75,7 @@ describe('setupAccountRoot', () => {
 
     // Second setup must fail — regenerate would orphan self-channel state.
     const again = await handleMessage(createRequest('setupAccountRoot', { credentials: aliceCreds }));
-    expect(again.error).toMatch(/already exists/);
+    expect(again.error).toMatchObject({ code: 'CONFLICT', message: expect.stringMatching(/already exists/) });
   });
 
   it('requires a valid unlock (no enrollment → error)', async () => {
@@ -111,7 +111,7 @@ describe('importAccountRootFromMnemonic', () => {
     const res = await handleMessage(
       createRequest('importAccountRootFromMnemonic', { credentials: aliceCreds, mnemonic: bad })
     );
-    expect(res.error).toMatch(/checksum/);
+    expect(res.error).toMatchObject({ code: 'VALIDATION', message: expect.stringMatching(/checksum/) });
   });
 });
 
@@ -157,7 +157,7 @@ describe('importWrappedAccountRoot + wrapAccountRootForDevice', () => {
     const res = await handleMessage(
       createRequest('importWrappedAccountRoot', { credentials: aliceCreds, wrapped })
     );
-    expect(res.error).toMatch(/not set up/);
+    expect(res.error).toMatchObject({ code: 'NOT_SETUP', message: expect.stringMatching(/not set up/) });
   });
 
   it('wrapAccountRootForDevice fails when this device has no root', async () => {
@@ -168,6 +168,6 @@ describe('importWrappedAccountRoot + wrapAccountRootForDevice', () => {
         recipientIdentityPubKey: bundle.identityKey,
       })
     );
-    expect(res.error).toMatch(/No account root/);
+    expect(res.error).toMatchObject({ code: 'NOT_SETUP', message: expect.stringMatching(/No account root/) });
   });
 });
@@ -0,0 +1,253 @@
+/**
+ * Worker attachment RPC tests (secure-messaging §8).
+ *
+ * alice's enclave encrypts an attachment and sends its handle through
+ * buildBundle; a library recipient finds the raw pointer inside the Signal
+ * plaintext and decrypts the blob. In the other direction alice opens a bundle
+ * carrying a pointer, gets back a sealed handle, and decrypts the blob through
+ * the RPC — the PWA side of both flows never sees a key.
+ *
+ * Runs in the `node` environment for native X25519/Ed25519.
+ */
+
+// @vitest-environment node
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { SessionBuilder, SessionCipher, SignalProtocolAddress } from '@lukium/libsignal-protocol-typescript';
+import type { DeviceType } from '@lukium/libsignal-protocol-typescript';
+
+import { handleMessage } from '@/v2/worker';
+import type { RPCRequest, RPCResponse, ReceivedAttachment } from '@/v2/types';
+import { initDB, closeDB, getAllAuditEntries } from '@/v2/storage';
+import { resetAuditLogger } from '@/v2/audit';
+import {
+  createSignalProtocolStore,
+  generateIdentity,
+  generateSignedPrekey,
+  generateOneTimePrekeys,
+  getPublicBundle,
+  type PublicPreKeyBundle,
+} from '@/v2/signal';
+import { buildFanoutBundle, openFanoutBundle } from '@/v2/envelope';
+import { encryptAttachment, decryptAttachment, frameMessageContent, parseMessageContent } from '@/v2/attachment';
+
+const ALICE_PASS = 'correct-horse-battery-staple';
+const aliceCreds = { method: 'passphrase' as const, userId: 'alice', passphrase: ALICE_PASS };
+const utf8 = new TextEncoder();
+
+function createRequest(method: string, params: unknown = {}): RPCRequest {
+  return { id: `req-${method}-${Math.random().toString(36).slice(2)}`, method, params };
+}
+function getResult<T>(r: RPCResponse): T {
+  return r.result as T;
+}
+function expectOk(r: RPCResponse): RPCResponse {
+  expect(r.error).toBeUndefined();
+  return r;
+}
+function bundleToDevice(bundle: PublicPreKeyBundle): DeviceType {
+  const pk = bundle.oneTimePreKeys[0]!;
+  return {
+    identityKey: bundle.identityKey,
+    identitySigningKey: bundle.identitySigningKey,
+    registrationId: bundle.registrationId,
+    signedPreKey: bundle.signedPreKey,
+    preKey: { keyId: pk.keyId, publicKey: pk.publicKey },
+  };
+}
+
+/** A library-modeled device: bob, with his own Signal identity. */
+async function makeBob(): Promise<{ store: ReturnType<typeof createSignalProtocolStore>; bundle: PublicPreKeyBundle }> {
+  const mkek = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  await generateIdentity('bob', mkek);
+  await generateSignedPrekey('bob', mkek, 1);
+  await generateOneTimePrekeys('bob', mkek, 900, 5);
+  return { store: createSignalProtocolStore('bob', mkek), bundle: await getPublicBundle('bob') };
+}
+
+/** Enroll alice + provision messaging via RPC; return her bundle + open session. */
+async function setupAndOpenAlice(): Promise<{ sid: string; token: string; bundle: PublicPreKeyBundle }> {
+  expectOk(await handleMessage(createRequest('setupPassphrase', { userId: 'alice', passphrase: ALICE_PASS })));
+  const setup = expectOk(await handleMessage(createRequest('setupMessaging', { credentials: aliceCreds })));
+  const bundle = getResult<{ bundle: PublicPreKeyBundle }>(setup).bundle;
+  const open = expectOk(await handleMessage(createRequest('openMessaging', { credentials: aliceCreds })));
+  const { sid, token } = getResult<{ sid: string; token: string }>(open);
+  return { sid, token, bundle };
+}
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  await initDB();
+  resetAuditLogger();
+});
+
+afterEach(() => {
+  closeDB();
+});
+
+describe('attachments (alice sends)', () => {
+  it('sends the pointer inside the Signal plaintext, never to the PWA', async () => {
+    const { sid, token } = await setupAndOpenAlice();
+    const bob = await makeBob();
+    const photo = Uint8Array.from({ length: 200_000 }, (_, i) => i & 0xff);
+
+    const enc = getResult<{ handle: ArrayBuffer; ciphertext: ArrayBuffer; digest: ArrayBuffer; size: number }>(
+      expectOk(await handleMessage(createRequest('encryptAttachment', { sid, token, plaintext: photo.buffer })))
+    );
+    expect(enc.size).toBe(photo.length);
+    expect(enc.ciphertext.byteLength).toBeGreaterThan(photo.length);
+
+    const built = expectOk(
+      await handleMessage(
+        createRequest('buildBundle', {
+          sid,
+          token,
+          recipients: [{ peerName: 'bob', deviceBundle: bundleToDevice(bob.bundle) }],
+          plaintext: utf8.encode('look').buffer,
+          attachments: [enc.handle],
+        })
+      )
+    );
+    const bobFromAlice = new SessionCipher(bob.store, new SignalProtocolAddress('alice', 1));
+    const opened = await openFanoutBundle([bobFromAlice], getResult<{ bundle: ArrayBuffer }>(built).bundle);
+    const content = parseMessageContent(opened!);
+    expect(new TextDecoder().decode(content.body)).toBe('look');
+    expect(content.pointers).toHaveLength(1);
+    expect(content.pointers[0]!.digest).toEqual(new Uint8Array(enc.digest));
+    expect(await decryptAttachment(new Uint8Array(enc.ciphertext), content.pointers[0]!)).toEqual(photo);
+
+    const builds = (await getAllAuditEntries()).filter((e) => e.op === 'messaging.bundle.build');
+    expect(builds.at(-1)?.details).toMatchObject({ attachments: 1 });
+  });
+
+  it('rejects a handle this enclave did not seal', async () => {
+    const { sid, token } = await setupAndOpenAlice();
+    const bob = await makeBob();
+    const res = await handleMessage(
+      createRequest('buildBundle', {
+        sid,
+        token,
+        recipients: [{ peerName: 'bob', deviceBundle: bundleToDevice(bob.bundle) }],
+        plaintext: utf8.encode('look').buffer,
+        attachments: [new ArrayBuffer(96)],
+      })
+    );
+    expect(res.error).toMatchObject({ code: 'VALIDATION', message: 'Invalid attachment handle' });
+  });
+});
+
+describe('attachments (alice receives)', () => {
+  it('returns a sealed handle and decrypts the blob through it', async () => {
+    const { sid, token, bundle: aliceBundle } = await setupAndOpenAlice();
+    const bob = await makeBob();
+    const aliceAddr = new SignalProtocolAddress('alice', 1);
+    await new SessionBuilder(bob.store, aliceAddr).processPreKey(bundleToDevice(aliceBundle));
+
+    const file = utf8.encode('a file too large for an envelope, in spirit');
+    const { ciphertext, pointer } = await encryptAttachment(file, 8);
+    const bundle = await buildFanoutBundle(
+      [new SessionCipher(bob.store, aliceAddr)],
+      frameMessageContent(utf8.encode('here'), [pointer])
+    );
+
+    const res = expectOk(
+      await handleMessage(createRequest('openBundle', { sid, token, senders: [{ peerName: 'bob' }], bundle }))
+    );
+    const { plaintext, attachments } = getResult<{ plaintext: ArrayBuffer; attachments: ReceivedAttachment[] }>(res);
+    expect(new TextDecoder().decode(plaintext)).toBe('here');
+    expect(attachments).toHaveLength(1);
+    expect(attachments[0]).toMatchObject({ size: file.length });
+    expect(new Uint8Array(attachments[0]!.digest)).toEqual(pointer.digest);
+
+    const handle = attachments[0]!.handle;
+    const dec = expectOk(
+      await handleMessage(createRequest('decryptAttachment', { sid, token, handle, ciphertext: ciphertext.buffer }))
+    );
+    expect(new Uint8Array(getResult<{ plaintext: ArrayBuffer }>(dec).plaintext)).toEqual(file);
+
+    const tampered = ciphertext.slice();
+    tampered[tampered.length - 1]! ^= 1;
+    const bad = await handleMessage(
+      createRequest('decryptAttachment', { sid, token, handle, ciphertext: tampered.buffer })
+    );
+    expect(bad.error).toMatchObject({ code: 'VALIDATION', message: 'Invalid attachment' });
+  });
+
+  it('decrypts a blob fed in pieces, auditing it once, and ends a stream that fails', async () => {
+    const { sid, token, bundle: aliceBundle } = await setupAndOpenAlice();
+    const bob = await makeBob();
+    const aliceAddr = new SignalProtocolAddress('alice', 1);
+    await new SessionBuilder(bob.store, aliceAddr).processPreKey(bundleToDevice(aliceBundle));
+
+    const file = Uint8Array.from({ length: 100 }, (_, i) => i);
+    const { ciphertext, pointer } = await encryptAttachment(file, 16);
+    const bundle = await buildFanoutBundle(
+      [new SessionCipher(bob.store, aliceAddr)],
+      frameMessageContent(utf8.encode('here'), [pointer])
+    );
+    const opened = expectOk(
+      await handleMessage(createRequest('openBundle', { sid, token, senders: [{ peerName: 'bob' }], bundle }))
+    );
+    const handle = getResult<{ attachments: ReceivedAttachment[] }>(opened).attachments[0]!.handle;
+    const begin = async (): Promise<string> =>
+      getResult<{ stream: string }>(
+        expectOk(await handleMessage(createRequest('beginAttachmentDecrypt', { sid, token, handle })))
+      ).stream;
+
+    const stream = await begin();
+    const parts: Uint8Array[] = [];
+    for (let off = 0; off < ciphertext.length; off += 25) {
+      const piece = ciphertext.slice(off, off + 25);
+      const fed = expectOk(
+        await handleMessage(createRequest('feedAttachmentDecrypt', { sid, token, stream, ciphertext: piece.buffer }))
+      );
+      parts.push(new Uint8Array(getResult<{ plaintext: ArrayBuffer }>(fed).plaintext));
+    }
+    const done = expectOk(await handleMessage(createRequest('finishAttachmentDecrypt', { sid, token, stream })));
+    parts.push(new Uint8Array(getResult<{ plaintext: ArrayBuffer }>(done).plaintext));
+    expect(Uint8Array.from(parts.flatMap((p) => Array.from(p)))).toEqual(file);
+
+    const decrypts = (await getAllAuditEntries()).filter((e) => e.op === 'messaging.attachment.decrypt');
+    expect(decrypts).toHaveLength(1);
+    const again = await handleMessage(createRequest('finishAttachmentDecrypt', { sid, token, stream }));
+    expect(again.error).toMatchObject({ code: 'NOT_FOUND' });
+
+    const tampered = ciphertext.slice();
+    tampered[10]! ^= 1;
+    const failing = await begin();
+    const bad = await handleMessage(
+      createRequest('feedAttachmentDecrypt', { sid, token, stream: failing, ciphertext: tampered.buffer })
+    );
+    expect(bad.error).toMatchObject({ code: 'VALIDATION', message: 'Invalid attachment' });
+    const after = await handleMessage(createRequest('finishAttachmentDecrypt', { sid, token, stream: failing }));
+    expect(after.error).toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('caps the chunked decryptions a session keeps open', async () => {
+    const { sid, token } = await setupAndOpenAlice();
+    const enc = getResult<{ handle: ArrayBuffer }>(
+      expectOk(
+        await handleMessage(createRequest('encryptAttachment', { sid, token, plaintext: utf8.encode('x').buffer }))
+      )
+    );
+    for (let i = 0; i < 4; i++) {
+      expectOk(await handleMessage(createRequest('beginAttachmentDecrypt', { sid, token, handle: enc.handle })));
+    }
+    const res = await handleMessage(createRequest('beginAttachmentDecrypt', { sid, token, handle: enc.handle }));
+    expect(res.error).toMatchObject({ code: 'QUOTA_EXCEEDED' });
+  });
+
+  it('leaves a message without attachments as it was', async () => {
+    const { sid, token, bundle: aliceBundle } = await setupAndOpenAlice();
+    const bob = await makeBob();
+    const aliceAddr = new SignalProtocolAddress('alice', 1);
+    await new SessionBuilder(bob.store, aliceAddr).processPreKey(bundleToDevice(aliceBundle));
+    const bundle = await buildFanoutBundle([new SessionCipher(bob.store, aliceAddr)], utf8.encode('plain'));
+
+    const res = expectOk(
+      await handleMessage(createRequest('openBundle', { sid, token, senders: [{ peerName: 'bob' }], bundle }))
+    );
+    expect(res.result).not.toHaveProperty('attachments');
+  });
+});
@@ -3,8 +3,9 @@
  *
  * The RPC surface is single-enrolled (alice); other devices are modeled directly
  * through the library. Covers alice BUILDING a bundle that library recipients
- * decrypt, and alice OPENING a bundle a library sender built (trial decryption +
- * inbound session establishment), plus the null / missing-bundle paths.
+ * decrypt, and alice OPENING a bundle a library sender built (tag lookup, trial
+ * decryption + inbound session establishment), plus the null / missing-bundle
+ * paths.
  *
  * Runs in the `node` environment for native X25519/Ed25519.
  */
@@ -18,7 +19,7 @@ import type { DeviceType } from '@lukium/libsignal-protocol-typescript';
 
 import { handleMessage } from '@/v2/worker';
 import type { RPCRequest, RPCResponse } from '@/v2/types';
-import { initDB, closeDB } from '@/v2/storage';
+import { initDB, closeDB, getAllAuditEntries } from '@/v2/storage';
 import { resetAuditLogger } from '@/v2/audit';
 import {
   createSignalProtocolStore,
@@ -28,7 +29,17 @@ import {
   getPublicBundle,
   type PublicPreKeyBundle,
 } from '@/v2/signal';
-import { buildFanoutBundle, openFanoutBundle } from '@/v2/envelope';
+import {
+  buildFanoutBundle,
+  openFanoutBundle,
+  encryptEnvelope,
+  serializeBundle,
+  parseBundle,
+  trialDecryptEnvelope,
+  sendTransportTag,
+  expectedTransportTags,
+  type Envelope,
+} from '@/v2/envelope';
 
 const ALICE_PASS = 'correct-horse-battery-staple';
 const aliceCreds = { method: 'passphrase' as const, userId: 'alice', passphrase: ALICE_PASS };
@@ -129,6 +140,31 @@ describe('buildBundle (alice sends)', () => {
     expect(await openFanoutBundle([fromAlice(c1)], bundle)).toBeNull();
   });
 
+  it('tags each envelope with the tag its recipient expects from alice', async () => {
+    const { sid, token } = await setupAndOpenAlice();
+    const b1 = await makeLibDevice('b1', 300);
+    const build = async (text: string): Promise<Envelope> => {
+      const res = expectOk(
+        await handleMessage(
+          createRequest('buildBundle', {
+            sid,
+            token,
+            recipients: [{ peerName: 'b1', deviceBundle: bundleToDevice(b1.bundle) }],
+            plaintext: utf8.encode(text).buffer,
+          })
+        )
+      );
+      return parseBundle(getResult<{ bundle: ArrayBuffer }>(res).bundle)[0]!;
+    };
+
+    // b1 opens alice's first message, and so expects the tag of her next one.
+    const fromAlice = new SessionCipher(b1.store, new SignalProtocolAddress('alice', 1));
+    expect(await trialDecryptEnvelope(fromAlice, await build('first'))).not.toBeNull();
+    const second = await build('second');
+    const expected = await expectedTransportTags(await b1.store.loadSession('alice.1'), Date.now());
+    expect(expected.map((t) => Array.from(t).join())).toContain(Array.from(second.tag!).join());
+  });
+
   it('errors when a new peer is given without a deviceBundle', async () => {
     const { sid, token } = await setupAndOpenAlice();
     const res = await handleMessage(
@@ -139,7 +175,7 @@ describe('buildBundle (alice sends)', () => {
         plaintext: utf8.encode('x').buffer,
       })
     );
-    expect(res.error).toMatch(/deviceBundle is required/);
+    expect(res.error).toMatchObject({ code: 'VALIDATION', message: expect.stringMatching(/deviceBundle is required/) });
   });
 });
 
@@ -167,6 +203,37 @@ describe('openBundle (alice receives)', () => {
     expect(fromUtf8.decode(plaintext!)).toBe('hello alice');
   });
 
+  it('finds a tagged envelope by lookup once the sender is known', async () => {
+    const { sid, token, bundle: aliceBundle } = await setupAndOpenAlice();
+    const s = await makeLibDevice('s', 600);
+    const decoy = await makeLibDevice('decoy', 700);
+    const aliceAddr = new SignalProtocolAddress('alice', 1);
+    await new SessionBuilder(s.store, aliceAddr).processPreKey(bundleToDevice(aliceBundle));
+    await new SessionBuilder(s.store, decoy.addr).processPreKey(bundleToDevice(decoy.bundle));
+    const sToAlice = new SessionCipher(s.store, aliceAddr);
+    const sToDecoy = new SessionCipher(s.store, decoy.addr);
+    const open = async (text: string): Promise<string> => {
+      const tag = await sendTransportTag(await s.store.loadSession(aliceAddr.toString()), Date.now());
+      const bundle = serializeBundle([
+        await encryptEnvelope(sToAlice, utf8.encode(text), tag),
+        await encryptEnvelope(sToDecoy, utf8.encode(text), new Uint8Array(16).fill(7)),
+      ]);
+      const res = expectOk(
+        await handleMessage(createRequest('openBundle', { sid, token, senders: [{ peerName: 's' }], bundle }))
+      );
+      return fromUtf8.decode(getResult<{ plaintext: ArrayBuffer }>(res).plaintext);
+    };
+
+    // First contact: alice has no session with s yet, so the tag is unknown
+    // and the envelope is found by trial decryption.
+    expect(await open('first')).toBe('first');
+    // Now alice holds the session: the next envelope is found by its tag.
+    expect(await open('second')).toBe('second');
+
+    const opened = (await getAllAuditEntries()).filter((e) => e.op === 'messaging.bundle.open');
+    expect(opened.map((e) => e.details?.tagged)).toEqual([false, true]);
+  });
+
   it('returns null when no envelope is addressed to this device', async () => {
     const { sid, token } = await setupAndOpenAlice();
     // A sender fans out to two OTHER devices only (nothing for alice).
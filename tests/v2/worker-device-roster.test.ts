@@ -0,0 +1,317 @@
+/**
+ * Worker device-roster RPC tests (rooms-and-trust §2.4).
+ *
+ * Alice is enrolled over RPC with an account root; her sibling devices and her
+ * contact (b1) are simulated test-side — a sibling signs rosters with the same
+ * root and seals them for the self-channel, the contact signs with its own root
+ * and is a library-modelled Signal device. Covers issuing and revoking,
+ * version monotonicity, learning this device was revoked, and both enforcement
+ * points: verifyContactDevice and buildBundle.
+ *
+ * Runs in the `node` environment for native Ed25519/X25519.
+ */
+
+// @vitest-environment node
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import type { DeviceType } from '@lukium/libsignal-protocol-typescript';
+
+import { handleMessage } from '@/v2/worker';
+import type { RPCRequest, RPCResponse } from '@/v2/types';
+import { initDB, closeDB, getAllAuditEntries } from '@/v2/storage';
+import { resetAuditLogger } from '@/v2/audit';
+import { arrayBufferToBase64url } from '@/v2/crypto-utils';
+import { mnemonicToAccountRoot } from '@/v2/account-root';
+import { deriveSelfKey, decryptSelfMessage, encryptSelfMessage } from '@/v2/self-channel';
+import {
+  deriveMasterSigningKey,
+  masterSigningPublicRaw,
+  masterEncryptionPublicRaw,
+  signDeviceCert,
+} from '@/v2/master-identity';
+import {
+  nextDeviceRoster,
+  signDeviceRoster,
+  openDeviceRoster,
+  rosterDeviceId,
+  type DeviceRoster,
+} from '@/v2/device-roster';
+import { recordContactIdentity } from '@/v2/trust-store';
+import { generateIdentity, generateSignedPrekey, generateOneTimePrekeys, getPublicBundle } from '@/v2/signal';
+
+const ALICE_PASS = 'correct-horse-battery-staple';
+const aliceCreds = { method: 'passphrase' as const, userId: 'alice', passphrase: ALICE_PASS };
+const BOB_ROOT = new Uint8Array(16).fill(0xb2);
+
+function createRequest(method: string, params: unknown = {}): RPCRequest {
+  return { id: `req-${method}-${Math.random().toString(36).slice(2)}`, method, params };
+}
+function getResult<T>(r: RPCResponse): T {
+  return r.result as T;
+}
+function expectOk(r: RPCResponse): RPCResponse {
+  expect(r.error).toBeUndefined();
+  return r;
+}
+function toAb(u: Uint8Array): ArrayBuffer {
+  const b = new ArrayBuffer(u.byteLength);
+  new Uint8Array(b).set(u);
+  return b;
+}
+/** Stand-in identity keys for a simulated device. */
+function deviceKeys(fill: number): { identityKey: Uint8Array; identitySigningKey: Uint8Array } {
+  const identityKey = new Uint8Array(33).fill(fill);
+  identityKey[0] = 0x05;
+  return { identityKey, identitySigningKey: new Uint8Array(32).fill(fill) };
+}
+
+/** Enroll alice with an account root; return an open session and her root. */
+async function setupAndOpen(): Promise<{ sid: string; token: string; root: Uint8Array }> {
+  expectOk(await handleMessage(createRequest('setupPassphrase', { userId: 'alice', passphrase: ALICE_PASS })));
+  expectOk(await handleMessage(createRequest('setupMessaging', { credentials: aliceCreds })));
+  const { mnemonic } = getResult<{ mnemonic: string }>(
+    expectOk(await handleMessage(createRequest('setupAccountRoot', { credentials: aliceCreds })))
+  );
+  const open = expectOk(await handleMessage(createRequest('openMessaging', { credentials: aliceCreds })));
+  const { sid, token } = getResult<{ sid: string; token: string }>(open);
+  return { sid, token, root: await mnemonicToAccountRoot(mnemonic) };
+}
+
+/** This device's identity key, as the roster names it. */
+async function ownDeviceId(sid: string, token: string): Promise<string> {
+  const cert = getResult<{ identityKey: ArrayBuffer }>(
+    expectOk(await handleMessage(createRequest('getDeviceCert', { sid, token })))
+  );
+  return rosterDeviceId(new Uint8Array(cert.identityKey));
+}
+
+/** A roster signed by `root`, sealed for the self-channel as a sibling would. */
+async function siblingAnnouncement(root: Uint8Array, roster: DeviceRoster): Promise<ArrayBuffer> {
+  const signed = await signDeviceRoster(roster, await deriveMasterSigningKey(root));
+  return toAb(await encryptSelfMessage(await deriveSelfKey(root), signed, 'device-roster'));
+}
+
+/** Record bob (uid `b1`) in alice's ledger and import a roster from him revoking `revoke`. */
+async function importBobRoster(sid: string, token: string, revoke: Uint8Array[]): Promise<void> {
+  await recordContactIdentity('alice', 'b1', {
+    msk: arrayBufferToBase64url(toAb(await masterSigningPublicRaw(BOB_ROOT))),
+    mek: arrayBufferToBase64url(toAb(await masterEncryptionPublicRaw(BOB_ROOT))),
+  });
+  const roster = nextDeviceRoster(null, 'b1', { revoke });
+  const signed = await signDeviceRoster(roster, await deriveMasterSigningKey(BOB_ROOT));
+  expectOk(
+    await handleMessage(createRequest('importContactRoster', { sid, token, peerUserId: 'b1', roster: toAb(signed) }))
+  );
+}
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  await initDB();
+  resetAuditLogger();
+});
+afterEach(() => closeDB());
+
+describe('updateDeviceRoster / getDeviceRoster', () => {
+  it('issues a master-signed roster with this device, for contacts and the self-channel', async () => {
+    const { sid, token, root } = await setupAndOpen();
+    const missing = await handleMessage(createRequest('getDeviceRoster', { sid, token }));
+    expect(missing.error).toMatchObject({ code: 'NOT_FOUND' });
+
+    const sibling = deviceKeys(0x21);
+    const cert = await signDeviceCert(root, sibling);
+    const out = getResult<{ version: number; roster: ArrayBuffer; announcement: ArrayBuffer }>(
+      expectOk(
+        await handleMessage(
+          createRequest('updateDeviceRoster', {
+            sid,
+            token,
+            add: [
+              {
+                identityKey: toAb(sibling.identityKey),
+                identitySigningKey: toAb(sibling.identitySigningKey),
+                cert: toAb(cert),
+              },
+            ],
+          })
+        )
+      )
+    );
+    expect(out.version).toBe(1);
+
+    const roster = await openDeviceRoster(new Uint8Array(out.roster), await masterSigningPublicRaw(root));
+    expect(roster.uid).toBe('alice');
+    expect(roster.devices.map((d) => d.ik).sort()).toEqual(
+      [await ownDeviceId(sid, token), rosterDeviceId(sibling.identityKey)].sort()
+    );
+    // The announcement is the same signed roster under the self-key.
+    const opened = await decryptSelfMessage(await deriveSelfKey(root), out.announcement, 'device-roster');
+    expect(Array.from(opened)).toEqual(Array.from(new Uint8Array(out.roster)));
+
+    const held = getResult<{ version: number; roster: ArrayBuffer }>(
+      expectOk(await handleMessage(createRequest('getDeviceRoster', { sid, token })))
+    );
+    expect(held.version).toBe(1);
+  });
+
+  it('revokes a device in the next version and audits it', async () => {
+    const { sid, token, root } = await setupAndOpen();
+    expectOk(await handleMessage(createRequest('updateDeviceRoster', { sid, token })));
+    const lost = deviceKeys(0x31);
+    const out = getResult<{ version: number; roster: ArrayBuffer }>(
+      expectOk(
+        await handleMessage(createRequest('updateDeviceRoster', { sid, token, revoke: [toAb(lost.identityKey)] }))
+      )
+    );
+    expect(out.version).toBe(2);
+    const roster = await openDeviceRoster(new Uint8Array(out.roster), await masterSigningPublicRaw(root));
+    expect(roster.revoked).toEqual([rosterDeviceId(lost.identityKey)]);
+
+    const entries = (await getAllAuditEntries()).filter((e) => e.op === 'messaging.roster.update');
+    expect(entries.at(-1)?.details).toMatchObject({ version: 2, revoked: 1, newlyRevoked: 1 });
+  });
+
+  it('refuses an uncertified device, and revoking this device', async () => {
+    const { sid, token } = await setupAndOpen();
+    const stranger = deviceKeys(0x41);
+    const foreignCert = await signDeviceCert(BOB_ROOT, stranger);
+    const res = await handleMessage(
+      createRequest('updateDeviceRoster', {
+        sid,
+        token,
+        add: [
+          {
+            identityKey: toAb(stranger.identityKey),
+            identitySigningKey: toAb(stranger.identitySigningKey),
+            cert: toAb(foreignCert),
+          },
+        ],
+      })
+    );
+    expect(res.error).toMatchObject({ code: 'VALIDATION', message: expect.stringMatching(/certificate/) });
+
+    const cert = getResult<{ identityKey: ArrayBuffer }>(
+      expectOk(await handleMessage(createRequest('getDeviceCert', { sid, token })))
+    );
+    const self = await handleMessage(createRequest('updateDeviceRoster', { sid, token, revoke: [cert.identityKey] }));
+    expect(self.error).toMatchObject({ code: 'VALIDATION', message: expect.stringMatching(/revoke itself/) });
+  });
+});
+
+describe('applyDeviceRoster (self-channel)', () => {
+  it("applies a sibling's newer roster only, and reports when this device is revoked", async () => {
+    const { sid, token, root } = await setupAndOpen();
+    const apply = async (roster: DeviceRoster): Promise<{ version: number; applied: boolean; revoked: boolean }> =>
+      getResult(
+        expectOk(
+          await handleMessage(
+            createRequest('applyDeviceRoster', { sid, token, ciphertext: await siblingAnnouncement(root, roster) })
+          )
+        )
+      );
+
+    const v1 = nextDeviceRoster(null, 'alice', { add: [deviceKeys(0x51)] });
+    const v2 = nextDeviceRoster(v1, 'alice', { revoke: [deviceKeys(0x52).identityKey] });
+    expect(await apply(v2)).toEqual({ version: 2, applied: true, revoked: false });
+    // A replayed older roster is ignored.
+    expect(await apply(v1)).toEqual({ version: 1, applied: false, revoked: false });
+
+    const self = new Uint8Array(
+      getResult<{ identityKey: ArrayBuffer }>(
+        expectOk(await handleMessage(createRequest('getDeviceCert', { sid, token })))
+      ).identityKey
+    );
+    expect(await apply(nextDeviceRoster(v2, 'alice', { revoke: [self] }))).toEqual({
+      version: 3,
+      applied: true,
+      revoked: true,
+    });
+  });
+
+  it('rejects a roster signed by another account', async () => {
+    const { sid, token, root } = await setupAndOpen();
+    const forged = await signDeviceRoster(nextDeviceRoster(null, 'alice', {}), await deriveMasterSigningKey(BOB_ROOT));
+    const ciphertext = toAb(await encryptSelfMessage(await deriveSelfKey(root), forged, 'device-roster'));
+    const res = await handleMessage(createRequest('applyDeviceRoster', { sid, token, ciphertext }));
+    expect(res.error).toMatchObject({ code: 'VALIDATION', message: expect.stringMatching(/Invalid device roster/) });
+  });
+});
+
+describe('importContactRoster and enforcement', () => {
+  it("needs the contact's master key on record and their own signature", async () => {
+    const { sid, token } = await setupAndOpen();
+    const signed = await signDeviceRoster(nextDeviceRoster(null, 'b1', {}), await deriveMasterSigningKey(BOB_ROOT));
+    const unknown = await handleMessage(
+      createRequest('importContactRoster', { sid, token, peerUserId: 'b1', roster: toAb(signed) })
+    );
+    expect(unknown.error).toMatchObject({ code: 'NOT_FOUND' });
+
+    await importBobRoster(sid, token, []);
+    const mislabeled = await handleMessage(
+      createRequest('importContactRoster', { sid, token, peerUserId: 'carol', roster: toAb(signed) })
+    );
+    expect(mislabeled.error).toBeDefined();
+  });
+
+  it('verifyContactDevice fails a revoked device whatever its certificate', async () => {
+    const { sid, token } = await setupAndOpen();
+    const lost = deviceKeys(0x61);
+    await importBobRoster(sid, token, [lost.identityKey]);
+    const verify = async (keys: typeof lost): Promise<{ valid: boolean; revoked?: boolean }> =>
+      getResult(
+        expectOk(
+          await handleMessage(
+            createRequest('verifyContactDevice', {
+              sid,
+              token,
+              peerUserId: 'b1',
+              masterSigningPub: toAb(await masterSigningPublicRaw(BOB_ROOT)),
+              identityKey: toAb(keys.identityKey),
+              identitySigningKey: toAb(keys.identitySigningKey),
+              cert: toAb(await signDeviceCert(BOB_ROOT, keys)),
+            })
+          )
+        )
+      );
+
+    expect(await verify(lost)).toMatchObject({ valid: false, revoked: true });
+    expect(await verify(deviceKeys(0x62))).toMatchObject({ valid: true });
+  });
+
+  it('buildBundle leaves revoked devices out', async () => {
+    const { sid, token } = await setupAndOpen();
+    const mkek = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await generateIdentity('b1', mkek);
+    await generateSignedPrekey('b1', mkek, 1);
+    await generateOneTimePrekeys('b1', mkek, 300, 2);
+    const published = await getPublicBundle('b1');
+    const deviceBundle: DeviceType = {
+      identityKey: published.identityKey,
+      identitySigningKey: published.identitySigningKey,
+      registrationId: published.registrationId,
+      signedPreKey: published.signedPreKey,
+      preKey: published.oneTimePreKeys[0]!,
+    };
+    const build = async (): Promise<{ bundle: ArrayBuffer; revoked?: unknown }> =>
+      getResult(
+        expectOk(
+          await handleMessage(
+            createRequest('buildBundle', {
+              sid,
+              token,
+              recipients: [{ peerName: 'b1', peerDeviceId: 1, deviceBundle }],
+              plaintext: new TextEncoder().encode('hi').buffer,
+            })
+          )
+        )
+      );
+
+    // Before any revocation the device gets an envelope (and a session).
+    expect((await build()).revoked).toBeUndefined();
+
+    await importBobRoster(sid, token, [new Uint8Array(published.identityKey)]);
+    const out = await build();
+    expect(out.revoked).toEqual([{ peerName: 'b1', peerDeviceId: 1 }]);
+    expect(new Uint8Array(out.bundle).length).toBe(3); // version + zero count: no envelopes
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Worker event tests (KMSUser.on).
+ *
+ * Subscribes to the worker's event fan-out and drives it over the RPC surface:
+ * audit appends, VAPID rotation and retirement, lease expiry timers, messaging
+ * session idle-out and prekey replenishment each raise their event.
+ *
+ * Runs in the `node` environment for native Ed25519 (capability tokens).
+ */
+
+// @vitest-environment node
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+
+import { handleMessage } from '@/v2/worker';
+import type { KMSEvent, RPCRequest, RPCResponse } from '@/v2/types';
+import { initDB, closeDB, getAllAuditEntries } from '@/v2/storage';
+import { resetAuditLogger } from '@/v2/audit';
+import { subscribeKMSEvents } from '@/v2/events';
+
+const PASS = 'correct-horse-battery-staple';
+const creds = { method: 'passphrase' as const, userId: 'alice', passphrase: PASS };
+const HOUR = 60 * 60 * 1000;
+
+function createRequest(method: string, params: unknown = {}): RPCRequest {
+  return { id: `req-${method}-${Math.random().toString(36).slice(2)}`, method, params };
+}
+function getResult<T>(r: RPCResponse): T {
+  return r.result as T;
+}
+async function call<T>(method: string, params: unknown = {}): Promise<T> {
+  const res = await handleMessage(createRequest(method, params));
+  expect(res.error).toBeUndefined();
+  return getResult<T>(res);
+}
+
+let events: KMSEvent[];
+let unsubscribe: () => void;
+
+function ofType<T extends KMSEvent['type']>(type: T): Array<Extract<KMSEvent, { type: T }>> {
+  return events.filter((e): e is Extract<KMSEvent, { type: T }> => e.type === type);
+}
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  await initDB();
+  resetAuditLogger();
+  events = [];
+  unsubscribe = subscribeKMSEvents((event) => events.push(event));
+  await call('setupPassphrase', { userId: 'alice', passphrase: PASS });
+});
+
+afterEach(() => {
+  unsubscribe();
+  vi.useRealTimers();
+  closeDB();
+  resetAuditLogger();
+});
+
+describe('audit-appended', () => {
+  it('announces every entry appended to the chain', async () => {
+    const entries = await getAllAuditEntries();
+    expect(ofType('audit-appended')).toEqual(
+      entries.map((e) => ({
+        type: 'audit-appended',
+        seqNum: e.seqNum,
+        op: e.op,
+        userId: e.userId,
+        timestamp: e.timestamp,
+      }))
+    );
+  });
+});
+
+describe('vapid-rotated / lease-expired (retirement)', () => {
+  it('announces the new key and the leases its retirement expires', async () => {
+    const { leaseId } = await call<{ leaseId: string }>('createLease', {
+      userId: 'alice',
+      ttlHours: 24,
+      credentials: creds,
+    });
+    const oldKid = (await call<{ kid: string }>('getVAPIDKid')).kid;
+
+    const rotated = await call<{ kid: string; publicKey: string; retiring: unknown[] }>('rotateVAPID', {
+      credentials: creds,
+    });
+    expect(ofType('vapid-rotated')).toEqual([{ type: 'vapid-rotated', ...rotated }]);
+    expect(rotated.retiring).toEqual([{ kid: oldKid, retireAt: expect.any(Number) }]);
+
+    await call('retireVAPIDKey', { kid: oldKid, credentials: creds });
+    expect(ofType('lease-expired')).toEqual([
+      { type: 'lease-expired', leaseId, userId: 'alice', reason: 'vapid-key-retired' },
+    ]);
+  });
+});
+
+describe('lease-expiring / lease-expired (timers)', () => {
+  it('warns a day ahead, then expires at exp', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    const { leaseId, exp } = await call<{ leaseId: string; exp: number }>('createLease', {
+      userId: 'alice',
+      ttlHours: 48,
+      credentials: creds,
+    });
+
+    await vi.advanceTimersByTimeAsync(23 * HOUR);
+    expect(ofType('lease-expiring')).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1 * HOUR);
+    await vi.waitFor(() => expect(ofType('lease-expiring')).toHaveLength(1));
+    expect(ofType('lease-expiring')[0]).toEqual({ type: 'lease-expiring', leaseId, userId: 'alice', exp });
+
+    await vi.advanceTimersByTimeAsync(24 * HOUR);
+    await vi.waitFor(() => expect(ofType('lease-expired')).toHaveLength(1));
+    expect(ofType('lease-expired')[0]).toEqual({ type: 'lease-expired', leaseId, userId: 'alice', reason: 'ttl' });
+  });
+
+  it('re-arms for the new exp when the lease is extended', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    const { leaseId } = await call<{ leaseId: string }>('createLease', {
+      userId: 'alice',
+      ttlHours: 48,
+      credentials: creds,
+    });
+    await vi.advanceTimersByTimeAsync(12 * HOUR);
+    await call('extendLeases', { leaseIds: [leaseId], userId: 'alice' });
+
+    await vi.advanceTimersByTimeAsync(36 * HOUR);
+    expect(ofType('lease-expiring')).toEqual([]);
+    expect(ofType('lease-expired')).toEqual([]);
+  });
+
+  it('re-arms stored leases when the worker restarts', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    const { leaseId, exp } = await call<{ leaseId: string; exp: number }>('createLease', {
+      userId: 'alice',
+      ttlHours: 48,
+      credentials: creds,
+    });
+
+    // A fresh worker over the same database; the old one's timers die with it
+    vi.clearAllTimers();
+    vi.resetModules();
+    const restarted: KMSEvent[] = [];
+    const { subscribeKMSEvents: subscribeRestarted } = await import('@/v2/events');
+    const stop = subscribeRestarted((event) => restarted.push(event));
+    try {
+      await import('@/v2/worker');
+      await vi.waitFor(() => expect(vi.getTimerCount()).toBeGreaterThan(0));
+
+      await vi.advanceTimersByTimeAsync(24 * HOUR);
+      await vi.waitFor(() =>
+        expect(restarted.filter((e) => e.type === 'lease-expiring')).toEqual([
+          { type: 'lease-expiring', leaseId, userId: 'alice', exp },
+        ])
+      );
+      await vi.advanceTimersByTimeAsync(24 * HOUR);
+      await vi.waitFor(() =>
+        expect(restarted.filter((e) => e.type === 'lease-expired')).toEqual([
+          { type: 'lease-expired', leaseId, userId: 'alice', reason: 'ttl' },
+        ])
+      );
+    } finally {
+      stop();
+    }
+  });
+});
+
+describe('session-expired / prekeys-low', () => {
+  it('drops an idle messaging session without waiting for a call', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    await call('setupMessaging', { credentials: creds });
+    const { sid, token } = await call<{ sid: string; token: string }>('openMessaging', { credentials: creds });
+
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    await call('maintainPrekeys', { sid, token }); // slides the idle deadline
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(ofType('session-expired')).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(6 * 60 * 1000);
+    expect(ofType('session-expired')).toEqual([{ type: 'session-expired', sid, userId: 'alice', reason: 'idle' }]);
+    const res = await handleMessage(createRequest('maintainPrekeys', { sid, token }));
+    expect(res.error).toMatchObject({ code: 'SESSION_EXPIRED', message: expect.stringMatching(/not found/) });
+  });
+
+  it('reports the low count when maintenance replenishes one-time prekeys', async () => {
+    await call('setupMessaging', { credentials: creds, oneTimePrekeyCount: 4 });
+    await call('openMessaging', { credentials: creds });
+    expect(ofType('prekeys-low')).toEqual([{ type: 'prekeys-low', userId: 'alice', count: 4, replenished: 16 }]);
+  });
+});
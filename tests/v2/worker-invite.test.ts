@@ -21,12 +21,21 @@ import { handleMessage } from '@/v2/worker';
 import type { RPCRequest, RPCResponse } from '@/v2/types';
 import { initDB, closeDB } from '@/v2/storage';
 import { resetAuditLogger } from '@/v2/audit';
-import { arrayBufferToBase64url } from '@/v2/crypto-utils';
+import { arrayBufferToBase64url, base64urlToArrayBuffer } from '@/v2/crypto-utils';
 import { deriveScope, deriveExchangeKey } from '@/v2/pairing';
 import { encryptSelfMessage, decryptSelfMessage } from '@/v2/self-channel';
-import { masterSigningPublicRaw, masterEncryptionPublicRaw, identityFingerprint } from '@/v2/master-identity';
+import {
+  masterSigningPublicRaw,
+  masterEncryptionPublicRaw,
+  identityFingerprint,
+  deriveMasterSigningKey,
+  deriveMasterEncryptionKey,
+} from '@/v2/master-identity';
+import { sealRoomKey, openRoomKey, verifyRoomKey } from '@/v2/room';
+import type { RoomInfo, RoomMember, RoomRekey } from '@/v2/types';
 import {
   buildConnectInvite,
+  buildRoomInvite,
   encodeInvite,
   decodeInvite,
   encodeAnnouncement,
@@ -190,7 +199,7 @@ describe('mintInvite', () => {
     const open = expectOk(await handleMessage(createRequest('openMessaging', { credentials: aliceCreds })));
     const { sid, token } = getResult<{ sid: string; token: string }>(open);
     const { response } = await driveMint(sid, token);
-    expect(response.error).toMatch(/No account root/);
+    expect(response.error).toMatchObject({ code: 'NOT_SETUP', message: expect.stringMatching(/No account root/) });
   });
 });
 
@@ -205,12 +214,16 @@ describe('acceptInvite', () => {
     const blob = encodeInvite(buildConnectInvite(minter, secret, { singleUse: true }));
 
     const response = await driveAccept(sid, token, blob);
-    const out = getResult<{ scope: string; peer: { uid: string; fingerprint: string }; announcement: ArrayBuffer }>(
-      expectOk(response)
-    );
+    const out = getResult<{
+      scope: string;
+      peer: { uid: string; fingerprint: string; trust?: string };
+      announcement: ArrayBuffer;
+    }>(expectOk(response));
 
     // Public peer identity comes back with the right fingerprint; scope is derived.
+    // The minter's keys enter the trust ledger, unverified until compared.
     expect(out.peer.uid).toBe('minter-uid');
+    expect(out.peer.trust).toBe('unverified');
     expect(out.peer.fingerprint).toBe(
       await identityFingerprint(await masterSigningPublicRaw(minterRoot), await masterEncryptionPublicRaw(minterRoot))
     );
@@ -235,7 +248,7 @@ describe('acceptInvite', () => {
     const secret = new Uint8Array(32).fill(0x77);
     const blob = encodeInvite(buildConnectInvite(minter, secret, { expiresAt: 1, singleUse: true }));
     const response = await driveAccept(sid, token, blob);
-    expect(response.error).toMatch(/expired/);
+    expect(response.error).toMatchObject({ code: 'EXPIRED', message: expect.stringMatching(/expired/) });
   });
 
   it('rejects accepting your OWN invite (self-connect guard)', async () => {
@@ -245,7 +258,7 @@ describe('acceptInvite', () => {
     const secret = new Uint8Array(32).fill(0x77);
     const blob = encodeInvite(buildConnectInvite(mine, secret, { singleUse: true }));
     const response = await driveAccept(sid, token, blob);
-    expect(response.error).toMatch(/your own invite/);
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringMatching(/your own invite/) });
   });
 });
 
@@ -275,11 +288,12 @@ describe('openInviteJoin / approveInviteJoin', () => {
 
     // Approve BY approvalId → the enclave binds the uid it opened (bob-uid), returns it,
     // and consumes the single-use invite. The caller never supplies the uid.
-    const approved = getResult<{ scope: string; peerUserId: string }>(
+    const approved = getResult<{ scope: string; peerUserId: string; trust?: string }>(
       expectOk(await handleMessage(createRequest('approveInviteJoin', { sid, token, approvalId: opened.approvalId })))
     );
     expect(approved.scope).toBe(scope);
     expect(approved.peerUserId).toBe('bob-uid');
+    expect(approved.trust).toBe('unverified');
 
     const cs = getResult<{ scope: string }>(
       expectOk(await handleMessage(createRequest('getContactScope', { sid, token, peerUserId: 'bob-uid' })))
@@ -293,7 +307,7 @@ describe('openInviteJoin / approveInviteJoin', () => {
 
     // Replaying the same approvalId fails — the approval was consumed.
     const replay = await handleMessage(createRequest('approveInviteJoin', { sid, token, approvalId: opened.approvalId }));
-    expect(replay.error).toMatch(/No such pending approval/);
+    expect(replay.error).toMatchObject({ code: 'NOT_FOUND', message: expect.stringMatching(/No such pending approval/) });
   });
 
   it('approveInviteJoin errors for an unknown approvalId', async () => {
@@ -301,7 +315,7 @@ describe('openInviteJoin / approveInviteJoin', () => {
     const res = await handleMessage(
       createRequest('approveInviteJoin', { sid, token, approvalId: 'no-such-approval' })
     );
-    expect(res.error).toMatch(/No such pending approval/);
+    expect(res.error).toMatchObject({ code: 'NOT_FOUND', message: expect.stringMatching(/No such pending approval/) });
   });
 
   it('openInviteJoin errors for an unknown invite', async () => {
@@ -309,7 +323,7 @@ describe('openInviteJoin / approveInviteJoin', () => {
     const res = await handleMessage(
       createRequest('openInviteJoin', { sid, token, inviteId: 'nope', ciphertext: new Uint8Array(48).fill(1).buffer })
     );
-    expect(res.error).toMatch(/No such armed invite/);
+    expect(res.error).toMatchObject({ code: 'NOT_FOUND', message: expect.stringMatching(/No such armed invite/) });
   });
 });
 
@@ -326,3 +340,221 @@ describe('forgetInvite', () => {
     expect(list.invites).toHaveLength(0);
   });
 });
+
+describe('room invites', () => {
+  /** Alice mints a room invite; simulated Bob's join is opened + approved. */
+  async function adminWithBob(): Promise<{
+    sid: string;
+    token: string;
+    inviteId: string;
+    roomId: string;
+    bobRoot: Uint8Array;
+    approved: { scope: string; peerUserId: string; room: RoomRekey };
+  }> {
+    const { sid, token } = await setupAndOpen();
+    const { response, blob } = await driveMint(sid, token, { type: 'room', roomName: 'Book club', nameHint: 'Alice' });
+    const { inviteId, roomId } = getResult<{ inviteId: string; roomId: string }>(expectOk(response));
+
+    const bobRoot = new Uint8Array(16).fill(0x62);
+    const key = await deriveExchangeKey(roomSecretFromB64url(decodeInvite(blob!).s));
+    const bob = await cardFor('bob-uid', bobRoot, 'Bob');
+    const sealed = await encryptSelfMessage(key, encodeAnnouncement(bob), DEVICE_EXCHANGE_CONTEXT);
+    const opened = getResult<{ approvalId: string }>(
+      expectOk(await handleMessage(createRequest('openInviteJoin', { sid, token, inviteId, ciphertext: toAb(sealed) })))
+    );
+    const approved = getResult<{ scope: string; peerUserId: string; room: RoomRekey }>(
+      expectOk(await handleMessage(createRequest('approveInviteJoin', { sid, token, approvalId: opened.approvalId })))
+    );
+    return { sid, token, inviteId, roomId, bobRoot, approved };
+  }
+
+  it('mints a reusable room invite for a new room administered by this account', async () => {
+    const { sid, token } = await setupAndOpen();
+    const { response, blob } = await driveMint(sid, token, { type: 'room', roomName: 'Book club' });
+    const out = getResult<{ inviteId: string; roomId: string }>(expectOk(response));
+
+    const payload = decodeInvite(blob!);
+    expect(payload.t).toBe('room');
+    expect(payload.r).toBe(out.roomId);
+    expect(payload.rn).toBe('Book club');
+    expect(payload).not.toHaveProperty('single');
+
+    const room = getResult<RoomInfo>(
+      expectOk(await handleMessage(createRequest('listRoomMembers', { sid, token, roomId: out.roomId })))
+    );
+    expect(room.epoch).toBe(1);
+    expect(room.name).toBe('Book club');
+    expect(room.members.map((m) => [m.uid, m.role])).toEqual([['alice', 'admin']]);
+  });
+
+  it('rejects a single-use room invite, or room fields on a 1:1 invite', async () => {
+    const { sid, token } = await setupAndOpen();
+    const single = await handleMessage(createRequest('mintInvite', { sid, token, type: 'room', singleUse: true }));
+    expect(single.error).toMatchObject({ code: 'VALIDATION', message: expect.stringMatching(/reusable/) });
+    const stray = await handleMessage(createRequest('mintInvite', { sid, token, roomName: 'Book club' }));
+    expect(stray.error).toMatchObject({ code: 'VALIDATION', message: expect.stringMatching(/require type 'room'/) });
+  });
+
+  it('a cancelled room invite leaves no room behind', async () => {
+    const { sid, token } = await setupAndOpen();
+    const { response, blob } = await driveMint(sid, token, { type: 'room' }, 'cancelled');
+    expect(response.error).toBeDefined();
+    const res = await handleMessage(createRequest('listRoomMembers', { sid, token, roomId: decodeInvite(blob!).r }));
+    expect(res.error).toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('approving a join rekeys the room and seals the welcome to the joiner only', async () => {
+    const { sid, token, roomId, bobRoot, approved } = await adminWithBob();
+    expect(approved.peerUserId).toBe('bob-uid');
+    expect(approved.room.roomId).toBe(roomId);
+    expect(approved.room.epoch).toBe(2);
+    expect(approved.scope).toBe(approved.room.scope);
+    expect(approved.room.roomKeys.map((k) => k.uid)).toEqual(['bob-uid']);
+
+    // Bob opens his welcome and trusts it because Alice (from the invite card) signed it.
+    const welcome = await openRoomKey(approved.room.roomKeys[0]!.roomKey, {
+      encryptionKey: await deriveMasterEncryptionKey(bobRoot),
+      mek: await masterEncryptionPublicRaw(bobRoot),
+    });
+    const room = getResult<RoomInfo>(
+      expectOk(await handleMessage(createRequest('listRoomMembers', { sid, token, roomId })))
+    );
+    await verifyRoomKey(welcome, room.members);
+    expect(await deriveScope(welcome.update.secret)).toBe(approved.room.scope);
+    expect(room.members.map((m) => [m.uid, m.role])).toEqual([
+      ['alice', 'admin'],
+      ['bob-uid', 'member'],
+    ]);
+
+    // No contact secret is bound for a room join, and the invite stays armed.
+    const cs = await handleMessage(createRequest('getContactScope', { sid, token, peerUserId: 'bob-uid' }));
+    expect(cs.error).toBeDefined();
+    const list = getResult<{ invites: Array<{ roomId?: string }> }>(
+      expectOk(await handleMessage(createRequest('listInvites', { sid, token })))
+    );
+    expect(list.invites.map((i) => i.roomId)).toEqual([roomId]);
+  });
+
+  it('removing a member rotates the room past them; rotation keeps the members', async () => {
+    const { sid, token, roomId, approved } = await adminWithBob();
+
+    const removed = getResult<RoomRekey>(
+      expectOk(await handleMessage(createRequest('removeRoomMember', { sid, token, roomId, memberUid: 'bob-uid' })))
+    );
+    expect(removed.epoch).toBe(3);
+    expect(removed.scope).not.toBe(approved.room.scope);
+    expect(removed.roomKeys).toEqual([]);
+
+    const rotated = getResult<RoomRekey>(
+      expectOk(await handleMessage(createRequest('rotateRoomSecret', { sid, token, roomId })))
+    );
+    expect(rotated.epoch).toBe(4);
+    expect(rotated.scope).not.toBe(removed.scope);
+
+    const room = getResult<RoomInfo>(
+      expectOk(await handleMessage(createRequest('listRoomMembers', { sid, token, roomId })))
+    );
+    expect(room.members.map((m) => m.uid)).toEqual(['alice']);
+
+    const self = await handleMessage(createRequest('removeRoomMember', { sid, token, roomId, memberUid: 'alice' }));
+    expect(self.error).toMatchObject({ code: 'VALIDATION' });
+    const unknown = await handleMessage(
+      createRequest('removeRoomMember', { sid, token, roomId, memberUid: 'bob-uid' })
+    );
+    expect(unknown.error).toMatchObject({ code: 'NOT_FOUND', message: expect.stringMatching(/No such room member/) });
+  });
+
+  describe('joining a room (applyRoomKey)', () => {
+    const adminRoot = new Uint8Array(16).fill(0x51);
+
+    /** Alice accepts simulated admin Carol's room invite; returns Alice's member entry. */
+    async function joinCarolsRoom(): Promise<{ sid: string; token: string; admin: RoomMember; alice: RoomMember }> {
+      const { sid, token } = await setupAndOpen();
+      const carol = await cardFor('carol-uid', adminRoot, 'Carol');
+      const secret = new Uint8Array(32).fill(0x77);
+      const blob = encodeInvite(buildRoomInvite(carol, secret, { roomId: 'room-1', name: 'Book club' }));
+      const out = getResult<{ roomId: string; announcement: ArrayBuffer }>(
+        expectOk(await driveAccept(sid, token, blob))
+      );
+      expect(out.roomId).toBe('room-1');
+
+      const ann = decodeAnnouncement(
+        await decryptSelfMessage(await deriveExchangeKey(secret), out.announcement, DEVICE_EXCHANGE_CONTEXT)
+      );
+      const admin: RoomMember = { uid: carol.uid, msk: carol.msk, mek: carol.mek, role: 'admin', joinedAt: 1 };
+      const alice: RoomMember = { uid: ann.uid, msk: ann.msk, mek: ann.mek, role: 'member', joinedAt: 2 };
+      return { sid, token, admin, alice };
+    }
+
+    async function sealFor(
+      alice: RoomMember,
+      epoch: number,
+      members: RoomMember[],
+      signer: { uid: string; root: Uint8Array } = { uid: 'carol-uid', root: adminRoot }
+    ): Promise<ArrayBuffer> {
+      return sealRoomKey(
+        { roomId: 'room-1', name: 'Book club', epoch, secret: new Uint8Array(32).fill(epoch), members },
+        { uid: signer.uid, signingKey: await deriveMasterSigningKey(signer.root) },
+        new Uint8Array(base64urlToArrayBuffer(alice.mek))
+      );
+    }
+
+    it('records a pending join, then applies the admin-signed welcome', async () => {
+      const { sid, token, admin, alice } = await joinCarolsRoom();
+      const pending = getResult<RoomInfo>(
+        expectOk(await handleMessage(createRequest('listRoomMembers', { sid, token, roomId: 'room-1' })))
+      );
+      expect(pending.epoch).toBe(0);
+      expect(pending).not.toHaveProperty('scope');
+      expect(pending.members.map((m) => m.uid)).toEqual(['carol-uid']);
+
+      const roomKey = await sealFor(alice, 1, [admin, alice]);
+      const info = getResult<RoomInfo>(
+        expectOk(await handleMessage(createRequest('applyRoomKey', { sid, token, roomKey })))
+      );
+      expect(info.epoch).toBe(1);
+      expect(info.scope).toBe(await deriveScope(new Uint8Array(32).fill(1)));
+      expect(info.members.map((m) => m.uid)).toEqual(['carol-uid', 'alice']);
+
+      // Replaying the same (now stale) epoch is refused.
+      const replay = await handleMessage(createRequest('applyRoomKey', { sid, token, roomKey }));
+      expect(replay.error).toMatchObject({ code: 'CONFLICT', message: expect.stringMatching(/Stale room key/) });
+    });
+
+    it('rejects a key signed by anyone but a known admin, or one that drops this account', async () => {
+      const { sid, token, admin, alice } = await joinCarolsRoom();
+      const mallory = await sealFor(alice, 1, [admin, alice], { uid: 'mallory', root: new Uint8Array(16).fill(0x99) });
+      const forged = await handleMessage(createRequest('applyRoomKey', { sid, token, roomKey: mallory }));
+      expect(forged.error).toMatchObject({
+        code: 'VALIDATION',
+        message: expect.stringMatching(/not signed by a room admin/),
+      });
+
+      const dropped = await handleMessage(
+        createRequest('applyRoomKey', { sid, token, roomKey: await sealFor(alice, 1, [admin]) })
+      );
+      expect(dropped.error).toMatchObject({
+        code: 'VALIDATION',
+        message: expect.stringMatching(/does not list this account/),
+      });
+
+      const stranger = await sealRoomKey(
+        { roomId: 'room-1', epoch: 1, secret: new Uint8Array(32).fill(1), members: [admin, alice] },
+        { uid: 'carol-uid', signingKey: await deriveMasterSigningKey(adminRoot) },
+        await masterEncryptionPublicRaw(new Uint8Array(16).fill(0x33))
+      );
+      const foreign = await handleMessage(createRequest('applyRoomKey', { sid, token, roomKey: stranger }));
+      expect(foreign.error).toMatchObject({ code: 'VALIDATION', message: expect.stringMatching(/Invalid room key/) });
+    });
+
+    it('refuses a second join of a room this account already belongs to', async () => {
+      const { sid, token, admin, alice } = await joinCarolsRoom();
+      const roomKey = await sealFor(alice, 1, [admin, alice]);
+      expectOk(await handleMessage(createRequest('applyRoomKey', { sid, token, roomKey })));
+      const carol = await cardFor('carol-uid', adminRoot, 'Carol');
+      const blob = encodeInvite(buildRoomInvite(carol, new Uint8Array(32).fill(0x78), { roomId: 'room-1' }));
+      const again = await driveAccept(sid, token, blob);
+      expect(again.error).toMatchObject({ code: 'CONFLICT', message: expect.stringMatching(/already a member/) });
+    });
+  });
+});
@@ -6,7 +6,8 @@
  * account root test-side, derive the expected master public keys, and confirm the
  * RPC agrees — and that this device's certificate verifies under the account
  * master. verifyContactDevice is exercised with a peer simulated entirely
- * test-side (a second root), covering the valid / foreign-master / tampered cases.
+ * test-side (a second root), covering the valid / foreign-master / tampered cases,
+ * and which of them may move a contact's trust state.
  *
  * Runs in the `node` environment for native Ed25519/X25519 + HKDF.
  */
@@ -18,7 +19,7 @@ import { IDBFactory } from 'fake-indexeddb';
 
 import { handleMessage } from '@/v2/worker';
 import type { RPCRequest, RPCResponse } from '@/v2/types';
-import { initDB, closeDB } from '@/v2/storage';
+import { initDB, closeDB, getAllAuditEntries, putSignalTrustedIdentity } from '@/v2/storage';
 import { resetAuditLogger } from '@/v2/audit';
 import { mnemonicToAccountRoot } from '@/v2/account-root';
 import { arrayBufferToBase64url } from '@/v2/crypto-utils';
@@ -28,6 +29,9 @@ import {
   signDeviceCert,
   verifyDeviceCert,
 } from '@/v2/master-identity';
+import { getContactTrust, recordContactIdentity } from '@/v2/trust-store';
+import { nextDeviceRoster } from '@/v2/device-roster';
+import { storeDeviceRoster } from '@/v2/roster-store';
 
 const ALICE_PASS = 'correct-horse-battery-staple';
 const aliceCreds = { method: 'passphrase' as const, userId: 'alice', passphrase: ALICE_PASS };
@@ -92,7 +96,7 @@ describe('getIdentityCard', () => {
   it('errors when the session has no account root', async () => {
     const { sid, token } = await setupAndOpen(false);
     const res = await handleMessage(createRequest('getIdentityCard', { sid, token }));
-    expect(res.error).toMatch(/No account root/);
+    expect(res.error).toMatchObject({ code: 'NOT_SETUP', message: expect.stringMatching(/No account root/) });
   });
 });
 
@@ -130,7 +134,7 @@ describe('getDeviceCert', () => {
   it('errors when the session has no account root', async () => {
     const { sid, token } = await setupAndOpen(false);
     const res = await handleMessage(createRequest('getDeviceCert', { sid, token }));
-    expect(res.error).toMatch(/No account root/);
+    expect(res.error).toMatchObject({ code: 'NOT_SETUP', message: expect.stringMatching(/No account root/) });
   });
 });
 
@@ -196,6 +200,97 @@ describe('verifyContactDevice', () => {
     expect(getResult<{ valid: boolean }>(tampered).valid).toBe(false);
   });
 
+  describe('with peerUserId', () => {
+    const bobRoot = new Uint8Array(16).fill(0xb2);
+    // A device certified by a different master, presented as bob's.
+    const otherRoot = new Uint8Array(16).fill(0xc3);
+    const identityKey = new Uint8Array(33).fill(0x09);
+    const identitySigningKey = new Uint8Array(32).fill(0x04);
+
+    /** Open alice's session with bob on record as `verified`, and a Signal session holding `identityKey`. */
+    async function setupVerifiedBob(): Promise<{ sid: string; token: string }> {
+      const opened = await setupAndOpen(true);
+      await recordContactIdentity(
+        'alice',
+        'bob',
+        {
+          msk: arrayBufferToBase64url(toAb(await masterSigningPublicRaw(bobRoot))),
+          mek: arrayBufferToBase64url(toAb(await masterEncryptionPublicRaw(bobRoot))),
+        },
+        'verified'
+      );
+      const now = Date.now();
+      await putSignalTrustedIdentity({
+        userId: 'alice',
+        peerAddress: 'bob.1',
+        identityPubKey: toAb(identityKey),
+        firstSeenAt: now,
+        updatedAt: now,
+      });
+      return { sid: opened.sid, token: opened.token };
+    }
+
+    async function verify(
+      session: { sid: string; token: string },
+      root: Uint8Array,
+      cert?: Uint8Array
+    ): Promise<{ valid: boolean; revoked?: true; trust?: string }> {
+      const res = await handleMessage(
+        createRequest('verifyContactDevice', {
+          ...session,
+          peerUserId: 'bob',
+          masterSigningPub: toAb(await masterSigningPublicRaw(root)),
+          identityKey: toAb(identityKey),
+          identitySigningKey: toAb(identitySigningKey),
+          cert: toAb(cert ?? (await signDeviceCert(root, { identityKey, identitySigningKey }))),
+        })
+      );
+      return getResult<{ valid: boolean; revoked?: true; trust?: string }>(expectOk(res));
+    }
+
+    it('marks the contact changed for a certified device its Signal session knows', async () => {
+      const session = await setupVerifiedBob();
+      expect(await verify(session, bobRoot)).toEqual({ valid: true, trust: 'verified' });
+      // The cert is valid under its own master, but that master is not bob's on record.
+      expect(await verify(session, otherRoot)).toEqual({ valid: true, trust: 'changed' });
+      expect((await getContactTrust('alice', 'bob'))?.state).toBe('changed');
+
+      const checks = (await getAllAuditEntries()).filter((e) => e.op === 'messaging.contact.verifyDevice');
+      expect(checks.map((e) => e.details?.changed)).toEqual([false, true]);
+      expect(checks[1]?.details).toMatchObject({ peerUserId: 'bob', valid: true, trust: 'changed' });
+    });
+
+    it('leaves the contact verified for a garbage certificate under another master', async () => {
+      const session = await setupVerifiedBob();
+      expect(await verify(session, otherRoot, new Uint8Array(64).fill(0x5a))).toEqual({
+        valid: false,
+        trust: 'verified',
+      });
+      expect((await getContactTrust('alice', 'bob'))?.state).toBe('verified');
+    });
+
+    it('leaves the contact verified for a revoked device under another master', async () => {
+      const session = await setupVerifiedBob();
+      await storeDeviceRoster('alice', nextDeviceRoster(null, 'bob', { revoke: [identityKey] }), new ArrayBuffer(0));
+      expect(await verify(session, otherRoot)).toEqual({ valid: false, revoked: true, trust: 'verified' });
+      expect((await getContactTrust('alice', 'bob'))?.state).toBe('verified');
+    });
+
+    it('leaves the contact verified for a device no Signal session has seen', async () => {
+      const session = await setupVerifiedBob();
+      const now = Date.now();
+      await putSignalTrustedIdentity({
+        userId: 'alice',
+        peerAddress: 'bob.1',
+        identityPubKey: toAb(new Uint8Array(33).fill(0x0a)),
+        firstSeenAt: now,
+        updatedAt: now,
+      });
+      expect(await verify(session, otherRoot)).toEqual({ valid: true, trust: 'verified' });
+      expect((await getContactTrust('alice', 'bob'))?.state).toBe('verified');
+    });
+  });
+
   it('rejects an unauthenticated call (no session)', async () => {
     const res = await handleMessage(
       createRequest('verifyContactDevice', {
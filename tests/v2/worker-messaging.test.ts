@@ -15,12 +15,12 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { IDBFactory } from 'fake-indexeddb';
-import { SessionCipher, SignalProtocolAddress } from '@lukium/libsignal-protocol-typescript';
+import { SessionBuilder, SessionCipher, SignalProtocolAddress } from '@lukium/libsignal-protocol-typescript';
 import type { DeviceType } from '@lukium/libsignal-protocol-typescript';
 
 import { handleMessage } from '@/v2/worker';
-import type { RPCRequest, RPCResponse } from '@/v2/types';
-import { initDB, closeDB } from '@/v2/storage';
+import type { PrekeyBundleDelta, RPCRequest, RPCResponse } from '@/v2/types';
+import { initDB, closeDB, getAllAuditEntries } from '@/v2/storage';
 import { resetAuditLogger } from '@/v2/audit';
 import {
   createSignalProtocolStore,
@@ -28,6 +28,8 @@ import {
   generateSignedPrekey,
   generateOneTimePrekeys,
   getPublicBundle,
+  setPrekeyPolicy,
+  DEFAULT_PREKEY_POLICY,
   type PublicPreKeyBundle,
 } from '@/v2/signal';
 import { buildFanoutBundle, openFanoutBundle } from '@/v2/envelope';
@@ -61,12 +63,14 @@ function bundleToDevice(bundle: PublicPreKeyBundle): DeviceType {
 }
 
 /** Enroll alice (passphrase) and provision her messaging keys via the RPC surface. */
-async function setupAlice(): Promise<PublicPreKeyBundle> {
+async function setupAlice(oneTimePrekeyCount?: number): Promise<PublicPreKeyBundle> {
   const enroll = await handleMessage(
     createRequest('setupPassphrase', { userId: 'alice', passphrase: ALICE_PASS })
   );
   expect(enroll.error).toBeUndefined();
-  const res = await handleMessage(createRequest('setupMessaging', { credentials: aliceCreds }));
+  const res = await handleMessage(
+    createRequest('setupMessaging', { credentials: aliceCreds, ...(oneTimePrekeyCount && { oneTimePrekeyCount }) })
+  );
   expect(res.error).toBeUndefined();
   return getResult<{ bundle: PublicPreKeyBundle }>(res).bundle;
 }
@@ -94,6 +98,7 @@ beforeEach(async () => {
 
 afterEach(() => {
   vi.useRealTimers();
+  setPrekeyPolicy(DEFAULT_PREKEY_POLICY);
   closeDB();
   resetAuditLogger();
 });
@@ -151,7 +156,7 @@ describe('openMessaging', () => {
   it('refuses to open before messaging is set up', async () => {
     await handleMessage(createRequest('setupPassphrase', { userId: 'alice', passphrase: ALICE_PASS }));
     const res = await handleMessage(createRequest('openMessaging', { credentials: aliceCreds }));
-    expect(res.error).toMatch(/not set up/i);
+    expect(res.error).toMatchObject({ code: 'NOT_SETUP', message: expect.stringMatching(/not set up/i) });
   });
 
   it('rejects open with wrong credentials', async () => {
@@ -220,7 +225,7 @@ describe('buildBundle/openBundle round trip (exit criteria)', () => {
         plaintext: utf8.encode('hi').buffer,
       })
     );
-    expect(res.error).toMatch(/deviceBundle is required/i);
+    expect(res.error).toMatchObject({ code: 'VALIDATION', message: expect.stringMatching(/deviceBundle is required/i) });
   });
 });
 
@@ -244,21 +249,21 @@ describe('capability enforcement', () => {
     parts[2] = (sig[0] === 'A' ? 'B' : 'A') + sig.slice(1);
     const res = await encryptAttempt(open.sid, parts.join('.'));
     expect(res.error).toBeDefined();
-    expect(res.error).toMatch(/token|signature/i);
+    expect(res.error).toMatchObject({ code: 'UNAUTHORIZED', message: expect.stringMatching(/token|signature/i) });
   });
 
   it('rejects a malformed token', async () => {
     await setupAlice();
     const open = await openAlice();
     const res = await encryptAttempt(open.sid, 'not-a-jwt');
-    expect(res.error).toMatch(/malformed/i);
+    expect(res.error).toMatchObject({ code: 'UNAUTHORIZED', message: expect.stringMatching(/malformed/i) });
   });
 
   it('rejects an unknown session id', async () => {
     await setupAlice();
     const open = await openAlice();
     const res = await encryptAttempt('00000000-0000-0000-0000-000000000000', open.token);
-    expect(res.error).toMatch(/not found/i);
+    expect(res.error).toMatchObject({ code: 'SESSION_EXPIRED', message: expect.stringMatching(/not found/i) });
   });
 
   it('closeMessaging drops the session', async () => {
@@ -269,7 +274,7 @@ describe('capability enforcement', () => {
     );
     expect(getResult<{ closed: boolean }>(closed).closed).toBe(true);
     const res = await encryptAttempt(open.sid, open.token);
-    expect(res.error).toMatch(/not found/i);
+    expect(res.error).toMatchObject({ code: 'SESSION_EXPIRED', message: expect.stringMatching(/not found/i) });
   });
 
   it('drops the session after the absolute cap', async () => {
@@ -278,7 +283,7 @@ describe('capability enforcement', () => {
     vi.useFakeTimers();
     vi.setSystemTime(Date.now() + 8 * 60 * 60 * 1000 + 1000);
     const res = await encryptAttempt(open.sid, open.token);
-    expect(res.error).toMatch(/expired/i);
+    expect(res.error).toMatchObject({ code: 'SESSION_EXPIRED', message: expect.stringMatching(/expired/i) });
   });
 
   it('drops the session after the idle timeout', async () => {
@@ -287,7 +292,7 @@ describe('capability enforcement', () => {
     vi.useFakeTimers();
     vi.setSystemTime(Date.now() + 16 * 60 * 1000);
     const res = await encryptAttempt(open.sid, open.token);
-    expect(res.error).toMatch(/expired/i);
+    expect(res.error).toMatchObject({ code: 'SESSION_EXPIRED', message: expect.stringMatching(/expired/i) });
   });
 });
 
@@ -314,3 +319,93 @@ describe('rotatePrekeys', () => {
     expect(count.count).toBe(25);
   });
 });
+
+describe('prekey maintenance', () => {
+  async function getPrekeyCount(): Promise<number> {
+    const res = await handleMessage(createRequest('getPrekeyCount', { userId: 'alice' }));
+    return getResult<{ count: number }>(res).count;
+  }
+
+  it('replenishes one-time prekeys on open and returns the delta to publish', async () => {
+    await setupAlice(3);
+
+    const res = await handleMessage(createRequest('openMessaging', { credentials: aliceCreds }));
+
+    expect(res.error).toBeUndefined();
+    const { prekeys } = getResult<{ prekeys?: PrekeyBundleDelta }>(res);
+    expect(prekeys?.signedPreKey).toBeUndefined();
+    expect(prekeys?.oneTimePreKeys.map((pk) => pk.keyId)).toEqual(Array.from({ length: 17 }, (_, i) => i + 4));
+    expect(prekeys?.oneTimePrekeyCount).toBe(20);
+    expect(await getPrekeyCount()).toBe(20);
+
+    const audit = await getAllAuditEntries();
+    expect(audit.find((entry) => entry.op === 'messaging.prekeys')?.details).toMatchObject({
+      trigger: 'open',
+      signedPreKeyId: null,
+      added: 17,
+      remaining: 20,
+    });
+  });
+
+  it('omits prekeys from open when nothing changed', async () => {
+    await setupAlice();
+
+    const open = await openAlice();
+
+    expect(open).not.toHaveProperty('prekeys');
+  });
+
+  it('replenishes after openBundle consumes a one-time prekey', async () => {
+    const aliceBundle = await setupAlice(DEFAULT_PREKEY_POLICY.lowWatermark);
+    const bob = await provisionBobViaLibrary();
+    const open = await openAlice();
+    expect(open).not.toHaveProperty('prekeys');
+
+    // Bob starts a session from alice's published bundle (first contact)
+    const bobStore = createSignalProtocolStore('bob', bob.kek);
+    const aliceAddr = new SignalProtocolAddress('alice', 1);
+    await new SessionBuilder(bobStore, aliceAddr).processPreKey(bundleToDevice(aliceBundle));
+    const bundle = await buildFanoutBundle([new SessionCipher(bobStore, aliceAddr)], utf8.encode('hi alice'));
+
+    const res = await handleMessage(
+      createRequest('openBundle', {
+        sid: open.sid,
+        token: open.token,
+        senders: [{ peerName: 'bob', peerDeviceId: 1 }],
+        bundle: bundle.buffer.slice(0),
+      })
+    );
+
+    expect(res.error).toBeUndefined();
+    const { plaintext, prekeys } = getResult<{ plaintext: ArrayBuffer; prekeys?: PrekeyBundleDelta }>(res);
+    expect(fromUtf8.decode(new Uint8Array(plaintext))).toBe('hi alice');
+    expect(prekeys?.oneTimePreKeys).toHaveLength(DEFAULT_PREKEY_POLICY.targetCount - 9);
+    expect(await getPrekeyCount()).toBe(DEFAULT_PREKEY_POLICY.targetCount);
+  });
+
+  it('rotates the signed prekey on request once it is past the policy age', async () => {
+    const bundle = await setupAlice();
+    const open = await openAlice();
+    setPrekeyPolicy({ ...DEFAULT_PREKEY_POLICY, signedPrekeyMaxAgeMs: 0 });
+
+    const res = await handleMessage(createRequest('maintainPrekeys', { sid: open.sid, token: open.token }));
+
+    expect(res.error).toBeUndefined();
+    const { prekeys } = getResult<{ prekeys: PrekeyBundleDelta }>(res);
+    expect(prekeys.signedPreKey?.keyId).toBe(bundle.signedPreKey.keyId + 1);
+    expect(prekeys.oneTimePreKeys).toEqual([]);
+    const served = getResult<{ bundle: PublicPreKeyBundle }>(
+      await handleMessage(createRequest('getMessagingBundle', { userId: 'alice' }))
+    );
+    expect(served.bundle.signedPreKey.keyId).toBe(prekeys.signedPreKey?.keyId);
+  });
+
+  it('rejects maintainPrekeys without a valid capability', async () => {
+    await setupAlice();
+    const open = await openAlice();
+
+    const res = await handleMessage(createRequest('maintainPrekeys', { sid: open.sid, token: 'a.b.c' }));
+
+    expect(res.error).toBeDefined();
+  });
+});
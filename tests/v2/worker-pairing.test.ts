@@ -16,13 +16,15 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { IDBFactory } from 'fake-indexeddb';
 
 import { handleMessage } from '@/v2/worker';
-import type { RPCRequest, RPCResponse } from '@/v2/types';
+import type { ContactInfo, RPCRequest, RPCResponse } from '@/v2/types';
 import { initDB, closeDB } from '@/v2/storage';
 import { resetAuditLogger } from '@/v2/audit';
 import { arrayBufferToBase64url } from '@/v2/crypto-utils';
 import { mnemonicToAccountRoot } from '@/v2/account-root';
 import { deriveScope, deriveExchangeKey } from '@/v2/pairing';
 import { deriveSelfKey, encryptSelfMessage, decryptSelfMessage } from '@/v2/self-channel';
+import { identityFingerprint } from '@/v2/master-identity';
+import { getContactTrust, recordContactIdentity } from '@/v2/trust-store';
 
 const ALICE_PASS = 'correct-horse-battery-staple';
 const aliceCreds = { method: 'passphrase' as const, userId: 'alice', passphrase: ALICE_PASS };
@@ -89,7 +91,7 @@ describe('setContactSecret / getContactScope / listContacts', () => {
   it('getContactScope errors for an unknown contact', async () => {
     const { sid, token } = await setupAndOpen()
     const res = await handleMessage(createRequest('getContactScope', { sid, token, peerUserId: BOB }))
-    expect(res.error).toMatch(/No pairing secret/)
+    expect(res.error).toMatchObject({ code: 'NOT_FOUND', message: expect.stringMatching(/No pairing secret/) });
   })
 
   it('listContacts returns every contact with its scope', async () => {
@@ -98,10 +100,27 @@ describe('setContactSecret / getContactScope / listContacts', () => {
     await handleMessage(createRequest('setContactSecret', { sid, token, peerUserId: CAROL, secret: secretBuf(0x22) }))
 
     const res = expectOk(await handleMessage(createRequest('listContacts', { sid, token })))
-    const { contacts } = getResult<{ contacts: Array<{ peerUserId: string; scope: string }> }>(res)
+    const { contacts } = getResult<{ contacts: ContactInfo[] }>(res)
     expect(contacts.map((c) => c.peerUserId).sort()).toEqual([BOB, CAROL].sort())
     const bob = contacts.find((c) => c.peerUserId === BOB)!
     expect(bob.scope).toBe(await deriveScope(new Uint8Array(secretBuf(0x11))))
+    // No keys on record for a bare secret: unverified, no fingerprint.
+    expect(bob.trust).toBe('unverified')
+    expect(bob.fingerprint).toBeUndefined()
+  })
+
+  it('listContacts carries the trust-ledger state and key fingerprint', async () => {
+    const { sid, token } = await setupAndOpen()
+    await handleMessage(createRequest('setContactSecret', { sid, token, peerUserId: BOB, secret: secretBuf(0x11) }))
+    const msk = new Uint8Array(32).fill(0x01)
+    const mek = new Uint8Array(32).fill(0x02)
+    const keys = { msk: arrayBufferToBase64url(msk.buffer), mek: arrayBufferToBase64url(mek.buffer) }
+    await recordContactIdentity('alice', BOB, keys, 'verified')
+
+    const res = expectOk(await handleMessage(createRequest('listContacts', { sid, token })))
+    const [bob] = getResult<{ contacts: ContactInfo[] }>(res).contacts
+    expect(bob?.trust).toBe('verified')
+    expect(bob?.fingerprint).toBe(await identityFingerprint(msk, mek))
   })
 })
 
@@ -145,7 +164,7 @@ describe('device-key exchange', () => {
     const res = await handleMessage(
       createRequest('sealDeviceExchange', { sid, token, peerUserId: BOB, payload: utf8.encode('x').buffer })
     )
-    expect(res.error).toMatch(/No pairing secret/)
+    expect(res.error).toMatchObject({ code: 'NOT_FOUND', message: expect.stringMatching(/No pairing secret/) });
   })
 })
 
@@ -235,10 +254,42 @@ describe('contact announcement (self-channel sync)', () => {
     expect(getResult<{ identity?: string }>(applied).identity).toBeUndefined()
   })
 
+  it("carries the contact's trust-ledger entry to the account's other devices", async () => {
+    const { sid, token, mnemonic } = await setupAndOpen(true)
+    const keys = { msk: 'bob-msk', mek: 'bob-mek' }
+    await handleMessage(createRequest('setContactSecret', { sid, token, peerUserId: BOB, secret: secretBuf(0x55) }))
+    await recordContactIdentity('alice', BOB, keys, 'verified')
+
+    const sealed = expectOk(
+      await handleMessage(createRequest('sealContactAnnouncement', { sid, token, peerUserId: BOB }))
+    )
+    const { ciphertext } = getResult<{ ciphertext: ArrayBuffer }>(sealed)
+    const selfKey = await deriveSelfKey(await mnemonicToAccountRoot(mnemonic!))
+    const obj = JSON.parse(fromUtf8.decode(await decryptSelfMessage(selfKey, ciphertext, 'contact-announcement'))) as {
+      trust?: unknown
+    }
+    expect(obj.trust).toEqual({ ...keys, state: 'verified' })
+
+    // A sibling announcing different keys for bob flags the contact changed here.
+    const payload = utf8.encode(
+      JSON.stringify({
+        peerUserId: BOB,
+        secret: arrayBufferToBase64url(secretBuf(0x55)),
+        trust: { msk: 'other-msk', mek: 'other-mek', state: 'verified' },
+      })
+    )
+    const ct = await encryptSelfMessage(selfKey, payload, 'contact-announcement')
+    const applied = expectOk(
+      await handleMessage(createRequest('applyContactAnnouncement', { sid, token, ciphertext: ct.buffer.slice(0) }))
+    )
+    expect(getResult<{ trust?: string }>(applied).trust).toBe('changed')
+    expect(await getContactTrust('alice', BOB)).toMatchObject({ msk: 'other-msk', state: 'changed' })
+  })
+
   it('sealContactAnnouncement errors without an account root (no self-key)', async () => {
     const { sid, token } = await setupAndOpen(false)
     await handleMessage(createRequest('setContactSecret', { sid, token, peerUserId: BOB, secret: secretBuf(0x11) }))
     const res = await handleMessage(createRequest('sealContactAnnouncement', { sid, token, peerUserId: BOB }))
-    expect(res.error).toMatch(/No account root/)
+    expect(res.error).toMatchObject({ code: 'NOT_SETUP', message: expect.stringMatching(/No account root/) });
   })
 })
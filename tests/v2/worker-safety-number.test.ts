@@ -0,0 +1,277 @@
+/**
+ * Safety-number RPC tests (rooms-and-trust §4).
+ *
+ * getSafetyNumber is a plain session-gated read. verifySafetyNumber pauses on a
+ * popup handshake (worker:show-safety); this file drives it like the Connect
+ * ceremony test — answering with a scanned QR (worker:safety-scanned), a manual
+ * verdict (worker:safety-compared), or a cancel. The peer is simulated test-side
+ * from a raw root, so its QR is computed exactly as its own enclave would.
+ *
+ * Runs in happy-dom (default env) for self.postMessage plumbing + native crypto.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+
+import { handleMessage } from '@/v2/worker';
+import type { RPCRequest, RPCResponse } from '@/v2/types';
+import { initDB, closeDB, getAllAuditEntries } from '@/v2/storage';
+import { resetAuditLogger } from '@/v2/audit';
+import { arrayBufferToBase64url, base64urlToArrayBuffer } from '@/v2/crypto-utils';
+import { masterSigningPublicRaw, masterEncryptionPublicRaw } from '@/v2/master-identity';
+import { computeSafetyNumber, type SafetyIdentity, type SafetyNumber } from '@/v2/safety-number';
+import { getContactTrust, recordContactIdentity } from '@/v2/trust-store';
+
+vi.setConfig({ testTimeout: 30000 });
+
+const ALICE_PASS = 'correct-horse-battery-staple-3';
+const aliceCreds = { method: 'passphrase' as const, userId: 'alice', passphrase: ALICE_PASS };
+
+function createRequest(method: string, params: unknown = {}): RPCRequest {
+  return { id: `req-${method}-${Math.random().toString(36).slice(2)}`, method, params };
+}
+function getResult<T>(r: RPCResponse): T {
+  return r.result as T;
+}
+function expectOk(r: RPCResponse): RPCResponse {
+  expect(r.error).toBeUndefined();
+  return r;
+}
+function toAb(u: Uint8Array): ArrayBuffer {
+  const b = new ArrayBuffer(u.byteLength);
+  new Uint8Array(b).set(u);
+  return b;
+}
+
+/** Enroll alice + provision an open messaging session, optionally WITH an account root. */
+async function setupAndOpen(withRoot = true): Promise<{ sid: string; token: string; alice: SafetyIdentity }> {
+  expectOk(await handleMessage(createRequest('setupPassphrase', { userId: 'alice', passphrase: ALICE_PASS })));
+  expectOk(await handleMessage(createRequest('setupMessaging', { credentials: aliceCreds })));
+  if (withRoot) {
+    expectOk(await handleMessage(createRequest('setupAccountRoot', { credentials: aliceCreds })));
+  }
+  const open = expectOk(await handleMessage(createRequest('openMessaging', { credentials: aliceCreds })));
+  const { sid, token } = getResult<{ sid: string; token: string }>(open);
+  if (!withRoot) return { sid, token, alice: { uid: 'alice', msk: new Uint8Array(32), mek: new Uint8Array(32) } };
+  const card = getResult<{ uid: string; msk: string; mek: string }>(
+    expectOk(await handleMessage(createRequest('getIdentityCard', { sid, token })))
+  );
+  const alice = {
+    uid: card.uid,
+    msk: new Uint8Array(base64urlToArrayBuffer(card.msk)),
+    mek: new Uint8Array(base64urlToArrayBuffer(card.mek)),
+  };
+  return { sid, token, alice };
+}
+
+/** A simulated peer identity from a raw root. */
+async function peer(uid: string, fill: number): Promise<SafetyIdentity> {
+  const root = new Uint8Array(16).fill(fill);
+  return { uid, msk: await masterSigningPublicRaw(root), mek: await masterEncryptionPublicRaw(root) };
+}
+
+/** RPC params naming `p` as the peer. */
+function peerParams(sid: string, token: string, p: SafetyIdentity): Record<string, unknown> {
+  return { sid, token, peerUserId: p.uid, masterSigningPub: toAb(p.msk), masterEncryptionPub: toAb(p.mek) };
+}
+
+type ShowSafety = SafetyNumber & { type: string; requestId: string; peerUserId: string; nonce: string };
+
+/**
+ * Call verifySafetyNumber and answer the show-safety handshake with `answer`
+ * (the message fields after type/requestId; the prompt's nonce is echoed unless
+ * `answer` sets its own). Returns the response and what the popup was shown.
+ */
+async function driveVerify(
+  params: Record<string, unknown>,
+  answer: { type: string; text?: string; match?: boolean; nonce?: string }
+): Promise<{ response: RPCResponse; shown: ShowSafety | undefined }> {
+  const spy = vi.spyOn(self, 'postMessage');
+  const req = createRequest('verifySafetyNumber', params);
+  const p = handleMessage(req);
+  let done = false;
+  void p.finally(() => (done = true));
+  let shown: ShowSafety | undefined;
+  for (let i = 0; i < 1500 && !shown && !done; i++) {
+    await new Promise((r) => setTimeout(r, 10));
+    shown = spy.mock.calls.map((c) => c[0] as ShowSafety).find((m) => m?.type === 'worker:show-safety');
+  }
+  if (shown && !done) {
+    self.dispatchEvent(new MessageEvent('message', { data: { nonce: shown.nonce, ...answer, requestId: req.id } }));
+  }
+  const response = await p;
+  spy.mockRestore();
+  return { response, shown };
+}
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  await initDB();
+  resetAuditLogger();
+});
+afterEach(() => {
+  closeDB();
+  resetAuditLogger();
+});
+
+describe('getSafetyNumber', () => {
+  it('returns the pair safety number, matching what the peer computes', async () => {
+    const { sid, token, alice } = await setupAndOpen();
+    const bob = await peer('bob', 0xb2);
+
+    const res = expectOk(await handleMessage(createRequest('getSafetyNumber', peerParams(sid, token, bob))));
+    const safety = getResult<SafetyNumber>(res);
+    expect(safety).toEqual(await computeSafetyNumber(alice, bob));
+
+    const fromBob = await computeSafetyNumber(bob, alice);
+    expect(safety.digits).toBe(fromBob.digits);
+    expect(safety.emoji).toEqual(fromBob.emoji);
+    expect(safety.words).toEqual(fromBob.words);
+  });
+
+  it('refuses our own account as the peer, and a session without an account root', async () => {
+    const { sid, token, alice } = await setupAndOpen();
+    const self_ = await handleMessage(createRequest('getSafetyNumber', peerParams(sid, token, alice)));
+    expect(self_.error).toMatchObject({ code: 'VALIDATION' });
+
+    closeDB();
+    globalThis.indexedDB = new IDBFactory();
+    await initDB();
+    const noRoot = await setupAndOpen(false);
+    const res = await handleMessage(
+      createRequest('getSafetyNumber', peerParams(noRoot.sid, noRoot.token, await peer('bob', 0xb2)))
+    );
+    expect(res.error).toMatchObject({ code: 'NOT_SETUP' });
+  });
+});
+
+describe('verifySafetyNumber', () => {
+  it("verifies when the popup scans the peer's QR for this pair, and audits it", async () => {
+    const { sid, token, alice } = await setupAndOpen();
+    const bob = await peer('bob', 0xb2);
+    const fromBob = await computeSafetyNumber(bob, alice);
+
+    const { response, shown } = await driveVerify(peerParams(sid, token, bob), {
+      type: 'worker:safety-scanned',
+      text: fromBob.qr,
+    });
+    expect(getResult<{ verified: boolean; method: string }>(expectOk(response))).toEqual({
+      verified: true,
+      method: 'qr',
+      trust: 'verified',
+    });
+    // The popup was shown our side: the shared number and OUR QR.
+    expect(shown?.peerUserId).toBe('bob');
+    expect(shown?.digits).toBe(fromBob.digits);
+    expect(shown?.qr).toBe((await computeSafetyNumber(alice, bob)).qr);
+
+    const entry = (await getAllAuditEntries()).find((e) => e.op === 'messaging.safety.verify');
+    expect(entry?.details).toMatchObject({ peerUserId: 'bob', method: 'qr', verified: true, trust: 'verified' });
+  });
+
+  it('does not verify a QR computed over a substituted key', async () => {
+    const { sid, token, alice } = await setupAndOpen();
+    const bob = await peer('bob', 0xb2);
+    const mallory = await peer('bob', 0xc3);
+
+    // We hold mallory's keys under bob's name; the real bob's QR exposes it.
+    const { response } = await driveVerify(peerParams(sid, token, mallory), {
+      type: 'worker:safety-scanned',
+      text: (await computeSafetyNumber(bob, alice)).qr,
+    });
+    expect(getResult<{ verified: boolean }>(expectOk(response)).verified).toBe(false);
+
+    const malformed = await driveVerify(peerParams(sid, token, bob), {
+      type: 'worker:safety-scanned',
+      text: 'ats-sn:1:AAAA',
+    });
+    expect(malformed.response.error).toMatchObject({ code: 'VALIDATION' });
+  });
+
+  it('takes the manual verdict from the popup', async () => {
+    const { sid, token } = await setupAndOpen();
+    const bob = await peer('bob', 0xb2);
+
+    const match = await driveVerify(peerParams(sid, token, bob), { type: 'worker:safety-compared', match: true });
+    expect(getResult<{ verified: boolean; method: string }>(expectOk(match.response))).toEqual({
+      verified: true,
+      method: 'manual',
+      trust: 'verified',
+    });
+    // A later mismatch over the same keys withdraws the verification.
+    const mismatch = await driveVerify(peerParams(sid, token, bob), { type: 'worker:safety-compared', match: false });
+    expect(getResult<{ verified: boolean; method: string }>(expectOk(mismatch.response))).toEqual({
+      verified: false,
+      method: 'manual',
+      trust: 'unverified',
+    });
+  });
+
+  it('ignores a verdict that does not carry the prompt nonce', async () => {
+    const { sid, token } = await setupAndOpen();
+    const spy = vi.spyOn(self, 'postMessage');
+    const req = createRequest('verifySafetyNumber', peerParams(sid, token, await peer('bob', 0xb2)));
+    const p = handleMessage(req);
+    let shown: ShowSafety | undefined;
+    for (let i = 0; i < 1500 && !shown; i++) {
+      await new Promise((r) => setTimeout(r, 10));
+      shown = spy.mock.calls.map((c) => c[0] as ShowSafety).find((m) => m?.type === 'worker:show-safety');
+    }
+    spy.mockRestore();
+
+    // What a parent can send: the RPC id it chose, with a guessed or missing nonce.
+    for (const nonce of [undefined, 'guessed']) {
+      self.dispatchEvent(
+        new MessageEvent('message', { data: { type: 'worker:safety-compared', requestId: req.id, match: true, nonce } })
+      );
+    }
+    await new Promise((r) => setTimeout(r, 50));
+    self.dispatchEvent(
+      new MessageEvent('message', { data: { type: 'worker:safety-cancelled', requestId: req.id, nonce: shown?.nonce } })
+    );
+
+    expect((await p).error).toMatchObject({ code: 'CANCELLED' });
+    expect((await getContactTrust('alice', 'bob'))?.verifiedAt).toBeUndefined();
+  });
+
+  it('rejects with CANCELLED when the popup is closed, and audits nothing', async () => {
+    const { sid, token } = await setupAndOpen();
+    const { response } = await driveVerify(peerParams(sid, token, await peer('bob', 0xb2)), {
+      type: 'worker:safety-cancelled',
+    });
+    expect(response.error).toMatchObject({ code: 'CANCELLED' });
+    expect((await getAllAuditEntries()).some((e) => e.op === 'messaging.safety.verify')).toBe(false);
+  });
+});
+
+describe('trust ledger', () => {
+  it("uses the ledger's keys when none are passed, and records the verdict", async () => {
+    const { sid, token, alice } = await setupAndOpen();
+    const bob = await peer('bob', 0xb2);
+    const missing = await handleMessage(createRequest('getSafetyNumber', { sid, token, peerUserId: 'bob' }));
+    expect(missing.error).toMatchObject({ code: 'NOT_FOUND', message: expect.stringMatching(/No master keys/) });
+
+    await recordContactIdentity('alice', 'bob', {
+      msk: arrayBufferToBase64url(toAb(bob.msk)),
+      mek: arrayBufferToBase64url(toAb(bob.mek)),
+    });
+    const res = expectOk(await handleMessage(createRequest('getSafetyNumber', { sid, token, peerUserId: 'bob' })));
+    expect(getResult<SafetyNumber>(res)).toEqual(await computeSafetyNumber(alice, bob));
+
+    const { response } = await driveVerify(
+      { sid, token, peerUserId: 'bob' },
+      { type: 'worker:safety-scanned', text: (await computeSafetyNumber(bob, alice)).qr }
+    );
+    expect(getResult<{ trust: string }>(expectOk(response)).trust).toBe('verified');
+    expect((await getContactTrust('alice', 'bob'))?.verifiedAt).toBeTypeOf('number');
+  });
+
+  it('rejects only one of the two master keys', async () => {
+    const { sid, token } = await setupAndOpen();
+    const bob = await peer('bob', 0xb2);
+    const res = await handleMessage(
+      createRequest('getSafetyNumber', { sid, token, peerUserId: 'bob', masterSigningPub: toAb(bob.msk) })
+    );
+    expect(res.error).toMatchObject({ code: 'VALIDATION' });
+  });
+});
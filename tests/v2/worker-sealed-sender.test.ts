@@ -0,0 +1,270 @@
+/**
+ * Worker sealed-sender tests (secure-messaging §12.2).
+ *
+ * Alice is enrolled over RPC with an account root; her contact b1 is a
+ * library-modelled Signal device with its own root. Alice seals to b1 and b1
+ * recovers her certificate from the envelope alone; b1 seals to alice and her
+ * enclave names the sender without being told who to expect. A certificate
+ * from the wrong master, one from another master claiming a known contact, a
+ * certificate wrapped around another device's PreKey message, and a device its
+ * roster revokes are all refused.
+ *
+ * Runs in the `node` environment for native X25519/Ed25519.
+ */
+
+// @vitest-environment node
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { SessionBuilder, SessionCipher, SignalProtocolAddress } from '@lukium/libsignal-protocol-typescript';
+import type { DeviceType } from '@lukium/libsignal-protocol-typescript';
+
+import { handleMessage } from '@/v2/worker';
+import type { RPCRequest, RPCResponse, BundleSender } from '@/v2/types';
+import { initDB, closeDB, getAllAuditEntries, getSignalTrustedIdentity } from '@/v2/storage';
+import { resetAuditLogger } from '@/v2/audit';
+import { arrayBufferToBase64url } from '@/v2/crypto-utils';
+import { mnemonicToAccountRoot } from '@/v2/account-root';
+import {
+  deriveMasterSigningKey,
+  masterSigningPublicRaw,
+  masterEncryptionPublicRaw,
+  signDeviceCert,
+  verifyDeviceCert,
+} from '@/v2/master-identity';
+import { nextDeviceRoster, signDeviceRoster } from '@/v2/device-roster';
+import { getContactTrust, recordContactIdentity } from '@/v2/trust-store';
+import {
+  createSignalProtocolStore,
+  generateIdentity,
+  generateSignedPrekey,
+  generateOneTimePrekeys,
+  getPublicBundle,
+  type PublicPreKeyBundle,
+} from '@/v2/signal';
+import {
+  encryptEnvelope,
+  parseBundle,
+  serializeBundle,
+  sealEnvelope,
+  unsealEnvelope,
+  trialDecryptEnvelope,
+  ENVELOPE_TYPE_SEALED,
+  type SenderCertificate,
+} from '@/v2/envelope';
+
+const ALICE_PASS = 'correct-horse-battery-staple';
+const aliceCreds = { method: 'passphrase' as const, userId: 'alice', passphrase: ALICE_PASS };
+const BOB_ROOT = new Uint8Array(16).fill(0xb2);
+const utf8 = new TextEncoder();
+
+function createRequest(method: string, params: unknown = {}): RPCRequest {
+  return { id: `req-${method}-${Math.random().toString(36).slice(2)}`, method, params };
+}
+function getResult<T>(r: RPCResponse): T {
+  return r.result as T;
+}
+function expectOk(r: RPCResponse): RPCResponse {
+  expect(r.error).toBeUndefined();
+  return r;
+}
+function toAb(u: Uint8Array): ArrayBuffer {
+  const b = new ArrayBuffer(u.byteLength);
+  new Uint8Array(b).set(u);
+  return b;
+}
+function bundleToDevice(bundle: PublicPreKeyBundle): DeviceType {
+  const pk = bundle.oneTimePreKeys[0]!;
+  return {
+    identityKey: bundle.identityKey,
+    identitySigningKey: bundle.identitySigningKey,
+    registrationId: bundle.registrationId,
+    signedPreKey: bundle.signedPreKey,
+    preKey: { keyId: pk.keyId, publicKey: pk.publicKey },
+  };
+}
+
+/** Enroll alice with an account root; return an open session and her bundle + root. */
+async function setupAndOpen(): Promise<{ sid: string; token: string; bundle: PublicPreKeyBundle; root: Uint8Array }> {
+  expectOk(await handleMessage(createRequest('setupPassphrase', { userId: 'alice', passphrase: ALICE_PASS })));
+  const setup = expectOk(await handleMessage(createRequest('setupMessaging', { credentials: aliceCreds })));
+  const bundle = getResult<{ bundle: PublicPreKeyBundle }>(setup).bundle;
+  const { mnemonic } = getResult<{ mnemonic: string }>(
+    expectOk(await handleMessage(createRequest('setupAccountRoot', { credentials: aliceCreds })))
+  );
+  const open = expectOk(await handleMessage(createRequest('openMessaging', { credentials: aliceCreds })));
+  const { sid, token } = getResult<{ sid: string; token: string }>(open);
+  return { sid, token, bundle, root: await mnemonicToAccountRoot(mnemonic) };
+}
+
+/** b1: a library device whose certificate is signed by `root` (BOB_ROOT unless forging). */
+async function makeBob(root = BOB_ROOT): Promise<{
+  store: ReturnType<typeof createSignalProtocolStore>;
+  bundle: PublicPreKeyBundle;
+  cert: SenderCertificate;
+}> {
+  const mkek = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  await generateIdentity('b1', mkek);
+  await generateSignedPrekey('b1', mkek, 1);
+  await generateOneTimePrekeys('b1', mkek, 300, 2);
+  const bundle = await getPublicBundle('b1');
+  const keys = {
+    identityKey: new Uint8Array(bundle.identityKey),
+    identitySigningKey: new Uint8Array(bundle.identitySigningKey),
+  };
+  const cert: SenderCertificate = {
+    peerName: 'b1',
+    peerDeviceId: 1,
+    ...keys,
+    masterSigningPub: await masterSigningPublicRaw(BOB_ROOT),
+    deviceCert: await signDeviceCert(root, keys),
+  };
+  return { store: createSignalProtocolStore('b1', mkek), bundle, cert };
+}
+
+/** b1 seals a first message to alice, returning the one-envelope bundle. */
+async function sealedFromBob(
+  bob: Awaited<ReturnType<typeof makeBob>>,
+  aliceBundle: PublicPreKeyBundle
+): Promise<ArrayBuffer> {
+  const aliceAddr = new SignalProtocolAddress('alice', 1);
+  await new SessionBuilder(bob.store, aliceAddr).processPreKey(bundleToDevice(aliceBundle));
+  const inner = await encryptEnvelope(new SessionCipher(bob.store, aliceAddr), utf8.encode('from nobody'));
+  return toAb(serializeBundle([await sealEnvelope(inner, bob.cert, aliceBundle.identityKey)]));
+}
+
+async function recordBob(): Promise<void> {
+  await recordContactIdentity('alice', 'b1', {
+    msk: arrayBufferToBase64url(toAb(await masterSigningPublicRaw(BOB_ROOT))),
+    mek: arrayBufferToBase64url(toAb(await masterEncryptionPublicRaw(BOB_ROOT))),
+  });
+}
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  await initDB();
+  resetAuditLogger();
+});
+afterEach(() => closeDB());
+
+describe('buildBundle (sealedSender)', () => {
+  it('hides alice from the relay; b1 recovers and verifies her certificate', async () => {
+    const { sid, token, root } = await setupAndOpen();
+    const bob = await makeBob();
+    const built = getResult<{ bundle: ArrayBuffer }>(
+      expectOk(
+        await handleMessage(
+          createRequest('buildBundle', {
+            sid,
+            token,
+            recipients: [{ peerName: 'b1', deviceBundle: bundleToDevice(bob.bundle) }],
+            plaintext: utf8.encode('sealed hello').buffer,
+            sealedSender: { deviceId: 2 },
+          })
+        )
+      )
+    );
+    const [envelope] = parseBundle(built.bundle);
+    expect(envelope).toMatchObject({ type: ENVELOPE_TYPE_SEALED });
+    expect(envelope!.tag).toBeUndefined();
+
+    const unsealed = await unsealEnvelope(envelope!, (await bob.store.getIdentityKeyPair())!);
+    expect(unsealed?.sender).toMatchObject({ peerName: 'alice', peerDeviceId: 2 });
+    const { identityKey, identitySigningKey, masterSigningPub, deviceCert } = unsealed!.sender;
+    expect(masterSigningPub).toEqual(await masterSigningPublicRaw(root));
+    expect(await verifyDeviceCert(masterSigningPub, { identityKey, identitySigningKey }, deviceCert)).toBe(true);
+
+    const fromAlice = new SessionCipher(bob.store, new SignalProtocolAddress('alice', 2));
+    const plaintext = await trialDecryptEnvelope(fromAlice, unsealed!.envelope);
+    expect(new TextDecoder().decode(plaintext!)).toBe('sealed hello');
+
+    const builds = (await getAllAuditEntries()).filter((e) => e.op === 'messaging.bundle.build');
+    expect(builds.at(-1)?.details).toMatchObject({ sealed: true });
+  });
+});
+
+describe('openBundle (sealed sender)', () => {
+  it('names the sender without being told who to expect', async () => {
+    const { sid, token, bundle: aliceBundle } = await setupAndOpen();
+    const bob = await makeBob();
+    await recordBob();
+    const bundle = await sealedFromBob(bob, aliceBundle);
+
+    const res = getResult<{ plaintext: ArrayBuffer; sender: BundleSender }>(
+      expectOk(await handleMessage(createRequest('openBundle', { sid, token, bundle })))
+    );
+    expect(new TextDecoder().decode(res.plaintext)).toBe('from nobody');
+    expect(res.sender).toEqual({ peerName: 'b1', peerDeviceId: 1, trust: 'unverified' });
+
+    const opens = (await getAllAuditEntries()).filter((e) => e.op === 'messaging.bundle.open');
+    expect(opens.at(-1)?.details).toMatchObject({ sender: 'b1.1', sealed: true });
+  });
+
+  it('refuses a certificate its master key did not sign', async () => {
+    const { sid, token, bundle: aliceBundle } = await setupAndOpen();
+    const bob = await makeBob(new Uint8Array(16).fill(0xc3));
+    const bundle = await sealedFromBob(bob, aliceBundle);
+    const res = await handleMessage(createRequest('openBundle', { sid, token, bundle }));
+    expect(res.error).toMatchObject({ code: 'VALIDATION', message: 'Sealed sender certificate does not verify' });
+  });
+
+  it("refuses another master's certificate for a known contact and leaves the ledger alone", async () => {
+    const { sid, token, bundle: aliceBundle } = await setupAndOpen();
+    await recordContactIdentity(
+      'alice',
+      'b1',
+      {
+        msk: arrayBufferToBase64url(toAb(await masterSigningPublicRaw(BOB_ROOT))),
+        mek: arrayBufferToBase64url(toAb(await masterEncryptionPublicRaw(BOB_ROOT))),
+      },
+      'verified'
+    );
+    // Mallory mints a self-consistent certificate that names b1
+    const malloryRoot = new Uint8Array(16).fill(0xd4);
+    const mallory = await makeBob(malloryRoot);
+    mallory.cert.masterSigningPub = await masterSigningPublicRaw(malloryRoot);
+
+    const bundle = await sealedFromBob(mallory, aliceBundle);
+    const res = await handleMessage(createRequest('openBundle', { sid, token, bundle }));
+    expect(res.error).toMatchObject({
+      code: 'VALIDATION',
+      message: "Sealed sender master key does not match the contact's",
+    });
+    expect(await getContactTrust('alice', 'b1')).toMatchObject({ state: 'verified' });
+  });
+
+  it("refuses b1's certificate around another device's first message and records no identity", async () => {
+    const { sid, token, bundle: aliceBundle } = await setupAndOpen();
+    const bob = await makeBob();
+    await recordBob();
+    // Mallory's own device writes the PreKey message; b1's valid certificate seals it
+    const mkek = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await generateIdentity('m1', mkek);
+    const mallory = { ...bob, store: createSignalProtocolStore('m1', mkek) };
+
+    const bundle = await sealedFromBob(mallory, aliceBundle);
+    const res = await handleMessage(createRequest('openBundle', { sid, token, bundle }));
+    expect(res.error).toMatchObject({ code: 'VALIDATION', message: 'Sealed sender identity does not match its session' });
+    expect(await getSignalTrustedIdentity('alice', 'b1.1')).toBeNull();
+
+    // b1's genuine first message still opens afterwards
+    const genuine = await sealedFromBob(bob, aliceBundle);
+    expectOk(await handleMessage(createRequest('openBundle', { sid, token, bundle: genuine })));
+    expect(await getSignalTrustedIdentity('alice', 'b1.1')).not.toBeNull();
+  });
+
+  it("refuses a device b1's roster revokes", async () => {
+    const { sid, token, bundle: aliceBundle } = await setupAndOpen();
+    const bob = await makeBob();
+    await recordBob();
+    const roster = nextDeviceRoster(null, 'b1', { revoke: [bob.cert.identityKey] });
+    const signed = await signDeviceRoster(roster, await deriveMasterSigningKey(BOB_ROOT));
+    expectOk(
+      await handleMessage(createRequest('importContactRoster', { sid, token, peerUserId: 'b1', roster: toAb(signed) }))
+    );
+
+    const bundle = await sealedFromBob(bob, aliceBundle);
+    const res = await handleMessage(createRequest('openBundle', { sid, token, bundle }));
+    expect(res.error).toMatchObject({ code: 'VALIDATION', message: 'Sealed sender device is revoked' });
+  });
+});
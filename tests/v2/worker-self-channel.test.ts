@@ -80,7 +80,7 @@ describe('getSelfScope', () => {
   it('errors when the session has no account root', async () => {
     const { sid, token } = await setupAndOpen(false);
     const res = await handleMessage(createRequest('getSelfScope', { sid, token }));
-    expect(res.error).toMatch(/No account root/);
+    expect(res.error).toMatchObject({ code: 'NOT_SETUP', message: expect.stringMatching(/No account root/) });
   });
 
   it('a session opened BEFORE the root existed has no self-channel', async () => {
@@ -89,7 +89,7 @@ describe('getSelfScope', () => {
     const { sid, token } = await setupAndOpen(false);
     expectOk(await handleMessage(createRequest('setupAccountRoot', { credentials: aliceCreds })));
     const stale = await handleMessage(createRequest('getSelfScope', { sid, token }));
-    expect(stale.error).toMatch(/No account root/);
+    expect(stale.error).toMatchObject({ code: 'NOT_SETUP', message: expect.stringMatching(/No account root/) });
 
     const reopen = expectOk(await handleMessage(createRequest('openMessaging', { credentials: aliceCreds })));
     const fresh = getResult<{ sid: string; token: string }>(reopen);
@@ -169,6 +169,6 @@ describe('sealSelfMessage / openSelfMessage', () => {
     const res = await handleMessage(
       createRequest('sealSelfMessage', { sid, token, payload: utf8.encode('x').buffer })
     );
-    expect(res.error).toMatch(/No account root/);
+    expect(res.error).toMatchObject({ code: 'NOT_SETUP', message: expect.stringMatching(/No account root/) });
   });
 });
@@ -15,9 +15,24 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { IDBFactory } from 'fake-indexeddb';
 import { handleMessage } from '@/v2/worker';
-import type { RPCRequest, RPCResponse, AuthCredentials, VAPIDPayload } from '@/v2/types';
-import { initDB, closeDB } from '@/v2/storage';
+import type {
+  RPCRequest,
+  RPCResponse,
+  AuthCredentials,
+  VAPIDPayload,
+  AuditEntryV2,
+  AuditLogExport,
+  PassphraseConfigV2,
+} from '@/v2/types';
+import { initDB, closeDB, getMeta, putMeta } from '@/v2/storage';
 import { resetAuditLogger } from '@/v2/audit';
+import {
+  DEFAULT_PASSPHRASE_CALIBRATION,
+  setPassphraseCalibrationPolicy,
+  setupPassphrase as enrollPassphrase,
+} from '@/v2/unlock';
+import { verifyAuditExport } from '@/v2/audit-verify';
+import { KeyHelper } from '@lukium/libsignal-protocol-typescript';
 
 // ============================================================================
 // Test Setup
@@ -94,7 +109,7 @@ describe('RPC message handling', () => {
 
     expect(response.id).toBe(request.id);
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('Unknown RPC method');
+    expect(response.error).toMatchObject({ code: 'UNKNOWN_METHOD', message: expect.stringContaining('Unknown RPC method') });
   });
 
   it('should include requestId in response', async () => {
@@ -119,6 +134,23 @@ describe('RPC message handling', () => {
     expect(response.error).toBeDefined();
     expect(response.result).toBeUndefined();
   });
+
+  it('should refuse a request whose id is already in flight, and accept it again once done', async () => {
+    const first = handleMessage(createRequest('isSetup', { userId: 'alice' }, 'req-same'));
+    const second = await handleMessage(createRequest('isSetup', { userId: 'alice' }, 'req-same'));
+
+    expect(second.error).toMatchObject({ code: 'CONFLICT', message: 'Request id req-same is already in flight' });
+    expect((await first).error).toBeUndefined();
+    expect((await handleMessage(createRequest('isSetup', { userId: 'alice' }, 'req-same'))).error).toBeUndefined();
+  });
+
+  it('should answer heartbeats relayed by the client', () => {
+    const postMessageSpy = vi.spyOn(self, 'postMessage');
+    self.dispatchEvent(new MessageEvent('message', { data: { type: 'kms:ping', nonce: 'n1' } }));
+
+    expect(postMessageSpy).toHaveBeenCalledWith({ type: 'kms:pong', nonce: 'n1' });
+    postMessageSpy.mockRestore();
+  });
 });
 
 // ============================================================================
@@ -149,7 +181,7 @@ describe('setupPassphrase', () => {
     const response = await handleMessage(request);
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('at least 8 characters');
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('at least 8 characters') });
   });
 
   it('should reject empty passphrase', async () => {
@@ -158,6 +190,55 @@ describe('setupPassphrase', () => {
 
     expect(response.error).toBeDefined();
   });
+
+  it('should refuse an account that is already enrolled and keep its enrollment', async () => {
+    const userId = 'enrolled@example.com';
+    await handleMessage(createRequest('setupPassphrase', { userId, passphrase: 'original-pass-123' }));
+    const kid = getResult<{ kid: string }>(await handleMessage(createRequest('getVAPIDKid', {}))).kid;
+
+    const credentialId = new Uint8Array([1, 2, 3, 4]).buffer;
+    const responses = await Promise.all([
+      handleMessage(createRequest('setupPassphrase', { userId, passphrase: 'attacker-pass-123' })),
+      handleMessage(
+        createRequest('setupPasskeyPRF', {
+          userId,
+          credentialId,
+          prfOutput: crypto.getRandomValues(new Uint8Array(32)).buffer,
+        })
+      ),
+      handleMessage(createRequest('setupPasskeyGate', { userId, credentialId })),
+    ]);
+    for (const response of responses) {
+      expect(response.error).toMatchObject({ code: 'CONFLICT', message: expect.stringContaining('addEnrollment') });
+    }
+
+    // The original passphrase still unlocks and no key was added
+    const lease = await handleMessage(
+      createRequest('createLease', {
+        userId,
+        ttlHours: 1,
+        credentials: { ...createPassphraseCredentials('original-pass-123'), userId },
+      })
+    );
+    expect(lease.error).toBeUndefined();
+    expect(getResult<{ kid: string }>(await handleMessage(createRequest('getVAPIDKid', {}))).kid).toBe(kid);
+  });
+
+  it('should reject a Master Secret passed in params', async () => {
+    const response = await handleMessage(
+      createRequest('setupPassphrase', {
+        userId: 'chosen-ms@example.com',
+        passphrase: 'chosen-ms-pass-123',
+        existingMS: new Uint8Array(32),
+      })
+    );
+
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('existingMS') });
+    expect(
+      getResult<{ isSetup: boolean }>(await handleMessage(createRequest('isSetup', { userId: 'chosen-ms@example.com' })))
+        .isSetup
+    ).toBe(false);
+  });
 });
 
 describe('setupPasskeyPRF', () => {
@@ -191,7 +272,7 @@ describe('setupPasskeyPRF', () => {
     const response = await handleMessage(request);
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('credentialId required');
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('credentialId required') });
   });
 
   it('should reject invalid prfOutput size', async () => {
@@ -202,7 +283,7 @@ describe('setupPasskeyPRF', () => {
     const response = await handleMessage(request);
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('32 bytes');
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('32 bytes') });
   });
 });
 
@@ -569,7 +650,7 @@ describe('regenerateVAPID', () => {
     // Try to get old key - should fail
     const afterRegenResponse = await handleMessage(createRequest('getPublicKey', { kid: initialKid }));
     expect(afterRegenResponse.error).toBeDefined();
-    expect(afterRegenResponse.error).toContain('not found');
+    expect(afterRegenResponse.error).toMatchObject({ code: 'NOT_FOUND', message: expect.stringContaining('not found') });
   });
 
   it('should create audit log entry for regeneration', async () => {
@@ -752,6 +833,254 @@ describe('regenerateVAPID', () => {
   });
 });
 
+describe('VAPID key rotation', () => {
+  const passphrase = 'rotate-vapid-test-123';
+  const credentials = createPassphraseCredentials(passphrase);
+  let oldKid: string;
+  let oldLeaseId: string;
+
+  function subscription(eid: string): Record<string, unknown> {
+    return {
+      endpoint: `https://fcm.googleapis.com/fcm/send/${eid}`,
+      expirationTime: null,
+      keys: { p256dh: 'key1', auth: 'key2' },
+      eid,
+      createdAt: Date.now(),
+    };
+  }
+
+  function jwtKid(jwt: string): string {
+    const header = JSON.parse(
+      new TextDecoder().decode(base64urlToArrayBuffer(jwt.split('.')[0]!))
+    ) as { kid: string };
+    return header.kid;
+  }
+
+  async function createLease(): Promise<string> {
+    const response = await handleMessage(
+      createRequest('createLease', { userId: 'test@example.com', ttlHours: 24, credentials })
+    );
+    expect(response.error).toBeUndefined();
+    return getResult<{ leaseId: string }>(response).leaseId;
+  }
+
+  async function auditOps(): Promise<Array<{ op: string; details?: Record<string, unknown> }>> {
+    const response = await handleMessage(createRequest('getAuditLog', {}));
+    return getResult<{ entries: Array<{ op: string; details?: Record<string, unknown> }> }>(response)
+      .entries;
+  }
+
+  beforeEach(async () => {
+    const setupResponse = await handleMessage(
+      createRequest('setupPassphrase', { userId: 'test@example.com', passphrase })
+    );
+    oldKid = getResult<{ vapidKid: string }>(setupResponse).vapidKid;
+    await handleMessage(
+      createRequest('setPushSubscription', { userId: 'test@example.com', subscription: subscription('old-device') })
+    );
+    oldLeaseId = await createLease();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should keep existing leases issuing under their pinned kid during the grace period', async () => {
+    const rotateResponse = await handleMessage(
+      createRequest('rotateVAPID', { credentials, graceHours: 24 })
+    );
+    expect(rotateResponse.error).toBeUndefined();
+    const rotated = getResult<{ kid: string; retiring: Array<{ kid: string; retireAt: number }> }>(
+      rotateResponse
+    );
+    expect(rotated.kid).not.toBe(oldKid);
+    expect(rotated.retiring).toHaveLength(1);
+    expect(rotated.retiring[0]!.kid).toBe(oldKid);
+
+    // Old lease still signs, with the old kid in the JWT header
+    const issueResponse = await handleMessage(createRequest('issueVAPIDJWT', { leaseId: oldLeaseId }));
+    expect(issueResponse.error).toBeUndefined();
+    expect(jwtKid(getResult<{ jwt: string }>(issueResponse).jwt)).toBe(oldKid);
+
+    const verifyResult = getResult<{ valid: boolean; retireAt?: number }>(
+      await handleMessage(createRequest('verifyLease', { leaseId: oldLeaseId }))
+    );
+    expect(verifyResult.valid).toBe(true);
+    expect(verifyResult.retireAt).toBe(rotated.retiring[0]!.retireAt);
+
+    // New leases and getVAPIDKid move to the new key
+    const newLeaseId = await createLease();
+    const newVerify = getResult<{ kid: string; retireAt?: number }>(
+      await handleMessage(createRequest('verifyLease', { leaseId: newLeaseId }))
+    );
+    expect(newVerify.kid).toBe(rotated.kid);
+    expect(newVerify.retireAt).toBeUndefined();
+    expect(getResult<{ kid: string }>(await handleMessage(createRequest('getVAPIDKid', {}))).kid).toBe(
+      rotated.kid
+    );
+
+    const { keys } = getResult<{ keys: Array<{ kid: string; status: string }> }>(
+      await handleMessage(createRequest('listVAPIDKeys', {}))
+    );
+    expect(keys.map((k) => [k.kid, k.status])).toEqual([
+      [rotated.kid, 'current'],
+      [oldKid, 'retiring'],
+    ]);
+  });
+
+  it('should keep the push subscription on the retiring key', async () => {
+    const rotated = getResult<{ kid: string }>(
+      await handleMessage(createRequest('rotateVAPID', { credentials }))
+    );
+
+    // Existing subscriptions stay bound to the retiring key; new ones bind to the new key
+    await handleMessage(
+      createRequest('setPushSubscription', { userId: 'test@example.com', subscription: subscription('new-device') })
+    );
+    const { subscriptions } = getResult<{ subscriptions: Array<{ eid: string; kid: string }> }>(
+      await handleMessage(createRequest('listPushSubscriptions', { userId: 'test@example.com' }))
+    );
+    expect(subscriptions.map((s) => [s.eid, s.kid])).toEqual([
+      ['old-device', oldKid],
+      ['new-device', rotated.kid],
+    ]);
+
+    // Without an eid, each lease targets the only endpoint on its own key
+    const newLeaseId = await createLease();
+    const newJwt = await handleMessage(createRequest('issueVAPIDJWT', { leaseId: newLeaseId }));
+    expect(jwtKid(getResult<{ jwt: string }>(newJwt).jwt)).toBe(rotated.kid);
+
+    const oldJwt = await handleMessage(createRequest('issueVAPIDJWT', { leaseId: oldLeaseId }));
+    expect(oldJwt.error).toBeUndefined();
+
+    const crossKey = await handleMessage(
+      createRequest('issueVAPIDJWT', { leaseId: oldLeaseId, eid: 'new-device' })
+    );
+    expect(crossKey.error).toMatchObject({ code: 'WRONG_KEY' });
+  });
+
+  it('should expire leases and delete the key once the grace period ends', async () => {
+    await handleMessage(createRequest('rotateVAPID', { credentials, graceHours: 1 }));
+
+    const later = Date.now() + 2 * 3600 * 1000;
+    vi.spyOn(Date, 'now').mockReturnValue(later);
+
+    const issueResponse = await handleMessage(createRequest('issueVAPIDJWT', { leaseId: oldLeaseId }));
+    expect(issueResponse.error).toMatchObject({ code: 'NOT_FOUND', message: expect.stringContaining('Lease not found') });
+
+    const { keys } = getResult<{ keys: Array<{ kid: string }> }>(
+      await handleMessage(createRequest('listVAPIDKeys', {}))
+    );
+    expect(keys.map((k) => k.kid)).not.toContain(oldKid);
+
+    // Subscriptions bound to the deleted key go with it
+    const { subscriptions } = getResult<{ subscriptions: unknown[] }>(
+      await handleMessage(createRequest('listPushSubscriptions', { userId: 'test@example.com' }))
+    );
+    expect(subscriptions).toEqual([]);
+
+    const ops = await auditOps();
+    const expireEntry = ops.find((e) => e.op === 'expire-lease');
+    expect(expireEntry?.details).toMatchObject({ leaseId: oldLeaseId, reason: 'vapid-key-retired' });
+    const retireEntry = ops.find((e) => e.op === 'retire-vapid');
+    expect(retireEntry?.details).toMatchObject({ trigger: 'grace-period-ended', expired: [oldLeaseId] });
+
+    const chain = getResult<{ valid: boolean }>(await handleMessage(createRequest('verifyAuditChain', {})));
+    expect(chain.valid).toBe(true);
+  });
+
+  it('should treat leases on a retired key as wrong-key in verifyLease', async () => {
+    await handleMessage(createRequest('rotateVAPID', { credentials, graceHours: 1 }));
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 3600 * 1000);
+
+    // verifyLease is read-only: it reports the retirement but does not sweep
+    const result = getResult<{ valid: boolean; reason: string }>(
+      await handleMessage(createRequest('verifyLease', { leaseId: oldLeaseId }))
+    );
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe('wrong-key');
+  });
+
+  it('should cap lease extension at the retiring key retireAt', async () => {
+    const rotated = getResult<{ retiring: Array<{ retireAt: number }> }>(
+      await handleMessage(createRequest('rotateVAPID', { credentials, graceHours: 48 }))
+    );
+
+    const response = await handleMessage(
+      createRequest('extendLeases', { leaseIds: [oldLeaseId], userId: 'test@example.com' })
+    );
+    const result = getResult<{ extended: number; results: Array<{ result?: { exp: number } }> }>(response);
+    expect(result.extended).toBe(1);
+    expect(result.results[0]!.result!.exp).toBe(rotated.retiring[0]!.retireAt);
+  });
+
+  it('should reject grace periods outside [1, 720] hours', async () => {
+    const zero = await handleMessage(createRequest('rotateVAPID', { credentials, graceHours: 0 }));
+    expect(zero.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('1 <= graceHours <= 720') });
+
+    const tooLong = await handleMessage(createRequest('rotateVAPID', { credentials, graceHours: 721 }));
+    expect(tooLong.error).toMatchObject({ code: 'POLICY_DENIED', message: expect.stringContaining('Policy violation (maxTtl)') });
+  });
+
+  it('should migrate leases to the current key on early retirement', async () => {
+    const rotated = getResult<{ kid: string }>(
+      await handleMessage(createRequest('rotateVAPID', { credentials }))
+    );
+    await handleMessage(
+      createRequest('setPushSubscription', { userId: 'test@example.com', subscription: subscription('new-device') })
+    );
+
+    const retireResponse = await handleMessage(
+      createRequest('retireVAPIDKey', { kid: oldKid, migrateLeases: true, credentials })
+    );
+    expect(retireResponse.error).toBeUndefined();
+    expect(getResult<{ migrated: string[]; expired: string[] }>(retireResponse)).toEqual({
+      kid: oldKid,
+      migrated: [oldLeaseId],
+      expired: [],
+    });
+
+    // Same lease, now signing with the new key
+    const issueResponse = await handleMessage(createRequest('issueVAPIDJWT', { leaseId: oldLeaseId }));
+    expect(issueResponse.error).toBeUndefined();
+    expect(jwtKid(getResult<{ jwt: string }>(issueResponse).jwt)).toBe(rotated.kid);
+
+    const ops = await auditOps();
+    expect(ops.find((e) => e.op === 'migrate-lease')?.details).toMatchObject({
+      leaseId: oldLeaseId,
+      fromKid: oldKid,
+      toKid: rotated.kid,
+    });
+    expect(ops.find((e) => e.op === 'retire-vapid')?.details).toMatchObject({ trigger: 'manual' });
+  });
+
+  it('should expire leases on early retirement without migration', async () => {
+    await handleMessage(createRequest('rotateVAPID', { credentials }));
+
+    const retireResponse = await handleMessage(
+      createRequest('retireVAPIDKey', { kid: oldKid, credentials })
+    );
+    expect(getResult<{ expired: string[] }>(retireResponse).expired).toEqual([oldLeaseId]);
+
+    const verify = getResult<{ reason: string }>(
+      await handleMessage(createRequest('verifyLease', { leaseId: oldLeaseId }))
+    );
+    expect(verify.reason).toBe('not-found');
+  });
+
+  it('should refuse to retire the current key', async () => {
+    const response = await handleMessage(createRequest('retireVAPIDKey', { kid: oldKid, credentials }));
+    expect(response.error).toMatchObject({ code: 'CONFLICT', message: expect.stringContaining('Cannot retire the current VAPID key') });
+  });
+
+  it('should refuse to retire an unknown key', async () => {
+    const response = await handleMessage(
+      createRequest('retireVAPIDKey', { kid: 'no-such-kid', credentials })
+    );
+    expect(response.error).toMatchObject({ code: 'NOT_FOUND', message: expect.stringContaining('No VAPID key found with kid: no-such-kid') });
+  });
+});
+
 describe('signJWT', () => {
   let kid: string;
   const passphrase = 'jwt-signing-passphrase-123';
@@ -814,7 +1143,7 @@ describe('signJWT', () => {
     const response = await handleMessage(request);
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('aud');
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('aud') });
   });
 
   it('should reject expired exp', async () => {
@@ -834,7 +1163,7 @@ describe('signJWT', () => {
     const response = await handleMessage(request);
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('future');
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('future') });
   });
 
   it('should reject exp > 24 hours (RFC 8292)', async () => {
@@ -854,7 +1183,7 @@ describe('signJWT', () => {
     const response = await handleMessage(request);
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('24 hours');
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('24 hours') });
   });
 });
 
@@ -902,7 +1231,7 @@ describe('createLease', () => {
     const response = await handleMessage(request);
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('720');
+    expect(response.error).toMatchObject({ code: 'POLICY_DENIED', message: expect.stringContaining('720') });
   });
 
   it('should reject ttlHours <= 0', async () => {
@@ -1302,6 +1631,7 @@ describe('issueVAPIDJWT', () => {
     // Set push subscription
     await handleMessage(
       createRequest('setPushSubscription', {
+        userId: 'user-123',
         subscription: {
           endpoint: 'https://fcm.googleapis.com/fcm/send/test-subscription-1',
           expirationTime: null,
@@ -1353,7 +1683,7 @@ describe('issueVAPIDJWT', () => {
     const response = await handleMessage(request);
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('not found');
+    expect(response.error).toMatchObject({ code: 'NOT_FOUND', message: expect.stringContaining('not found') });
   });
 
   it('should reject unauthorized endpoint', async () => {
@@ -1402,8 +1732,139 @@ describe('issueVAPIDJWT', () => {
     });
 
     const response2 = await handleMessage(request2);
-    expect(response2.error).toBeDefined();
-    expect(response2.error).toContain('Quota exceeded');
+    expect(response2.error).toMatchObject({
+      code: 'QUOTA_EXCEEDED',
+      quota: 'tokensPerHour',
+      message: expect.stringContaining('Quota exceeded') as string,
+    });
+  });
+
+  it('should apply per-lease quotas from createLease', async () => {
+    const leaseResponse = await handleMessage(
+      createRequest('createLease', {
+        userId: 'user-123',
+        ttlHours: 1,
+        credentials: createPassphraseCredentials(passphrase),
+        quotas: { sendsPerMinute: 1, burstSends: 1 },
+      })
+    );
+    const lease = getResult<{ leaseId: string; quotas: Record<string, number> }>(leaseResponse);
+    expect(lease.quotas).toEqual({
+      tokensPerHour: 100,
+      sendsPerMinute: 1,
+      burstSends: 1,
+      sendsPerMinutePerEid: 5,
+    });
+
+    const response1 = await handleMessage(createRequest('issueVAPIDJWT', { leaseId: lease.leaseId }));
+    expect(response1.error).toBeUndefined();
+
+    // Bucket is empty; one token refills in a minute
+    const response2 = await handleMessage(createRequest('issueVAPIDJWT', { leaseId: lease.leaseId }));
+    const error = response2.error as { code: string; quota: string; retryAfterMs: number };
+    expect(error.code).toBe('QUOTA_EXCEEDED');
+    expect(error.quota).toBe('sendsPerMinute');
+    expect(error.retryAfterMs).toBeGreaterThan(55_000);
+    expect(error.retryAfterMs).toBeLessThanOrEqual(60_000);
+  });
+
+  it('should enforce sends per minute per endpoint', async () => {
+    const leaseResponse = await handleMessage(
+      createRequest('createLease', {
+        userId: 'user-123',
+        ttlHours: 1,
+        credentials: createPassphraseCredentials(passphrase),
+        quotas: { sendsPerMinutePerEid: 1 },
+      })
+    );
+    const newLeaseId = getResult<{ leaseId: string }>(leaseResponse).leaseId;
+
+    const response1 = await handleMessage(createRequest('issueVAPIDJWT', { leaseId: newLeaseId }));
+    expect(response1.error).toBeUndefined();
+
+    const response2 = await handleMessage(createRequest('issueVAPIDJWT', { leaseId: newLeaseId }));
+    expect(response2.error).toMatchObject({ code: 'QUOTA_EXCEEDED', quota: 'sendsPerMinutePerEid' });
+  });
+
+  it('should target the chosen endpoint and count its sends separately', async () => {
+    await handleMessage(
+      createRequest('setPushSubscription', {
+        userId: 'user-123',
+        subscription: {
+          endpoint: 'https://updates.push.services.mozilla.com/wpush/v2/phone',
+          expirationTime: null,
+          keys: { p256dh: 'test-p256dh-key', auth: 'test-auth-key' },
+          eid: 'phone',
+          createdAt: Date.now(),
+        },
+      })
+    );
+    const leaseResponse = await handleMessage(
+      createRequest('createLease', {
+        userId: 'user-123',
+        ttlHours: 1,
+        credentials: createPassphraseCredentials(passphrase),
+        quotas: { sendsPerMinutePerEid: 1 },
+      })
+    );
+    const newLeaseId = getResult<{ leaseId: string }>(leaseResponse).leaseId;
+    const payloadOf = (response: { result?: unknown }): { aud: string; eid: string } =>
+      JSON.parse(
+        new TextDecoder().decode(base64urlToArrayBuffer(getResult<{ jwt: string }>(response).jwt.split('.')[1]!))
+      ) as { aud: string; eid: string };
+
+    const ambiguous = await handleMessage(createRequest('issueVAPIDJWT', { leaseId: newLeaseId }));
+    expect(ambiguous.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('eid required') });
+
+    const unknown = await handleMessage(createRequest('issueVAPIDJWT', { leaseId: newLeaseId, eid: 'tablet' }));
+    expect(unknown.error).toMatchObject({ code: 'NOT_FOUND' });
+
+    const laptop = await handleMessage(createRequest('issueVAPIDJWT', { leaseId: newLeaseId, eid: 'ep-1' }));
+    expect(payloadOf(laptop)).toMatchObject({ aud: 'https://fcm.googleapis.com', eid: 'ep-1' });
+    const laptopAgain = await handleMessage(createRequest('issueVAPIDJWT', { leaseId: newLeaseId, eid: 'ep-1' }));
+    expect(laptopAgain.error).toMatchObject({ code: 'QUOTA_EXCEEDED', quota: 'sendsPerMinutePerEid' });
+
+    const phone = await handleMessage(createRequest('issueVAPIDJWTs', { leaseId: newLeaseId, eid: 'phone', count: 1 }));
+    expect(phone.error).toBeUndefined();
+    expect(payloadOf({ result: getResult<unknown[]>(phone)[0] })).toMatchObject({
+      aud: 'https://updates.push.services.mozilla.com',
+      eid: 'phone',
+    });
+  });
+
+  it('should reject a batch larger than the quota without a retry hint', async () => {
+    const leaseResponse = await handleMessage(
+      createRequest('createLease', {
+        userId: 'user-123',
+        ttlHours: 1,
+        credentials: createPassphraseCredentials(passphrase),
+        quotas: { tokensPerHour: 2 },
+      })
+    );
+    const newLeaseId = getResult<{ leaseId: string }>(leaseResponse).leaseId;
+
+    const response = await handleMessage(createRequest('issueVAPIDJWTs', { leaseId: newLeaseId, count: 3 }));
+    expect(response.error).toMatchObject({
+      code: 'QUOTA_EXCEEDED',
+      quota: 'tokensPerHour',
+      retryAfterMs: null,
+    });
+
+    // Nothing was charged: a batch that fits is still admitted
+    const response2 = await handleMessage(createRequest('issueVAPIDJWTs', { leaseId: newLeaseId, count: 2 }));
+    expect(response2.error).toBeUndefined();
+  });
+
+  it('should reject invalid lease quotas', async () => {
+    const response = await handleMessage(
+      createRequest('createLease', {
+        userId: 'user-123',
+        ttlHours: 1,
+        credentials: createPassphraseCredentials(passphrase),
+        quotas: { burstSends: 0 },
+      })
+    );
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('quotas.burstSends') });
   });
 
   it('should reject JWT issuance after VAPID regeneration', async () => {
@@ -1433,8 +1894,8 @@ describe('issueVAPIDJWT', () => {
 
     const response2 = await handleMessage(request2);
     expect(response2.error).toBeDefined();
-    expect(response2.error).toContain('invalidated');
-    expect(response2.error).toContain('wrong-key');
+    expect(response2.error).toMatchObject({ code: 'WRONG_KEY', message: expect.stringContaining('invalidated') });
+    expect(response2.error).toMatchObject({ code: 'WRONG_KEY', message: expect.stringContaining('wrong-key') });
   });
 });
 
@@ -1461,6 +1922,7 @@ describe('issueVAPIDJWTs', () => {
     // Set push subscription (required for JWT issuance)
     await handleMessage(
       createRequest('setPushSubscription', {
+        userId: 'test-user',
         subscription: {
           endpoint: 'https://fcm.googleapis.com/fcm/send/batch-jwt-test',
           expirationTime: null,
@@ -1527,7 +1989,7 @@ describe('issueVAPIDJWTs', () => {
     });
     const response0 = await handleMessage(request0);
     expect(response0.error).toBeDefined();
-    expect(response0.error).toContain('count must be an integer between 1 and 10');
+    expect(response0.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('count must be an integer between 1 and 10') });
 
     // Test count = 11 (invalid)
     const request11 = createRequest('issueVAPIDJWTs', {
@@ -1538,7 +2000,8 @@ describe('issueVAPIDJWTs', () => {
     });
     const response11 = await handleMessage(request11);
     expect(response11.error).toBeDefined();
-    expect(response11.error).toContain('count must be an integer between 1 and 10');
+    // Upper bound is enforced by the operation policy before the handler runs
+    expect(response11.error).toMatchObject({ code: 'POLICY_DENIED', message: expect.stringContaining('count exceeds maximum of 10') });
 
     // Test count = 1 (valid)
     const request1 = createRequest('issueVAPIDJWTs', {
@@ -1681,7 +2144,7 @@ describe('getPasskeyUnlockParams', () => {
     const response = await handleMessage(request);
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('No passkey enrollment found');
+    expect(response.error).toMatchObject({ code: 'NOT_SETUP', message: expect.stringContaining('No passkey enrollment found') });
   });
 
   it('should return the appSalt and credentialId from the stored PRF config', async () => {
@@ -1713,6 +2176,22 @@ describe('getPasskeyUnlockParams', () => {
     // credentialId round-trips back to the stored bytes.
     expect(result.credentialId).toBe(arrayBufferToBase64url(credentialId));
   });
+
+  it('should return the appSalt the PWA evaluated PRF with at setup', async () => {
+    const appSalt = crypto.getRandomValues(new Uint8Array(32));
+    await handleMessage(
+      createRequest('setupPasskeyPRF', {
+        userId: 'test@example.com',
+        credentialId: new Uint8Array([1, 2, 3, 4]).buffer,
+        prfOutput: crypto.getRandomValues(new Uint8Array(32)).buffer,
+        appSalt: appSalt.buffer,
+      })
+    );
+
+    const response = await handleMessage(createRequest('getPasskeyUnlockParams', { userId: 'test@example.com' }));
+
+    expect(getResult<{ appSalt?: string }>(response).appSalt).toBe(arrayBufferToBase64url(appSalt.buffer));
+  });
 });
 
 describe('getMessagingUnlockOptions', () => {
@@ -1739,12 +2218,11 @@ describe('getMessagingUnlockOptions', () => {
     const credentialId = new Uint8Array([1, 2, 3, 4, 5]).buffer;
     const prfOutput = crypto.getRandomValues(new Uint8Array(32)).buffer;
 
-    await handleMessage(
-      createRequest('setupPassphrase', { userId: 'test@example.com', passphrase: 'unlock-options-123' })
-    );
     await handleMessage(
       createRequest('setupPasskeyPRF', { userId: 'test@example.com', credentialId, prfOutput })
     );
+    // Only the flags matter here: store a second enrollment directly
+    await enrollPassphrase('test@example.com', 'unlock-options-123');
 
     const response = await handleMessage(
       createRequest('getMessagingUnlockOptions', { userId: 'test@example.com' })
@@ -1797,6 +2275,37 @@ describe('verifyAuditChain', () => {
   });
 });
 
+describe('exportAuditLog', () => {
+  it('should return an export that verifies offline against the UAK', async () => {
+    await handleMessage(createRequest('setupPassphrase', { userId: 'test@example.com', passphrase: 'export-test-123' }));
+    await handleMessage(
+      createRequest('generateVAPID', {
+        credentials: createPassphraseCredentials('export-test-123'),
+      })
+    );
+
+    const response = await handleMessage(
+      createRequest('exportAuditLog', { credentials: createPassphraseCredentials('export-test-123'), fromSeqNum: 2 })
+    );
+
+    const bundle = JSON.parse(JSON.stringify(getResult<AuditLogExport>(response))) as AuditLogExport;
+    const { publicKey } = getResult<{ publicKey: string }>(await handleMessage(createRequest('getAuditPublicKey')));
+    expect(bundle.manifest).toMatchObject({ userId: 'test@example.com', firstSeqNum: 2, uakPublicKey: publicKey });
+    expect(bundle.entries.at(-1)).toMatchObject({ op: 'export-audit-log', details: { fromSeqNum: 2 } });
+    expect(await verifyAuditExport(bundle, { uakPublicKey: publicKey })).toMatchObject({ valid: true, errors: [] });
+  });
+
+  it('should reject wrong credentials', async () => {
+    await handleMessage(createRequest('setupPassphrase', { userId: 'test@example.com', passphrase: 'export-test-123' }));
+
+    const response = await handleMessage(
+      createRequest('exportAuditLog', { credentials: createPassphraseCredentials('wrong-passphrase') })
+    );
+
+    expect(response.error).toMatchObject({ code: 'UNLOCK_FAILED' });
+  });
+});
+
 describe('getPublicKey', () => {
   let kid: string;
 
@@ -1826,7 +2335,7 @@ describe('getPublicKey', () => {
     const response = await handleMessage(request);
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('not found');
+    expect(response.error).toMatchObject({ code: 'NOT_FOUND', message: expect.stringContaining('not found') });
   });
 });
 
@@ -1849,8 +2358,57 @@ describe('getAuditPublicKey', () => {
 // Management Operations Tests
 // ============================================================================
 
+/**
+ * Call resetKMS and answer the worker's popup confirmation (worker:confirm-reset)
+ * with `action`. `forge` first sends a confirmation without the prompt's nonce,
+ * then cancels. Returns the RPC response and the prompt the worker posted, if any.
+ */
+async function resetWithConfirmation(
+  userId: string,
+  passphrase: string,
+  action: 'confirm' | 'cancel' | 'forge'
+): Promise<{ response: RPCResponse; prompt: { type: string; userId: string; nonce: string } | undefined }> {
+  const postSpy = vi.spyOn(self, 'postMessage');
+  const req = createRequest('resetKMS', { userId, credentials: { ...createPassphraseCredentials(passphrase), userId } });
+  const responsePromise = handleMessage(req);
+
+  let settled = false;
+  void responsePromise.finally(() => {
+    settled = true;
+  });
+
+  // Wait for the prompt before replying: the unlock (PBKDF2) runs first.
+  let prompt: { type: string; userId: string; nonce: string } | undefined;
+  for (let i = 0; i < 1500 && !prompt && !settled; i++) {
+    await new Promise((r) => setTimeout(r, 10));
+    prompt = postSpy.mock.calls
+      .map((c) => c[0] as { type: string; userId: string; nonce: string })
+      .find((m) => m?.type === 'worker:confirm-reset');
+  }
+  if (prompt && !settled) {
+    if (action === 'forge') {
+      // What a parent can send: the RPC id it chose, without the prompt's nonce.
+      self.dispatchEvent(new MessageEvent('message', { data: { type: 'worker:reset-confirmed', requestId: req.id } }));
+      await new Promise((r) => setTimeout(r, 50));
+    }
+    self.dispatchEvent(
+      new MessageEvent('message', {
+        data: {
+          type: action === 'confirm' ? 'worker:reset-confirmed' : 'worker:reset-cancelled',
+          requestId: req.id,
+          nonce: prompt.nonce,
+        },
+      })
+    );
+  }
+
+  const response = await responsePromise;
+  postSpy.mockRestore();
+  return { response, prompt };
+}
+
 describe('resetKMS', () => {
-  it('should reset KMS successfully', async () => {
+  it('should reset KMS after fresh auth and popup confirmation', async () => {
     // Setup first
     await handleMessage(createRequest('setupPassphrase', { userId: 'test@example.com', passphrase: 'reset-test-123' }));
 
@@ -1859,9 +2417,13 @@ describe('resetKMS', () => {
     expect(getResult<{ isSetup: boolean }>(setupCheck).isSetup).toBe(true);
 
     // Reset
-    const resetRequest = createRequest('resetKMS', { userId: 'test@example.com' });
-    const resetResponse = await handleMessage(resetRequest);
+    const { response: resetResponse, prompt } = await resetWithConfirmation(
+      'test@example.com',
+      'reset-test-123',
+      'confirm'
+    );
 
+    expect(prompt?.userId).toBe('test@example.com');
     expect(resetResponse.error).toBeUndefined();
     expect(getResult<{ success: boolean }>(resetResponse).success).toBe(true);
 
@@ -1876,36 +2438,350 @@ describe('resetKMS', () => {
     expect(getResult<{ isSetup: boolean }>(await handleMessage(createRequest('isSetup', { userId }))).isSetup).toBe(true);
 
     // Reset clears all stores on the open connection (no deleteDatabase that could block).
-    const reset1 = await handleMessage(createRequest('resetKMS', { userId }));
+    const reset1 = (await resetWithConfirmation(userId, 'cycle-pass-123', 'confirm')).response;
     expect(reset1.error).toBeUndefined();
     expect(getResult<{ success: boolean }>(reset1).success).toBe(true);
 
     // The DB is immediately usable afterward — reads succeed and reflect the wipe — and a
-    // second reset also succeeds (would hang/throw if the first reset had wedged the DB).
+    // second setup + reset cycle also succeeds (would hang/throw if the first reset had
+    // wedged the DB).
     expect(getResult<{ isSetup: boolean }>(await handleMessage(createRequest('isSetup', { userId }))).isSetup).toBe(false);
-    const reset2 = await handleMessage(createRequest('resetKMS', { userId }));
+    await handleMessage(createRequest('setupPassphrase', { userId, passphrase: 'cycle-pass-456' }));
+    const reset2 = (await resetWithConfirmation(userId, 'cycle-pass-456', 'confirm')).response;
     expect(reset2.error).toBeUndefined();
     expect(getResult<{ success: boolean }>(reset2).success).toBe(true);
   });
-});
-
-describe('removeEnrollment', () => {
-  it('should remove enrollment successfully', async () => {
-    const passphrase = 'remove-enrollment-123';
-    await handleMessage(createRequest('setupPassphrase', { userId: 'test@example.com', passphrase }));
 
-    const request = createRequest('removeEnrollment', {
-      enrollmentId: 'enrollment:passphrase:v2',
-      credentials: createPassphraseCredentials(passphrase),
-    });
+  it('should reject reset without credentials', async () => {
+    const userId = 'nocreds@example.com';
+    await handleMessage(createRequest('setupPassphrase', { userId, passphrase: 'nocreds-pass-123' }));
 
-    const response = await handleMessage(request);
+    const response = await handleMessage(createRequest('resetKMS', { userId }));
 
-    expect(response.error).toBeUndefined();
-    expect(getResult<{ success: boolean }>(response).success).toBe(true);
+    expect(response.error).toMatchObject({ code: 'POLICY_DENIED', message: expect.stringContaining('fresh AuthCredentials required') });
+    expect(getResult<{ isSetup: boolean }>(await handleMessage(createRequest('isSetup', { userId }))).isSetup).toBe(true);
   });
 
-  it('should require valid credentials', async () => {
+  it('should reject wrong credentials before prompting', async () => {
+    const userId = 'wrongcreds@example.com';
+    await handleMessage(createRequest('setupPassphrase', { userId, passphrase: 'right-pass-123' }));
+
+    const { response, prompt } = await resetWithConfirmation(userId, 'wrong-pass-123', 'confirm');
+
+    expect(response.error).toBeDefined();
+    expect(prompt).toBeUndefined();
+    expect(getResult<{ isSetup: boolean }>(await handleMessage(createRequest('isSetup', { userId }))).isSetup).toBe(true);
+  });
+
+  it('should keep all data when the user cancels the confirmation', async () => {
+    const userId = 'cancel@example.com';
+    await handleMessage(createRequest('setupPassphrase', { userId, passphrase: 'cancel-pass-123' }));
+    const before = getResult<{ entries: AuditEntryV2[] }>(await handleMessage(createRequest('getAuditLog', {})));
+
+    const { response, prompt } = await resetWithConfirmation(userId, 'cancel-pass-123', 'cancel');
+
+    expect(prompt).toBeDefined();
+    expect(response.error).toMatchObject({ code: 'CANCELLED', message: expect.stringContaining('KMS reset was cancelled') });
+    expect(getResult<{ isSetup: boolean }>(await handleMessage(createRequest('isSetup', { userId }))).isSetup).toBe(true);
+    const after = getResult<{ entries: AuditEntryV2[] }>(await handleMessage(createRequest('getAuditLog', {})));
+    expect(after.entries).toHaveLength(before.entries.length);
+  });
+
+  it('should ignore a confirmation that does not carry the prompt nonce', async () => {
+    const userId = 'forged@example.com';
+    await handleMessage(createRequest('setupPassphrase', { userId, passphrase: 'forged-pass-123' }));
+
+    const { response, prompt } = await resetWithConfirmation(userId, 'forged-pass-123', 'forge');
+
+    expect(prompt?.nonce).toEqual(expect.any(String));
+    expect(response.error).toMatchObject({ code: 'CANCELLED' });
+    expect(getResult<{ isSetup: boolean }>(await handleMessage(createRequest('isSetup', { userId }))).isSetup).toBe(true);
+  });
+
+  it('should return a final KIAK-signed entry and link the new chain to it', async () => {
+    const userId = 'receipt@example.com';
+    await handleMessage(createRequest('setupPassphrase', { userId, passphrase: 'receipt-pass-123' }));
+
+    const { response } = await resetWithConfirmation(userId, 'receipt-pass-123', 'confirm');
+    const { auditEntry } = getResult<{ success: true; auditEntry: AuditEntryV2 }>(response);
+
+    expect(auditEntry.op).toBe('reset');
+    expect(auditEntry.signer).toBe('KIAK');
+    expect(auditEntry.userId).toBe(userId);
+    expect(auditEntry.seqNum).toBeGreaterThan(1);
+
+    // The old chain is gone; the new one opens with kms-init pointing at the receipt.
+    const { entries } = getResult<{ entries: AuditEntryV2[] }>(await handleMessage(createRequest('getAuditLog', {})));
+    expect(entries).toHaveLength(1);
+    expect(entries[0]!.op).toBe('kms-init');
+    expect(entries[0]!.details?.previousChainHash).toBe(auditEntry.chainHash);
+
+    const verify = await handleMessage(createRequest('verifyAuditChain', {}));
+    expect(getResult<{ valid: boolean }>(verify).valid).toBe(true);
+  });
+});
+
+/**
+ * Call exportBackup / importBackup and answer the worker's popup confirmation
+ * (worker:confirm-backup) with `action`; `forge` works as in
+ * {@link resetWithConfirmation}. Returns the RPC response and the prompt the
+ * worker posted, if any.
+ */
+async function backupWithConfirmation(
+  method: 'exportBackup' | 'importBackup',
+  params: Record<string, unknown>,
+  action: 'confirm' | 'cancel' | 'forge'
+): Promise<{
+  response: RPCResponse;
+  prompt: { type: string; userId: string; direction: string; nonce: string } | undefined;
+}> {
+  const postSpy = vi.spyOn(self, 'postMessage');
+  const req = createRequest(method, params);
+  const responsePromise = handleMessage(req);
+
+  let settled = false;
+  void responsePromise.finally(() => {
+    settled = true;
+  });
+
+  let prompt: { type: string; userId: string; direction: string; nonce: string } | undefined;
+  for (let i = 0; i < 1500 && !prompt && !settled; i++) {
+    await new Promise((r) => setTimeout(r, 10));
+    prompt = postSpy.mock.calls
+      .map((c) => c[0] as { type: string; userId: string; direction: string; nonce: string })
+      .find((m) => m?.type === 'worker:confirm-backup');
+  }
+  if (prompt && !settled) {
+    if (action === 'forge') {
+      self.dispatchEvent(new MessageEvent('message', { data: { type: 'worker:backup-confirmed', requestId: req.id } }));
+      await new Promise((r) => setTimeout(r, 50));
+    }
+    self.dispatchEvent(
+      new MessageEvent('message', {
+        data: {
+          type: action === 'confirm' ? 'worker:backup-confirmed' : 'worker:backup-cancelled',
+          requestId: req.id,
+          nonce: prompt.nonce,
+        },
+      })
+    );
+  }
+
+  const response = await responsePromise;
+  postSpy.mockRestore();
+  return { response, prompt };
+}
+
+describe('exportBackup / importBackup', () => {
+  const userId = 'test@example.com';
+  const passphrase = 'backup-pass-123';
+  const credentials = createPassphraseCredentials(passphrase);
+  let vapidKid: string;
+  let leaseId: string;
+
+  async function exportBackup(): Promise<string> {
+    const { response } = await backupWithConfirmation('exportBackup', { userId, credentials }, 'confirm');
+    expect(response.error).toBeUndefined();
+    return getResult<{ backup: string }>(response).backup;
+  }
+
+  async function isSetup(): Promise<boolean> {
+    return getResult<{ isSetup: boolean }>(await handleMessage(createRequest('isSetup', { userId }))).isSetup;
+  }
+
+  beforeEach(async () => {
+    const setupResponse = await handleMessage(createRequest('setupPassphrase', { userId, passphrase }));
+    vapidKid = getResult<{ vapidKid: string }>(setupResponse).vapidKid;
+    await handleMessage(
+      createRequest('setPushSubscription', {
+        userId,
+        subscription: {
+          endpoint: 'https://fcm.googleapis.com/fcm/send/backup-device',
+          expirationTime: null,
+          keys: { p256dh: 'key1', auth: 'key2' },
+          eid: 'backup-device',
+          createdAt: Date.now(),
+        },
+      })
+    );
+    const leaseResponse = await handleMessage(createRequest('createLease', { userId, ttlHours: 24, credentials }));
+    leaseId = getResult<{ leaseId: string }>(leaseResponse).leaseId;
+  });
+
+  it('should restore the account into a reset KMS', async () => {
+    const { response: exportResponse, prompt } = await backupWithConfirmation(
+      'exportBackup',
+      { userId, credentials },
+      'confirm'
+    );
+    expect(prompt).toMatchObject({ userId, direction: 'export' });
+    const { backup, auditEntry: exportEntry } = getResult<{ backup: string; auditEntry: AuditEntryV2 }>(
+      exportResponse
+    );
+    expect(exportEntry.op).toBe('export-backup');
+    expect(backup).not.toContain(passphrase);
+
+    await resetWithConfirmation(userId, passphrase, 'confirm');
+    expect(await isSetup()).toBe(false);
+
+    const { response, prompt: importPrompt } = await backupWithConfirmation(
+      'importBackup',
+      { userId, backup, credentials },
+      'confirm'
+    );
+    expect(response.error).toBeUndefined();
+    expect(importPrompt).toMatchObject({ userId, direction: 'import' });
+    const { auditEntry } = getResult<{ success: true; auditEntry: AuditEntryV2 }>(response);
+    expect(auditEntry.op).toBe('import-backup');
+    expect(auditEntry.previousHash).toBe(exportEntry.chainHash);
+
+    expect(await isSetup()).toBe(true);
+    const kidResponse = await handleMessage(createRequest('getVAPIDKid', {}));
+    expect(getResult<{ kid: string }>(kidResponse).kid).toBe(vapidKid);
+
+    // Leases keep signing: SessionKEK re-derived, LAK re-sealed under the new LRK
+    const jwtResponse = await handleMessage(createRequest('issueVAPIDJWT', { leaseId }));
+    expect(jwtResponse.error).toBeUndefined();
+
+    const verification = getResult<{ valid: boolean; errors: string[] }>(
+      await handleMessage(createRequest('verifyAuditChain', {}))
+    );
+    expect(verification.errors).toEqual([]);
+    expect(verification.valid).toBe(true);
+  });
+
+  it('should offer the archive\'s unlock methods to the popup', async () => {
+    const backup = await exportBackup();
+    await resetWithConfirmation(userId, passphrase, 'confirm');
+
+    const options = getResult<{ hasPassphrase: boolean; hasPasskeyPrf: boolean }>(
+      await handleMessage(createRequest('getMessagingUnlockOptions', { userId, backup }))
+    );
+    expect(options.hasPassphrase).toBe(true);
+    expect(options.hasPasskeyPrf).toBe(false);
+  });
+
+  it('should reject credentials that do not open the archive', async () => {
+    const backup = await exportBackup();
+    await resetWithConfirmation(userId, passphrase, 'confirm');
+
+    const { response, prompt } = await backupWithConfirmation(
+      'importBackup',
+      { userId, backup, credentials: createPassphraseCredentials('wrong-pass-123') },
+      'confirm'
+    );
+    expect(response.error).toBeDefined();
+    expect(prompt).toBeUndefined();
+    expect(await isSetup()).toBe(false);
+  });
+
+  it('should reject an archive of another account', async () => {
+    const backup = await exportBackup();
+
+    const { response } = await backupWithConfirmation(
+      'importBackup',
+      { userId: 'other@example.com', backup, credentials: { ...credentials, userId: 'other@example.com' } },
+      'confirm'
+    );
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('Backup belongs to another account') });
+  });
+
+  it('should refuse to downgrade to an older archive', async () => {
+    const backup = await exportBackup();
+    await handleMessage(createRequest('createLease', { userId, ttlHours: 24, credentials }));
+
+    const { response, prompt } = await backupWithConfirmation(
+      'importBackup',
+      { userId, backup, credentials },
+      'confirm'
+    );
+    expect(response.error).toMatchObject({ code: 'CONFLICT', message: expect.stringContaining('refusing to downgrade') });
+    expect(prompt).toBeUndefined();
+  });
+
+  it('should refuse an archive whose chain does not continue the local one unless told to overwrite', async () => {
+    const forkPoint = await exportBackup();
+    await handleMessage(createRequest('createLease', { userId, ttlHours: 24, credentials }));
+    const longerFork = await exportBackup();
+
+    // Local chain: forkPoint + import-backup. The longer archive went another way after forkPoint.
+    await resetWithConfirmation(userId, passphrase, 'confirm');
+    const restored = await backupWithConfirmation('importBackup', { userId, backup: forkPoint, credentials }, 'confirm');
+    expect(restored.response.error).toBeUndefined();
+    const localHead = getResult<{ auditEntry: AuditEntryV2 }>(restored.response).auditEntry;
+
+    const refused = await backupWithConfirmation('importBackup', { userId, backup: longerFork, credentials }, 'confirm');
+    expect(refused.response.error).toMatchObject({
+      code: 'CONFLICT',
+      message: expect.stringContaining('different audit chain'),
+    });
+    expect(refused.prompt).toBeUndefined();
+    const { entries } = getResult<{ entries: AuditEntryV2[] }>(await handleMessage(createRequest('getAuditLog', {})));
+    expect(entries.at(-1)!.chainHash).toBe(localHead.chainHash);
+
+    const { response } = await backupWithConfirmation(
+      'importBackup',
+      { userId, backup: longerFork, credentials, overwrite: true },
+      'confirm'
+    );
+    expect(response.error).toBeUndefined();
+    const { auditEntry } = getResult<{ auditEntry: AuditEntryV2 }>(response);
+    expect(auditEntry.details).toMatchObject({ replacedChainHash: localHead.chainHash });
+  });
+
+  it('should keep all data when the user cancels the import', async () => {
+    const backup = await exportBackup();
+    const before = getResult<{ entries: AuditEntryV2[] }>(await handleMessage(createRequest('getAuditLog', {})));
+
+    const { response, prompt } = await backupWithConfirmation(
+      'importBackup',
+      { userId, backup, credentials },
+      'cancel'
+    );
+    expect(prompt).toBeDefined();
+    expect(response.error).toMatchObject({ code: 'CANCELLED', message: expect.stringContaining('Backup was cancelled') });
+    const after = getResult<{ entries: AuditEntryV2[] }>(await handleMessage(createRequest('getAuditLog', {})));
+    expect(after.entries).toHaveLength(before.entries.length);
+  });
+
+  it('should ignore an export confirmation that does not carry the prompt nonce', async () => {
+    const { response, prompt } = await backupWithConfirmation('exportBackup', { userId, credentials }, 'forge');
+
+    expect(prompt?.nonce).toEqual(expect.any(String));
+    expect(response.error).toMatchObject({ code: 'CANCELLED', message: expect.stringContaining('Backup was cancelled') });
+  });
+
+  it('should reject an altered archive', async () => {
+    const archive = JSON.parse(await exportBackup()) as { createdAt: number };
+    archive.createdAt += 1;
+    await resetWithConfirmation(userId, passphrase, 'confirm');
+
+    const { response } = await backupWithConfirmation(
+      'importBackup',
+      { userId, backup: JSON.stringify(archive), credentials },
+      'confirm'
+    );
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('Backup decryption failed') });
+  });
+});
+
+describe('removeEnrollment', () => {
+  it('should remove enrollment successfully', async () => {
+    const passphrase = 'remove-enrollment-123';
+    await handleMessage(createRequest('setupPassphrase', { userId: 'test@example.com', passphrase }));
+
+    const request = createRequest('removeEnrollment', {
+      enrollmentId: 'enrollment:passphrase:v2',
+      credentials: createPassphraseCredentials(passphrase),
+    });
+
+    const response = await handleMessage(request);
+
+    expect(response.error).toBeUndefined();
+    expect(getResult<{ success: boolean }>(response).success).toBe(true);
+  });
+
+  it('should require valid credentials', async () => {
     await handleMessage(createRequest('setupPassphrase', { userId: 'test@example.com', passphrase: 'correct-pass-123' }));
 
     const request = createRequest('removeEnrollment', {
@@ -1919,6 +2795,401 @@ describe('removeEnrollment', () => {
   });
 });
 
+describe('changePassphrase', () => {
+  const userId = 'test@example.com';
+  const oldPassphrase = 'old-passphrase-123';
+  const newPassphrase = 'new-passphrase-456';
+
+  beforeEach(async () => {
+    await handleMessage(createRequest('setupPassphrase', { userId, passphrase: oldPassphrase }));
+  });
+
+  it('should re-wrap the same Master Secret under the new passphrase', async () => {
+    const kidBefore = getResult<{ kid: string }>(await handleMessage(createRequest('getVAPIDKid', {}))).kid;
+    await handleMessage(
+      createRequest('setPushSubscription', {
+        userId,
+        subscription: {
+          endpoint: 'https://fcm.googleapis.com/fcm/send/change-device',
+          expirationTime: null,
+          keys: { p256dh: 'key1', auth: 'key2' },
+          eid: 'change-device',
+          createdAt: Date.now(),
+        },
+      })
+    );
+    const leaseId = getResult<{ leaseId: string }>(
+      await handleMessage(
+        createRequest('createLease', { userId, ttlHours: 24, credentials: createPassphraseCredentials(oldPassphrase) })
+      )
+    ).leaseId;
+
+    const response = await handleMessage(
+      createRequest('changePassphrase', { newPassphrase, credentials: createPassphraseCredentials(oldPassphrase) })
+    );
+    expect(response.error).toBeUndefined();
+    expect(getResult<{ algorithm: string; iterations: number }>(response)).toMatchObject({
+      algorithm: 'PBKDF2-HMAC-SHA256',
+      iterations: expect.any(Number),
+    });
+
+    // The old passphrase no longer unlocks; the new one unlocks the same keys
+    const withOld = await handleMessage(
+      createRequest('generateVAPID', { credentials: createPassphraseCredentials(oldPassphrase) })
+    );
+    expect(withOld.error).toBeDefined();
+    const withNew = await handleMessage(
+      createRequest('createLease', { userId, ttlHours: 24, credentials: createPassphraseCredentials(newPassphrase) })
+    );
+    expect(withNew.error).toBeUndefined();
+    expect(getResult<{ kid: string }>(await handleMessage(createRequest('getVAPIDKid', {}))).kid).toBe(kidBefore);
+
+    // Existing leases keep signing
+    expect((await handleMessage(createRequest('issueVAPIDJWT', { leaseId }))).error).toBeUndefined();
+
+    const { entries } = getResult<{ entries: AuditEntryV2[] }>(await handleMessage(createRequest('getAuditLog', {})));
+    const entry = entries.find((e) => e.op === 'change-passphrase');
+    expect(entry?.userId).toBe(userId);
+    expect(entry?.details).toMatchObject({ method: 'passphrase' });
+  });
+
+  it('should reject a wrong current passphrase', async () => {
+    const response = await handleMessage(
+      createRequest('changePassphrase', { newPassphrase, credentials: createPassphraseCredentials('wrong-pass-123') })
+    );
+    expect(response.error).toBeDefined();
+
+    const withOld = await handleMessage(
+      createRequest('createLease', { userId, ttlHours: 24, credentials: createPassphraseCredentials(oldPassphrase) })
+    );
+    expect(withOld.error).toBeUndefined();
+  });
+
+  it('should require passphrase credentials', async () => {
+    const response = await handleMessage(
+      createRequest('changePassphrase', {
+        newPassphrase,
+        credentials: { method: 'passkey-prf', prfOutput: new ArrayBuffer(32), userId },
+      })
+    );
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('changePassphrase requires the current passphrase') });
+  });
+
+  it('should reject a short new passphrase', async () => {
+    const response = await handleMessage(
+      createRequest('changePassphrase', { newPassphrase: 'short', credentials: createPassphraseCredentials(oldPassphrase) })
+    );
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('Passphrase must be at least 8 characters') });
+  });
+});
+
+describe('rotateMasterSecret', () => {
+  const userId = 'test@example.com';
+  const passphrase = 'rotate-passphrase-123';
+  const credentials = createPassphraseCredentials(passphrase);
+  let vapidKid: string;
+  let leaseId: string;
+
+  beforeEach(async () => {
+    vapidKid = getResult<{ vapidKid: string }>(
+      await handleMessage(createRequest('setupPassphrase', { userId, passphrase }))
+    ).vapidKid;
+    await handleMessage(
+      createRequest('setPushSubscription', {
+        userId,
+        subscription: {
+          endpoint: 'https://fcm.googleapis.com/fcm/send/rotate-device',
+          expirationTime: null,
+          keys: { p256dh: 'key1', auth: 'key2' },
+          eid: 'rotate-device',
+          createdAt: Date.now(),
+        },
+      })
+    );
+    leaseId = getResult<{ leaseId: string }>(
+      await handleMessage(createRequest('createLease', { userId, ttlHours: 24, credentials }))
+    ).leaseId;
+  });
+
+  it('should re-wrap every dependent key under the new Master Secret', async () => {
+    expect((await handleMessage(createRequest('setupAccountRoot', { credentials }))).error).toBeUndefined();
+    const uakBefore = getResult<{ publicKey: string }>(
+      await handleMessage(createRequest('getAuditPublicKey', {}))
+    ).publicKey;
+
+    const response = await handleMessage(createRequest('rotateMasterSecret', { credentials }));
+    expect(response.error).toBeUndefined();
+    const { auditEntry, rewrapped } = getResult<{
+      auditEntry: AuditEntryV2;
+      rewrapped: { enrollments: number; keys: number; blobs: number; leases: number };
+    }>(response);
+    expect(auditEntry.op).toBe('rotate-master-secret');
+    expect(auditEntry.signer).toBe('UAK');
+    expect(auditEntry.sigNew).toBeDefined();
+    expect(auditEntry.details).toMatchObject({ previousUakPublicKey: uakBefore });
+    expect(rewrapped).toMatchObject({ enrollments: 1, keys: 1, leases: 1 });
+    expect(rewrapped.blobs).toBeGreaterThan(0);
+
+    // Same passphrase, same VAPID key, new audit key
+    expect(getResult<{ kid: string }>(await handleMessage(createRequest('getVAPIDKid', {}))).kid).toBe(vapidKid);
+    const newLease = await handleMessage(createRequest('createLease', { userId, ttlHours: 24, credentials }));
+    expect(newLease.error).toBeUndefined();
+    expect(
+      getResult<{ publicKey: string }>(await handleMessage(createRequest('getAuditPublicKey', {}))).publicKey
+    ).toBe(auditEntry.details?.uakPublicKey);
+
+    // The account root opens under the new key
+    const throwaway = await KeyHelper.generateIdentityKeyPair();
+    const wrapped = await handleMessage(
+      createRequest('wrapAccountRootForDevice', { credentials, recipientIdentityPubKey: throwaway.pubKey })
+    );
+    expect(wrapped.error).toBeUndefined();
+
+    // The existing lease keeps signing, and the chain verifies across the rotation
+    expect((await handleMessage(createRequest('issueVAPIDJWT', { leaseId }))).error).toBeUndefined();
+    const chain = getResult<{ valid: boolean; errors: string[] }>(
+      await handleMessage(createRequest('verifyAuditChain', {}))
+    );
+    expect(chain.errors).toEqual([]);
+    expect(chain.valid).toBe(true);
+  });
+
+  it('should hold other requests until the rotation has committed', async () => {
+    const rotation = handleMessage(createRequest('rotateMasterSecret', { credentials }));
+    const regenerated = handleMessage(createRequest('regenerateVAPID', { credentials }));
+
+    expect((await rotation).error).toBeUndefined();
+    const { kid } = getResult<{ kid: string }>(await regenerated);
+    const { entries } = getResult<{ entries: AuditEntryV2[] }>(await handleMessage(createRequest('getAuditLog', {})));
+    const ops = entries.map((e) => e.op);
+    expect(ops.indexOf('rotate-master-secret')).toBeLessThan(ops.indexOf('regenerate-vapid'));
+
+    // The new VAPID key was wrapped under the new MKEK, so it still unwraps
+    const payload: VAPIDPayload = {
+      aud: 'https://fcm.googleapis.com',
+      sub: 'mailto:test@example.com',
+      exp: Math.floor(Date.now() / 1000) + 600,
+      jti: 'after-rotation',
+    };
+    const signed = await handleMessage(createRequest('signJWT', { kid, payload, credentials }));
+    expect(signed.error).toBeUndefined();
+  });
+
+  it('should leave everything in place when unlock fails', async () => {
+    const response = await handleMessage(
+      createRequest('rotateMasterSecret', { credentials: createPassphraseCredentials('wrong-pass-123') })
+    );
+    expect(response.error).toBeDefined();
+
+    const { entries } = getResult<{ entries: AuditEntryV2[] }>(await handleMessage(createRequest('getAuditLog', {})));
+    expect(entries.some((e) => e.op === 'rotate-master-secret')).toBe(false);
+    expect((await handleMessage(createRequest('createLease', { userId, ttlHours: 24, credentials }))).error).toBeUndefined();
+  });
+
+  it('should reject additional credentials for another account', async () => {
+    const response = await handleMessage(
+      createRequest('rotateMasterSecret', {
+        credentials,
+        additionalCredentials: [{ method: 'passphrase', passphrase, userId: 'other@example.com' }],
+      })
+    );
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('additionalCredentials[0] is for another account') });
+  });
+
+  it('should refuse up front when the KMS holds another account', async () => {
+    const otherUserId = 'other@example.com';
+    await handleMessage(createRequest('setupPassphrase', { userId: otherUserId, passphrase: 'other-pass-123' }));
+    const otherConfig = await getMeta(`enrollment:passphrase:v2:${otherUserId}`);
+
+    const response = await handleMessage(createRequest('rotateMasterSecret', { credentials }));
+    expect(response.error).toMatchObject({ code: 'CONFLICT', message: expect.stringContaining('holds other accounts') });
+
+    // Both accounts keep their keys: nothing was written
+    const { entries } = getResult<{ entries: AuditEntryV2[] }>(await handleMessage(createRequest('getAuditLog', {})));
+    expect(entries.some((e) => e.op === 'rotate-master-secret')).toBe(false);
+    expect((await handleMessage(createRequest('issueVAPIDJWT', { leaseId }))).error).toBeUndefined();
+    expect((await handleMessage(createRequest('createLease', { userId, ttlHours: 24, credentials }))).error).toBeUndefined();
+    expect(await getMeta(`enrollment:passphrase:v2:${otherUserId}`)).toEqual(otherConfig);
+  });
+});
+
+describe('passphrase recalibration', () => {
+  const userId = 'test@example.com';
+  const passphrase = 'calibrate-pass-123';
+  const configKey = `enrollment:passphrase:v2:${userId}`;
+
+  async function recalibrationEntries(): Promise<AuditEntryV2[]> {
+    const { entries } = getResult<{ entries: AuditEntryV2[] }>(await handleMessage(createRequest('getAuditLog', {})));
+    return entries.filter((e) => e.op === 'recalibrate-passphrase');
+  }
+
+  beforeEach(async () => {
+    await handleMessage(createRequest('setupPassphrase', { userId, passphrase }));
+  });
+
+  it('should leave a current calibration alone', async () => {
+    const before = await getMeta<PassphraseConfigV2>(configKey);
+
+    const response = await handleMessage(
+      createRequest('generateVAPID', { credentials: createPassphraseCredentials(passphrase) })
+    );
+    expect(response.error).toBeUndefined();
+
+    expect(await recalibrationEntries()).toEqual([]);
+    expect((await getMeta<PassphraseConfigV2>(configKey))!.kdf.lastCalibratedAt).toBe(before!.kdf.lastCalibratedAt);
+  });
+
+  it('should recalibrate a config from another platform after a passphrase unlock', async () => {
+    const config = (await getMeta<PassphraseConfigV2>(configKey))!;
+    await putMeta(configKey, { ...config, kdf: { ...config.kdf, platformHash: 'slow-phone' } });
+
+    const response = await handleMessage(
+      createRequest('generateVAPID', { credentials: createPassphraseCredentials(passphrase) })
+    );
+    expect(response.error).toBeUndefined();
+    // The response does not wait for the recalibration
+    expect((await getMeta<PassphraseConfigV2>(configKey))!.kdf.platformHash).toBe('slow-phone');
+
+    await vi.waitFor(async () => expect(await recalibrationEntries()).toHaveLength(1));
+    const updated = (await getMeta<PassphraseConfigV2>(configKey))!;
+    expect(updated.kdf.platformHash).not.toBe('slow-phone');
+    expect(new Uint8Array(updated.kdf.salt)).not.toEqual(new Uint8Array(config.kdf.salt));
+    expect(updated.createdAt).toBe(config.createdAt);
+
+    const [entry] = await recalibrationEntries();
+    expect(entry?.requestId).toBe(response.id);
+    expect(entry?.details).toMatchObject({
+      reason: 'platform',
+      previousIterations: config.kdf.iterations,
+      iterations: updated.kdf.iterations,
+    });
+
+    // Same passphrase, same keys
+    const lease = await handleMessage(
+      createRequest('createLease', { userId, ttlHours: 24, credentials: createPassphraseCredentials(passphrase) })
+    );
+    expect(lease.error).toBeUndefined();
+    expect(await recalibrationEntries()).toHaveLength(1);
+  });
+
+  it('should upgrade a PBKDF2 config to Argon2id after a passphrase unlock', async () => {
+    setPassphraseCalibrationPolicy(DEFAULT_PASSPHRASE_CALIBRATION);
+    try {
+      const response = await handleMessage(
+        createRequest('generateVAPID', { credentials: createPassphraseCredentials(passphrase) })
+      );
+      expect(response.error).toBeUndefined();
+
+      await vi.waitFor(async () => expect(await recalibrationEntries()).toHaveLength(1), { timeout: 10_000 });
+      const updated = (await getMeta<PassphraseConfigV2>(configKey))!;
+      expect(updated.kdf.algorithm).toBe('Argon2id');
+      expect((await recalibrationEntries())[0]?.details).toMatchObject({
+        reason: 'algorithm',
+        previousAlgorithm: 'PBKDF2-HMAC-SHA256',
+        algorithm: 'Argon2id',
+        iterations: updated.kdf.iterations,
+      });
+
+      // The upgraded config unlocks with the same passphrase
+      const lease = await handleMessage(
+        createRequest('createLease', { userId, ttlHours: 24, credentials: createPassphraseCredentials(passphrase) })
+      );
+      expect(lease.error).toBeUndefined();
+      expect(await recalibrationEntries()).toHaveLength(1);
+    } finally {
+      setPassphraseCalibrationPolicy({ ...DEFAULT_PASSPHRASE_CALIBRATION, algorithm: 'PBKDF2-HMAC-SHA256' });
+    }
+  });
+
+  it('should recalibrate a stale config', async () => {
+    const config = (await getMeta<PassphraseConfigV2>(configKey))!;
+    await putMeta(configKey, { ...config, kdf: { ...config.kdf, lastCalibratedAt: 0 } });
+
+    await handleMessage(createRequest('generateVAPID', { credentials: createPassphraseCredentials(passphrase) }));
+
+    await vi.waitFor(async () =>
+      expect((await recalibrationEntries())[0]?.details).toMatchObject({ reason: 'stale' })
+    );
+  });
+
+  it('should not undo a passphrase change made with the unlock it kept', async () => {
+    const config = (await getMeta<PassphraseConfigV2>(configKey))!;
+    await putMeta(configKey, { ...config, kdf: { ...config.kdf, platformHash: 'slow-phone' } });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      const response = await handleMessage(
+        createRequest('changePassphrase', {
+          newPassphrase: 'changed-pass-123',
+          credentials: createPassphraseCredentials(passphrase),
+        })
+      );
+      expect(response.error).toBeUndefined();
+
+      await vi.waitFor(() =>
+        expect(warn).toHaveBeenCalledWith(
+          '[KMS Worker] Passphrase recalibration failed (non-fatal):',
+          'Passphrase enrolment changed since it was unlocked'
+        )
+      );
+    } finally {
+      warn.mockRestore();
+    }
+    expect(await recalibrationEntries()).toEqual([]);
+    const lease = await handleMessage(
+      createRequest('createLease', { userId, ttlHours: 24, credentials: createPassphraseCredentials('changed-pass-123') })
+    );
+    expect(lease.error).toBeUndefined();
+  });
+
+  it('should not recalibrate after a failed request', async () => {
+    const config = (await getMeta<PassphraseConfigV2>(configKey))!;
+    await putMeta(configKey, { ...config, kdf: { ...config.kdf, platformHash: 'slow-phone' } });
+
+    const response = await handleMessage(
+      createRequest('generateVAPID', { credentials: createPassphraseCredentials('wrong-pass-123') })
+    );
+    expect(response.error).toBeDefined();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect((await getMeta<PassphraseConfigV2>(configKey))!.kdf.platformHash).toBe('slow-phone');
+  });
+});
+
+describe('Argon2id passphrase enrolment under the default policy', () => {
+  const passphrase = 'argon-pass-123';
+  const configKey = 'enrollment:passphrase:v2:test@example.com';
+
+  beforeEach(() => {
+    setPassphraseCalibrationPolicy(DEFAULT_PASSPHRASE_CALIBRATION);
+  });
+
+  afterEach(() => {
+    setPassphraseCalibrationPolicy({ ...DEFAULT_PASSPHRASE_CALIBRATION, algorithm: 'PBKDF2-HMAC-SHA256' });
+  });
+
+  it('should set up and unlock, answering other requests during the derivation', async () => {
+    const setup = await handleMessage(createRequest('setupPassphrase', { userId: 'test@example.com', passphrase }));
+    expect(setup.error).toBeUndefined();
+    expect((await getMeta<PassphraseConfigV2>(configKey))!.kdf.algorithm).toBe('Argon2id');
+
+    let leaseDone = false;
+    const lease = handleMessage(
+      createRequest('createLease', {
+        userId: 'test@example.com',
+        ttlHours: 24,
+        credentials: createPassphraseCredentials(passphrase),
+      })
+    ).finally(() => {
+      leaseDone = true;
+    });
+    const status = await handleMessage(createRequest('isSetup'));
+    expect(status.error).toBeUndefined();
+    expect(leaseDone).toBe(false);
+
+    expect((await lease).error).toBeUndefined();
+  }, 20_000);
+});
+
 // ============================================================================
 // Integration Tests
 // ============================================================================
@@ -2012,7 +3283,7 @@ describe('setupWithPopup', () => {
     const response = await responsePromise;
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('Test - not testing full encryption in unit tests');
+    expect(response.error).toMatchObject({ code: 'INTERNAL', message: expect.stringContaining('Test - not testing full encryption in unit tests') });
 
     postMessageSpy.mockRestore();
   });
@@ -2040,7 +3311,7 @@ describe('setupWithPopup', () => {
     const response = await responsePromise;
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('User closed popup');
+    expect(response.error).toMatchObject({ code: 'INTERNAL', message: expect.stringContaining('User closed popup') });
   });
 });
 
@@ -2058,6 +3329,7 @@ describe('worker integration', () => {
     // 2. Set push subscription
     const setPushResponse = await handleMessage(
       createRequest('setPushSubscription', {
+        userId: 'test-user',
         subscription: {
           endpoint: 'https://fcm.googleapis.com/fcm/send/integration-test-sub',
           expirationTime: null,
@@ -2451,7 +3723,7 @@ describe('setupWithEncryptedCredentials - ECDH encryption flow', () => {
 
     // Should fail with transport key not found error
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('Transport key not found or expired');
+    expect(response.error).toMatchObject({ code: 'EXPIRED', message: expect.stringContaining('Transport key not found or expired') });
   });
 
   it('should delete transport key after successful use', async () => {
@@ -2514,7 +3786,7 @@ describe('setupWithEncryptedCredentials - ECDH encryption flow', () => {
 
     // Should fail because transport key was deleted after first use
     expect(response2.error).toBeDefined();
-    expect(response2.error).toContain('Transport key not found or expired');
+    expect(response2.error).toMatchObject({ code: 'EXPIRED', message: expect.stringContaining('Transport key not found or expired') });
   });
 });
 
@@ -2588,7 +3860,7 @@ describe('getVAPIDKid', () => {
     const response = await handleMessage(createRequest('getVAPIDKid', {}));
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('No VAPID key found');
+    expect(response.error).toMatchObject({ code: 'NOT_SETUP', message: expect.stringContaining('No VAPID key found') });
   });
 
   it('should throw when multiple VAPID keys exist without explicit kid', async () => {
@@ -2606,104 +3878,111 @@ describe('getVAPIDKid', () => {
     const response = await handleMessage(createRequest('getVAPIDKid', {}));
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('Multiple VAPID keys found');
+    expect(response.error).toMatchObject({ code: 'CONFLICT', message: expect.stringContaining('Multiple VAPID keys found') });
   });
 });
 
 describe('push subscription operations', () => {
-  it('should set and get push subscription', async () => {
-    const setupResponse = await handleMessage(createRequest('setupPassphrase', {
-      userId: 'test-push-1@example.com',
-      passphrase: 'test-passphrase-123'
-    }));
-    const kid = getResult<{ vapidKid: string }>(setupResponse).vapidKid;
-    const creds = { method: 'passphrase' as const, passphrase: 'test-passphrase-123', userId: 'test-push-1@example.com' };
+  const userId = 'test-push@example.com';
+  const passphrase = 'test-passphrase-123';
 
-    const subscription = {
-      endpoint: 'https://fcm.googleapis.com/fcm/send/test-subscription-id',
+  function subscription(eid: string): Record<string, unknown> {
+    return {
+      endpoint: `https://fcm.googleapis.com/fcm/send/${eid}`,
       expirationTime: null,
-      keys: {
-        p256dh: 'test-p256dh-key',
-        auth: 'test-auth-key'
-      },
-      eid: 'test-device-1',
-      createdAt: Date.now()
+      keys: { p256dh: 'test-p256dh-key', auth: 'test-auth-key' },
+      eid,
+      createdAt: Date.now(),
     };
+  }
 
-    // Set subscription
-    const setResponse = await handleMessage(createRequest('setPushSubscription', {
-      kid,
-      subscription,
-      credentials: creds
-    }));
+  let kid: string;
+
+  beforeEach(async () => {
+    const setupResponse = await handleMessage(createRequest('setupPassphrase', { userId, passphrase }));
+    kid = getResult<{ vapidKid: string }>(setupResponse).vapidKid;
+  });
+
+  it('should set and get push subscription', async () => {
+    const setResponse = await handleMessage(
+      createRequest('setPushSubscription', { userId, subscription: subscription('laptop') })
+    );
     expect(setResponse.error).toBeUndefined();
     expect(getResult<{ success: boolean }>(setResponse).success).toBe(true);
 
-    // Get subscription
-    const getResponse = await handleMessage(createRequest('getPushSubscription', { kid }));
+    const getResponse = await handleMessage(createRequest('getPushSubscription', { userId, eid: 'laptop' }));
     expect(getResponse.error).toBeUndefined();
-    const result = getResult<{ subscription: any }>(getResponse);
-    expect(result.subscription.endpoint).toBe(subscription.endpoint);
-    expect(result.subscription.keys.p256dh).toBe(subscription.keys.p256dh);
-    expect(result.subscription.keys.auth).toBe(subscription.keys.auth);
+    expect(getResult<{ subscription: unknown }>(getResponse).subscription).toMatchObject({
+      ...subscription('laptop'),
+      createdAt: expect.any(Number),
+      userId,
+      kid,
+    });
   });
 
   it('should return null when no subscription exists', async () => {
-    const setupResponse = await handleMessage(createRequest('setupPassphrase', {
-      userId: 'test-push-2@example.com',
-      passphrase: 'test-passphrase-123'
-    }));
-    const kid = getResult<{ vapidKid: string }>(setupResponse).vapidKid;
-
-    const response = await handleMessage(createRequest('getPushSubscription', { kid }));
+    const response = await handleMessage(createRequest('getPushSubscription', { userId, eid: 'laptop' }));
 
     expect(response.error).toBeUndefined();
-    const result = getResult<{ subscription: any }>(response);
-    expect(result.subscription).toBeNull();
+    expect(getResult<{ subscription: unknown }>(response).subscription).toBeNull();
   });
 
-  it('should remove push subscription', async () => {
-    const setupResponse = await handleMessage(createRequest('setupPassphrase', {
-      userId: 'test-push-3@example.com',
-      passphrase: 'test-passphrase-123'
-    }));
-    const kid = getResult<{ vapidKid: string }>(setupResponse).vapidKid;
-    const creds = { method: 'passphrase' as const, passphrase: 'test-passphrase-123', userId: 'test-push-3@example.com' };
+  it('should keep each endpoint of a user separately', async () => {
+    for (const eid of ['laptop', 'phone', 'tablet']) {
+      await handleMessage(createRequest('setPushSubscription', { userId, subscription: subscription(eid) }));
+    }
+    await handleMessage(
+      createRequest('setPushSubscription', { userId: 'other@example.com', subscription: subscription('laptop') })
+    );
 
-    const subscription = {
-      endpoint: 'https://fcm.googleapis.com/fcm/send/test-subscription-id-3',
-      keys: { p256dh: 'key1', auth: 'key2' }
-    };
+    const response = await handleMessage(createRequest('listPushSubscriptions', { userId }));
+    expect(response.error).toBeUndefined();
+    const { subscriptions } = getResult<{ subscriptions: Array<{ eid: string; userId: string }> }>(response);
+    expect(subscriptions.map((s) => s.eid)).toEqual(['laptop', 'phone', 'tablet']);
+    expect(subscriptions.every((s) => s.userId === userId)).toBe(true);
+  });
 
-    // Set subscription
-    await handleMessage(createRequest('setPushSubscription', {
-      kid,
-      subscription,
-      credentials: creds
-    }));
+  it('should remove one endpoint and leave the others', async () => {
+    await handleMessage(createRequest('setPushSubscription', { userId, subscription: subscription('laptop') }));
+    await handleMessage(createRequest('setPushSubscription', { userId, subscription: subscription('phone') }));
 
-    // Remove subscription
-    const removeResponse = await handleMessage(createRequest('removePushSubscription', { kid }));
+    const removeResponse = await handleMessage(createRequest('removePushSubscription', { userId, eid: 'phone' }));
     expect(removeResponse.error).toBeUndefined();
-    expect(getResult<{ success: boolean }>(removeResponse).success).toBe(true);
+    expect(getResult<{ success: boolean; removed: boolean }>(removeResponse)).toEqual({ success: true, removed: true });
 
-    // Verify removed
-    const getResponse = await handleMessage(createRequest('getPushSubscription', { kid }));
-    const result = getResult<{ subscription: any }>(getResponse);
-    expect(result.subscription).toBeNull();
+    const getResponse = await handleMessage(createRequest('getPushSubscription', { userId, eid: 'phone' }));
+    expect(getResult<{ subscription: unknown }>(getResponse).subscription).toBeNull();
+    const { subscriptions } = getResult<{ subscriptions: Array<{ eid: string }> }>(
+      await handleMessage(createRequest('listPushSubscriptions', { userId }))
+    );
+    expect(subscriptions.map((s) => s.eid)).toEqual(['laptop']);
   });
 
   it('should succeed removing non-existent subscription', async () => {
-    const setupResponse = await handleMessage(createRequest('setupPassphrase', {
-      userId: 'test-push-4@example.com',
-      passphrase: 'test-passphrase-123'
-    }));
-    const kid = getResult<{ vapidKid: string }>(setupResponse).vapidKid;
+    const response = await handleMessage(createRequest('removePushSubscription', { userId, eid: 'laptop' }));
+
+    expect(response.error).toBeUndefined();
+    expect(getResult<{ success: boolean; removed: boolean }>(response)).toEqual({ success: true, removed: false });
+  });
+
+  it('should require a userId', async () => {
+    const response = await handleMessage(createRequest('setPushSubscription', { subscription: subscription('laptop') }));
 
-    const response = await handleMessage(createRequest('removePushSubscription', { kid }));
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('userId') });
+  });
 
+  it('should drop the subscriptions of a regenerated VAPID key', async () => {
+    await handleMessage(createRequest('setPushSubscription', { userId, subscription: subscription('laptop') }));
+
+    const response = await handleMessage(
+      createRequest('regenerateVAPID', { credentials: { ...createPassphraseCredentials(passphrase), userId } })
+    );
     expect(response.error).toBeUndefined();
-    expect(getResult<{ success: boolean }>(response).success).toBe(true);
+
+    const { subscriptions } = getResult<{ subscriptions: unknown[] }>(
+      await handleMessage(createRequest('listPushSubscriptions', { userId }))
+    );
+    expect(subscriptions).toEqual([]);
   });
 });
 
@@ -2724,7 +4003,7 @@ describe('validation errors', () => {
       credentials: creds
     }));
     expect(response1.error).toBeDefined();
-    expect(response1.error).toContain('Invalid payload.aud');
+    expect(response1.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('Invalid payload.aud') });
   });
 
   it('should throw when creating lease without VAPID key', async () => {
@@ -2735,7 +4014,7 @@ describe('validation errors', () => {
     }));
 
     // Reset KMS to clear VAPID key but keep enrollment
-    await handleMessage(createRequest('resetKMS', { userId: 'test-val-2@example.com' }));
+    await resetWithConfirmation('test-val-2@example.com', 'test-passphrase-123', 'confirm');
 
     // Setup again without VAPID generation (wait, resetKMS clears everything...)
     // Actually, we can't have enrollment without VAPID key after setup.
@@ -2767,7 +4046,7 @@ describe('validation errors', () => {
     }));
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('credentialId required');
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('credentialId required') });
   });
 
   it('should validate credentialId is not empty in setupPasskeyGate', async () => {
@@ -2777,7 +4056,7 @@ describe('validation errors', () => {
     }));
 
     expect(response.error).toBeDefined();
-    expect(response.error).toContain('credentialId required');
+    expect(response.error).toMatchObject({ code: 'VALIDATION', message: expect.stringContaining('credentialId required') });
   });
 });
 
@@ -2793,6 +4072,7 @@ describe('issueVAPIDJWT - auto-detect and error cases', () => {
 
     await handleMessage(createRequest('setPushSubscription', {
       kid,
+      userId: 'test-jwt-1@example.com',
       subscription: {
         endpoint: 'https://fcm.googleapis.com/fcm/send/test-jwt-1',
         expirationTime: null,